@@ -0,0 +1,118 @@
+/**
+ * Request authentication for API functions
+ * The client sends the signed-in user's Supabase access token as a bearer
+ * token; the user's roles come from the users table, never from the request.
+ */
+
+import type { VercelRequest } from '@vercel/node';
+import { supabaseAdmin } from './supabase';
+
+// Mirrored in src/types
+export type UserRole = 'passenger' | 'driver' | 'support_agent' | 'finance' | 'admin';
+
+export type Permission =
+  | 'licenses:review'
+  | 'bookings:grant_cancellation_exception'
+  | 'bookings:force_timeout'
+  | 'drivers:clear_warnings'
+  | 'payments:reconcile'
+  | 'payouts:run'
+  | 'support:manage_tickets'
+  | 'credits:issue_goodwill'
+  | 'safety:manage_incidents'
+  | 'safety:resolve_incidents';
+
+// The only copy; the client reads a user's permissions from /api/auth/access
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  passenger: [],
+  driver: [],
+  support_agent: [
+    'bookings:grant_cancellation_exception',
+    'drivers:clear_warnings',
+    'support:manage_tickets',
+    'credits:issue_goodwill',
+    'safety:manage_incidents'
+  ],
+  finance: ['payments:reconcile', 'payouts:run'],
+  admin: [
+    'licenses:review',
+    'bookings:grant_cancellation_exception',
+    'bookings:force_timeout',
+    'drivers:clear_warnings',
+    'payments:reconcile',
+    'payouts:run',
+    'support:manage_tickets',
+    'credits:issue_goodwill',
+    'safety:manage_incidents',
+    'safety:resolve_incidents'
+  ],
+};
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  roles: UserRole[];
+}
+
+/**
+ * Everyone is a passenger; is_driver adds driver and users.role adds a staff role
+ */
+export function getUserRoles(profile: { role?: string | null; is_driver?: boolean | null } | null): UserRole[] {
+  const roles: UserRole[] = ['passenger'];
+  if (profile?.is_driver) roles.push('driver');
+  if (profile?.role && profile.role in ROLE_PERMISSIONS && !roles.includes(profile.role as UserRole)) {
+    roles.push(profile.role as UserRole);
+  }
+  return roles;
+}
+
+export function hasPermission(roles: UserRole[], permission: Permission): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Every permission the roles grant, without repeats
+ */
+export function getPermissions(roles: UserRole[]): Permission[] {
+  return Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role])));
+}
+
+/**
+ * The signed-in user making the request, or null without a valid token
+ */
+export async function getAuthenticatedUser(req: VercelRequest): Promise<AuthenticatedUser | null> {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  const { data: profile } = await supabaseAdmin
+    .from('users')
+    .select('role, is_driver')
+    .eq('id', data.user.id)
+    .single();
+
+  return {
+    id: data.user.id,
+    email: data.user.email,
+    roles: getUserRoles(profile),
+  };
+}
+
+/**
+ * The signed-in user if they have one of the roles, otherwise null
+ */
+export async function requireRole(req: VercelRequest, roles: UserRole[]): Promise<AuthenticatedUser | null> {
+  const user = await getAuthenticatedUser(req);
+  return user && user.roles.some(role => roles.includes(role)) ? user : null;
+}
+
+/**
+ * The signed-in user if one of their roles grants the permission, otherwise null
+ */
+export async function requirePermission(req: VercelRequest, permission: Permission): Promise<AuthenticatedUser | null> {
+  const user = await getAuthenticatedUser(req);
+  return user && hasPermission(user.roles, permission) ? user : null;
+}
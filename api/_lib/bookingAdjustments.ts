@@ -0,0 +1,284 @@
+/**
+ * Booking adjustments
+ * Shrinks a booking without ending it. Fewer seats are refunded like a
+ * cancellation of the seats given up: before capture the hold is lowered pro
+ * rata, after capture the passenger gets the refund the booking's
+ * cancellation policy snapshot allows for those seats, and the rest is kept
+ * as a cancellation fee. A driver taking seats away refunds them in full.
+ * Freed seats are offered to the waitlist. An early drop-off lowers the
+ * booking to the driver's price for the shorter trip and refunds the
+ * difference in full. Status is untouched.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { AuthenticatedUser } from './auth';
+import { getBookingPolicy } from './bookingTransitions';
+import { notifyPaymentRefunded } from './paymentNotifications';
+import { RefundReason, lowerBookingHold, refundBookingPart } from './paymentSettlement';
+import { offerFreedSeats } from './waitlist';
+import { calculateCancellationRefund } from '../../src/lib/cancellationPolicy';
+
+export interface BookingAdjustmentResult {
+  success: boolean;
+  booking?: any;
+  previousAmount?: number;
+  newAmount?: number;
+  refundAmount?: number;
+  cancellationFee?: number;
+  error?: string;
+}
+
+// Bookings that still have a payment and a place on the ride
+const ADJUSTABLE_STATUSES = ['waitlisted', 'offered', 'pending', 'confirmed'];
+
+// Statuses whose freed seats go back to the waitlist
+const SEAT_HOLDING_STATUSES = ['offered', 'pending', 'confirmed'];
+
+// Payment states of a booking whose payment has been captured
+const CAPTURED_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Move the booking's payment down to its new total: refund a captured
+ * payment, keeping the cancellation fee, or lower a hold not yet captured.
+ * Returns what went back to the passenger.
+ */
+async function settleAdjustment(
+  booking: any,
+  newAmount: number,
+  refundAmount: number,
+  cancellationFee: number,
+  reason: RefundReason
+): Promise<{ success: boolean; refunded?: number; error?: string }> {
+  if (CAPTURED_PAYMENT_STATUSES.includes(booking.payment_status)) {
+    if (refundAmount <= 0) return { success: true, refunded: 0 };
+
+    const refund = await refundBookingPart(booking.id, refundAmount, cancellationFee, reason);
+    return refund.success
+      ? { success: true, refunded: refund.refundAmount || 0 }
+      : { success: false, error: refund.error || 'Payment adjustment failed' };
+  }
+
+  if (booking.payment_status === 'authorized') {
+    const hold = await lowerBookingHold(booking.id, newAmount, reason);
+    return hold.success
+      ? { success: true, refunded: hold.refundAmount || 0 }
+      : { success: false, error: hold.error || 'Payment adjustment failed' };
+  }
+
+  return { success: true, refunded: 0 };
+}
+
+/**
+ * The booking with its ride, if the user is its passenger or driver
+ */
+async function getAdjustableBooking(user: AuthenticatedUser, bookingId: number): Promise<{ booking?: any; error?: string }> {
+  const { data: booking, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('*, rides (id, driver_id, departure_time, cancellation_policy)')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const ride = booking?.rides;
+  if (!booking || !ride || (booking.passenger_id !== user.id && ride.driver_id !== user.id)) {
+    return { error: 'Booking not found' };
+  }
+
+  if (!ADJUSTABLE_STATUSES.includes(booking.status)) {
+    return { error: `A ${booking.status.replace('_', ' ')} booking cannot be changed` };
+  }
+
+  if (booking.transition_to) {
+    return { error: 'Booking was changed by someone else. Please refresh.' };
+  }
+
+  return { booking };
+}
+
+/**
+ * Reduce the seats on a booking. The passenger or the ride's driver may do this.
+ */
+export async function reduceSeats(user: AuthenticatedUser, bookingId: number, seats: number): Promise<BookingAdjustmentResult> {
+  const { booking, error } = await getAdjustableBooking(user, bookingId);
+  if (!booking) {
+    return { success: false, error };
+  }
+
+  const ride = booking.rides;
+  const isPassenger = booking.passenger_id === user.id;
+
+  if (!Number.isInteger(seats) || seats < 1 || seats >= booking.seats_booked) {
+    return { success: false, error: `Seats must be between 1 and ${booking.seats_booked - 1}` };
+  }
+
+  const total = Number(booking.total_amount);
+  const removedAmount = round(total * (booking.seats_booked - seats) / booking.seats_booked);
+  const captured = CAPTURED_PAYMENT_STATUSES.includes(booking.payment_status);
+
+  // Only a passenger giving up captured seats pays the policy's fee
+  let refundAmount = removedAmount;
+  let cancellationFee = 0;
+  if (captured && isPassenger) {
+    const policy = await getBookingPolicy(booking, ride);
+    const hoursUntilDeparture = (new Date(ride.departure_time).getTime() - Date.now()) / (1000 * 60 * 60);
+    ({ refundAmount, cancellationFee } = calculateCancellationRefund(policy, removedAmount, hoursUntilDeparture, booking.created_at));
+  }
+
+  const newAmount = round(total - refundAmount);
+
+  const settlement = await settleAdjustment(booking, newAmount, refundAmount, cancellationFee, 'seats_reduced');
+  if (!settlement.success) {
+    return { success: false, error: settlement.error };
+  }
+  const refunded = settlement.refunded || 0;
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('ride_bookings')
+    .update({
+      seats_booked: seats,
+      total_amount: newAmount,
+      ...(captured && refunded > 0 ? { payment_status: 'partially_refunded' } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', bookingId)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error(`Booking ${bookingId} payment was adjusted but the booking update failed:`, updateError);
+    return { success: false, error: 'Failed to update booking' };
+  }
+
+  try {
+    const { error: seatsError } = await supabaseAdmin
+      .from('segment_seats')
+      .update({ seats_count: seats })
+      .eq('booking_id', bookingId);
+
+    if (seatsError) throw seatsError;
+
+    if (SEAT_HOLDING_STATUSES.includes(booking.status)) {
+      await offerFreedSeats({
+        ride_id: booking.ride_id,
+        seats_booked: booking.seats_booked - seats,
+        from_segment_id: booking.from_segment_id,
+        to_segment_id: booking.to_segment_id,
+      }, bookingId);
+    }
+
+    if (refunded > 0) {
+      await notifyPaymentRefunded(bookingId, booking.passenger_id, 'seats_reduced');
+    }
+  } catch (seatError) {
+    console.error(`Error releasing seats for booking ${bookingId}:`, seatError);
+  }
+
+  return {
+    success: true,
+    booking: updated,
+    previousAmount: total,
+    newAmount,
+    refundAmount: refunded,
+    cancellationFee,
+  };
+}
+
+/**
+ * Record that the driver dropped the passenger off at an earlier stop than
+ * booked. The app prices the shorter trip from the route; the booking can
+ * only get cheaper, and the difference is refunded in full. The seats beyond
+ * the drop-off are freed; the ride is under way, so nobody is waiting for them.
+ */
+export async function endAtEarlierStop(
+  user: AuthenticatedUser,
+  bookingId: number,
+  dropoffSegmentId: number,
+  amount: number
+): Promise<BookingAdjustmentResult> {
+  const { booking, error } = await getAdjustableBooking(user, bookingId);
+  if (!booking) {
+    return { success: false, error };
+  }
+
+  if (booking.rides.driver_id !== user.id) {
+    return { success: false, error: 'Only the driver can record an early drop-off' };
+  }
+
+  const { data: stops, error: stopsError } = await supabaseAdmin
+    .from('ride_segments')
+    .select('id, segment_order')
+    .eq('ride_id', booking.ride_id)
+    .order('segment_order', { ascending: true });
+
+  if (stopsError) throw stopsError;
+  if (!stops || stops.length < 2) {
+    return { success: false, error: 'This ride has no stops to drop off at' };
+  }
+
+  const fromIndex = Math.max(stops.findIndex(stop => stop.id === booking.from_segment_id), 0);
+  const bookedToIndex = stops.findIndex(stop => stop.id === booking.to_segment_id);
+  const toIndex = bookedToIndex >= 0 ? bookedToIndex : stops.length - 1;
+  const dropoffIndex = stops.findIndex(stop => stop.id === dropoffSegmentId);
+
+  if (dropoffIndex <= fromIndex || dropoffIndex >= toIndex) {
+    return { success: false, error: 'The drop-off must be a stop between the passenger\'s pickup and booked destination' };
+  }
+
+  const total = Number(booking.total_amount);
+  const newAmount = round(Number(amount));
+  if (!(newAmount > 0) || newAmount > total) {
+    return { success: false, error: `The new price must be between $0 and $${total.toFixed(2)}` };
+  }
+
+  const settlement = await settleAdjustment(booking, newAmount, round(total - newAmount), 0, 'early_dropoff');
+  if (!settlement.success) {
+    return { success: false, error: settlement.error };
+  }
+  const refunded = settlement.refunded || 0;
+  const captured = CAPTURED_PAYMENT_STATUSES.includes(booking.payment_status);
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('ride_bookings')
+    .update({
+      to_segment_id: dropoffSegmentId,
+      total_amount: newAmount,
+      ...(captured && refunded > 0 ? { payment_status: 'partially_refunded' } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', bookingId)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error(`Booking ${bookingId} payment was adjusted but the booking update failed:`, updateError);
+    return { success: false, error: 'Failed to update booking' };
+  }
+
+  try {
+    const { error: seatsError } = await supabaseAdmin
+      .from('segment_seats')
+      .delete()
+      .eq('booking_id', bookingId)
+      .in('segment_id', stops.slice(dropoffIndex, toIndex).map(stop => stop.id));
+
+    if (seatsError) throw seatsError;
+
+    if (refunded > 0) {
+      await notifyPaymentRefunded(bookingId, booking.passenger_id, 'early_dropoff');
+    }
+  } catch (seatError) {
+    console.error(`Error releasing seats for booking ${bookingId}:`, seatError);
+  }
+
+  return {
+    success: true,
+    booking: updated,
+    previousAmount: total,
+    newAmount,
+    refundAmount: refunded,
+    cancellationFee: 0,
+  };
+}
@@ -0,0 +1,715 @@
+/**
+ * Booking state machine
+ * The only place that changes ride_bookings.status; the database refuses
+ * status and claim writes from signed-in users. A transition first claims
+ * the booking (ride_bookings.transition_to, conditional on the status it read
+ * and on no other live claim), then settles the payment (capture on accept,
+ * void or refund on the way out), so only one transition can move money and
+ * a booking never ends up cancelled while still paid. A refund to the credit
+ * wallet is the exception: issue_cancellation_credit only pays out on a
+ * cancelled booking, so it runs right after the status update. Refunds are
+ * worked out here from the booking's cancellation policy snapshot, never
+ * taken from the caller. Every attempt is written to booking_events.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { AuthenticatedUser } from './auth';
+import { createBookingEarning } from './earnings';
+import { rewardReferral } from './wallet';
+import { notifyPaymentEvent, notifyPaymentRefunded } from './paymentNotifications';
+import {
+  RefundReason,
+  captureBookingPayment,
+  refundBookingPart,
+  releaseBookingPayment,
+  returnBookingDiscounts
+} from './paymentSettlement';
+import {
+  BookingStatus,
+  BookingTransitionReason,
+  RELEASING_STATUSES,
+  SEAT_HOLDING_STATUSES,
+  canTransitionBooking
+} from '../../src/lib/bookingStatus';
+import {
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICIES,
+  DEFAULT_CANCELLATION_POLICY_KEY,
+  calculateCancellationRefund,
+  normalizeCancellationPolicy
+} from '../../src/lib/cancellationPolicy';
+
+export interface TransitionOptions {
+  reason: BookingTransitionReason;
+  actorId: string | null; // null for system transitions (timeouts, scheduled jobs)
+  refundAmount?: number; // Refund when cancelling a confirmed booking; the full amount when omitted
+  refundAsCredit?: boolean; // Confirmed bookings: refund to the passenger's credit wallet instead of their card
+  metadata?: Record<string, any>;
+}
+
+export interface TransitionResult {
+  success: boolean;
+  booking?: any;
+  refundAmount?: number;
+  error?: string;
+}
+
+export interface CancellationResult {
+  success: boolean;
+  refunded: boolean;
+  refundAmount?: number;
+  cancellationFee?: number;
+  error?: string;
+}
+
+export interface RideCancellationResult {
+  bookingsCancelled: number;
+  refundsFailed: number;
+  countsAsWarning: boolean;
+}
+
+export interface RideCompletionResult {
+  completed: number;
+  failed: number;
+}
+
+export interface TimeoutRunResult {
+  bookingsChecked: number;
+  bookingsTimedOut: number;
+}
+
+interface PaymentSettlement {
+  success: boolean;
+  paymentStatus?: string;
+  refundAmount?: number;
+  creditAmount?: number; // Refund to the credit wallet, issued once the booking is cancelled
+  error?: string;
+}
+
+// Payment states that still hold the passenger's money
+const HELD_PAYMENT_STATUSES = ['authorized', 'paid', 'partially_refunded'];
+
+// A claim older than this was left by a request that never finished, and can be taken over
+const CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Bookings released by the timeout run once their response_deadline passes
+const TIMEOUT_STATUSES: BookingStatus[] = ['pending', 'offered', 'waitlisted'];
+
+// Moves a passenger or driver may ask for themselves; everything else is the server's own
+const REQUESTABLE_TRANSITIONS: Partial<Record<BookingTransitionReason, { from: BookingStatus; to: BookingStatus; by: 'passenger' | 'driver' }>> = {
+  driver_accepted: { from: 'pending', to: 'confirmed', by: 'driver' },
+  driver_rejected: { from: 'pending', to: 'rejected', by: 'driver' },
+  waitlist_accepted: { from: 'offered', to: 'pending', by: 'passenger' },
+  waitlist_declined: { from: 'offered', to: 'cancelled', by: 'passenger' },
+  waitlist_left: { from: 'waitlisted', to: 'cancelled', by: 'passenger' },
+  payment_failed: { from: 'pending', to: 'cancelled', by: 'passenger' },
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const describeStatus = (status: string) => status.replace('_', ' ');
+
+async function getBooking(bookingId: number): Promise<any | null> {
+  const { data, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('*, rides (id, driver_id, from_location, to_location, departure_time, cancellation_policy)')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Policy by key from cancellation_policies, falling back to the default policy
+ */
+async function getPolicy(key?: string | null): Promise<CancellationPolicy> {
+  const { data, error } = await supabaseAdmin
+    .from('cancellation_policies')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error loading cancellation policies, using defaults:', error);
+  }
+
+  const policies = [
+    ...(data || []).map(row => normalizeCancellationPolicy(row)),
+    ...DEFAULT_CANCELLATION_POLICIES,
+  ];
+  return policies.find(policy => policy.key === key)
+    || policies.find(policy => policy.is_default)
+    || DEFAULT_CANCELLATION_POLICIES.find(policy => policy.key === DEFAULT_CANCELLATION_POLICY_KEY)!;
+}
+
+/**
+ * Policy in effect for a booking: its snapshot, or for bookings made before
+ * snapshots existed, the ride's current policy
+ */
+export async function getBookingPolicy(booking: any, ride?: { cancellation_policy?: string | null }): Promise<CancellationPolicy> {
+  return booking.cancellation_policy_snapshot
+    ? normalizeCancellationPolicy(booking.cancellation_policy_snapshot)
+    : getPolicy(ride?.cancellation_policy);
+}
+
+function getRefundReason(reason: BookingTransitionReason): RefundReason {
+  switch (reason) {
+    case 'driver_rejected':
+    case 'driver_cancelled':
+    case 'timeout':
+      return reason;
+    case 'waitlist_declined':
+    case 'waitlist_left':
+    case 'waitlist_closed':
+    case 'offer_expired':
+    case 'hold_expired':
+      return 'waitlist_released';
+    default:
+      return 'passenger_cancelled';
+  }
+}
+
+/**
+ * Mark the booking as being moved to a status, unless it has left the status
+ * we read or another transition holds a live claim on it
+ */
+async function claim(booking: any, to: BookingStatus): Promise<boolean> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - CLAIM_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .update({ transition_to: to, transition_claimed_at: now.toISOString() })
+    .eq('id', booking.id)
+    .eq('status', booking.status)
+    .or(`transition_to.is.null,transition_claimed_at.lt.${staleBefore}`)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to claim booking ${booking.id}:`, error);
+    return false;
+  }
+  return !!data;
+}
+
+/**
+ * Give up a claim whose payment could not be settled, so the booking can be tried again
+ */
+async function releaseClaim(bookingId: number, to: BookingStatus): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ride_bookings')
+    .update({ transition_to: null, transition_claimed_at: null })
+    .eq('id', bookingId)
+    .eq('transition_to', to);
+
+  if (error) {
+    console.error(`Failed to release claim on booking ${bookingId}:`, error);
+  }
+}
+
+/**
+ * Capture on accept; void or refund when a booking ends without a trip
+ */
+async function settlePayment(booking: any, to: BookingStatus, options: TransitionOptions): Promise<PaymentSettlement> {
+  if (to === 'confirmed') {
+    const capture = await captureBookingPayment(booking.id);
+    return capture.success
+      ? { success: true, paymentStatus: 'paid' }
+      : { success: false, error: capture.error || 'Payment capture failed' };
+  }
+
+  if (!RELEASING_STATUSES.includes(to)) {
+    return { success: true };
+  }
+
+  // No hold went through, but a promo code and credit may have been reserved for one
+  if (!HELD_PAYMENT_STATUSES.includes(booking.payment_status)) {
+    try {
+      return { success: true, refundAmount: await returnBookingDiscounts(booking.id, 1, getRefundReason(options.reason)) };
+    } catch (error) {
+      console.error(`Failed to return discounts for booking ${booking.id}:`, error);
+      return { success: false, error: 'Failed to return discounts' };
+    }
+  }
+
+  const total = Number(booking.total_amount);
+
+  // Holds on pending bookings are always released in full
+  const requested = booking.status === 'confirmed' && options.refundAmount !== undefined
+    ? Math.min(Math.max(options.refundAmount, 0), total)
+    : total;
+
+  if (requested <= 0) {
+    return { success: true, refundAmount: 0 };
+  }
+
+  if (booking.status === 'confirmed' && options.refundAsCredit) {
+    return { success: true, creditAmount: requested };
+  }
+
+  const refundReason = getRefundReason(options.reason);
+
+  if (booking.status === 'confirmed' && requested < total) {
+    const partial = await refundBookingPart(booking.id, requested, round(total - requested), refundReason);
+    return partial.success
+      ? { success: true, paymentStatus: requested < total ? 'partially_refunded' : 'refunded', refundAmount: partial.refundAmount }
+      : { success: false, error: partial.error || 'Refund failed' };
+  }
+
+  const refund = await releaseBookingPayment(booking.id, refundReason);
+  return refund.success
+    ? { success: true, paymentStatus: 'refunded', refundAmount: refund.refundAmount }
+    : { success: false, error: refund.error || 'Refund failed' };
+}
+
+/**
+ * Refund a booking that has just been cancelled to the passenger's credit
+ * wallet, keeping the rest as the cancellation fee
+ */
+async function settleCredit(booking: any, amount: number, options: TransitionOptions): Promise<PaymentSettlement> {
+  const total = Number(booking.total_amount);
+  const credit = await refundBookingPart(booking.id, amount, round(total - amount), getRefundReason(options.reason), true);
+  if (!credit.success) {
+    return { success: false, error: credit.error || 'Refund failed' };
+  }
+
+  const paymentStatus = amount < total ? 'partially_refunded' : 'refunded';
+  const { error } = await supabaseAdmin
+    .from('ride_bookings')
+    .update({ payment_status: paymentStatus, updated_at: new Date().toISOString() })
+    .eq('id', booking.id);
+
+  if (error) {
+    console.error(`Failed to record the credit refund on booking ${booking.id}:`, error);
+  }
+
+  return { success: true, paymentStatus, refundAmount: credit.refundAmount };
+}
+
+/**
+ * Notifications, earnings, referral rewards and the waitlist. Failures here are logged, the transition stands.
+ */
+async function runSideEffects(
+  booking: any,
+  from: BookingStatus,
+  to: BookingStatus,
+  options: TransitionOptions,
+  settlement: PaymentSettlement
+): Promise<void> {
+  try {
+    if (to === 'confirmed') {
+      await notifyPaymentEvent('payment_captured', booking.id, booking.passenger_id);
+    } else if (settlement.refundAmount && settlement.refundAmount > 0) {
+      await notifyPaymentRefunded(booking.id, booking.passenger_id, getRefundReason(options.reason));
+    }
+
+    if (SEAT_HOLDING_STATUSES.includes(from) && RELEASING_STATUSES.includes(to)) {
+      const { offerFreedSeats } = await import('./waitlist');
+      await offerFreedSeats(booking, booking.id);
+    }
+
+    if (to === 'completed') {
+      await createBookingEarning(booking.id);
+      await rewardReferral(booking.passenger_id, booking.id);
+    } else if (from === 'confirmed' && to === 'cancelled') {
+      // Earnings not yet requested are replaced by whatever the passenger still pays
+      await createBookingEarning(booking.id);
+    }
+  } catch (error) {
+    console.error(`Error running side effects for booking ${booking.id}:`, error);
+  }
+}
+
+async function recordEvent(
+  booking: any,
+  from: BookingStatus,
+  to: BookingStatus,
+  options: TransitionOptions,
+  outcome: { succeeded: boolean; paymentStatus?: string | null; refundAmount?: number; error?: string }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('booking_events')
+    .insert({
+      booking_id: booking.id,
+      ride_id: booking.ride_id,
+      from_status: from,
+      to_status: to,
+      reason: options.reason,
+      actor_id: options.actorId,
+      payment_status: outcome.paymentStatus ?? null,
+      refund_amount: outcome.refundAmount ?? null,
+      succeeded: outcome.succeeded,
+      error: outcome.error ?? null,
+      metadata: options.metadata ?? null,
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error(`Failed to record booking event for booking ${booking.id}:`, error);
+  }
+}
+
+async function sendSystemMessage(booking: { id: number; ride_id: number }, senderId: string | null, message: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('messages')
+    .insert({
+      booking_id: booking.id,
+      ride_id: booking.ride_id,
+      sender_id: senderId,
+      message,
+      is_system_message: true,
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error(`Failed to send system message for booking ${booking.id}:`, error);
+  }
+}
+
+/**
+ * Move a booking to a new status, settling its payment and recording the
+ * event. Server code only: refundAmount and refundAsCredit come from the
+ * cancellation flows below, never from a request.
+ */
+export async function transitionBooking(bookingId: number, to: BookingStatus, options: TransitionOptions): Promise<TransitionResult> {
+  try {
+    const booking = await getBooking(bookingId);
+    if (!booking) {
+      return { success: false, error: 'Booking not found' };
+    }
+
+    const from = booking.status as BookingStatus;
+
+    if (!canTransitionBooking(from, to)) {
+      return { success: false, error: `Booking is already ${describeStatus(from)} and cannot be changed to ${describeStatus(to)}` };
+    }
+
+    if (!await claim(booking, to)) {
+      const error = 'Booking was changed by someone else. Please refresh.';
+      await recordEvent(booking, from, to, options, { succeeded: false, paymentStatus: booking.payment_status, error });
+      return { success: false, error };
+    }
+
+    let settlement = await settlePayment(booking, to, options);
+    if (!settlement.success) {
+      await releaseClaim(bookingId, to);
+      await recordEvent(booking, from, to, options, {
+        succeeded: false,
+        paymentStatus: booking.payment_status,
+        error: settlement.error,
+      });
+      return { success: false, error: settlement.error };
+    }
+
+    const update: Record<string, any> = {
+      status: to,
+      transition_to: null,
+      transition_claimed_at: null,
+      updated_at: new Date().toISOString(),
+    };
+    if (settlement.paymentStatus) {
+      update.payment_status = settlement.paymentStatus;
+    }
+    if (from === 'pending') {
+      update.response_deadline = null;
+    }
+
+    // Still conditional on our claim; it only misses if the claim timed out and was taken over
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('ride_bookings')
+      .update(update)
+      .eq('id', bookingId)
+      .eq('status', from)
+      .eq('transition_to', to)
+      .select()
+      .maybeSingle();
+
+    if (updateError || !updated) {
+      const error = updateError ? 'Failed to update booking status' : 'Booking was changed by someone else. Please refresh.';
+      console.error(`Booking ${bookingId} payment was settled for ${to} but the status was not updated:`, updateError || 'claim lost');
+      await recordEvent(booking, from, to, options, {
+        succeeded: false,
+        paymentStatus: settlement.paymentStatus || booking.payment_status,
+        refundAmount: settlement.refundAmount,
+        error,
+      });
+      return { success: false, error };
+    }
+
+    let creditError: string | undefined;
+    if (settlement.creditAmount) {
+      const credit = await settleCredit(booking, settlement.creditAmount, options);
+      if (credit.success) {
+        settlement = credit;
+        updated.payment_status = credit.paymentStatus;
+      } else {
+        // The booking stays cancelled; the error on its event flags it for a manual refund
+        creditError = credit.error;
+        console.error(`Booking ${bookingId} was cancelled but its credit refund failed:`, credit.error);
+      }
+    }
+
+    await recordEvent(booking, from, to, options, {
+      succeeded: true,
+      paymentStatus: updated.payment_status,
+      refundAmount: settlement.refundAmount,
+      error: creditError,
+    });
+
+    await runSideEffects(booking, from, to, options, settlement);
+
+    return { success: true, booking: updated, refundAmount: settlement.refundAmount };
+  } catch (error) {
+    console.error(`Error transitioning booking ${bookingId} to ${to}:`, error);
+    return { success: false, error: 'Failed to update booking' };
+  }
+}
+
+/**
+ * A move the signed-in user asks for on their own booking: the driver
+ * accepting or declining a request, or the passenger taking or giving up a
+ * waitlist seat or dropping a booking whose payment never went through
+ */
+export async function requestTransition(
+  user: AuthenticatedUser,
+  bookingId: number,
+  body: { to?: BookingStatus; reason?: BookingTransitionReason; metadata?: Record<string, any> }
+): Promise<TransitionResult> {
+  const allowed = body.reason ? REQUESTABLE_TRANSITIONS[body.reason] : undefined;
+  if (!allowed || allowed.to !== body.to) {
+    return { success: false, error: 'That booking change is not allowed' };
+  }
+
+  const booking = await getBooking(bookingId);
+  const ride = booking?.rides;
+  const isParty = allowed.by === 'driver' ? ride?.driver_id === user.id : booking?.passenger_id === user.id;
+  if (!booking || !isParty) {
+    return { success: false, error: 'Booking not found' };
+  }
+
+  // Anything else goes through cancelBooking, which applies the cancellation policy
+  if (booking.status !== allowed.from) {
+    return { success: false, error: `Booking is already ${describeStatus(booking.status)}` };
+  }
+
+  // Taking a seat also claims it on each leg of the route
+  if (body.reason === 'waitlist_accepted') {
+    const { acceptOffer } = await import('./waitlist');
+    return acceptOffer(booking, user.id);
+  }
+
+  // Only a booking whose payment never went through can be dropped this way
+  if (body.reason === 'payment_failed' && HELD_PAYMENT_STATUSES.includes(booking.payment_status)) {
+    return { success: false, error: 'This booking has a payment; cancel it instead' };
+  }
+
+  return transitionBooking(bookingId, allowed.to, {
+    reason: body.reason!,
+    actorId: user.id,
+    metadata: body.metadata,
+  });
+}
+
+/**
+ * Cancel a booking as its passenger or driver. A pending hold is released
+ * in full; a confirmed booking is refunded by its cancellation policy
+ * snapshot, to the card or, with refundAsCredit, to the credit wallet.
+ */
+export async function cancelBooking(user: AuthenticatedUser, bookingId: number, refundAsCredit: boolean = false): Promise<CancellationResult> {
+  const booking = await getBooking(bookingId);
+  const ride = booking?.rides;
+
+  if (!booking || !ride || (booking.passenger_id !== user.id && ride.driver_id !== user.id)) {
+    return { success: false, refunded: false, error: 'Booking not found' };
+  }
+
+  if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+    return { success: false, refunded: false, error: `Booking is already ${describeStatus(booking.status)}` };
+  }
+
+  const total = Number(booking.total_amount);
+  let refundAmount = total;
+  let cancellationFee = 0;
+
+  if (booking.status === 'confirmed') {
+    const hoursUntilDeparture = (new Date(ride.departure_time).getTime() - Date.now()) / (1000 * 60 * 60);
+
+    // Past rides, unless support granted an exception
+    if (hoursUntilDeparture <= -2 && !booking.can_cancel_after_confirm) {
+      return { success: false, refunded: false, error: 'Cannot cancel completed rides' };
+    }
+
+    const policy = await getBookingPolicy(booking, ride);
+    ({ refundAmount, cancellationFee } = calculateCancellationRefund(policy, total, hoursUntilDeparture, booking.created_at));
+  }
+
+  const transition = await transitionBooking(bookingId, 'cancelled', {
+    reason: 'passenger_cancelled',
+    actorId: user.id,
+    refundAmount: booking.status === 'confirmed' ? refundAmount : undefined,
+    refundAsCredit: booking.status === 'confirmed' && refundAsCredit,
+  });
+
+  if (!transition.success) {
+    return { success: false, refunded: false, error: transition.error };
+  }
+
+  await sendSystemMessage(booking, user.id, refundAmount > 0
+    ? cancellationFee > 0
+      ? `Passenger cancelled the booking. Refund of $${refundAmount.toFixed(2)} will be processed (cancellation fee: $${cancellationFee.toFixed(2)}).`
+      : `Passenger cancelled the booking. Full refund of $${refundAmount.toFixed(2)} will be processed.`
+    : 'Passenger cancelled the booking. No refund applicable.');
+
+  return {
+    success: true,
+    refunded: refundAmount > 0,
+    refundAmount: transition.refundAmount ?? refundAmount,
+    cancellationFee,
+  };
+}
+
+/**
+ * Cancel every open booking when the driver cancels the ride. Passengers are
+ * refunded in full, so nothing is left over to become a driver earning.
+ */
+export async function cancelBookingsForRide(user: AuthenticatedUser, rideId: number): Promise<RideCancellationResult | null> {
+  const { data: ride, error: rideError } = await supabaseAdmin
+    .from('rides')
+    .select('id, driver_id, cancellation_policy')
+    .eq('id', rideId)
+    .maybeSingle();
+
+  if (rideError) throw rideError;
+  if (!ride || ride.driver_id !== user.id) return null;
+
+  const result: RideCancellationResult = { bookingsCancelled: 0, refundsFailed: 0, countsAsWarning: true };
+
+  const { data: bookings, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('*')
+    .eq('ride_id', rideId)
+    .in('status', ['waitlisted', 'offered', 'pending', 'confirmed']);
+
+  if (error) throw error;
+
+  // Without passengers the cancellation only counts if the ride's policy says so
+  const ridePolicy = await getPolicy(ride.cancellation_policy);
+  result.countsAsWarning = ridePolicy.driver_cancel_counts_as_warning;
+
+  for (const booking of bookings || []) {
+    const policy = await getBookingPolicy(booking, ride);
+
+    if (policy.driver_cancel_counts_as_warning) {
+      result.countsAsWarning = true;
+    }
+
+    const transition = await transitionBooking(booking.id, 'cancelled', {
+      reason: 'driver_cancelled',
+      actorId: user.id,
+    });
+
+    if (!transition.success) {
+      console.error(`Refund failed for booking ${booking.id} after driver cancellation:`, transition.error);
+      result.refundsFailed++;
+      continue;
+    }
+
+    await sendSystemMessage(booking, user.id, 'Driver cancelled the ride. Full refund will be processed automatically.');
+
+    result.bookingsCancelled++;
+  }
+
+  return result;
+}
+
+/**
+ * Release everyone still waiting once a ride can no longer take passengers
+ */
+async function closeWaitlist(rideId: number): Promise<void> {
+  const { data: entries, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id')
+    .eq('ride_id', rideId)
+    .in('status', ['waitlisted', 'offered']);
+
+  if (error) throw error;
+
+  for (const entry of entries || []) {
+    await transitionBooking(entry.id, 'cancelled', { reason: 'waitlist_closed', actorId: null });
+  }
+}
+
+/**
+ * Complete every confirmed booking of a ride once its driver finishes it,
+ * and release anyone still on its waitlist
+ */
+export async function completeBookingsForRide(user: AuthenticatedUser, rideId: number): Promise<RideCompletionResult | null> {
+  const { data: ride, error: rideError } = await supabaseAdmin
+    .from('rides')
+    .select('id, driver_id')
+    .eq('id', rideId)
+    .maybeSingle();
+
+  if (rideError) throw rideError;
+  if (!ride || ride.driver_id !== user.id) return null;
+
+  const result: RideCompletionResult = { completed: 0, failed: 0 };
+
+  const { data: bookings, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id')
+    .eq('ride_id', rideId)
+    .eq('status', 'confirmed');
+
+  if (error) throw error;
+
+  for (const booking of bookings || []) {
+    const transition = await transitionBooking(booking.id, 'completed', { reason: 'ride_completed', actorId: user.id });
+    if (transition.success) {
+      result.completed++;
+    } else {
+      console.error(`Failed to complete booking ${booking.id}:`, transition.error);
+      result.failed++;
+    }
+  }
+
+  await closeWaitlist(rideId);
+  return result;
+}
+
+/**
+ * Time out unanswered requests, expired seat offers and waitlist holds past
+ * their response deadline, releasing their payment holds
+ */
+export async function processBookingTimeouts(): Promise<TimeoutRunResult> {
+  const { data: bookings, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id, ride_id, status')
+    .in('status', TIMEOUT_STATUSES)
+    .lt('response_deadline', new Date().toISOString());
+
+  if (error) throw error;
+
+  let timedOut = 0;
+
+  for (const booking of bookings || []) {
+    const transition = await transitionBooking(booking.id, 'timeout_cancelled', {
+      reason: booking.status === 'pending' ? 'timeout' : booking.status === 'offered' ? 'offer_expired' : 'hold_expired',
+      actorId: null,
+    });
+
+    if (!transition.success) {
+      console.error(`Failed to process timeout for booking ${booking.id}:`, transition.error);
+      continue;
+    }
+
+    if (booking.status === 'pending') {
+      await sendSystemMessage(booking, null, '⏰ This ride request has timed out. The driver did not respond within 12 hours. Your payment has been refunded automatically.');
+    }
+    timedOut++;
+  }
+
+  console.log(`Booking timeouts: ${timedOut} of ${bookings?.length || 0} timed out`);
+  return { bookingsChecked: bookings?.length || 0, bookingsTimedOut: timedOut };
+}
@@ -0,0 +1,464 @@
+/**
+ * Driver payouts through Stripe Connect
+ * Each driver has one Express connected account, stored in
+ * users.stripe_connect_account_id; Stripe collects and keeps their bank
+ * details. A payout moves the driver's `available` earnings to that account
+ * with a transfer, then pays them out to the bank from the account's balance.
+ * Connected accounts are on a manual payout schedule so each payout belongs
+ * to one payout_requests row, and its status follows the Connect webhooks.
+ */
+
+import Stripe from 'stripe';
+import { supabaseAdmin } from './supabase';
+import { getRetainedAmount } from './paymentRecords';
+
+export type PayoutSchedule = 'manual' | 'daily' | 'weekly';
+
+export interface ConnectAccountStatus {
+  account_id: string | null;
+  details_submitted: boolean;
+  payouts_enabled: boolean;
+  requirements_due: string[];
+}
+
+export interface DriverPayoutResult {
+  success: boolean;
+  payout_request?: any;
+  error?: string;
+}
+
+const PAYOUT_CURRENCY = 'cad';
+
+// Smallest payout worth sending to the bank
+const MIN_PAYOUT_AMOUNT = Number(process.env.MIN_PAYOUT_AMOUNT) || 10;
+
+function toStatus(account: Stripe.Account): ConnectAccountStatus {
+  return {
+    account_id: account.id,
+    details_submitted: !!account.details_submitted,
+    payouts_enabled: !!account.payouts_enabled,
+    requirements_due: account.requirements?.currently_due || [],
+  };
+}
+
+/**
+ * Store the connected account's onboarding state on the driver
+ */
+export async function syncConnectAccount(account: Stripe.Account): Promise<ConnectAccountStatus> {
+  const status = toStatus(account);
+
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      stripe_connect_details_submitted: status.details_submitted,
+      stripe_connect_payouts_enabled: status.payouts_enabled,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_connect_account_id', account.id);
+
+  if (error) {
+    console.error(`Failed to store Connect account ${account.id} status:`, error);
+  }
+
+  return status;
+}
+
+/**
+ * The driver's Express account, created on first use
+ */
+export async function getOrCreateConnectAccount(stripe: Stripe, userId: string): Promise<Stripe.Account> {
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('id, email, stripe_connect_account_id')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  if (user.stripe_connect_account_id) {
+    return stripe.accounts.retrieve(user.stripe_connect_account_id);
+  }
+
+  const account = await stripe.accounts.create({
+    type: 'express',
+    country: 'CA',
+    email: user.email || undefined,
+    capabilities: {
+      transfers: { requested: true },
+    },
+    business_type: 'individual',
+    settings: {
+      payouts: {
+        schedule: { interval: 'manual' },
+      },
+    },
+    metadata: {
+      user_id: userId,
+      app: 'OnGoPool',
+      created_at: new Date().toISOString()
+    }
+  });
+
+  const { error: updateError } = await supabaseAdmin
+    .from('users')
+    .update({
+      stripe_connect_account_id: account.id,
+      stripe_connect_details_submitted: false,
+      stripe_connect_payouts_enabled: false,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', userId);
+
+  if (updateError) {
+    console.error(`Failed to store Connect account for user ${userId}:`, updateError);
+  }
+
+  return account;
+}
+
+/**
+ * Put earnings back up for payout after the money did not reach the driver
+ */
+async function releaseEarnings(payoutRequestId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('earnings')
+    .update({ status: 'available', payout_request_id: null, updated_at: new Date().toISOString() })
+    .eq('payout_request_id', payoutRequestId)
+    .eq('status', 'processing');
+
+  if (error) {
+    console.error(`Failed to release earnings of payout ${payoutRequestId}:`, error);
+  }
+}
+
+async function failPayoutRequest(payoutRequestId: string, reason: string): Promise<void> {
+  await supabaseAdmin
+    .from('payout_requests')
+    .update({
+      status: 'failed',
+      failure_reason: reason,
+      processed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', payoutRequestId);
+
+  await releaseEarnings(payoutRequestId);
+}
+
+/**
+ * The transfer reached the driver's account and could not be taken back, so
+ * the money may still be paid out. Earnings stay processing on the request
+ * until finance checks the transfer in Stripe.
+ */
+async function holdPayoutForReview(payoutRequestId: string, reason: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('payout_requests')
+    .update({
+      status: 'needs_review',
+      failure_reason: reason,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', payoutRequestId);
+
+  if (error) {
+    console.error(`Failed to mark payout ${payoutRequestId} for review:`, error);
+  }
+}
+
+/**
+ * The earnings that are backed by money the platform actually kept. Each
+ * earning's booking must be on one of the driver's rides, and a booking's
+ * earnings together may not exceed what its payments rows show was retained.
+ * Earnings that fail are left alone and logged for review.
+ */
+async function getPayableEarnings(driverId: string, earnings: any[]): Promise<{ id: string; amount: number }[]> {
+  const bookingIds = [...new Set(earnings.map(earning => earning.booking_id).filter(Boolean))];
+  if (bookingIds.length === 0) return [];
+
+  const [bookings, payments, bookingEarnings] = await Promise.all([
+    supabaseAdmin.from('ride_bookings').select('id, ride:rides(driver_id)').in('id', bookingIds),
+    supabaseAdmin.from('payments').select('booking_id, payment_method, status, amount, refunded_amount').in('booking_id', bookingIds),
+    supabaseAdmin.from('earnings').select('id, booking_id, gross_amount, status').in('booking_id', bookingIds),
+  ]);
+
+  for (const { error } of [bookings, payments, bookingEarnings]) {
+    if (error) throw error;
+  }
+
+  const payable: { id: string; amount: number }[] = [];
+  for (const bookingId of bookingIds) {
+    const booking: any = (bookings.data || []).find(row => row.id === bookingId);
+    const retained = getRetainedAmount((payments.data || []).filter(payment => payment.booking_id === bookingId));
+    // Earnings of the booking already on their way to the driver count against what was retained
+    let committed = (bookingEarnings.data || [])
+      .filter(earning => earning.booking_id === bookingId && earning.status !== 'available' && earning.status !== 'pending')
+      .reduce((sum, earning) => sum + Number(earning.gross_amount), 0);
+
+    for (const earning of earnings.filter(row => row.booking_id === bookingId)) {
+      const gross = Number(earning.gross_amount);
+      const net = Number(earning.amount);
+      const valid = booking?.ride?.driver_id === driverId
+        && net > 0
+        && net <= gross + 0.001
+        && committed + gross <= retained + 0.001;
+
+      if (!valid) {
+        console.error(`Earning ${earning.id} of booking ${bookingId} is not backed by its payments (retained $${retained.toFixed(2)}), skipping`);
+        continue;
+      }
+
+      committed += gross;
+      payable.push({ id: earning.id, amount: net });
+    }
+  }
+
+  const order = earnings.map(earning => earning.id);
+  return payable.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+}
+
+/**
+ * Pay out a driver's available earnings, oldest first. With an amount, only
+ * whole earnings that fit within it are included. Amounts are checked
+ * against the booking's payments, never taken from the earnings rows alone.
+ */
+export async function createDriverPayout(stripe: Stripe, driverId: string, amount?: number): Promise<DriverPayoutResult> {
+  const { data: driver, error: driverError } = await supabaseAdmin
+    .from('users')
+    .select('id, stripe_connect_account_id')
+    .eq('id', driverId)
+    .single();
+
+  if (driverError || !driver) {
+    return { success: false, error: 'Driver not found' };
+  }
+
+  if (!driver.stripe_connect_account_id) {
+    return { success: false, error: 'Set up payouts with Stripe before requesting a payout' };
+  }
+
+  const account = await stripe.accounts.retrieve(driver.stripe_connect_account_id);
+  const accountStatus = await syncConnectAccount(account);
+  if (!accountStatus.payouts_enabled) {
+    return { success: false, error: 'Your Stripe account is not ready for payouts yet. Finish setting it up first.' };
+  }
+
+  const { data: earnings, error: earningsError } = await supabaseAdmin
+    .from('earnings')
+    .select('id, booking_id, amount, gross_amount')
+    .eq('driver_id', driverId)
+    .eq('status', 'available')
+    .order('earning_date', { ascending: true });
+
+  if (earningsError) throw earningsError;
+
+  const selected: { id: string; amount: number }[] = [];
+  let total = 0;
+  for (const earning of await getPayableEarnings(driverId, earnings || [])) {
+    const earningAmount = earning.amount;
+    if (amount !== undefined && total + earningAmount > amount + 0.001) break;
+    selected.push({ id: earning.id, amount: earningAmount });
+    total = Math.round((total + earningAmount) * 100) / 100;
+  }
+
+  if (selected.length === 0 || total < MIN_PAYOUT_AMOUNT) {
+    return { success: false, error: `Payouts start at $${MIN_PAYOUT_AMOUNT.toFixed(2)} of available earnings` };
+  }
+
+  const now = new Date().toISOString();
+  const { data: payoutRequest, error: requestError } = await supabaseAdmin
+    .from('payout_requests')
+    .insert({
+      driver_id: driverId,
+      amount: total,
+      status: 'processing',
+      payment_method: 'stripe_connect',
+      requested_at: now,
+      created_at: now,
+      updated_at: now
+    })
+    .select()
+    .single();
+
+  if (requestError || !payoutRequest) {
+    throw requestError || new Error('Failed to create payout request');
+  }
+
+  // Only earnings still available are claimed, so a concurrent payout cannot take them twice
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('earnings')
+    .update({ status: 'processing', payout_request_id: payoutRequest.id, updated_at: now })
+    .in('id', selected.map(earning => earning.id))
+    .eq('status', 'available')
+    .select('id');
+
+  if (claimError || (claimed || []).length !== selected.length) {
+    await failPayoutRequest(payoutRequest.id, 'Earnings changed while the payout was being created');
+    return { success: false, error: 'Your earnings changed while the payout was being created. Please try again.' };
+  }
+
+  let transfer: Stripe.Transfer;
+  try {
+    transfer = await stripe.transfers.create({
+      amount: Math.round(total * 100),
+      currency: PAYOUT_CURRENCY,
+      destination: driver.stripe_connect_account_id,
+      transfer_group: `payout_${payoutRequest.id}`,
+      metadata: {
+        payout_request_id: String(payoutRequest.id),
+        driver_id: driverId,
+        app: 'OnGoPool'
+      }
+    }, { idempotencyKey: `payout-transfer-${payoutRequest.id}` });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Transfer failed';
+    console.error(`Transfer for payout ${payoutRequest.id} failed:`, error);
+    await failPayoutRequest(payoutRequest.id, reason);
+    return { success: false, error: 'The payout could not be sent. Please try again later.' };
+  }
+
+  let payout: Stripe.Payout;
+  try {
+    payout = await stripe.payouts.create({
+      amount: Math.round(total * 100),
+      currency: PAYOUT_CURRENCY,
+      metadata: {
+        payout_request_id: String(payoutRequest.id),
+        transfer_id: transfer.id
+      }
+    }, { stripeAccount: driver.stripe_connect_account_id, idempotencyKey: `payout-${payoutRequest.id}` });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Payout failed';
+    console.error(`Bank payout for payout ${payoutRequest.id} failed:`, error);
+    if (!await reverseTransfer(stripe, transfer.id, payoutRequest.id)) {
+      await holdPayoutForReview(payoutRequest.id, `${reason}; the transfer could not be reversed`);
+      return { success: false, error: 'The payout could not be sent to your bank. Our team will review it and contact you.' };
+    }
+    await failPayoutRequest(payoutRequest.id, reason);
+    return { success: false, error: 'The payout could not be sent to your bank. Check your payout details in Stripe.' };
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('payout_requests')
+    .update({
+      stripe_transfer_id: transfer.id,
+      stripe_payout_id: payout.id,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', payoutRequest.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error(`Payout ${payoutRequest.id} was sent but could not be updated:`, updateError);
+  }
+
+  return { success: true, payout_request: updated || payoutRequest };
+}
+
+/**
+ * Take the money back from the connected account when it cannot reach the
+ * bank. True only once Stripe confirms the whole transfer was reversed.
+ */
+async function reverseTransfer(stripe: Stripe, transferId: string, payoutRequestId: string): Promise<boolean> {
+  try {
+    await stripe.transfers.createReversal(transferId, {
+      metadata: { payout_request_id: String(payoutRequestId) }
+    }, { idempotencyKey: `payout-reversal-${payoutRequestId}` });
+
+    const transfer = await stripe.transfers.retrieve(transferId);
+    if (!transfer.reversed) {
+      console.error(`Transfer ${transferId} of payout ${payoutRequestId} is only partly reversed`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error(`Failed to reverse transfer ${transferId} of payout ${payoutRequestId}:`, error);
+    return false;
+  }
+}
+
+async function findPayoutRequest(payout: Stripe.Payout) {
+  const byMetadata = payout.metadata?.payout_request_id;
+  const query = supabaseAdmin.from('payout_requests').select('*');
+  const { data, error } = byMetadata
+    ? await query.eq('id', byMetadata).maybeSingle()
+    : await query.eq('stripe_payout_id', payout.id).maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * payout.paid: the money reached the driver's bank
+ */
+export async function recordPayoutPaid(payout: Stripe.Payout): Promise<void> {
+  const payoutRequest = await findPayoutRequest(payout);
+  if (!payoutRequest) {
+    console.log(`No payout request for Stripe payout ${payout.id}, ignoring`);
+    return;
+  }
+  if (payoutRequest.status === 'paid') return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('payout_requests')
+    .update({ status: 'paid', stripe_payout_id: payout.id, processed_at: now, updated_at: now })
+    .eq('id', payoutRequest.id);
+
+  if (error) throw error;
+
+  const { error: earningsError } = await supabaseAdmin
+    .from('earnings')
+    .update({ status: 'paid', updated_at: now })
+    .eq('payout_request_id', payoutRequest.id);
+
+  if (earningsError) throw earningsError;
+}
+
+/**
+ * payout.failed / payout.canceled: the bank payout did not go through. Once
+ * the transfer is reversed the earnings become available again; if it can't
+ * be, the request is held for review with its earnings still processing.
+ * A retried event tries the reversal again.
+ */
+export async function recordPayoutFailed(stripe: Stripe, payout: Stripe.Payout): Promise<void> {
+  const payoutRequest = await findPayoutRequest(payout);
+  if (!payoutRequest) {
+    console.log(`No payout request for Stripe payout ${payout.id}, ignoring`);
+    return;
+  }
+  if (payoutRequest.status === 'failed') return;
+
+  const reason = payout.failure_message || (payout.status === 'canceled' ? 'Payout was canceled' : 'Payout failed');
+
+  // No transfer id means it was never stored; the money may still be on the connected account
+  const transferId = payoutRequest.stripe_transfer_id || (typeof payout.metadata?.transfer_id === 'string' ? payout.metadata.transfer_id : null);
+  if (!transferId || !await reverseTransfer(stripe, transferId, payoutRequest.id)) {
+    await holdPayoutForReview(payoutRequest.id, `${reason}; the transfer could not be reversed`);
+    return;
+  }
+
+  await failPayoutRequest(payoutRequest.id, reason);
+}
+
+/**
+ * Drivers whose payout schedule is due today
+ */
+export async function getScheduledDrivers(date: Date = new Date()): Promise<string[]> {
+  const schedules: PayoutSchedule[] = ['daily'];
+  const payoutWeekday = Number(process.env.PAYOUT_WEEKDAY ?? 1);
+  if (date.getUTCDay() === payoutWeekday) {
+    schedules.push('weekly');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .in('payout_schedule', schedules)
+    .eq('stripe_connect_payouts_enabled', true);
+
+  if (error) throw error;
+  return (data || []).map(user => user.id);
+}
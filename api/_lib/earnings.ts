@@ -0,0 +1,152 @@
+/**
+ * Driver earnings
+ * An earning is created here, with the service role, when a booking is
+ * completed or cancelled with part of its fare kept. The gross amount comes
+ * from the booking and what its payments rows show was retained, and the
+ * platform fee from the fee schedule and the driver's tier on the server, so
+ * nothing the client sends sets what a driver is owed.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { AuthenticatedUser, hasPermission } from './auth';
+import { getRetainedAmount } from './paymentRecords';
+import { calculateFee, getFeeRuleForRide } from './platformFees';
+
+export type EarningStatus = 'pending' | 'available' | 'requested' | 'processing' | 'paid';
+
+export interface EarningsResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const EARNING_STATUSES: EarningStatus[] = ['pending', 'available', 'requested', 'processing', 'paid'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Create a booking's earning on behalf of its passenger, its driver or staff
+ * reconciling payments
+ */
+export async function recordBookingEarning(user: AuthenticatedUser, bookingId: number): Promise<EarningsResult<any | null>> {
+  return createBookingEarning(bookingId, user);
+}
+
+/**
+ * Create the earning a booking owes its driver. A completed booking earns its
+ * fare, once. A cancelled booking earns whatever the passenger still paid:
+ * earnings not yet requested are replaced, and ones already on their way to
+ * the driver count against it. Returns the new earning, or null when nothing
+ * is owed. Without a user it runs as the server (booking transitions).
+ */
+export async function createBookingEarning(bookingId: number, user?: AuthenticatedUser): Promise<EarningsResult<any | null>> {
+  if (!bookingId) {
+    return { success: false, error: 'booking_id is required' };
+  }
+
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id, status, total_amount, passenger_id, ride_id, ride:rides(driver_id, from_location, to_location, departure_time)')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (bookingError) throw bookingError;
+
+  const ride: any = Array.isArray(booking?.ride) ? booking?.ride[0] : booking?.ride;
+  if (!booking || !ride) {
+    return { success: false, error: 'Booking not found' };
+  }
+
+  if (user && booking.passenger_id !== user.id && ride.driver_id !== user.id && !hasPermission(user.roles, 'payments:reconcile')) {
+    return { success: false, error: 'Booking not found' };
+  }
+
+  if (booking.status !== 'completed' && booking.status !== 'cancelled') {
+    return { success: false, error: 'Earnings are only created for completed or cancelled bookings' };
+  }
+
+  const [payments, existing] = await Promise.all([
+    supabaseAdmin.from('payments').select('payment_method, status, amount, refunded_amount').eq('booking_id', bookingId),
+    supabaseAdmin.from('earnings').select('id, gross_amount, status').eq('booking_id', bookingId),
+  ]);
+
+  for (const { error } of [payments, existing]) {
+    if (error) throw error;
+  }
+
+  const retained = getRetainedAmount(payments.data || []);
+  let grossAmount: number;
+  let description: string;
+
+  if (booking.status === 'completed') {
+    if ((existing.data || []).length > 0) return { success: true, data: null };
+
+    grossAmount = round(Math.min(Number(booking.total_amount), retained));
+    description = `Ride from ${ride.from_location} to ${ride.to_location}`;
+  } else {
+    const { error: deleteError } = await supabaseAdmin
+      .from('earnings')
+      .delete()
+      .eq('booking_id', bookingId)
+      .in('status', ['pending', 'available']);
+
+    if (deleteError) throw deleteError;
+
+    const committed = (existing.data || [])
+      .filter(earning => earning.status !== 'pending' && earning.status !== 'available')
+      .reduce((sum, earning) => sum + Number(earning.gross_amount), 0);
+
+    grossAmount = round(retained - committed);
+    description = `Cancellation fee for ride from ${ride.from_location} to ${ride.to_location}`;
+  }
+
+  if (grossAmount <= 0) return { success: true, data: null };
+
+  const rule = await getFeeRuleForRide(ride);
+  const { serviceFeeAmount, netAmount } = calculateFee(rule, grossAmount);
+
+  const { data: earning, error } = await supabaseAdmin
+    .from('earnings')
+    .insert({
+      driver_id: ride.driver_id,
+      ride_id: booking.ride_id,
+      booking_id: bookingId,
+      amount: netAmount, // Net amount after service fee deduction
+      gross_amount: grossAmount, // Original amount before service fee
+      service_fee_amount: serviceFeeAmount,
+      service_fee_percentage: rule.percentage, // Percentage part of the fee rule
+      fee_rule_snapshot: rule, // Rule applied, so later schedule changes don't alter this earning
+      earning_date: new Date().toISOString().split('T')[0],
+      status: 'pending',
+      description
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { success: true, data: earning };
+}
+
+/**
+ * Move an earning to a new status, e.g. mark it paid
+ */
+export async function updateEarningStatus(
+  earningId: string,
+  status: EarningStatus,
+  payoutId?: string
+): Promise<EarningsResult<{ id: string; status: EarningStatus }>> {
+  if (!EARNING_STATUSES.includes(status)) {
+    return { success: false, error: 'Invalid earning status' };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('earnings')
+    .update(payoutId ? { status, payout_id: payoutId } : { status })
+    .eq('id', earningId)
+    .select('id, status')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { success: false, error: 'Earning not found' };
+  return { success: true, data };
+}
@@ -0,0 +1,190 @@
+/**
+ * Outbound SMS and email
+ * Messages to people outside the app, such as a rider's emergency contact,
+ * go through a gateway chosen by MESSAGE_GATEWAY. Twilio sends SMS, and
+ * email through SendGrid when SENDGRID_API_KEY is set. The console gateway
+ * logs each message, and also appends it to MESSAGE_GATEWAY_FILE when set,
+ * for local runs. It never reaches anyone, so its messages are reported as
+ * not delivered, and it is refused in production.
+ */
+
+import { appendFile } from 'fs/promises';
+
+export type MessageChannel = 'sms' | 'email';
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  to: string;
+  subject?: string; // Email only
+  body: string;
+}
+
+export interface MessageResult {
+  channel: MessageChannel;
+  to: string;
+  delivered: boolean;
+  gateway: string;
+  error?: string;
+}
+
+export interface MessageGateway {
+  name: string;
+  channels: MessageChannel[];
+  delivers: boolean; // False when messages are only logged
+  send(message: OutboundMessage): Promise<void>;
+}
+
+/**
+ * SMS through Twilio's REST API, and email through SendGrid when configured
+ */
+export function createTwilioGateway(config: {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  sendgridApiKey?: string;
+  fromEmail?: string;
+}): MessageGateway {
+  const channels: MessageChannel[] = config.sendgridApiKey && config.fromEmail ? ['sms', 'email'] : ['sms'];
+
+  return {
+    name: 'twilio',
+    channels,
+    delivers: true,
+
+    async send(message) {
+      if (message.channel === 'sms') {
+        const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`, {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`,
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          body: new URLSearchParams({ To: message.to, From: config.fromNumber, Body: message.body }).toString()
+        });
+
+        if (!response.ok) {
+          throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+        }
+        return;
+      }
+
+      if (!config.sendgridApiKey || !config.fromEmail) {
+        throw new Error('Email is not configured for this gateway');
+      }
+
+      const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${config.sendgridApiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: config.fromEmail },
+          subject: message.subject || 'OnGoPool',
+          content: [{ type: 'text/plain', value: message.body }]
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`SendGrid responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/**
+ * Logs messages instead of sending them, optionally appending JSON lines to a file
+ */
+export function createConsoleGateway(path?: string): MessageGateway {
+  return {
+    name: path ? 'file' : 'console',
+    channels: ['sms', 'email'],
+    delivers: false,
+
+    async send(message) {
+      console.log(`[${message.channel} to ${message.to}]${message.subject ? ` ${message.subject}:` : ''} ${message.body}`);
+      if (path) {
+        await appendFile(path, `${JSON.stringify({ ...message, sent_at: new Date().toISOString() })}\n`);
+      }
+    },
+  };
+}
+
+const isProduction = () => process.env.VERCEL_ENV === 'production' || process.env.NODE_ENV === 'production';
+
+/**
+ * Gateway chosen by name, falling back to MESSAGE_GATEWAY, then Twilio in
+ * production or when configured. Throws when the chosen gateway can't send,
+ * rather than quietly logging messages instead.
+ */
+export function getMessageGateway(name?: string): MessageGateway {
+  const gateway = name || process.env.MESSAGE_GATEWAY ||
+    (process.env.TWILIO_ACCOUNT_SID || isProduction() ? 'twilio' : 'console');
+
+  if (gateway === 'twilio') {
+    const missing = ['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'TWILIO_FROM_NUMBER'].filter(key => !process.env[key]);
+    if (missing.length > 0) {
+      throw new Error(`Twilio gateway is missing ${missing.join(', ')}`);
+    }
+
+    return createTwilioGateway({
+      accountSid: process.env.TWILIO_ACCOUNT_SID!,
+      authToken: process.env.TWILIO_AUTH_TOKEN!,
+      fromNumber: process.env.TWILIO_FROM_NUMBER!,
+      sendgridApiKey: process.env.SENDGRID_API_KEY,
+      fromEmail: process.env.MESSAGE_FROM_EMAIL
+    });
+  }
+
+  if (gateway !== 'console') {
+    throw new Error(`Unknown message gateway: ${gateway}`);
+  }
+  if (isProduction()) {
+    throw new Error('The console message gateway cannot be used in production');
+  }
+  return createConsoleGateway(process.env.MESSAGE_GATEWAY_FILE);
+}
+
+/**
+ * Send each message, recording failures instead of throwing. Messages the
+ * gateway only logged are recorded as not delivered.
+ */
+export async function sendMessages(messages: OutboundMessage[], gateway?: MessageGateway): Promise<MessageResult[]> {
+  const results: MessageResult[] = [];
+
+  if (!gateway) {
+    try {
+      gateway = getMessageGateway();
+    } catch (error) {
+      console.error('No message gateway to send with:', error);
+      const reason = error instanceof Error ? error.message : 'No message gateway';
+      return messages.map(message => ({ channel: message.channel, to: message.to, delivered: false, gateway: 'none', error: reason }));
+    }
+  }
+
+  for (const message of messages) {
+    if (!gateway.channels.includes(message.channel)) {
+      results.push({ channel: message.channel, to: message.to, delivered: false, gateway: gateway.name, error: `${message.channel} is not configured` });
+      continue;
+    }
+
+    try {
+      await gateway.send(message);
+      results.push(gateway.delivers
+        ? { channel: message.channel, to: message.to, delivered: true, gateway: gateway.name }
+        : { channel: message.channel, to: message.to, delivered: false, gateway: gateway.name, error: 'Logged only, not sent' });
+    } catch (error) {
+      console.error(`Failed to send ${message.channel} to ${message.to}:`, error);
+      results.push({
+        channel: message.channel,
+        to: message.to,
+        delivered: false,
+        gateway: gateway.name,
+        error: error instanceof Error ? error.message : 'Send failed'
+      });
+    }
+  }
+
+  return results;
+}
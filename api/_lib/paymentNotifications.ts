@@ -0,0 +1,126 @@
+/**
+ * Server-side payment notifications
+ * Writes payment_notifications rows for payment events that arrive by
+ * webhook or are settled by the booking transitions. The titles and messages
+ * follow PaymentNotificationService in src/lib, which shows the browser
+ * notification on the passenger's device.
+ */
+
+import { supabaseAdmin } from './supabase';
+import type { RefundReason } from './paymentSettlement';
+
+export type PaymentNotificationType =
+  | 'payment_authorized'
+  | 'payment_captured'
+  | 'payment_refunded'
+  | 'payment_failed'
+  | 'payment_expired'
+  | 'payment_disputed'
+  | 'payment_action_required';
+
+const NOTIFICATION_TEMPLATES: Record<PaymentNotificationType, { title: string; message: string }> = {
+  payment_authorized: {
+    title: 'Payment Authorized',
+    message: "Your payment has been authorized. You'll only be charged if the driver accepts your ride request."
+  },
+  payment_captured: {
+    title: 'Payment Confirmed',
+    message: 'Your ride has been confirmed! Payment has been processed successfully.'
+  },
+  payment_refunded: {
+    title: 'Payment Refunded',
+    message: 'A refund has been issued to your original payment method.'
+  },
+  payment_failed: {
+    title: 'Payment Failed',
+    message: 'Your payment could not be processed. Please try again with a different payment method.'
+  },
+  payment_expired: {
+    title: 'Payment Authorization Expired',
+    message: 'Your payment authorization has expired. Please submit a new ride request.'
+  },
+  payment_disputed: {
+    title: 'Payment Disputed',
+    message: 'We received a dispute for this payment from your bank. Our support team will contact you.'
+  },
+  payment_action_required: {
+    title: 'Update Your Payment Method',
+    message: "We couldn't renew the payment authorization for your booking. Update your payment method to keep your spot."
+  }
+};
+
+const REFUND_TEMPLATES: Record<RefundReason, { title: string; message: string }> = {
+  driver_rejected: {
+    title: 'Ride Request Declined',
+    message: 'The driver declined your request. Your payment has been refunded automatically.'
+  },
+  timeout: {
+    title: 'Request Timed Out',
+    message: "The driver didn't respond within 12 hours. Your payment has been refunded automatically."
+  },
+  driver_cancelled: {
+    title: 'Ride Cancelled by Driver',
+    message: 'The driver cancelled this ride. Your refund has been processed automatically.'
+  },
+  waitlist_released: {
+    title: 'Waitlist Spot Released',
+    message: 'Your waitlist spot has ended. The payment authorization has been released and you were not charged.'
+  },
+  passenger_cancelled: {
+    title: 'Ride Cancelled',
+    message: 'You cancelled your ride request. Your payment has been refunded automatically.'
+  },
+  seats_reduced: {
+    title: 'Booking Updated',
+    message: "Your booking now has fewer seats. You'll only be charged for the seats you kept and the difference has been refunded."
+  },
+  early_dropoff: {
+    title: 'Trip Shortened',
+    message: "You were dropped off before your booked stop. You're only charged for the distance travelled and the difference has been refunded."
+  }
+};
+
+async function insertNotification(
+  type: PaymentNotificationType,
+  bookingId: number,
+  userId: string,
+  title: string,
+  message: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('payment_notifications')
+    .insert({
+      user_id: userId,
+      booking_id: bookingId,
+      notification_type: type,
+      title,
+      message,
+      status: 'pending',
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error(`Failed to create ${type} notification for booking ${bookingId}:`, error);
+  }
+}
+
+/**
+ * Record a payment notification for a user
+ */
+export async function notifyPaymentEvent(
+  type: PaymentNotificationType,
+  bookingId: number,
+  userId: string,
+  message?: string
+): Promise<void> {
+  const template = NOTIFICATION_TEMPLATES[type];
+  await insertNotification(type, bookingId, userId, template.title, message || template.message);
+}
+
+/**
+ * Record a refund notification, worded for why the booking was refunded
+ */
+export async function notifyPaymentRefunded(bookingId: number, userId: string, reason: RefundReason): Promise<void> {
+  const template = REFUND_TEMPLATES[reason];
+  await insertNotification('payment_refunded', bookingId, userId, template.title, template.message);
+}
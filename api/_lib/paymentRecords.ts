@@ -0,0 +1,118 @@
+/**
+ * Payment record updates shared by the payment webhook endpoints
+ * Keeps payments, payment_holds and ride_bookings.payment_status in step
+ * when a processor reports a change. Booking status is left to the app's
+ * booking state machine.
+ */
+
+import { supabaseAdmin } from './supabase';
+
+// Payment states a late or repeated event must not move backwards from
+export const SETTLED_PAYMENT_STATUSES = ['captured', 'completed', 'succeeded', 'refunded', 'disputed'];
+export const OPEN_PAYMENT_STATUSES = ['requires_action', 'authorized', 'requires_capture'];
+
+// Promo code and wallet credit parts of a booking's price; the platform funds them
+export const DISCOUNT_PAYMENT_METHODS = ['promo_code', 'credit'];
+
+// Rows in payments that record money movements rather than an authorization
+export const LEDGER_PAYMENT_METHODS = ['refund', 'cancellation_fee', 'credit_refund', ...DISCOUNT_PAYMENT_METHODS];
+export const CAPTURED_STATUSES = ['captured', 'completed', 'succeeded', 'disputed'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * What the platform kept for a booking, from its payments rows: captured
+ * payments less partial refunds and refunds taken as credit, plus the
+ * unreturned part of any discount once the card payment is captured
+ */
+export function getRetainedAmount(bookingPayments: any[]): number {
+  const captured = bookingPayments.filter(payment =>
+    !LEDGER_PAYMENT_METHODS.includes(payment.payment_method) && CAPTURED_STATUSES.includes(payment.status)
+  );
+  const sumOf = (method: string) => bookingPayments
+    .filter(payment => payment.payment_method === method)
+    .reduce((sum, payment) => sum + Math.abs(Number(payment.amount)), 0);
+  const discounts = bookingPayments.filter(payment =>
+    DISCOUNT_PAYMENT_METHODS.includes(payment.payment_method) && payment.status === 'applied'
+  );
+
+  return round(
+    captured.reduce((sum, payment) => sum + Number(payment.amount), 0)
+    - sumOf('refund')
+    - sumOf('credit_refund')
+    + (captured.length > 0 ? discounts.reduce((sum, payment) => sum + Number(payment.amount) - Number(payment.refunded_amount || 0), 0) : 0)
+  );
+}
+
+export interface PaymentChange {
+  payment?: Record<string, any>;
+  holdStatus?: 'captured' | 'released' | 'refunded' | 'failed';
+  bookingPaymentStatus?: string;
+}
+
+/**
+ * Latest payment record whose column matches the processor's id
+ */
+export async function findPayment(
+  column: 'payment_intent_id' | 'authorization_id' | 'transaction_id',
+  value: string
+) {
+  const { data, error } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq(column, value)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Write a payment change to payments, payment_holds and the booking
+ */
+export async function applyPaymentChange(payment: any, change: PaymentChange): Promise<void> {
+  const now = new Date().toISOString();
+
+  if (change.payment) {
+    const { error } = await supabaseAdmin
+      .from('payments')
+      .update({ ...change.payment, updated_at: now })
+      .eq('id', payment.id);
+
+    if (error) throw error;
+  }
+
+  if (change.holdStatus) {
+    const { error } = await supabaseAdmin
+      .from('payment_holds')
+      .update({ status: change.holdStatus, updated_at: now })
+      .eq('payment_id', payment.id);
+
+    if (error) throw error;
+  }
+
+  if (change.bookingPaymentStatus && payment.booking_id) {
+    const { error } = await supabaseAdmin
+      .from('ride_bookings')
+      .update({ payment_status: change.bookingPaymentStatus, updated_at: now })
+      .eq('id', payment.booking_id);
+
+    if (error) throw error;
+  }
+}
+
+/**
+ * A pending request whose hold is gone cannot be accepted. Bring its response
+ * deadline forward so the booking timeout job cancels it through the state machine.
+ */
+export async function expirePendingBooking(bookingId: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ride_bookings')
+    .update({ response_deadline: new Date().toISOString() })
+    .eq('id', bookingId)
+    .in('status', ['pending', 'offered', 'waitlisted']);
+
+  if (error) throw error;
+}
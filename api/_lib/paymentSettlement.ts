@@ -0,0 +1,487 @@
+/**
+ * Booking payment settlement
+ * Moves a booking's money when its status changes: captures the hold when the
+ * driver accepts, and voids or refunds it when the booking ends without a
+ * trip or gets smaller. Runs only inside api/_lib/bookingTransitions and
+ * api/_lib/bookingAdjustments, with the service role, so how much is
+ * refunded is always worked out on the server. Stripe and
+ * PayPal are called directly; 'fake' payments (VITE_PAYMENT_PROVIDER=fake)
+ * have no processor and are only settled outside production.
+ */
+
+import Stripe from 'stripe';
+import { supabaseAdmin } from './supabase';
+import { paypalRequest } from './paypal';
+import { CAPTURED_STATUSES, DISCOUNT_PAYMENT_METHODS, OPEN_PAYMENT_STATUSES } from './paymentRecords';
+import { creditCancelledBooking, returnCredit, reverseRedemption } from './wallet';
+
+// Initialize Stripe with secret key from environment
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+export type RefundReason =
+  | 'driver_rejected'
+  | 'driver_cancelled'
+  | 'timeout'
+  | 'passenger_cancelled'
+  | 'waitlist_released'
+  | 'seats_reduced'
+  | 'early_dropoff';
+
+export interface SettlementResult {
+  success: boolean;
+  refundAmount?: number; // Back to the passenger, on their payment method or as credit
+  error?: string;
+}
+
+const PAYMENT_CURRENCY = 'CAD';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const isProduction = () => process.env.VERCEL_ENV === 'production' || process.env.NODE_ENV === 'production';
+
+/**
+ * Fake payments only exist when the app runs without a processor
+ */
+function assertFakeAllowed(): void {
+  const provider = process.env.PAYMENT_PROVIDER || process.env.VITE_PAYMENT_PROVIDER;
+  if (provider !== 'fake' || isProduction()) {
+    throw new Error('Fake payments cannot be settled here');
+  }
+}
+
+/**
+ * The booking's card or PayPal payment in one of the statuses, newest first
+ */
+async function getBookingPayment(bookingId: number, statuses: string[]): Promise<any | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .in('status', statuses)
+    .not('payment_method', 'in', '(refund,cancellation_fee,credit_refund,promo_code,credit)')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function updatePayment(paymentId: number, update: Record<string, any>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', paymentId);
+
+  if (error) throw error;
+}
+
+async function updateHoldStatus(paymentId: number, status: 'captured' | 'released' | 'refunded'): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('payment_holds')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('payment_id', paymentId);
+
+  if (error) {
+    console.error('Failed to update payment hold record:', error);
+  }
+}
+
+/**
+ * Capture a hold, authorizing it first when it was waiting on the payer's
+ * approval (PayPal order, 3D Secure) and they have since approved it
+ */
+async function captureWithProcessor(payment: any): Promise<string> {
+  const authorizationId = payment.authorization_id || payment.payment_intent_id;
+  const amount = Number(payment.amount);
+
+  if (payment.payment_method === 'paypal') {
+    let paypalAuthorizationId = authorizationId;
+
+    if (payment.status === 'requires_action') {
+      const order = await paypalRequest<any>(`/v2/checkout/orders/${encodeURIComponent(authorizationId)}/authorize`, {
+        method: 'POST',
+        body: {},
+      });
+      paypalAuthorizationId = order.purchase_units?.[0]?.payments?.authorizations?.[0]?.id;
+      if (!paypalAuthorizationId) {
+        throw new Error('PayPal order has not been approved');
+      }
+      await updatePayment(payment.id, { authorization_id: paypalAuthorizationId, payment_intent_id: paypalAuthorizationId });
+
+      // Lets the passenger's app look the authorization up through /api/paypal
+      const { error: orderError } = await supabaseAdmin
+        .from('paypal_orders')
+        .update({ authorization_id: paypalAuthorizationId, updated_at: new Date().toISOString() })
+        .eq('id', authorizationId);
+
+      if (orderError) {
+        console.error(`Failed to record the authorization of PayPal order ${authorizationId}:`, orderError);
+      }
+    }
+
+    // final_capture voids whatever a partial capture leaves on the authorization
+    const capture = await paypalRequest<{ id: string; status: string }>(
+      `/v2/payments/authorizations/${encodeURIComponent(paypalAuthorizationId)}/capture`,
+      {
+        method: 'POST',
+        body: {
+          amount: { currency_code: (payment.currency || PAYMENT_CURRENCY).toUpperCase(), value: amount.toFixed(2) },
+          final_capture: true,
+        },
+      }
+    );
+
+    if (capture.status !== 'COMPLETED') {
+      throw new Error(`PayPal capture is ${capture.status}`);
+    }
+    return capture.id;
+  }
+
+  if (payment.payment_method === 'fake') {
+    assertFakeAllowed();
+    return authorizationId;
+  }
+
+  const intent = await stripe.paymentIntents.retrieve(authorizationId);
+  if (intent.status !== 'requires_capture') {
+    throw new Error(`Payment intent cannot be captured. Current status: ${intent.status}`);
+  }
+
+  // Stripe releases whatever is left of the authorization after a partial capture
+  const amountToCapture = Math.round(amount * 100);
+  const captured = await stripe.paymentIntents.capture(
+    intent.id,
+    amountToCapture < intent.amount ? { amount_to_capture: amountToCapture } : {}
+  );
+  return captured.id;
+}
+
+async function voidWithProcessor(payment: any, reason: string): Promise<void> {
+  const authorizationId = payment.authorization_id || payment.payment_intent_id;
+
+  if (payment.payment_method === 'paypal') {
+    await paypalRequest(`/v2/payments/authorizations/${encodeURIComponent(authorizationId)}/void`, { method: 'POST', body: {} });
+    return;
+  }
+
+  if (payment.payment_method === 'fake') {
+    assertFakeAllowed();
+    return;
+  }
+
+  await stripe.paymentIntents.update(authorizationId, {
+    metadata: { cancellation_reason: reason, cancelled_at: new Date().toISOString() }
+  });
+  await stripe.paymentIntents.cancel(authorizationId);
+}
+
+async function refundWithProcessor(payment: any, amount: number, reason: string): Promise<{ refundId: string; amountRefunded: number }> {
+  const transactionId = payment.transaction_id || payment.payment_intent_id;
+
+  if (payment.payment_method === 'paypal') {
+    const refund = await paypalRequest<{ id: string; amount?: { value: string } }>(
+      `/v2/payments/captures/${encodeURIComponent(transactionId)}/refund`,
+      {
+        method: 'POST',
+        body: { amount: { currency_code: (payment.currency || PAYMENT_CURRENCY).toUpperCase(), value: amount.toFixed(2) } },
+      }
+    );
+    return { refundId: refund.id, amountRefunded: refund.amount?.value ? parseFloat(refund.amount.value) : amount };
+  }
+
+  if (payment.payment_method === 'fake') {
+    assertFakeAllowed();
+    return { refundId: `fake_refund_${Date.now()}`, amountRefunded: amount };
+  }
+
+  const refund = await stripe.refunds.create({
+    payment_intent: transactionId,
+    amount: Math.round(amount * 100),
+    metadata: {
+      booking_id: String(payment.booking_id),
+      refund_reason: reason,
+      refunded_at: new Date().toISOString()
+    }
+  });
+  return { refundId: refund.id, amountRefunded: refund.amount / 100 };
+}
+
+/**
+ * Refund part of a captured payment. The running total goes on the payment
+ * and each refund gets a negative 'refund' row.
+ */
+async function refundPartOfPayment(payment: any, amount: number, reason: string): Promise<number> {
+  const refund = await refundWithProcessor(payment, amount, reason);
+  const now = new Date().toISOString();
+
+  await updatePayment(payment.id, {
+    refund_id: refund.refundId,
+    refunded_amount: round(Number(payment.refunded_amount || 0) + refund.amountRefunded),
+    refund_reason: reason,
+    refunded_at: now
+  });
+
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .insert({
+      booking_id: payment.booking_id,
+      user_id: payment.user_id,
+      amount: -refund.amountRefunded, // Negative amount for refund
+      currency: payment.currency || PAYMENT_CURRENCY.toLowerCase(),
+      status: 'refunded',
+      payment_method: 'refund',
+      refund_id: refund.refundId,
+      refund_reason: reason,
+      refunded_at: now,
+      created_at: now
+    });
+
+  if (error) {
+    console.error('Failed to record partial refund row:', error);
+  }
+
+  return refund.amountRefunded;
+}
+
+async function recordCancellationFee(bookingId: number, userId: string, cancellationFee: number): Promise<void> {
+  if (cancellationFee <= 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .insert({
+      booking_id: bookingId,
+      user_id: userId,
+      amount: cancellationFee,
+      currency: PAYMENT_CURRENCY.toLowerCase(),
+      status: 'captured',
+      payment_method: 'cancellation_fee',
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error(`Failed to record cancellation fee for booking ${bookingId}:`, error);
+  }
+}
+
+/**
+ * Remaining value of the promo code and credit applied to a booking
+ */
+async function getAppliedDiscountTotal(bookingId: number): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('payments')
+    .select('amount, refunded_amount')
+    .eq('booking_id', bookingId)
+    .in('payment_method', DISCOUNT_PAYMENT_METHODS)
+    .eq('status', 'applied');
+
+  if (error) throw error;
+  return round((data || []).reduce((sum, row) => sum + Number(row.amount) - Number(row.refunded_amount || 0), 0));
+}
+
+/**
+ * Give back a share (0-1) of what is left of a booking's discounts. Credit
+ * goes back to the wallet; the promo code's share lapses, and a full
+ * reversal frees the code for another booking. Returns the credit returned.
+ */
+export async function returnBookingDiscounts(bookingId: number, share: number, reason: string): Promise<number> {
+  const { data: rows, error } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .in('payment_method', DISCOUNT_PAYMENT_METHODS)
+    .eq('status', 'applied');
+
+  if (error) throw error;
+
+  const full = share >= 1;
+  let creditReturned = 0;
+
+  for (const row of rows || []) {
+    const returned = Number(row.refunded_amount || 0);
+    const remaining = round(Number(row.amount) - returned);
+    const amount = full ? remaining : round(remaining * Math.max(share, 0));
+
+    try {
+      await updatePayment(row.id, {
+        status: full ? 'reversed' : 'applied',
+        refunded_amount: round(returned + amount),
+        refund_reason: reason,
+        refunded_at: new Date().toISOString()
+      });
+    } catch (updateError) {
+      console.error(`Failed to record returned discount ${row.id}:`, updateError);
+      continue;
+    }
+
+    if (row.payment_method === 'credit' && amount > 0) {
+      creditReturned += await returnCredit(row.user_id, amount, bookingId);
+    }
+    if (full && row.promo_redemption_id) {
+      await reverseRedemption(row.promo_redemption_id, row.user_id, bookingId);
+    }
+  }
+
+  return round(creditReturned);
+}
+
+/**
+ * Capture the booking's hold when the driver accepts. A payment that is
+ * already captured counts as done.
+ */
+export async function captureBookingPayment(bookingId: number): Promise<SettlementResult> {
+  try {
+    const payment = await getBookingPayment(bookingId, OPEN_PAYMENT_STATUSES);
+
+    if (!payment) {
+      return await getBookingPayment(bookingId, CAPTURED_STATUSES)
+        ? { success: true }
+        : { success: false, error: `No capturable payment found for booking ${bookingId}` };
+    }
+
+    if (payment.expires_at && new Date() > new Date(payment.expires_at)) {
+      return { success: false, error: 'Payment authorization has expired' };
+    }
+
+    const transactionId = await captureWithProcessor(payment);
+
+    await updatePayment(payment.id, {
+      status: 'captured',
+      transaction_id: transactionId,
+      captured_at: new Date().toISOString()
+    });
+    await updateHoldStatus(payment.id, 'captured');
+
+    return { success: true };
+  } catch (error) {
+    console.error(`Payment capture failed for booking ${bookingId}:`, error);
+    return { success: false, error: 'Failed to capture payment. Please try again.' };
+  }
+}
+
+/**
+ * Release the whole booking: void the hold, or refund what is left of a
+ * captured payment, and give back its promo code and credit
+ */
+export async function releaseBookingPayment(bookingId: number, reason: RefundReason): Promise<SettlementResult> {
+  try {
+    const payment = await getBookingPayment(bookingId, [...OPEN_PAYMENT_STATUSES, ...CAPTURED_STATUSES]);
+    let refundAmount = 0;
+
+    if (payment && CAPTURED_STATUSES.includes(payment.status)) {
+      const refundable = round(Number(payment.amount) - Number(payment.refunded_amount || 0));
+      const refund = refundable > 0 ? await refundWithProcessor(payment, refundable, reason) : null;
+
+      await updatePayment(payment.id, {
+        status: 'refunded',
+        refund_reason: reason,
+        refund_id: refund?.refundId ?? payment.refund_id,
+        refunded_amount: round(Number(payment.refunded_amount || 0) + (refund?.amountRefunded || 0)),
+        refunded_at: new Date().toISOString()
+      });
+      await updateHoldStatus(payment.id, 'refunded');
+      refundAmount = refund?.amountRefunded || 0;
+    } else if (payment) {
+      // Nothing is held until the payer approves, and a lapsed hold is already gone
+      if (payment.status !== 'requires_action') {
+        try {
+          await voidWithProcessor(payment, reason);
+        } catch (error) {
+          if (!payment.expires_at || new Date(payment.expires_at) > new Date()) throw error;
+          console.warn(`Hold for payment ${payment.id} had already lapsed:`, error);
+        }
+      }
+
+      await updatePayment(payment.id, {
+        status: 'cancelled',
+        refund_reason: reason,
+        refunded_at: new Date().toISOString()
+      });
+      await updateHoldStatus(payment.id, 'released');
+      refundAmount = Number(payment.amount);
+    }
+
+    const creditReturned = await returnBookingDiscounts(bookingId, 1, reason);
+    return { success: true, refundAmount: round(refundAmount + creditReturned) };
+  } catch (error) {
+    console.error(`Payment release failed for booking ${bookingId}:`, error);
+    return { success: false, error: 'Failed to process refund. Please contact support.' };
+  }
+}
+
+/**
+ * Refund part of a captured booking, keeping the cancellation fee. A
+ * discounted booking is refunded pro rata: the card and credit each get their
+ * share back. With asCredit the card's share goes to the passenger's wallet
+ * instead of back to the card.
+ */
+export async function refundBookingPart(
+  bookingId: number,
+  refundAmount: number,
+  cancellationFee: number,
+  reason: RefundReason,
+  asCredit: boolean = false
+): Promise<SettlementResult> {
+  try {
+    const payment = await getBookingPayment(bookingId, CAPTURED_STATUSES);
+    if (!payment) {
+      return { success: false, error: `No captured payment found for booking ${bookingId}` };
+    }
+
+    const discount = await getAppliedDiscountTotal(bookingId);
+    const cardAmount = round(Number(payment.amount) - Number(payment.refunded_amount || 0));
+    const share = Math.min(refundAmount / (cardAmount + discount), 1);
+    const cardShare = round(cardAmount * share);
+
+    let refunded = 0;
+    if (cardShare > 0) {
+      refunded = asCredit
+        ? await creditCancelledBooking(bookingId, cardShare)
+        : await refundPartOfPayment(payment, cardShare, `${reason}_with_fee`);
+    }
+
+    const creditReturned = discount > 0 ? await returnBookingDiscounts(bookingId, share, reason) : 0;
+
+    await recordCancellationFee(bookingId, payment.user_id, cancellationFee);
+
+    return { success: true, refundAmount: round(refunded + creditReturned) };
+  } catch (error) {
+    console.error(`Partial refund failed for booking ${bookingId}:`, error);
+    return { success: false, error: 'Failed to process partial refund. Please contact support.' };
+  }
+}
+
+/**
+ * Lower a booking's uncaptured hold to a new total. Discounts shrink by the
+ * same share as the card payment; the authorization keeps its original amount
+ * in payment_holds.hold_amount and only the lower amount is captured later.
+ */
+export async function lowerBookingHold(bookingId: number, newAmount: number, reason: RefundReason): Promise<SettlementResult> {
+  try {
+    const payment = await getBookingPayment(bookingId, OPEN_PAYMENT_STATUSES);
+    if (!payment) {
+      return { success: false, error: `No payment hold found for booking ${bookingId}` };
+    }
+
+    const cardAmount = Number(payment.amount);
+    const discount = await getAppliedDiscountTotal(bookingId);
+    const previousAmount = round(cardAmount + discount);
+    const difference = round(previousAmount - newAmount);
+
+    if (newAmount <= 0 || difference < 0) {
+      return { success: false, error: `Payment can only be lowered, to between $0 and $${previousAmount.toFixed(2)}` };
+    }
+    if (difference === 0) {
+      return { success: true, refundAmount: 0 };
+    }
+
+    const share = difference / previousAmount;
+    const creditReturned = discount > 0 ? await returnBookingDiscounts(bookingId, share, reason) : 0;
+    await updatePayment(payment.id, { amount: discount > 0 ? round(cardAmount * (1 - share)) : round(newAmount) });
+
+    return { success: true, refundAmount: creditReturned };
+  } catch (error) {
+    console.error(`Lowering the hold failed for booking ${bookingId}:`, error);
+    return { success: false, error: 'Failed to adjust payment. Please contact support.' };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Server-side PayPal REST client for API functions
+ * Holds the client secret, which must never reach the browser.
+ */
+
+const clientId = process.env.PAYPAL_CLIENT_ID || process.env.VITE_PAYPAL_CLIENT_ID;
+const clientSecret = process.env.PAYPAL_CLIENT_SECRET;
+const sandboxMode = (process.env.PAYPAL_SANDBOX_MODE ?? process.env.VITE_PAYPAL_SANDBOX_MODE) !== 'false';
+
+export const PAYPAL_BASE_URL = sandboxMode
+  ? 'https://api-m.sandbox.paypal.com'
+  : 'https://api-m.paypal.com';
+
+if (!clientId || !clientSecret) {
+  console.error('Missing PayPal environment variables for API functions');
+}
+
+let cachedToken: { token: string; expiresAt: number } | null = null;
+
+/**
+ * OAuth access token, reused until shortly before it expires
+ */
+export async function getPayPalAccessToken(): Promise<string> {
+  if (cachedToken && Date.now() < cachedToken.expiresAt) {
+    return cachedToken.token;
+  }
+
+  const auth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+
+  const response = await fetch(`${PAYPAL_BASE_URL}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Accept-Language': 'en_US',
+      'Authorization': `Basic ${auth}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to get PayPal access token');
+  }
+
+  const data = await response.json() as { access_token: string; expires_in: number };
+  cachedToken = {
+    token: data.access_token,
+    expiresAt: Date.now() + (Number(data.expires_in) - 60) * 1000,
+  };
+  return cachedToken.token;
+}
+
+/**
+ * Authenticated call to the PayPal REST API. Throws with PayPal's message on failure.
+ */
+export async function paypalRequest<T = any>(
+  path: string,
+  options: { method?: 'GET' | 'POST'; body?: unknown } = {}
+): Promise<T> {
+  const accessToken = await getPayPalAccessToken();
+
+  const response = await fetch(`${PAYPAL_BASE_URL}${path}`, {
+    method: options.method || 'GET',
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  // Void returns 204 with no body
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : {};
+
+  if (!response.ok) {
+    throw new Error(data.message || `PayPal request failed: ${response.status}`);
+  }
+
+  return data as T;
+}
@@ -0,0 +1,153 @@
+/**
+ * Platform fee schedule
+ * The platform fee taken from each driver earning is data: a percentage plus
+ * a fixed fee with a minimum, optionally limited to a region, a driver tier
+ * or a promotional period. Rules are read from platform_fee_rules and the
+ * driver's tier from users.driver_tier with the service role, so the fee
+ * never depends on anything the client sends.
+ */
+
+import { supabaseAdmin } from './supabase';
+
+export interface PlatformFeeRule {
+  key: string;
+  name: string;
+  description?: string;
+  percentage: number; // Percent of the gross fare
+  fixed_fee: number; // Added per earning, in dollars
+  minimum_fee: number; // The fee is never lower than this (but never more than the fare)
+  region?: string | null; // Province code the ride starts in, e.g. 'ON'; null for any region
+  driver_tier?: string | null; // users.driver_tier; null for any tier
+  starts_at?: string | null; // Promotional period; null for open-ended
+  ends_at?: string | null;
+  priority: number; // Higher wins; ties go to the more specific rule
+}
+
+export interface FeeContext {
+  region?: string | null;
+  driverTier?: string | null;
+  at?: Date; // When the ride departs
+}
+
+export interface FeeCalculation {
+  serviceFeeAmount: number;
+  netAmount: number;
+  rule: PlatformFeeRule;
+}
+
+export const DEFAULT_PLATFORM_FEE_RULE_KEY = 'standard';
+
+// Used when the platform_fee_rules table has no rule that applies. Ops edit
+// the table rows to change fees without a deploy.
+const DEFAULT_PLATFORM_FEE_RULES: PlatformFeeRule[] = [
+  {
+    key: DEFAULT_PLATFORM_FEE_RULE_KEY,
+    name: 'Standard',
+    description: 'Standard platform fee',
+    percentage: 15,
+    fixed_fee: 0,
+    minimum_fee: 0,
+    region: null,
+    driver_tier: null,
+    starts_at: null,
+    ends_at: null,
+    priority: 0,
+  },
+];
+
+const CANADIAN_PROVINCES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+// Rows may come back with numeric strings or missing fields
+function normalizeRule(row: any): PlatformFeeRule {
+  return {
+    key: row.key,
+    name: row.name || row.key,
+    description: row.description || undefined,
+    percentage: Number(row.percentage) || 0,
+    fixed_fee: Number(row.fixed_fee) || 0,
+    minimum_fee: Number(row.minimum_fee) || 0,
+    region: row.region || null,
+    driver_tier: row.driver_tier || null,
+    starts_at: row.starts_at || null,
+    ends_at: row.ends_at || null,
+    priority: Number(row.priority) || 0,
+  };
+}
+
+const specificity = (rule: PlatformFeeRule) =>
+  (rule.region ? 1 : 0) + (rule.driver_tier ? 1 : 0) + (rule.starts_at || rule.ends_at ? 1 : 0);
+
+/**
+ * Active rules from platform_fee_rules, plus the built-in defaults they don't replace
+ */
+async function getRules(): Promise<PlatformFeeRule[]> {
+  const { data, error } = await supabaseAdmin
+    .from('platform_fee_rules')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  const loaded = (data || []).map(normalizeRule);
+  return [...loaded, ...DEFAULT_PLATFORM_FEE_RULES.filter(rule => !loaded.some(row => row.key === rule.key))];
+}
+
+/**
+ * Province code from a location such as "Toronto, ON M5V 2T6, Canada"
+ */
+export function getRegion(location?: string | null): string | null {
+  if (!location) return null;
+  const parts = location.split(',').map(part => part.trim().split(/\s+/)[0].toUpperCase());
+  return parts.find(part => CANADIAN_PROVINCES.includes(part)) || null;
+}
+
+/**
+ * The rule that applies in a context: highest priority, then most specific
+ */
+export async function getFeeRule(context: FeeContext = {}): Promise<PlatformFeeRule> {
+  const at = context.at || new Date();
+  const matching = (await getRules())
+    .filter(rule => !rule.region || rule.region === context.region)
+    .filter(rule => !rule.driver_tier || rule.driver_tier === context.driverTier)
+    .filter(rule => !rule.starts_at || new Date(rule.starts_at) <= at)
+    .filter(rule => !rule.ends_at || new Date(rule.ends_at) > at)
+    .sort((a, b) => b.priority - a.priority || specificity(b) - specificity(a));
+
+  return matching[0] || DEFAULT_PLATFORM_FEE_RULES[0];
+}
+
+/**
+ * The driver's tier as ops set it
+ */
+export async function getDriverTier(driverId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('driver_tier')
+    .eq('id', driverId)
+    .single();
+
+  if (error) throw error;
+  return data?.driver_tier ?? null;
+}
+
+/**
+ * The rule for a ride, from its start region and departure and its driver's tier
+ */
+export async function getFeeRuleForRide(ride: { driver_id: string; from_location?: string | null; departure_time?: string | null }): Promise<PlatformFeeRule> {
+  return getFeeRule({
+    region: getRegion(ride.from_location),
+    driverTier: await getDriverTier(ride.driver_id),
+    at: ride.departure_time ? new Date(ride.departure_time) : new Date(),
+  });
+}
+
+/**
+ * Fee and driver's share of a gross amount under a rule
+ */
+export function calculateFee(rule: PlatformFeeRule, grossAmount: number): FeeCalculation {
+  const fee = Math.max(grossAmount * rule.percentage / 100 + rule.fixed_fee, rule.minimum_fee);
+  const serviceFeeAmount = Math.round(Math.min(Math.max(fee, 0), grossAmount) * 100) / 100;
+  const netAmount = Math.round((grossAmount - serviceFeeAmount) * 100) / 100;
+
+  return { serviceFeeAmount, netAmount, rule };
+}
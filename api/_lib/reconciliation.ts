@@ -0,0 +1,519 @@
+/**
+ * Payment reconciliation
+ * For one day, compares payments, payment_holds and earnings with each other
+ * and with the processor's own records, and lists every disagreement.
+ * Processor records come from the Stripe API, or from a JSON fixture
+ * (RECONCILIATION_FIXTURE) for local runs and processors without a listing API.
+ */
+
+import Stripe from 'stripe';
+import { readFile } from 'fs/promises';
+import { supabaseAdmin } from './supabase';
+import { LEDGER_PAYMENT_METHODS, CAPTURED_STATUSES, getRetainedAmount } from './paymentRecords';
+
+export type DiscrepancyType =
+  | 'missing_earning'
+  | 'duplicate_earning'
+  | 'earning_amount_mismatch'
+  | 'earning_without_payment'
+  | 'double_capture'
+  | 'hold_status_mismatch'
+  | 'missing_payment_record'
+  | 'capture_not_reflected'
+  | 'capture_not_at_processor'
+  | 'amount_mismatch'
+  | 'refund_not_reflected'
+  | 'refund_not_at_processor';
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  severity: 'high' | 'medium' | 'low';
+  booking_id?: number | null;
+  payment_id?: number | null;
+  earning_id?: string | null;
+  processor_id?: string | null;
+  expected?: number | string | null;
+  actual?: number | string | null;
+  detail: string;
+}
+
+// What the processor says happened to one authorization
+export interface ProcessorRecord {
+  id: string; // Payment intent, authorization or capture id
+  provider: string;
+  booking_id?: number | null;
+  amount: number; // Authorized, in dollars
+  amount_captured: number;
+  amount_refunded: number;
+  status: 'authorized' | 'captured' | 'voided' | 'failed';
+  created_at: string;
+}
+
+export interface ProcessorRecordSource {
+  name: string;
+  providers: string[]; // payments.payment_method values this source can vouch for
+  listRecords(start: Date, end: Date): Promise<ProcessorRecord[]>;
+  getRecords(ids: string[]): Promise<ProcessorRecord[]>;
+}
+
+export interface ReconciliationSummary {
+  bookings_checked: number;
+  payments_checked: number;
+  processor_records_checked: number;
+  captured_total: number;
+  refunded_total: number;
+  earnings_gross_total: number;
+  discrepancies: number;
+}
+
+export interface ReconciliationReport {
+  report_date: string; // YYYY-MM-DD, UTC
+  source: string;
+  generated_at: string;
+  summary: ReconciliationSummary;
+  discrepancies: Discrepancy[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const differs = (a: number, b: number) => Math.abs(a - b) > 0.009;
+
+/**
+ * Stripe payment intents created in the day, with their latest charge for refunds
+ */
+export function createStripeRecordSource(secretKey: string): ProcessorRecordSource {
+  const stripe = new Stripe(secretKey);
+
+  const toRecord = (intent: Stripe.PaymentIntent): ProcessorRecord => {
+    const charge = typeof intent.latest_charge === 'object' ? intent.latest_charge : null;
+    return {
+      id: intent.id,
+      provider: 'stripe',
+      booking_id: intent.metadata?.booking_id ? Number(intent.metadata.booking_id) : null,
+      amount: intent.amount / 100,
+      amount_captured: intent.status === 'succeeded' ? intent.amount_received / 100 : 0,
+      amount_refunded: charge ? charge.amount_refunded / 100 : 0,
+      status: intent.status === 'succeeded'
+        ? 'captured'
+        : intent.status === 'requires_capture'
+          ? 'authorized'
+          : intent.status === 'canceled' ? 'voided' : 'failed',
+      created_at: new Date(intent.created * 1000).toISOString(),
+    };
+  };
+
+  return {
+    name: 'stripe',
+    providers: ['stripe'],
+
+    async listRecords(start, end) {
+      const records: ProcessorRecord[] = [];
+      for await (const intent of stripe.paymentIntents.list({
+        created: { gte: Math.floor(start.getTime() / 1000), lt: Math.floor(end.getTime() / 1000) },
+        expand: ['data.latest_charge'],
+        limit: 100,
+      })) {
+        records.push(toRecord(intent));
+      }
+      return records;
+    },
+
+    async getRecords(ids) {
+      const records: ProcessorRecord[] = [];
+      for (const id of ids) {
+        try {
+          records.push(toRecord(await stripe.paymentIntents.retrieve(id, { expand: ['latest_charge'] })));
+        } catch (error) {
+          console.error(`Failed to retrieve payment intent ${id}:`, error);
+        }
+      }
+      return records;
+    },
+  };
+}
+
+/**
+ * Processor records from a JSON file holding a ProcessorRecord array
+ */
+export function createFixtureRecordSource(path: string): ProcessorRecordSource {
+  let loaded: Promise<ProcessorRecord[]> | null = null;
+  const load = () => {
+    loaded = loaded || readFile(path, 'utf8').then(text => JSON.parse(text) as ProcessorRecord[]);
+    return loaded;
+  };
+
+  return {
+    name: 'fixture',
+    providers: ['stripe', 'paypal', 'fake'],
+
+    async listRecords(start, end) {
+      return (await load()).filter(record => {
+        const created = new Date(record.created_at).getTime();
+        return created >= start.getTime() && created < end.getTime();
+      });
+    },
+
+    async getRecords(ids) {
+      return (await load()).filter(record => ids.includes(record.id));
+    },
+  };
+}
+
+/**
+ * Source chosen by name, falling back to RECONCILIATION_SOURCE, then Stripe when a key is set
+ */
+export function getProcessorRecordSource(name?: string): ProcessorRecordSource | null {
+  const source = name || process.env.RECONCILIATION_SOURCE || (process.env.STRIPE_SECRET_KEY ? 'stripe' : 'fixture');
+
+  if (source === 'stripe' && process.env.STRIPE_SECRET_KEY) {
+    return createStripeRecordSource(process.env.STRIPE_SECRET_KEY);
+  }
+  if (source === 'fixture' && process.env.RECONCILIATION_FIXTURE) {
+    return createFixtureRecordSource(process.env.RECONCILIATION_FIXTURE);
+  }
+  return null;
+}
+
+function getDayRange(reportDate: string): { start: Date; end: Date } {
+  const start = new Date(`${reportDate}T00:00:00.000Z`);
+  if (isNaN(start.getTime())) {
+    throw new Error(`Invalid report date: ${reportDate}`);
+  }
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+/**
+ * The previous UTC day, which the daily run reconciles
+ */
+export function getDefaultReportDate(): string {
+  return new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+async function selectAll(table: string, column: string, values: (string | number)[], columns: string = '*'): Promise<any[]> {
+  if (values.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select(columns)
+    .in(column, values);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Bookings whose money moved during the day: authorized, captured or refunded,
+ * or with an earning dated that day
+ */
+async function loadDayBookingIds(start: Date, end: Date, reportDate: string): Promise<number[]> {
+  const from = start.toISOString();
+  const to = end.toISOString();
+
+  const results = await Promise.all([
+    supabaseAdmin.from('payments').select('booking_id').gte('created_at', from).lt('created_at', to),
+    supabaseAdmin.from('payments').select('booking_id').gte('captured_at', from).lt('captured_at', to),
+    supabaseAdmin.from('payments').select('booking_id').gte('refunded_at', from).lt('refunded_at', to),
+    supabaseAdmin.from('earnings').select('booking_id').eq('earning_date', reportDate),
+  ]);
+
+  const ids = new Set<number>();
+  for (const { data, error } of results) {
+    if (error) throw error;
+    for (const row of data || []) {
+      if (row.booking_id) ids.add(row.booking_id);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Build the discrepancy report for one UTC day
+ */
+export async function reconcileDay(
+  reportDate: string,
+  source: ProcessorRecordSource | null
+): Promise<ReconciliationReport> {
+  const { start, end } = getDayRange(reportDate);
+  const bookingIds = await loadDayBookingIds(start, end, reportDate);
+
+  const [bookings, payments, earnings] = await Promise.all([
+    selectAll('ride_bookings', 'id', bookingIds, 'id, status, total_amount'),
+    selectAll('payments', 'booking_id', bookingIds),
+    selectAll('earnings', 'booking_id', bookingIds, 'id, booking_id, gross_amount, status'),
+  ]);
+  const holds = await selectAll('payment_holds', 'payment_id', payments.map(payment => payment.id), 'id, payment_id, status');
+
+  const discrepancies: Discrepancy[] = [];
+  const summary: ReconciliationSummary = {
+    bookings_checked: bookings.length,
+    payments_checked: payments.length,
+    processor_records_checked: 0,
+    captured_total: 0,
+    refunded_total: 0,
+    earnings_gross_total: 0,
+    discrepancies: 0,
+  };
+
+  // Ledger checks: payments against holds and earnings, per booking
+  for (const booking of bookings) {
+    const bookingPayments = payments.filter(payment => payment.booking_id === booking.id);
+    const authorizations = bookingPayments.filter(payment => !LEDGER_PAYMENT_METHODS.includes(payment.payment_method));
+    const partialRefunds = bookingPayments.filter(payment => payment.payment_method === 'refund');
+    const bookingEarnings = earnings.filter(earning => earning.booking_id === booking.id);
+
+    const captured = authorizations.filter(payment => CAPTURED_STATUSES.includes(payment.status));
+    const fullyRefunded = authorizations.filter(payment => payment.status === 'refunded');
+    const capturedAmount = round(captured.reduce((sum, payment) => sum + Number(payment.amount), 0));
+    const refundedAmount = round(
+      fullyRefunded.reduce((sum, payment) => sum + Number(payment.amount), 0)
+      + partialRefunds.reduce((sum, payment) => sum + Math.abs(Number(payment.amount)), 0)
+    );
+    // Refunds taken as credit stay captured, and the unreturned part of a discount counts as paid
+    const retained = getRetainedAmount(bookingPayments);
+    const earningsGross = round(bookingEarnings.reduce((sum, earning) => sum + Number(earning.gross_amount), 0));
+
+    summary.captured_total = round(summary.captured_total + capturedAmount + fullyRefunded.reduce((sum, payment) => sum + Number(payment.amount), 0));
+    summary.refunded_total = round(summary.refunded_total + refundedAmount);
+    summary.earnings_gross_total = round(summary.earnings_gross_total + earningsGross);
+
+    if (captured.length > 1) {
+      discrepancies.push({
+        type: 'double_capture',
+        severity: 'high',
+        booking_id: booking.id,
+        payment_id: captured[1].id,
+        expected: 1,
+        actual: captured.length,
+        detail: `Booking has ${captured.length} captured payments (${captured.map(payment => payment.id).join(', ')})`,
+      });
+    }
+
+    const earnsMoney = booking.status === 'completed' || booking.status === 'cancelled';
+    if (earnsMoney && retained > 0 && bookingEarnings.length === 0) {
+      discrepancies.push({
+        type: 'missing_earning',
+        severity: 'high',
+        booking_id: booking.id,
+        payment_id: captured[0]?.id ?? null,
+        expected: retained,
+        actual: 0,
+        detail: `${booking.status === 'completed' ? 'Completed' : 'Cancelled'} booking kept $${retained.toFixed(2)} but has no earning`,
+      });
+    }
+
+    if (bookingEarnings.length > 1) {
+      discrepancies.push({
+        type: 'duplicate_earning',
+        severity: 'high',
+        booking_id: booking.id,
+        earning_id: bookingEarnings[1].id,
+        expected: 1,
+        actual: bookingEarnings.length,
+        detail: `Booking has ${bookingEarnings.length} earnings`,
+      });
+    }
+
+    if (bookingEarnings.length > 0 && retained <= 0) {
+      discrepancies.push({
+        type: 'earning_without_payment',
+        severity: 'high',
+        booking_id: booking.id,
+        earning_id: bookingEarnings[0].id,
+        expected: 0,
+        actual: earningsGross,
+        detail: 'Earning exists but no money was kept from the passenger',
+      });
+    } else if (bookingEarnings.length > 0 && differs(earningsGross, retained)) {
+      discrepancies.push({
+        type: 'earning_amount_mismatch',
+        severity: 'medium',
+        booking_id: booking.id,
+        earning_id: bookingEarnings[0].id,
+        expected: retained,
+        actual: earningsGross,
+        detail: `Earnings gross $${earningsGross.toFixed(2)} does not match the $${retained.toFixed(2)} kept`,
+      });
+    }
+
+    for (const payment of authorizations) {
+      const hold = holds.find(candidate => candidate.payment_id === payment.id);
+      if (!hold) continue;
+
+      const expectedHold = CAPTURED_STATUSES.includes(payment.status)
+        ? ['captured']
+        : payment.status === 'refunded'
+          ? ['refunded', 'released']
+          : payment.status === 'cancelled' || payment.status === 'failed'
+            ? ['released', 'failed']
+            : ['active'];
+
+      if (!expectedHold.includes(hold.status)) {
+        discrepancies.push({
+          type: 'hold_status_mismatch',
+          severity: 'low',
+          booking_id: booking.id,
+          payment_id: payment.id,
+          expected: expectedHold.join(' or '),
+          actual: hold.status,
+          detail: `Payment is ${payment.status} but its hold is ${hold.status}`,
+        });
+      }
+    }
+  }
+
+  // Processor checks: the processor's view of each authorization against ours
+  if (source) {
+    const checkedPayments = payments.filter(payment =>
+      !LEDGER_PAYMENT_METHODS.includes(payment.payment_method) && source.providers.includes(payment.payment_method)
+    );
+
+    const listed = await source.listRecords(start, end);
+    const listedIds = new Set(listed.map(record => record.id));
+    const missingIds = checkedPayments
+      .map(payment => payment.payment_intent_id || payment.authorization_id)
+      .filter((id): id is string => !!id && !listedIds.has(id));
+    const records = [...listed, ...(await source.getRecords(missingIds))];
+    summary.processor_records_checked = records.length;
+
+    const findPayment = (record: ProcessorRecord) => checkedPayments.find(payment =>
+      payment.payment_intent_id === record.id || payment.authorization_id === record.id || payment.transaction_id === record.id
+    );
+
+    // Records created that day may belong to bookings we did not load
+    const unmatched = records.filter(record => !findPayment(record));
+    const unmatchedIds = unmatched.map(record => record.id);
+    const [byIntent, byAuthorization] = await Promise.all([
+      selectAll('payments', 'payment_intent_id', unmatchedIds, 'id, payment_intent_id'),
+      selectAll('payments', 'authorization_id', unmatchedIds, 'id, authorization_id'),
+    ]);
+    const knownElsewhere = new Set([
+      ...byIntent.map(row => row.payment_intent_id),
+      ...byAuthorization.map(row => row.authorization_id),
+    ]);
+
+    const capturedByBooking = new Map<number, ProcessorRecord[]>();
+
+    for (const record of records) {
+      if (record.booking_id && record.amount_captured > 0) {
+        capturedByBooking.set(record.booking_id, [...(capturedByBooking.get(record.booking_id) || []), record]);
+      }
+
+      const payment = findPayment(record);
+      if (!payment) {
+        if (record.status !== 'failed' && !knownElsewhere.has(record.id)) {
+          discrepancies.push({
+            type: 'missing_payment_record',
+            severity: record.amount_captured > 0 ? 'high' : 'medium',
+            booking_id: record.booking_id ?? null,
+            processor_id: record.id,
+            expected: record.amount,
+            actual: null,
+            detail: `${record.provider} ${record.status} payment has no payments row`,
+          });
+        }
+        continue;
+      }
+
+      const partialRefunds = payments
+        .filter(row => row.booking_id === payment.booking_id && row.payment_method === 'refund')
+        .reduce((sum, row) => sum + Math.abs(Number(row.amount)), 0);
+      const ourRefunded = payment.status === 'refunded'
+        ? Number(payment.refunded_amount ?? payment.amount)
+        : Math.max(Number(payment.refunded_amount || 0), round(partialRefunds));
+      const ourCaptured = CAPTURED_STATUSES.includes(payment.status) || payment.status === 'refunded';
+
+      if (record.amount_captured > 0 && !ourCaptured) {
+        discrepancies.push({
+          type: 'capture_not_reflected',
+          severity: 'high',
+          booking_id: payment.booking_id,
+          payment_id: payment.id,
+          processor_id: record.id,
+          expected: 'captured',
+          actual: payment.status,
+          detail: `Processor captured $${record.amount_captured.toFixed(2)} but the payment is ${payment.status}`,
+        });
+      } else if (record.amount_captured === 0 && ourCaptured) {
+        discrepancies.push({
+          type: 'capture_not_at_processor',
+          severity: 'high',
+          booking_id: payment.booking_id,
+          payment_id: payment.id,
+          processor_id: record.id,
+          expected: record.status,
+          actual: payment.status,
+          detail: `Payment is ${payment.status} but the processor shows it ${record.status}`,
+        });
+      } else if (record.amount_captured > 0 && differs(record.amount_captured, Number(payment.amount))) {
+        discrepancies.push({
+          type: 'amount_mismatch',
+          severity: 'medium',
+          booking_id: payment.booking_id,
+          payment_id: payment.id,
+          processor_id: record.id,
+          expected: record.amount_captured,
+          actual: Number(payment.amount),
+          detail: 'Captured amount differs from the payment amount',
+        });
+      }
+
+      if (record.amount_refunded - ourRefunded > 0.009) {
+        discrepancies.push({
+          type: 'refund_not_reflected',
+          severity: 'high',
+          booking_id: payment.booking_id,
+          payment_id: payment.id,
+          processor_id: record.id,
+          expected: record.amount_refunded,
+          actual: round(ourRefunded),
+          detail: `Processor refunded $${record.amount_refunded.toFixed(2)}, payments show $${round(ourRefunded).toFixed(2)}`,
+        });
+      } else if (ourRefunded - record.amount_refunded > 0.009) {
+        discrepancies.push({
+          type: 'refund_not_at_processor',
+          severity: 'high',
+          booking_id: payment.booking_id,
+          payment_id: payment.id,
+          processor_id: record.id,
+          expected: round(ourRefunded),
+          actual: record.amount_refunded,
+          detail: `Payments show $${round(ourRefunded).toFixed(2)} refunded, the processor $${record.amount_refunded.toFixed(2)}`,
+        });
+      }
+    }
+
+    for (const [bookingId, captures] of capturedByBooking) {
+      if (captures.length > 1) {
+        discrepancies.push({
+          type: 'double_capture',
+          severity: 'high',
+          booking_id: bookingId,
+          processor_id: captures.map(record => record.id).join(' '),
+          expected: 1,
+          actual: captures.length,
+          detail: `Processor captured ${captures.length} times for the booking`,
+        });
+      }
+    }
+  }
+
+  summary.discrepancies = discrepancies.length;
+
+  return {
+    report_date: reportDate,
+    source: source?.name || 'none',
+    generated_at: new Date().toISOString(),
+    summary,
+    discrepancies,
+  };
+}
+
+/**
+ * Store a report, replacing an earlier run for the same day and source
+ */
+export async function saveReconciliationReport(report: ReconciliationReport): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('payment_reconciliation_reports')
+    .upsert(report, { onConflict: 'report_date,source' });
+
+  if (error) throw error;
+}
@@ -0,0 +1,383 @@
+/**
+ * Recurring ride occurrences
+ * Generates the ordinary rides rows of each active recurring ride up to
+ * RECURRING_RIDE_DAYS_AHEAD days ahead. Runs with the service role from the
+ * daily cron and right after a driver creates or resumes a template, never
+ * in the driver's browser. Templates keep the driver's time zone, so dates
+ * and departure times are worked out in it; rides store local
+ * "YYYY-MM-DD HH:mm:ss" strings, as PostRidePage does. Dates that clash with
+ * another of the driver's rides are left out and saved on the template as
+ * its conflicts; the next run tries them again.
+ */
+
+import { supabaseAdmin } from './supabase';
+
+// Recurring ride row as stored in recurring_rides
+export interface RecurringRideRow {
+  id: number;
+  driver_id: string;
+  from_location: string;
+  to_location: string;
+  from_lat?: number | null;
+  from_lng?: number | null;
+  to_lat?: number | null;
+  to_lng?: number | null;
+  stops?: { address: string; lat: number | null; lng: number | null }[] | null;
+  departure_time: string; // HH:mm:ss in time_zone
+  weekdays: number[]; // 0 = Sunday
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  time_zone: string;
+  estimated_duration?: number | null;
+  available_seats: number;
+  price_per_seat: number;
+  car_model?: string | null;
+  car_color?: string | null;
+  license_plate?: string | null;
+  description?: string | null;
+  max_detour_minutes?: number | null;
+  cancellation_policy?: string | null;
+  route_polyline?: string | null;
+  status: 'active' | 'paused' | 'ended';
+}
+
+export interface OccurrenceConflict {
+  date: string; // YYYY-MM-DD
+  message: string;
+}
+
+export interface MaterializeResult {
+  created: number;
+  conflicts: OccurrenceConflict[];
+}
+
+export interface RecurringRideRunResult {
+  templatesChecked: number;
+  ridesCreated: number;
+  conflicts: number;
+}
+
+// How far ahead occurrences are generated as concrete rides
+const RECURRING_RIDE_DAYS_AHEAD = Number(process.env.RECURRING_RIDE_DAYS_AHEAD || process.env.VITE_RECURRING_RIDE_DAYS_AHEAD) || 14;
+
+// Assumed trip length when the route gave no duration
+const DEFAULT_DURATION_MINUTES = 120;
+
+// Wall-clock date and time of an instant in a time zone
+function getZonedParts(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+  };
+}
+
+// The instant a wall-clock date and time happens in a time zone
+function getZonedInstant(date: string, time: string, timeZone: string): Date {
+  const guess = new Date(`${date}T${time}Z`);
+  const local = getZonedParts(guess, timeZone);
+  const offset = new Date(`${local.date}T${local.time}Z`).getTime() - guess.getTime();
+  return new Date(guess.getTime() - offset);
+}
+
+function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().split('T')[0];
+}
+
+/**
+ * Why the driver may not have new rides posted, or null if they may.
+ * Drivers on a safety hold or suspended keep their templates but get no new
+ * rides until they are back in good standing.
+ */
+async function getPostingHold(driverId: string): Promise<string | null> {
+  const { data: driver, error } = await supabaseAdmin
+    .from('users')
+    .select('account_status, suspension_until, safety_hold_since')
+    .eq('id', driverId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!driver) return 'Driver profile not found';
+
+  if (driver.safety_hold_since) {
+    return 'Account is on hold while a safety report is reviewed';
+  }
+
+  if (driver.account_status === 'banned') {
+    return 'Account is banned';
+  }
+
+  if (driver.account_status === 'suspended'
+    && (!driver.suspension_until || new Date(driver.suspension_until) > new Date())) {
+    return 'Account is suspended';
+  }
+
+  return null;
+}
+
+// Why a departure clashes with the driver's other rides, worded like
+// rideConflictService.formatConflictMessage; null if it does not
+async function findConflict(driverId: string, departure: Date, arrival: Date): Promise<string | null> {
+  const { data, error } = await supabaseAdmin.rpc('check_ride_conflicts', {
+    p_driver_id: driverId,
+    p_departure_time: departure.toISOString(),
+    p_arrival_time: arrival.toISOString(),
+    p_exclude_ride_id: null
+  });
+
+  if (error || !data?.[0]) {
+    console.error('Error checking ride conflicts:', error);
+    return 'Unable to verify schedule conflicts';
+  }
+
+  const result = data[0];
+  if (!result.conflict_exists) return null;
+
+  const conflicts = result.conflict_details?.conflicts || [];
+  return conflicts.length > 1
+    ? `You have ${conflicts.length} rides that conflict with this schedule. Please choose a different time.`
+    : `You already have a ride scheduled during this time: ${result.conflicting_ride_info}`;
+}
+
+async function createOccurrence(
+  template: RecurringRideRow,
+  occurrenceDate: string,
+  departureTime: string,
+  arrival: Date
+): Promise<boolean> {
+  const stops = (template.stops || []).filter(stop => stop.address.trim());
+  const localArrival = getZonedParts(arrival, template.time_zone);
+
+  const { data: ride, error: rideError } = await supabaseAdmin
+    .from('rides')
+    .insert({
+      driver_id: template.driver_id,
+      recurring_ride_id: template.id,
+      occurrence_date: occurrenceDate,
+      from_location: template.from_location,
+      to_location: template.to_location,
+      from_lat: template.from_lat || null,
+      from_lng: template.from_lng || null,
+      to_lat: template.to_lat || null,
+      to_lng: template.to_lng || null,
+      departure_time: `${occurrenceDate} ${departureTime}`,
+      arrival_time: template.estimated_duration ? `${localArrival.date} ${localArrival.time}` : null,
+      estimated_duration: template.estimated_duration || null,
+      available_seats: template.available_seats,
+      price_per_seat: template.price_per_seat,
+      car_model: template.car_model,
+      car_color: template.car_color,
+      license_plate: template.license_plate,
+      description: template.description,
+      status: 'active',
+      stops: stops.length > 0 ? stops : null,
+      use_direct_route: stops.length === 0,
+      route_polyline: template.route_polyline || null,
+      max_detour_minutes: template.max_detour_minutes,
+      cancellation_policy: template.cancellation_policy,
+    })
+    .select()
+    .single();
+
+  if (rideError) {
+    // Another run got there first
+    if (rideError.code === '23505') return false;
+    console.error(`Error creating occurrence of recurring ride ${template.id} for ${occurrenceDate}:`, rideError);
+    return false;
+  }
+
+  // Same segment layout as PostRidePage
+  if (stops.length > 0) {
+    const segments = [
+      {
+        ride_id: ride.id,
+        address: template.from_location,
+        lat: template.from_lat || null,
+        lng: template.from_lng || null,
+        segment_order: 0,
+        is_pickup: true,
+      },
+      ...stops.map((stop, index) => ({
+        ride_id: ride.id,
+        address: stop.address,
+        lat: stop.lat,
+        lng: stop.lng,
+        segment_order: index + 1,
+        is_pickup: true,
+      })),
+      {
+        ride_id: ride.id,
+        address: template.to_location,
+        lat: template.to_lat || null,
+        lng: template.to_lng || null,
+        segment_order: stops.length + 1,
+        is_pickup: false,
+      },
+    ];
+
+    const { error: segmentError } = await supabaseAdmin
+      .from('ride_segments')
+      .insert(segments);
+
+    if (segmentError) {
+      console.error(`Error creating segments of ride ${ride.id}:`, segmentError);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Create the missing occurrences of a recurring ride within the generation
+ * window and save the dates that could not be posted on the template. A
+ * template past its end date is ended.
+ */
+export async function materializeTemplate(template: RecurringRideRow): Promise<MaterializeResult> {
+  const result: MaterializeResult = { created: 0, conflicts: [] };
+
+  if (template.status !== 'active') return result;
+
+  const now = new Date();
+  const today = getZonedParts(now, template.time_zone).date;
+  const windowStart = [today, template.start_date].sort()[1];
+  const windowEnd = [addDays(today, RECURRING_RIDE_DAYS_AHEAD), template.end_date].sort()[0];
+
+  if (windowStart > windowEnd) {
+    if (template.end_date < today) {
+      await supabaseAdmin
+        .from('recurring_rides')
+        .update({ status: 'ended', conflicts: null, updated_at: now.toISOString() })
+        .eq('id', template.id);
+    }
+    return result;
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('rides')
+    .select('occurrence_date')
+    .eq('recurring_ride_id', template.id)
+    .gte('occurrence_date', windowStart)
+    .lte('occurrence_date', windowEnd);
+
+  if (existingError) throw existingError;
+
+  const existingDates = new Set((existing || []).map(ride => ride.occurrence_date));
+  const departureTime = `${template.departure_time.slice(0, 5)}:00`;
+  let lastCreated: string | null = null;
+
+  for (let occurrenceDate = windowStart; occurrenceDate <= windowEnd; occurrenceDate = addDays(occurrenceDate, 1)) {
+    const weekday = new Date(`${occurrenceDate}T00:00:00Z`).getUTCDay();
+    if (!template.weekdays.includes(weekday) || existingDates.has(occurrenceDate)) continue;
+
+    const departure = getZonedInstant(occurrenceDate, departureTime, template.time_zone);
+    if (departure <= now) continue;
+
+    const arrival = new Date(departure.getTime() + (template.estimated_duration || DEFAULT_DURATION_MINUTES) * 60 * 1000);
+
+    const conflict = await findConflict(template.driver_id, departure, arrival);
+    if (conflict) {
+      result.conflicts.push({ date: occurrenceDate, message: conflict });
+      continue;
+    }
+
+    if (await createOccurrence(template, occurrenceDate, departureTime, arrival)) {
+      result.created++;
+      lastCreated = occurrenceDate;
+    }
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('recurring_rides')
+    .update({
+      ...(lastCreated ? { materialized_until: lastCreated } : {}),
+      conflicts: result.conflicts.length > 0 ? result.conflicts : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', template.id);
+
+  if (updateError) {
+    console.error(`Failed to update recurring ride ${template.id}:`, updateError);
+  }
+
+  return result;
+}
+
+/**
+ * Generate the occurrences of one of the driver's recurring rides now, after
+ * it is created or resumed
+ */
+export async function materializeDriverTemplate(
+  driverId: string,
+  templateId: number
+): Promise<{ success: boolean; result?: MaterializeResult; error?: string }> {
+  const { data: template, error } = await supabaseAdmin
+    .from('recurring_rides')
+    .select('*')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!template || template.driver_id !== driverId) {
+    return { success: false, error: 'Recurring ride not found' };
+  }
+
+  if (template.status !== 'active') {
+    return { success: false, error: `A ${template.status} recurring ride does not post trips` };
+  }
+
+  const hold = await getPostingHold(driverId);
+  if (hold) {
+    return { success: false, error: `${hold}, so no trips can be posted` };
+  }
+
+  return { success: true, result: await materializeTemplate(template) };
+}
+
+/**
+ * Roll every active recurring ride's schedule forward. Run daily by the cron.
+ */
+export async function processRecurringRides(): Promise<RecurringRideRunResult> {
+  const run: RecurringRideRunResult = { templatesChecked: 0, ridesCreated: 0, conflicts: 0 };
+
+  const { data: templates, error } = await supabaseAdmin
+    .from('recurring_rides')
+    .select('*')
+    .eq('status', 'active')
+    .order('driver_id', { ascending: true });
+
+  if (error) throw error;
+
+  const holds = new Map<string, string | null>();
+
+  for (const template of templates || []) {
+    try {
+      if (!holds.has(template.driver_id)) {
+        holds.set(template.driver_id, await getPostingHold(template.driver_id));
+      }
+      if (holds.get(template.driver_id)) continue;
+
+      const result = await materializeTemplate(template);
+      run.templatesChecked++;
+      run.ridesCreated += result.created;
+      run.conflicts += result.conflicts.length;
+    } catch (templateError) {
+      console.error(`Error generating occurrences of recurring ride ${template.id}:`, templateError);
+    }
+  }
+
+  return run;
+}
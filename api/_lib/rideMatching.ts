@@ -0,0 +1,202 @@
+/**
+ * Server-side ride matching helpers
+ * Matching itself is RideMatchingService from src/lib, the same module the
+ * app uses. This adds what the API functions need around it: the Supabase
+ * select, the SQL bounding box, and the price and times of a match. Used by
+ * ride search and saved search alerts.
+ */
+
+import {
+  RideMatchingService,
+  RideMatch,
+  RideMatchOptions,
+  MatchStop,
+  GeoPoint
+} from '../../src/lib/rideMatchingService';
+
+export interface SearchStop extends MatchStop {
+  estimated_arrival?: string;
+}
+
+// Same shape the ride list and ride details pages use
+export interface SegmentMatch {
+  ride: any;
+  fromSegment: SearchStop;
+  toSegment: SearchStop;
+  segmentPrice: number;
+  estimatedPickupTime: string;
+  estimatedDropoffTime: string;
+  availableSeats: number;
+  isFull?: boolean; // Fewer seats left than requested, only a waitlist spot is available
+  pickupAtStop?: boolean; // False when the passenger boards on the route between stops, as a custom stop
+  dropoffAtStop?: boolean;
+  realTimeETA?: boolean; // Times come from the routed route or stored stop ETAs
+  actualDistance?: number;
+  actualDuration?: number;
+  detourDistance?: number;
+}
+
+export interface StopMatchCriteria {
+  origin?: { lat?: number; lng?: number };
+  destination?: { lat?: number; lng?: number };
+  fromLocation?: string; // Only used when coordinates are missing
+  toLocation?: string;
+}
+
+export interface RouteBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Columns needed to match a ride, for use in Supabase selects
+export const RIDE_MATCH_SELECT = `
+  *,
+  driver:users!rides_driver_id_fkey(
+    id, display_name, photo_url, rating, car_model, car_plate
+  ),
+  ride_segments!left(
+    id, address, lat, lng, segment_order, is_pickup, is_custom_stop, estimated_arrival
+  )
+`;
+
+export const MATCH_OPTIONS: RideMatchOptions = {
+  pickupRadiusKm: Number(process.env.MATCH_PICKUP_RADIUS_KM) || 5,
+  dropoffRadiusKm: Number(process.env.MATCH_DROPOFF_RADIUS_KM) || 5,
+};
+
+const MINIMUM_SEGMENT_PRICE = 2.0;
+const FALLBACK_SPEED_KMH = 50;
+const KM_PER_DEGREE_LAT = 111.32;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const isValidPoint = (point?: { lat?: number; lng?: number } | null): point is GeoPoint =>
+  !!point &&
+  point.lat != null && point.lng != null &&
+  !isNaN(point.lat) && !isNaN(point.lng) &&
+  !(point.lat === 0 && point.lng === 0);
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+// Rides store local "YYYY-MM-DD HH:mm:ss" strings or zoned timestamps
+const hasZone = (time: string) => /(Z|[+-]\d{2}(:?\d{2})?)$/.test(time);
+
+/**
+ * Ride times are stored either as local "YYYY-MM-DD HH:mm:ss" strings or as
+ * timestamps with a zone. Local strings are shifted without converting so the
+ * browser still reads them as local time.
+ */
+export function shiftTime(time: string, minutes: number): string {
+  if (hasZone(time)) {
+    return new Date(new Date(time).getTime() + minutes * 60 * 1000).toISOString();
+  }
+
+  const shifted = new Date(new Date(`${time.replace(' ', 'T')}Z`).getTime() + minutes * 60 * 1000);
+  return shifted.toISOString().replace('Z', '').split('.')[0];
+}
+
+/**
+ * Date (YYYY-MM-DD) and weekday (0 = Sunday) a ride departs on, as the driver
+ * entered it
+ */
+export function getDepartureDay(time: string): { date: string; weekday: number } {
+  const date = hasZone(time) ? new Date(time).toISOString().split('T')[0] : time.slice(0, 10);
+  return { date, weekday: new Date(`${date}T00:00:00Z`).getUTCDay() };
+}
+
+/**
+ * Box around a point. A ride can only match when its route_min/max_lat/lng
+ * box (kept up to date by a database trigger) overlaps the boxes around the
+ * passenger's origin and destination.
+ */
+export function getRouteBounds(point: GeoPoint, radiusKm: number): RouteBounds {
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const lngDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos(point.lat * Math.PI / 180), 0.01));
+  return {
+    minLat: point.lat - latDelta,
+    maxLat: point.lat + latDelta,
+    minLng: point.lng - lngDelta,
+    maxLng: point.lng + lngDelta,
+  };
+}
+
+/**
+ * Match rides against a search with RideMatchingService. Uses coordinates
+ * when the search has them and location names otherwise. Seats are not
+ * checked here.
+ */
+export function matchRides(rides: any[], criteria: StopMatchCriteria): RideMatch[] {
+  return RideMatchingService.findMatches(rides, {
+    origin: isValidPoint(criteria.origin) ? criteria.origin : undefined,
+    destination: isValidPoint(criteria.destination) ? criteria.destination : undefined,
+    fromLocation: criteria.fromLocation,
+    toLocation: criteria.toLocation,
+    seatsNeeded: 0,
+  }, MATCH_OPTIONS);
+}
+
+/**
+ * Price and times for where the passenger boards and alights. Distances are
+ * measured along the stored route polyline (the routed road geometry), or
+ * straight lines between stops for rides posted without one. The price is
+ * proportional to the share of the route, as in calculateSegmentPrice on the
+ * client. Times are the stops' stored ETAs when the passenger boards or
+ * alights at a stop that has one, otherwise the ride's routed duration spread
+ * along the route by distance.
+ */
+export function buildSegmentMatch(match: RideMatch): SegmentMatch {
+  const ride = match.ride;
+  const stops = RideMatchingService.getRideStops(ride) as SearchStop[];
+  const polyline = RideMatchingService.getRoutePolyline(ride, stops);
+  const routed = !!ride.route_polyline && polyline.length >= 2;
+
+  // Name matches have stop indices; place their stops on the route
+  const positionOf = (stop: SearchStop, fallback: number) =>
+    isValidPoint(stop) ? RideMatchingService.projectOntoPolyline(stop, polyline).position : fallback;
+  const pickupPosition = match.matchType === 'geo' ? match.pickupPosition : positionOf(match.fromStop, 0);
+  const dropoffPosition = match.matchType === 'geo' ? match.dropoffPosition : positionOf(match.toStop, polyline.length - 1);
+
+  const totalDistance = RideMatchingService.routeDistanceKm(polyline, 0, polyline.length - 1);
+  const pickupKm = RideMatchingService.routeDistanceKm(polyline, 0, pickupPosition);
+  const dropoffKm = RideMatchingService.routeDistanceKm(polyline, 0, dropoffPosition);
+  const segmentDistance = dropoffKm - pickupKm;
+
+  let segmentPrice = ride.price_per_seat;
+  if (totalDistance > 0 && segmentDistance < totalDistance - 0.01) {
+    const proportional = (segmentDistance / totalDistance) * ride.price_per_seat;
+    segmentPrice = round2(Math.min(Math.max(proportional, MINIMUM_SEGMENT_PRICE), ride.price_per_seat));
+  }
+
+  const totalDuration = ride.estimated_duration ||
+    (totalDistance > 0 ? Math.round((totalDistance / FALLBACK_SPEED_KMH) * 60) : 120);
+  const minutesAt = (km: number) => (totalDistance > 0 ? Math.round(totalDuration * (km / totalDistance)) : 0);
+
+  const fromStop = match.fromStop as SearchStop;
+  const toStop = match.toStop as SearchStop;
+  const pickupETA = match.pickupAtStop ? fromStop.estimated_arrival : undefined;
+  const dropoffETA = match.dropoffAtStop ? toStop.estimated_arrival : undefined;
+  const pickupMinutes = minutesAt(pickupKm);
+  const dropoffMinutes = totalDistance > 0 ? minutesAt(dropoffKm) : totalDuration;
+
+  return {
+    ride,
+    fromSegment: fromStop,
+    toSegment: toStop,
+    segmentPrice,
+    estimatedPickupTime: pickupETA || shiftTime(ride.departure_time, pickupMinutes),
+    estimatedDropoffTime: dropoffETA || shiftTime(ride.departure_time, dropoffMinutes),
+    availableSeats: ride.available_seats,
+    pickupAtStop: match.pickupAtStop,
+    dropoffAtStop: match.dropoffAtStop,
+    realTimeETA: (routed && !!ride.estimated_duration) || (!!pickupETA && !!dropoffETA),
+    actualDistance: totalDistance > 0 ? round2(segmentDistance) : undefined,
+    actualDuration: dropoffMinutes - pickupMinutes,
+    detourDistance: match.detourDistanceKm,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Stripe customers for app users
+ * Each passenger gets one Stripe customer, stored in users.stripe_customer_id
+ * (unique, and only written here).
+ * Payment methods saved to it (holds created with setup_future_usage, or
+ * setup intents) can be charged off-session, which hold renewal relies on.
+ */
+
+import Stripe from 'stripe';
+import { supabaseAdmin } from './supabase';
+
+/**
+ * The user's Stripe customer, created on first use
+ */
+export async function getOrCreateStripeCustomer(stripe: Stripe, userId: string): Promise<string> {
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('id, email, display_name, stripe_customer_id')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  if (user.stripe_customer_id) {
+    return user.stripe_customer_id;
+  }
+
+  // Concurrent first payments send the same key, so Stripe creates one customer
+  const customer = await stripe.customers.create({
+    email: user.email || undefined,
+    name: user.display_name || undefined,
+    metadata: {
+      user_id: userId,
+      app: 'OnGoPool'
+    }
+  }, {
+    idempotencyKey: `customer-${userId}`
+  });
+
+  // Only the first writer stores its customer; anyone else uses that one
+  const { data: stored, error: updateError } = await supabaseAdmin
+    .from('users')
+    .update({ stripe_customer_id: customer.id })
+    .eq('id', userId)
+    .is('stripe_customer_id', null)
+    .select('stripe_customer_id')
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to store Stripe customer for user ${userId}: ${updateError.message}`);
+  }
+  if (stored) {
+    return customer.id;
+  }
+
+  const { data: current } = await supabaseAdmin
+    .from('users')
+    .select('stripe_customer_id')
+    .eq('id', userId)
+    .single();
+
+  if (current?.stripe_customer_id && current.stripe_customer_id !== customer.id) {
+    console.warn(`User ${userId} already has Stripe customer ${current.stripe_customer_id}, removing ${customer.id}`);
+    await stripe.customers.del(customer.id).catch(error => {
+      console.error(`Failed to remove duplicate Stripe customer ${customer.id}:`, error);
+    });
+  }
+
+  return current?.stripe_customer_id || customer.id;
+}
@@ -0,0 +1,21 @@
+/**
+ * Server-side Supabase client for API functions
+ * Uses the service role key so queries are not limited by row level security.
+ * Files under api/_lib are shared helpers, not deployed as endpoints.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error('Missing Supabase environment variables for API functions');
+}
+
+export const supabaseAdmin = createClient(supabaseUrl || '', supabaseKey || '', {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
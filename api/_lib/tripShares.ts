@@ -0,0 +1,156 @@
+/**
+ * Trip share links
+ * A trip_shares row gives anyone holding its token a read-only view of one
+ * ride and the sharer's last reported location, until the link expires.
+ * SOS alerts send one to the rider's emergency contact.
+ */
+
+import { randomBytes } from 'crypto';
+import { supabaseAdmin } from './supabase';
+
+const SHARE_LINK_HOURS = 24;
+
+export interface TripShare {
+  id: number;
+  token: string;
+  ride_id: number;
+  user_id: string;
+  incident_id: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy: number | null;
+  location_updated_at: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+// What the link's recipient sees
+export interface TripShareView {
+  sharer_name: string;
+  ride: {
+    from_location: string;
+    to_location: string;
+    departure_time: string;
+    status: string;
+  };
+  driver: {
+    name: string;
+    car_model: string | null;
+    car_plate: string | null;
+  };
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    updated_at: string;
+  } | null;
+  sos: boolean;
+  expires_at: string;
+}
+
+export interface SharedLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+}
+
+const firstName = (name: string | null | undefined, fallback: string) => name?.split(' ')[0] || fallback;
+
+export function getShareUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/share/${token}`;
+}
+
+export async function createTripShare(
+  rideId: number,
+  userId: string,
+  location: SharedLocation | null,
+  incidentId: number | null = null
+): Promise<TripShare> {
+  const now = new Date();
+  const { data, error } = await supabaseAdmin
+    .from('trip_shares')
+    .insert({
+      token: randomBytes(16).toString('hex'),
+      ride_id: rideId,
+      user_id: userId,
+      incident_id: incidentId,
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+      location_accuracy: location?.accuracy ?? null,
+      location_updated_at: location ? now.toISOString() : null,
+      expires_at: new Date(now.getTime() + SHARE_LINK_HOURS * 60 * 60 * 1000).toISOString(),
+      created_at: now.toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Move the shared location. Only the sharer can, and only before the link expires.
+ */
+export async function updateSharedLocation(token: string, userId: string, location: SharedLocation): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('trip_shares')
+    .update({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      location_accuracy: location.accuracy ?? null,
+      location_updated_at: new Date().toISOString()
+    })
+    .eq('token', token)
+    .eq('user_id', userId)
+    .gt('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * The public view of a share link, or null when it is unknown or expired
+ */
+export async function getTripShareView(token: string): Promise<TripShareView | null> {
+  const { data: share, error } = await supabaseAdmin
+    .from('trip_shares')
+    .select(`
+      *,
+      sharer:users!trip_shares_user_id_fkey (display_name),
+      ride:rides (
+        from_location, to_location, departure_time, status,
+        driver:users!rides_driver_id_fkey (display_name, car_model, car_plate)
+      )
+    `)
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!share || !share.ride || new Date(share.expires_at) <= new Date()) return null;
+
+  return {
+    sharer_name: firstName(share.sharer?.display_name, 'An OnGoPool rider'),
+    ride: {
+      from_location: share.ride.from_location,
+      to_location: share.ride.to_location,
+      departure_time: share.ride.departure_time,
+      status: share.ride.status
+    },
+    driver: {
+      name: firstName(share.ride.driver?.display_name, 'The driver'),
+      car_model: share.ride.driver?.car_model ?? null,
+      car_plate: share.ride.driver?.car_plate ?? null
+    },
+    location: share.latitude != null && share.longitude != null
+      ? {
+          latitude: share.latitude,
+          longitude: share.longitude,
+          accuracy: share.location_accuracy,
+          updated_at: share.location_updated_at
+        }
+      : null,
+    sos: !!share.incident_id,
+    expires_at: share.expires_at
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Ride waitlist
+ * Waitlist entries are ride_bookings rows in the 'waitlisted' status with a
+ * payment authorization but no segment_seats, so they hold no seats. When a
+ * booking gives up its seats, the earliest entries that fit inside the freed
+ * stretch of the route are moved to 'offered' with a short response window.
+ * Accepting turns the offer into a normal pending request; an expired or
+ * declined offer passes the seats on to the next entry. Runs with the service
+ * role from the booking transitions, never in the passenger's browser.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { transitionBooking, TransitionResult } from './bookingTransitions';
+
+export interface SeatRange {
+  ride_id: number;
+  seats_booked: number;
+  from_segment_id?: number | null;
+  to_segment_id?: number | null;
+}
+
+// How long a waitlisted passenger has to take a freed seat
+const WAITLIST_OFFER_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES || process.env.VITE_WAITLIST_OFFER_MINUTES) || 30;
+
+// How long the driver has to answer a request
+const DRIVER_RESPONSE_HOURS = 12;
+
+// Segment id to order; direct rides have no segments and use pseudo ids 0 and 1
+async function loadSegmentOrders(rideId: number): Promise<Map<number, number>> {
+  const { data: segments, error } = await supabaseAdmin
+    .from('ride_segments')
+    .select('id, segment_order')
+    .eq('ride_id', rideId);
+
+  if (error) throw error;
+  return new Map((segments || []).map(segment => [segment.id, segment.segment_order]));
+}
+
+function getRange(booking: Omit<SeatRange, 'ride_id' | 'seats_booked'>, segmentOrders: Map<number, number>): { from: number; to: number } {
+  if (segmentOrders.size === 0) {
+    return { from: 0, to: 1 };
+  }
+
+  const orders = [...segmentOrders.values()];
+  return {
+    from: segmentOrders.get(booking.from_segment_id ?? -1) ?? Math.min(...orders),
+    to: segmentOrders.get(booking.to_segment_id ?? -1) ?? Math.max(...orders),
+  };
+}
+
+async function setResponseDeadline(bookingId: number, hours: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ride_bookings')
+    .update({
+      response_deadline: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', bookingId);
+
+  if (error) {
+    console.error(`Failed to set the response deadline of booking ${bookingId}:`, error);
+  }
+}
+
+async function sendWaitlistMessage(bookingId: number, rideId: number, message: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('messages')
+    .insert({
+      booking_id: bookingId,
+      ride_id: rideId,
+      sender_id: null, // System message
+      message,
+      is_system_message: true
+    });
+
+  if (error) {
+    console.error('Failed to send waitlist message:', error);
+  }
+}
+
+/**
+ * Offer seats released by a booking to the next waitlisted passengers.
+ * Returns the number of offers made.
+ */
+export async function offerFreedSeats(freed: SeatRange, freedBookingId?: number): Promise<number> {
+  let offered = 0;
+
+  try {
+    const { data: ride } = await supabaseAdmin
+      .from('rides')
+      .select('id, status, departure_time')
+      .eq('id', freed.ride_id)
+      .maybeSingle();
+
+    if (!ride || ride.status !== 'active') return 0;
+
+    const minutesUntilDeparture = (new Date(ride.departure_time).getTime() - Date.now()) / (1000 * 60);
+    if (minutesUntilDeparture <= 0) return 0;
+
+    const { data: waiting, error } = await supabaseAdmin
+      .from('ride_bookings')
+      .select('id, ride_id, passenger_id, seats_booked, from_segment_id, to_segment_id')
+      .eq('ride_id', freed.ride_id)
+      .eq('status', 'waitlisted')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    if (!waiting || waiting.length === 0) return 0;
+
+    const segmentOrders = await loadSegmentOrders(freed.ride_id);
+    const freedRange = getRange(freed, segmentOrders);
+    const offerMinutes = Math.min(WAITLIST_OFFER_MINUTES, minutesUntilDeparture);
+    let remainingSeats = freed.seats_booked;
+
+    for (const entry of waiting) {
+      if (remainingSeats <= 0) break;
+      if (entry.seats_booked > remainingSeats) continue;
+
+      // Only the freed stretch of the route is known to have room
+      const range = getRange(entry, segmentOrders);
+      if (range.from < freedRange.from || range.to > freedRange.to) continue;
+
+      const transition = await transitionBooking(entry.id, 'offered', {
+        reason: 'waitlist_offered',
+        actorId: null,
+        metadata: freedBookingId ? { freed_booking_id: freedBookingId } : undefined,
+      });
+
+      if (!transition.success) {
+        console.error(`Failed to offer seat to waitlisted booking ${entry.id}:`, transition.error);
+        continue;
+      }
+
+      await setResponseDeadline(entry.id, offerMinutes / 60);
+      await sendWaitlistMessage(
+        entry.id,
+        entry.ride_id,
+        `🎟️ A seat opened up on this ride! Accept within ${Math.round(offerMinutes)} minutes to send your request to the driver.`
+      );
+
+      remainingSeats -= entry.seats_booked;
+      offered++;
+    }
+  } catch (error) {
+    console.error('Error offering freed seats to waitlist:', error);
+  }
+
+  return offered;
+}
+
+/**
+ * Take an offered seat for its passenger. The seats are held from here on and
+ * the booking becomes a pending request for the driver.
+ */
+export async function acceptOffer(booking: any, passengerId: string): Promise<TransitionResult> {
+  if (booking.status !== 'offered' || (booking.response_deadline && new Date(booking.response_deadline) <= new Date())) {
+    return { success: false, error: 'This seat offer has expired' };
+  }
+
+  const segmentOrders = await loadSegmentOrders(booking.ride_id);
+  const range = getRange(booking, segmentOrders);
+  const segmentSeats = [...segmentOrders.entries()]
+    .filter(([, order]) => order >= range.from && order < range.to)
+    .map(([segmentId]) => ({
+      booking_id: booking.id,
+      segment_id: segmentId,
+      seats_count: booking.seats_booked,
+    }));
+
+  if (segmentSeats.length > 0) {
+    const { error: seatsError } = await supabaseAdmin
+      .from('segment_seats')
+      .insert(segmentSeats);
+
+    if (seatsError) throw seatsError;
+  }
+
+  const transition = await transitionBooking(booking.id, 'pending', {
+    reason: 'waitlist_accepted',
+    actorId: passengerId,
+  });
+
+  if (!transition.success) {
+    if (segmentSeats.length > 0) {
+      await supabaseAdmin.from('segment_seats').delete().eq('booking_id', booking.id);
+    }
+    return transition;
+  }
+
+  await setResponseDeadline(booking.id, DRIVER_RESPONSE_HOURS);
+  await sendWaitlistMessage(booking.id, booking.ride_id, 'Passenger took a seat from the waitlist. Please accept or decline the request.');
+
+  return transition;
+}
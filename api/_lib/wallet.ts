@@ -0,0 +1,507 @@
+/**
+ * Credit wallet and promo codes
+ * A passenger's balance is the sum of their credit_transactions rows, and
+ * every use of a promo code is a promo_code_redemptions row. Both are
+ * written only here, with the service role. Spending credit, redeeming a
+ * code and turning a refund into credit go through database functions that
+ * lock the wallet, the code or the booking, so concurrent requests cannot
+ * overspend or go over a code's limits.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { DISCOUNT_PAYMENT_METHODS } from './paymentRecords';
+
+export type PromoDiscountType = 'percent' | 'fixed';
+
+export interface PromoCode {
+  id: number;
+  code: string;
+  kind: 'promo' | 'referral';
+  discount_type: PromoDiscountType;
+  value: number;
+  max_discount?: number | null;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  max_uses?: number | null;
+  per_user_limit?: number | null;
+  first_ride_only: boolean;
+  referrer_id?: string | null;
+  is_active: boolean;
+}
+
+export interface PromoValidation {
+  valid: boolean;
+  promo?: PromoCode;
+  discount?: number;
+  error?: string;
+}
+
+export interface ReservedDiscounts {
+  promo: { promo: PromoCode; amount: number; redemption_id: number } | null;
+  credit: number;
+  total: number;
+}
+
+export interface WalletResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// A referred passenger gets this off their first ride, and the referrer this much credit once it is completed
+const REFERRAL_DISCOUNT = Number(process.env.REFERRAL_DISCOUNT || process.env.VITE_REFERRAL_DISCOUNT) || 10;
+const REFERRAL_REWARD = Number(process.env.REFERRAL_REWARD || process.env.VITE_REFERRAL_REWARD) || 10;
+
+// Discounts never cover the whole fare, so every booking has a card payment to capture
+const MIN_CHARGE_AMOUNT = 0.5;
+
+const PAYMENT_CURRENCY = 'cad';
+
+// Bookings that can no longer take a new payment hold
+const CLOSED_BOOKING_STATUSES = ['rejected', 'cancelled', 'timeout_cancelled', 'completed'];
+
+// Errors raised by redeem_promo_code
+const REDEEM_ERRORS: Record<string, string> = {
+  promo_code_unavailable: 'That promo code does not exist',
+  promo_code_fully_used: 'That promo code has been fully used',
+  promo_code_already_used: 'You have already used that promo code',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * The booking, if it belongs to the passenger
+ */
+async function getPassengerBooking(userId: string, bookingId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id, passenger_id, status, total_amount')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && data.passenger_id === userId ? data : null;
+}
+
+async function countRedemptions(promoCodeId: number, userId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from('promo_code_redemptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('promo_code_id', promoCodeId)
+    .eq('status', 'applied');
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count || 0;
+}
+
+// A booking that was confirmed or completed counts as a ride taken
+async function hasTakenRide(userId: string): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id', { count: 'exact', head: true })
+    .eq('passenger_id', userId)
+    .in('status', ['confirmed', 'completed']);
+
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+/**
+ * Discount a code gives on a fare, never more than the fare
+ */
+function calculateDiscount(promo: PromoCode, amount: number): number {
+  let discount = promo.discount_type === 'percent'
+    ? amount * Number(promo.value) / 100
+    : Number(promo.value);
+
+  if (promo.discount_type === 'percent' && promo.max_discount) {
+    discount = Math.min(discount, Number(promo.max_discount));
+  }
+
+  return round(Math.min(Math.max(discount, 0), amount));
+}
+
+/**
+ * Check a code for a passenger and fare, and work out the discount. Usage
+ * limits are checked again, under a lock, when the code is redeemed.
+ */
+export async function validatePromoCode(code: string, userId: string, amount: number): Promise<PromoValidation> {
+  try {
+    if (!code || !(amount > 0)) {
+      return { valid: false, error: 'A code and fare are required' };
+    }
+
+    const { data: promo, error } = await supabaseAdmin
+      .from('promo_codes')
+      .select('*')
+      .eq('code', normalizeCode(code))
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!promo) {
+      return { valid: false, error: 'That promo code does not exist' };
+    }
+
+    const now = new Date();
+    if (promo.starts_at && new Date(promo.starts_at) > now) {
+      return { valid: false, error: 'That promo code is not active yet' };
+    }
+    if (promo.expires_at && new Date(promo.expires_at) <= now) {
+      return { valid: false, error: 'That promo code has expired' };
+    }
+    if (promo.referrer_id === userId) {
+      return { valid: false, error: 'You cannot use your own referral code' };
+    }
+    if (promo.max_uses && await countRedemptions(promo.id) >= promo.max_uses) {
+      return { valid: false, error: REDEEM_ERRORS.promo_code_fully_used };
+    }
+    if (promo.per_user_limit && await countRedemptions(promo.id, userId) >= promo.per_user_limit) {
+      return { valid: false, error: REDEEM_ERRORS.promo_code_already_used };
+    }
+    if (promo.first_ride_only && await hasTakenRide(userId)) {
+      return { valid: false, error: 'That promo code is for your first ride only' };
+    }
+
+    return { valid: true, promo, discount: calculateDiscount(promo, amount) };
+  } catch (error) {
+    console.error('Error validating promo code:', error);
+    return { valid: false, error: 'Could not check that promo code. Please try again.' };
+  }
+}
+
+/**
+ * Free a booking's promo code use again
+ */
+export async function reverseRedemption(redemptionId: number, userId: string, bookingId: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('promo_code_redemptions')
+    .update({ status: 'reversed', reversed_at: new Date().toISOString() })
+    .eq('id', redemptionId)
+    .eq('user_id', userId)
+    .eq('booking_id', bookingId)
+    .eq('status', 'applied');
+
+  if (error) {
+    console.error(`Failed to reverse promo code redemption ${redemptionId}:`, error);
+  }
+}
+
+/**
+ * Put credit spent on a booking back in the wallet, capped by the database
+ * function at what the booking still holds. Returns the credit returned.
+ */
+export async function returnCredit(userId: string, amount: number, bookingId: number): Promise<number> {
+  if (!(amount > 0)) return 0;
+
+  const { data, error } = await supabaseAdmin.rpc('return_booking_credit', {
+    p_user_id: userId,
+    p_amount: round(amount),
+    p_booking_id: bookingId,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
+
+/**
+ * What is left of the promo code and credit already applied to a booking,
+ * or null when it has none
+ */
+async function getAppliedDiscounts(bookingId: number): Promise<ReservedDiscounts | null> {
+  const { data: rows, error } = await supabaseAdmin
+    .from('payments')
+    .select('payment_method, amount, refunded_amount, promo_code_id, promo_redemption_id')
+    .eq('booking_id', bookingId)
+    .in('payment_method', DISCOUNT_PAYMENT_METHODS)
+    .eq('status', 'applied');
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) return null;
+
+  const remaining = (row: any) => round(Number(row.amount) - Number(row.refunded_amount || 0));
+  const discounts: ReservedDiscounts = { promo: null, credit: 0, total: 0 };
+
+  const promoRow = rows.find(row => row.payment_method === 'promo_code');
+  if (promoRow) {
+    const { data: promo, error: promoError } = await supabaseAdmin
+      .from('promo_codes')
+      .select('*')
+      .eq('id', promoRow.promo_code_id)
+      .single();
+
+    if (promoError) throw promoError;
+    discounts.promo = { promo, amount: remaining(promoRow), redemption_id: Number(promoRow.promo_redemption_id) };
+  }
+
+  discounts.credit = round(rows
+    .filter(row => row.payment_method === 'credit')
+    .reduce((sum, row) => sum + remaining(row), 0));
+  discounts.total = round((discounts.promo?.amount || 0) + discounts.credit);
+  return discounts;
+}
+
+/**
+ * Record the promo code and credit parts of the price next to the card
+ * payment, where the booking's release finds them to give back
+ */
+async function recordDiscounts(userId: string, bookingId: number, discounts: ReservedDiscounts): Promise<void> {
+  const base = {
+    booking_id: bookingId,
+    user_id: userId,
+    currency: PAYMENT_CURRENCY,
+    status: 'applied',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  };
+
+  const rows: Record<string, any>[] = [];
+  if (discounts.promo) {
+    rows.push({
+      ...base,
+      amount: discounts.promo.amount,
+      payment_method: 'promo_code',
+      promo_code_id: discounts.promo.promo.id,
+      promo_redemption_id: discounts.promo.redemption_id
+    });
+  }
+  if (discounts.credit > 0) {
+    rows.push({ ...base, amount: discounts.credit, payment_method: 'credit' });
+  }
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin.from('payments').insert(rows);
+  if (error) throw error;
+}
+
+/**
+ * Redeem the promo code and spend wallet credit for a new hold on one of the
+ * passenger's bookings, leaving at least MIN_CHARGE_AMOUNT of the fare for
+ * the payment method. Discounts stay with the booking across hold attempts:
+ * a booking that already has some gets those back, and they are only
+ * returned when the booking is released.
+ */
+export async function reserveDiscounts(
+  userId: string,
+  body: { booking_id?: number; amount?: number; promo_code?: string; credit_amount?: number }
+): Promise<WalletResult<ReservedDiscounts>> {
+  const bookingId = Number(body?.booking_id);
+  const booking = bookingId ? await getPassengerBooking(userId, bookingId) : null;
+  if (!booking) {
+    return { success: false, error: 'Booking not found' };
+  }
+  if (CLOSED_BOOKING_STATUSES.includes(booking.status)) {
+    return { success: false, error: 'Discounts can only be applied to an open booking' };
+  }
+
+  const applied = await getAppliedDiscounts(bookingId);
+  if (applied) {
+    return { success: true, data: applied };
+  }
+
+  const amount = round(Math.min(Number(body.amount) || 0, Number(booking.total_amount)));
+  const discounts: ReservedDiscounts = { promo: null, credit: 0, total: 0 };
+  let available = round(amount - MIN_CHARGE_AMOUNT);
+
+  if (body.promo_code && available > 0) {
+    const validation = await validatePromoCode(body.promo_code, userId, amount);
+    if (!validation.valid || !validation.promo) {
+      return { success: false, error: validation.error || 'That promo code cannot be used' };
+    }
+
+    const discount = round(Math.min(validation.discount || 0, available));
+    if (discount > 0) {
+      const { data: redemptionId, error } = await supabaseAdmin.rpc('redeem_promo_code', {
+        p_promo_code_id: validation.promo.id,
+        p_user_id: userId,
+        p_booking_id: bookingId,
+        p_discount: discount,
+      });
+
+      if (error) {
+        const message = Object.keys(REDEEM_ERRORS).find(key => error.message?.includes(key));
+        if (!message) console.error('Error redeeming promo code:', error);
+        return { success: false, error: message ? REDEEM_ERRORS[message] : 'Failed to apply promo code' };
+      }
+
+      discounts.promo = { promo: validation.promo, amount: discount, redemption_id: Number(redemptionId) };
+      available = round(available - discount);
+    }
+  }
+
+  const creditAmount = Number(body.credit_amount) || 0;
+  if (creditAmount > 0 && available > 0) {
+    const { data: spent, error } = await supabaseAdmin.rpc('spend_credit', {
+      p_user_id: userId,
+      p_amount: round(Math.min(creditAmount, available)),
+      p_booking_id: bookingId,
+    });
+
+    if (error) {
+      console.error('Error spending credit:', error);
+      if (discounts.promo) {
+        await reverseRedemption(discounts.promo.redemption_id, userId, bookingId);
+      }
+      return { success: false, error: 'Failed to apply credit' };
+    }
+    discounts.credit = Number(spent) || 0;
+  }
+
+  discounts.total = round((discounts.promo?.amount || 0) + discounts.credit);
+
+  try {
+    await recordDiscounts(userId, bookingId, discounts);
+  } catch (error) {
+    console.error(`Failed to record discounts for booking ${bookingId}:`, error);
+    if (discounts.promo) {
+      await reverseRedemption(discounts.promo.redemption_id, userId, bookingId);
+    }
+    await returnCredit(userId, discounts.credit, bookingId);
+    return { success: false, error: 'Failed to apply discounts' };
+  }
+
+  return { success: true, data: discounts };
+}
+
+/**
+ * Turn part of a cancelled booking's card payment into wallet credit. The
+ * booking transitions call this once the booking is cancelled, with the
+ * refund its cancellation policy snapshot allows. Returns the credit issued.
+ */
+export async function creditCancelledBooking(bookingId: number, amount: number): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('issue_cancellation_credit', {
+    p_booking_id: bookingId,
+    p_amount: round(amount),
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
+
+/**
+ * The passenger's referral code, created on first use, with the number of
+ * referred passengers who have taken their first ride
+ */
+export async function getOrCreateReferralCode(userId: string): Promise<WalletResult<PromoCode & { referral_count: number }>> {
+  const withCount = async (promo: PromoCode) => {
+    const { count, error } = await supabaseAdmin
+      .from('promo_code_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('promo_code_id', promo.id)
+      .not('referral_rewarded_at', 'is', null);
+
+    if (error) throw error;
+    return { success: true, data: { ...promo, referral_count: count || 0 } };
+  };
+
+  const { data: existing, error } = await supabaseAdmin
+    .from('promo_codes')
+    .select('*')
+    .eq('kind', 'referral')
+    .eq('referrer_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing) return withCount(existing);
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('display_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const prefix = (user?.display_name || 'RIDE').replace(/[^a-zA-Z]/g, '').slice(0, 6).toUpperCase() || 'RIDE';
+
+  // Retry on the unlikely clash with an existing code
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const suffix = Math.random().toString(36).slice(2, 6).toUpperCase();
+    const { data: created, error: insertError } = await supabaseAdmin
+      .from('promo_codes')
+      .insert({
+        code: `${prefix}${suffix}`,
+        kind: 'referral',
+        discount_type: 'fixed',
+        value: REFERRAL_DISCOUNT,
+        per_user_limit: 1,
+        first_ride_only: true,
+        referrer_id: userId,
+        is_active: true,
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (!insertError) return withCount(created);
+    console.warn('Referral code insert failed, retrying:', insertError);
+  }
+
+  return { success: false, error: 'Could not create your referral code' };
+}
+
+/**
+ * Credit the referrer once a booking made with their code is completed. The
+ * caller must be on the booking; everything else is read from the database.
+ */
+export async function rewardReferral(userId: string, bookingId: number): Promise<WalletResult<{ rewarded: boolean }>> {
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id, passenger_id, status, ride:rides(driver_id)')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (bookingError) throw bookingError;
+  const ride: any = booking?.ride;
+  if (!booking || (booking.passenger_id !== userId && ride?.driver_id !== userId)) {
+    return { success: false, error: 'Booking not found' };
+  }
+  if (booking.status !== 'completed') {
+    return { success: true, data: { rewarded: false } };
+  }
+
+  const { data: redemption } = await supabaseAdmin
+    .from('promo_code_redemptions')
+    .select('id, user_id, promo_codes (kind, referrer_id)')
+    .eq('booking_id', bookingId)
+    .eq('status', 'applied')
+    .is('referral_rewarded_at', null)
+    .maybeSingle();
+
+  const promo: any = redemption?.promo_codes;
+  if (!redemption || promo?.kind !== 'referral' || !promo.referrer_id) {
+    return { success: true, data: { rewarded: false } };
+  }
+
+  // Claim the reward first so a repeated completion cannot pay it twice
+  const { data: claimed } = await supabaseAdmin
+    .from('promo_code_redemptions')
+    .update({ referral_rewarded_at: new Date().toISOString() })
+    .eq('id', redemption.id)
+    .is('referral_rewarded_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) {
+    return { success: true, data: { rewarded: false } };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('credit_transactions')
+    .insert({
+      user_id: promo.referrer_id,
+      amount: REFERRAL_REWARD,
+      source: 'referral',
+      booking_id: bookingId,
+      note: 'A passenger you referred took their first ride',
+      created_at: new Date().toISOString()
+    });
+
+  if (error) throw error;
+  return { success: true, data: { rewarded: true } };
+}
@@ -0,0 +1,97 @@
+/**
+ * Webhook idempotency shared by the payment webhook endpoints
+ * Each delivery is claimed in processed_webhook_events (keyed on provider
+ * and event id) before it is handled. Providers retry and may deliver the
+ * same event more than once; a processed event is acknowledged without
+ * running its handler again, a failed one is picked up by the next retry.
+ * A claim left in 'processing' longer than PROCESSING_TIMEOUT_MS belongs to a
+ * delivery that died mid-way (a function timeout or crash) and is taken over
+ * by the next retry.
+ */
+
+import { supabaseAdmin } from './supabase';
+
+export type WebhookProvider = 'stripe' | 'paypal';
+
+// 'duplicate': already processed. 'in_progress': another delivery is handling it right now.
+export type WebhookClaim = 'claimed' | 'duplicate' | 'in_progress';
+
+// Longer than any webhook function runs, so a live delivery is never taken over
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Claim an event for processing
+ */
+export async function claimWebhookEvent(
+  provider: WebhookProvider,
+  eventId: string,
+  eventType: string
+): Promise<WebhookClaim> {
+  const { error } = await supabaseAdmin
+    .from('processed_webhook_events')
+    .insert({
+      provider,
+      event_id: eventId,
+      event_type: eventType,
+      status: 'processing',
+      received_at: new Date().toISOString()
+    });
+
+  if (!error) return 'claimed';
+
+  // 23505: unique violation, the event has been seen before
+  if (error.code !== '23505') {
+    throw error;
+  }
+
+  // Retry a delivery that failed earlier or was abandoned while processing
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS).toISOString();
+  const { data: retried, error: retryError } = await supabaseAdmin
+    .from('processed_webhook_events')
+    .update({
+      status: 'processing',
+      error: null,
+      received_at: new Date().toISOString()
+    })
+    .eq('provider', provider)
+    .eq('event_id', eventId)
+    .or(`status.eq.failed,and(status.eq.processing,received_at.lt.${staleBefore})`)
+    .select('event_id')
+    .maybeSingle();
+
+  if (retryError) throw retryError;
+  if (retried) return 'claimed';
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('processed_webhook_events')
+    .select('status')
+    .eq('provider', provider)
+    .eq('event_id', eventId)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  return existing?.status === 'processed' ? 'duplicate' : 'in_progress';
+}
+
+/**
+ * Record the outcome of a claimed event
+ */
+export async function completeWebhookEvent(
+  provider: WebhookProvider,
+  eventId: string,
+  error?: string
+): Promise<void> {
+  const { error: updateError } = await supabaseAdmin
+    .from('processed_webhook_events')
+    .update({
+      status: error ? 'failed' : 'processed',
+      error: error ?? null,
+      processed_at: new Date().toISOString()
+    })
+    .eq('provider', provider)
+    .eq('event_id', eventId);
+
+  if (updateError) {
+    console.error(`Failed to record webhook event ${eventId}:`, updateError);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Staff Booking Operations API
+ * Vercel serverless function for booking overrides that passengers and
+ * drivers must not be able to make themselves. Each route checks the
+ * caller's permission; the booking rows are written with the service role.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import { requirePermission, Permission } from '../_lib/auth';
+import { transitionBooking } from '../_lib/bookingTransitions';
+
+interface BookingOverride {
+  booking_id: number;
+  status: string;
+  can_cancel_after_confirm?: boolean;
+  response_deadline?: string | null;
+}
+
+interface BookingOperationResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Bookings that the timeout job releases once response_deadline passes
+const TIMEOUT_STATUSES = ['pending', 'offered', 'waitlisted'];
+
+/**
+ * Let a confirmed booking be cancelled outside the cancellation policy
+ */
+export async function grantCancellationException(staffId: string, bookingId: number): Promise<BookingOperationResponse<BookingOverride>> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('ride_bookings')
+      .update({ can_cancel_after_confirm: true, updated_at: new Date().toISOString() })
+      .eq('id', bookingId)
+      .eq('status', 'confirmed')
+      .select('id, status, can_cancel_after_confirm')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return { success: false, error: 'Only confirmed bookings can get a cancellation exception' };
+    }
+
+    console.log(`Cancellation exception for booking ${bookingId} granted by ${staffId}`);
+    return {
+      success: true,
+      data: { booking_id: data.id, status: data.status, can_cancel_after_confirm: data.can_cancel_after_confirm }
+    };
+  } catch (error) {
+    console.error('Error granting cancellation exception:', error);
+    return { success: false, error: 'Failed to grant cancellation exception' };
+  }
+}
+
+/**
+ * Expire a booking's response deadline now and time it out like any other,
+ * releasing the seat and the payment hold
+ */
+export async function forceTimeout(staffId: string, bookingId: number): Promise<BookingOperationResponse<BookingOverride>> {
+  try {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabaseAdmin
+      .from('ride_bookings')
+      .update({ response_deadline: now, updated_at: now })
+      .eq('id', bookingId)
+      .in('status', TIMEOUT_STATUSES)
+      .select('id, status, response_deadline')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return { success: false, error: 'Only pending, offered or waitlisted bookings can be timed out' };
+    }
+
+    const transition = await transitionBooking(bookingId, 'timeout_cancelled', {
+      reason: data.status === 'pending' ? 'timeout' : data.status === 'offered' ? 'offer_expired' : 'hold_expired',
+      actorId: staffId,
+      metadata: { forced: true },
+    });
+    if (!transition.success) {
+      return { success: false, error: transition.error };
+    }
+
+    console.log(`Booking ${bookingId} timeout forced by ${staffId}`);
+    return {
+      success: true,
+      data: { booking_id: data.id, status: transition.booking.status, response_deadline: data.response_deadline }
+    };
+  } catch (error) {
+    console.error('Error forcing booking timeout:', error);
+    return { success: false, error: 'Failed to force booking timeout' };
+  }
+}
+
+const OPERATIONS: Record<string, {
+  permission: Permission;
+  run: (staffId: string, bookingId: number) => Promise<BookingOperationResponse<BookingOverride>>;
+}> = {
+  'cancellation-exception': { permission: 'bookings:grant_cancellation_exception', run: grantCancellationException },
+  'timeout': { permission: 'bookings:force_timeout', run: forceTimeout },
+};
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const url = (req.url || '').split('?')[0];
+  const match = url.match(/^\/api\/admin\/bookings\/(\d+)\/([a-z-]+)$/);
+  const operation = match ? OPERATIONS[match[2]] : undefined;
+
+  if (req.method !== 'POST' || !match || !operation) {
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+  }
+
+  try {
+    const staff = await requirePermission(req, operation.permission);
+    if (!staff) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have permission for this operation',
+        timestamp: new Date().toISOString(),
+        statusCode: 403
+      });
+    }
+
+    const result = await operation.run(staff.id, parseInt(match[1], 10));
+    return res.status(result.success ? 200 : 400).json({
+      success: result.success,
+      data: result.success ? result.data : undefined,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+      statusCode: result.success ? 200 : 400
+    });
+
+  } catch (error) {
+    console.error('Booking Operations API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  BookingOverride
+};
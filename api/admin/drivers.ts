@@ -0,0 +1,116 @@
+/**
+ * Staff Driver Operations API
+ * Vercel serverless function for support decisions on a driver's account,
+ * such as clearing cancellation warnings after a dispute.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import { requirePermission } from '../_lib/auth';
+
+interface DriverStanding {
+  driver_id: string;
+  account_status: string;
+  cancellation_warnings: number;
+}
+
+interface DriverOperationResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Reactivate a driver and reset their cancellation warnings
+ */
+export async function clearDriverWarnings(staffId: string, driverId: string): Promise<DriverOperationResponse<DriverStanding>> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .update({
+        account_status: 'active',
+        suspension_until: null,
+        cancellation_warnings: 0,
+        last_warning_date: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', driverId)
+      .select('id, account_status, cancellation_warnings')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return { success: false, error: 'Driver not found' };
+    }
+
+    console.log(`Warnings of driver ${driverId} cleared by ${staffId}`);
+    return {
+      success: true,
+      data: { driver_id: data.id, account_status: data.account_status, cancellation_warnings: data.cancellation_warnings }
+    };
+  } catch (error) {
+    console.error('Error clearing driver warnings:', error);
+    return { success: false, error: 'Failed to clear driver warnings' };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const url = (req.url || '').split('?')[0];
+  const match = url.match(/^\/api\/admin\/drivers\/([^/]+)\/clear-warnings$/);
+
+  if (req.method !== 'POST' || !match) {
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+  }
+
+  try {
+    const staff = await requirePermission(req, 'drivers:clear_warnings');
+    if (!staff) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have permission to clear driver warnings',
+        timestamp: new Date().toISOString(),
+        statusCode: 403
+      });
+    }
+
+    const result = await clearDriverWarnings(staff.id, decodeURIComponent(match[1]));
+    return res.status(result.success ? 200 : 400).json({
+      success: result.success,
+      data: result.success ? result.data : undefined,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+      statusCode: result.success ? 200 : 400
+    });
+
+  } catch (error) {
+    console.error('Driver Operations API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  DriverStanding
+};
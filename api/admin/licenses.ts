@@ -0,0 +1,280 @@
+/**
+ * Driver License Review API
+ * Vercel serverless function for the admin review queue. Drivers upload
+ * their license to the private driver-licenses bucket and their status moves
+ * to pending; an admin approves or rejects it here. Every decision is kept in
+ * license_reviews, which also notifies the driver.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import { requirePermission } from '../_lib/auth';
+
+type LicenseStatus = 'unverified' | 'pending' | 'verified' | 'rejected';
+type LicenseDecision = 'approved' | 'rejected';
+
+interface LicenseSubmission {
+  user_id: string;
+  display_name: string | null;
+  email: string | null;
+  driver_license: string | null;
+  license_expiration_date: string | null;
+  license_uploaded_at: string | null;
+  license_verification_status: LicenseStatus;
+  document_url: string | null; // Signed, short-lived
+  document_type: 'image' | 'pdf' | null;
+}
+
+interface LicenseReview {
+  id: number;
+  user_id: string;
+  reviewer_id: string;
+  decision: LicenseDecision;
+  reason: string | null;
+  driver_license: string | null;
+  license_expiration_date: string | null;
+  license_document_url: string | null;
+  notified_at: string | null;
+  created_at: string;
+  driver?: { display_name: string | null; email: string | null };
+  reviewer?: { display_name: string | null; email: string | null };
+}
+
+interface ReviewRequestBody {
+  decision: LicenseDecision;
+  reason?: string;
+}
+
+interface LicenseResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const LICENSE_BUCKET = 'driver-licenses';
+const DOCUMENT_URL_TTL_SECONDS = 10 * 60;
+
+// Older uploads stored a full storage URL instead of the object path
+function getDocumentPath(stored: string): string {
+  if (!stored.startsWith('http')) return stored;
+  const marker = `/${LICENSE_BUCKET}/`;
+  const path = new URL(stored).pathname;
+  return path.includes(marker) ? path.split(marker)[1] : path.split('/').slice(-2).join('/');
+}
+
+async function getSignedDocumentUrl(stored: string | null): Promise<string | null> {
+  if (!stored) return null;
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(LICENSE_BUCKET)
+    .createSignedUrl(getDocumentPath(stored), DOCUMENT_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error(`Failed to sign license document ${stored}:`, error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+/**
+ * Drivers whose license is in a status, oldest upload first
+ */
+export async function getSubmissions(status: LicenseStatus = 'pending'): Promise<LicenseResponse<LicenseSubmission[]>> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('id, display_name, email, driver_license, license_expiration_date, license_uploaded_at, license_verification_status, license_document_url')
+      .eq('license_verification_status', status)
+      .order('license_uploaded_at', { ascending: true, nullsFirst: false })
+      .limit(100);
+
+    if (error) throw error;
+
+    const submissions = await Promise.all((data || []).map(async user => ({
+      user_id: user.id,
+      display_name: user.display_name,
+      email: user.email,
+      driver_license: user.driver_license,
+      license_expiration_date: user.license_expiration_date,
+      license_uploaded_at: user.license_uploaded_at,
+      license_verification_status: user.license_verification_status,
+      document_url: await getSignedDocumentUrl(user.license_document_url),
+      document_type: user.license_document_url
+        ? (user.license_document_url.toLowerCase().split('?')[0].endsWith('.pdf') ? 'pdf' as const : 'image' as const)
+        : null,
+    })));
+
+    return { success: true, data: submissions };
+  } catch (error) {
+    console.error('Error loading license submissions:', error);
+    return { success: false, error: 'Failed to load license submissions' };
+  }
+}
+
+/**
+ * Audit log of review decisions, newest first, optionally for one driver
+ */
+export async function getReviews(userId?: string): Promise<LicenseResponse<LicenseReview[]>> {
+  try {
+    let query = supabaseAdmin
+      .from('license_reviews')
+      .select(`
+        *,
+        driver:users!license_reviews_user_id_fkey (display_name, email),
+        reviewer:users!license_reviews_reviewer_id_fkey (display_name, email)
+      `)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Error loading license reviews:', error);
+    return { success: false, error: 'Failed to load review history' };
+  }
+}
+
+/**
+ * Approve or reject a pending license. The review row records the fields the
+ * decision was based on.
+ */
+export async function reviewLicense(
+  reviewerId: string,
+  userId: string,
+  body: ReviewRequestBody
+): Promise<LicenseResponse<LicenseReview>> {
+  try {
+    if (body?.decision !== 'approved' && body?.decision !== 'rejected') {
+      return { success: false, error: 'decision must be approved or rejected' };
+    }
+
+    const reason = body.reason?.trim() || null;
+    if (body.decision === 'rejected' && !reason) {
+      return { success: false, error: 'A reason is required to reject a license' };
+    }
+
+    const now = new Date().toISOString();
+
+    // Conditional on pending, so two reviewers cannot both decide
+    const { data: driver, error: updateError } = await supabaseAdmin
+      .from('users')
+      .update(body.decision === 'approved'
+        ? { license_verification_status: 'verified', license_verified_at: now, license_rejection_reason: null, updated_at: now }
+        : { license_verification_status: 'rejected', license_rejection_reason: reason, updated_at: now })
+      .eq('id', userId)
+      .eq('license_verification_status', 'pending')
+      .select('id, driver_license, license_expiration_date, license_document_url')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!driver) {
+      return { success: false, error: 'This license is no longer pending review' };
+    }
+
+    const { data: review, error: insertError } = await supabaseAdmin
+      .from('license_reviews')
+      .insert({
+        user_id: userId,
+        reviewer_id: reviewerId,
+        decision: body.decision,
+        reason,
+        driver_license: driver.driver_license,
+        license_expiration_date: driver.license_expiration_date,
+        license_document_url: driver.license_document_url,
+        created_at: now,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // The decision stands; the audit row is what is missing
+      console.error(`License of ${userId} was ${body.decision} but the review was not recorded:`, insertError);
+      return { success: false, error: 'Decision saved, but the review could not be recorded' };
+    }
+
+    console.log(`License of ${userId} ${body.decision} by ${reviewerId}`);
+    return { success: true, data: review };
+  } catch (error) {
+    console.error('Error reviewing license:', error);
+    return { success: false, error: 'Failed to save the review' };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+
+  const send = (result: LicenseResponse<any>) => res.status(result.success ? 200 : 400).json({
+    success: result.success,
+    data: result.success ? result.data : undefined,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    statusCode: result.success ? 200 : 400
+  });
+
+  try {
+    const reviewer = await requirePermission(req, 'licenses:review');
+    if (!reviewer) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have permission to review licenses',
+        timestamp: new Date().toISOString(),
+        statusCode: 403
+      });
+    }
+
+    if (method === 'GET' && url === '/api/admin/licenses') {
+      return send(await getSubmissions((req.query.status as LicenseStatus) || 'pending'));
+    }
+
+    if (method === 'GET' && url === '/api/admin/licenses/reviews') {
+      return send(await getReviews(req.query.user_id as string | undefined));
+    }
+
+    const reviewMatch = url.match(/^\/api\/admin\/licenses\/([^/]+)\/review$/);
+    if (method === 'POST' && reviewMatch) {
+      return send(await reviewLicense(reviewer.id, decodeURIComponent(reviewMatch[1]), req.body));
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('License Review API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  LicenseSubmission,
+  LicenseReview,
+  ReviewRequestBody
+};
@@ -0,0 +1,692 @@
+/**
+ * Support Workspace API
+ * Vercel serverless function behind the agent inbox. Users create tickets
+ * from the app (support_tickets) and can read and answer the public thread
+ * (support_ticket_replies). Everything an agent does goes through here:
+ * assignment, status, internal notes (support_ticket_notes), canned
+ * responses, links to a booking, ride or payment, and goodwill credit.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import { requirePermission, hasPermission, getUserRoles, AuthenticatedUser } from '../_lib/auth';
+
+type TicketStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+type TicketPriority = 'low' | 'medium' | 'high' | 'critical';
+
+interface PersonSummary {
+  display_name: string | null;
+  email: string | null;
+}
+
+interface SupportTicket {
+  id: number;
+  user_id: string;
+  type: string;
+  title: string;
+  description: string;
+  priority: TicketPriority;
+  status: TicketStatus;
+  contact_email: string | null;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  booking_id: number | null;
+  ride_id: number | null;
+  payment_id: number | null;
+  first_response_at: string | null;
+  resolved_at: string | null;
+  resolution_notes: string | null;
+  created_at: string;
+  updated_at: string;
+  user?: PersonSummary;
+  assignee?: PersonSummary | null;
+}
+
+interface TicketMessage {
+  id: number;
+  ticket_id: number;
+  author_id: string;
+  body: string;
+  from_staff?: boolean; // Replies only; notes are always from staff
+  created_at: string;
+  author?: PersonSummary;
+}
+
+interface TicketContext {
+  booking: Record<string, any> | null;
+  ride: Record<string, any> | null;
+  payments: Record<string, any>[];
+  credit_issued: number;
+}
+
+interface TicketDetail {
+  ticket: SupportTicket;
+  replies: TicketMessage[];
+  notes: TicketMessage[];
+  context: TicketContext;
+}
+
+interface CannedResponse {
+  id: number;
+  title: string;
+  body: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface TicketFilters {
+  status?: string;
+  type?: string;
+  priority?: string;
+  assigned_to?: string; // A staff id, or 'unassigned'
+}
+
+interface SupportResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const TICKET_STATUSES: TicketStatus[] = ['open', 'in_progress', 'resolved', 'closed'];
+const TICKET_PRIORITIES: TicketPriority[] = ['low', 'medium', 'high', 'critical'];
+const GOODWILL_CREDIT_LIMIT = parseFloat(process.env.GOODWILL_CREDIT_LIMIT || '50');
+
+const TICKET_SELECT = `
+  *,
+  user:users!support_tickets_user_id_fkey (display_name, email),
+  assignee:users!support_tickets_assigned_to_fkey (display_name, email)
+`;
+
+async function getTicketRow(ticketId: number): Promise<SupportTicket | null> {
+  const { data, error } = await supabaseAdmin
+    .from('support_tickets')
+    .select(TICKET_SELECT)
+    .eq('id', ticketId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function updateTicket(ticketId: number, changes: Record<string, any>): Promise<SupportTicket | null> {
+  const { error } = await supabaseAdmin
+    .from('support_tickets')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', ticketId);
+
+  if (error) throw error;
+  return getTicketRow(ticketId);
+}
+
+/**
+ * Inbox, newest first. The client orders it by SLA.
+ */
+export async function listTickets(filters: TicketFilters): Promise<SupportResponse<SupportTicket[]>> {
+  try {
+    let query = supabaseAdmin
+      .from('support_tickets')
+      .select(TICKET_SELECT)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (filters.status) query = query.in('status', filters.status.split(','));
+    if (filters.type) query = query.eq('type', filters.type);
+    if (filters.priority) query = query.eq('priority', filters.priority);
+    if (filters.assigned_to === 'unassigned') {
+      query = query.is('assigned_to', null);
+    } else if (filters.assigned_to) {
+      query = query.eq('assigned_to', filters.assigned_to);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Error loading support tickets:', error);
+    return { success: false, error: 'Failed to load tickets' };
+  }
+}
+
+/**
+ * The booking, ride and payments a ticket is about. A payment implies its
+ * booking, and a booking implies its ride.
+ */
+async function getTicketContext(ticket: SupportTicket): Promise<TicketContext> {
+  let bookingId = ticket.booking_id;
+  let rideId = ticket.ride_id;
+  let payments: Record<string, any>[] = [];
+
+  if (ticket.payment_id) {
+    const { data: payment } = await supabaseAdmin
+      .from('payments')
+      .select('id, booking_id, amount, currency, status, payment_method, created_at')
+      .eq('id', ticket.payment_id)
+      .maybeSingle();
+
+    if (payment) {
+      payments = [payment];
+      bookingId = bookingId || payment.booking_id;
+    }
+  }
+
+  let booking: Record<string, any> | null = null;
+  if (bookingId) {
+    const { data } = await supabaseAdmin
+      .from('ride_bookings')
+      .select('id, ride_id, passenger_id, seats_booked, total_amount, status, payment_status, created_at')
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    booking = data;
+    rideId = rideId || data?.ride_id || null;
+
+    if (booking && !ticket.payment_id) {
+      const { data: bookingPayments } = await supabaseAdmin
+        .from('payments')
+        .select('id, booking_id, amount, currency, status, payment_method, created_at')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true });
+
+      payments = bookingPayments || [];
+    }
+  }
+
+  let ride: Record<string, any> | null = null;
+  if (rideId) {
+    const { data } = await supabaseAdmin
+      .from('rides')
+      .select('id, driver_id, from_location, to_location, departure_time, status, price_per_seat, driver:users!rides_driver_id_fkey (display_name, email)')
+      .eq('id', rideId)
+      .maybeSingle();
+
+    ride = data;
+  }
+
+  const { data: credits } = await supabaseAdmin
+    .from('credit_transactions')
+    .select('amount')
+    .eq('support_ticket_id', ticket.id);
+
+  return {
+    booking,
+    ride,
+    payments,
+    credit_issued: (credits || []).reduce((sum, credit) => sum + Number(credit.amount), 0),
+  };
+}
+
+/**
+ * A ticket with its public thread, internal notes and linked records
+ */
+export async function getTicketDetail(ticketId: number): Promise<SupportResponse<TicketDetail>> {
+  try {
+    const ticket = await getTicketRow(ticketId);
+    if (!ticket) {
+      return { success: false, error: 'Ticket not found' };
+    }
+
+    const [replies, notes, context] = await Promise.all([
+      supabaseAdmin
+        .from('support_ticket_replies')
+        .select('*, author:users!support_ticket_replies_author_id_fkey (display_name, email)')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true }),
+      supabaseAdmin
+        .from('support_ticket_notes')
+        .select('*, author:users!support_ticket_notes_author_id_fkey (display_name, email)')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true }),
+      getTicketContext(ticket),
+    ]);
+
+    if (replies.error) throw replies.error;
+    if (notes.error) throw notes.error;
+
+    return {
+      success: true,
+      data: { ticket, replies: replies.data || [], notes: notes.data || [], context }
+    };
+  } catch (error) {
+    console.error('Error loading support ticket:', error);
+    return { success: false, error: 'Failed to load ticket' };
+  }
+}
+
+/**
+ * Assign a ticket to a staff member, or unassign it with null
+ */
+export async function assignTicket(ticketId: number, assigneeId: string | null): Promise<SupportResponse<SupportTicket>> {
+  try {
+    if (assigneeId) {
+      const { data: assignee } = await supabaseAdmin
+        .from('users')
+        .select('role')
+        .eq('id', assigneeId)
+        .maybeSingle();
+
+      if (!assignee || !hasPermission(getUserRoles(assignee), 'support:manage_tickets')) {
+        return { success: false, error: 'Tickets can only be assigned to support staff' };
+      }
+    }
+
+    const ticket = await updateTicket(ticketId, {
+      assigned_to: assigneeId,
+      assigned_at: assigneeId ? new Date().toISOString() : null,
+    });
+    return ticket ? { success: true, data: ticket } : { success: false, error: 'Ticket not found' };
+  } catch (error) {
+    console.error('Error assigning support ticket:', error);
+    return { success: false, error: 'Failed to assign ticket' };
+  }
+}
+
+/**
+ * Change status or priority. Resolving stamps resolved_at and can carry the
+ * resolution shown to the user; reopening clears it.
+ */
+export async function updateTicketStatus(
+  ticketId: number,
+  body: { status?: TicketStatus; priority?: TicketPriority; resolution_notes?: string }
+): Promise<SupportResponse<SupportTicket>> {
+  try {
+    const changes: Record<string, any> = {};
+
+    if (body?.status) {
+      if (!TICKET_STATUSES.includes(body.status)) {
+        return { success: false, error: 'Invalid status' };
+      }
+      if (body.status === 'resolved' || body.status === 'closed') {
+        const { count } = await supabaseAdmin
+          .from('safety_incidents')
+          .select('id', { count: 'exact', head: true })
+          .eq('ticket_id', ticketId)
+          .eq('status', 'open');
+
+        if ((count || 0) > 0) {
+          return { success: false, error: 'This safety report must be resolved by an admin from the Safety page' };
+        }
+      }
+
+      changes.status = body.status;
+      if (body.status === 'resolved') {
+        changes.resolved_at = new Date().toISOString();
+        if (body.resolution_notes?.trim()) changes.resolution_notes = body.resolution_notes.trim();
+      } else if (body.status !== 'closed') {
+        changes.resolved_at = null;
+      }
+    }
+
+    if (body?.priority) {
+      if (!TICKET_PRIORITIES.includes(body.priority)) {
+        return { success: false, error: 'Invalid priority' };
+      }
+      changes.priority = body.priority;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { success: false, error: 'Nothing to update' };
+    }
+
+    const ticket = await updateTicket(ticketId, changes);
+    return ticket ? { success: true, data: ticket } : { success: false, error: 'Ticket not found' };
+  } catch (error) {
+    console.error('Error updating support ticket:', error);
+    return { success: false, error: 'Failed to update ticket' };
+  }
+}
+
+/**
+ * Link the ticket to the booking, ride or payment it is about; null unlinks
+ */
+export async function linkTicket(
+  ticketId: number,
+  body: { booking_id?: number | null; ride_id?: number | null; payment_id?: number | null }
+): Promise<SupportResponse<SupportTicket>> {
+  try {
+    const changes: Record<string, number | null> = {};
+    const targets = { booking_id: 'ride_bookings', ride_id: 'rides', payment_id: 'payments' } as const;
+
+    for (const [field, table] of Object.entries(targets) as [keyof typeof targets, string][]) {
+      if (body?.[field] === undefined) continue;
+
+      const id = body[field] === null ? null : Number(body[field]);
+      if (id !== null) {
+        const { data } = await supabaseAdmin.from(table).select('id').eq('id', id).maybeSingle();
+        if (!data) {
+          return { success: false, error: `No ${field.replace('_id', '')} #${id}` };
+        }
+      }
+      changes[field] = id;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { success: false, error: 'Nothing to link' };
+    }
+
+    const ticket = await updateTicket(ticketId, changes);
+    return ticket ? { success: true, data: ticket } : { success: false, error: 'Ticket not found' };
+  } catch (error) {
+    console.error('Error linking support ticket:', error);
+    return { success: false, error: 'Failed to link ticket' };
+  }
+}
+
+/**
+ * Public reply, shown to the user in their ticket thread. The first one
+ * records the response time and takes an open ticket into progress.
+ */
+export async function addReply(staffId: string, ticketId: number, body: { body?: string }): Promise<SupportResponse<TicketMessage>> {
+  try {
+    const text = body?.body?.trim();
+    if (!text) {
+      return { success: false, error: 'Reply cannot be empty' };
+    }
+
+    const ticket = await getTicketRow(ticketId);
+    if (!ticket) {
+      return { success: false, error: 'Ticket not found' };
+    }
+
+    const now = new Date().toISOString();
+    const { data: reply, error } = await supabaseAdmin
+      .from('support_ticket_replies')
+      .insert({ ticket_id: ticketId, author_id: staffId, body: text, from_staff: true, created_at: now })
+      .select('*, author:users!support_ticket_replies_author_id_fkey (display_name, email)')
+      .single();
+
+    if (error) throw error;
+
+    const changes: Record<string, any> = {};
+    if (!ticket.first_response_at) changes.first_response_at = now;
+    if (ticket.status === 'open') changes.status = 'in_progress';
+    if (!ticket.assigned_to) {
+      changes.assigned_to = staffId;
+      changes.assigned_at = now;
+    }
+    await updateTicket(ticketId, changes);
+
+    return { success: true, data: reply };
+  } catch (error) {
+    console.error('Error replying to support ticket:', error);
+    return { success: false, error: 'Failed to send reply' };
+  }
+}
+
+/**
+ * Internal note, only visible to staff
+ */
+export async function addNote(staffId: string, ticketId: number, body: { body?: string }): Promise<SupportResponse<TicketMessage>> {
+  try {
+    const text = body?.body?.trim();
+    if (!text) {
+      return { success: false, error: 'Note cannot be empty' };
+    }
+
+    const { data: note, error } = await supabaseAdmin
+      .from('support_ticket_notes')
+      .insert({ ticket_id: ticketId, author_id: staffId, body: text, created_at: new Date().toISOString() })
+      .select('*, author:users!support_ticket_notes_author_id_fkey (display_name, email)')
+      .single();
+
+    if (error) throw error;
+    return { success: true, data: note };
+  } catch (error) {
+    console.error('Error adding support note:', error);
+    return { success: false, error: 'Failed to add note' };
+  }
+}
+
+/**
+ * Goodwill credit to the ticket's user, recorded against the ticket
+ */
+export async function issueGoodwillCredit(
+  staffId: string,
+  ticketId: number,
+  body: { amount?: number; note?: string }
+): Promise<SupportResponse<{ amount: number; credit_issued: number }>> {
+  try {
+    const amount = Math.round(Number(body?.amount) * 100) / 100;
+    if (!amount || amount <= 0) {
+      return { success: false, error: 'Amount must be greater than zero' };
+    }
+    if (amount > GOODWILL_CREDIT_LIMIT) {
+      return { success: false, error: `Goodwill credit is limited to $${GOODWILL_CREDIT_LIMIT.toFixed(2)} per ticket` };
+    }
+
+    const ticket = await getTicketRow(ticketId);
+    if (!ticket) {
+      return { success: false, error: 'Ticket not found' };
+    }
+
+    const { data: previous } = await supabaseAdmin
+      .from('credit_transactions')
+      .select('amount')
+      .eq('support_ticket_id', ticketId);
+
+    const alreadyIssued = (previous || []).reduce((sum, credit) => sum + Number(credit.amount), 0);
+    if (alreadyIssued + amount > GOODWILL_CREDIT_LIMIT) {
+      return { success: false, error: `This ticket already has $${alreadyIssued.toFixed(2)} of credit; the limit is $${GOODWILL_CREDIT_LIMIT.toFixed(2)}` };
+    }
+
+    const { error } = await supabaseAdmin
+      .from('credit_transactions')
+      .insert({
+        user_id: ticket.user_id,
+        amount,
+        source: 'support_goodwill',
+        booking_id: ticket.booking_id,
+        support_ticket_id: ticketId,
+        issued_by: staffId,
+        note: body?.note?.trim() || null,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) throw error;
+
+    console.log(`$${amount} goodwill credit on ticket ${ticketId} issued by ${staffId}`);
+    return { success: true, data: { amount, credit_issued: alreadyIssued + amount } };
+  } catch (error) {
+    console.error('Error issuing goodwill credit:', error);
+    return { success: false, error: 'Failed to issue credit' };
+  }
+}
+
+/**
+ * Staff who can be assigned tickets
+ */
+export async function listAgents(): Promise<SupportResponse<(PersonSummary & { id: string })[]>> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('id, display_name, email')
+      .in('role', ['support_agent', 'admin'])
+      .order('display_name', { ascending: true });
+
+    if (error) throw error;
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Error loading support agents:', error);
+    return { success: false, error: 'Failed to load agents' };
+  }
+}
+
+export async function listCannedResponses(): Promise<SupportResponse<CannedResponse[]>> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('support_canned_responses')
+      .select('*')
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Error loading canned responses:', error);
+    return { success: false, error: 'Failed to load canned responses' };
+  }
+}
+
+export async function createCannedResponse(staffId: string, body: { title?: string; body?: string }): Promise<SupportResponse<CannedResponse>> {
+  try {
+    const title = body?.title?.trim();
+    const text = body?.body?.trim();
+    if (!title || !text) {
+      return { success: false, error: 'Title and text are required' };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('support_canned_responses')
+      .insert({ title, body: text, created_by: staffId, created_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error saving canned response:', error);
+    return { success: false, error: 'Failed to save canned response' };
+  }
+}
+
+export async function deleteCannedResponse(responseId: number): Promise<SupportResponse<{ id: number }>> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('support_canned_responses')
+      .delete()
+      .eq('id', responseId);
+
+    if (error) throw error;
+    return { success: true, data: { id: responseId } };
+  } catch (error) {
+    console.error('Error deleting canned response:', error);
+    return { success: false, error: 'Failed to delete canned response' };
+  }
+}
+
+/**
+ * Route a POST on /tickets/:id/:action
+ */
+async function runTicketAction(agent: AuthenticatedUser, ticketId: number, action: string, body: any): Promise<SupportResponse<any> | null> {
+  switch (action) {
+    case 'assign':
+      return assignTicket(ticketId, body?.assigned_to === 'me' ? agent.id : body?.assigned_to || null);
+    case 'status':
+      return updateTicketStatus(ticketId, body);
+    case 'links':
+      return linkTicket(ticketId, body);
+    case 'replies':
+      return addReply(agent.id, ticketId, body);
+    case 'notes':
+      return addNote(agent.id, ticketId, body);
+    case 'credit':
+      if (!hasPermission(agent.roles, 'credits:issue_goodwill')) {
+        return { success: false, error: 'You do not have permission to issue credit' };
+      }
+      return issueGoodwillCredit(agent.id, ticketId, body);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+
+  const send = (result: SupportResponse<any>) => res.status(result.success ? 200 : 400).json({
+    success: result.success,
+    data: result.success ? result.data : undefined,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    statusCode: result.success ? 200 : 400
+  });
+
+  const notFound = () => res.status(404).json({
+    success: false,
+    error: 'Endpoint not found',
+    timestamp: new Date().toISOString(),
+    statusCode: 404
+  });
+
+  try {
+    const agent = await requirePermission(req, 'support:manage_tickets');
+    if (!agent) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have permission to manage support tickets',
+        timestamp: new Date().toISOString(),
+        statusCode: 403
+      });
+    }
+
+    if (method === 'GET' && url === '/api/admin/support/tickets') {
+      const query = req.query as Record<string, string | undefined>;
+      return send(await listTickets({
+        status: query.status,
+        type: query.type,
+        priority: query.priority,
+        assigned_to: query.assigned_to === 'me' ? agent.id : query.assigned_to,
+      }));
+    }
+
+    const ticketMatch = url.match(/^\/api\/admin\/support\/tickets\/(\d+)(?:\/([a-z]+))?$/);
+    if (ticketMatch) {
+      const ticketId = parseInt(ticketMatch[1], 10);
+
+      if (method === 'GET' && !ticketMatch[2]) {
+        return send(await getTicketDetail(ticketId));
+      }
+
+      if (method === 'POST' && ticketMatch[2]) {
+        const result = await runTicketAction(agent, ticketId, ticketMatch[2], req.body);
+        return result ? send(result) : notFound();
+      }
+    }
+
+    if (method === 'GET' && url === '/api/admin/support/agents') {
+      return send(await listAgents());
+    }
+
+    if (url === '/api/admin/support/canned-responses') {
+      if (method === 'GET') return send(await listCannedResponses());
+      if (method === 'POST') return send(await createCannedResponse(agent.id, req.body));
+    }
+
+    const deleteMatch = url.match(/^\/api\/admin\/support\/canned-responses\/(\d+)\/delete$/);
+    if (method === 'POST' && deleteMatch) {
+      return send(await deleteCannedResponse(parseInt(deleteMatch[1], 10)));
+    }
+
+    return notFound();
+
+  } catch (error) {
+    console.error('Support Workspace API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  SupportTicket,
+  TicketMessage,
+  TicketContext,
+  TicketDetail,
+  CannedResponse,
+  TicketFilters
+};
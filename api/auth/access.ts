@@ -0,0 +1,73 @@
+/**
+ * Access API
+ * Vercel serverless function that tells the client which roles and
+ * permissions the signed-in user has. ROLE_PERMISSIONS lives only in
+ * api/_lib/auth.ts; the client asks here instead of keeping its own copy.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser, getPermissions, Permission, UserRole } from '../_lib/auth';
+
+interface UserAccess {
+  roles: UserRole[];
+  permissions: Permission[];
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const url = (req.url || '').split('?')[0];
+
+  try {
+    if (req.method === 'GET' && url === '/api/auth/access') {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          error: 'Sign in required',
+          timestamp: new Date().toISOString(),
+          statusCode: 401
+        });
+      }
+
+      const access: UserAccess = { roles: user.roles, permissions: getPermissions(user.roles) };
+      return res.status(200).json({
+        success: true,
+        data: access,
+        timestamp: new Date().toISOString(),
+        statusCode: 200
+      });
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('Access API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  UserAccess
+};
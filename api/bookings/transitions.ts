@@ -0,0 +1,151 @@
+/**
+ * Booking Transitions API
+ * Vercel serverless function for every change to a booking's status,
+ * seats or drop-off. The signed-in passenger or driver asks for a change; the server
+ * checks it is theirs to make, settles the payment and works out any refund
+ * from the booking's cancellation policy snapshot. The timeout run is a cron
+ * job.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../_lib/auth';
+import { BookingAdjustmentResult, endAtEarlierStop, reduceSeats } from '../_lib/bookingAdjustments';
+import {
+  CancellationResult,
+  RideCancellationResult,
+  RideCompletionResult,
+  TimeoutRunResult,
+  cancelBooking,
+  cancelBookingsForRide,
+  completeBookingsForRide,
+  processBookingTimeouts,
+  requestTransition
+} from '../_lib/bookingTransitions';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+  const body = req.body || {};
+  const bookingMatch = url.match(/^\/api\/bookings\/(\d+)\/(transitions|cancel|seats|dropoff)$/);
+  const rideMatch = url.match(/^\/api\/bookings\/rides\/(\d+)\/(complete|cancel)$/);
+
+  const send = (success: boolean, data?: any, error?: string) => res.status(success ? 200 : 400).json({
+    success,
+    data: success ? data : undefined,
+    error,
+    timestamp: new Date().toISOString(),
+    statusCode: success ? 200 : 400
+  });
+
+  const deny = (status: 401 | 403 | 500, error: string) => res.status(status).json({
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    statusCode: status
+  });
+
+  try {
+    if (url === '/api/bookings/timeouts' && (method === 'GET' || method === 'POST')) {
+      // Vercel sends the cron secret as a bearer token; without one configured nobody gets in
+      if (!CRON_SECRET) {
+        console.error('CRON_SECRET is not configured');
+        return deny(500, 'Cron secret not configured');
+      }
+      if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) {
+        return deny(401, 'Unauthorized');
+      }
+
+      const result = await processBookingTimeouts();
+      return send(true, { bookings_checked: result.bookingsChecked, bookings_timed_out: result.bookingsTimedOut });
+    }
+
+    if (method !== 'POST' || (!bookingMatch && !rideMatch)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Endpoint not found',
+        timestamp: new Date().toISOString(),
+        statusCode: 404
+      });
+    }
+
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return deny(401, 'Sign in required');
+    }
+
+    if (bookingMatch) {
+      const bookingId = parseInt(bookingMatch[1], 10);
+
+      if (bookingMatch[2] === 'transitions') {
+        const result = await requestTransition(user, bookingId, body);
+        return send(result.success, { booking: result.booking, refund_amount: result.refundAmount }, result.error);
+      }
+
+      if (bookingMatch[2] === 'seats' || bookingMatch[2] === 'dropoff') {
+        const result = bookingMatch[2] === 'seats'
+          ? await reduceSeats(user, bookingId, Number(body.seats))
+          : await endAtEarlierStop(user, bookingId, Number(body.segment_id), Number(body.amount));
+        return send(result.success, {
+          booking: result.booking,
+          previous_amount: result.previousAmount,
+          new_amount: result.newAmount,
+          refund_amount: result.refundAmount,
+          cancellation_fee: result.cancellationFee
+        }, result.error);
+      }
+
+      const result = await cancelBooking(user, bookingId, body.refund_as_credit === true);
+      return send(result.success, {
+        refunded: result.refunded,
+        refund_amount: result.refundAmount,
+        cancellation_fee: result.cancellationFee
+      }, result.error);
+    }
+
+    const rideId = parseInt(rideMatch![1], 10);
+
+    if (rideMatch![2] === 'complete') {
+      const result = await completeBookingsForRide(user, rideId);
+      return result ? send(true, result) : send(false, undefined, 'Ride not found');
+    }
+
+    const result = await cancelBookingsForRide(user, rideId);
+    return result ? send(true, {
+      bookings_cancelled: result.bookingsCancelled,
+      refunds_failed: result.refundsFailed,
+      counts_as_warning: result.countsAsWarning
+    }) : send(false, undefined, 'Ride not found');
+
+  } catch (error) {
+    console.error('Booking Transitions API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  BookingAdjustmentResult,
+  CancellationResult,
+  RideCancellationResult,
+  RideCompletionResult,
+  TimeoutRunResult
+};
@@ -0,0 +1,91 @@
+/**
+ * Earnings API
+ * Vercel serverless function for driver earnings. Earnings are created and
+ * their status changed only here, with the service role; the platform fee is
+ * worked out from the fee schedule on the server.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser, hasPermission } from '../_lib/auth';
+import { EarningStatus, EarningsResult, recordBookingEarning, updateEarningStatus } from '../_lib/earnings';
+import { PlatformFeeRule, getDriverTier, getFeeRule } from '../_lib/platformFees';
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+  const body = req.body || {};
+  const statusMatch = url.match(/^\/api\/payments\/earnings\/([^/]+)\/status$/);
+
+  const send = (result: EarningsResult<any>) => res.status(result.success ? 200 : 400).json({
+    success: result.success,
+    data: result.success ? result.data : undefined,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    statusCode: result.success ? 200 : 400
+  });
+
+  const deny = (status: 401 | 403, error: string) => res.status(status).json({
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    statusCode: status
+  });
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return deny(401, 'Sign in required');
+    }
+
+    if (method === 'POST' && url === '/api/payments/earnings') {
+      return send(await recordBookingEarning(user, Number(body.booking_id)));
+    }
+
+    if (method === 'GET' && url === '/api/payments/earnings/fee-rule') {
+      // Region-specific rules depend on the ride, so this is the driver's general rate
+      const rule = await getFeeRule({ driverTier: await getDriverTier(user.id) });
+      return send({ success: true, data: rule });
+    }
+
+    if (method === 'POST' && statusMatch) {
+      if (!hasPermission(user.roles, 'payouts:run')) {
+        return deny(403, 'Not allowed to change earnings');
+      }
+      return send(await updateEarningStatus(decodeURIComponent(statusMatch[1]), body.status, body.payout_id));
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('Earnings API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  EarningStatus,
+  PlatformFeeRule
+};
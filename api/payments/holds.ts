@@ -0,0 +1,390 @@
+/**
+ * Payment Hold Renewal API Endpoint
+ * Vercel cron function that re-authorizes payment holds shortly before the
+ * processor drops them, for bookings that still need the hold afterwards
+ * (waitlist spots last until departure). Stripe holds are renewed off-session
+ * with the card saved on the passenger's customer, PayPal holds through the
+ * reauthorize API. When renewal fails the passenger is asked to update their
+ * payment method, and the booking's response deadline becomes the time they
+ * have to do it. After that the booking timeout job releases the seat.
+ */
+
+import Stripe from 'stripe';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import { paypalRequest } from '../_lib/paypal';
+import { getOrCreateStripeCustomer } from '../_lib/stripeCustomers';
+import { notifyPaymentEvent } from '../_lib/paymentNotifications';
+
+// Initialize Stripe with secret key from environment
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+interface HoldRenewalRunResult {
+  success: boolean;
+  holds_checked?: number;
+  holds_renewed?: number;
+  renewals_failed?: number;
+  error?: string;
+}
+
+interface Reauthorization {
+  authorizationId: string;
+  expiresAt: Date;
+  replaces?: string; // Stripe intent to cancel once the payment points at the new one
+}
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Renew holds expiring within this many hours. Longer than the cron interval
+// so a failed renewal still leaves the passenger time to fix their payment.
+const REAUTH_LEAD_HOURS = Number(process.env.HOLD_REAUTH_LEAD_HOURS) || 24;
+
+// Least time the passenger gets to update their payment method after a failed renewal
+const PAYMENT_FIX_WINDOW_HOURS = Number(process.env.PAYMENT_FIX_WINDOW_HOURS) || 12;
+
+// Stripe keeps an uncaptured card authorization for 7 days
+const STRIPE_AUTHORIZATION_DAYS = 7;
+
+// Bookings that are still waiting on a seat and keep their hold until then
+const OPEN_BOOKING_STATUSES = ['waitlisted', 'pending'];
+
+/**
+ * New manual-capture payment intent for the same amount, on the card the hold
+ * used or else the customer's default card, charged off-session. The old
+ * intent is left alone; it is cancelled once the payment row points at the new
+ * one, so the webhook for its cancellation no longer matches the payment.
+ */
+async function reauthorizeStripe(payment: any, passengerId: string): Promise<Reauthorization> {
+  const previous = await stripe.paymentIntents.retrieve(payment.payment_intent_id || payment.authorization_id);
+  const customerId = typeof previous.customer === 'string'
+    ? previous.customer
+    : previous.customer?.id || await getOrCreateStripeCustomer(stripe, passengerId);
+
+  const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer;
+  const defaultMethod = customer.invoice_settings?.default_payment_method;
+  const candidates = [
+    typeof previous.payment_method === 'string' ? previous.payment_method : previous.payment_method?.id,
+    typeof defaultMethod === 'string' ? defaultMethod : defaultMethod?.id,
+  ].filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+
+  if (candidates.length === 0) {
+    throw new Error('No saved payment method to renew the hold with');
+  }
+
+  let lastError: unknown;
+  for (const paymentMethodId of candidates) {
+    let intent: Stripe.PaymentIntent | undefined;
+    try {
+      intent = await stripe.paymentIntents.create({
+        amount: Math.round(Number(payment.amount) * 100),
+        currency: (payment.currency || 'cad').toLowerCase(),
+        capture_method: 'manual',
+        customer: customerId,
+        payment_method: paymentMethodId,
+        off_session: true,
+        confirm: true,
+        metadata: {
+          booking_id: String(payment.booking_id),
+          user_id: passengerId,
+          app: 'OnGoPool',
+          reauthorizes: previous.id,
+          created_at: new Date().toISOString()
+        }
+      });
+
+      if (intent.status !== 'requires_capture') {
+        throw new Error(`Renewed payment intent is ${intent.status}`);
+      }
+
+      return {
+        authorizationId: intent.id,
+        expiresAt: new Date(Date.now() + STRIPE_AUTHORIZATION_DAYS * 24 * 60 * 60 * 1000),
+        replaces: previous.id,
+      };
+    } catch (error) {
+      lastError = error;
+
+      // Don't leave an intent we won't use open on the card, e.g. one waiting on 3D Secure
+      const unused = intent || (error as Stripe.errors.StripeError).payment_intent;
+      if (unused && unused.status !== 'canceled' && unused.status !== 'succeeded') {
+        await stripe.paymentIntents.cancel(unused.id).catch(cancelError => {
+          console.error(`Failed to cancel unused payment intent ${unused.id}:`, cancelError);
+        });
+      }
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('Stripe re-authorization failed');
+}
+
+/**
+ * Reauthorize the PayPal authorization for the same amount
+ */
+async function reauthorizePayPal(payment: any): Promise<Reauthorization> {
+  const authorization = await paypalRequest<{ id: string; status: string; expiration_time?: string }>(
+    `/v2/payments/authorizations/${encodeURIComponent(payment.authorization_id)}/reauthorize`,
+    {
+      method: 'POST',
+      body: {
+        amount: {
+          currency_code: (payment.currency || 'cad').toUpperCase(),
+          value: Number(payment.amount).toFixed(2),
+        },
+      },
+    }
+  );
+
+  if (authorization.status !== 'CREATED') {
+    throw new Error(`PayPal reauthorization is ${authorization.status}`);
+  }
+
+  return {
+    authorizationId: authorization.id,
+    expiresAt: authorization.expiration_time
+      ? new Date(authorization.expiration_time)
+      : new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Release a hold on the processor: cancel a Stripe intent or void a PayPal authorization
+ */
+async function releaseAuthorization(payment: any, authorizationId: string): Promise<void> {
+  try {
+    if (payment.payment_method === 'paypal') {
+      await paypalRequest(`/v2/payments/authorizations/${encodeURIComponent(authorizationId)}/void`, { method: 'POST' });
+    } else {
+      await stripe.paymentIntents.cancel(authorizationId);
+    }
+  } catch (error) {
+    console.error(`Failed to release authorization ${authorizationId}:`, error);
+  }
+}
+
+async function recordRenewal(payment: any, renewal: Reauthorization): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .update({
+      payment_intent_id: renewal.authorizationId,
+      authorization_id: renewal.authorizationId,
+      expires_at: renewal.expiresAt.toISOString(),
+      reauthorized_at: now,
+      reauthorization_count: (payment.reauthorization_count || 0) + 1,
+      reauthorization_failed_at: null,
+      updated_at: now
+    })
+    .eq('id', payment.id);
+
+  if (error) throw error;
+
+  await supabaseAdmin
+    .from('payment_holds')
+    .update({ hold_expires_at: renewal.expiresAt.toISOString(), updated_at: now })
+    .eq('payment_id', payment.id);
+
+  await supabaseAdmin
+    .from('ride_bookings')
+    .update({ payment_expires_at: renewal.expiresAt.toISOString(), updated_at: now })
+    .eq('id', payment.booking_id);
+}
+
+/**
+ * Flag the booking as needing a new payment method and bring its deadline in
+ * to when the hold lapses, so the timeout job frees the seat if nothing changes
+ */
+async function recordRenewalFailure(payment: any, booking: any, reason: string): Promise<void> {
+  const now = new Date();
+  const fixBy = new Date(Math.max(
+    new Date(payment.expires_at).getTime(),
+    now.getTime() + PAYMENT_FIX_WINDOW_HOURS * 60 * 60 * 1000
+  ));
+  const deadline = booking.response_deadline && new Date(booking.response_deadline) < fixBy
+    ? booking.response_deadline
+    : fixBy.toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .update({
+      reauthorization_failed_at: now.toISOString(),
+      failure_reason: reason,
+      updated_at: now.toISOString()
+    })
+    .eq('id', payment.id);
+
+  if (error) throw error;
+
+  await supabaseAdmin
+    .from('ride_bookings')
+    .update({
+      payment_status: 'failed',
+      response_deadline: deadline,
+      updated_at: now.toISOString()
+    })
+    .eq('id', payment.booking_id);
+
+  const ride = booking.ride;
+  await notifyPaymentEvent(
+    'payment_action_required',
+    payment.booking_id,
+    booking.passenger_id,
+    `We couldn't renew the payment authorization for your ${ride ? `ride from ${ride.from_location} to ${ride.to_location}` : 'booking'}. ` +
+    `Update your payment method by ${new Date(deadline).toLocaleString('en-CA', { dateStyle: 'medium', timeStyle: 'short' })} to keep your spot.`
+  );
+}
+
+/**
+ * Renew expiring holds and release seats whose failed renewal was never fixed
+ */
+export async function processHoldRenewals(): Promise<HoldRenewalRunResult> {
+  try {
+    const horizon = new Date(Date.now() + REAUTH_LEAD_HOURS * 60 * 60 * 1000);
+
+    const { data: payments, error } = await supabaseAdmin
+      .from('payments')
+      .select(`
+        *,
+        booking:ride_bookings(
+          id, status, passenger_id, response_deadline, payment_status,
+          ride:rides(departure_time, from_location, to_location)
+        )
+      `)
+      .in('status', ['authorized', 'requires_capture'])
+      .in('payment_method', ['stripe', 'paypal'])
+      .lt('expires_at', horizon.toISOString());
+
+    if (error) throw error;
+
+    let renewed = 0;
+    let failed = 0;
+
+    for (const payment of payments || []) {
+      const booking = payment.booking;
+      if (!booking || !OPEN_BOOKING_STATUSES.includes(booking.status)) continue;
+
+      try {
+        // Already failed; the booking's deadline releases the seat unless the passenger replaces the hold
+        if (payment.reauthorization_failed_at) continue;
+
+        // The booking ends before the hold does, e.g. the driver's response window
+        if (booking.response_deadline && new Date(booking.response_deadline) <= new Date(payment.expires_at)) continue;
+
+        const renewal = payment.payment_method === 'paypal'
+          ? await reauthorizePayPal(payment)
+          : await reauthorizeStripe(payment, booking.passenger_id);
+
+        try {
+          await recordRenewal(payment, renewal);
+        } catch (recordError) {
+          // The payment still points at the old hold, so drop the new one
+          await releaseAuthorization(payment, renewal.authorizationId);
+          throw recordError;
+        }
+
+        // Release the old hold so the passenger isn't held twice
+        if (renewal.replaces) {
+          await releaseAuthorization(payment, renewal.replaces);
+        }
+
+        console.log(`Renewed hold for booking ${booking.id} until ${renewal.expiresAt.toISOString()}`);
+        renewed++;
+      } catch (renewalError) {
+        console.error(`Failed to renew hold for booking ${booking.id}:`, renewalError);
+        failed++;
+        // A failure to record this one must not stop the rest of the run
+        try {
+          await recordRenewalFailure(
+            payment,
+            booking,
+            renewalError instanceof Error ? renewalError.message : 'Re-authorization failed'
+          );
+        } catch (recordError) {
+          console.error(`Failed to record renewal failure for booking ${booking.id}:`, recordError);
+        }
+      }
+    }
+
+    console.log(`Hold renewals: ${renewed} renewed, ${failed} failed of ${payments?.length || 0} expiring`);
+
+    return {
+      success: true,
+      holds_checked: payments?.length || 0,
+      holds_renewed: renewed,
+      renewals_failed: failed,
+    };
+
+  } catch (error) {
+    console.error('Error processing hold renewals:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process hold renewals'
+    };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ * GET /api/payments/holds (Vercel cron) or POST to run manually
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { method } = req;
+
+  if (method !== 'GET' && method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+      statusCode: 405
+    });
+  }
+
+  // Vercel sends the cron secret as a bearer token; without one configured nobody gets in
+  if (!CRON_SECRET) {
+    console.error('CRON_SECRET is not configured');
+    return res.status(500).json({
+      success: false,
+      error: 'Cron secret not configured',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+
+  if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      statusCode: 401
+    });
+  }
+
+  try {
+    const result = await processHoldRenewals();
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      data: result.success ? {
+        holds_checked: result.holds_checked,
+        holds_renewed: result.holds_renewed,
+        renewals_failed: result.renewals_failed
+      } : undefined,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+      statusCode: result.success ? 200 : 500
+    });
+
+  } catch (error) {
+    console.error('Hold Renewal API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  HoldRenewalRunResult
+};
@@ -0,0 +1,126 @@
+/**
+ * Scheduled Driver Payouts API Endpoint
+ * Vercel cron function that pays out available earnings for drivers on a
+ * daily or weekly payout schedule (users.payout_schedule), through their
+ * Stripe Connect accounts. Drivers on the manual schedule request payouts
+ * themselves.
+ */
+
+import Stripe from 'stripe';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requirePermission } from '../_lib/auth';
+import { createDriverPayout, getScheduledDrivers } from '../_lib/driverPayouts';
+
+// Initialize Stripe with secret key from environment
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+interface ScheduledPayoutRunResult {
+  success: boolean;
+  drivers_checked?: number;
+  payouts_created?: number;
+  payouts_skipped?: number;
+  error?: string;
+}
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Create a payout for every driver whose schedule is due today
+ */
+export async function processScheduledPayouts(): Promise<ScheduledPayoutRunResult> {
+  try {
+    const driverIds = await getScheduledDrivers();
+
+    let created = 0;
+    let skipped = 0;
+
+    for (const driverId of driverIds) {
+      try {
+        const result = await createDriverPayout(stripe, driverId);
+        if (result.success) {
+          created++;
+        } else {
+          // Usually nothing available, or less than the minimum payout
+          skipped++;
+        }
+      } catch (error) {
+        console.error(`Scheduled payout for driver ${driverId} failed:`, error);
+        skipped++;
+      }
+    }
+
+    console.log(`Scheduled payouts: ${created} created, ${skipped} skipped of ${driverIds.length} drivers`);
+
+    return {
+      success: true,
+      drivers_checked: driverIds.length,
+      payouts_created: created,
+      payouts_skipped: skipped,
+    };
+
+  } catch (error) {
+    console.error('Error processing scheduled payouts:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process scheduled payouts'
+    };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ * GET /api/payments/payouts (Vercel cron) or POST to run manually
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { method } = req;
+
+  if (method !== 'GET' && method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+      statusCode: 405
+    });
+  }
+
+  // Vercel sends the cron secret as a bearer token; finance and admins can run it by hand.
+  // Without a configured secret only the staff path is open.
+  const fromCron = !!CRON_SECRET && req.headers.authorization === `Bearer ${CRON_SECRET}`;
+  if (!fromCron && !(await requirePermission(req, 'payouts:run'))) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      statusCode: 401
+    });
+  }
+
+  try {
+    const result = await processScheduledPayouts();
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      data: result.success ? {
+        drivers_checked: result.drivers_checked,
+        payouts_created: result.payouts_created,
+        payouts_skipped: result.payouts_skipped
+      } : undefined,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+      statusCode: result.success ? 200 : 500
+    });
+
+  } catch (error) {
+    console.error('Scheduled Payouts API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  ScheduledPayoutRunResult
+};
@@ -0,0 +1,119 @@
+/**
+ * Payment Reconciliation API Endpoint
+ * Vercel cron function that reconciles one day of captured holds, earnings
+ * and processor records, and stores the discrepancy report in
+ * payment_reconciliation_reports. Finance reads and exports reports from the app.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requirePermission } from '../_lib/auth';
+import {
+  ReconciliationReport,
+  getDefaultReportDate,
+  getProcessorRecordSource,
+  reconcileDay,
+  saveReconciliationReport
+} from '../_lib/reconciliation';
+
+interface ReconciliationRunResult {
+  success: boolean;
+  report?: ReconciliationReport;
+  error?: string;
+}
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Reconcile a day and store the report
+ * GET /api/payments/reconciliation?date=YYYY-MM-DD&source=stripe|fixture
+ */
+export async function runReconciliation(reportDate?: string, sourceName?: string): Promise<ReconciliationRunResult> {
+  try {
+    const date = reportDate || getDefaultReportDate();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return {
+        success: false,
+        error: 'Date must be in YYYY-MM-DD format'
+      };
+    }
+
+    const source = getProcessorRecordSource(sourceName);
+    if (!source) {
+      console.warn('No processor record source configured, reconciling internal records only');
+    }
+
+    const report = await reconcileDay(date, source);
+    await saveReconciliationReport(report);
+
+    console.log(`Reconciliation ${date}: ${report.summary.discrepancies} discrepancies from ${report.summary.payments_checked} payments`);
+
+    return { success: true, report };
+
+  } catch (error) {
+    console.error('Error running payment reconciliation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to run payment reconciliation'
+    };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ * GET /api/payments/reconciliation (Vercel cron) or POST to run manually
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { method } = req;
+
+  if (method !== 'GET' && method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+      statusCode: 405
+    });
+  }
+
+  // Vercel sends the cron secret as a bearer token; finance and admins can run it by hand.
+  // Without a configured secret only the staff path is open.
+  const fromCron = !!CRON_SECRET && req.headers.authorization === `Bearer ${CRON_SECRET}`;
+  if (!fromCron && !(await requirePermission(req, 'payments:reconcile'))) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      statusCode: 401
+    });
+  }
+
+  try {
+    const params = method === 'POST' ? (req.body || {}) : req.query;
+    const result = await runReconciliation(
+      typeof params.date === 'string' ? params.date : undefined,
+      typeof params.source === 'string' ? params.source : undefined
+    );
+
+    const statusCode = result.success ? 200 : result.error?.includes('format') ? 400 : 500;
+    return res.status(statusCode).json({
+      success: result.success,
+      data: result.report,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+      statusCode
+    });
+
+  } catch (error) {
+    console.error('Payment Reconciliation API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  ReconciliationRunResult
+};
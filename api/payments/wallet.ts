@@ -0,0 +1,97 @@
+/**
+ * Wallet API
+ * Vercel serverless function for passenger credit and promo codes. Every
+ * route acts on the signed-in user, and every write to credit_transactions,
+ * promo_code_redemptions and promo_codes happens here with the service role.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../_lib/auth';
+import {
+  PromoCode,
+  PromoValidation,
+  ReservedDiscounts,
+  WalletResult,
+  validatePromoCode,
+  reserveDiscounts,
+  getOrCreateReferralCode,
+  rewardReferral
+} from '../_lib/wallet';
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+  const body = req.body || {};
+
+  const send = (result: WalletResult<any>) => res.status(result.success ? 200 : 400).json({
+    success: result.success,
+    data: result.success ? result.data : undefined,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    statusCode: result.success ? 200 : 400
+  });
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Sign in required',
+        timestamp: new Date().toISOString(),
+        statusCode: 401
+      });
+    }
+
+    if (method === 'POST' && url === '/api/payments/wallet/promo-codes/validate') {
+      const validation = await validatePromoCode(body.code, user.id, Number(body.amount));
+      return send({ success: true, data: validation });
+    }
+
+    if (method === 'GET' && url === '/api/payments/wallet/referral-code') {
+      return send(await getOrCreateReferralCode(user.id));
+    }
+
+    if (method === 'POST' && url === '/api/payments/wallet/discounts') {
+      return send(await reserveDiscounts(user.id, body));
+    }
+
+    if (method === 'POST' && url === '/api/payments/wallet/referral-rewards') {
+      return send(await rewardReferral(user.id, Number(body.booking_id)));
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('Wallet API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  PromoCode,
+  PromoValidation,
+  ReservedDiscounts
+};
@@ -0,0 +1,531 @@
+/**
+ * PayPal Orders API Endpoint
+ * Vercel serverless function for creating and managing PayPal orders and
+ * authorizations. Every call that needs the client secret runs here. Each
+ * order is recorded in paypal_orders with the user who created it and the
+ * booking it pays for, and only this function writes that table, so it
+ * decides who may see or act on an order and its authorization.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { paypalRequest } from '../_lib/paypal';
+import { supabaseAdmin } from '../_lib/supabase';
+import { AuthenticatedUser, getAuthenticatedUser, hasPermission } from '../_lib/auth';
+
+// Request interfaces
+interface CreateOrderRequest {
+  amount: number; // Amount in dollars
+  booking_id?: number; // The caller's booking this order pays for
+  currency?: string;
+  intent?: 'CAPTURE' | 'AUTHORIZE';
+  return_url?: string;
+  cancel_url?: string;
+}
+
+interface OrderActionRequest {
+  order_id: string;
+}
+
+interface CaptureAuthorizationRequest {
+  authorization_id: string;
+  amount?: number; // Optional partial capture amount in dollars
+  currency?: string;
+}
+
+interface VoidAuthorizationRequest {
+  authorization_id: string;
+}
+
+interface RefundCaptureRequest {
+  capture_id: string;
+  amount?: number; // Optional partial refund amount in dollars
+  currency?: string;
+}
+
+// Response interface
+interface PayPalActionResponse {
+  success: boolean;
+  data?: any;
+  error?: string;
+}
+
+interface PayPalOrderRecord {
+  id: string;
+  user_id: string;
+  booking_id: number | null;
+  intent: 'CAPTURE' | 'AUTHORIZE';
+  authorization_id: string | null;
+  capture_id: string | null;
+}
+
+function toPayPalAmount(amount: number, currency: string = 'CAD') {
+  return {
+    currency_code: currency.toUpperCase(),
+    value: amount.toFixed(2),
+  };
+}
+
+async function findOrderRecord(column: 'id' | 'authorization_id', value: string | undefined): Promise<PayPalOrderRecord | null> {
+  if (!value) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('paypal_orders')
+    .select('*')
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function updateOrderRecord(orderId: string, update: Partial<PayPalOrderRecord>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('paypal_orders')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+
+  if (error) {
+    console.error(`Failed to update PayPal order record ${orderId}:`, error);
+  }
+}
+
+/**
+ * Create Order
+ * POST /api/paypal/orders
+ */
+export async function createOrder(user: AuthenticatedUser, request: CreateOrderRequest): Promise<PayPalActionResponse> {
+  try {
+    // Input validation
+    if (!request.amount || request.amount <= 0) {
+      return {
+        success: false,
+        error: 'Invalid amount specified'
+      };
+    }
+
+    const bookingId = request.booking_id ? Number(request.booking_id) : null;
+    if (bookingId) {
+      const { data: booking, error } = await supabaseAdmin
+        .from('ride_bookings')
+        .select('passenger_id')
+        .eq('id', bookingId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (booking?.passenger_id !== user.id) {
+        return {
+          success: false,
+          error: 'Booking not found'
+        };
+      }
+    }
+
+    const intent = request.intent || 'CAPTURE';
+
+    const order = await paypalRequest('/v2/checkout/orders', {
+      method: 'POST',
+      body: {
+        intent,
+        purchase_units: [
+          {
+            amount: toPayPalAmount(request.amount, request.currency),
+            description: 'OnGoPool Ride Payment',
+          },
+        ],
+        application_context: {
+          return_url: request.return_url,
+          cancel_url: request.cancel_url,
+          brand_name: 'OnGoPool',
+          locale: 'en-CA',
+          landing_page: 'BILLING',
+          shipping_preference: 'NO_SHIPPING',
+          user_action: intent === 'AUTHORIZE' ? 'CONTINUE' : 'PAY_NOW',
+        },
+      },
+    });
+
+    // Without the record nobody could approve or act on the order, so it counts as failed
+    const { error: recordError } = await supabaseAdmin
+      .from('paypal_orders')
+      .insert({
+        id: order.id,
+        user_id: user.id,
+        booking_id: bookingId,
+        intent,
+        amount: request.amount,
+        currency: (request.currency || 'CAD').toLowerCase(),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      });
+
+    if (recordError) throw recordError;
+
+    return { success: true, data: order };
+
+  } catch (error) {
+    console.error('Error creating PayPal order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create PayPal order'
+    };
+  }
+}
+
+/**
+ * Get Order
+ * GET /api/paypal/orders/:id
+ */
+export async function getOrder(orderId: string): Promise<PayPalActionResponse> {
+  try {
+    if (!orderId) {
+      return {
+        success: false,
+        error: 'Order ID is required'
+      };
+    }
+
+    const order = await paypalRequest(`/v2/checkout/orders/${encodeURIComponent(orderId)}`);
+    return { success: true, data: order };
+
+  } catch (error) {
+    console.error('Error retrieving PayPal order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get PayPal order details'
+    };
+  }
+}
+
+/**
+ * Capture Order (immediate payment after approval)
+ * POST /api/paypal/orders/capture
+ */
+export async function captureOrder(request: OrderActionRequest): Promise<PayPalActionResponse> {
+  try {
+    if (!request.order_id) {
+      return {
+        success: false,
+        error: 'Order ID is required'
+      };
+    }
+
+    const capturedOrder = await paypalRequest(`/v2/checkout/orders/${encodeURIComponent(request.order_id)}/capture`, {
+      method: 'POST',
+      body: {},
+    });
+
+    const captureId = capturedOrder.purchase_units?.[0]?.payments?.captures?.[0]?.id;
+    if (captureId) {
+      await updateOrderRecord(request.order_id, { capture_id: captureId });
+    }
+
+    return { success: true, data: capturedOrder };
+
+  } catch (error) {
+    console.error('Error capturing PayPal order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to capture PayPal order'
+    };
+  }
+}
+
+/**
+ * Authorize Order (payment hold after approval)
+ * POST /api/paypal/orders/authorize
+ */
+export async function authorizeOrder(request: OrderActionRequest): Promise<PayPalActionResponse> {
+  try {
+    if (!request.order_id) {
+      return {
+        success: false,
+        error: 'Order ID is required'
+      };
+    }
+
+    const authorizedOrder = await paypalRequest(`/v2/checkout/orders/${encodeURIComponent(request.order_id)}/authorize`, {
+      method: 'POST',
+      body: {},
+    });
+
+    const authorization = authorizedOrder.purchase_units?.[0]?.payments?.authorizations?.[0];
+    if (!authorization?.id) {
+      return {
+        success: false,
+        error: 'No authorization ID found in PayPal response'
+      };
+    }
+
+    await updateOrderRecord(request.order_id, { authorization_id: authorization.id });
+
+    return { success: true, data: authorization };
+
+  } catch (error) {
+    console.error('Error authorizing PayPal order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to authorize PayPal order'
+    };
+  }
+}
+
+/**
+ * Get Authorization
+ * GET /api/paypal/authorizations/:id
+ */
+export async function getAuthorization(authorizationId: string): Promise<PayPalActionResponse> {
+  try {
+    if (!authorizationId) {
+      return {
+        success: false,
+        error: 'Authorization ID is required'
+      };
+    }
+
+    const authorization = await paypalRequest(`/v2/payments/authorizations/${encodeURIComponent(authorizationId)}`);
+    return { success: true, data: authorization };
+
+  } catch (error) {
+    console.error('Error retrieving PayPal authorization:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get PayPal authorization'
+    };
+  }
+}
+
+/**
+ * Capture Authorization (Convert Hold to Charge)
+ * POST /api/paypal/authorizations/capture
+ */
+export async function captureAuthorization(request: CaptureAuthorizationRequest): Promise<PayPalActionResponse> {
+  try {
+    if (!request.authorization_id) {
+      return {
+        success: false,
+        error: 'Authorization ID is required'
+      };
+    }
+
+    // final_capture voids whatever a partial capture leaves on the authorization
+    const capture = await paypalRequest(`/v2/payments/authorizations/${encodeURIComponent(request.authorization_id)}/capture`, {
+      method: 'POST',
+      body: {
+        ...(request.amount ? { amount: toPayPalAmount(request.amount, request.currency) } : {}),
+        final_capture: true,
+      },
+    });
+
+    return { success: true, data: capture };
+
+  } catch (error) {
+    console.error('Error capturing PayPal authorization:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to capture PayPal authorization'
+    };
+  }
+}
+
+/**
+ * Void Authorization (Release Hold)
+ * POST /api/paypal/authorizations/void
+ */
+export async function voidAuthorization(request: VoidAuthorizationRequest): Promise<PayPalActionResponse> {
+  try {
+    if (!request.authorization_id) {
+      return {
+        success: false,
+        error: 'Authorization ID is required'
+      };
+    }
+
+    await paypalRequest(`/v2/payments/authorizations/${encodeURIComponent(request.authorization_id)}/void`, {
+      method: 'POST',
+      body: {},
+    });
+
+    return { success: true, data: { authorization_id: request.authorization_id, status: 'VOIDED' } };
+
+  } catch (error) {
+    console.error('Error voiding PayPal authorization:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to void PayPal authorization'
+    };
+  }
+}
+
+/**
+ * Refund Capture
+ * POST /api/paypal/refunds
+ */
+export async function refundCapture(request: RefundCaptureRequest): Promise<PayPalActionResponse> {
+  try {
+    if (!request.capture_id) {
+      return {
+        success: false,
+        error: 'Capture ID is required'
+      };
+    }
+
+    const refund = await paypalRequest(`/v2/payments/captures/${encodeURIComponent(request.capture_id)}/refund`, {
+      method: 'POST',
+      body: request.amount ? { amount: toPayPalAmount(request.amount, request.currency) } : {},
+    });
+
+    return { success: true, data: refund };
+
+  } catch (error) {
+    console.error('Error refunding PayPal capture:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to refund PayPal capture'
+    };
+  }
+}
+
+/**
+ * Whether the user may see or act on a PayPal order and its authorization:
+ * the user who created it, the driver of the booking it pays for, or staff
+ * who reconcile payments. Approving an order is left to its creator.
+ */
+async function canActOnOrder(user: AuthenticatedUser, order: PayPalOrderRecord | null, ownerOnly: boolean = false): Promise<boolean> {
+  if (!order) return hasPermission(user.roles, 'payments:reconcile');
+  if (order.user_id === user.id) return true;
+  if (ownerOnly) return false;
+  if (hasPermission(user.roles, 'payments:reconcile')) return true;
+  if (!order.booking_id) return false;
+
+  const { data: booking, error } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('ride:rides(driver_id)')
+    .eq('id', order.booking_id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const ride = Array.isArray(booking?.ride) ? booking?.ride[0] : booking?.ride;
+  return ride?.driver_id === user.id;
+}
+
+/**
+ * Main Vercel serverless function handler
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+
+  const send = (result: PayPalActionResponse) => res.status(result.success ? 200 : 400).json({
+    success: result.success,
+    data: result.success ? result.data : undefined,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    statusCode: result.success ? 200 : 400
+  });
+
+  const deny = (status: 401 | 403, error: string) => res.status(status).json({
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    statusCode: status
+  });
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return deny(401, 'Sign in required');
+    }
+
+    if (method === 'POST' && url === '/api/paypal/orders') {
+      return send(await createOrder(user, req.body));
+    }
+
+    if (method === 'POST' && url === '/api/paypal/orders/capture') {
+      if (!(await canActOnOrder(user, await findOrderRecord('id', req.body?.order_id), true))) {
+        return deny(403, 'Not allowed to capture this order');
+      }
+      return send(await captureOrder(req.body));
+    }
+
+    if (method === 'POST' && url === '/api/paypal/orders/authorize') {
+      if (!(await canActOnOrder(user, await findOrderRecord('id', req.body?.order_id), true))) {
+        return deny(403, 'Not allowed to authorize this order');
+      }
+      return send(await authorizeOrder(req.body));
+    }
+
+    if (method === 'POST' && url === '/api/paypal/authorizations/capture') {
+      if (!(await canActOnOrder(user, await findOrderRecord('authorization_id', req.body?.authorization_id)))) {
+        return deny(403, 'Not allowed to capture this payment');
+      }
+      return send(await captureAuthorization(req.body));
+    }
+
+    if (method === 'POST' && url === '/api/paypal/authorizations/void') {
+      if (!(await canActOnOrder(user, await findOrderRecord('authorization_id', req.body?.authorization_id)))) {
+        return deny(403, 'Not allowed to void this payment');
+      }
+      return send(await voidAuthorization(req.body));
+    }
+
+    // Passengers are refunded by the booking transitions, by the cancellation policy
+    if (method === 'POST' && url === '/api/paypal/refunds') {
+      if (!hasPermission(user.roles, 'payments:reconcile')) {
+        return deny(403, 'Not allowed to refund this payment');
+      }
+      return send(await refundCapture(req.body));
+    }
+
+    if (method === 'GET' && url.startsWith('/api/paypal/orders/')) {
+      const orderId = decodeURIComponent(url.split('/').pop() || '');
+      if (!(await canActOnOrder(user, await findOrderRecord('id', orderId)))) {
+        return deny(403, 'Not allowed to view this order');
+      }
+      return send(await getOrder(orderId));
+    }
+
+    if (method === 'GET' && url.startsWith('/api/paypal/authorizations/')) {
+      const authorizationId = decodeURIComponent(url.split('/').pop() || '');
+      if (!(await canActOnOrder(user, await findOrderRecord('authorization_id', authorizationId)))) {
+        return deny(403, 'Not allowed to view this payment');
+      }
+      return send(await getAuthorization(authorizationId));
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('PayPal API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  CreateOrderRequest,
+  OrderActionRequest,
+  CaptureAuthorizationRequest,
+  VoidAuthorizationRequest,
+  RefundCaptureRequest,
+  PayPalActionResponse
+};
@@ -0,0 +1,292 @@
+/**
+ * PayPal Webhooks API Endpoint
+ * Vercel serverless function for handling PayPal webhook events
+ * Authorization and capture events update payments, payment_holds and
+ * ride_bookings.payment_status the same way as the Stripe webhook. Booking
+ * status is not changed here; the app's booking state machine owns it.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { paypalRequest } from '../_lib/paypal';
+import { claimWebhookEvent, completeWebhookEvent, WebhookClaim } from '../_lib/webhookEvents';
+import { notifyPaymentEvent } from '../_lib/paymentNotifications';
+import {
+  SETTLED_PAYMENT_STATUSES,
+  OPEN_PAYMENT_STATUSES,
+  findPayment,
+  applyPaymentChange,
+  expirePendingBooking
+} from '../_lib/paymentRecords';
+
+const webhookId = process.env.PAYPAL_WEBHOOK_ID!;
+
+// Webhook event as posted by PayPal
+interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource_type: string;
+  resource: any;
+  create_time: string;
+}
+
+/**
+ * Ask PayPal whether the delivery was signed with our webhook's credentials
+ */
+async function verifyWebhookSignature(req: VercelRequest, event: PayPalWebhookEvent): Promise<boolean> {
+  const header = (name: string) => req.headers[name] as string | undefined;
+
+  const result = await paypalRequest<{ verification_status: string }>('/v1/notifications/verify-webhook-signature', {
+    method: 'POST',
+    body: {
+      auth_algo: header('paypal-auth-algo'),
+      cert_url: header('paypal-cert-url'),
+      transmission_id: header('paypal-transmission-id'),
+      transmission_sig: header('paypal-transmission-sig'),
+      transmission_time: header('paypal-transmission-time'),
+      webhook_id: webhookId,
+      webhook_event: event,
+    },
+  });
+
+  return result.verification_status === 'SUCCESS';
+}
+
+/**
+ * Payment record for an authorization. Until the app records the approval,
+ * the row still carries the order id.
+ */
+async function findAuthorizationPayment(authorization: any) {
+  const payment = await findPayment('authorization_id', authorization.id);
+  if (payment) return payment;
+
+  const orderId = authorization.supplementary_data?.related_ids?.order_id;
+  return orderId ? findPayment('authorization_id', orderId) : null;
+}
+
+// Refund resources link to their capture with rel "up"
+function getRefundedCaptureId(refund: any): string | null {
+  const link = (refund.links || []).find((candidate: any) => candidate.rel === 'up');
+  const match = link?.href?.match(/\/captures\/([^/]+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Handle Authorization Events
+ */
+async function handleAuthorizationEvent(event: PayPalWebhookEvent) {
+  const authorization = event.resource;
+
+  console.log(`Authorization ${event.event_type}:`, authorization.id);
+
+  const payment = await findAuthorizationPayment(authorization);
+  if (!payment) {
+    console.log(`No payment record for authorization ${authorization.id}, ignoring ${event.event_type}`);
+    return;
+  }
+
+  switch (event.event_type) {
+    case 'PAYMENT.AUTHORIZATION.CREATED':
+      // Already recorded when the payer's browser reported the approval
+      if (payment.status !== 'requires_action') return;
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'authorized',
+          payment_intent_id: authorization.id,
+          authorization_id: authorization.id
+        },
+        bookingPaymentStatus: 'authorized'
+      });
+      await notifyPaymentEvent('payment_authorized', payment.booking_id, payment.user_id);
+      break;
+
+    case 'PAYMENT.AUTHORIZATION.VOIDED': {
+      // Already recorded when the app voided the hold itself
+      if (!OPEN_PAYMENT_STATUSES.includes(payment.status)) return;
+      const expired = authorization.status === 'EXPIRED';
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'cancelled',
+          refund_reason: expired ? 'expired' : 'cancelled',
+          refunded_at: new Date().toISOString()
+        },
+        holdStatus: 'released',
+        bookingPaymentStatus: 'refunded'
+      });
+      await expirePendingBooking(payment.booking_id);
+      if (expired) {
+        await notifyPaymentEvent('payment_expired', payment.booking_id, payment.user_id);
+      } else {
+        await notifyPaymentEvent(
+          'payment_refunded',
+          payment.booking_id,
+          payment.user_id,
+          'Your payment authorization was released and you were not charged.'
+        );
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Handle Capture Events
+ */
+async function handleCaptureEvent(event: PayPalWebhookEvent) {
+  const capture = event.resource;
+
+  console.log(`Capture ${event.event_type}:`, capture.id);
+
+  const authorizationId = capture.supplementary_data?.related_ids?.authorization_id;
+  const payment = await findPayment('transaction_id', capture.id)
+    || (authorizationId ? await findPayment('authorization_id', authorizationId) : null);
+
+  if (!payment) {
+    console.log(`No payment record for capture ${capture.id}, ignoring ${event.event_type}`);
+    return;
+  }
+
+  switch (event.event_type) {
+    case 'PAYMENT.CAPTURE.COMPLETED':
+      if (SETTLED_PAYMENT_STATUSES.includes(payment.status)) return;
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'captured',
+          transaction_id: capture.id,
+          captured_at: new Date().toISOString()
+        },
+        holdStatus: 'captured',
+        bookingPaymentStatus: 'paid'
+      });
+      await notifyPaymentEvent('payment_captured', payment.booking_id, payment.user_id);
+      break;
+
+    case 'PAYMENT.CAPTURE.DENIED':
+      if (payment.status === 'failed' || payment.status === 'refunded') return;
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'failed',
+          transaction_id: capture.id,
+          failure_reason: capture.status_details?.reason || 'Capture denied'
+        },
+        holdStatus: 'failed',
+        bookingPaymentStatus: 'failed'
+      });
+      await notifyPaymentEvent('payment_failed', payment.booking_id, payment.user_id);
+      break;
+  }
+}
+
+/**
+ * Handle Refund Events
+ */
+async function handleRefundEvent(event: PayPalWebhookEvent) {
+  const refund = event.resource;
+
+  console.log(`Refund ${event.event_type}:`, refund.id);
+
+  const captureId = getRefundedCaptureId(refund);
+  const payment = captureId ? await findPayment('transaction_id', captureId) : null;
+  if (!payment) {
+    console.log(`No payment record for refund ${refund.id}, ignoring ${event.event_type}`);
+    return;
+  }
+
+  // Already recorded when the app issued the refund itself
+  if (payment.status === 'refunded' || payment.refund_id === refund.id) return;
+
+  const totalRefunded = Number(refund.seller_payable_breakdown?.total_refunded_amount?.value ?? refund.amount?.value ?? 0);
+  const fullyRefunded = totalRefunded >= Number(payment.amount);
+
+  await applyPaymentChange(payment, {
+    payment: {
+      ...(fullyRefunded ? { status: 'refunded' } : {}),
+      refund_id: refund.id,
+      refunded_amount: totalRefunded,
+      refunded_at: new Date().toISOString()
+    },
+    holdStatus: fullyRefunded ? 'refunded' : undefined,
+    bookingPaymentStatus: fullyRefunded ? 'refunded' : 'partially_refunded'
+  });
+
+  await notifyPaymentEvent(
+    'payment_refunded',
+    payment.booking_id,
+    payment.user_id,
+    `A refund of $${Number(refund.amount?.value ?? totalRefunded).toFixed(2)} has been issued to your PayPal account.`
+  );
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const event = req.body as PayPalWebhookEvent;
+  if (!event?.id || !event.event_type) {
+    return res.status(400).json({ error: 'Invalid webhook payload' });
+  }
+
+  try {
+    if (!(await verifyWebhookSignature(req, event))) {
+      console.error('PayPal webhook signature verification failed:', event.id);
+      return res.status(400).json({ error: 'Webhook signature verification failed' });
+    }
+  } catch (err) {
+    console.error('PayPal webhook signature verification failed:', err);
+    return res.status(400).json({ error: 'Webhook signature verification failed' });
+  }
+
+  let claim: WebhookClaim;
+  try {
+    claim = await claimWebhookEvent('paypal', event.id, event.event_type);
+  } catch (error) {
+    console.error('Failed to record webhook event:', error);
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+
+  if (claim === 'in_progress') {
+    // Not acknowledged, so the provider retries and can take over if that delivery dies
+    console.log(`Webhook event ${event.id} is being processed by another delivery`);
+    return res.status(409).json({ error: 'Webhook event is already being processed' });
+  }
+
+  if (claim === 'duplicate') {
+    console.log(`Webhook event ${event.id} already processed`);
+    return res.status(200).json({ received: true, duplicate: true });
+  }
+
+  try {
+    switch (event.event_type) {
+      // Authorization events
+      case 'PAYMENT.AUTHORIZATION.CREATED':
+      case 'PAYMENT.AUTHORIZATION.VOIDED':
+        await handleAuthorizationEvent(event);
+        break;
+
+      // Capture events
+      case 'PAYMENT.CAPTURE.COMPLETED':
+      case 'PAYMENT.CAPTURE.DENIED':
+        await handleCaptureEvent(event);
+        break;
+
+      // Refund events
+      case 'PAYMENT.CAPTURE.REFUNDED':
+        await handleRefundEvent(event);
+        break;
+
+      default:
+        console.log(`Unhandled event type: ${event.event_type}`);
+    }
+
+    await completeWebhookEvent('paypal', event.id);
+    return res.status(200).json({ received: true });
+  } catch (error) {
+    console.error('Error processing PayPal webhook:', error);
+    // PayPal retries on a non-2xx response; the failed claim lets the retry through
+    await completeWebhookEvent('paypal', event.id, error instanceof Error ? error.message : 'Webhook processing failed');
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Ride Alerts API Endpoint
+ * Vercel cron function that matches newly posted rides against passengers'
+ * saved searches and records an alert for each match. The frontend picks
+ * alerts up through a realtime subscription and NotificationService.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import {
+  RIDE_MATCH_SELECT,
+  buildSegmentMatch,
+  getDepartureDay,
+  matchRides
+} from '../_lib/rideMatching';
+
+// Saved search row as stored in saved_searches
+interface SavedSearchRow {
+  id: number;
+  user_id: string;
+  from_location: string;
+  to_location: string;
+  from_lat?: number;
+  from_lng?: number;
+  to_lat?: number;
+  to_lng?: number;
+  search_date?: string | null; // YYYY-MM-DD, one-off search
+  weekdays?: number[] | null; // 0 = Sunday, recurring search
+  seats: number;
+  max_price?: number | null;
+  is_active: boolean;
+}
+
+interface RideAlertRunResult {
+  success: boolean;
+  rides_checked?: number;
+  searches_checked?: number;
+  alerts_created?: number;
+  searches_expired?: number;
+  error?: string;
+}
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// How far back to look for new rides. Longer than the cron interval so a
+// missed run is covered; existing alerts are not duplicated.
+const LOOKBACK_MINUTES = Number(process.env.RIDE_ALERT_LOOKBACK_MINUTES) || 60;
+
+function matchesSchedule(search: SavedSearchRow, departureTime: string): boolean {
+  const { date, weekday } = getDepartureDay(departureTime);
+
+  if (search.search_date) {
+    return date === search.search_date;
+  }
+
+  if (search.weekdays && search.weekdays.length > 0) {
+    return search.weekdays.includes(weekday);
+  }
+
+  return true;
+}
+
+/**
+ * Match rides posted in the lookback window against active saved searches
+ */
+export async function processRideAlerts(lookbackMinutes: number = LOOKBACK_MINUTES): Promise<RideAlertRunResult> {
+  try {
+    const since = new Date(Date.now() - lookbackMinutes * 60 * 1000).toISOString();
+    const today = new Date().toISOString().split('T')[0];
+
+    // One-off searches for past dates can no longer match anything
+    const { data: expired, error: expireError } = await supabaseAdmin
+      .from('saved_searches')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('is_active', true)
+      .lt('search_date', today)
+      .select('id');
+
+    if (expireError) throw expireError;
+
+    const [{ data: rides, error: ridesError }, { data: searches, error: searchesError }] = await Promise.all([
+      supabaseAdmin
+        .from('rides')
+        .select(RIDE_MATCH_SELECT)
+        .eq('status', 'active')
+        .gte('created_at', since),
+      supabaseAdmin
+        .from('saved_searches')
+        .select('*')
+        .eq('is_active', true),
+    ]);
+
+    if (ridesError) throw ridesError;
+    if (searchesError) throw searchesError;
+
+    if (!rides?.length || !searches?.length) {
+      return {
+        success: true,
+        rides_checked: rides?.length || 0,
+        searches_checked: searches?.length || 0,
+        alerts_created: 0,
+        searches_expired: expired?.length || 0,
+      };
+    }
+
+    // Skip ride/search pairs that were already alerted in an earlier run
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('ride_alert_notifications')
+      .select('saved_search_id, ride_id')
+      .in('ride_id', rides.map(ride => ride.id));
+
+    if (existingError) throw existingError;
+
+    const alreadyAlerted = new Set((existing || []).map(row => `${row.saved_search_id}:${row.ride_id}`));
+    const alerts = [];
+
+    for (const ride of rides) {
+      for (const search of searches as SavedSearchRow[]) {
+        if (alreadyAlerted.has(`${search.id}:${ride.id}`)) continue;
+        if (ride.driver_id === search.user_id) continue;
+        if (ride.available_seats < (search.seats || 1)) continue;
+        if (!matchesSchedule(search, ride.departure_time)) continue;
+
+        const [match] = matchRides([ride], {
+          origin: { lat: search.from_lat, lng: search.from_lng },
+          destination: { lat: search.to_lat, lng: search.to_lng },
+          fromLocation: search.from_location,
+          toLocation: search.to_location,
+        });
+        if (!match) continue;
+
+        const segmentMatch = buildSegmentMatch(match);
+        if (search.max_price != null && segmentMatch.segmentPrice > search.max_price) continue;
+
+        alerts.push({
+          saved_search_id: search.id,
+          user_id: search.user_id,
+          ride_id: ride.id,
+          from_segment_id: segmentMatch.fromSegment.id,
+          to_segment_id: segmentMatch.toSegment.id,
+          pickup_address: segmentMatch.fromSegment.address,
+          dropoff_address: segmentMatch.toSegment.address,
+          pickup_time: segmentMatch.estimatedPickupTime,
+          segment_price: segmentMatch.segmentPrice,
+        });
+      }
+    }
+
+    if (alerts.length > 0) {
+      const { error: insertError } = await supabaseAdmin
+        .from('ride_alert_notifications')
+        .insert(alerts);
+
+      if (insertError) throw insertError;
+
+      const matchedSearchIds = [...new Set(alerts.map(alert => alert.saved_search_id))];
+      await supabaseAdmin
+        .from('saved_searches')
+        .update({ last_matched_at: new Date().toISOString() })
+        .in('id', matchedSearchIds);
+    }
+
+    console.log(`Ride alerts: ${alerts.length} created from ${rides.length} rides and ${searches.length} searches`);
+
+    return {
+      success: true,
+      rides_checked: rides.length,
+      searches_checked: searches.length,
+      alerts_created: alerts.length,
+      searches_expired: expired?.length || 0,
+    };
+
+  } catch (error) {
+    console.error('Error processing ride alerts:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process ride alerts'
+    };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ * GET /api/rides/alerts (Vercel cron) or POST to run manually
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { method } = req;
+
+  if (method !== 'GET' && method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+      statusCode: 405
+    });
+  }
+
+  // Vercel sends the cron secret as a bearer token; without one configured nobody gets in
+  if (!CRON_SECRET) {
+    console.error('CRON_SECRET is not configured');
+    return res.status(500).json({
+      success: false,
+      error: 'Cron secret not configured',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+
+  if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      statusCode: 401
+    });
+  }
+
+  try {
+    const result = await processRideAlerts();
+    return res.status(result.success ? 200 : 500).json({
+      success: result.success,
+      data: result.success ? {
+        rides_checked: result.rides_checked,
+        searches_checked: result.searches_checked,
+        alerts_created: result.alerts_created,
+        searches_expired: result.searches_expired
+      } : undefined,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+      statusCode: result.success ? 200 : 500
+    });
+
+  } catch (error) {
+    console.error('Ride Alerts API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  SavedSearchRow,
+  RideAlertRunResult
+};
@@ -0,0 +1,104 @@
+/**
+ * Recurring Rides API Endpoint
+ * Vercel serverless function that posts the upcoming trips of drivers'
+ * recurring rides. The daily cron rolls every active template forward; a
+ * driver asks for their new or resumed template's trips straight away.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../_lib/auth';
+import {
+  MaterializeResult,
+  OccurrenceConflict,
+  RecurringRideRunResult,
+  materializeDriverTemplate,
+  processRecurringRides
+} from '../_lib/recurringRides';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+  const templateMatch = url.match(/^\/api\/rides\/recurring\/(\d+)\/occurrences$/);
+
+  const send = (success: boolean, data?: any, error?: string) => res.status(success ? 200 : 400).json({
+    success,
+    data: success ? data : undefined,
+    error,
+    timestamp: new Date().toISOString(),
+    statusCode: success ? 200 : 400
+  });
+
+  const deny = (status: 401 | 500, error: string) => res.status(status).json({
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    statusCode: status
+  });
+
+  try {
+    if (url === '/api/rides/recurring' && (method === 'GET' || method === 'POST')) {
+      // Vercel sends the cron secret as a bearer token; without one configured nobody gets in
+      if (!CRON_SECRET) {
+        console.error('CRON_SECRET is not configured');
+        return deny(500, 'Cron secret not configured');
+      }
+      if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) {
+        return deny(401, 'Unauthorized');
+      }
+
+      const result = await processRecurringRides();
+      return send(true, {
+        templates_checked: result.templatesChecked,
+        rides_created: result.ridesCreated,
+        conflicts: result.conflicts
+      });
+    }
+
+    if (method !== 'POST' || !templateMatch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Endpoint not found',
+        timestamp: new Date().toISOString(),
+        statusCode: 404
+      });
+    }
+
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return deny(401, 'Sign in required');
+    }
+
+    const result = await materializeDriverTemplate(user.id, parseInt(templateMatch[1], 10));
+    return send(result.success, result.result, result.error);
+
+  } catch (error) {
+    console.error('Recurring Rides API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  MaterializeResult,
+  OccurrenceConflict,
+  RecurringRideRunResult
+};
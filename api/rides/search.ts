@@ -0,0 +1,270 @@
+/**
+ * Ride Search API Endpoint
+ * Vercel serverless function that searches active rides by route, date range,
+ * seats and price, and returns paginated segment matches. Candidate rides are
+ * read from the database in pages, already narrowed to routes that pass near
+ * the passenger, and matched with RideMatchingService.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import {
+  MATCH_OPTIONS,
+  RIDE_MATCH_SELECT,
+  SegmentMatch,
+  addDays,
+  buildSegmentMatch,
+  getRouteBounds,
+  isValidPoint,
+  matchRides
+} from '../_lib/rideMatching';
+
+// Request interfaces
+interface RideSearchRequest {
+  origin_lat?: number;
+  origin_lng?: number;
+  destination_lat?: number;
+  destination_lng?: number;
+  from_location?: string; // Only used when coordinates are missing
+  to_location?: string;
+  date_from: string; // YYYY-MM-DD, inclusive
+  date_to?: string; // YYYY-MM-DD, inclusive, defaults to date_from + 30 days
+  seats: number;
+  max_price?: number; // Per seat, compared against the segment price
+  sort?: RideSearchSort;
+  page?: number; // 1-based
+  page_size?: number;
+  exclude_driver_id?: string; // Hide the searching user's own rides
+  include_full?: boolean; // Also return rides without enough seats, flagged isFull, for the waitlist
+}
+
+type RideSearchSort = 'departure' | 'price' | 'detour';
+
+// Response interfaces
+interface RideSearchResponse {
+  success: boolean;
+  results?: SegmentMatch[];
+  page?: number;
+  page_size?: number;
+  total?: number | null; // Null when results are sorted by departure and later rides were not read
+  has_more?: boolean;
+  error?: string;
+}
+
+const DEFAULT_WINDOW_DAYS = 30;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const CANDIDATE_BATCH_SIZE = 200;
+
+/**
+ * Search rides
+ * GET /api/rides/search
+ */
+export async function searchRides(request: RideSearchRequest): Promise<RideSearchResponse> {
+  try {
+    if (!request.date_from || !/^\d{4}-\d{2}-\d{2}$/.test(request.date_from)) {
+      return { success: false, error: 'date_from must be a YYYY-MM-DD date' };
+    }
+
+    if (request.date_to && !/^\d{4}-\d{2}-\d{2}$/.test(request.date_to)) {
+      return { success: false, error: 'date_to must be a YYYY-MM-DD date' };
+    }
+
+    const seats = request.seats || 1;
+    if (seats < 1) {
+      return { success: false, error: 'seats must be at least 1' };
+    }
+
+    const page = Math.max(1, request.page || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, request.page_size || DEFAULT_PAGE_SIZE));
+    const dateTo = request.date_to || addDays(request.date_from, DEFAULT_WINDOW_DAYS);
+
+    const origin = { lat: request.origin_lat, lng: request.origin_lng };
+    const destination = { lat: request.destination_lat, lng: request.destination_lng };
+    const byCoordinates = isValidPoint(origin) && isValidPoint(destination);
+    const sort = request.sort || 'departure';
+
+    // Date, seats, status and the route's bounding box are filtered in the
+    // database; the exact match against the route happens here
+    const candidates = (offset: number) => {
+      let query = supabaseAdmin
+        .from('rides')
+        .select(RIDE_MATCH_SELECT)
+        .eq('status', 'active')
+        .gte('departure_time', `${request.date_from} 00:00:00`)
+        .lt('departure_time', `${addDays(dateTo, 1)} 00:00:00`);
+
+      if (!request.include_full) {
+        query = query.gte('available_seats', seats);
+      }
+
+      if (request.exclude_driver_id) {
+        query = query.neq('driver_id', request.exclude_driver_id);
+      }
+
+      if (byCoordinates) {
+        for (const bounds of [
+          getRouteBounds(origin, MATCH_OPTIONS.pickupRadiusKm),
+          getRouteBounds(destination, MATCH_OPTIONS.dropoffRadiusKm),
+        ]) {
+          query = query
+            .lte('route_min_lat', bounds.maxLat)
+            .gte('route_max_lat', bounds.minLat)
+            .lte('route_min_lng', bounds.maxLng)
+            .gte('route_max_lng', bounds.minLng);
+        }
+      }
+
+      return query
+        .order('departure_time', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + CANDIDATE_BATCH_SIZE - 1);
+    };
+
+    // Sorted by departure, reading stops once the page and one more match
+    // are found. Other sorts need every candidate.
+    const start = (page - 1) * pageSize;
+    const needed = sort === 'departure' ? start + pageSize + 1 : Infinity;
+    const matches: SegmentMatch[] = [];
+    let offset = 0;
+    let exhausted = false;
+
+    while (matches.length < needed) {
+      const { data: rides, error } = await candidates(offset);
+      if (error) throw error;
+
+      for (const match of matchRides(rides || [], {
+        origin,
+        destination,
+        fromLocation: request.from_location,
+        toLocation: request.to_location,
+      })) {
+        const segmentMatch = buildSegmentMatch(match);
+        if (request.max_price != null && segmentMatch.segmentPrice > request.max_price) continue;
+
+        matches.push(match.ride.available_seats < seats ? { ...segmentMatch, isFull: true } : segmentMatch);
+      }
+
+      offset += CANDIDATE_BATCH_SIZE;
+      if (!rides || rides.length < CANDIDATE_BATCH_SIZE) {
+        exhausted = true;
+        break;
+      }
+    }
+
+    const byDeparture = (a: SegmentMatch, b: SegmentMatch) =>
+      a.ride.departure_time.localeCompare(b.ride.departure_time) ||
+      a.ride.id - b.ride.id;
+
+    switch (sort) {
+      case 'price':
+        matches.sort((a, b) => a.segmentPrice - b.segmentPrice || byDeparture(a, b));
+        break;
+      case 'detour':
+        matches.sort((a, b) => (a.detourDistance || 0) - (b.detourDistance || 0) || byDeparture(a, b));
+        break;
+      default:
+        matches.sort(byDeparture);
+    }
+
+    return {
+      success: true,
+      results: matches.slice(start, start + pageSize),
+      page,
+      page_size: pageSize,
+      total: exhausted ? matches.length : null,
+      has_more: start + pageSize < matches.length,
+    };
+
+  } catch (error) {
+    console.error('Error searching rides:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to search rides'
+    };
+  }
+}
+
+// Query string values arrive as strings, POST bodies may already be typed
+function parseSearchRequest(params: Record<string, any>): RideSearchRequest {
+  const toNumber = (value: any) => (value === undefined || value === '' ? undefined : Number(value));
+  const sort = ['departure', 'price', 'detour'].includes(params.sort) ? params.sort : 'departure';
+
+  return {
+    origin_lat: toNumber(params.origin_lat),
+    origin_lng: toNumber(params.origin_lng),
+    destination_lat: toNumber(params.destination_lat),
+    destination_lng: toNumber(params.destination_lng),
+    from_location: params.from_location,
+    to_location: params.to_location,
+    date_from: params.date_from,
+    date_to: params.date_to || undefined,
+    seats: toNumber(params.seats) || 1,
+    max_price: toNumber(params.max_price),
+    sort,
+    page: toNumber(params.page),
+    page_size: toNumber(params.page_size),
+    exclude_driver_id: params.exclude_driver_id || undefined,
+    include_full: params.include_full === true || params.include_full === 'true',
+  };
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const path = req.url?.split('?')[0];
+
+  try {
+    if ((method === 'GET' || method === 'POST') && path === '/api/rides/search') {
+      const result = await searchRides(parseSearchRequest(method === 'GET' ? req.query : req.body || {}));
+      return res.status(result.success ? 200 : 400).json({
+        success: result.success,
+        data: result.success ? {
+          results: result.results,
+          page: result.page,
+          page_size: result.page_size,
+          total: result.total,
+          has_more: result.has_more
+        } : undefined,
+        error: result.error,
+        timestamp: new Date().toISOString(),
+        statusCode: result.success ? 200 : 400
+      });
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('Ride Search API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  RideSearchRequest,
+  RideSearchSort,
+  RideSearchResponse,
+  SegmentMatch
+};
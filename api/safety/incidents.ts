@@ -0,0 +1,639 @@
+/**
+ * Safety Incidents API
+ * Vercel serverless function for safety reports. A report from a rider
+ * opens a high-priority support ticket and a safety_incidents row tied to
+ * the ride and both parties. Support can put the reported user on a safety
+ * hold, which stops them posting or booking rides, and only an admin can
+ * resolve the incident. An SOS from the trip view opens a critical incident
+ * with the rider's location and alerts their emergency contact.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import { getAuthenticatedUser, requirePermission } from '../_lib/auth';
+import { sendMessages, OutboundMessage, MessageResult } from '../_lib/messageGateway';
+import { createTripShare, getShareUrl, SharedLocation } from '../_lib/tripShares';
+
+type IncidentStatus = 'open' | 'resolved';
+type IncidentPriority = 'high' | 'critical';
+type ResolutionAction = 'no_action' | 'warned' | 'suspended' | 'banned';
+type IncidentSource = 'report' | 'sos';
+
+interface PersonSummary {
+  id: string;
+  display_name: string | null;
+  email: string | null;
+  phone?: string | null;
+}
+
+interface SafetyIncident {
+  id: number;
+  ticket_id: number | null;
+  ride_id: number | null;
+  booking_id: number | null;
+  reporter_id: string;
+  reported_user_id: string | null;
+  source: IncidentSource;
+  priority: IncidentPriority;
+  description: string;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy: number | null;
+  contact_alerted_at: string | null;
+  status: IncidentStatus;
+  freeze_active: boolean;
+  frozen_at: string | null;
+  frozen_by: string | null;
+  resolution: string | null;
+  resolution_action: ResolutionAction | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  reporter?: PersonSummary;
+  reported_user?: PersonSummary | null;
+  ride?: Record<string, any> | null;
+}
+
+interface ReportRequestBody {
+  ride_id?: number | null;
+  reported_user_id?: string | null;
+  title?: string;
+  description?: string;
+  priority?: string;
+  contact_email?: string;
+}
+
+interface SosRequestBody {
+  ride_id?: number;
+  latitude?: number | null;
+  longitude?: number | null;
+  accuracy?: number | null;
+  message?: string;
+}
+
+interface SosResult {
+  incident: SafetyIncident;
+  share_url: string;
+  contact_name: string | null;
+  alerts: MessageResult[]; // Empty when no emergency contact is set
+}
+
+interface ResolveRequestBody {
+  resolution?: string;
+  action?: ResolutionAction;
+  suspension_days?: number;
+}
+
+interface SafetyResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const RESOLUTION_ACTIONS: ResolutionAction[] = ['no_action', 'warned', 'suspended', 'banned'];
+const DEFAULT_SUSPENSION_DAYS = 30;
+const APP_URL = process.env.APP_URL;
+
+const INCIDENT_SELECT = `
+  *,
+  reporter:users!safety_incidents_reporter_id_fkey (id, display_name, email, phone),
+  reported_user:users!safety_incidents_reported_user_id_fkey (id, display_name, email, phone),
+  ride:rides (id, driver_id, from_location, to_location, departure_time, status)
+`;
+
+async function getIncidentRow(incidentId: number): Promise<SafetyIncident | null> {
+  const { data, error } = await supabaseAdmin
+    .from('safety_incidents')
+    .select(INCIDENT_SELECT)
+    .eq('id', incidentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Bookings that never put the passenger on the ride
+const NON_PARTICIPATING_STATUSES = ['cancelled', 'rejected', 'timeout_cancelled'];
+
+/**
+ * The user's booking on the ride, or the ride itself when they drive it.
+ * Null when they were not part of the ride.
+ */
+async function getRideParticipation(rideId: number, userId: string): Promise<{ driver: boolean; bookingId: number | null } | null> {
+  const { data: ride } = await supabaseAdmin
+    .from('rides')
+    .select('id, driver_id')
+    .eq('id', rideId)
+    .maybeSingle();
+
+  if (!ride) return null;
+  if (ride.driver_id === userId) return { driver: true, bookingId: null };
+
+  const { data: booking } = await supabaseAdmin
+    .from('ride_bookings')
+    .select('id')
+    .eq('ride_id', rideId)
+    .eq('passenger_id', userId)
+    .not('status', 'in', `(${NON_PARTICIPATING_STATUSES.join(',')})`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return booking ? { driver: false, bookingId: booking.id } : null;
+}
+
+/**
+ * Keep users.safety_hold_since in step with the user's frozen, unresolved
+ * incidents. Posting and booking check this column.
+ */
+async function syncSafetyHold(userId: string): Promise<void> {
+  const { count } = await supabaseAdmin
+    .from('safety_incidents')
+    .select('id', { count: 'exact', head: true })
+    .eq('reported_user_id', userId)
+    .eq('status', 'open')
+    .eq('freeze_active', true);
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('safety_hold_since')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const held = (count || 0) > 0;
+  if (held === !!user?.safety_hold_since) return;
+
+  await supabaseAdmin
+    .from('users')
+    .update({ safety_hold_since: held ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+}
+
+/**
+ * File a safety report. The reporter and the reported user must both be on
+ * the ride; the ticket is escalated to at least high priority.
+ */
+export async function reportIncident(
+  reporterId: string,
+  body: ReportRequestBody,
+  details: { source?: IncidentSource; location?: SharedLocation | null } = {}
+): Promise<SafetyResponse<SafetyIncident>> {
+  try {
+    const description = body?.description?.trim();
+    if (!description) {
+      return { success: false, error: 'Please describe what happened' };
+    }
+
+    const rideId = body.ride_id ? Number(body.ride_id) : null;
+    const reportedUserId = body.reported_user_id || null;
+    let bookingId: number | null = null;
+
+    if (reportedUserId && !rideId) {
+      return { success: false, error: 'Choose the ride the person was on' };
+    }
+    if (reportedUserId === reporterId) {
+      return { success: false, error: 'You cannot report yourself' };
+    }
+
+    if (rideId) {
+      const reporterPart = await getRideParticipation(rideId, reporterId);
+      if (!reporterPart) {
+        return { success: false, error: 'You can only report rides you were part of' };
+      }
+      bookingId = reporterPart.bookingId;
+
+      if (reportedUserId) {
+        const reportedPart = await getRideParticipation(rideId, reportedUserId);
+        if (!reportedPart) {
+          return { success: false, error: 'That person was not part of this ride' };
+        }
+        bookingId = bookingId || reportedPart.bookingId;
+      }
+    }
+
+    const priority: IncidentPriority = body.priority === 'critical' ? 'critical' : 'high';
+    const now = new Date().toISOString();
+
+    const { data: ticket, error: ticketError } = await supabaseAdmin
+      .from('support_tickets')
+      .insert({
+        user_id: reporterId,
+        type: 'safety',
+        title: body.title?.trim() || 'Safety report',
+        description,
+        priority,
+        status: 'open',
+        contact_email: body.contact_email || null,
+        ride_id: rideId,
+        booking_id: bookingId,
+        created_at: now
+      })
+      .select('id')
+      .single();
+
+    if (ticketError) throw ticketError;
+
+    const { data: incident, error: incidentError } = await supabaseAdmin
+      .from('safety_incidents')
+      .insert({
+        ticket_id: ticket.id,
+        ride_id: rideId,
+        booking_id: bookingId,
+        reporter_id: reporterId,
+        reported_user_id: reportedUserId,
+        source: details.source || 'report',
+        priority,
+        description,
+        latitude: details.location?.latitude ?? null,
+        longitude: details.location?.longitude ?? null,
+        location_accuracy: details.location?.accuracy ?? null,
+        status: 'open',
+        freeze_active: false,
+        created_at: now,
+        updated_at: now
+      })
+      .select(INCIDENT_SELECT)
+      .single();
+
+    if (incidentError) throw incidentError;
+
+    console.warn(`Safety incident ${incident.id} (${priority}) reported by ${reporterId} on ride ${rideId ?? 'n/a'}`);
+    return { success: true, data: incident };
+  } catch (error) {
+    console.error('Error reporting safety incident:', error);
+    return { success: false, error: 'Failed to submit safety report' };
+  }
+}
+
+const isValidLocation = (body: SosRequestBody) =>
+  typeof body.latitude === 'number' && typeof body.longitude === 'number' &&
+  Math.abs(body.latitude) <= 90 && Math.abs(body.longitude) <= 180;
+
+/**
+ * SOS from the trip view. Opens a critical incident on the ride with the
+ * rider's location, then texts and emails their emergency contact a trip
+ * share link and the location.
+ */
+export async function triggerSos(userId: string, body: SosRequestBody, appUrl: string): Promise<SafetyResponse<SosResult>> {
+  try {
+    const rideId = Number(body?.ride_id);
+    if (!rideId) {
+      return { success: false, error: 'ride_id is required' };
+    }
+
+    const location: SharedLocation | null = isValidLocation(body)
+      ? { latitude: body.latitude!, longitude: body.longitude!, accuracy: body.accuracy ?? null }
+      : null;
+    const mapUrl = location ? `https://maps.google.com/?q=${location.latitude},${location.longitude}` : null;
+
+    const reported = await reportIncident(
+      userId,
+      {
+        ride_id: rideId,
+        title: 'SOS alert',
+        description: [
+          body.message?.trim() || 'SOS raised during the trip.',
+          mapUrl ? `Location: ${mapUrl}` : 'Location unavailable.'
+        ].join('\n'),
+        priority: 'critical'
+      },
+      { source: 'sos', location }
+    );
+    if (!reported.success || !reported.data) {
+      return { success: false, error: reported.error };
+    }
+    const incident = reported.data;
+
+    const share = await createTripShare(rideId, userId, location, incident.id);
+    const shareUrl = getShareUrl(appUrl, share.token);
+
+    const [{ data: contact }, { data: rider }] = await Promise.all([
+      supabaseAdmin
+        .from('passengers')
+        .select('emergency_contact_name, emergency_contact_phone, emergency_contact_email')
+        .eq('id', userId)
+        .maybeSingle(),
+      supabaseAdmin
+        .from('users')
+        .select('display_name')
+        .eq('id', userId)
+        .maybeSingle()
+    ]);
+
+    const riderName = rider?.display_name || 'Your contact';
+    const route = incident.ride ? ` from ${incident.ride.from_location} to ${incident.ride.to_location}` : '';
+    const text = [
+      `${riderName} pressed SOS during an OnGoPool ride${route}.`,
+      mapUrl ? `Last known location: ${mapUrl}` : 'Their location could not be determined.',
+      `Follow the trip: ${shareUrl}`,
+      'If you think they are in danger, call your local emergency number.'
+    ].join('\n');
+
+    const messages: OutboundMessage[] = [];
+    if (contact?.emergency_contact_phone) {
+      messages.push({ channel: 'sms', to: contact.emergency_contact_phone, body: text });
+    }
+    if (contact?.emergency_contact_email) {
+      messages.push({ channel: 'email', to: contact.emergency_contact_email, subject: `SOS from ${riderName}`, body: text });
+    }
+
+    const alerts = await sendMessages(messages);
+    if (alerts.some(alert => alert.delivered)) {
+      await supabaseAdmin
+        .from('safety_incidents')
+        .update({ contact_alerted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', incident.id);
+    }
+
+    console.warn(`SOS on ride ${rideId} by ${userId}: incident ${incident.id}, ${alerts.filter(alert => alert.delivered).length}/${messages.length} alerts sent`);
+    return {
+      success: true,
+      data: {
+        incident,
+        share_url: shareUrl,
+        contact_name: contact?.emergency_contact_name || null,
+        alerts
+      }
+    };
+  } catch (error) {
+    console.error('Error handling SOS:', error);
+    return { success: false, error: 'Failed to send SOS' };
+  }
+}
+
+/**
+ * Incidents for staff, newest first
+ */
+export async function listIncidents(status?: string): Promise<SafetyResponse<SafetyIncident[]>> {
+  try {
+    let query = supabaseAdmin
+      .from('safety_incidents')
+      .select(INCIDENT_SELECT)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return { success: true, data: data || [] };
+  } catch (error) {
+    console.error('Error loading safety incidents:', error);
+    return { success: false, error: 'Failed to load incidents' };
+  }
+}
+
+export async function getIncident(incidentId: number): Promise<SafetyResponse<SafetyIncident>> {
+  try {
+    const incident = await getIncidentRow(incidentId);
+    return incident ? { success: true, data: incident } : { success: false, error: 'Incident not found' };
+  } catch (error) {
+    console.error('Error loading safety incident:', error);
+    return { success: false, error: 'Failed to load incident' };
+  }
+}
+
+/**
+ * Put the reported user on a safety hold, or lift it
+ */
+export async function setFreeze(staffId: string, incidentId: number, frozen: boolean): Promise<SafetyResponse<SafetyIncident>> {
+  try {
+    const incident = await getIncidentRow(incidentId);
+    if (!incident) {
+      return { success: false, error: 'Incident not found' };
+    }
+    if (!incident.reported_user_id) {
+      return { success: false, error: 'This report does not name a user to hold' };
+    }
+    if (incident.status === 'resolved') {
+      return { success: false, error: 'This incident is already resolved' };
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from('safety_incidents')
+      .update({
+        freeze_active: frozen,
+        frozen_at: frozen ? now : null,
+        frozen_by: frozen ? staffId : null,
+        updated_at: now
+      })
+      .eq('id', incidentId);
+
+    if (error) throw error;
+
+    await syncSafetyHold(incident.reported_user_id);
+
+    console.warn(`Safety hold on ${incident.reported_user_id} ${frozen ? 'placed' : 'lifted'} by ${staffId} (incident ${incidentId})`);
+    return { success: true, data: (await getIncidentRow(incidentId))! };
+  } catch (error) {
+    console.error('Error updating safety hold:', error);
+    return { success: false, error: 'Failed to update safety hold' };
+  }
+}
+
+/**
+ * Admin resolution. Applies the action to the reported user's account,
+ * lifts this incident's hold and resolves the ticket.
+ */
+export async function resolveIncident(adminId: string, incidentId: number, body: ResolveRequestBody): Promise<SafetyResponse<SafetyIncident>> {
+  try {
+    const resolution = body?.resolution?.trim();
+    if (!resolution) {
+      return { success: false, error: 'A resolution is required' };
+    }
+
+    const action = body.action || 'no_action';
+    if (!RESOLUTION_ACTIONS.includes(action)) {
+      return { success: false, error: 'Invalid action' };
+    }
+
+    const incident = await getIncidentRow(incidentId);
+    if (!incident) {
+      return { success: false, error: 'Incident not found' };
+    }
+    if (incident.status === 'resolved') {
+      return { success: false, error: 'This incident is already resolved' };
+    }
+    if (action !== 'no_action' && !incident.reported_user_id) {
+      return { success: false, error: 'This report does not name a user to act on' };
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from('safety_incidents')
+      .update({
+        status: 'resolved',
+        resolution,
+        resolution_action: action,
+        resolved_by: adminId,
+        resolved_at: now,
+        freeze_active: false,
+        updated_at: now
+      })
+      .eq('id', incidentId)
+      .eq('status', 'open');
+
+    if (error) throw error;
+
+    if (incident.reported_user_id) {
+      if (action !== 'no_action') {
+        const suspensionDays = Number(body.suspension_days) || DEFAULT_SUSPENSION_DAYS;
+        await supabaseAdmin
+          .from('users')
+          .update({
+            account_status: action,
+            suspension_until: action === 'suspended'
+              ? new Date(Date.now() + suspensionDays * 24 * 60 * 60 * 1000).toISOString()
+              : null,
+            updated_at: now
+          })
+          .eq('id', incident.reported_user_id);
+      }
+      await syncSafetyHold(incident.reported_user_id);
+    }
+
+    if (incident.ticket_id) {
+      await supabaseAdmin
+        .from('support_tickets')
+        .update({
+          status: 'resolved',
+          resolved_at: now,
+          resolution_notes: 'Our safety team has reviewed your report and taken appropriate action. Thank you for letting us know.',
+          updated_at: now
+        })
+        .eq('id', incident.ticket_id);
+    }
+
+    console.warn(`Safety incident ${incidentId} resolved by ${adminId}: ${action}`);
+    return { success: true, data: (await getIncidentRow(incidentId))! };
+  } catch (error) {
+    console.error('Error resolving safety incident:', error);
+    return { success: false, error: 'Failed to resolve incident' };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+
+  const send = (result: SafetyResponse<any>) => res.status(result.success ? 200 : 400).json({
+    success: result.success,
+    data: result.success ? result.data : undefined,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    statusCode: result.success ? 200 : 400
+  });
+
+  const forbidden = () => res.status(403).json({
+    success: false,
+    error: 'You do not have permission for this action',
+    timestamp: new Date().toISOString(),
+    statusCode: 403
+  });
+
+  try {
+    // Any signed-in rider can report
+    if (method === 'POST' && url === '/api/safety/incidents') {
+      const reporter = await getAuthenticatedUser(req);
+      if (!reporter) {
+        return res.status(401).json({
+          success: false,
+          error: 'Please sign in to report a safety issue',
+          timestamp: new Date().toISOString(),
+          statusCode: 401
+        });
+      }
+      return send(await reportIncident(reporter.id, req.body));
+    }
+
+    if (method === 'POST' && url === '/api/safety/incidents/sos') {
+      const rider = await getAuthenticatedUser(req);
+      if (!rider) {
+        return res.status(401).json({
+          success: false,
+          error: 'Please sign in to send an SOS',
+          timestamp: new Date().toISOString(),
+          statusCode: 401
+        });
+      }
+      // Share links go to the emergency contact, so their host never comes from the request
+      if (!APP_URL) {
+        console.error('APP_URL is not configured');
+        return res.status(500).json({
+          success: false,
+          error: 'Trip sharing is not configured',
+          timestamp: new Date().toISOString(),
+          statusCode: 500
+        });
+      }
+      return send(await triggerSos(rider.id, req.body, APP_URL));
+    }
+
+    if (method === 'GET' && url === '/api/safety/incidents') {
+      if (!(await requirePermission(req, 'safety:manage_incidents'))) return forbidden();
+      return send(await listIncidents(req.query.status as string | undefined));
+    }
+
+    const incidentMatch = url.match(/^\/api\/safety\/incidents\/(\d+)(?:\/([a-z]+))?$/);
+    if (incidentMatch) {
+      const incidentId = parseInt(incidentMatch[1], 10);
+
+      if (method === 'GET' && !incidentMatch[2]) {
+        if (!(await requirePermission(req, 'safety:manage_incidents'))) return forbidden();
+        return send(await getIncident(incidentId));
+      }
+
+      if (method === 'POST' && incidentMatch[2] === 'freeze') {
+        const staff = await requirePermission(req, 'safety:manage_incidents');
+        if (!staff) return forbidden();
+        return send(await setFreeze(staff.id, incidentId, req.body?.frozen !== false));
+      }
+
+      if (method === 'POST' && incidentMatch[2] === 'resolve') {
+        const admin = await requirePermission(req, 'safety:resolve_incidents');
+        if (!admin) return forbidden();
+        return send(await resolveIncident(admin.id, incidentId, req.body));
+      }
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('Safety Incidents API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  SafetyIncident,
+  ReportRequestBody,
+  SosRequestBody,
+  SosResult,
+  ResolveRequestBody
+};
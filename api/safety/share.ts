@@ -0,0 +1,100 @@
+/**
+ * Trip Share API
+ * Vercel serverless function behind trip share links. Anyone with the link
+ * can read the trip and the sharer's last location until it expires; only
+ * the sharer can move the location.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../_lib/auth';
+import { getTripShareView, updateSharedLocation, TripShareView } from '../_lib/tripShares';
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+  const match = url.match(/^\/api\/safety\/share\/([a-f0-9]+)(\/location)?$/);
+
+  try {
+    if (match && method === 'GET' && !match[2]) {
+      const view = await getTripShareView(match[1]);
+      if (!view) {
+        return res.status(404).json({
+          success: false,
+          error: 'This trip link has expired or does not exist',
+          timestamp: new Date().toISOString(),
+          statusCode: 404
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: view,
+        timestamp: new Date().toISOString(),
+        statusCode: 200
+      });
+    }
+
+    if (match && method === 'POST' && match[2]) {
+      const user = await getAuthenticatedUser(req);
+      const { latitude, longitude, accuracy } = req.body || {};
+
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          error: 'Please sign in to share your location',
+          timestamp: new Date().toISOString(),
+          statusCode: 401
+        });
+      }
+      if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+        return res.status(400).json({
+          success: false,
+          error: 'latitude and longitude are required',
+          timestamp: new Date().toISOString(),
+          statusCode: 400
+        });
+      }
+
+      const updated = await updateSharedLocation(match[1], user.id, { latitude, longitude, accuracy });
+      return res.status(updated ? 200 : 404).json({
+        success: updated,
+        error: updated ? undefined : 'This trip link has expired or is not yours',
+        timestamp: new Date().toISOString(),
+        statusCode: updated ? 200 : 404
+      });
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('Trip Share API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  TripShareView
+};
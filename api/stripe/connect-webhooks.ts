@@ -0,0 +1,103 @@
+/**
+ * Stripe Connect Webhooks API Endpoint
+ * Vercel serverless function for events on drivers' connected accounts.
+ * Stripe sends these to a separate Connect endpoint with its own signing
+ * secret. account.updated keeps the driver's onboarding state current and
+ * payout events move payout_requests and their earnings to paid or failed.
+ */
+
+import Stripe from 'stripe';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { claimWebhookEvent, completeWebhookEvent, WebhookClaim } from '../_lib/webhookEvents';
+import { syncConnectAccount, recordPayoutPaid, recordPayoutFailed } from '../_lib/driverPayouts';
+
+// Initialize Stripe with secret key from environment
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+const endpointSecret = process.env.STRIPE_CONNECT_WEBHOOK_SECRET!;
+
+// Signatures are computed over the raw payload, so Vercel must not parse it
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+async function readRawBody(req: VercelRequest): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Main Vercel serverless function handler
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const sig = req.headers['stripe-signature'] as string;
+  let event: Stripe.Event;
+
+  try {
+    // Verify webhook signature
+    event = stripe.webhooks.constructEvent(
+      await readRawBody(req),
+      sig,
+      endpointSecret
+    );
+  } catch (err) {
+    console.error('Connect webhook signature verification failed:', err);
+    return res.status(400).json({ error: 'Webhook signature verification failed' });
+  }
+
+  let claim: WebhookClaim;
+  try {
+    claim = await claimWebhookEvent('stripe', event.id, event.type);
+  } catch (error) {
+    console.error('Failed to record webhook event:', error);
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+
+  if (claim === 'in_progress') {
+    // Not acknowledged, so the provider retries and can take over if that delivery dies
+    console.log(`Webhook event ${event.id} is being processed by another delivery`);
+    return res.status(409).json({ error: 'Webhook event is already being processed' });
+  }
+
+  if (claim === 'duplicate') {
+    console.log(`Webhook event ${event.id} already processed`);
+    return res.status(200).json({ received: true, duplicate: true });
+  }
+
+  try {
+    switch (event.type) {
+      case 'account.updated':
+        await syncConnectAccount(event.data.object as Stripe.Account);
+        break;
+
+      case 'payout.paid':
+        await recordPayoutPaid(event.data.object as Stripe.Payout);
+        break;
+
+      case 'payout.failed':
+      case 'payout.canceled':
+        await recordPayoutFailed(stripe, event.data.object as Stripe.Payout);
+        break;
+
+      default:
+        console.log(`Unhandled Connect event type: ${event.type} (account ${event.account})`);
+    }
+
+    await completeWebhookEvent('stripe', event.id);
+    return res.status(200).json({ received: true });
+  } catch (error) {
+    console.error('Error processing Connect webhook:', error);
+    // Stripe retries on a non-2xx response; the failed claim lets the retry through
+    await completeWebhookEvent('stripe', event.id, error instanceof Error ? error.message : 'Webhook processing failed');
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Stripe Connect API
+ * Vercel serverless function for driver payout accounts: Express account
+ * onboarding, the Express dashboard (where drivers manage their bank
+ * details) and payout requests
+ */
+
+import Stripe from 'stripe';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../_lib/auth';
+import {
+  ConnectAccountStatus,
+  DriverPayoutResult,
+  getOrCreateConnectAccount,
+  syncConnectAccount,
+  createDriverPayout
+} from '../_lib/driverPayouts';
+
+// Initialize Stripe with secret key from environment
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Request interfaces; every route acts on the signed-in driver's own account
+interface OnboardingLinkRequest {
+  refresh_url: string;
+  return_url: string;
+}
+
+interface PayoutRequestBody {
+  amount?: number;
+}
+
+interface ConnectResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Onboarding state of the driver's connected account, creating it if needed
+ */
+export async function getAccountStatus(userId: string): Promise<ConnectResponse<ConnectAccountStatus>> {
+  try {
+    if (!userId) {
+      return { success: false, error: 'user_id is required' };
+    }
+
+    const account = await getOrCreateConnectAccount(stripe, userId);
+    return { success: true, data: await syncConnectAccount(account) };
+  } catch (error) {
+    console.error('Error getting Connect account:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get payout account'
+    };
+  }
+}
+
+/**
+ * Link to Stripe's hosted onboarding for the driver's Express account
+ */
+export async function createOnboardingLink(userId: string, data: OnboardingLinkRequest): Promise<ConnectResponse<{ url: string }>> {
+  try {
+    if (!userId || !data?.refresh_url || !data?.return_url) {
+      return { success: false, error: 'refresh_url and return_url are required' };
+    }
+
+    const account = await getOrCreateConnectAccount(stripe, userId);
+    const link = await stripe.accountLinks.create({
+      account: account.id,
+      refresh_url: data.refresh_url,
+      return_url: data.return_url,
+      type: 'account_onboarding',
+    });
+
+    return { success: true, data: { url: link.url } };
+  } catch (error) {
+    console.error('Error creating onboarding link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start payout setup'
+    };
+  }
+}
+
+/**
+ * Link to the Express dashboard, where the driver updates bank details and sees payouts
+ */
+export async function createDashboardLink(userId: string): Promise<ConnectResponse<{ url: string }>> {
+  try {
+    if (!userId) {
+      return { success: false, error: 'user_id is required' };
+    }
+
+    const account = await getOrCreateConnectAccount(stripe, userId);
+    if (!account.details_submitted) {
+      return { success: false, error: 'Finish setting up payouts first' };
+    }
+
+    const link = await stripe.accounts.createLoginLink(account.id);
+    return { success: true, data: { url: link.url } };
+  } catch (error) {
+    console.error('Error creating dashboard link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to open payout dashboard'
+    };
+  }
+}
+
+/**
+ * Pay out the driver's available earnings now
+ */
+export async function requestPayout(userId: string, data: PayoutRequestBody): Promise<DriverPayoutResult> {
+  try {
+    if (!userId) {
+      return { success: false, error: 'user_id is required' };
+    }
+
+    const amount = data?.amount ?? undefined;
+    if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+      return { success: false, error: 'Invalid payout amount' };
+    }
+
+    return await createDriverPayout(stripe, userId, amount);
+  } catch (error) {
+    console.error('Error requesting payout:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to request payout'
+    };
+  }
+}
+
+/**
+ * Main handler function for Vercel
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const { method } = req;
+  const url = (req.url || '').split('?')[0];
+
+  const send = (result: ConnectResponse<any>) => res.status(result.success ? 200 : 400).json({
+    success: result.success,
+    data: result.success ? result.data : undefined,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    statusCode: result.success ? 200 : 400
+  });
+
+  try {
+    // The account is always the caller's own; a user id from the request is never trusted
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Sign in required',
+        timestamp: new Date().toISOString(),
+        statusCode: 401
+      });
+    }
+
+    if (method === 'GET' && url === '/api/stripe/connect/account') {
+      return send(await getAccountStatus(user.id));
+    }
+
+    if (method === 'POST' && url === '/api/stripe/connect/onboarding-links') {
+      return send(await createOnboardingLink(user.id, req.body));
+    }
+
+    if (method === 'POST' && url === '/api/stripe/connect/dashboard-links') {
+      return send(await createDashboardLink(user.id));
+    }
+
+    if (method === 'POST' && url === '/api/stripe/connect/payouts') {
+      const result = await requestPayout(user.id, req.body);
+      return send({ success: result.success, data: { payout_request: result.payout_request }, error: result.error });
+    }
+
+    return res.status(404).json({
+      success: false,
+      error: 'Endpoint not found',
+      timestamp: new Date().toISOString(),
+      statusCode: 404
+    });
+
+  } catch (error) {
+    console.error('Stripe Connect API Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date().toISOString(),
+      statusCode: 500
+    });
+  }
+}
+
+// Export types for client use
+export type {
+  OnboardingLinkRequest,
+  PayoutRequestBody
+};
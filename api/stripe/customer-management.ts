@@ -5,6 +5,8 @@
 
 import Stripe from 'stripe';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getOrCreateStripeCustomer } from '../_lib/stripeCustomers';
+import { getAuthenticatedUser } from '../_lib/auth';
 
 // Initialize Stripe with secret key from environment
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -348,18 +350,15 @@ export async function getPaymentMethod(paymentMethodId: string): Promise<Payment
 /**
  * Create Setup Intent for Saving Payment Methods
  * POST /api/stripe/setup-intents
+ * Always for the signed-in user's own customer, created if needed. Cards
+ * saved this way can renew the user's payment holds off-session.
  */
 export async function createSetupIntent(
-  customerId: string,
+  userId: string,
   paymentMethodTypes: string[] = ['card']
 ): Promise<{ success: boolean; setup_intent?: Stripe.SetupIntent; client_secret?: string; error?: string }> {
   try {
-    if (!customerId) {
-      return {
-        success: false,
-        error: 'Customer ID is required'
-      };
-    }
+    const customerId = await getOrCreateStripeCustomer(stripe, userId);
 
     const setupIntent = await stripe.setupIntents.create({
       customer: customerId,
@@ -443,8 +442,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     if (method === 'POST' && url === '/api/stripe/setup-intents') {
-      const { customer_id, payment_method_types } = req.body;
-      const result = await createSetupIntent(customer_id, payment_method_types);
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          error: 'Please sign in to save a payment method',
+          timestamp: new Date().toISOString(),
+          statusCode: 401
+        });
+      }
+      const result = await createSetupIntent(user.id, req.body?.payment_method_types);
       return res.status(result.success ? 200 : 400).json({
         success: result.success,
         data: result.success ? { setup_intent: result.setup_intent, client_secret: result.client_secret } : undefined,
@@ -32,6 +32,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return customerHandler(req, res);
   }
 
+  if (url?.includes('/connect/webhooks')) {
+    const { default: connectWebhookHandler } = await import('./connect-webhooks');
+    return connectWebhookHandler(req, res);
+  }
+
+  if (url?.includes('/connect/')) {
+    const { default: connectHandler } = await import('./connect');
+    return connectHandler(req, res);
+  }
+
   if (url?.includes('/webhooks')) {
     const { default: webhookHandler } = await import('./webhooks');
     return webhookHandler(req, res);
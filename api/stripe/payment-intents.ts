@@ -5,6 +5,7 @@
 
 import Stripe from 'stripe';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getOrCreateStripeCustomer } from '../_lib/stripeCustomers';
 
 // Initialize Stripe with secret key from environment
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -95,6 +96,12 @@ export async function createPaymentIntent(
       },
     };
 
+    // Holds are renewed off-session before they expire, so keep the card on the passenger's customer
+    if (request.capture_method === 'manual') {
+      paymentIntentParams.customer = await getOrCreateStripeCustomer(stripe, request.user_id);
+      paymentIntentParams.setup_future_usage = 'off_session';
+    }
+
     // Use saved payment method if provided
     if (request.payment_method_id) {
       paymentIntentParams.payment_method = request.payment_method_id;
@@ -1,10 +1,24 @@
 /**
  * Stripe Webhooks API Endpoint
  * Vercel serverless function for handling Stripe webhook events
+ * Payment events bring payments, payment_holds and ride_bookings.payment_status
+ * in line with Stripe, covering outcomes the app never sees directly (3DS,
+ * async failures, dashboard refunds, disputes). Booking status is not changed
+ * here; the app's booking state machine owns it.
  */
 
 import Stripe from 'stripe';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../_lib/supabase';
+import { claimWebhookEvent, completeWebhookEvent, WebhookClaim } from '../_lib/webhookEvents';
+import { notifyPaymentEvent } from '../_lib/paymentNotifications';
+import {
+  SETTLED_PAYMENT_STATUSES,
+  OPEN_PAYMENT_STATUSES,
+  findPayment,
+  applyPaymentChange,
+  expirePendingBooking
+} from '../_lib/paymentRecords';
 
 // Initialize Stripe with secret key from environment
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -13,6 +27,26 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 
 const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET!;
 
+// Signatures are computed over the raw payload, so Vercel must not parse it
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+async function readRawBody(req: VercelRequest): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function getPaymentIntentId(value: string | Stripe.PaymentIntent | null): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
 /**
  * Handle Payment Intent Events
  */
@@ -20,27 +54,89 @@ async function handlePaymentIntentEvent(event: Stripe.Event) {
   const paymentIntent = event.data.object as Stripe.PaymentIntent;
   
   console.log(`PaymentIntent ${event.type}:`, paymentIntent.id);
+
+  const payment = await findPayment('payment_intent_id', paymentIntent.id);
+  if (!payment) {
+    console.log(`No payment record for ${paymentIntent.id}, ignoring ${event.type}`);
+    return;
+  }
   
   switch (event.type) {
+    case 'payment_intent.amount_capturable_updated':
+      // The hold is in place, e.g. after the passenger completed 3D Secure
+      if (payment.status !== 'requires_action') return;
+      await applyPaymentChange(payment, {
+        payment: { status: 'authorized' },
+        bookingPaymentStatus: 'authorized'
+      });
+      await notifyPaymentEvent('payment_authorized', payment.booking_id, payment.user_id);
+      break;
+
     case 'payment_intent.succeeded':
-      console.log(`Payment succeeded: ${paymentIntent.id}`);
-      // Here you would typically update your database
-      // with the successful payment information
+      if (SETTLED_PAYMENT_STATUSES.includes(payment.status)) return;
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'captured',
+          transaction_id: paymentIntent.id,
+          captured_at: new Date().toISOString()
+        },
+        holdStatus: 'captured',
+        bookingPaymentStatus: 'paid'
+      });
+      await notifyPaymentEvent('payment_captured', payment.booking_id, payment.user_id);
       break;
       
-    case 'payment_intent.payment_failed':
-      console.log(`Payment failed: ${paymentIntent.id}`);
-      // Handle failed payment
+    case 'payment_intent.payment_failed': {
+      if (!OPEN_PAYMENT_STATUSES.includes(payment.status)) return;
+      const failureMessage = paymentIntent.last_payment_error?.message;
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'failed',
+          failure_reason: failureMessage || 'Payment failed'
+        },
+        holdStatus: 'failed',
+        bookingPaymentStatus: 'failed'
+      });
+      await expirePendingBooking(payment.booking_id);
+      await notifyPaymentEvent(
+        'payment_failed',
+        payment.booking_id,
+        payment.user_id,
+        failureMessage ? `Your payment could not be processed: ${failureMessage}` : undefined
+      );
       break;
+    }
       
-    case 'payment_intent.canceled':
-      console.log(`Payment canceled: ${paymentIntent.id}`);
-      // Handle canceled payment
+    case 'payment_intent.canceled': {
+      // Already recorded when the app voided the hold itself
+      if (payment.status === 'cancelled' || payment.status === 'refunded') return;
+      const expired = paymentIntent.cancellation_reason === 'automatic';
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'cancelled',
+          refund_reason: expired ? 'expired' : paymentIntent.cancellation_reason || 'cancelled',
+          refunded_at: new Date().toISOString()
+        },
+        holdStatus: 'released',
+        bookingPaymentStatus: 'refunded'
+      });
+      await expirePendingBooking(payment.booking_id);
+      if (expired) {
+        await notifyPaymentEvent('payment_expired', payment.booking_id, payment.user_id);
+      } else {
+        await notifyPaymentEvent(
+          'payment_refunded',
+          payment.booking_id,
+          payment.user_id,
+          'Your payment authorization was released and you were not charged.'
+        );
+      }
       break;
+    }
       
     case 'payment_intent.requires_action':
       console.log(`Payment requires action: ${paymentIntent.id}`);
-      // Handle payment that requires additional action
+      // The passenger is completing authentication; amount_capturable_updated or payment_failed follows
       break;
   }
 }
@@ -121,12 +217,111 @@ async function handleChargeEvent(event: Stripe.Event) {
       break;
       
     case 'charge.failed':
+      // Recorded from payment_intent.payment_failed
       console.log(`Charge failed: ${charge.id}`);
       break;
       
     case 'charge.captured':
+      // Recorded from payment_intent.succeeded
       console.log(`Charge captured: ${charge.id}`);
       break;
+
+    case 'charge.refunded': {
+      const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+      const payment = paymentIntentId ? await findPayment('payment_intent_id', paymentIntentId) : null;
+      if (!payment) {
+        console.log(`No payment record for charge ${charge.id}, ignoring refund`);
+        return;
+      }
+
+      const amountRefunded = charge.amount_refunded / 100;
+      const latestRefundId = charge.refunds?.data?.[0]?.id;
+
+      if (charge.refunded) {
+        // Already recorded when the app issued the refund itself
+        if (payment.status === 'refunded') return;
+        await applyPaymentChange(payment, {
+          payment: {
+            status: 'refunded',
+            refund_id: latestRefundId || payment.refund_id,
+            refunded_amount: amountRefunded,
+            refunded_at: new Date().toISOString()
+          },
+          holdStatus: 'refunded',
+          bookingPaymentStatus: 'refunded'
+        });
+      } else {
+        if (Number(payment.refunded_amount || 0) >= amountRefunded) return;
+        await applyPaymentChange(payment, {
+          payment: {
+            refund_id: latestRefundId || payment.refund_id,
+            refunded_amount: amountRefunded,
+            refunded_at: new Date().toISOString()
+          },
+          bookingPaymentStatus: 'partially_refunded'
+        });
+      }
+
+      await notifyPaymentEvent(
+        'payment_refunded',
+        payment.booking_id,
+        payment.user_id,
+        `A refund of $${amountRefunded.toFixed(2)} has been issued to your original payment method.`
+      );
+      break;
+    }
+  }
+}
+
+/**
+ * Handle Dispute Events
+ */
+async function handleDisputeEvent(event: Stripe.Event) {
+  const dispute = event.data.object as Stripe.Dispute;
+
+  console.log(`Dispute ${event.type}:`, dispute.id);
+
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  const payment = paymentIntentId ? await findPayment('payment_intent_id', paymentIntentId) : null;
+  if (!payment) {
+    console.log(`No payment record for dispute ${dispute.id}, ignoring ${event.type}`);
+    return;
+  }
+
+  switch (event.type) {
+    case 'charge.dispute.created':
+      if (payment.status === 'disputed') return;
+      await applyPaymentChange(payment, {
+        payment: {
+          status: 'disputed',
+          dispute_id: dispute.id,
+          disputed_at: new Date().toISOString()
+        },
+        bookingPaymentStatus: 'disputed'
+      });
+      await notifyPaymentEvent('payment_disputed', payment.booking_id, payment.user_id);
+      break;
+
+    case 'charge.dispute.closed':
+      if (payment.status !== 'disputed') return;
+      if (dispute.status === 'won') {
+        await applyPaymentChange(payment, {
+          payment: { status: 'captured' },
+          bookingPaymentStatus: 'paid'
+        });
+      } else if (dispute.status === 'lost') {
+        await applyPaymentChange(payment, {
+          payment: {
+            status: 'refunded',
+            refund_reason: 'dispute_lost',
+            refunded_amount: dispute.amount / 100,
+            refunded_at: new Date().toISOString()
+          },
+          holdStatus: 'refunded',
+          bookingPaymentStatus: 'refunded'
+        });
+      }
+      break;
   }
 }
 
@@ -144,7 +339,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     // Verify webhook signature
     event = stripe.webhooks.constructEvent(
-      JSON.stringify(req.body),
+      await readRawBody(req),
       sig,
       endpointSecret
     );
@@ -153,10 +348,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(400).json({ error: 'Webhook signature verification failed' });
   }
 
+  let claim: WebhookClaim;
+  try {
+    claim = await claimWebhookEvent('stripe', event.id, event.type);
+  } catch (error) {
+    console.error('Failed to record webhook event:', error);
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+
+  if (claim === 'in_progress') {
+    // Not acknowledged, so the provider retries and can take over if that delivery dies
+    console.log(`Webhook event ${event.id} is being processed by another delivery`);
+    return res.status(409).json({ error: 'Webhook event is already being processed' });
+  }
+
+  if (claim === 'duplicate') {
+    console.log(`Webhook event ${event.id} already processed`);
+    return res.status(200).json({ received: true, duplicate: true });
+  }
+
   try {
     // Handle the event
     switch (event.type) {
       // Payment Intent events
+      case 'payment_intent.amount_capturable_updated':
       case 'payment_intent.succeeded':
       case 'payment_intent.payment_failed':
       case 'payment_intent.canceled':
@@ -187,16 +402,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case 'charge.succeeded':
       case 'charge.failed':
       case 'charge.captured':
+      case 'charge.refunded':
         await handleChargeEvent(event);
         break;
 
+      // Dispute events
+      case 'charge.dispute.created':
+      case 'charge.dispute.closed':
+        await handleDisputeEvent(event);
+        break;
+
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
 
+    await completeWebhookEvent('stripe', event.id);
     return res.status(200).json({ received: true });
   } catch (error) {
     console.error('Error processing webhook:', error);
+    // Stripe retries on a non-2xx response; the failed claim lets the retry through
+    await completeWebhookEvent('stripe', event.id, error instanceof Error ? error.message : 'Webhook processing failed');
     return res.status(500).json({ error: 'Webhook processing failed' });
   }
 }
\ No newline at end of file
@@ -18,10 +18,19 @@ import EarningsAnalyticsPage from './pages/EarningsAnalyticsPage';
 import PayoutHistoryPage from './pages/PayoutHistoryPage';
 import PaymentHistoryPage from './pages/PaymentHistoryPage';
 import ReviewHistoryPage from './pages/ReviewHistoryPage';
+import SavedSearchesPage from './pages/SavedSearchesPage';
+import RecurringRidesPage from './pages/RecurringRidesPage';
+import AdminLicenseReviewPage from './pages/AdminLicenseReviewPage';
+import SupportWorkspacePage from './pages/SupportWorkspacePage';
+import SafetyIncidentsPage from './pages/SafetyIncidentsPage';
+import TripSharePage from './pages/TripSharePage';
 
 // Layouts
 import DashboardLayout from './layouts/DashboardLayout';
 
+// Components
+import RoleRoute from './components/RoleRoute';
+
 function App() {
   const { initialize, user } = useAuthStore();
 
@@ -52,6 +61,7 @@ function App() {
           {/* Public Routes */}
           <Route path="/" element={<LandingPage />} />
           <Route path="/auth" element={<AuthPage />} />
+          <Route path="/share/:token" element={<TripSharePage />} />
           
           {/* Protected Dashboard Routes */}
           <Route path="/dashboard" element={<DashboardLayout />}>
@@ -78,7 +88,23 @@ function App() {
           <Route path="/payout-history" element={<PayoutHistoryPage />} />
           <Route path="/payment-history" element={<PaymentHistoryPage />} />
           <Route path="/review-history" element={<ReviewHistoryPage />} />
+          <Route path="/saved-searches" element={<SavedSearchesPage />} />
+          <Route path="/recurring-rides" element={<RecurringRidesPage />} />
           <Route path="/chat" element={<ChatPage />} />
+
+          {/* Staff routes */}
+          <Route path="/admin" element={<RoleRoute roles={['support_agent', 'finance', 'admin']} />}>
+            <Route index element={<Navigate to="/admin/support" replace />} />
+            <Route element={<RoleRoute permission="licenses:review" />}>
+              <Route path="licenses" element={<AdminLicenseReviewPage />} />
+            </Route>
+            <Route element={<RoleRoute permission="support:manage_tickets" />}>
+              <Route path="support" element={<SupportWorkspacePage />} />
+            </Route>
+            <Route element={<RoleRoute permission="safety:manage_incidents" />}>
+              <Route path="safety" element={<SafetyIncidentsPage />} />
+            </Route>
+          </Route>
           
           {/* Catch all route */}
           <Route path="*" element={<Navigate to="/" replace />} />
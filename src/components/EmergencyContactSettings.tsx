@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { HeartPulse, X, Check } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { SafetyIncidentService, EmergencyContact } from '../lib/safetyIncidentService';
+
+interface EmergencyContactSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EmergencyContactSettings: React.FC<EmergencyContactSettingsProps> = ({ isOpen, onClose }) => {
+  const { user } = useAuthStore();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [contact, setContact] = useState<EmergencyContact>({
+    emergency_contact_name: '',
+    emergency_contact_phone: '',
+    emergency_contact_email: '',
+  });
+
+  useEffect(() => {
+    if (isOpen && user) {
+      setLoading(true);
+      SafetyIncidentService.getEmergencyContact(user.id)
+        .then(setContact)
+        .finally(() => setLoading(false));
+    }
+  }, [isOpen, user]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (contact.emergency_contact_name.trim() && !contact.emergency_contact_phone.trim() && !contact.emergency_contact_email.trim()) {
+      alert('Add a phone number or email so we can reach your contact.');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await SafetyIncidentService.saveEmergencyContact(user.id, contact);
+    setSaving(false);
+
+    if (saved) {
+      onClose();
+    } else {
+      alert('Failed to save your emergency contact. Please try again.');
+    }
+  };
+
+  const handleChange = (field: keyof EmergencyContact, value: string) => {
+    setContact(prev => ({ ...prev, [field]: value }));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-2">
+              <HeartPulse className="text-red-600" size={24} />
+              <h2 className="text-xl font-bold text-gray-900">Emergency Contact</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={20} className="text-gray-500" />
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                If you press SOS during a trip, we'll send this person a link to follow the trip and your location.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={contact.emergency_contact_name}
+                  onChange={(e) => handleChange('emergency_contact_name', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Mobile Number</label>
+                <input
+                  type="tel"
+                  value={contact.emergency_contact_phone}
+                  onChange={(e) => handleChange('emergency_contact_phone', e.target.value)}
+                  placeholder="+1 555 123 4567"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+                <input
+                  type="email"
+                  value={contact.emergency_contact_email}
+                  onChange={(e) => handleChange('emergency_contact_email', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex space-x-3 pt-4 border-t">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-3 px-4 rounded-xl font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                >
+                  {saving ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                      <span>Saving...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Check size={16} />
+                      <span>Save Contact</span>
+                    </>
+                  )}
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-6 py-3 bg-gray-100 text-gray-700 rounded-xl font-medium hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyContactSettings;
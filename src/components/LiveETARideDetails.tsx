@@ -10,11 +10,16 @@ import {
   Edit,
   Activity,
   Navigation,
-  RefreshCw
+  RefreshCw,
+  MapPin
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { Ride, RideBooking } from '../types';
+import { useAuthStore } from '../store/authStore';
+import { Ride, RideBooking, CustomStopRequest } from '../types';
 import { calculateRealTimeETAs } from '../utils/distance';
+import { CustomStopService } from '../lib/customStopService';
+import { BookingAdjustmentService } from '../lib/bookingAdjustmentService';
+import SosButton from './SosButton';
 
 interface LiveETARideDetailsProps {
   ride: Ride;
@@ -22,9 +27,13 @@ interface LiveETARideDetailsProps {
   onClose: () => void;
   onEditRide?: (ride: Ride) => void;
   onUpdateRideStatus?: (rideId: number, status: string) => void;
+  onRideUpdated?: () => void; // Called after the ride's stops or bookings change
   activeTab: 'active' | 'completed';
 }
 
+// Bookings the driver can still shrink: fewer seats or an earlier drop-off
+const ADJUSTABLE_BOOKING_STATUSES = ['waitlisted', 'offered', 'pending', 'confirmed'];
+
 interface ETAData {
   stopIndex: number;
   stopName: string;
@@ -40,10 +49,16 @@ const LiveETARideDetails: React.FC<LiveETARideDetailsProps> = ({
   onClose,
   onEditRide,
   onUpdateRideStatus,
+  onRideUpdated,
   activeTab
 }) => {
   const navigate = useNavigate();
+  const { user } = useAuthStore();
   const [rideBookings, setRideBookings] = useState<RideBooking[]>([]);
+  const [stopRequests, setStopRequests] = useState<CustomStopRequest[]>([]);
+  const [respondingRequestId, setRespondingRequestId] = useState<number | null>(null);
+  const [adjusting, setAdjusting] = useState<{ bookingId: number; kind: 'seats' | 'dropoff'; value: number } | null>(null);
+  const [adjustmentSaving, setAdjustmentSaving] = useState(false);
   const [rideETAs, setRideETAs] = useState<ETAData[]>([]);
   const [etaLoading, setEtaLoading] = useState(false);
   const [lastETAUpdate, setLastETAUpdate] = useState<Date | null>(null);
@@ -80,6 +95,7 @@ const LiveETARideDetails: React.FC<LiveETARideDetailsProps> = ({
   useEffect(() => {
     if (isOpen && ride) {
       fetchRideBookings();
+      fetchStopRequests();
       calculateETAs();
     }
   }, [isOpen, ride]);
@@ -132,6 +148,75 @@ const LiveETARideDetails: React.FC<LiveETARideDetailsProps> = ({
     }
   };
 
+  const fetchStopRequests = async () => {
+    if (activeTab !== 'active') return;
+    setStopRequests(await CustomStopService.getPendingRequests(ride.id));
+  };
+
+  const handleStopRequest = async (request: CustomStopRequest, approve: boolean) => {
+    if (!user) return;
+
+    let reason: string | undefined;
+    if (!approve) {
+      reason = prompt('Reason for declining (optional):') || undefined;
+    }
+
+    setRespondingRequestId(request.id);
+    try {
+      const result = approve
+        ? await CustomStopService.approveRequest(request.id, user.id)
+        : await CustomStopService.rejectRequest(request.id, user.id, reason);
+
+      if (!result.success) {
+        alert(result.error || 'Failed to update stop request');
+        return;
+      }
+
+      if (approve) {
+        alert(`Stop added at ${extractCityName(request.address)}. ETAs have been updated.`);
+        onRideUpdated?.();
+      } else {
+        fetchStopRequests();
+      }
+    } finally {
+      setRespondingRequestId(null);
+    }
+  };
+
+  // Stops strictly between a booking's pickup and booked destination
+  const getEarlierStops = (booking: RideBooking) => {
+    const segments = [...(ride.ride_segments || [])].sort((a, b) => a.segment_order - b.segment_order);
+    const fromIndex = Math.max(segments.findIndex(segment => segment.id === booking.from_segment_id), 0);
+    const bookedToIndex = segments.findIndex(segment => segment.id === booking.to_segment_id);
+    const toIndex = bookedToIndex >= 0 ? bookedToIndex : segments.length - 1;
+    return segments.slice(fromIndex + 1, toIndex);
+  };
+
+  const handleAdjustBooking = async (booking: RideBooking) => {
+    if (!user || !adjusting || adjustmentSaving) return;
+
+    setAdjustmentSaving(true);
+    try {
+      const result = adjusting.kind === 'seats'
+        ? await BookingAdjustmentService.reduceSeats(booking.id, adjusting.value)
+        : await BookingAdjustmentService.endAtEarlierStop(booking.id, adjusting.value, user.id);
+
+      if (!result.success) {
+        alert(result.error || 'Failed to update booking');
+        return;
+      }
+
+      alert(result.refundAmount
+        ? `Booking updated. $${result.refundAmount.toFixed(2)} will be refunded to the passenger.`
+        : `Booking updated. The new total is $${(result.newAmount ?? 0).toFixed(2)}.`);
+      setAdjusting(null);
+      fetchRideBookings();
+      onRideUpdated?.();
+    } finally {
+      setAdjustmentSaving(false);
+    }
+  };
+
   const calculateETAs = async (isAutoRefresh = false) => {
     if (!isAutoRefresh) {
       setEtaLoading(true);
@@ -243,12 +328,15 @@ const LiveETARideDetails: React.FC<LiveETARideDetailsProps> = ({
               </div>
             )}
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-white rounded-full transition-colors shadow-sm"
-          >
-            <X size={24} className="text-gray-600" />
-          </button>
+          <div className="flex items-center space-x-2">
+            {activeTab === 'active' && <SosButton rideId={ride.id} />}
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white rounded-full transition-colors shadow-sm"
+            >
+              <X size={24} className="text-gray-600" />
+            </button>
+          </div>
         </div>
 
         <div className="p-6 space-y-6">
@@ -434,43 +522,145 @@ const LiveETARideDetails: React.FC<LiveETARideDetailsProps> = ({
             <div>
               <h4 className="font-bold text-gray-900 mb-4 text-lg">Passenger Bookings</h4>
               <div className="space-y-3">
-                {rideBookings.map((booking) => (
-                  <div key={booking.id} className="flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-blue-50 rounded-xl border border-gray-100">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center">
-                        <span className="text-white font-bold text-lg">
-                          {booking.passenger?.display_name?.[0]?.toUpperCase() || 'P'}
-                        </span>
+                {rideBookings.map((booking) => {
+                  const canAdjust = activeTab === 'active' && ADJUSTABLE_BOOKING_STATUSES.includes(booking.status);
+                  const earlierStops = canAdjust ? getEarlierStops(booking) : [];
+                  const isAdjusting = adjusting?.bookingId === booking.id;
+
+                  return (
+                    <div key={booking.id} className="p-4 bg-gradient-to-r from-gray-50 to-blue-50 rounded-xl border border-gray-100">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center">
+                            <span className="text-white font-bold text-lg">
+                              {booking.passenger?.display_name?.[0]?.toUpperCase() || 'P'}
+                            </span>
+                          </div>
+                          <div>
+                            <div className="font-semibold text-gray-900">
+                              {booking.passenger?.display_name || 'Passenger'}
+                            </div>
+                            <div className="text-sm text-gray-600">
+                              {booking.seats_booked} seat{booking.seats_booked > 1 ? 's' : ''} • ${booking.total_amount}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className={`px-3 py-1 rounded-full text-xs font-bold ${
+                            booking.status === 'confirmed' ? 'bg-green-100 text-green-800' :
+                            booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                            'bg-gray-100 text-gray-800'
+                          }`}>
+                            {booking.status.toUpperCase()}
+                          </span>
+                          <button 
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate('/chat', {
+                                state: {
+                                  bookingId: booking.id
+                                }
+                              });
+                            }}
+                            className="p-2 hover:bg-white rounded-full transition-colors"
+                          >
+                            <MessageCircle size={18} className="text-gray-600" />
+                          </button>
+                        </div>
                       </div>
-                      <div>
+
+                      {canAdjust && !isAdjusting && (booking.seats_booked > 1 || earlierStops.length > 0) && (
+                        <div className="flex space-x-2 mt-3">
+                          {booking.seats_booked > 1 && (
+                            <button
+                              onClick={() => setAdjusting({ bookingId: booking.id, kind: 'seats', value: booking.seats_booked - 1 })}
+                              className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-medium text-gray-700 hover:bg-gray-50"
+                            >
+                              Fewer seats
+                            </button>
+                          )}
+                          {earlierStops.length > 0 && (
+                            <button
+                              onClick={() => setAdjusting({ bookingId: booking.id, kind: 'dropoff', value: earlierStops[0].id })}
+                              className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-medium text-gray-700 hover:bg-gray-50"
+                            >
+                              Dropped off early
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {isAdjusting && adjusting && (
+                        <div className="flex items-center space-x-2 mt-3">
+                          <select
+                            value={adjusting.value}
+                            onChange={(e) => setAdjusting({ ...adjusting, value: Number(e.target.value) })}
+                            className="flex-1 px-3 py-1.5 border border-gray-200 rounded-lg text-sm bg-white"
+                          >
+                            {adjusting.kind === 'seats'
+                              ? Array.from({ length: booking.seats_booked - 1 }, (_, i) => i + 1).map(seats => (
+                                  <option key={seats} value={seats}>{seats} seat{seats > 1 ? 's' : ''}</option>
+                                ))
+                              : earlierStops.map(stop => (
+                                  <option key={stop.id} value={stop.id}>Dropped off at {extractCityName(stop.address)}</option>
+                                ))}
+                          </select>
+                          <button
+                            onClick={() => handleAdjustBooking(booking)}
+                            disabled={adjustmentSaving}
+                            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg text-sm font-medium"
+                          >
+                            {adjustmentSaving ? 'Saving...' : 'Save'}
+                          </button>
+                          <button
+                            onClick={() => setAdjusting(null)}
+                            disabled={adjustmentSaving}
+                            className="p-1.5 hover:bg-white rounded-full"
+                          >
+                            <X size={16} className="text-gray-500" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Custom Stop Requests */}
+          {stopRequests.length > 0 && (
+            <div>
+              <h4 className="font-bold text-gray-900 mb-4 text-lg">Stop Requests</h4>
+              <div className="space-y-3">
+                {stopRequests.map((request) => (
+                  <div key={request.id} className="p-4 bg-gradient-to-r from-yellow-50 to-orange-50 rounded-xl border border-yellow-200">
+                    <div className="flex items-start space-x-3">
+                      <MapPin size={18} className="text-orange-600 mt-1 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
                         <div className="font-semibold text-gray-900">
-                          {booking.passenger?.display_name || 'Passenger'}
+                          {request.passenger?.display_name || 'Passenger'} • {request.stop_type === 'pickup' ? 'Pickup' : 'Drop-off'}
                         </div>
-                        <div className="text-sm text-gray-600">
-                          {booking.seats_booked} seat{booking.seats_booked > 1 ? 's' : ''} • ${booking.total_amount}
+                        <div className="text-sm text-gray-700 truncate">{request.address}</div>
+                        <div className="text-sm text-orange-700 font-medium">
+                          +{request.detour_minutes} min • +{request.detour_km} km
                         </div>
                       </div>
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <span className={`px-3 py-1 rounded-full text-xs font-bold ${
-                        booking.status === 'confirmed' ? 'bg-green-100 text-green-800' :
-                        booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                        'bg-gray-100 text-gray-800'
-                      }`}>
-                        {booking.status.toUpperCase()}
-                      </span>
-                      <button 
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          navigate('/chat', {
-                            state: {
-                              bookingId: booking.id
-                            }
-                          });
-                        }}
-                        className="p-2 hover:bg-white rounded-full transition-colors"
+                    <div className="flex space-x-2 mt-3">
+                      <button
+                        onClick={() => handleStopRequest(request, true)}
+                        disabled={respondingRequestId !== null}
+                        className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white py-2 px-3 rounded-lg text-sm font-semibold transition-colors"
+                      >
+                        {respondingRequestId === request.id ? 'Updating...' : 'Approve'}
+                      </button>
+                      <button
+                        onClick={() => handleStopRequest(request, false)}
+                        disabled={respondingRequestId !== null}
+                        className="flex-1 bg-white hover:bg-gray-100 disabled:opacity-50 text-gray-700 border border-gray-300 py-2 px-3 rounded-lg text-sm font-semibold transition-colors"
                       >
-                        <MessageCircle size={18} className="text-gray-600" />
+                        Decline
                       </button>
                     </div>
                   </div>
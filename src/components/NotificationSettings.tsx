@@ -10,7 +10,8 @@ import {
   Check,
   X,
   Settings,
-  Shield
+  Shield,
+  Search
 } from 'lucide-react';
 import NotificationService, { NotificationSettings as INotificationSettings } from '../lib/notificationService';
 
@@ -27,6 +28,7 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
     paymentNotifications: true,
     licenseExpirationNotifications: true,
     supportTicketNotifications: true,
+    rideAlertNotifications: true,
     soundEnabled: true,
   });
   
@@ -91,6 +93,16 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
       case 'payment':
         await notificationService.showPaymentNotification(32.75, 'received');
         break;
+      case 'rideAlert':
+        await notificationService.showRideAlertNotification({
+          id: 0,
+          ride_id: 0,
+          pickup_address: 'Kitchener',
+          dropoff_address: 'Toronto',
+          pickup_time: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+          segment_price: 18.5
+        });
+        break;
       case 'license':
         await notificationService.showLicenseExpirationNotification(
           'warning',
@@ -301,6 +313,34 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
                 </div>
               </div>
 
+              {/* Saved Search Alerts */}
+              <div className="flex items-center justify-between p-4 bg-indigo-50 rounded-xl">
+                <div className="flex items-center space-x-3">
+                  <Search className="text-indigo-600" size={20} />
+                  <div>
+                    <div className="font-medium text-gray-900">Ride Alerts</div>
+                    <div className="text-sm text-gray-600">New rides that match your saved searches</div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => testNotification('rideAlert')}
+                    className="px-3 py-1 text-xs bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 transition-colors"
+                  >
+                    Preview
+                  </button>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.rideAlertNotifications}
+                      onChange={(e) => handleSettingChange('rideAlertNotifications', e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+                  </label>
+                </div>
+              </div>
+
               {/* License Expiration Notifications */}
               <div className="flex items-center justify-between p-4 bg-orange-50 rounded-xl">
                 <div className="flex items-center space-x-3">
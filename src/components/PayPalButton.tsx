@@ -1,6 +1,7 @@
 import React from 'react';
 import { PayPalButtons, usePayPalScriptReducer } from '@paypal/react-paypal-js';
 import { PayPalService, PayPalPaymentData } from '../lib/paypalService';
+import { PaymentHoldService } from '../lib/paymentHoldService';
 
 interface PayPalButtonProps {
   amount: number;
@@ -8,6 +9,8 @@ interface PayPalButtonProps {
   bookingId?: number;
   userId?: string;
   intent?: 'capture' | 'authorize';
+  promoCode?: string; // Authorize only: applied before the hold, like creditAmount
+  creditAmount?: number;
   onSuccess: (paymentData: any) => void;
   onError: (error: any) => void;
   onCancel?: () => void;
@@ -28,6 +31,8 @@ const PayPalButton: React.FC<PayPalButtonProps> = ({
   bookingId,
   userId,
   intent = 'capture',
+  promoCode,
+  creditAmount,
   onSuccess,
   onError,
   onCancel,
@@ -59,14 +64,19 @@ const PayPalButton: React.FC<PayPalButtonProps> = ({
         console.log('⚠️ SANDBOX PayPal payment - test mode only');
       }
       if (intent === 'authorize' && bookingId && userId) {
-        // Create payment hold for ride authorization
-        const paymentHold = await PayPalService.createPaymentHold(
+        // Create payment hold for ride authorization; the payer approves the order next
+        const paymentHold = await PaymentHoldService.createPaymentHold({
           amount,
-          currency,
+          paymentMethod: { id: '', type: 'paypal' },
           bookingId,
-          userId
-        );
-        return paymentHold.orderId;
+          userId,
+          promoCode,
+          creditAmount
+        });
+        if (!paymentHold.success || !paymentHold.authorizationId) {
+          throw new Error(paymentHold.error || 'Failed to create PayPal payment hold');
+        }
+        return paymentHold.authorizationId;
       } else {
         // Regular payment creation
         const order = await PayPalService.createOrder(amount, currency);
@@ -82,21 +92,23 @@ const PayPalButton: React.FC<PayPalButtonProps> = ({
   const onApprove = async (data: any) => {
     try {
       if (intent === 'authorize' && bookingId && userId) {
-        // Process authorization for payment hold
-        const paymentData = await PayPalService.processAuthorization(
-          data.orderID,
-          bookingId,
-          userId
-        );
+        // Authorize the approved order and record the hold
+        const paymentHold = await PaymentHoldService.confirmPaymentHold(bookingId);
+        if (!paymentHold.success) {
+          throw new Error(paymentHold.error || 'PayPal authorization failed');
+        }
 
         onSuccess({
-          paymentIntentId: paymentData.authorizationId,
-          transactionId: paymentData.orderId,
+          paymentIntentId: paymentHold.authorizationId,
+          paymentId: paymentHold.paymentId,
+          transactionId: data.orderID,
           paymentMethod: 'paypal',
-          amount: paymentData.amount,
-          currency: paymentData.currency,
-          status: 'requires_capture',
-          authorization_id: paymentData.authorizationId,
+          amount: amount,
+          currency: currency,
+          status: 'authorized',
+          authorization_id: paymentHold.authorizationId,
+          expiresAt: paymentHold.expiresAt,
+          isHold: true,
         });
       } else if (bookingId && userId) {
         // Process regular payment for ride booking
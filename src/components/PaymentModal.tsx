@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { X, CreditCard, Lock, Check, Plus, Apple, Smartphone, Wallet } from 'lucide-react';
-import { PaymentHoldService, PaymentHoldData } from '../lib/paymentHoldService';
+import { X, CreditCard, Lock, Check, Plus, Apple, Smartphone, Wallet, Tag, Gift } from 'lucide-react';
+import { PaymentHoldService, PaymentHoldData, MIN_CHARGE_AMOUNT } from '../lib/paymentHoldService';
+import { PromoCodeService } from '../lib/promoCodeService';
+import { CreditWalletService } from '../lib/creditWalletService';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import PayPalButton from './PayPalButton';
@@ -48,6 +50,19 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
     name: '',
   });
   const [savePaymentMethod, setSavePaymentMethod] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<{ code: string; discount: number } | null>(null);
+  const [promoError, setPromoError] = useState('');
+  const [checkingPromo, setCheckingPromo] = useState(false);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [useCredit, setUseCredit] = useState(false);
+
+  // Promo codes and credit only apply to payment holds for a booking
+  const discountsEnabled = usePaymentHold && !!bookingId && !!userId;
+  const discountable = Math.max(Math.round((amount - MIN_CHARGE_AMOUNT) * 100) / 100, 0);
+  const promoDiscount = appliedPromo ? Math.min(appliedPromo.discount, discountable) : 0;
+  const creditApplied = useCredit ? Math.round(Math.min(creditBalance, discountable - promoDiscount) * 100) / 100 : 0;
+  const chargeAmount = Math.round((amount - promoDiscount - creditApplied) * 100) / 100;
 
   // Load saved payment methods on component mount
   useEffect(() => {
@@ -56,6 +71,36 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
     }
   }, [user]);
 
+  useEffect(() => {
+    if (discountsEnabled) {
+      CreditWalletService.getBalance(userId!).then(setCreditBalance);
+    }
+  }, [discountsEnabled, userId]);
+
+  const handleApplyPromo = async () => {
+    if (!userId || !promoInput.trim()) return;
+
+    setCheckingPromo(true);
+    setPromoError('');
+    try {
+      const validation = await PromoCodeService.validateCode(promoInput, amount);
+      if (validation.valid && validation.promo) {
+        setAppliedPromo({ code: validation.promo.code, discount: validation.discount || 0 });
+      } else {
+        setAppliedPromo(null);
+        setPromoError(validation.error || 'That promo code cannot be used');
+      }
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoInput('');
+    setPromoError('');
+  };
+
   const fetchSavedPaymentMethods = async () => {
     if (!user) return;
 
@@ -198,14 +243,24 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
           amount: amount,
           paymentMethod: paymentMethodData,
           bookingId: bookingId,
-          userId: userId
+          userId: userId,
+          promoCode: appliedPromo?.code,
+          creditAmount: creditApplied || undefined
         };
 
         console.log('PaymentModal - Payment hold data:', holdData);
 
-        const result = await PaymentHoldService.createPaymentHold(holdData);
+        let result = await PaymentHoldService.createPaymentHold(holdData);
         
         console.log('PaymentModal - Payment hold result:', result);
+
+        // The card asked for 3D Secure; the hold only counts once the passenger passes it
+        if (result.success && result.requiresAction && result.clientSecret) {
+          const { stripeAPIClient } = await import('../lib/stripeApiClient');
+          await stripeAPIClient.handleCardAction(result.clientSecret);
+          const confirmed = await PaymentHoldService.confirmPaymentHold(bookingId);
+          result = { ...confirmed, discountAmount: result.discountAmount, chargedAmount: result.chargedAmount };
+        }
         
         if (result.success) {
           console.log('PaymentModal - Payment hold created successfully');
@@ -223,7 +278,8 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
             transactionId: null, // No transaction yet, only authorization
             paymentMethod: selectedPaymentMethod ? selectedPaymentMethod.type : paymentMethod,
             paymentMethodId: paymentMethodData.id,
-            amount: amount,
+            amount: result.chargedAmount ?? amount,
+            discountAmount: result.discountAmount || 0,
             currency: 'USD',
             status: 'authorized', // Payment is held, not captured
             expiresAt: result.expiresAt,
@@ -372,15 +428,95 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
                   </p>
                 </div>
               )}
+              {(promoDiscount > 0 || creditApplied > 0) && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Ride Fare:</span>
+                    <span className="text-gray-900">${amount.toFixed(2)}</span>
+                  </div>
+                  {promoDiscount > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Promo ({appliedPromo?.code}):</span>
+                      <span>-${promoDiscount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {creditApplied > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>OnGoPool Credit:</span>
+                      <span>-${creditApplied.toFixed(2)}</span>
+                    </div>
+                  )}
+                </>
+              )}
               <div className="flex justify-between border-t border-gray-200 pt-2 mt-3">
                 <span className="font-semibold text-gray-900">
                   {usePaymentHold ? 'Authorization Amount:' : 'Total Amount:'}
                 </span>
-                <span className="font-bold text-gray-900">${amount.toFixed(2)}</span>
+                <span className="font-bold text-gray-900">${chargeAmount.toFixed(2)}</span>
               </div>
             </div>
           </div>
 
+          {/* Promo Code and Credit */}
+          {discountsEnabled && (
+            <div className="space-y-3">
+              {appliedPromo ? (
+                <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+                  <div className="flex items-center space-x-2 text-sm text-green-800">
+                    <Tag size={16} />
+                    <span><span className="font-medium">{appliedPromo.code}</span> applied</span>
+                  </div>
+                  <button
+                    onClick={handleRemovePromo}
+                    disabled={processing}
+                    className="text-sm text-green-700 hover:text-green-900 font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <div>
+                  <div className="flex space-x-2">
+                    <div className="relative flex-1">
+                      <Tag size={16} className="absolute left-3 top-3 text-gray-400" />
+                      <input
+                        type="text"
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                        placeholder="Promo or referral code"
+                        className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <button
+                      onClick={handleApplyPromo}
+                      disabled={checkingPromo || processing || !promoInput.trim()}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium disabled:opacity-50"
+                    >
+                      {checkingPromo ? 'Checking...' : 'Apply'}
+                    </button>
+                  </div>
+                  {promoError && <p className="text-sm text-red-600 mt-1">{promoError}</p>}
+                </div>
+              )}
+
+              {creditBalance > 0 && (
+                <label className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 cursor-pointer">
+                  <div className="flex items-center space-x-2 text-sm text-gray-700">
+                    <Gift size={16} className="text-purple-600" />
+                    <span>Use my credit (${creditBalance.toFixed(2)} available)</span>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={useCredit}
+                    onChange={(e) => setUseCredit(e.target.checked)}
+                    disabled={processing}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                </label>
+              )}
+            </div>
+          )}
+
           {/* Payment Method Selection */}
           {loadingPaymentMethods ? (
             <div className="text-center py-8">
@@ -580,6 +716,8 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
                           intent={usePaymentHold ? 'authorize' : 'capture'}
                           bookingId={bookingId}
                           userId={userId}
+                          promoCode={discountsEnabled ? appliedPromo?.code : undefined}
+                          creditAmount={discountsEnabled && creditApplied > 0 ? creditApplied : undefined}
                           onSuccess={(paymentData) => {
                             // Save payment method if this is the first PayPal transaction
                             if (savedPaymentMethods.filter(m => m.type === 'paypal').length === 0) {
@@ -648,7 +786,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
                   <div className="flex items-center justify-center space-x-2">
                     <Lock size={16} />
                     <span>
-                      {usePaymentHold ? `Authorize $${amount.toFixed(2)}` : `Pay $${amount.toFixed(2)}`}
+                      {usePaymentHold ? `Authorize $${chargeAmount.toFixed(2)}` : `Pay $${chargeAmount.toFixed(2)}`}
                     </span>
                   </div>
                 )}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   AlertTriangle,
   Bug,
@@ -13,6 +13,7 @@ import {
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
+import { SafetyIncidentService, ReportableRide } from '../lib/safetyIncidentService';
 
 interface ReportIssueProps {
   isOpen: boolean;
@@ -39,6 +40,19 @@ const ReportIssue: React.FC<ReportIssueProps> = ({ isOpen, onClose }) => {
     priority: 'medium',
     contactEmail: user?.email || '',
   });
+  const [reportableRides, setReportableRides] = useState<ReportableRide[]>([]);
+  const [rideId, setRideId] = useState('');
+  const [reportedUserId, setReportedUserId] = useState('');
+
+  const isSafety = report.type === 'safety';
+  const selectedRide = reportableRides.find(ride => String(ride.id) === rideId);
+
+  // Safety reports are tied to a ride and the person involved
+  useEffect(() => {
+    if (isOpen && isSafety && user) {
+      SafetyIncidentService.getReportableRides(user.id).then(setReportableRides);
+    }
+  }, [isOpen, isSafety, user]);
 
   const issueTypes = [
     { value: 'bug', label: 'Bug Report', icon: Bug, color: 'text-red-600', desc: 'Something isn\'t working correctly' },
@@ -66,6 +80,20 @@ const ReportIssue: React.FC<ReportIssueProps> = ({ isOpen, onClose }) => {
     setSubmitting(true);
 
     try {
+      if (isSafety) {
+        // Safety reports open an incident and are escalated by the API
+        await SafetyIncidentService.report({
+          ride_id: rideId ? Number(rideId) : null,
+          reported_user_id: reportedUserId || null,
+          title: report.title,
+          description: report.description,
+          priority: report.priority === 'critical' ? 'critical' : 'high',
+          contact_email: report.contactEmail,
+        });
+        finishSubmit();
+        return;
+      }
+
       // Save the issue report to the support_tickets table in Supabase
       const issueData = {
         user_id: user?.id,
@@ -92,31 +120,46 @@ const ReportIssue: React.FC<ReportIssueProps> = ({ isOpen, onClose }) => {
 
       console.log('Support ticket created successfully:', data);
       
-      setSubmitted(true);
-      
-      // Reset form after a delay
-      setTimeout(() => {
-        setSubmitted(false);
-        setReport({
-          type: 'bug',
-          title: '',
-          description: '',
-          priority: 'medium',
-          contactEmail: user?.email || '',
-        });
-        onClose();
-      }, 3000);
+      finishSubmit();
 
     } catch (error) {
       console.error('Error submitting issue report:', error);
-      alert('Failed to submit report. Please try again or contact support directly.');
+      alert(isSafety && error instanceof Error
+        ? error.message
+        : 'Failed to submit report. Please try again or contact support directly.');
     } finally {
       setSubmitting(false);
     }
   };
 
+  const finishSubmit = () => {
+    setSubmitted(true);
+
+    // Reset form after a delay
+    setTimeout(() => {
+      setSubmitted(false);
+      setReport({
+        type: 'bug',
+        title: '',
+        description: '',
+        priority: 'medium',
+        contactEmail: user?.email || '',
+      });
+      setRideId('');
+      setReportedUserId('');
+      onClose();
+    }, 3000);
+  };
+
   const handleInputChange = (field: keyof IssueReport, value: string) => {
-    setReport(prev => ({ ...prev, [field]: value }));
+    setReport(prev => {
+      const next = { ...prev, [field]: value };
+      // Safety reports are never below high priority
+      if (next.type === 'safety' && (next.priority === 'low' || next.priority === 'medium')) {
+        next.priority = 'high';
+      }
+      return next;
+    });
   };
 
   if (!isOpen) return null;
@@ -202,8 +245,15 @@ const ReportIssue: React.FC<ReportIssueProps> = ({ isOpen, onClose }) => {
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 Priority Level
               </label>
+              {isSafety && (
+                <div className="text-xs text-orange-700 mb-2">
+                  Safety reports are always handled as high priority or above.
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-2">
-                {priorityLevels.map((priority) => (
+                {priorityLevels
+                  .filter((priority) => !isSafety || priority.value === 'high' || priority.value === 'critical')
+                  .map((priority) => (
                   <label
                     key={priority.value}
                     className={`flex items-center p-3 border rounded-lg cursor-pointer transition-all ${
@@ -229,6 +279,58 @@ const ReportIssue: React.FC<ReportIssueProps> = ({ isOpen, onClose }) => {
               </div>
             </div>
 
+            {/* Ride and person involved */}
+            {isSafety && (
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="safetyRide" className="block text-sm font-medium text-gray-700 mb-2">
+                    Which ride was this about?
+                  </label>
+                  <select
+                    id="safetyRide"
+                    value={rideId}
+                    onChange={(e) => {
+                      setRideId(e.target.value);
+                      setReportedUserId('');
+                    }}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Not about a specific ride</option>
+                    {reportableRides.map((ride) => (
+                      <option key={ride.id} value={ride.id}>
+                        {ride.from_location} → {ride.to_location} ({new Date(ride.departure_time).toLocaleDateString()})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {selectedRide && selectedRide.parties.length > 0 && (
+                  <div>
+                    <label htmlFor="safetyPerson" className="block text-sm font-medium text-gray-700 mb-2">
+                      Person involved
+                    </label>
+                    <select
+                      id="safetyPerson"
+                      value={reportedUserId}
+                      onChange={(e) => setReportedUserId(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">No one in particular</option>
+                      {selectedRide.parties.map((party) => (
+                        <option key={party.id} value={party.id}>
+                          {party.display_name || 'Unnamed user'} ({party.role})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="text-xs text-gray-500">
+                  Our safety team reviews every report. If you are in immediate danger, call your local emergency number.
+                </div>
+              </div>
+            )}
+
             {/* Title */}
             <div>
               <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
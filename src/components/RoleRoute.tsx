@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { Navigate, Outlet } from 'react-router-dom';
+import { useAuthStore } from '../store/authStore';
+import { RoleService } from '../lib/roleService';
+import { UserRole, Permission } from '../types';
+
+interface RoleRouteProps {
+  roles?: UserRole[];
+  permission?: Permission;
+}
+
+// Renders the nested routes only for signed-in users with one of the roles
+// and, when given, the permission
+const RoleRoute: React.FC<RoleRouteProps> = ({ roles, permission }) => {
+  const { user, loading } = useAuthStore();
+  const [allowed, setAllowed] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setAllowed(loading ? null : false);
+      return;
+    }
+
+    setAllowed(null);
+    Promise.all([
+      roles ? RoleService.hasRole(user.id, roles) : true,
+      permission ? RoleService.can(user.id, permission) : true
+    ]).then(checks => setAllowed(checks.every(Boolean)));
+  }, [user?.id, loading, roles?.join(','), permission]);
+
+  if (allowed === null) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-500 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return allowed ? <Outlet /> : <Navigate to={user ? '/dashboard' : '/auth'} replace />;
+};
+
+export default RoleRoute;
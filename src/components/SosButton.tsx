@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Siren, X, Phone, MapPin, CheckCircle, AlertTriangle, Copy } from 'lucide-react';
+import { SafetyIncidentService, SosResult } from '../lib/safetyIncidentService';
+
+interface SosButtonProps {
+  rideId: number;
+}
+
+// How often the shared location follows the device after an SOS
+const LOCATION_UPDATE_MS = 60 * 1000;
+
+const SosButton: React.FC<SosButtonProps> = ({ rideId }) => {
+  const navigate = useNavigate();
+  const [step, setStep] = useState<'closed' | 'confirm' | 'sending' | 'sent'>('closed');
+  const [message, setMessage] = useState('');
+  const [result, setResult] = useState<SosResult | null>(null);
+  const [locationShared, setLocationShared] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  // Keep the emergency contact's view of the trip current while this is open
+  useEffect(() => {
+    if (step !== 'sent' || !result) return;
+
+    const interval = setInterval(async () => {
+      const location = await SafetyIncidentService.getCurrentLocation();
+      if (!location) return;
+      try {
+        await SafetyIncidentService.updateSharedLocation(result.share_url, location);
+        setLocationShared(true);
+      } catch (error) {
+        console.error('Error updating shared location:', error);
+      }
+    }, LOCATION_UPDATE_MS);
+
+    return () => clearInterval(interval);
+  }, [step, result]);
+
+  const handleSend = async () => {
+    setStep('sending');
+    setError('');
+    try {
+      const location = await SafetyIncidentService.getCurrentLocation();
+      const sos = await SafetyIncidentService.triggerSos(rideId, location, message.trim() || undefined);
+      setResult(sos);
+      setLocationShared(!!location);
+      setStep('sent');
+    } catch (error) {
+      console.error('Error sending SOS:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send SOS');
+      setStep('confirm');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!result) return;
+    await navigator.clipboard.writeText(result.share_url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const close = () => {
+    setStep('closed');
+    setMessage('');
+    setResult(null);
+    setError('');
+  };
+
+  const renderResult = (sos: SosResult) => {
+    const delivered = sos.alerts.filter(alert => alert.delivered);
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start space-x-3 bg-green-50 border border-green-200 rounded-xl p-4">
+          <CheckCircle size={20} className="text-green-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-green-800">Our safety team has been alerted and will follow up.</p>
+        </div>
+
+        {sos.alerts.length === 0 ? (
+          <div className="flex items-start space-x-3 bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            <AlertTriangle size={20} className="text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-yellow-800">
+              <p>You have no emergency contact set, so no one else was alerted. Share the trip link below yourself.</p>
+              <button
+                onClick={() => navigate('/profile')}
+                className="mt-1 font-medium underline"
+              >
+                Add an emergency contact
+              </button>
+            </div>
+          </div>
+        ) : delivered.length > 0 ? (
+          <p className="text-sm text-gray-700">
+            {sos.contact_name || 'Your emergency contact'} was sent your trip link
+            {' '}by {delivered.map(alert => (alert.channel === 'sms' ? 'text' : 'email')).join(' and ')}.
+          </p>
+        ) : (
+          <p className="text-sm text-red-700">
+            We couldn't reach {sos.contact_name || 'your emergency contact'}. Share the trip link below yourself.
+          </p>
+        )}
+
+        <div className="flex items-center space-x-2 bg-gray-50 rounded-xl p-3">
+          <input
+            readOnly
+            value={sos.share_url}
+            className="flex-1 bg-transparent text-sm text-gray-700 truncate"
+          />
+          <button
+            onClick={handleCopy}
+            className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+          >
+            <Copy size={14} />
+            <span>{copied ? 'Copied' : 'Copy'}</span>
+          </button>
+        </div>
+
+        <p className="flex items-center space-x-2 text-xs text-gray-500">
+          <MapPin size={14} />
+          <span>
+            {locationShared
+              ? 'Your location is shared with the link while this window stays open.'
+              : 'Your location could not be determined. Check location permissions for this site.'}
+          </span>
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setStep('confirm')}
+        className="flex items-center space-x-1 px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-full text-sm font-bold shadow-sm transition-colors"
+      >
+        <Siren size={16} />
+        <span>SOS</span>
+      </button>
+
+      {step !== 'closed' && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+          <div className="bg-white rounded-2xl w-full max-w-md p-6 space-y-5">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Siren className="text-red-600" size={24} />
+                <h2 className="text-xl font-bold text-gray-900">{step === 'sent' ? 'SOS Sent' : 'Send SOS?'}</h2>
+              </div>
+              <button
+                onClick={close}
+                disabled={step === 'sending'}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50"
+              >
+                <X size={20} className="text-gray-500" />
+              </button>
+            </div>
+
+            <a
+              href="tel:911"
+              className="w-full flex items-center justify-center space-x-2 py-3 bg-red-50 border-2 border-red-200 text-red-700 rounded-xl font-semibold hover:bg-red-100"
+            >
+              <Phone size={18} />
+              <span>In immediate danger? Call 911</span>
+            </a>
+
+            {step === 'sent' && result ? renderResult(result) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  We'll alert our safety team with your location, and send your emergency contact a link to follow this trip.
+                </p>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={2}
+                  placeholder="What's happening? (optional)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+
+                {error && (
+                  <p className="text-sm text-red-700">{error}</p>
+                )}
+
+                <button
+                  onClick={handleSend}
+                  disabled={step === 'sending'}
+                  className="w-full flex items-center justify-center space-x-2 py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl font-bold disabled:opacity-50"
+                >
+                  {step === 'sending' ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                      <span>Sending...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Siren size={18} />
+                      <span>Send SOS</span>
+                    </>
+                  )}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SosButton;
@@ -9,11 +9,13 @@ import {
   User,
   RefreshCw,
   Plus,
-  Bell
+  Bell,
+  Send
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import NotificationService from '../lib/notificationService';
+import { SupportTicketService, TicketMessage } from '../lib/supportTicketService';
 
 interface SupportTicket {
   id: number;
@@ -41,6 +43,10 @@ const SupportTickets: React.FC<SupportTicketsProps> = ({ isOpen, onClose, onCrea
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [realTimeUpdates, setRealTimeUpdates] = useState(0);
+  const [expandedTicketId, setExpandedTicketId] = useState<number | null>(null);
+  const [replies, setReplies] = useState<TicketMessage[]>([]);
+  const [replyText, setReplyText] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
   const notificationService = NotificationService.getInstance();
 
   const statusColors = {
@@ -90,6 +96,9 @@ const SupportTickets: React.FC<SupportTicketsProps> = ({ isOpen, onClose, onCrea
   useEffect(() => {
     if (realTimeUpdates > 0 && isOpen) {
       fetchTickets();
+      if (expandedTicketId) {
+        fetchReplies(expandedTicketId);
+      }
     }
   }, [realTimeUpdates, isOpen]);
 
@@ -109,6 +118,14 @@ const SupportTickets: React.FC<SupportTicketsProps> = ({ isOpen, onClose, onCrea
         // Trigger a re-fetch of tickets
         setRealTimeUpdates(prev => prev + 1);
       })
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'support_ticket_replies'
+      }, () => {
+        // Only replies on the user's own tickets are delivered
+        setRealTimeUpdates(prev => prev + 1);
+      })
       .subscribe();
 
     // Store reference for cleanup
@@ -147,6 +164,36 @@ const SupportTickets: React.FC<SupportTicketsProps> = ({ isOpen, onClose, onCrea
     }
   };
 
+  const fetchReplies = async (ticketId: number) => {
+    setReplies(await SupportTicketService.getReplies(ticketId));
+  };
+
+  const toggleConversation = async (ticketId: number) => {
+    if (expandedTicketId === ticketId) {
+      setExpandedTicketId(null);
+      return;
+    }
+
+    setExpandedTicketId(ticketId);
+    setReplies([]);
+    setReplyText('');
+    await fetchReplies(ticketId);
+  };
+
+  const handleSendReply = async (ticketId: number) => {
+    if (!user || !replyText.trim()) return;
+
+    setSendingReply(true);
+    const reply = await SupportTicketService.addUserReply(ticketId, user.id, replyText);
+    if (reply) {
+      setReplies(prev => [...prev, reply]);
+      setReplyText('');
+    } else {
+      alert('Failed to send your reply. Please try again.');
+    }
+    setSendingReply(false);
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await fetchTickets();
@@ -280,7 +327,52 @@ const SupportTickets: React.FC<SupportTicketsProps> = ({ isOpen, onClose, onCrea
                       </div>
                     )}
 
+                    {expandedTicketId === ticket.id && (
+                      <div className="mt-4 space-y-3">
+                        {replies.length === 0 ? (
+                          <p className="text-sm text-gray-500">No replies yet. Our support team will answer here.</p>
+                        ) : replies.map(reply => (
+                          <div
+                            key={reply.id}
+                            className={`rounded-lg p-3 text-sm ${reply.from_staff ? 'bg-blue-50 border border-blue-100 mr-8' : 'bg-gray-50 border border-gray-200 ml-8'}`}
+                          >
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="font-medium text-gray-900">{reply.from_staff ? 'OnGoPool Support' : 'You'}</span>
+                              <span className="text-xs text-gray-500">{formatDate(reply.created_at)}</span>
+                            </div>
+                            <p className="text-gray-700 whitespace-pre-wrap">{reply.body}</p>
+                          </div>
+                        ))}
+
+                        {ticket.status !== 'closed' && (
+                          <div className="flex space-x-2">
+                            <textarea
+                              value={replyText}
+                              onChange={(e) => setReplyText(e.target.value)}
+                              rows={2}
+                              placeholder="Write a reply..."
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <button
+                              onClick={() => handleSendReply(ticket.id)}
+                              disabled={sendingReply || !replyText.trim()}
+                              className="self-end bg-blue-600 hover:bg-blue-700 text-white p-3 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              <Send size={16} />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+                      <button
+                        onClick={() => toggleConversation(ticket.id)}
+                        className="flex items-center text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        <MessageCircle size={14} className="mr-1" />
+                        {expandedTicketId === ticket.id ? 'Hide conversation' : 'View conversation'}
+                      </button>
                       <span>Last updated: {formatDate(ticket.updated_at)}</span>
                       {ticket.contact_email && (
                         <span>Contact: {ticket.contact_email}</span>
@@ -104,26 +104,13 @@ const TermsCheckbox: React.FC<TermsCheckboxProps> = ({
 
           <section>
             <h3 className="text-lg font-bold text-gray-900 mb-3">5. Cancellation and Refund Policy</h3>
-            <div className="space-y-3">
-              <div className="bg-blue-50 p-4 rounded-lg">
-                <h4 className="font-semibold text-blue-900 mb-2">Cancellation more than 12 hours before departure</h4>
-                <ul className="list-disc list-inside space-y-1 text-blue-800">
-                  <li>Full refund of the ride fare</li>
-                  <li>Service fees (if any) are non-refundable</li>
-                </ul>
-              </div>
-              <div className="bg-yellow-50 p-4 rounded-lg">
-                <h4 className="font-semibold text-yellow-900 mb-2">Cancellation between 6 and 12 hours before departure</h4>
-                <ul className="list-disc list-inside space-y-1 text-yellow-800">
-                  <li>50% refund of the ride fare</li>
-                  <li>Service fees (if any) are non-refundable</li>
-                </ul>
-              </div>
-              <div className="bg-red-50 p-4 rounded-lg">
-                <h4 className="font-semibold text-red-900 mb-2">Cancellation less than 6 hours before departure or no-show</h4>
-                <p className="text-red-800">No refund will be issued</p>
-              </div>
-            </div>
+            <ul className="list-disc list-inside space-y-2 text-gray-700">
+              <li>Each ride has a cancellation policy chosen by the driver (Flexible, Moderate or Strict), shown before you book.</li>
+              <li>The policy in effect when you book applies to that booking, even if it changes later.</li>
+              <li>Refunds depend on how long before departure you cancel; a short grace period after booking may apply.</li>
+              <li>If the driver cancels the ride, you are refunded according to the ride's policy.</li>
+              <li>Service fees (if any) are non-refundable.</li>
+            </ul>
           </section>
 
           <section>
@@ -0,0 +1,136 @@
+import { supabase } from './supabase';
+import { authenticatedApiRequest } from './staffApi';
+import { getMultiStopRouteInfo, calculateMultiSegmentPrice } from '../utils/distance';
+
+export interface BookingAdjustmentResult {
+  success: boolean;
+  booking?: any;
+  previousAmount?: number;
+  newAmount?: number;
+  refundAmount?: number;
+  error?: string;
+}
+
+/**
+ * Booking Adjustment Service
+ * Shrinks a booking without ending it, through the booking transitions API
+ * (api/_lib/bookingAdjustments): fewer seats, or a drop-off at an earlier
+ * stop than booked. The API settles the payment and updates the booking;
+ * only the shorter trip's price is worked out here, from the route. Status
+ * is untouched.
+ */
+export class BookingAdjustmentService {
+
+  /**
+   * Reduce the seats on a booking. The passenger or the ride's driver may do
+   * this; the API refunds the seats given up by the booking's cancellation policy.
+   */
+  static async reduceSeats(bookingId: number, seats: number): Promise<BookingAdjustmentResult> {
+    try {
+      const result = await authenticatedApiRequest<{ booking: any; previous_amount: number; new_amount: number; refund_amount: number }>(
+        `/api/bookings/${bookingId}/seats`,
+        { seats }
+      );
+
+      return {
+        success: true,
+        booking: result.booking,
+        previousAmount: result.previous_amount,
+        newAmount: result.new_amount,
+        refundAmount: result.refund_amount,
+      };
+    } catch (error) {
+      console.error('Error reducing booking seats:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update booking' };
+    }
+  }
+
+  /**
+   * Record that the driver dropped the passenger off at an earlier stop than booked.
+   * The booking is repriced for the shorter trip with the multi-segment fare,
+   * and the API refunds the difference.
+   */
+  static async endAtEarlierStop(bookingId: number, dropoffSegmentId: number, driverId: string): Promise<BookingAdjustmentResult> {
+    try {
+      const booking = await this.fetchBooking(bookingId);
+      if (!booking) {
+        return { success: false, error: 'Booking not found' };
+      }
+
+      if (booking.rides?.driver_id !== driverId) {
+        return { success: false, error: 'Only the driver can record an early drop-off' };
+      }
+
+      const { data: stops, error: stopsError } = await supabase
+        .from('ride_segments')
+        .select('id, segment_order, lat, lng')
+        .eq('ride_id', booking.ride_id)
+        .order('segment_order', { ascending: true });
+
+      if (stopsError) throw stopsError;
+      if (!stops || stops.length < 2) {
+        return { success: false, error: 'This ride has no stops to drop off at' };
+      }
+
+      const fromIndex = Math.max(stops.findIndex(stop => stop.id === booking.from_segment_id), 0);
+      const bookedToIndex = stops.findIndex(stop => stop.id === booking.to_segment_id);
+      const toIndex = bookedToIndex >= 0 ? bookedToIndex : stops.length - 1;
+      const dropoffIndex = stops.findIndex(stop => stop.id === dropoffSegmentId);
+
+      if (dropoffIndex <= fromIndex || dropoffIndex >= toIndex) {
+        return { success: false, error: 'The drop-off must be a stop between the passenger\'s pickup and booked destination' };
+      }
+
+      const routeInfo = await getMultiStopRouteInfo(stops.map(stop => ({ lat: stop.lat || 0, lng: stop.lng || 0 })));
+      const legDistances = (from: number, to: number) => routeInfo.segments
+        .filter(leg => leg.from >= from && leg.to <= to)
+        .map(leg => leg.distance);
+
+      if (routeInfo.totalDistance <= 0 || routeInfo.segments.length !== stops.length - 1) {
+        return { success: false, error: 'Could not price the shorter trip. Please try again.' };
+      }
+
+      // Scale the amount paid rather than repricing, so discounts and seat counts carry over
+      const pricePerSeat = booking.rides.price_per_seat;
+      const bookedPrice = calculateMultiSegmentPrice(pricePerSeat, routeInfo.totalDistance, legDistances(fromIndex, toIndex));
+      const travelledPrice = calculateMultiSegmentPrice(pricePerSeat, routeInfo.totalDistance, legDistances(fromIndex, dropoffIndex));
+      const newAmount = Math.min(
+        booking.total_amount,
+        Math.round((booking.total_amount * travelledPrice / bookedPrice) * 100) / 100
+      );
+
+      const result = await authenticatedApiRequest<{ booking: any; previous_amount: number; new_amount: number; refund_amount: number }>(
+        `/api/bookings/${bookingId}/dropoff`,
+        { segment_id: dropoffSegmentId, amount: newAmount }
+      );
+
+      return {
+        success: true,
+        booking: result.booking,
+        previousAmount: result.previous_amount,
+        newAmount: result.new_amount,
+        refundAmount: result.refund_amount,
+      };
+    } catch (error) {
+      console.error('Error recording early drop-off:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update booking' };
+    }
+  }
+
+  private static async fetchBooking(bookingId: number) {
+    const { data, error } = await supabase
+      .from('ride_bookings')
+      .select(`
+        *,
+        rides (id, driver_id, price_per_seat)
+      `)
+      .eq('id', bookingId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching booking for adjustment:', error);
+      return null;
+    }
+    return data;
+  }
+}
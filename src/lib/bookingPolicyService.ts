@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
-import { PaymentHoldService } from './paymentHoldService';
+import { CancellationPolicyService } from './cancellationPolicyService';
+import { authenticatedApiRequest, staffApiRequest } from './staffApi';
 
 export interface CancellationResult {
   success: boolean;
@@ -10,6 +11,12 @@ export interface CancellationResult {
   cancellationFee?: number;
 }
 
+export interface RideCancellationResult {
+  bookingsCancelled: number;
+  refundsFailed: number;
+  countsAsWarning: boolean;
+}
+
 export interface CancellationEligibility {
   canCancel: boolean;
   reason: string;
@@ -90,12 +97,18 @@ export class BookingPolicyService {
         };
       }
 
-      // For confirmed bookings - apply cancellation policy based on time
+      // For confirmed bookings - apply the policy snapshotted at booking time
       if (booking.status === 'confirmed') {
-        const refundData = this.calculateRefundAmount(booking.total_amount, hoursUntilDeparture);
+        const policy = await CancellationPolicyService.getBookingPolicy(booking, booking.rides);
+        const refundData = CancellationPolicyService.calculateRefund(
+          policy,
+          booking.total_amount,
+          hoursUntilDeparture,
+          booking.created_at
+        );
         
-        // Special handling for past rides
-        if (hoursUntilDeparture <= -2) {
+        // Special handling for past rides, unless support granted an exception
+        if (hoursUntilDeparture <= -2 && !booking.can_cancel_after_confirm) {
           return {
             canCancel: false,
             reason: 'Cannot cancel completed rides'
@@ -104,7 +117,7 @@ export class BookingPolicyService {
 
         return {
           canCancel: true,
-          reason: this.getCancellationPolicyMessage(hoursUntilDeparture),
+          reason: CancellationPolicyService.getPolicyMessage(policy, hoursUntilDeparture, booking.created_at),
           refundAmount: refundData.refundAmount,
           cancellationFee: refundData.cancellationFee,
           timeToRide: hoursUntilDeparture
@@ -126,209 +139,53 @@ export class BookingPolicyService {
   }
 
   /**
-   * Calculate refund amount based on cancellation policy
-   */
-  private static calculateRefundAmount(totalAmount: number, hoursUntilDeparture: number): {
-    refundAmount: number;
-    cancellationFee: number;
-  } {
-    let refundPercentage: number;
-
-    if (hoursUntilDeparture >= 12) {
-      // 12+ hours before departure: No cancellation fee
-      refundPercentage = 100;
-    } else if (hoursUntilDeparture >= 6) {
-      // 6-12 hours before departure: 25% cancellation fee
-      refundPercentage = 75;
-    } else if (hoursUntilDeparture >= 2) {
-      // 2-6 hours before departure: 50% cancellation fee
-      refundPercentage = 50;
-    } else if (hoursUntilDeparture >= 0) {
-      // Less than 2 hours before departure: 75% cancellation fee
-      refundPercentage = 25;
-    } else {
-      // After departure time (no-show): 100% cancellation fee
-      refundPercentage = 0;
-    }
-
-    const refundAmount = Math.round((totalAmount * refundPercentage / 100) * 100) / 100;
-    const cancellationFee = Math.round((totalAmount - refundAmount) * 100) / 100;
-
-    return { refundAmount, cancellationFee };
-  }
-
-  /**
-   * Get user-friendly cancellation policy message
-   */
-  private static getCancellationPolicyMessage(hoursUntilDeparture: number): string {
-    if (hoursUntilDeparture >= 12) {
-      return 'Free cancellation - No cancellation fee (12+ hours before departure)';
-    } else if (hoursUntilDeparture >= 6) {
-      return 'Cancellation fee: 25% of ride cost (6-12 hours before departure)';
-    } else if (hoursUntilDeparture >= 2) {
-      return 'Cancellation fee: 50% of ride cost (2-6 hours before departure)';
-    } else if (hoursUntilDeparture >= 0) {
-      return 'Cancellation fee: 75% of ride cost (less than 2 hours before departure)';
-    } else {
-      return 'No refund available for completed rides';
-    }
-  }
-
-  /**
-   * Cancel a booking with automatic refund processing
+   * Cancel a booking with automatic refund processing. A confirmed booking's
+   * refund goes to the passenger's credit wallet when refundAsCredit is set.
+   * The API works out the refund from the booking's policy snapshot.
    */
-  static async cancelBooking(bookingId: number, userId: string): Promise<CancellationResult> {
+  static async cancelBooking(bookingId: number, refundAsCredit: boolean = false): Promise<CancellationResult> {
     try {
-      // First check if cancellation is allowed
-      const eligibility = await this.checkCancellationEligibility(bookingId, userId);
-      
-      if (!eligibility.canCancel) {
-        return {
-          success: false,
-          refunded: false,
-          error: eligibility.reason
-        };
-      }
-
-      // Get booking details for processing
-      const { data: booking, error: bookingError } = await supabase
-        .from('ride_bookings')
-        .select(`
-          *,
-          rides (*)
-        `)
-        .eq('id', bookingId)
-        .single();
-
-      if (bookingError || !booking) {
-        return {
-          success: false,
-          refunded: false,
-          error: 'Booking not found'
-        };
-      }
-
-      // Process refund based on status and time
-      let refundResult = null;
-      if (booking.status === 'pending') {
-        // Full refund for pending bookings
-        refundResult = await PaymentHoldService.refundPaymentHold(
-          bookingId, 
-          'passenger_cancelled'
-        );
-      } else if (booking.status === 'confirmed' && eligibility.refundAmount! > 0) {
-        // Partial refund for confirmed bookings based on policy
-        refundResult = await this.processPartialRefund(
-          bookingId, 
-          eligibility.refundAmount!,
-          eligibility.cancellationFee!
-        );
-      }
-
-      // Update booking status
-      const { error: updateError } = await supabase
-        .from('ride_bookings')
-        .update({ 
-          status: 'cancelled',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      if (updateError) {
-        console.error('Error updating booking status:', updateError);
-        return {
-          success: false,
-          refunded: false,
-          error: 'Failed to update booking status'
-        };
-      }
-
-      // Send cancellation message to chat
-      await this.sendCancellationMessage(
-        bookingId, 
-        booking.ride_id, 
-        userId, 
-        'passenger_cancelled',
-        eligibility.refundAmount,
-        eligibility.cancellationFee
+      const result = await authenticatedApiRequest<{ refunded: boolean; refund_amount?: number; cancellation_fee?: number }>(
+        `/api/bookings/${bookingId}/cancel`,
+        { refund_as_credit: refundAsCredit }
       );
 
       return {
         success: true,
-        refunded: (eligibility.refundAmount! > 0),
-        refundAmount: eligibility.refundAmount,
-        cancellationFee: eligibility.cancellationFee,
+        refunded: result.refunded,
+        refundAmount: result.refund_amount,
+        cancellationFee: result.cancellation_fee,
         reason: 'Booking cancelled successfully'
       };
-
     } catch (error) {
       console.error('Error cancelling booking:', error);
       return {
         success: false,
         refunded: false,
-        error: 'An error occurred while cancelling the booking'
+        error: error instanceof Error ? error.message : 'An error occurred while cancelling the booking'
       };
     }
   }
 
   /**
-   * Process partial refund for confirmed bookings
+   * Cancel every open booking when the driver cancels the ride, refunding
+   * passengers according to each booking's policy snapshot
    */
-  private static async processPartialRefund(
-    bookingId: number,
-    refundAmount: number,
-    cancellationFee: number
-  ): Promise<any> {
+  static async cancelBookingsForRide(rideId: number): Promise<RideCancellationResult> {
     try {
-      // Create payment record for the partial refund
-      const { data: booking } = await supabase
-        .from('ride_bookings')
-        .select('passenger_id, total_amount')
-        .eq('id', bookingId)
-        .single();
-
-      if (!booking) return null;
-
-      // Insert refund payment record
-      const { data: payment, error } = await supabase
-        .from('payments')
-        .insert({
-          booking_id: bookingId,
-          user_id: booking.passenger_id,
-          amount: -refundAmount, // Negative amount for refund
-          currency: 'USD',
-          status: 'refunded',
-          payment_method: 'refund',
-          refund_reason: 'passenger_cancelled_with_fee',
-          refunded_at: new Date().toISOString(),
-          created_at: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error creating refund payment record:', error);
-      }
-
-      // Create cancellation fee record if applicable
-      if (cancellationFee > 0) {
-        await supabase
-          .from('payments')
-          .insert({
-            booking_id: bookingId,
-            user_id: booking.passenger_id,
-            amount: cancellationFee,
-            currency: 'USD',
-            status: 'captured',
-            payment_method: 'cancellation_fee',
-            created_at: new Date().toISOString()
-          });
-      }
+      const result = await authenticatedApiRequest<{ bookings_cancelled: number; refunds_failed: number; counts_as_warning: boolean }>(
+        `/api/bookings/rides/${rideId}/cancel`,
+        {}
+      );
 
-      return payment;
+      return {
+        bookingsCancelled: result.bookings_cancelled,
+        refundsFailed: result.refunds_failed,
+        countsAsWarning: result.counts_as_warning,
+      };
     } catch (error) {
-      console.error('Error processing partial refund:', error);
-      return null;
+      console.error('Error cancelling bookings for ride:', error);
+      return { bookingsCancelled: 0, refundsFailed: 0, countsAsWarning: true };
     }
   }
 
@@ -345,9 +202,11 @@ export class BookingPolicyService {
         .from('support_tickets')
         .insert({
           user_id: userId,
-          subject: `Cancellation Exception Request - Booking #${bookingId}`,
+          type: 'support',
+          title: `Cancellation Exception Request - Booking #${bookingId}`,
           description: `User is requesting an exception to cancel confirmed booking #${bookingId}.\n\nJustification: ${justification}`,
           category: 'cancellation_exception',
+          booking_id: bookingId,
           priority: 'medium',
           status: 'open'
         })
@@ -370,17 +229,12 @@ export class BookingPolicyService {
   }
 
   /**
-   * Grant cancellation exception (admin function)
+   * Grant cancellation exception. Support agents and admins only: the
+   * /api/admin/bookings function checks the caller's permission.
    */
   static async grantCancellationException(bookingId: number): Promise<CancellationResult> {
     try {
-      // Set special flag to allow cancellation
-      const { error: updateError } = await supabase
-        .from('ride_bookings')
-        .update({ can_cancel_after_confirm: true })
-        .eq('id', bookingId);
-
-      if (updateError) throw updateError;
+      await staffApiRequest(`/bookings/${bookingId}/cancellation-exception`, {});
 
       return {
         success: true,
@@ -392,61 +246,11 @@ export class BookingPolicyService {
       return {
         success: false,
         refunded: false,
-        error: 'Failed to grant cancellation exception'
+        error: error instanceof Error ? error.message : 'Failed to grant cancellation exception'
       };
     }
   }
 
-  /**
-   * Send cancellation message to chat
-   */
-  private static async sendCancellationMessage(
-    bookingId: number, 
-    rideId: number, 
-    userId: string, 
-    reason: string,
-    refundAmount?: number,
-    cancellationFee?: number
-  ): Promise<void> {
-    try {
-      let messageText = '';
-      
-      switch (reason) {
-        case 'passenger_cancelled':
-          if (refundAmount && refundAmount > 0) {
-            if (cancellationFee && cancellationFee > 0) {
-              messageText = `Passenger cancelled the booking. Refund of $${refundAmount.toFixed(2)} will be processed (cancellation fee: $${cancellationFee.toFixed(2)}).`;
-            } else {
-              messageText = `Passenger cancelled the booking. Full refund of $${refundAmount.toFixed(2)} will be processed.`;
-            }
-          } else {
-            messageText = 'Passenger cancelled the booking. No refund applicable.';
-          }
-          break;
-        case 'driver_cancelled':
-          messageText = 'Driver cancelled the ride. Full refund will be processed automatically.';
-          break;
-        case 'timeout':
-          messageText = 'Booking expired due to no driver response. Full refund processed automatically.';
-          break;
-        default:
-          messageText = 'Booking has been cancelled.';
-      }
-
-      await supabase
-        .from('messages')
-        .insert({
-          booking_id: bookingId,
-          sender_id: userId,
-          message: messageText,
-          is_system_message: true
-        });
-
-    } catch (error) {
-      console.error('Error sending cancellation message:', error);
-    }
-  }
-
   /**
    * Check if ride is completed (for determining if cancellation is still possible)
    */
@@ -477,30 +281,4 @@ export class BookingPolicyService {
       return false;
     }
   }
-
-  /**
-   * Process automatic refunds based on cancellation policies
-   * Called by scheduled jobs or triggered events
-   */
-  static async processAutomaticRefunds(): Promise<void> {
-    try {
-      // Find all pending bookings that have expired
-      const { data: expiredBookings } = await supabase
-        .from('ride_bookings')
-        .select(`
-          *,
-          rides (departure_time, driver_id)
-        `)
-        .eq('status', 'pending')
-        .lt('response_deadline', new Date().toISOString());
-
-      for (const booking of expiredBookings || []) {
-        await PaymentHoldService.refundPaymentHold(booking.id, 'timeout');
-      }
-
-      console.log(`Processed ${expiredBookings?.length || 0} expired booking refunds`);
-    } catch (error) {
-      console.error('Error processing automatic refunds:', error);
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import { authenticatedApiRequest } from './staffApi';
+import { BookingStatus, BookingTransitionReason, canTransitionBooking } from './bookingStatus';
+
+export type { BookingStatus, BookingTransitionReason } from './bookingStatus';
+export { BOOKING_TRANSITIONS } from './bookingStatus';
+
+export interface BookingTransitionOptions {
+  reason: BookingTransitionReason;
+  metadata?: Record<string, any>;
+}
+
+export interface BookingTransitionResult {
+  success: boolean;
+  booking?: any;
+  refundAmount?: number;
+  error?: string;
+}
+
+export interface BookingEvent {
+  id: number;
+  booking_id: number;
+  ride_id: number;
+  from_status: BookingStatus;
+  to_status: BookingStatus;
+  reason: BookingTransitionReason;
+  actor_id: string | null;
+  payment_status: string | null;
+  refund_amount: number | null;
+  succeeded: boolean;
+  error: string | null;
+  metadata: Record<string, any> | null;
+  created_at: string;
+}
+
+/**
+ * Booking State Machine
+ * Client for the booking transitions API (api/bookings/transitions), which
+ * makes every change to ride_bookings.status: it claims the booking, settles
+ * the payment and records the event in booking_events. The database refuses
+ * status writes from the app, and the API only accepts the moves the
+ * signed-in user may make themselves (the driver answering a request, the
+ * passenger taking or leaving a waitlist seat).
+ */
+export class BookingStateMachine {
+
+  /**
+   * Whether a booking may move from one status to another
+   */
+  static canTransition(from: BookingStatus, to: BookingStatus): boolean {
+    return canTransitionBooking(from, to);
+  }
+
+  /**
+   * Ask the API to move a booking to a new status
+   */
+  static async transition(
+    bookingId: number,
+    to: BookingStatus,
+    options: BookingTransitionOptions
+  ): Promise<BookingTransitionResult> {
+    try {
+      const result = await authenticatedApiRequest<{ booking: any; refund_amount?: number }>(
+        `/api/bookings/${bookingId}/transitions`,
+        { to, reason: options.reason, metadata: options.metadata }
+      );
+      return { success: true, booking: result.booking, refundAmount: result.refund_amount };
+    } catch (error) {
+      console.error(`Error transitioning booking ${bookingId} to ${to}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update booking' };
+    }
+  }
+
+  /**
+   * Complete every confirmed booking of a ride once the driver finishes it,
+   * and release anyone still on its waitlist
+   */
+  static async completeBookingsForRide(rideId: number): Promise<{ completed: number; failed: number }> {
+    try {
+      return await authenticatedApiRequest<{ completed: number; failed: number }>(`/api/bookings/rides/${rideId}/complete`, {});
+    } catch (error) {
+      console.error('Error completing bookings for ride:', error);
+      return { completed: 0, failed: 0 };
+    }
+  }
+
+  /**
+   * Audit trail of a booking, oldest first
+   */
+  static async getBookingEvents(bookingId: number): Promise<BookingEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('booking_events')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching booking events:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Booking statuses and the moves between them
+ * Shared by the app and the API functions (api/_lib/bookingTransitions),
+ * which make every status change, so it imports nothing.
+ */
+
+export type BookingStatus =
+  | 'waitlisted'
+  | 'offered'
+  | 'pending'
+  | 'confirmed'
+  | 'rejected'
+  | 'cancelled'
+  | 'timeout_cancelled'
+  | 'completed';
+
+export type BookingTransitionReason =
+  | 'driver_accepted'
+  | 'driver_rejected'
+  | 'driver_cancelled'
+  | 'passenger_cancelled'
+  | 'timeout'
+  | 'payment_failed'
+  | 'ride_completed'
+  | 'waitlist_offered'
+  | 'waitlist_accepted'
+  | 'waitlist_declined'
+  | 'waitlist_left'
+  | 'waitlist_closed'
+  | 'offer_expired'
+  | 'hold_expired';
+
+// Every legal move of ride_bookings.status. Terminal states have no exits.
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  waitlisted: ['offered', 'cancelled', 'timeout_cancelled'],
+  offered: ['pending', 'cancelled', 'timeout_cancelled'],
+  pending: ['confirmed', 'rejected', 'cancelled', 'timeout_cancelled'],
+  confirmed: ['cancelled', 'completed'],
+  rejected: [],
+  cancelled: [],
+  timeout_cancelled: [],
+  completed: [],
+};
+
+// Statuses that end a booking without a trip and release its payment
+export const RELEASING_STATUSES: BookingStatus[] = ['rejected', 'cancelled', 'timeout_cancelled'];
+
+// Statuses whose seats go back to the waitlist when the booking ends
+export const SEAT_HOLDING_STATUSES: BookingStatus[] = ['offered', 'pending', 'confirmed'];
+
+/**
+ * Whether a booking may move from one status to another
+ */
+export function canTransitionBooking(from: BookingStatus, to: BookingStatus): boolean {
+  return (BOOKING_TRANSITIONS[from] || []).includes(to);
+}
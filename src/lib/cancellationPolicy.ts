@@ -0,0 +1,198 @@
+/**
+ * Cancellation policy rules
+ * How much of a fare a cancellation refunds under a policy, and how the policy
+ * reads to passengers. Shared by the app (CancellationPolicyService) and the
+ * API functions that refund cancellations, so it imports nothing.
+ */
+
+export type CancellationPolicyKey = 'flexible' | 'moderate' | 'strict';
+
+export interface CancellationPolicyTier {
+  min_hours_before: number; // Applies when cancelling at least this many hours before departure
+  refund_percent: number;
+}
+
+export interface CancellationPolicy {
+  key: string;
+  name: string;
+  description?: string;
+  tiers: CancellationPolicyTier[];
+  grace_period_minutes: number; // Full refund this long after booking...
+  grace_min_hours_before: number; // ...as long as departure is at least this far away
+  no_show_refund_percent: number; // Cancelling after departure
+  driver_cancel_counts_as_warning: boolean; // Whether the driver's cancellation counts toward warnings
+  is_default?: boolean;
+}
+
+export interface RefundCalculation {
+  refundAmount: number;
+  cancellationFee: number;
+  refundPercent: number;
+  inGracePeriod: boolean;
+}
+
+export const DEFAULT_CANCELLATION_POLICY_KEY: CancellationPolicyKey = 'moderate';
+
+// Used until the cancellation_policies table is reachable, and when a key is
+// missing from it. Ops edit the table rows to change policy without a deploy.
+export const DEFAULT_CANCELLATION_POLICIES: CancellationPolicy[] = [
+  {
+    key: 'flexible',
+    name: 'Flexible',
+    description: 'Full refund until 2 hours before departure',
+    tiers: [
+      { min_hours_before: 2, refund_percent: 100 },
+      { min_hours_before: 0, refund_percent: 50 },
+    ],
+    grace_period_minutes: 60,
+    grace_min_hours_before: 0,
+    no_show_refund_percent: 0,
+    driver_cancel_counts_as_warning: true,
+  },
+  {
+    key: 'moderate',
+    name: 'Moderate',
+    description: 'Full refund until 12 hours before departure',
+    tiers: [
+      { min_hours_before: 12, refund_percent: 100 },
+      { min_hours_before: 6, refund_percent: 75 },
+      { min_hours_before: 2, refund_percent: 50 },
+      { min_hours_before: 0, refund_percent: 25 },
+    ],
+    grace_period_minutes: 30,
+    grace_min_hours_before: 6,
+    no_show_refund_percent: 0,
+    driver_cancel_counts_as_warning: true,
+    is_default: true,
+  },
+  {
+    key: 'strict',
+    name: 'Strict',
+    description: 'Full refund until 48 hours before departure',
+    tiers: [
+      { min_hours_before: 48, refund_percent: 100 },
+      { min_hours_before: 24, refund_percent: 50 },
+      { min_hours_before: 0, refund_percent: 0 },
+    ],
+    grace_period_minutes: 15,
+    grace_min_hours_before: 24,
+    no_show_refund_percent: 0,
+    driver_cancel_counts_as_warning: true,
+  },
+];
+
+/**
+ * Refund for a passenger cancelling a confirmed booking
+ */
+export function calculateCancellationRefund(
+  policy: CancellationPolicy,
+  totalAmount: number,
+  hoursUntilDeparture: number,
+  bookedAt?: string
+): RefundCalculation {
+  const inGracePeriod = isInGracePeriod(policy, hoursUntilDeparture, bookedAt);
+  const refundPercent = inGracePeriod ? 100 : getRefundPercent(policy, hoursUntilDeparture);
+
+  const refundAmount = Math.round((totalAmount * refundPercent / 100) * 100) / 100;
+  const cancellationFee = Math.round((totalAmount - refundAmount) * 100) / 100;
+
+  return { refundAmount, cancellationFee, refundPercent, inGracePeriod };
+}
+
+/**
+ * What cancelling now costs, for the cancellation prompt
+ */
+export function getCancellationPolicyMessage(policy: CancellationPolicy, hoursUntilDeparture: number, bookedAt?: string): string {
+  if (isInGracePeriod(policy, hoursUntilDeparture, bookedAt)) {
+    return `Free cancellation - within ${policy.grace_period_minutes} minutes of booking (${policy.name} policy)`;
+  }
+
+  if (hoursUntilDeparture < 0) {
+    return policy.no_show_refund_percent > 0
+      ? `${policy.no_show_refund_percent}% refund after departure (${policy.name} policy)`
+      : 'No refund available after departure';
+  }
+
+  const tiers = sortTiers(policy);
+  const index = tiers.findIndex(tier => hoursUntilDeparture >= tier.min_hours_before);
+  if (index === -1) {
+    return `No refund available this close to departure (${policy.name} policy)`;
+  }
+
+  const tier = tiers[index];
+  const window = index > 0
+    ? `${formatHours(tier.min_hours_before)}-${formatHours(tiers[index - 1].min_hours_before)} before departure`
+    : `${formatHours(tier.min_hours_before)}+ before departure`;
+
+  return tier.refund_percent === 100
+    ? `Free cancellation - No cancellation fee (${window})`
+    : `Cancellation fee: ${100 - tier.refund_percent}% of ride cost (${window})`;
+}
+
+/**
+ * One line per tier, for showing the whole policy before booking
+ */
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const tiers = sortTiers(policy);
+  const lines = tiers.map((tier, index) => {
+    const window = index === 0
+      ? `${formatHours(tier.min_hours_before)} or more before departure`
+      : tier.min_hours_before === 0
+        ? `Less than ${formatHours(tiers[index - 1].min_hours_before)} before departure`
+        : `${formatHours(tier.min_hours_before)} to ${formatHours(tiers[index - 1].min_hours_before)} before departure`;
+    return `${window}: ${tier.refund_percent === 0 ? 'no refund' : `${tier.refund_percent}% refund`}`;
+  });
+
+  if (policy.grace_period_minutes > 0) {
+    lines.push(policy.grace_min_hours_before > 0
+      ? `Full refund within ${policy.grace_period_minutes} minutes of booking if departure is ${formatHours(policy.grace_min_hours_before)} or more away`
+      : `Full refund within ${policy.grace_period_minutes} minutes of booking`);
+  }
+
+  lines.push('If the driver cancels: full refund');
+  return lines;
+}
+
+/**
+ * A policy row or booking snapshot as a CancellationPolicy. Rows and
+ * snapshots may come back with numeric strings or missing fields.
+ */
+export function normalizeCancellationPolicy(row: any): CancellationPolicy {
+  return {
+    key: row.key,
+    name: row.name || row.key,
+    description: row.description || undefined,
+    tiers: (row.tiers || []).map((tier: any) => ({
+      min_hours_before: Number(tier.min_hours_before),
+      refund_percent: Number(tier.refund_percent),
+    })),
+    grace_period_minutes: Number(row.grace_period_minutes) || 0,
+    grace_min_hours_before: Number(row.grace_min_hours_before) || 0,
+    no_show_refund_percent: Number(row.no_show_refund_percent) || 0,
+    driver_cancel_counts_as_warning: row.driver_cancel_counts_as_warning !== false,
+    is_default: !!row.is_default,
+  };
+}
+
+function getRefundPercent(policy: CancellationPolicy, hoursUntilDeparture: number): number {
+  if (hoursUntilDeparture < 0) return policy.no_show_refund_percent;
+
+  const tier = sortTiers(policy).find(tier => hoursUntilDeparture >= tier.min_hours_before);
+  return tier ? tier.refund_percent : 0;
+}
+
+function isInGracePeriod(policy: CancellationPolicy, hoursUntilDeparture: number, bookedAt?: string): boolean {
+  if (!bookedAt || policy.grace_period_minutes <= 0) return false;
+
+  const minutesSinceBooking = (Date.now() - new Date(bookedAt).getTime()) / (1000 * 60);
+  return minutesSinceBooking <= policy.grace_period_minutes && hoursUntilDeparture >= policy.grace_min_hours_before;
+}
+
+function sortTiers(policy: CancellationPolicy): CancellationPolicyTier[] {
+  return [...policy.tiers].sort((a, b) => b.min_hours_before - a.min_hours_before);
+}
+
+function formatHours(hours: number): string {
+  if (hours >= 48 && hours % 24 === 0) return `${hours / 24} days`;
+  return `${hours} hour${hours !== 1 ? 's' : ''}`;
+}
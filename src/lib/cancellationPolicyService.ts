@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+import {
+  CancellationPolicy,
+  RefundCalculation,
+  DEFAULT_CANCELLATION_POLICY_KEY,
+  DEFAULT_CANCELLATION_POLICIES,
+  calculateCancellationRefund,
+  getCancellationPolicyMessage,
+  describeCancellationPolicy,
+  normalizeCancellationPolicy
+} from './cancellationPolicy';
+
+export type { CancellationPolicyKey, CancellationPolicyTier, CancellationPolicy, RefundCalculation } from './cancellationPolicy';
+export { DEFAULT_CANCELLATION_POLICY_KEY, DEFAULT_CANCELLATION_POLICIES } from './cancellationPolicy';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cachedPolicies: CancellationPolicy[] | null = null;
+let cachedAt = 0;
+
+/**
+ * Cancellation Policy Service
+ * Cancellation policies are data: drivers pick one per ride, the database
+ * stores a snapshot on each booking when it is created, and refunds and policy text are both derived from
+ * the snapshot so later policy edits never change an existing booking.
+ */
+export class CancellationPolicyService {
+
+  /**
+   * Active policies, from the cancellation_policies table when available
+   */
+  static async getPolicies(): Promise<CancellationPolicy[]> {
+    if (cachedPolicies && Date.now() - cachedAt < CACHE_TTL_MS) {
+      return cachedPolicies;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('cancellation_policies')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+
+      const loaded = (data || []).map(row => normalizeCancellationPolicy(row));
+      const missing = DEFAULT_CANCELLATION_POLICIES.filter(policy => !loaded.some(row => row.key === policy.key));
+      cachedPolicies = [...loaded, ...missing];
+    } catch (error) {
+      console.error('Error loading cancellation policies, using defaults:', error);
+      cachedPolicies = DEFAULT_CANCELLATION_POLICIES;
+    }
+
+    cachedAt = Date.now();
+    return cachedPolicies;
+  }
+
+  /**
+   * Policy by key, falling back to the default policy
+   */
+  static async getPolicy(key?: string | null): Promise<CancellationPolicy> {
+    const policies = await this.getPolicies();
+    return policies.find(policy => policy.key === key)
+      || policies.find(policy => policy.is_default)
+      || DEFAULT_CANCELLATION_POLICIES.find(policy => policy.key === DEFAULT_CANCELLATION_POLICY_KEY)!;
+  }
+
+  /**
+   * Policy in effect for a booking: its snapshot, or for bookings made before
+   * snapshots existed, the ride's current policy
+   */
+  static async getBookingPolicy(booking: { cancellation_policy_snapshot?: CancellationPolicy | null }, ride?: { cancellation_policy?: string | null }): Promise<CancellationPolicy> {
+    if (booking.cancellation_policy_snapshot) {
+      return normalizeCancellationPolicy(booking.cancellation_policy_snapshot);
+    }
+    return this.getPolicy(ride?.cancellation_policy);
+  }
+
+  /**
+   * Refund for a passenger cancelling a confirmed booking
+   */
+  static calculateRefund(
+    policy: CancellationPolicy,
+    totalAmount: number,
+    hoursUntilDeparture: number,
+    bookedAt?: string
+  ): RefundCalculation {
+    return calculateCancellationRefund(policy, totalAmount, hoursUntilDeparture, bookedAt);
+  }
+
+  /**
+   * What cancelling now costs, for the cancellation prompt
+   */
+  static getPolicyMessage(policy: CancellationPolicy, hoursUntilDeparture: number, bookedAt?: string): string {
+    return getCancellationPolicyMessage(policy, hoursUntilDeparture, bookedAt);
+  }
+
+  /**
+   * One line per tier, for showing the whole policy before booking
+   */
+  static describePolicy(policy: CancellationPolicy): string[] {
+    return describeCancellationPolicy(policy);
+  }
+}
@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+import { authenticatedApiRequest } from './staffApi';
+import type { PromoCode } from './promoCodeService';
+
+export type CreditSource =
+  | 'support_goodwill' // Issued by support, tied to a ticket
+  | 'cancellation_refund' // A cancellation refund the passenger took as credit
+  | 'referral' // Reward for a referred passenger's first ride
+  | 'booking_payment' // Spent on a booking
+  | 'booking_refund'; // Returned when a booking paid with credit is refunded
+
+export interface CreditTransaction {
+  id: number;
+  user_id: string;
+  amount: number; // Positive when credit is added, negative when spent
+  source: CreditSource;
+  booking_id?: number | null;
+  support_ticket_id?: string | null;
+  issued_by?: string | null;
+  note?: string | null;
+  created_at: string;
+}
+
+// Mirrors api/_lib/wallet.ts
+export interface ReservedDiscounts {
+  promo: { promo: PromoCode; amount: number; redemption_id: number } | null;
+  credit: number;
+  total: number;
+}
+
+const API_BASE = '/api/payments/wallet';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Credit Wallet Service
+ * A passenger's credit balance is the sum of their credit_transactions rows.
+ * Credit is added by support (goodwill), by cancellation refunds taken as
+ * credit and by referral rewards, and spent on bookings through
+ * PaymentHoldService, which records the spend as a 'credit' payment. The
+ * client only reads the wallet; every change goes through /api/payments/wallet.
+ */
+export class CreditWalletService {
+
+  /**
+   * Current credit balance
+   */
+  static async getBalance(userId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase
+        .from('credit_transactions')
+        .select('amount')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      return round(Math.max((data || []).reduce((sum, row) => sum + Number(row.amount), 0), 0));
+    } catch (error) {
+      console.error('Error fetching credit balance:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Credit history, newest first
+   */
+  static async getTransactions(userId: string, limit: number = 50): Promise<CreditTransaction[]> {
+    try {
+      const { data, error } = await supabase
+        .from('credit_transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching credit transactions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Redeem a promo code and spend credit on one of the signed-in passenger's
+   * bookings, before its payment hold is created. The API works out how much
+   * of each applies and always leaves part of the fare for the payment method.
+   */
+  static async reserveDiscounts(
+    bookingId: number,
+    amount: number,
+    promoCode?: string,
+    creditAmount?: number
+  ): Promise<ReservedDiscounts> {
+    return authenticatedApiRequest<ReservedDiscounts>(`${API_BASE}/discounts`, {
+      booking_id: bookingId,
+      amount,
+      promo_code: promoCode,
+      credit_amount: creditAmount
+    });
+  }
+}
+
+export default CreditWalletService;
@@ -0,0 +1,588 @@
+import { supabase } from './supabase';
+import { routingService } from './routingService';
+import { RideMatchingService, GeoPoint, MatchStop } from './rideMatchingService';
+import { getMultiStopRouteInfo, calculateStopETAs, getRouteGeometry } from '../utils/distance';
+import { encodePolyline } from '../utils/polyline';
+import type { CustomStopRequest } from '../types';
+
+export type CustomStopType = 'pickup' | 'dropoff';
+
+export interface DetourEvaluation {
+  feasible: boolean;
+  reason?: string;
+  detourMinutes: number;
+  detourKm: number;
+  distanceFromRouteKm: number;
+  insertAfterOrder: number; // segment_order of the stop the new stop would follow
+  maxDetourMinutes: number;
+}
+
+export interface CustomStopResult {
+  success: boolean;
+  error?: string;
+  request?: CustomStopRequest;
+  evaluation?: DetourEvaluation;
+}
+
+// Stop orders the passenger currently rides between, used to keep a custom
+// pickup before their drop-off and vice versa
+export interface BookingStopRange {
+  fromOrder: number;
+  toOrder: number;
+}
+
+export const DEFAULT_MAX_DETOUR_MINUTES = Number(import.meta.env.VITE_DEFAULT_MAX_DETOUR_MINUTES) || 10;
+
+// Points further than this from the route are rejected without routing them
+const MAX_DISTANCE_FROM_ROUTE_KM = Number(import.meta.env.VITE_CUSTOM_STOP_MAX_OFFSET_KM) || 15;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Same local "YYYY-MM-DD HH:mm:ss" format PostRidePage stores ride times in
+const formatLocalDateTime = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+/**
+ * Custom Stop Service
+ * Lets passengers ask for a pickup or drop-off point that is not one of the
+ * ride's stops. The point is placed on the leg of the driver's route it falls
+ * on, and the extra driving time is checked against the driver's maximum
+ * detour. Approved stops become ride segments and the ride's ETAs are
+ * recomputed.
+ */
+export class CustomStopService {
+
+  /**
+   * Work out where a point would sit on the ride and how long the detour is
+   */
+  static async evaluateStop(
+    ride: any,
+    point: GeoPoint,
+    stopType: CustomStopType,
+    bookingRange?: BookingStopRange
+  ): Promise<DetourEvaluation> {
+    const maxDetourMinutes = ride.max_detour_minutes ?? DEFAULT_MAX_DETOUR_MINUTES;
+    const evaluation: DetourEvaluation = {
+      feasible: false,
+      detourMinutes: 0,
+      detourKm: 0,
+      distanceFromRouteKm: 0,
+      insertAfterOrder: 0,
+      maxDetourMinutes,
+    };
+
+    if (maxDetourMinutes <= 0) {
+      return { ...evaluation, reason: 'The driver is not accepting custom stops on this ride' };
+    }
+
+    const stops = RideMatchingService.getRideStops(ride)
+      .filter(stop => stop.lat != null && stop.lng != null);
+
+    if (stops.length < 2) {
+      return { ...evaluation, reason: 'This ride has no route coordinates' };
+    }
+
+    const polyline = RideMatchingService.getRoutePolyline(ride, stops);
+    const projection = RideMatchingService.projectOntoPolyline(point, polyline);
+    evaluation.distanceFromRouteKm = round2(projection.distanceKm);
+
+    if (projection.distanceKm > MAX_DISTANCE_FROM_ROUTE_KM) {
+      return { ...evaluation, reason: 'This location is too far from the driver\'s route' };
+    }
+
+    // The leg is the last stop at or before the point along the route
+    const stopPositions = stops.map(stop =>
+      RideMatchingService.projectOntoPolyline({ lat: stop.lat!, lng: stop.lng! }, polyline).position
+    );
+    let legIndex = 0;
+    for (let i = 0; i < stops.length - 1; i++) {
+      if (stopPositions[i] <= projection.position) {
+        legIndex = i;
+      }
+    }
+
+    const previous = stops[legIndex];
+    const next = stops[legIndex + 1];
+    evaluation.insertAfterOrder = previous.segment_order;
+
+    if (bookingRange) {
+      if (stopType === 'pickup' && previous.segment_order >= bookingRange.toOrder) {
+        return { ...evaluation, reason: 'Pickup must be before your drop-off point' };
+      }
+      if (stopType === 'dropoff' && previous.segment_order < bookingRange.fromOrder) {
+        return { ...evaluation, reason: 'Drop-off must be after your pickup point' };
+      }
+    }
+
+    try {
+      const departureTime = new Date(ride.departure_time);
+      const from = { lat: previous.lat!, lng: previous.lng! };
+      const to = { lat: next.lat!, lng: next.lng! };
+
+      const [direct, viaStop] = await Promise.all([
+        routingService.route([from, to], { departureTime }),
+        routingService.route([from, point, to], { departureTime }),
+      ]);
+
+      evaluation.detourMinutes = Math.max(0, viaStop.duration - direct.duration);
+      evaluation.detourKm = Math.max(0, round2(viaStop.distance - direct.distance));
+    } catch (error) {
+      console.error('Error calculating detour:', error);
+      return { ...evaluation, reason: 'Unable to calculate the detour for this location' };
+    }
+
+    if (evaluation.detourMinutes > maxDetourMinutes) {
+      return {
+        ...evaluation,
+        reason: `Adds ${evaluation.detourMinutes} min to the trip, the driver accepts up to ${maxDetourMinutes} min`,
+      };
+    }
+
+    return { ...evaluation, feasible: true };
+  }
+
+  /**
+   * Passenger requests a custom stop for their booking. The detour is checked
+   * before anything is saved.
+   */
+  static async requestStop(params: {
+    ride: any;
+    bookingId: number;
+    passengerId: string;
+    address: string;
+    point: GeoPoint;
+    stopType: CustomStopType;
+    bookingRange?: BookingStopRange;
+  }): Promise<CustomStopResult> {
+    try {
+      const evaluation = await this.evaluateStop(params.ride, params.point, params.stopType, params.bookingRange);
+
+      if (!evaluation.feasible) {
+        return { success: false, error: evaluation.reason, evaluation };
+      }
+
+      const { data: request, error } = await supabase
+        .from('custom_stop_requests')
+        .insert({
+          ride_id: params.ride.id,
+          booking_id: params.bookingId,
+          passenger_id: params.passengerId,
+          address: params.address,
+          lat: params.point.lat,
+          lng: params.point.lng,
+          stop_type: params.stopType,
+          insert_after_order: evaluation.insertAfterOrder,
+          detour_minutes: evaluation.detourMinutes,
+          detour_km: evaluation.detourKm,
+          status: 'pending',
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await this.sendStopMessage(
+        params.bookingId,
+        params.passengerId,
+        `Passenger requested a custom ${params.stopType === 'pickup' ? 'pickup' : 'drop-off'} at ${params.address} (+${evaluation.detourMinutes} min detour).`
+      );
+
+      return { success: true, request, evaluation };
+    } catch (error) {
+      console.error('Error requesting custom stop:', error);
+      return { success: false, error: 'Failed to request custom stop' };
+    }
+  }
+
+  /**
+   * Pending stop requests for a ride, oldest first
+   */
+  static async getPendingRequests(rideId: number): Promise<CustomStopRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_stop_requests')
+        .select(`
+          *,
+          passenger:users!custom_stop_requests_passenger_id_fkey(
+            id, display_name, photo_url
+          )
+        `)
+        .eq('ride_id', rideId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching custom stop requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Driver approves a stop request. The stop is inserted into the ride's
+   * segments, seat bookings are split around it and ETAs are recomputed.
+   */
+  static async approveRequest(requestId: number, driverId: string): Promise<CustomStopResult> {
+    try {
+      const { request, ride, error: loadError } = await this.loadRequestForDriver(requestId, driverId);
+      if (!request || !ride) {
+        return { success: false, error: loadError };
+      }
+
+      const { data: booking, error: bookingError } = await supabase
+        .from('ride_bookings')
+        .select('*')
+        .eq('id', request.booking_id)
+        .single();
+
+      if (bookingError || !booking) {
+        return { success: false, error: 'Booking not found for this request' };
+      }
+
+      // Direct rides have no stored segments yet, create origin and destination first
+      let stops = await this.ensureRideSegments(ride);
+      const bookingRange = this.getBookingRange(stops, booking);
+
+      // The route may have changed since the request was made, so check again
+      const evaluation = await this.evaluateStop(
+        { ...ride, use_direct_route: false, ride_segments: stops },
+        { lat: request.lat, lng: request.lng },
+        request.stop_type,
+        bookingRange
+      );
+
+      if (!evaluation.feasible) {
+        return { success: false, error: evaluation.reason, evaluation };
+      }
+
+      const newOrder = evaluation.insertAfterOrder + 1;
+      const previousStop = stops.find(stop => stop.segment_order === evaluation.insertAfterOrder)!;
+
+      // Shift later stops down, last first
+      const laterStops = stops
+        .filter(stop => stop.segment_order >= newOrder)
+        .sort((a, b) => b.segment_order - a.segment_order);
+
+      for (const stop of laterStops) {
+        const { error } = await supabase
+          .from('ride_segments')
+          .update({ segment_order: stop.segment_order + 1 })
+          .eq('id', stop.id);
+
+        if (error) throw error;
+      }
+
+      const { data: newSegment, error: segmentError } = await supabase
+        .from('ride_segments')
+        .insert({
+          ride_id: ride.id,
+          address: request.address,
+          lat: request.lat,
+          lng: request.lng,
+          segment_order: newOrder,
+          is_pickup: true,
+          is_custom_stop: true,
+        })
+        .select()
+        .single();
+
+      if (segmentError) throw segmentError;
+
+      // Everyone riding the split leg now also rides the new one
+      const { data: legSeats, error: seatsError } = await supabase
+        .from('segment_seats')
+        .select('booking_id, seats_count')
+        .eq('segment_id', previousStop.id);
+
+      if (seatsError) throw seatsError;
+
+      const copiedSeats = (legSeats || [])
+        .filter(seat => seat.booking_id !== booking.id)
+        .map(seat => ({ booking_id: seat.booking_id, segment_id: newSegment.id, seats_count: seat.seats_count }));
+
+      if (copiedSeats.length > 0) {
+        const { error } = await supabase.from('segment_seats').insert(copiedSeats);
+        if (error) throw error;
+      }
+
+      // Move the requesting booking's pickup or drop-off to the new stop
+      stops = await this.fetchSegments(ride.id);
+      const fromSegment = request.stop_type === 'pickup'
+        ? newSegment
+        : stops.find(stop => stop.id === booking.from_segment_id) || stops[0];
+      const toSegment = request.stop_type === 'dropoff'
+        ? newSegment
+        : stops.find(stop => stop.id === booking.to_segment_id) || stops[stops.length - 1];
+
+      await this.rebuildBookingSeats(booking, stops, fromSegment.segment_order, toSegment.segment_order);
+
+      const { error: bookingUpdateError } = await supabase
+        .from('ride_bookings')
+        .update({
+          from_segment_id: fromSegment.id,
+          to_segment_id: toSegment.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', booking.id);
+
+      if (bookingUpdateError) throw bookingUpdateError;
+
+      await this.updateRideSchedule(ride, stops);
+
+      const { data: updatedRequest, error: requestError } = await supabase
+        .from('custom_stop_requests')
+        .update({
+          status: 'approved',
+          segment_id: newSegment.id,
+          insert_after_order: evaluation.insertAfterOrder,
+          detour_minutes: evaluation.detourMinutes,
+          detour_km: evaluation.detourKm,
+          responded_at: new Date().toISOString(),
+        })
+        .eq('id', requestId)
+        .select()
+        .single();
+
+      if (requestError) throw requestError;
+
+      await this.sendStopMessage(
+        booking.id,
+        driverId,
+        `Driver approved your custom ${request.stop_type === 'pickup' ? 'pickup' : 'drop-off'} at ${request.address}.`
+      );
+
+      return { success: true, request: updatedRequest, evaluation };
+    } catch (error) {
+      console.error('Error approving custom stop:', error);
+      return { success: false, error: 'Failed to approve custom stop' };
+    }
+  }
+
+  /**
+   * Driver rejects a stop request. The booking keeps its original stops.
+   */
+  static async rejectRequest(requestId: number, driverId: string, reason?: string): Promise<CustomStopResult> {
+    try {
+      const { request, error: loadError } = await this.loadRequestForDriver(requestId, driverId);
+      if (!request) {
+        return { success: false, error: loadError };
+      }
+
+      const { data: updatedRequest, error } = await supabase
+        .from('custom_stop_requests')
+        .update({
+          status: 'rejected',
+          rejection_reason: reason || null,
+          responded_at: new Date().toISOString(),
+        })
+        .eq('id', requestId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (request.booking_id) {
+        await this.sendStopMessage(
+          request.booking_id,
+          driverId,
+          `Driver declined your custom ${request.stop_type === 'pickup' ? 'pickup' : 'drop-off'} at ${request.address}` +
+            (reason ? `: ${reason}` : '. Your original stops are unchanged.')
+        );
+      }
+
+      return { success: true, request: updatedRequest };
+    } catch (error) {
+      console.error('Error rejecting custom stop:', error);
+      return { success: false, error: 'Failed to reject custom stop' };
+    }
+  }
+
+  private static async loadRequestForDriver(
+    requestId: number,
+    driverId: string
+  ): Promise<{ request?: CustomStopRequest; ride?: any; error?: string }> {
+    const { data, error } = await supabase
+      .from('custom_stop_requests')
+      .select(`
+        *,
+        rides (*)
+      `)
+      .eq('id', requestId)
+      .single();
+
+    if (error || !data) {
+      return { error: 'Stop request not found' };
+    }
+
+    if (data.rides?.driver_id !== driverId) {
+      return { error: 'Only the driver can respond to this request' };
+    }
+
+    if (data.status !== 'pending') {
+      return { error: 'This request has already been answered' };
+    }
+
+    return { request: data, ride: data.rides };
+  }
+
+  private static async fetchSegments(rideId: number): Promise<MatchStop[]> {
+    const { data, error } = await supabase
+      .from('ride_segments')
+      .select('*')
+      .eq('ride_id', rideId)
+      .order('segment_order', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Stored segments for a ride, creating origin and destination segments for
+   * direct rides. Bookings on direct rides point at pseudo segment ids 0 and 1,
+   * which are moved to the real segments here.
+   */
+  private static async ensureRideSegments(ride: any): Promise<MatchStop[]> {
+    const existing = await this.fetchSegments(ride.id);
+    if (existing.length >= 2) return existing;
+
+    const { data: created, error } = await supabase
+      .from('ride_segments')
+      .insert([
+        {
+          ride_id: ride.id,
+          address: ride.from_location,
+          lat: ride.from_lat,
+          lng: ride.from_lng,
+          segment_order: 0,
+          is_pickup: true,
+        },
+        {
+          ride_id: ride.id,
+          address: ride.to_location,
+          lat: ride.to_lat,
+          lng: ride.to_lng,
+          segment_order: 1,
+          is_pickup: false,
+        },
+      ])
+      .select();
+
+    if (error) throw error;
+
+    const origin = created.find((segment: MatchStop) => segment.segment_order === 0);
+    const destination = created.find((segment: MatchStop) => segment.segment_order === 1);
+
+    const { data: bookings } = await supabase
+      .from('ride_bookings')
+      .select('id, seats_booked, status')
+      .eq('ride_id', ride.id)
+      .in('status', ['pending', 'confirmed']);
+
+    for (const booking of bookings || []) {
+      await supabase
+        .from('ride_bookings')
+        .update({ from_segment_id: origin.id, to_segment_id: destination.id })
+        .eq('id', booking.id);
+    }
+
+    // Every booking on a direct ride rides the single leg
+    if (bookings && bookings.length > 0) {
+      await supabase
+        .from('segment_seats')
+        .insert(bookings.map(booking => ({
+          booking_id: booking.id,
+          segment_id: origin.id,
+          seats_count: booking.seats_booked,
+        })));
+    }
+
+    await supabase
+      .from('rides')
+      .update({ use_direct_route: false })
+      .eq('id', ride.id);
+
+    return this.fetchSegments(ride.id);
+  }
+
+  private static getBookingRange(stops: MatchStop[], booking: any): BookingStopRange {
+    const from = stops.find(stop => stop.id === booking.from_segment_id);
+    const to = stops.find(stop => stop.id === booking.to_segment_id);
+
+    return {
+      fromOrder: from ? from.segment_order : stops[0].segment_order,
+      toOrder: to ? to.segment_order : stops[stops.length - 1].segment_order,
+    };
+  }
+
+  // Replace a booking's seat rows with one row per leg between its stops
+  private static async rebuildBookingSeats(booking: any, stops: MatchStop[], fromOrder: number, toOrder: number) {
+    const { error: deleteError } = await supabase
+      .from('segment_seats')
+      .delete()
+      .eq('booking_id', booking.id);
+
+    if (deleteError) throw deleteError;
+
+    const seats = stops
+      .filter(stop => stop.segment_order >= fromOrder && stop.segment_order < toOrder)
+      .map(stop => ({ booking_id: booking.id, segment_id: stop.id, seats_count: booking.seats_booked }));
+
+    if (seats.length > 0) {
+      const { error } = await supabase.from('segment_seats').insert(seats);
+      if (error) throw error;
+    }
+  }
+
+  // Recompute per-stop ETAs, arrival time, duration and route polyline
+  private static async updateRideSchedule(ride: any, stops: MatchStop[]) {
+    const departureTime = new Date(ride.departure_time);
+    const coordinates = stops.map(stop => ({ lat: stop.lat || 0, lng: stop.lng || 0 }));
+
+    const routeInfo = await getMultiStopRouteInfo(coordinates, departureTime);
+    const etas = calculateStopETAs(departureTime, routeInfo.segments);
+
+    for (const eta of etas) {
+      const stop = stops[eta.stopIndex];
+      if (!stop) continue;
+
+      await supabase
+        .from('ride_segments')
+        .update({ estimated_arrival: eta.eta.toISOString() })
+        .eq('id', stop.id);
+    }
+
+    const geometry = await getRouteGeometry(coordinates, departureTime);
+    const arrival = new Date(departureTime.getTime() + routeInfo.totalDuration * 60 * 1000);
+
+    const { error } = await supabase
+      .from('rides')
+      .update({
+        arrival_time: formatLocalDateTime(arrival),
+        estimated_duration: routeInfo.totalDuration,
+        route_polyline: encodePolyline(geometry),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', ride.id);
+
+    if (error) throw error;
+  }
+
+  private static async sendStopMessage(bookingId: number, senderId: string, message: string) {
+    try {
+      await supabase
+        .from('messages')
+        .insert({
+          booking_id: bookingId,
+          sender_id: senderId,
+          message,
+          is_system_message: true
+        });
+    } catch (error) {
+      console.error('Error sending custom stop message:', error);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { staffApiRequest } from './staffApi';
 
 export interface DriverWarningData {
   userId: string;
@@ -29,35 +30,16 @@ export class DriverResponseService {
    */
   static async trackDriverCancellation(driverId: string, rideId: number): Promise<DriverWarningData> {
     try {
-      // Get driver's cancellation history from the last 30 days
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-      const { data: recentCancellations } = await supabase
-        .from('rides')
-        .select('id, created_at, updated_at')
-        .eq('driver_id', driverId)
-        .eq('status', 'cancelled')
-        .gte('updated_at', thirtyDaysAgo.toISOString())
-        .order('updated_at', { ascending: false });
+      // The database counts the driver's recent cancellations and applies the
+      // warning; drivers can't write their own account standing
+      const { data, error } = await supabase.rpc('record_driver_cancellation', { p_ride_id: rideId });
 
-      const cancellationCount = (recentCancellations?.length || 0) + 1; // +1 for current cancellation
+      if (error) throw error;
 
-      // Get driver profile to check current warning status
-      const { data: driverProfile } = await supabase
-        .from('users')
-        .select('account_status, suspension_until, cancellation_warnings')
-        .eq('id', driverId)
-        .single();
-
-      // Determine warning level based on cancellation frequency
-      const warningData = this.calculateWarningLevel(
-        cancellationCount, 
-        driverProfile?.cancellation_warnings || 0
-      );
-
-      // Update driver profile with new warning status
-      await this.updateDriverWarningStatus(driverId, warningData);
+      const warningData = {
+        warningLevel: data.warning_level as 'none' | 'warning' | 'suspension' | 'banned',
+        suspensionUntil: data.suspension_until ? new Date(data.suspension_until) : undefined
+      };
 
       // Send notification if warning or suspension is applied
       await this.sendDriverWarningNotification(driverId, warningData);
@@ -67,7 +49,7 @@ export class DriverResponseService {
 
       return {
         userId: driverId,
-        cancellationCount,
+        cancellationCount: data.cancellation_count,
         warningLevel: warningData.warningLevel,
         suspensionUntil: warningData.suspensionUntil,
         lastCancellation: new Date()
@@ -79,95 +61,6 @@ export class DriverResponseService {
     }
   }
 
-  /**
-   * Calculate warning level based on cancellation history
-   */
-  private static calculateWarningLevel(
-    cancellationCount: number, 
-    previousWarnings: number
-  ): {
-    warningLevel: 'none' | 'warning' | 'suspension' | 'banned';
-    suspensionUntil?: Date;
-    newWarningCount: number;
-  } {
-    let warningLevel: 'none' | 'warning' | 'suspension' | 'banned' = 'none';
-    let suspensionUntil: Date | undefined;
-    let newWarningCount = previousWarnings;
-
-    // Warning thresholds
-    if (cancellationCount >= 8) {
-      // 8+ cancellations in 30 days = permanent ban
-      warningLevel = 'banned';
-      newWarningCount = previousWarnings + 1;
-    } else if (cancellationCount >= 6) {
-      // 6-7 cancellations = 7-day suspension
-      warningLevel = 'suspension';
-      suspensionUntil = new Date();
-      suspensionUntil.setDate(suspensionUntil.getDate() + 7);
-      newWarningCount = previousWarnings + 1;
-    } else if (cancellationCount >= 4) {
-      // 4-5 cancellations = 3-day suspension
-      warningLevel = 'suspension';
-      suspensionUntil = new Date();
-      suspensionUntil.setDate(suspensionUntil.getDate() + 3);
-      newWarningCount = previousWarnings + 1;
-    } else if (cancellationCount >= 3) {
-      // 3 cancellations = warning
-      warningLevel = 'warning';
-      newWarningCount = previousWarnings + 1;
-    }
-
-    return { warningLevel, suspensionUntil, newWarningCount };
-  }
-
-  /**
-   * Update driver's warning status in database
-   */
-  private static async updateDriverWarningStatus(
-    driverId: string, 
-    warningData: {
-      warningLevel: 'none' | 'warning' | 'suspension' | 'banned';
-      suspensionUntil?: Date;
-      newWarningCount: number;
-    }
-  ): Promise<void> {
-    try {
-      const updateData: any = {
-        cancellation_warnings: warningData.newWarningCount,
-        last_warning_date: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-
-      // Set account status based on warning level
-      switch (warningData.warningLevel) {
-        case 'banned':
-          updateData.account_status = 'banned';
-          updateData.suspension_until = null; // Permanent ban
-          break;
-        case 'suspension':
-          updateData.account_status = 'suspended';
-          updateData.suspension_until = warningData.suspensionUntil?.toISOString();
-          break;
-        case 'warning':
-          updateData.account_status = 'warned';
-          updateData.suspension_until = null;
-          break;
-        default:
-          // No change needed for 'none'
-          break;
-      }
-
-      await supabase
-        .from('users')
-        .update(updateData)
-        .eq('id', driverId);
-
-    } catch (error) {
-      console.error('Error updating driver warning status:', error);
-      throw error;
-    }
-  }
-
   /**
    * Send notification to driver about warning or suspension
    */
@@ -220,11 +113,12 @@ export class DriverResponseService {
           .from('support_tickets')
           .insert({
             user_id: driverId,
-            subject: title,
+            type: 'support',
+            title,
             description: message,
             category: 'account_suspension',
             priority: 'high',
-            status: 'auto_generated',
+            status: 'open',
             created_at: new Date().toISOString()
           });
       }
@@ -274,7 +168,7 @@ export class DriverResponseService {
       
       const { data: driver, error } = await supabase
         .from('users')
-        .select('id, email, display_name, license_verification_status, is_driver')
+        .select('id, email, display_name, license_verification_status, is_driver, safety_hold_since')
         .eq('id', driverId)
         .single();
 
@@ -368,6 +262,14 @@ export class DriverResponseService {
         is_driver: driver.is_driver
       });
 
+      // Held while a safety report against them is under review
+      if (driver.safety_hold_since) {
+        return {
+          canPost: false,
+          reason: 'Your account is on hold while our safety team reviews a report. Please contact support for details.'
+        };
+      }
+
       // Basic eligibility check - if user profile exists, they can post rides
       // License verification will be checked separately in PostRidePage
       return { canPost: true };
@@ -450,21 +352,12 @@ export class DriverResponseService {
   }
 
   /**
-   * Clear driver warnings (admin function for dispute resolutions)
+   * Clear driver warnings after a dispute. Support agents and admins only:
+   * the /api/admin/drivers function checks the caller's permission.
    */
   static async clearDriverWarnings(driverId: string): Promise<boolean> {
     try {
-      await supabase
-        .from('users')
-        .update({
-          account_status: 'active',
-          suspension_until: null,
-          cancellation_warnings: 0,
-          last_warning_date: null,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', driverId);
-
+      await staffApiRequest(`/drivers/${encodeURIComponent(driverId)}/clear-warnings`, {});
       return true;
     } catch (error) {
       console.error('Error clearing driver warnings:', error);
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { authenticatedApiRequest } from './staffApi';
 import { Earning, PayoutRequest } from '../types';
 
 export interface EarningsStats {
@@ -187,44 +188,13 @@ export class EarningsService {
   }
 
   /**
-   * Create earnings record for a completed booking with service fee calculation
+   * Create the earning a completed or cancelled booking owes its driver. The
+   * API works out the amount from the booking's payments and the platform fee
+   * from the fee schedule. Returns null when nothing is owed or it failed.
    */
-  static async createEarning(
-    driverId: string,
-    rideId: number,
-    bookingId: number,
-    grossAmount: number,
-    description?: string,
-    serviceFeePercentage: number = 15.0
-  ): Promise<Earning | null> {
+  static async createEarning(bookingId: number): Promise<Earning | null> {
     try {
-      // Calculate service fee and net amount
-      const serviceFeeAmount = Math.round(grossAmount * (serviceFeePercentage / 100) * 100) / 100;
-      const netAmount = Math.round((grossAmount - serviceFeeAmount) * 100) / 100;
-
-      const { data: earning, error } = await supabase
-        .from('earnings')
-        .insert([{
-          driver_id: driverId,
-          ride_id: rideId,
-          booking_id: bookingId,
-          amount: netAmount, // Net amount after service fee deduction
-          gross_amount: grossAmount, // Original amount before service fee
-          service_fee_amount: serviceFeeAmount, // Service fee amount
-          service_fee_percentage: serviceFeePercentage, // Service fee percentage
-          earning_date: new Date().toISOString().split('T')[0],
-          status: 'pending',
-          description
-        }])
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error creating earning:', error);
-        throw error;
-      }
-
-      return earning;
+      return await authenticatedApiRequest<Earning | null>('/api/payments/earnings', { booking_id: bookingId });
     } catch (error) {
       console.error('Error in createEarning:', error);
       return null;
@@ -232,46 +202,12 @@ export class EarningsService {
   }
 
   /**
-   * Request payout for available earnings
+   * Request payout for the signed-in driver's available earnings through their Stripe Connect account.
+   * Throws with a message the driver can act on (account not set up, below the minimum, ...).
    */
-  static async requestPayout(
-    driverId: string,
-    amount: number,
-    paymentMethod: string,
-    paymentDetails: any
-  ): Promise<PayoutRequest | null> {
-    try {
-      // Use the database function to properly handle payout requests
-      const { data: result, error } = await supabase
-        .rpc('process_payout_request', {
-          p_driver_id: driverId,
-          p_requested_amount: amount,
-          p_payment_method: paymentMethod,
-          p_payment_details: paymentDetails
-        });
-
-      if (error) {
-        console.error('Error creating payout request:', error);
-        throw error;
-      }
-
-      // Fetch the created payout request
-      const { data: payoutRequest, error: fetchError } = await supabase
-        .from('payout_requests')
-        .select('*')
-        .eq('id', result)
-        .single();
-
-      if (fetchError) {
-        console.error('Error fetching payout request:', fetchError);
-        throw fetchError;
-      }
-
-      return payoutRequest;
-    } catch (error) {
-      console.error('Error in requestPayout:', error);
-      return null;
-    }
+  static async requestPayout(amount?: number): Promise<PayoutRequest> {
+    const { StripeConnectService } = await import('./stripeConnectService');
+    return StripeConnectService.requestPayout(amount);
   }
 
   /**
@@ -298,7 +234,7 @@ export class EarningsService {
   }
 
   /**
-   * Update earning status (e.g., mark as paid)
+   * Update earning status (e.g., mark as paid). Needs the payouts:run permission.
    */
   static async updateEarningStatus(
     earningId: string,
@@ -306,21 +242,10 @@ export class EarningsService {
     payoutId?: string
   ): Promise<boolean> {
     try {
-      const updateData: any = { status };
-      if (payoutId) {
-        updateData.payout_id = payoutId;
-      }
-
-      const { error } = await supabase
-        .from('earnings')
-        .update(updateData)
-        .eq('id', earningId);
-
-      if (error) {
-        console.error('Error updating earning status:', error);
-        throw error;
-      }
-
+      await authenticatedApiRequest(`/api/payments/earnings/${encodeURIComponent(earningId)}/status`, {
+        status,
+        payout_id: payoutId
+      });
       return true;
     } catch (error) {
       console.error('Error in updateEarningStatus:', error);
@@ -356,55 +281,4 @@ export class EarningsService {
       return [];
     }
   }
-
-  /**
-   * Sync earnings from existing bookings (one-time migration)
-   */
-  static async syncEarningsFromBookings(driverId: string): Promise<void> {
-    try {
-      console.log('Syncing earnings from existing bookings...');
-      
-      // This will be handled by the database trigger we created
-      // But we can also manually sync if needed
-      const { data: rides, error } = await supabase
-        .from('rides')
-        .select(`
-          id, price_per_seat, departure_time, from_location, to_location,
-          ride_bookings(id, seats_booked, total_amount, status, payment_status)
-        `)
-        .eq('driver_id', driverId);
-
-      if (error) {
-        console.error('Error fetching rides for sync:', error);
-        return;
-      }
-
-      for (const ride of rides || []) {
-        for (const booking of ride.ride_bookings || []) {
-          if (booking.status === 'confirmed' && booking.payment_status === 'paid') {
-            // Check if earning already exists
-            const { data: existingEarning } = await supabase
-              .from('earnings')
-              .select('id')
-              .eq('booking_id', booking.id)
-              .single();
-
-            if (!existingEarning) {
-              await this.createEarning(
-                driverId,
-                ride.id,
-                booking.id,
-                booking.total_amount,
-                `Ride from ${ride.from_location} to ${ride.to_location}`
-              );
-            }
-          }
-        }
-      }
-      
-      console.log('Earnings sync completed');
-    } catch (error) {
-      console.error('Error in syncEarningsFromBookings:', error);
-    }
-  }
 }
\ No newline at end of file
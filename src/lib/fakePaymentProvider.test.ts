@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  FakePaymentProvider,
+  FAKE_APPROVAL_PAYMENT_METHOD,
+  FAKE_DECLINED_PAYMENT_METHOD,
+} from './fakePaymentProvider';
+
+const request = (overrides: Partial<Parameters<FakePaymentProvider['authorize']>[0]> = {}) => ({
+  amount: 50,
+  currency: 'cad',
+  paymentMethodId: 'pm_fake_card',
+  bookingId: 1,
+  userId: 'passenger-1',
+  ...overrides,
+});
+
+describe('FakePaymentProvider', () => {
+  let provider: FakePaymentProvider;
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider(24);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('authorize', () => {
+    it('holds the amount until it expires', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-11-02T08:00:00Z'));
+
+      const authorization = await provider.authorize(request());
+
+      expect(authorization.status).toBe('authorized');
+      expect(authorization.expiresAt).toEqual(new Date('2026-11-03T08:00:00Z'));
+      expect(await provider.getStatus(authorization.authorizationId)).toBe('authorized');
+    });
+
+    it('declines the declined test payment method', async () => {
+      await expect(provider.authorize(request({ paymentMethodId: FAKE_DECLINED_PAYMENT_METHOD })))
+        .rejects.toThrow('Your card was declined');
+    });
+
+    it('rejects an amount of zero', async () => {
+      await expect(provider.authorize(request({ amount: 0 }))).rejects.toThrow('Invalid amount specified');
+    });
+
+    it('waits for approval, then authorizes on confirm', async () => {
+      const authorization = await provider.authorize(request({ paymentMethodId: FAKE_APPROVAL_PAYMENT_METHOD }));
+
+      expect(authorization.status).toBe('requires_action');
+      await expect(provider.capture(authorization.authorizationId, 50)).rejects.toThrow();
+
+      const confirmed = await provider.confirm(authorization.authorizationId);
+
+      expect(confirmed.status).toBe('authorized');
+      await expect(provider.confirm(authorization.authorizationId)).rejects.toThrow('is authorized');
+    });
+  });
+
+  describe('capture', () => {
+    it('captures the full hold', async () => {
+      const { authorizationId } = await provider.authorize(request());
+
+      const capture = await provider.capture(authorizationId, 50);
+
+      expect(capture).toEqual({ transactionId: authorizationId, amountCaptured: 50 });
+      expect(await provider.getStatus(authorizationId)).toBe('captured');
+    });
+
+    it('captures part of the hold once', async () => {
+      const { authorizationId } = await provider.authorize(request());
+
+      await provider.capture(authorizationId, 30);
+
+      await expect(provider.capture(authorizationId, 20)).rejects.toThrow('Cannot capture a captured authorization');
+    });
+
+    it('does not capture more than the hold', async () => {
+      const { authorizationId } = await provider.authorize(request());
+
+      await expect(provider.capture(authorizationId, 50.01)).rejects.toThrow('Cannot capture 50.01 of a 50 authorization');
+      expect(await provider.getStatus(authorizationId)).toBe('authorized');
+    });
+
+    it('does not capture an unknown authorization', async () => {
+      await expect(provider.capture('fake_auth_missing', 10)).rejects.toThrow('No such authorization');
+    });
+  });
+
+  describe('void', () => {
+    it('releases the hold', async () => {
+      const { authorizationId } = await provider.authorize(request());
+
+      await provider.void(authorizationId);
+
+      expect(await provider.getStatus(authorizationId)).toBe('voided');
+      await expect(provider.capture(authorizationId, 50)).rejects.toThrow('Cannot capture a voided authorization');
+    });
+
+    it('releases a hold still waiting for approval', async () => {
+      const { authorizationId } = await provider.authorize(request({ paymentMethodId: FAKE_APPROVAL_PAYMENT_METHOD }));
+
+      await provider.void(authorizationId);
+
+      expect(await provider.getStatus(authorizationId)).toBe('voided');
+    });
+
+    it('cannot void a captured payment', async () => {
+      const { authorizationId } = await provider.authorize(request());
+      await provider.capture(authorizationId, 50);
+
+      await expect(provider.void(authorizationId)).rejects.toThrow('Cannot void a captured authorization');
+    });
+  });
+
+  describe('refund', () => {
+    it('refunds in parts up to the captured amount', async () => {
+      const { authorizationId } = await provider.authorize(request());
+      const { transactionId } = await provider.capture(authorizationId, 40);
+
+      const first = await provider.refund(transactionId, 15);
+
+      expect(first.amountRefunded).toBe(15);
+      expect(await provider.getStatus(authorizationId)).toBe('partially_refunded');
+      await expect(provider.refund(transactionId, 25.01)).rejects.toThrow('only 25 is refundable');
+
+      await provider.refund(transactionId, 25);
+
+      expect(await provider.getStatus(authorizationId)).toBe('refunded');
+      await expect(provider.refund(transactionId, 1)).rejects.toThrow('Cannot refund a refunded payment');
+    });
+
+    it('cannot refund a hold that was never captured', async () => {
+      const { authorizationId } = await provider.authorize(request());
+
+      await expect(provider.refund(authorizationId, 10)).rejects.toThrow('authorized payment');
+    });
+  });
+
+  describe('expiry', () => {
+    it('drops the hold after the authorization window', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-11-02T08:00:00Z'));
+      const { authorizationId } = await provider.authorize(request());
+
+      vi.setSystemTime(new Date('2026-11-03T07:59:00Z'));
+      expect(await provider.getStatus(authorizationId)).toBe('authorized');
+
+      vi.setSystemTime(new Date('2026-11-03T08:01:00Z'));
+      expect(await provider.getStatus(authorizationId)).toBe('voided');
+      await expect(provider.capture(authorizationId, 50)).rejects.toThrow('Payment authorization has expired');
+    });
+
+    it('does not expire a captured payment', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-11-02T08:00:00Z'));
+      const { authorizationId } = await provider.authorize(request());
+      await provider.capture(authorizationId, 50);
+
+      vi.setSystemTime(new Date('2026-11-10T08:00:00Z'));
+
+      expect(await provider.getStatus(authorizationId)).toBe('captured');
+      expect((await provider.refund(authorizationId, 50)).amountRefunded).toBe(50);
+    });
+  });
+
+  it('forgets every authorization on reset', async () => {
+    const { authorizationId } = await provider.authorize(request());
+
+    provider.reset();
+
+    await expect(provider.getStatus(authorizationId)).rejects.toThrow('No such authorization');
+    expect((await provider.authorize(request())).authorizationId).toBe('fake_auth_1');
+  });
+});
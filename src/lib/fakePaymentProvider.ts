@@ -0,0 +1,172 @@
+import type {
+  PaymentProvider,
+  ProviderAuthorizeRequest,
+  ProviderAuthorization,
+  ProviderCapture,
+  ProviderRefund,
+  ProviderPaymentStatus,
+} from './paymentProvider';
+
+// Payment method ids that make the fake provider fail, for exercising error paths
+export const FAKE_DECLINED_PAYMENT_METHOD = 'pm_fake_declined';
+export const FAKE_APPROVAL_PAYMENT_METHOD = 'pm_fake_requires_approval';
+
+interface FakeAuthorization {
+  id: string;
+  amount: number;
+  currency: string;
+  status: ProviderPaymentStatus;
+  captured: number;
+  refunded: number;
+  expiresAt: Date;
+}
+
+/**
+ * Fake Payment Provider
+ * Keeps authorizations in memory so the hold lifecycle can run without a
+ * processor (VITE_PAYMENT_PROVIDER=fake). Enforces the same rules a real
+ * processor would: no capture above the hold, no capture after a void or
+ * expiry, no refund above what was captured.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly id = 'fake';
+
+  private authorizations = new Map<string, FakeAuthorization>();
+  private nextId = 1;
+
+  constructor(private authorizationHours: number = 7 * 24) {}
+
+  /**
+   * Hold the amount. Declines FAKE_DECLINED_PAYMENT_METHOD; FAKE_APPROVAL_PAYMENT_METHOD
+   * waits for confirm() like a PayPal order.
+   */
+  async authorize(request: ProviderAuthorizeRequest): Promise<ProviderAuthorization> {
+    if (request.amount <= 0) {
+      throw new Error('Invalid amount specified');
+    }
+    if (request.paymentMethodId === FAKE_DECLINED_PAYMENT_METHOD) {
+      throw new Error('Your card was declined');
+    }
+
+    const authorization: FakeAuthorization = {
+      id: `fake_auth_${this.nextId++}`,
+      amount: request.amount,
+      currency: request.currency,
+      status: request.paymentMethodId === FAKE_APPROVAL_PAYMENT_METHOD ? 'requires_action' : 'authorized',
+      captured: 0,
+      refunded: 0,
+      expiresAt: new Date(Date.now() + this.authorizationHours * 60 * 60 * 1000),
+    };
+    this.authorizations.set(authorization.id, authorization);
+
+    return {
+      authorizationId: authorization.id,
+      status: authorization.status === 'requires_action' ? 'requires_action' : 'authorized',
+      expiresAt: authorization.expiresAt,
+    };
+  }
+
+  /**
+   * Approve an authorization that was waiting for the payer
+   */
+  async confirm(authorizationId: string): Promise<ProviderAuthorization> {
+    const authorization = this.find(authorizationId);
+    if (authorization.status !== 'requires_action') {
+      throw new Error(`Authorization ${authorizationId} is ${authorization.status}`);
+    }
+
+    authorization.status = 'authorized';
+    return {
+      authorizationId: authorization.id,
+      status: 'authorized',
+      expiresAt: authorization.expiresAt,
+    };
+  }
+
+  /**
+   * Capture up to the held amount; the rest of the hold is released
+   */
+  async capture(authorizationId: string, amount: number): Promise<ProviderCapture> {
+    const authorization = this.findActive(authorizationId);
+    if (amount <= 0 || amount > authorization.amount) {
+      throw new Error(`Cannot capture ${amount} of a ${authorization.amount} authorization`);
+    }
+
+    authorization.status = 'captured';
+    authorization.captured = amount;
+    return { transactionId: authorization.id, amountCaptured: amount };
+  }
+
+  /**
+   * Release the hold
+   */
+  async void(authorizationId: string): Promise<void> {
+    const authorization = this.find(authorizationId);
+    if (authorization.status !== 'authorized' && authorization.status !== 'requires_action') {
+      throw new Error(`Cannot void a ${authorization.status} authorization`);
+    }
+
+    authorization.status = 'voided';
+  }
+
+  /**
+   * Refund up to what is left of the capture
+   */
+  async refund(transactionId: string, amount: number): Promise<ProviderRefund> {
+    const authorization = this.find(transactionId);
+    if (authorization.status !== 'captured' && authorization.status !== 'partially_refunded') {
+      throw new Error(`Cannot refund a ${authorization.status} payment`);
+    }
+
+    const refundable = Math.round((authorization.captured - authorization.refunded) * 100) / 100;
+    if (amount <= 0 || amount > refundable) {
+      throw new Error(`Cannot refund ${amount}, only ${refundable} is refundable`);
+    }
+
+    authorization.refunded = Math.round((authorization.refunded + amount) * 100) / 100;
+    authorization.status = authorization.refunded >= authorization.captured ? 'refunded' : 'partially_refunded';
+    return { refundId: `fake_refund_${this.nextId++}`, amountRefunded: amount };
+  }
+
+  /**
+   * Current state of the authorization
+   */
+  async getStatus(authorizationId: string): Promise<ProviderPaymentStatus> {
+    const authorization = this.find(authorizationId);
+    if (this.isExpired(authorization)) return 'voided';
+    return authorization.status;
+  }
+
+  /**
+   * Forget every authorization
+   */
+  reset(): void {
+    this.authorizations.clear();
+    this.nextId = 1;
+  }
+
+  private find(authorizationId: string): FakeAuthorization {
+    const authorization = this.authorizations.get(authorizationId);
+    if (!authorization) {
+      throw new Error(`No such authorization: ${authorizationId}`);
+    }
+    return authorization;
+  }
+
+  private findActive(authorizationId: string): FakeAuthorization {
+    const authorization = this.find(authorizationId);
+    if (authorization.status !== 'authorized') {
+      throw new Error(`Cannot capture a ${authorization.status} authorization`);
+    }
+    if (this.isExpired(authorization)) {
+      throw new Error('Payment authorization has expired');
+    }
+    return authorization;
+  }
+
+  private isExpired(authorization: FakeAuthorization): boolean {
+    return authorization.status === 'authorized' && Date.now() > authorization.expiresAt.getTime();
+  }
+}
+
+export const fakePaymentProvider = new FakePaymentProvider();
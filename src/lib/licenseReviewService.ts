@@ -0,0 +1,68 @@
+import { staffApiRequest } from './staffApi';
+import { User } from '../types';
+
+export type LicenseDecision = 'approved' | 'rejected';
+
+export interface LicenseSubmission {
+  user_id: string;
+  display_name: string | null;
+  email: string | null;
+  driver_license: string | null;
+  license_expiration_date: string | null;
+  license_uploaded_at: string | null;
+  license_verification_status: NonNullable<User['license_verification_status']>;
+  document_url: string | null; // Signed, valid for a few minutes
+  document_type: 'image' | 'pdf' | null;
+}
+
+export interface LicenseReview {
+  id: number;
+  user_id: string;
+  reviewer_id: string;
+  decision: LicenseDecision;
+  reason: string | null;
+  driver_license: string | null;
+  license_expiration_date: string | null;
+  license_document_url: string | null;
+  notified_at: string | null;
+  created_at: string;
+  driver?: { display_name: string | null; email: string | null };
+  reviewer?: { display_name: string | null; email: string | null };
+}
+
+/**
+ * License Review Service
+ * Thin client over the /api/admin/licenses function, which checks that the
+ * caller may review licenses.
+ */
+export class LicenseReviewService {
+  /**
+   * Licenses in a status, oldest upload first
+   */
+  static async getSubmissions(status: LicenseSubmission['license_verification_status'] = 'pending'): Promise<LicenseSubmission[]> {
+    return staffApiRequest<LicenseSubmission[]>(`/licenses?status=${encodeURIComponent(status)}`);
+  }
+
+  /**
+   * Audit log of review decisions, newest first
+   */
+  static async getReviews(userId?: string): Promise<LicenseReview[]> {
+    return staffApiRequest<LicenseReview[]>(`/licenses/reviews${userId ? `?user_id=${encodeURIComponent(userId)}` : ''}`);
+  }
+
+  /**
+   * Approve a pending license
+   */
+  static async approve(userId: string): Promise<LicenseReview> {
+    return staffApiRequest<LicenseReview>(`/licenses/${encodeURIComponent(userId)}/review`, { decision: 'approved' });
+  }
+
+  /**
+   * Reject a pending license; the reason is shown to the driver
+   */
+  static async reject(userId: string, reason: string): Promise<LicenseReview> {
+    return staffApiRequest<LicenseReview>(`/licenses/${encodeURIComponent(userId)}/review`, { decision: 'rejected', reason });
+  }
+}
+
+export default LicenseReviewService;
@@ -7,6 +7,7 @@ export interface NotificationSettings {
   paymentNotifications: boolean;
   licenseExpirationNotifications: boolean;
   supportTicketNotifications: boolean;
+  rideAlertNotifications: boolean;
   soundEnabled: boolean;
 }
 
@@ -35,6 +36,7 @@ export class NotificationService {
     paymentNotifications: true,
     licenseExpirationNotifications: true,
     supportTicketNotifications: true,
+    rideAlertNotifications: true,
     soundEnabled: true,
   };
 
@@ -192,6 +194,11 @@ export class NotificationService {
         body = `Your ride from ${rideDetails.from_location} to ${rideDetails.to_location} has been confirmed!`;
         icon = '✅';
         break;
+      case 'offered':
+        title = '🎟️ Seat Available';
+        body = `A seat opened up on the ride from ${rideDetails.from_location} to ${rideDetails.to_location}. Accept it before the offer expires!`;
+        icon = '🎟️';
+        break;
       case 'cancelled':
         title = '❌ Ride Cancelled';
         body = `Your ride from ${rideDetails.from_location} to ${rideDetails.to_location} has been cancelled.`;
@@ -402,6 +409,74 @@ export class NotificationService {
     }
   }
 
+  // Saved search alert notification methods
+  async showRideAlertNotification(alert: {
+    id: number;
+    ride_id: number;
+    pickup_address: string;
+    dropoff_address: string;
+    pickup_time: string;
+    segment_price: number;
+  }) {
+    if (!this.settings.rideAlertNotifications) return;
+
+    const pickupTime = new Date(alert.pickup_time).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+
+    await this.showNotification({
+      id: `ride-alert-${alert.id}`,
+      title: '🔔 New Ride Matches Your Search',
+      body: `${alert.pickup_address} → ${alert.dropoff_address} on ${pickupTime} for $${Number(alert.segment_price).toFixed(2)}`,
+      tag: `ride-alert-${alert.ride_id}`,
+      data: {
+        type: 'ride_alert',
+        alertId: alert.id,
+        rideId: alert.ride_id,
+        url: '/saved-searches'
+      },
+      actions: [
+        { action: 'view', title: 'View Ride' }
+      ]
+    });
+  }
+
+  // Show ride alerts that arrived while the app was closed
+  async processPendingRideAlerts(userId: string) {
+    if (!this.settings.rideAlertNotifications) return;
+
+    try {
+      const { data: alerts, error } = await supabase
+        .from('ride_alert_notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .is('notified_at', null)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching pending ride alerts:', error);
+        return;
+      }
+
+      if (alerts && alerts.length > 0) {
+        for (const alert of alerts) {
+          await this.showRideAlertNotification(alert);
+        }
+
+        await supabase
+          .from('ride_alert_notifications')
+          .update({ notified_at: new Date().toISOString() })
+          .in('id', alerts.map(alert => alert.id));
+      }
+    } catch (error) {
+      console.error('Error processing pending ride alerts:', error);
+    }
+  }
+
   // License expiration notification methods
   async showLicenseExpirationNotification(
     urgencyLevel: 'expired' | 'urgent' | 'warning', 
@@ -463,6 +538,68 @@ export class NotificationService {
     await this.logLicenseNotification(urgencyLevel, expirationDate, daysUntilExpiry);
   }
 
+  // License review decision notification, from a license_reviews row
+  async showLicenseReviewNotification(review: {
+    id: number;
+    decision: 'approved' | 'rejected';
+    reason?: string | null;
+  }) {
+    if (!this.settings.licenseExpirationNotifications) return;
+
+    const approved = review.decision === 'approved';
+
+    await this.showNotification({
+      id: `license-review-${review.id}`,
+      title: approved ? '✅ License Approved' : '❌ License Rejected',
+      body: approved
+        ? 'Your driver\'s license has been verified. You can now offer rides.'
+        : `Your driver's license was not approved: ${review.reason || 'please upload a new document'}.`,
+      tag: 'license-review',
+      requireInteraction: !approved,
+      data: {
+        type: 'license_review',
+        reviewId: review.id,
+        decision: review.decision,
+        url: '/profile'
+      },
+      actions: approved
+        ? [{ action: 'view', title: 'View Profile' }]
+        : [{ action: 'update', title: 'Upload New Document' }]
+    });
+  }
+
+  // Show license review decisions made while the app was closed
+  async processPendingLicenseReviews(userId: string) {
+    if (!this.settings.licenseExpirationNotifications) return;
+
+    try {
+      const { data: reviews, error } = await supabase
+        .from('license_reviews')
+        .select('id, decision, reason')
+        .eq('user_id', userId)
+        .is('notified_at', null)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching pending license reviews:', error);
+        return;
+      }
+
+      if (reviews && reviews.length > 0) {
+        for (const review of reviews) {
+          await this.showLicenseReviewNotification(review);
+        }
+
+        await supabase
+          .from('license_reviews')
+          .update({ notified_at: new Date().toISOString() })
+          .in('id', reviews.map(review => review.id));
+      }
+    } catch (error) {
+      console.error('Error processing pending license reviews:', error);
+    }
+  }
+
   private async logLicenseNotification(
     urgencyLevel: string, 
     expirationDate: string, 
@@ -645,6 +782,36 @@ export class NotificationService {
     // Process any pending support ticket notifications on startup
     this.processPendingSupportTicketNotifications(userId);
 
+    // Listen for newly posted rides matching the user's saved searches
+    const rideAlertsChannel = supabase
+      .channel('ride-alert-notifications')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'ride_alert_notifications',
+        filter: `user_id=eq.${userId}`
+      }, (payload) => {
+        this.handleRideAlert(payload.new);
+      })
+      .subscribe();
+
+    this.processPendingRideAlerts(userId);
+
+    // Listen for admin decisions on the user's license
+    const licenseReviewsChannel = supabase
+      .channel('license-review-notifications')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'license_reviews',
+        filter: `user_id=eq.${userId}`
+      }, (payload) => {
+        this.handleLicenseReview(payload.new);
+      })
+      .subscribe();
+
+    this.processPendingLicenseReviews(userId);
+
     // Setup periodic license expiration checks (every hour when app is active)
     this.setupLicenseExpirationChecks(userId);
 
@@ -653,7 +820,9 @@ export class NotificationService {
       bookingsChannel,
       driverChannel,
       earningsChannel,
-      supportTicketsChannel
+      supportTicketsChannel,
+      rideAlertsChannel,
+      licenseReviewsChannel
     };
   }
 
@@ -762,6 +931,36 @@ export class NotificationService {
     }
   }
 
+  private async handleRideAlert(alert: any) {
+    try {
+      if (!this.settings.rideAlertNotifications) return;
+
+      await this.showRideAlertNotification(alert);
+
+      await supabase
+        .from('ride_alert_notifications')
+        .update({ notified_at: new Date().toISOString() })
+        .eq('id', alert.id);
+    } catch (error) {
+      console.error('Error handling ride alert notification:', error);
+    }
+  }
+
+  private async handleLicenseReview(review: any) {
+    try {
+      if (!this.settings.licenseExpirationNotifications) return;
+
+      await this.showLicenseReviewNotification(review);
+
+      await supabase
+        .from('license_reviews')
+        .update({ notified_at: new Date().toISOString() })
+        .eq('id', review.id);
+    } catch (error) {
+      console.error('Error handling license review notification:', error);
+    }
+  }
+
   // Check if notifications are supported and enabled
   isSupported(): boolean {
     return 'Notification' in window && 'serviceWorker' in navigator;
@@ -1,45 +1,67 @@
 import { supabase } from './supabase';
+import { getPaymentProvider, PaymentProvider, ProviderAuthorization } from './paymentProvider';
+import type { PromoCode } from './promoCodeService';
+import { CreditWalletService } from './creditWalletService';
 
 export interface PaymentHoldData {
   amount: number;
   paymentMethod: {
     id: string;
-    type: 'stripe' | 'paypal';
+    type: string; // Provider id ('stripe', 'paypal', ...) or a card type, which Stripe handles
     last4?: string;
     brand?: string;
   };
   bookingId: number;
   userId: string;
+  promoCode?: string;
+  creditAmount?: number; // Wallet credit to apply, up to the passenger's balance
 }
 
 export interface PaymentHoldResult {
   success: boolean;
   paymentId?: number;
   authorizationId?: string;
+  requiresAction?: boolean; // The payer still has to approve it (PayPal, 3D Secure); see confirmPaymentHold
+  clientSecret?: string; // Stripe: finish 3D Secure with this before confirmPaymentHold
   expiresAt?: Date;
+  discountAmount?: number; // Covered by the promo code and credit
+  chargedAmount?: number; // Held on the payment method
   error?: string;
 }
 
-export interface PaymentCaptureResult {
-  success: boolean;
-  transactionId?: string;
-  amountCaptured?: number;
-  error?: string;
+export type RefundReason = 'driver_rejected' | 'driver_cancelled' | 'timeout' | 'passenger_cancelled' | 'waitlist_released' | 'seats_reduced' | 'early_dropoff';
+
+// How long the driver has to accept before the hold is released
+const HOLD_WINDOW_HOURS = 12;
+
+// Statuses of a payment whose hold has not been captured or released
+const OPEN_HOLD_STATUSES = ['authorized', 'requires_capture', 'requires_action'];
+
+const PAYMENT_CURRENCY = 'CAD';
+
+// Discounts never cover the whole fare, so every booking has a card payment to capture
+export const MIN_CHARGE_AMOUNT = 0.5;
+
+interface ReservedDiscounts {
+  promo?: { promo: PromoCode; amount: number; redemptionId: number };
+  credit: number;
+  total: number;
 }
 
-export interface PaymentRefundResult {
-  success: boolean;
-  refundAmount?: number;
-  reason?: string;
-  error?: string;
+// A booking's status with its ride's departure, as selected by recordAuthorization
+interface BookingDepartureRow {
+  status: string;
+  rides: { departure_time: string | null } | null;
 }
 
-export type RefundReason = 'driver_rejected' | 'timeout' | 'passenger_cancelled';
+const round = (value: number) => Math.round(value * 100) / 100;
 
 /**
  * Payment Hold Service - LIVE PAYMENTS ONLY
- * Handles live payment authorization holds, captures, and refunds for ride bookings
- * Note: Requires backend API deployment for Stripe integration
+ * Handles live payment authorization holds for ride bookings
+ * The processor is a PaymentProvider looked up by payments.payment_method.
+ * Captures and refunds are settled by the booking transitions API
+ * (api/_lib/paymentSettlement) when the booking's status changes
  */
 export class PaymentHoldService {
   
@@ -47,903 +69,312 @@ export class PaymentHoldService {
    * Create a payment authorization hold when passenger requests a ride
    */
   static async createPaymentHold(data: PaymentHoldData): Promise<PaymentHoldResult> {
+    // A promo code and credit are taken first; only the rest is held on the payment method.
+    // They stay with the booking if the hold fails, for the next attempt or its release
+    let discounts: ReservedDiscounts;
     try {
-      // Route to appropriate payment processor based on payment method type
-      if (data.paymentMethod.type === 'paypal') {
-        return await this.createPayPalPaymentHold(data);
-      } else {
-        return await this.createStripePaymentHold(data);
-      }
+      discounts = await this.reserveDiscounts(data);
     } catch (error) {
-      console.error('Payment hold creation failed:', error);
       return {
         success: false,
-        error: 'Payment authorization failed. Please try again.'
+        error: error instanceof Error ? error.message : 'Failed to apply discount'
       };
     }
-  }
 
-  /**
-   * Create PayPal payment authorization hold
-   */
-  private static async createPayPalPaymentHold(data: PaymentHoldData): Promise<PaymentHoldResult> {
-    try {
-      const { PayPalService } = await import('./paypalService');
-      
-      // Create PayPal payment hold
-      const paypalResult = await PayPalService.createPaymentHold(
-        data.amount,
-        'CAD',
-        data.bookingId,
-        data.userId
-      );
-
-      // Calculate expiration time (12 hours from now)
-      const expiresAt = new Date(Date.now() + 12 * 60 * 60 * 1000);
-
-      // Get the created payment record ID
-      const { data: payment, error: fetchError } = await supabase
-        .from('payments')
-        .select('id')
-        .eq('transaction_id', paypalResult.orderId)
-        .eq('booking_id', data.bookingId)
-        .single();
-
-      if (fetchError || !payment) {
-        throw new Error('Failed to retrieve PayPal payment record');
-      }
-
-      // Create payment hold tracking record
-      const { error: holdError } = await supabase
-        .from('payment_holds')
-        .insert({
-          booking_id: data.bookingId,
-          payment_id: payment.id,
-          hold_amount: data.amount,
-          hold_expires_at: expiresAt.toISOString(),
-          status: 'active'
-        });
-
-      if (holdError) {
-        console.error('Failed to create PayPal payment hold record:', holdError);
-      }
-
-      // Update booking with payment authorization details
-      const { error: bookingError } = await supabase
-        .from('ride_bookings')
-        .update({
-          payment_authorized_at: new Date().toISOString(),
-          payment_expires_at: expiresAt.toISOString(),
-          response_deadline: expiresAt.toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', data.bookingId);
-
-      if (bookingError) {
-        console.error('Failed to update booking with PayPal payment details:', bookingError);
-        return {
-          success: false,
-          error: 'Failed to update booking with payment details'
-        };
-      }
-
-      return {
-        success: true,
-        paymentId: payment.id,
-        authorizationId: paypalResult.orderId,
-        expiresAt: expiresAt
-      };
-
-    } catch (error) {
-      console.error('PayPal payment hold creation failed:', error);
-      return {
-        success: false,
-        error: 'PayPal payment authorization failed. Please try again.'
-      };
-    }
-  }
+    const chargeData: PaymentHoldData = { ...data, amount: round(data.amount - discounts.total) };
 
-  /**
-   * Create Stripe payment authorization hold using backend API
-   */
-  private static async createStripePaymentHold(data: PaymentHoldData): Promise<PaymentHoldResult> {
     try {
-      console.log('Creating Stripe payment hold:', {
+      const provider = getPaymentProvider(data.paymentMethod.type);
+
+      console.log(`Creating ${provider.id} payment hold:`, {
         bookingId: data.bookingId,
         userId: data.userId,
-        amount: data.amount,
+        amount: chargeData.amount,
+        discount: discounts.total,
         paymentMethodId: data.paymentMethod.id
       });
 
-      // Use real Stripe API via backend service
-      const { stripeAPIClient } = await import('./stripeApiClient');
-      
-      // Create payment intent with authorization hold
-      const paymentIntentResult = await stripeAPIClient.createPaymentIntent({
-        amount: data.amount,
-        currency: 'cad',
-        capture_method: 'manual',
-        booking_id: data.bookingId,
-        user_id: data.userId,
-        payment_method_id: data.paymentMethod.id // Use saved payment method if available
-      });
-
-      console.log('Stripe Payment Intent result:', {
-        id: paymentIntentResult.payment_intent.id,
-        isMock: paymentIntentResult.payment_intent.id.includes('mock'),
-        status: paymentIntentResult.payment_intent.status
-      });
-
-      // 2. Calculate expiration time (12 hours from now)
-      const expiresAt = new Date(Date.now() + 12 * 60 * 60 * 1000);
-
-      // 3. Determine payment status based on whether this is mock or real
-      const isMockPayment = paymentIntentResult.payment_intent.id.includes('mock');
-      const paymentStatus = isMockPayment ? 'authorized' : 'authorized';
-
-      console.log('Creating payment record:', {
-        isMock: isMockPayment,
-        status: paymentStatus,
-        paymentIntentId: paymentIntentResult.payment_intent.id
+      const authorization = await provider.authorize({
+        amount: chargeData.amount,
+        currency: PAYMENT_CURRENCY,
+        paymentMethodId: data.paymentMethod.id || undefined,
+        bookingId: data.bookingId,
+        userId: data.userId
       });
 
-      // 3. Store payment record in database
-      const { data: payment, error: paymentError } = await supabase
-        .from('payments')
-        .insert({
-          booking_id: data.bookingId,
-          user_id: data.userId,
-          amount: data.amount,
-          currency: 'cad',
-          status: paymentStatus,
-          payment_method: 'stripe',
-          payment_intent_id: paymentIntentResult.payment_intent.id,
-          authorization_id: paymentIntentResult.payment_intent.id,
-          expires_at: expiresAt.toISOString(),
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (paymentError) {
-        console.error('Failed to create payment record:', paymentError);
-        console.error('Payment error details:', paymentError.message, paymentError.code);
-        return {
-          success: false,
-          error: `Failed to create payment authorization: ${paymentError.message}`
-        };
-      }
-
-      console.log('Payment record created successfully:', payment.id);
-
-      // 4. Create payment hold tracking record
-      const { error: holdError } = await supabase
-        .from('payment_holds')
-        .insert({
-          booking_id: data.bookingId,
-          payment_id: payment.id,
-          hold_amount: data.amount,
-          hold_expires_at: expiresAt.toISOString(),
-          status: 'active'
-        });
-
-      if (holdError) {
-        console.error('Failed to create payment hold record:', holdError);
-        console.error('Hold error details:', holdError.message, holdError.code);
-        // Don't fail the entire operation for tracking record issues
-      } else {
-        console.log('Payment hold tracking record created successfully');
-      }
-
-      // 5. Update booking with payment authorization details
-      const { error: bookingError } = await supabase
-        .from('ride_bookings')
-        .update({
-          payment_status: 'authorized',
-          payment_authorized_at: new Date().toISOString(),
-          payment_expires_at: expiresAt.toISOString(),
-          response_deadline: expiresAt.toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', data.bookingId);
-
-      if (bookingError) {
-        console.error('Failed to update booking with payment details:', bookingError);
-        console.error('Booking error details:', bookingError.message, bookingError.code);
-        return {
-          success: false,
-          error: `Failed to update booking with payment details: ${bookingError.message}`
-        };
+      const result = await this.recordAuthorization(provider, chargeData, authorization);
+      if (!result.success) {
+        return result;
       }
 
-      console.log('Booking updated with payment authorization details');
-
-      const result = {
-        success: true,
-        paymentId: payment.id,
-        authorizationId: paymentIntentResult.payment_intent.id,
-        clientSecret: paymentIntentResult.client_secret,
-        expiresAt: expiresAt
-      };
-
-      console.log('Stripe payment hold created successfully:', result);
-      return result;
-
+      return { ...result, discountAmount: discounts.total, chargedAmount: chargeData.amount };
     } catch (error) {
-      console.error('Stripe payment hold creation failed:', error);
-      
-      // Enhanced error reporting
-      let errorMessage = 'Stripe payment authorization failed. Please try again.';
-      
-      if (error instanceof Error) {
-        console.error('Error details:', error.message, error.stack);
-        
-        // Provide more specific error messages based on error type
-        if (error.message.includes('fetch')) {
-          errorMessage = 'Payment service connection failed. Please check your internet connection and try again.';
-        } else if (error.message.includes('payment_intent')) {
-          errorMessage = 'Payment authorization setup failed. Please verify your payment details and try again.';
-        } else if (error.message.includes('database')) {
-          errorMessage = 'Payment record creation failed. Please try again or contact support.';
-        }
-      }
-
+      console.error('Payment hold creation failed:', error);
       return {
         success: false,
-        error: errorMessage
+        error: this.getAuthorizationErrorMessage(error)
       };
     }
   }
 
   /**
-   * Capture payment hold when driver accepts the ride request
+   * Redeem the promo code and spend wallet credit for a new hold, leaving at
+   * least MIN_CHARGE_AMOUNT for the payment method. The wallet API does the
+   * writes, so the limits hold even against a modified client, and a booking
+   * that already has discounts gets the same ones back.
    */
-  static async capturePaymentHold(bookingId: number): Promise<PaymentCaptureResult> {
-    try {
-      console.log('Looking for payment authorization for booking:', bookingId);
-      
-      // 1. Enhanced debugging - check all payments for this booking first
-      const { data: allPayments, error: allPaymentsError } = await supabase
-        .from('payments')
-        .select('id, booking_id, status, payment_method, transaction_id, payment_intent_id, created_at')
-        .eq('booking_id', bookingId);
-      
-      console.log('All payments for booking', bookingId, ':', allPayments);
-      console.log('All payments query error:', allPaymentsError);
-      
-      if (allPaymentsError) {
-        console.error('Failed to query all payments:', allPaymentsError);
-        return {
-          success: false,
-          error: `Database query failed: ${allPaymentsError.message}`
-        };
-      }
+  private static async reserveDiscounts(data: PaymentHoldData): Promise<ReservedDiscounts> {
+    if (!data.promoCode && !(data.creditAmount && data.creditAmount > 0)) {
+      return { credit: 0, total: 0 };
+    }
 
-      if (!allPayments || allPayments.length === 0) {
-        console.error('No payment records found for booking', bookingId);
-        
-        // Check if booking exists and has legacy payment data
-        const { data: booking, error: bookingError } = await supabase
-          .from('ride_bookings')
-          .select('id, status, payment_status, payment_intent_id, total_amount, passenger_id, created_at')
-          .eq('id', bookingId)
-          .single();
-        
-        console.log('Booking details:', booking);
-        console.log('Booking query error:', bookingError);
-        
-        if (booking && booking.payment_status === 'paid' && booking.payment_intent_id) {
-          console.log('Creating missing payment record for legacy booking', bookingId);
-          
-          // Create missing payment record for legacy booking
-          const { data: createdPayment, error: createError } = await supabase
-            .from('payments')
-            .insert({
-              booking_id: bookingId,
-              user_id: booking.passenger_id,
-              amount: booking.total_amount,
-              currency: 'cad',
-              status: 'completed',
-              payment_method: 'stripe',
-              payment_intent_id: booking.payment_intent_id,
-              authorization_id: booking.payment_intent_id,
-              created_at: booking.created_at,
-              updated_at: booking.created_at
-            })
-            .select()
-            .single();
-            
-          if (createError) {
-            console.error('Failed to create missing payment record:', createError);
-            return {
-              success: false,
-              error: `Legacy booking ${bookingId} payment record creation failed: ${createError.message}`
-            };
-          }
-          
-          console.log('Successfully created payment record for legacy booking:', createdPayment);
-          return {
-            success: true,
-            message: `Legacy booking ${bookingId} payment record created successfully. Payment already completed.`,
-            paymentId: createdPayment.id
-          };
-        }
-        
-        return {
-          success: false,
-          error: `No payment records found for booking ${bookingId}. Booking exists: ${booking ? 'YES' : 'NO'}`
-        };
-      }
+    const reserved = await CreditWalletService.reserveDiscounts(data.bookingId, data.amount, data.promoCode, data.creditAmount);
+    return {
+      promo: reserved.promo
+        ? { promo: reserved.promo.promo, amount: reserved.promo.amount, redemptionId: reserved.promo.redemption_id }
+        : undefined,
+      credit: reserved.credit,
+      total: reserved.total
+    };
+  }
 
-      // 2. Get payment authorization details - expanded status search
+  /**
+   * Finish a hold that needed the payer's approval (PayPal, 3D Secure), once they approved it
+   */
+  static async confirmPaymentHold(bookingId: number): Promise<PaymentHoldResult> {
+    try {
       const { data: payment, error: fetchError } = await supabase
         .from('payments')
         .select('*')
         .eq('booking_id', bookingId)
-        .in('status', ['authorized', 'requires_capture', 'requires_action'])
+        .eq('status', 'requires_action')
         .single();
 
-      console.log('Capturable payment record found:', payment);
-      console.log('Capturable payment fetch error:', fetchError);
-
       if (fetchError || !payment) {
-        // Show detailed status information
-        const statusCounts = allPayments.reduce((acc, p) => {
-          acc[p.status] = (acc[p.status] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
-        
-        console.log('Payment status breakdown:', statusCounts);
-        
-        // Check if any payment is already completed
-        const completedPayment = allPayments.find(p => p.status === 'completed');
-        if (completedPayment) {
-          console.log('Payment already completed for booking', bookingId, '- payment ID:', completedPayment.id);
-          return {
-            success: true,
-            message: `Payment for booking ${bookingId} already completed`,
-            paymentId: completedPayment.id
-          };
-        }
-        
         return {
           success: false,
-          error: `No capturable payment found for booking ${bookingId}. Found ${allPayments.length} payments with statuses: ${Object.entries(statusCounts).map(([status, count]) => `${status}(${count})`).join(', ')}`
+          error: `No payment awaiting approval for booking ${bookingId}`
         };
       }
 
-      // 2. Check if authorization is still valid
-      if (new Date() > new Date(payment.expires_at)) {
-        return {
-          success: false,
-          error: 'Payment authorization has expired'
-        };
-      }
-
-      // 3. Route to appropriate payment processor
-      if (payment.payment_method === 'paypal') {
-        return await this.capturePayPalPaymentHold(payment, bookingId);
-      } else {
-        return await this.captureStripePaymentHold(payment, bookingId);
-      }
-
-    } catch (error) {
-      console.error('Payment capture failed:', error);
-      return {
-        success: false,
-        error: 'Failed to capture payment. Please try again.'
-      };
-    }
-  }
-
-  /**
-   * Capture PayPal payment hold
-   */
-  private static async capturePayPalPaymentHold(payment: any, bookingId: number): Promise<PaymentCaptureResult> {
-    try {
-      console.log('Capturing PayPal payment hold:', { paymentId: payment.id, status: payment.status, bookingId });
-      
-      const { PayPalService } = await import('./paypalService');
-
-      // For PayPal, we need to first process the authorization if not already done
-      let authorizationId = payment.payment_intent_id;
-      
-      if (payment.status === 'requires_action') {
-        console.log('Processing PayPal authorization first for order:', payment.transaction_id);
-        
-        // Process authorization first
-        const authResult = await PayPalService.processAuthorization(
-          payment.transaction_id,
-          bookingId,
-          payment.user_id
-        );
-        authorizationId = authResult.authorizationId!;
-        
-        console.log('Authorization processed, authorizationId:', authorizationId);
-      } else {
-        console.log('Using existing authorizationId:', authorizationId);
-      }
+      const provider = getPaymentProvider(payment.payment_method);
+      const authorization = await this.confirmAuthorization(provider, payment);
 
-      // Capture the PayPal authorization
-      console.log('Capturing PayPal authorization:', authorizationId);
-      const captureResult = await PayPalService.captureHeldPayment(
-        authorizationId,
-        bookingId,
-        payment.amount
-      );
-      
-      console.log('PayPal capture result:', captureResult);
-
-      // Update payment hold status
-      await supabase
-        .from('payment_holds')
-        .update({
-          status: 'captured',
-          updated_at: new Date().toISOString()
-        })
-        .eq('payment_id', payment.id);
-
-      // Update booking status to confirmed
-      await supabase
+      const { error: bookingError } = await supabase
         .from('ride_bookings')
         .update({
-          status: 'confirmed',
+          payment_status: 'authorized',
+          payment_authorized_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
         .eq('id', bookingId);
 
+      if (bookingError) {
+        console.error('Failed to update booking with payment authorization:', bookingError);
+      }
+
       return {
         success: true,
-        transactionId: captureResult.paymentId,
-        amountCaptured: captureResult.amount
+        paymentId: payment.id,
+        authorizationId: authorization.authorizationId,
+        expiresAt: new Date(payment.expires_at)
       };
-
     } catch (error) {
-      console.error('PayPal payment capture failed:', error);
+      console.error('Payment hold confirmation failed:', error);
       return {
         success: false,
-        error: 'Failed to capture PayPal payment. Please try again.'
+        error: 'Payment approval failed. Please try again.'
       };
     }
   }
 
   /**
-   * Capture Stripe payment hold using backend API
+   * Store a new authorization in payments and payment_holds and on the booking.
+   * A hold the booking already had (e.g. one whose renewal failed) is released.
    */
-  private static async captureStripePaymentHold(payment: any, bookingId: number): Promise<PaymentCaptureResult> {
-    try {
-      // Use real Stripe API via backend service
-      const { stripeAPIClient } = await import('./stripeApiClient');
-      
-      // Capture the payment intent
-      const captureResult = await stripeAPIClient.capturePaymentIntent(
-        payment.payment_intent_id,
-        payment.amount // Optional: specify exact capture amount
-      );
-
-      console.log('Stripe payment captured via backend API:', captureResult.payment_intent?.id);
-
-      // Update payment status to captured with real transaction data
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'captured',
-          transaction_id: captureResult.payment_intent?.id || payment.payment_intent_id,
-          captured_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', payment.id);
-
-      if (updateError) {
-        console.error('Failed to update payment status:', updateError);
-        return {
-          success: false,
-          error: 'Failed to process payment capture'
-        };
-      }
-
-      // Update payment hold status
-      await supabase
-        .from('payment_holds')
-        .update({
-          status: 'captured',
-          updated_at: new Date().toISOString()
-        })
-        .eq('payment_id', payment.id);
-
-      // Update booking status to confirmed
-      await supabase
-        .from('ride_bookings')
-        .update({
-          status: 'confirmed',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      return {
-        success: true,
-        transactionId: captureResult.payment_intent?.id || payment.payment_intent_id,
-        amountCaptured: captureResult.amount_processed || payment.amount
-      };
-
-    } catch (error) {
-      console.error('Stripe payment capture failed:', error);
+  private static async recordAuthorization(
+    provider: PaymentProvider,
+    data: PaymentHoldData,
+    authorization: ProviderAuthorization
+  ): Promise<PaymentHoldResult> {
+    // expires_at is when the processor drops the hold; api/payments/holds renews it before then
+    const windowEnd = new Date(Date.now() + HOLD_WINDOW_HOURS * 60 * 60 * 1000);
+    const expiresAt = authorization.expiresAt || windowEnd;
+
+    // The driver has the response window to accept; a waitlist spot lasts until departure
+    const { data: booking } = await supabase
+      .from('ride_bookings')
+      .select('status, rides (departure_time)')
+      .eq('id', data.bookingId)
+      .single<BookingDepartureRow>();
+
+    const departure = booking?.rides?.departure_time;
+    const responseDeadline = booking?.status === 'waitlisted' && departure
+      ? new Date(departure)
+      : new Date(Math.min(windowEnd.getTime(), expiresAt.getTime()));
+
+    await this.releaseReplacedHolds(data.bookingId);
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .insert({
+        booking_id: data.bookingId,
+        user_id: data.userId,
+        amount: data.amount,
+        currency: PAYMENT_CURRENCY.toLowerCase(),
+        status: authorization.status,
+        payment_method: provider.id,
+        payment_intent_id: authorization.authorizationId,
+        authorization_id: authorization.authorizationId,
+        expires_at: expiresAt.toISOString(),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (paymentError) {
+      console.error('Failed to create payment record:', paymentError);
       return {
         success: false,
-        error: 'Failed to capture Stripe payment. Please try again.'
+        error: `Failed to create payment authorization: ${paymentError.message}`
       };
     }
-  }
-
-  /**
-   * Refund payment hold when driver rejects, times out, or passenger cancels
-   */
-  static async refundPaymentHold(
-    bookingId: number, 
-    reason: RefundReason
-  ): Promise<PaymentRefundResult> {
-    try {
-      console.log('Looking for payment to refund for booking:', bookingId, 'reason:', reason);
-      
-      // 1. Enhanced debugging - check all payments for this booking first
-      const { data: allPayments, error: allPaymentsError } = await supabase
-        .from('payments')
-        .select('id, booking_id, status, payment_method, transaction_id, payment_intent_id, created_at, amount')
-        .eq('booking_id', bookingId);
-      
-      console.log('All payments for refund booking', bookingId, ':', allPayments);
-      
-      if (allPaymentsError) {
-        console.error('Failed to query all payments for refund:', allPaymentsError);
-        return {
-          success: false,
-          error: `Database query failed: ${allPaymentsError.message}`
-        };
-      }
 
-      if (!allPayments || allPayments.length === 0) {
-        return {
-          success: false,
-          error: `No payment records found for booking ${bookingId}`
-        };
-      }
-
-      // Check if payment is already refunded or cancelled
-      const existingRefund = allPayments.find(p => 
-        p.status === 'refunded' || p.status === 'cancelled' || p.status === 'voided'
-      );
-      if (existingRefund) {
-        return {
-          success: true,
-          refundAmount: existingRefund.amount,
-          reason: reason,
-          message: `Payment for booking ${bookingId} already refunded/cancelled`
-        };
-      }
-
-      // 1. Get payment details - look for both authorized and completed payments
-      const { data: payment, error: fetchError } = await supabase
-        .from('payments')
-        .select('*')
-        .eq('booking_id', bookingId)
-        .in('status', ['authorized', 'requires_capture', 'requires_action', 'completed', 'captured'])
-        .single();
+    const { error: holdError } = await supabase
+      .from('payment_holds')
+      .insert({
+        booking_id: data.bookingId,
+        payment_id: payment.id,
+        hold_amount: data.amount,
+        hold_expires_at: expiresAt.toISOString(),
+        status: 'active'
+      });
 
-      console.log('Refundable payment found:', payment);
-      console.log('Refund fetch error:', fetchError);
+    if (holdError) {
+      // Don't fail the entire operation for tracking record issues
+      console.error('Failed to create payment hold record:', holdError);
+    }
 
-      if (fetchError || !payment) {
-        const statusCounts = allPayments.reduce((acc, p) => {
-          acc[p.status] = (acc[p.status] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
-        
-        return {
-          success: false,
-          error: `No refundable payment found for booking ${bookingId}. Found ${allPayments.length} payments with statuses: ${Object.entries(statusCounts).map(([status, count]) => `${status}(${count})`).join(', ')}`
-        };
-      }
+    const bookingUpdate: Record<string, any> = {
+      payment_expires_at: expiresAt.toISOString(),
+      response_deadline: responseDeadline.toISOString(),
+      updated_at: new Date().toISOString()
+    };
+    if (authorization.status === 'authorized') {
+      bookingUpdate.payment_status = 'authorized';
+      bookingUpdate.payment_authorized_at = new Date().toISOString();
+    }
 
-      // 2. Route to appropriate payment processor based on payment status
-      if (payment.payment_method === 'paypal') {
-        if (payment.status === 'completed' || payment.status === 'captured') {
-          return await this.processPayPalCompletedRefund(payment, bookingId, reason);
-        } else {
-          return await this.refundPayPalPaymentHold(payment, bookingId, reason);
-        }
-      } else {
-        if (payment.status === 'completed' || payment.status === 'captured') {
-          return await this.processStripeCompletedRefund(payment, bookingId, reason);
-        } else {
-          return await this.refundStripePaymentHold(payment, bookingId, reason);
-        }
-      }
+    const { error: bookingError } = await supabase
+      .from('ride_bookings')
+      .update(bookingUpdate)
+      .eq('id', data.bookingId);
 
-    } catch (error) {
-      console.error('Payment refund failed:', error);
+    if (bookingError) {
+      console.error('Failed to update booking with payment details:', bookingError);
       return {
         success: false,
-        error: 'Failed to process refund. Please contact support.'
+        error: `Failed to update booking with payment details: ${bookingError.message}`
       };
     }
+
+    return {
+      success: true,
+      paymentId: payment.id,
+      authorizationId: authorization.authorizationId,
+      requiresAction: authorization.status === 'requires_action',
+      clientSecret: authorization.status === 'requires_action' ? authorization.clientSecret : undefined,
+      expiresAt
+    };
   }
 
   /**
-   * Refund PayPal payment hold
+   * Void and close the booking's open holds before a new one replaces them.
+   * The booking's promo code and credit carry over to the new hold.
    */
-  private static async refundPayPalPaymentHold(
-    payment: any, 
-    bookingId: number, 
-    reason: RefundReason
-  ): Promise<PaymentRefundResult> {
-    try {
-      const { PayPalService } = await import('./paypalService');
-
-      // For PayPal, we need to void the authorization
-      if (payment.payment_intent_id) {
-        await PayPalService.cancelPaymentHold(payment.payment_intent_id, bookingId);
+  private static async releaseReplacedHolds(bookingId: number): Promise<void> {
+    const { data: openPayments } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .in('status', OPEN_HOLD_STATUSES);
+
+    for (const payment of openPayments || []) {
+      try {
+        if (payment.status !== 'requires_action') {
+          await getPaymentProvider(payment.payment_method).void(payment.authorization_id || payment.payment_intent_id, 'replaced');
+        }
+      } catch (error) {
+        // Usually already lapsed at the processor
+        console.error(`Failed to void replaced hold ${payment.id}:`, error);
       }
 
-      // Update payment hold status
-      await supabase
-        .from('payment_holds')
-        .update({
-          status: 'released',
-          updated_at: new Date().toISOString()
-        })
-        .eq('payment_id', payment.id);
-
-      // Update booking status based on reason
-      const bookingStatus = reason === 'timeout' ? 'timeout_cancelled' : 'cancelled';
       await supabase
-        .from('ride_bookings')
-        .update({
-          status: bookingStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      return {
-        success: true,
-        refundAmount: payment.amount,
-        reason: reason
-      };
-
-    } catch (error) {
-      console.error('PayPal payment refund failed:', error);
-      return {
-        success: false,
-        error: 'Failed to process PayPal refund. Please contact support.'
-      };
-    }
-  }
-
-  /**
-   * Refund Stripe payment hold (existing implementation)
-   */
-  private static async refundStripePaymentHold(
-    payment: any, 
-    bookingId: number, 
-    reason: RefundReason
-  ): Promise<PaymentRefundResult> {
-    try {
-      // Use real Stripe API to cancel payment intent
-      const { stripeAPIClient } = await import('./stripeApiClient');
-      
-      const cancelResult = await stripeAPIClient.cancelPaymentIntent(
-        payment.payment_intent_id,
-        reason
-      );
-
-      // Update payment status to refunded
-      const { error: updateError } = await supabase
         .from('payments')
         .update({
           status: 'cancelled',
-          refund_reason: reason,
+          refund_reason: 'replaced',
           refunded_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
         .eq('id', payment.id);
 
-      if (updateError) {
-        console.error('Failed to update payment status:', updateError);
-        return {
-          success: false,
-          error: 'Failed to process refund'
-        };
-      }
-
-      // Update payment hold status
-      await supabase
-        .from('payment_holds')
-        .update({
-          status: 'released',
-          updated_at: new Date().toISOString()
-        })
-        .eq('payment_id', payment.id);
-
-      // Update booking status based on reason
-      const bookingStatus = reason === 'timeout' ? 'timeout_cancelled' : 'cancelled';
-      await supabase
-        .from('ride_bookings')
-        .update({
-          status: bookingStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      return {
-        success: true,
-        refundAmount: payment.amount,
-        reason: reason
-      };
-
-    } catch (error) {
-      console.error('Stripe payment refund failed:', error);
-      return {
-        success: false,
-        error: 'Failed to process Stripe refund. Please contact support.'
-      };
+      await this.updateHoldStatus(payment.id, 'released');
     }
   }
 
   /**
-   * Process refund for completed Stripe payments
+   * Turn an approved requires_action payment into an authorization and store it
    */
-  private static async processStripeCompletedRefund(
-    payment: any,
-    bookingId: number,
-    reason: RefundReason
-  ): Promise<PaymentRefundResult> {
-    try {
-      console.log('Processing Stripe completed payment refund:', { paymentId: payment.id, status: payment.status, bookingId });
-
-      // Use real Stripe API to create refund for completed payment
-      const { stripeAPIClient } = await import('./stripeApiClient');
-      
-      const refundResult = await stripeAPIClient.createRefund(
-        payment.payment_intent_id,
-        payment.amount, // Full refund amount
-        reason
-      );
-
-      // Update payment status to refunded
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'refunded',
-          refund_reason: reason,
-          refund_id: refundResult.refund?.id,
-          refunded_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', payment.id);
-
-      if (updateError) {
-        console.error('Failed to update completed payment status for refund:', updateError);
-        return {
-          success: false,
-          error: 'Failed to process completed payment refund'
-        };
-      }
-
-      // Update payment hold status if exists
-      await supabase
-        .from('payment_holds')
-        .update({
-          status: 'refunded',
-          updated_at: new Date().toISOString()
-        })
-        .eq('payment_id', payment.id);
-
-      // Update booking status based on reason
-      const bookingStatus = reason === 'timeout' ? 'timeout_cancelled' : 'cancelled';
-      await supabase
-        .from('ride_bookings')
-        .update({
-          status: bookingStatus,
-          payment_status: 'refunded',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      console.log('Stripe completed payment refund processed successfully:', refundResult.refund?.id);
-
-      return {
-        success: true,
-        refundAmount: payment.amount,
-        reason: reason,
-        message: `Completed payment refund processed for booking ${bookingId}`
-      };
-
-    } catch (error) {
-      console.error('Stripe completed payment refund failed:', error);
-      return {
-        success: false,
-        error: 'Failed to process completed Stripe payment refund. Please contact support.'
-      };
+  private static async confirmAuthorization(provider: PaymentProvider, payment: any): Promise<ProviderAuthorization> {
+    if (!provider.confirm) {
+      throw new Error(`${provider.id} payments cannot be approved after creation`);
     }
-  }
 
-  /**
-   * Process refund for completed PayPal payments
-   */
-  private static async processPayPalCompletedRefund(
-    payment: any,
-    bookingId: number,
-    reason: RefundReason
-  ): Promise<PaymentRefundResult> {
-    try {
-      console.log('Processing PayPal completed payment refund:', { paymentId: payment.id, status: payment.status, bookingId });
-
-      // For completed PayPal payments, we would use PayPal's refund API
-      // In real implementation: await PayPalService.refundCompletedPayment(payment.transaction_id, payment.amount)
-      const mockRefundResult = {
-        id: `REFUND_${Date.now()}_${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
-        status: 'COMPLETED',
-        amount: {
-          value: payment.amount.toFixed(2),
-          currency_code: 'CAD'
-        }
-      };
+    const authorization = await provider.confirm(payment.authorization_id || payment.payment_intent_id || payment.transaction_id);
+
+    const { error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status: 'authorized',
+        payment_intent_id: authorization.authorizationId,
+        authorization_id: authorization.authorizationId,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payment.id);
+
+    if (updateError) {
+      console.error('Failed to update payment authorization:', updateError);
+      throw new Error('Authorization succeeded but failed to update record');
+    }
 
-      // Update payment status to refunded
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'refunded',
-          refund_reason: reason,
-          refund_id: mockRefundResult.id,
-          refunded_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', payment.id);
+    return authorization;
+  }
 
-      if (updateError) {
-        console.error('Failed to update completed PayPal payment status for refund:', updateError);
-        return {
-          success: false,
-          error: 'Failed to process completed PayPal payment refund'
-        };
+  private static getAuthorizationErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      if (error.message.includes('fetch')) {
+        return 'Payment service connection failed. Please check your internet connection and try again.';
       }
+      if (error.message.includes('declined')) {
+        return 'Your payment method was declined. Please try another one.';
+      }
+    }
+    return 'Payment authorization failed. Please try again.';
+  }
 
-      // Update payment hold status if exists
-      await supabase
-        .from('payment_holds')
-        .update({
-          status: 'refunded',
-          updated_at: new Date().toISOString()
-        })
-        .eq('payment_id', payment.id);
-
-      // Update booking status based on reason
-      const bookingStatus = reason === 'timeout' ? 'timeout_cancelled' : 'cancelled';
-      await supabase
-        .from('ride_bookings')
-        .update({
-          status: bookingStatus,
-          payment_status: 'refunded',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      console.log('PayPal completed payment refund processed successfully:', mockRefundResult);
-
-      return {
-        success: true,
-        refundAmount: payment.amount,
-        reason: reason,
-        message: `Completed PayPal payment refund processed for booking ${bookingId}`
-      };
-
-    } catch (error) {
-      console.error('PayPal completed payment refund failed:', error);
-      return {
-        success: false,
-        error: 'Failed to process completed PayPal payment refund. Please contact support.'
-      };
+  private static async updateHoldStatus(paymentId: number, status: 'captured' | 'released' | 'refunded'): Promise<void> {
+    const { error } = await supabase
+      .from('payment_holds')
+      .update({
+        status,
+        updated_at: new Date().toISOString()
+      })
+      .eq('payment_id', paymentId);
+
+    if (error) {
+      console.error('Failed to update payment hold record:', error);
     }
   }
 
@@ -989,33 +420,7 @@ export class PaymentHoldService {
     }
   }
 
-  /**
-   * Process expired payment holds (called by scheduler)
-   */
-  static async processExpiredHolds(): Promise<void> {
-    try {
-      // Get all expired authorized payments
-      const { data: expiredPayments } = await supabase
-        .from('payments')
-        .select('id, booking_id, amount')
-        .in('status', ['authorized', 'requires_capture', 'requires_action'])
-        .lt('expires_at', new Date().toISOString());
-
-      if (!expiredPayments || expiredPayments.length === 0) {
-        return;
-      }
-
-      // Process each expired payment
-      for (const payment of expiredPayments) {
-        await this.refundPaymentHold(payment.booking_id, 'timeout');
-      }
-
-      console.log(`Processed ${expiredPayments.length} expired payment holds`);
-    } catch (error) {
-      console.error('Failed to process expired payment holds:', error);
-    }
-  }
 }
 
 // Export types for use in other components
-export type { PaymentHoldData, PaymentHoldResult, PaymentCaptureResult, PaymentRefundResult, RefundReason };
\ No newline at end of file
+export type { PaymentHoldData, PaymentHoldResult, RefundReason };
\ No newline at end of file
@@ -1,10 +1,11 @@
 import { supabase } from './supabase';
+import type { RefundReason } from './paymentHoldService';
 
 export interface PaymentNotification {
   id?: string;
   user_id: string;
   booking_id: number;
-  notification_type: 'payment_authorized' | 'payment_captured' | 'payment_refunded' | 'payment_failed' | 'payment_expired';
+  notification_type: 'payment_authorized' | 'payment_captured' | 'payment_refunded' | 'payment_failed' | 'payment_expired' | 'payment_disputed' | 'payment_action_required';
   title: string;
   message: string;
   status: 'pending' | 'sent' | 'failed';
@@ -54,11 +55,35 @@ export class PaymentNotificationService {
         icon: "⏰",
         priority: "high"
       },
+      driver_cancelled: {
+        title: "Ride Cancelled by Driver",
+        message: "The driver cancelled this ride. Your refund has been processed automatically.",
+        icon: "🚫",
+        priority: "high"
+      },
+      waitlist_released: {
+        title: "Waitlist Spot Released",
+        message: "Your waitlist spot has ended. The payment authorization has been released and you were not charged.",
+        icon: "🎟️",
+        priority: "normal"
+      },
       passenger_cancelled: {
         title: "Ride Cancelled",
         message: "You cancelled your ride request. Your payment has been refunded automatically.",
         icon: "🚫",
         priority: "normal"
+      },
+      seats_reduced: {
+        title: "Booking Updated",
+        message: "Your booking now has fewer seats. You'll only be charged for the seats you kept and the difference has been refunded.",
+        icon: "💺",
+        priority: "normal"
+      },
+      early_dropoff: {
+        title: "Trip Shortened",
+        message: "You were dropped off before your booked stop. You're only charged for the distance travelled and the difference has been refunded.",
+        icon: "📍",
+        priority: "normal"
       }
     },
     payment_failed: {
@@ -72,6 +97,18 @@ export class PaymentNotificationService {
       message: "Your payment authorization has expired. Please submit a new ride request.",
       icon: "⌛",
       priority: "normal"
+    },
+    payment_disputed: {
+      title: "Payment Disputed",
+      message: "We received a dispute for this payment from your bank. Our support team will contact you.",
+      icon: "⚖️",
+      priority: "high"
+    },
+    payment_action_required: {
+      title: "Update Your Payment Method",
+      message: "We couldn't renew the payment authorization for your booking. Update your payment method to keep your spot.",
+      icon: "💳",
+      priority: "high"
     }
   };
 
@@ -121,7 +158,7 @@ export class PaymentNotificationService {
   static async notifyPaymentRefunded(
     bookingId: number, 
     userId: string, 
-    reason: 'driver_rejected' | 'timeout' | 'passenger_cancelled'
+    reason: RefundReason
   ): Promise<void> {
     const template = this.NOTIFICATION_TEMPLATES.payment_refunded[reason];
     
@@ -385,6 +422,8 @@ export class PaymentNotificationService {
         return this.NOTIFICATION_TEMPLATES.payment_failed;
       case 'payment_expired':
         return this.NOTIFICATION_TEMPLATES.payment_expired;
+      case 'payment_disputed':
+        return this.NOTIFICATION_TEMPLATES.payment_disputed;
       default:
         return null;
     }
@@ -0,0 +1,117 @@
+import { stripePaymentProvider } from './stripePaymentProvider';
+import { paypalPaymentProvider } from './paypalPaymentProvider';
+import { fakePaymentProvider } from './fakePaymentProvider';
+
+// Provider-side state of an authorization, independent of our payments table
+export type ProviderPaymentStatus =
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'voided'
+  | 'refunded'
+  | 'partially_refunded'
+  | 'failed';
+
+export interface ProviderAuthorizeRequest {
+  amount: number;
+  currency: string;
+  paymentMethodId?: string;
+  bookingId: number;
+  userId: string;
+}
+
+export interface ProviderAuthorization {
+  authorizationId: string;
+  status: 'authorized' | 'requires_action'; // requires_action: the payer still has to approve (PayPal, 3D Secure)
+  expiresAt?: Date; // When the provider drops the hold, if it says
+  clientSecret?: string;
+}
+
+export interface ProviderCapture {
+  transactionId: string;
+  amountCaptured: number;
+}
+
+export interface ProviderRefund {
+  refundId: string;
+  amountRefunded: number;
+}
+
+/**
+ * A payment processor that can hold, capture, release and refund money.
+ * Providers only talk to the processor; payments, payment_holds and the
+ * booking's payment fields are written by PaymentHoldService.
+ */
+export interface PaymentProvider {
+  readonly id: string;
+
+  authorize(request: ProviderAuthorizeRequest): Promise<ProviderAuthorization>;
+
+  /**
+   * Finish an authorization that returned requires_action, once the payer approved it.
+   * Providers that authorize in one step leave this out.
+   */
+  confirm?(authorizationId: string): Promise<ProviderAuthorization>;
+
+  /**
+   * Capture up to the authorized amount. The authorization is final: whatever is
+   * left of the hold after a partial capture is released.
+   */
+  capture(authorizationId: string, amount: number, currency: string): Promise<ProviderCapture>;
+
+  void(authorizationId: string, reason?: string): Promise<void>;
+
+  refund(transactionId: string, amount: number, currency: string, reason?: string): Promise<ProviderRefund>;
+
+  getStatus(authorizationId: string): Promise<ProviderPaymentStatus>;
+}
+
+// Set to 'fake' to run the whole hold lifecycle without a processor
+const PROVIDER_OVERRIDE = import.meta.env.VITE_PAYMENT_PROVIDER as string | undefined;
+
+const providers = new Map<string, PaymentProvider>([
+  [stripePaymentProvider.id, stripePaymentProvider],
+  [paypalPaymentProvider.id, paypalPaymentProvider],
+]);
+
+// The fake provider approves any payment, so it only exists when asked for or under test
+if (PROVIDER_OVERRIDE === fakePaymentProvider.id || import.meta.env.MODE === 'test') {
+  providers.set(fakePaymentProvider.id, fakePaymentProvider);
+}
+
+// Card types saved by PaymentModal that Stripe processes
+const CARD_PAYMENT_TYPES = ['card', 'credit_card', 'debit_card', 'apple_pay', 'google_pay'];
+
+/**
+ * Make a provider available under its id, replacing any provider with the same id
+ */
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Provider for a payment method type or a payments.payment_method value.
+ * Card types go to Stripe; VITE_PAYMENT_PROVIDER overrides everything.
+ */
+export function getPaymentProvider(type?: string | null): PaymentProvider {
+  if (PROVIDER_OVERRIDE && providers.has(PROVIDER_OVERRIDE)) {
+    return providers.get(PROVIDER_OVERRIDE)!;
+  }
+
+  if (type && providers.has(type)) {
+    return providers.get(type)!;
+  }
+
+  if (!type || CARD_PAYMENT_TYPES.includes(type)) {
+    return stripePaymentProvider;
+  }
+
+  throw new Error(`No payment provider registered for "${type}"`);
+}
+
+/**
+ * Ids of every registered provider
+ */
+export function getPaymentProviderIds(): string[] {
+  return [...providers.keys()];
+}
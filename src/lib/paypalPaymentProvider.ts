@@ -0,0 +1,111 @@
+import { PayPalService } from './paypalService';
+import type {
+  PaymentProvider,
+  ProviderAuthorizeRequest,
+  ProviderAuthorization,
+  ProviderCapture,
+  ProviderRefund,
+  ProviderPaymentStatus,
+} from './paymentProvider';
+
+/**
+ * PayPal Payment Provider
+ * An AUTHORIZE order needs the payer's approval in the PayPal popup, so
+ * authorize() returns the order id with requires_action and confirm()
+ * turns the approved order into an authorization.
+ */
+export class PayPalPaymentProvider implements PaymentProvider {
+  readonly id = 'paypal';
+
+  /**
+   * Create an AUTHORIZE order for the payer to approve
+   */
+  async authorize(request: ProviderAuthorizeRequest): Promise<ProviderAuthorization> {
+    const order = await PayPalService.createOrder(request.amount, request.currency, 'AUTHORIZE', request.bookingId);
+
+    return {
+      authorizationId: order.id,
+      status: 'requires_action'
+    };
+  }
+
+  /**
+   * Authorize an approved order
+   */
+  async confirm(orderId: string): Promise<ProviderAuthorization> {
+    const authorization = await PayPalService.authorizeOrder(orderId);
+
+    if (authorization.status !== 'CREATED') {
+      throw new Error('PayPal authorization was not created successfully');
+    }
+
+    return {
+      authorizationId: authorization.id,
+      status: 'authorized',
+      expiresAt: authorization.expiration_time ? new Date(authorization.expiration_time) : undefined
+    };
+  }
+
+  /**
+   * Capture the authorization, up to the authorized amount
+   */
+  async capture(authorizationId: string, amount: number, currency: string): Promise<ProviderCapture> {
+    const capture = await PayPalService.captureAuthorization(authorizationId, amount, currency);
+
+    if (capture.status !== 'COMPLETED') {
+      throw new Error('PayPal capture was not completed successfully');
+    }
+
+    return {
+      transactionId: capture.id,
+      amountCaptured: amount
+    };
+  }
+
+  /**
+   * Void the authorization, releasing the hold
+   */
+  async void(authorizationId: string): Promise<void> {
+    await PayPalService.voidAuthorization(authorizationId);
+  }
+
+  /**
+   * Refund a capture
+   */
+  async refund(captureId: string, amount: number, currency: string): Promise<ProviderRefund> {
+    const refund = await PayPalService.refundCapture(captureId, amount, currency);
+
+    return {
+      refundId: refund.id,
+      amountRefunded: refund.amount?.value ? parseFloat(refund.amount.value) : amount
+    };
+  }
+
+  /**
+   * Current state of the authorization, or of the order while it awaits approval
+   */
+  async getStatus(authorizationId: string): Promise<ProviderPaymentStatus> {
+    try {
+      const authorization = await PayPalService.getAuthorization(authorizationId);
+
+      switch (authorization.status) {
+        case 'CREATED':
+        case 'PENDING':
+          return 'authorized';
+        case 'CAPTURED':
+        case 'PARTIALLY_CAPTURED':
+          return 'captured';
+        case 'VOIDED':
+        case 'EXPIRED':
+          return 'voided';
+        default:
+          return 'failed';
+      }
+    } catch {
+      const order = await PayPalService.getOrderDetails(authorizationId);
+      return order.status === 'VOIDED' ? 'voided' : 'requires_action';
+    }
+  }
+}
+
+export const paypalPaymentProvider = new PayPalPaymentProvider();
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { authenticatedApiRequest } from './staffApi';
 
 export interface PayPalOrderData {
   id: string;
@@ -40,10 +41,16 @@ export interface PayPalAuthorizationData {
   links?: any[];
 }
 
+/**
+ * PayPal Service
+ * Thin client over the /api/paypal functions. The PayPal client secret and
+ * access tokens stay on the server; the browser only holds the client id
+ * for the PayPal SDK.
+ */
 export class PayPalService {
   private static clientId = import.meta.env.VITE_PAYPAL_CLIENT_ID;
-  private static clientSecret = import.meta.env.PAYPAL_CLIENT_SECRET;
   private static sandboxMode = import.meta.env.VITE_PAYPAL_SANDBOX_MODE !== 'false'; // Production if explicitly set to 'false'
+  private static apiBaseUrl = '/api/paypal';
 
   private static get baseUrl() {
     return this.sandboxMode 
@@ -52,76 +59,30 @@ export class PayPalService {
   }
 
   /**
-   * Get PayPal access token for API requests
+   * Call a PayPal API function and unwrap its response
    */
-  private static async getAccessToken(): Promise<string> {
-    const auth = btoa(`${this.clientId}:${this.clientSecret}`);
-    
-    const response = await fetch(`${this.baseUrl}/v1/oauth2/token`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Accept-Language': 'en_US',
-        'Authorization': `Basic ${auth}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: 'grant_type=client_credentials',
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to get PayPal access token');
-    }
-
-    const data = await response.json();
-    return data.access_token;
+  private static async request<T = any>(path: string, body?: unknown): Promise<T> {
+    return authenticatedApiRequest<T>(`${this.apiBaseUrl}${path}`, body);
   }
 
   /**
-   * Create PayPal order for payment
+   * Create PayPal order for payment, for one of the signed-in passenger's bookings when bookingId is given
    */
-  static async createOrder(amount: number, currency: string = 'CAD', intent: 'CAPTURE' | 'AUTHORIZE' = 'CAPTURE'): Promise<PayPalOrderData> {
+  static async createOrder(
+    amount: number,
+    currency: string = 'CAD',
+    intent: 'CAPTURE' | 'AUTHORIZE' = 'CAPTURE',
+    bookingId?: number
+  ): Promise<PayPalOrderData> {
     try {
-      const accessToken = await this.getAccessToken();
-
-      const orderData = {
+      return await this.request<PayPalOrderData>('/orders', {
+        amount,
+        booking_id: bookingId,
+        currency,
         intent,
-        purchase_units: [
-          {
-            amount: {
-              currency_code: currency.toUpperCase(),
-              value: amount.toFixed(2),
-            },
-            description: 'OnGoPool Ride Payment',
-          },
-        ],
-        application_context: {
-          return_url: `${window.location.origin}/payment/success`,
-          cancel_url: `${window.location.origin}/payment/cancel`,
-          brand_name: 'OnGoPool',
-          locale: 'en-CA',
-          landing_page: 'BILLING',
-          shipping_preference: 'NO_SHIPPING',
-          user_action: intent === 'AUTHORIZE' ? 'CONTINUE' : 'PAY_NOW',
-        },
-      };
-
-      const response = await fetch(`${this.baseUrl}/v2/checkout/orders`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(orderData),
+        return_url: `${window.location.origin}/payment/success`,
+        cancel_url: `${window.location.origin}/payment/cancel`,
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to create PayPal order');
-      }
-
-      const order = await response.json();
-      return order;
     } catch (error) {
       console.error('PayPal order creation failed:', error);
       throw error;
@@ -133,24 +94,7 @@ export class PayPalService {
    */
   static async captureOrder(orderId: string): Promise<PayPalOrderData> {
     try {
-      const accessToken = await this.getAccessToken();
-
-      const response = await fetch(`${this.baseUrl}/v2/checkout/orders/${orderId}/capture`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to capture PayPal order');
-      }
-
-      const capturedOrder = await response.json();
-      return capturedOrder;
+      return await this.request<PayPalOrderData>('/orders/capture', { order_id: orderId });
     } catch (error) {
       console.error('PayPal order capture failed:', error);
       throw error;
@@ -162,23 +106,7 @@ export class PayPalService {
    */
   static async getOrderDetails(orderId: string): Promise<PayPalOrderData> {
     try {
-      const accessToken = await this.getAccessToken();
-
-      const response = await fetch(`${this.baseUrl}/v2/checkout/orders/${orderId}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to get PayPal order details');
-      }
-
-      const order = await response.json();
-      return order;
+      return await this.request<PayPalOrderData>(`/orders/${encodeURIComponent(orderId)}`);
     } catch (error) {
       console.error('Failed to get PayPal order details:', error);
       throw error;
@@ -265,31 +193,7 @@ export class PayPalService {
    */
   static async authorizeOrder(orderId: string): Promise<PayPalAuthorizationData> {
     try {
-      const accessToken = await this.getAccessToken();
-
-      const response = await fetch(`${this.baseUrl}/v2/checkout/orders/${orderId}/authorize`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({}),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to authorize PayPal order');
-      }
-
-      const authorizedOrder = await response.json();
-      const authorizationId = authorizedOrder.purchase_units?.[0]?.payments?.authorizations?.[0]?.id;
-      
-      if (!authorizationId) {
-        throw new Error('No authorization ID found in PayPal response');
-      }
-
-      return authorizedOrder.purchase_units[0].payments.authorizations[0];
+      return await this.request<PayPalAuthorizationData>('/orders/authorize', { order_id: orderId });
     } catch (error) {
       console.error('PayPal order authorization failed:', error);
       throw error;
@@ -301,33 +205,11 @@ export class PayPalService {
    */
   static async captureAuthorization(authorizationId: string, amount?: number, currency: string = 'CAD'): Promise<any> {
     try {
-      const accessToken = await this.getAccessToken();
-
-      const captureData: any = {};
-      if (amount) {
-        captureData.amount = {
-          currency_code: currency.toUpperCase(),
-          value: amount.toFixed(2),
-        };
-      }
-
-      const response = await fetch(`${this.baseUrl}/v2/payments/authorizations/${authorizationId}/capture`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(captureData),
+      return await this.request('/authorizations/capture', {
+        authorization_id: authorizationId,
+        amount,
+        currency,
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to capture PayPal authorization');
-      }
-
-      const capture = await response.json();
-      return capture;
     } catch (error) {
       console.error('PayPal authorization capture failed:', error);
       throw error;
@@ -339,22 +221,7 @@ export class PayPalService {
    */
   static async voidAuthorization(authorizationId: string): Promise<void> {
     try {
-      const accessToken = await this.getAccessToken();
-
-      const response = await fetch(`${this.baseUrl}/v2/payments/authorizations/${authorizationId}/void`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({}),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to void PayPal authorization');
-      }
+      await this.request('/authorizations/void', { authorization_id: authorizationId });
     } catch (error) {
       console.error('PayPal authorization void failed:', error);
       throw error;
@@ -362,198 +229,30 @@ export class PayPalService {
   }
 
   /**
-   * Create PayPal payment authorization (hold) for ride requests
+   * Get an existing PayPal authorization
    */
-  static async createPaymentHold(
-    amount: number,
-    currency: string = 'CAD',
-    bookingId: number,
-    userId: string
-  ): Promise<PayPalPaymentData> {
+  static async getAuthorization(authorizationId: string): Promise<PayPalAuthorizationData> {
     try {
-      // Create order with AUTHORIZE intent
-      const order = await this.createOrder(amount, currency, 'AUTHORIZE');
-
-      // Store initial payment record with pending status
-      const { error: paymentError } = await supabase
-        .from('payments')
-        .insert({
-          booking_id: bookingId,
-          user_id: userId,
-          amount: amount,
-          currency: currency.toLowerCase(),
-          payment_method: 'paypal',
-          transaction_id: order.id,
-          status: 'requires_action', // Pending user approval
-          payment_data: {
-            paypal_order_id: order.id,
-            intent: 'AUTHORIZE',
-            created_at: new Date().toISOString(),
-          },
-        });
-
-      if (paymentError) {
-        console.error('Failed to store PayPal payment hold record:', paymentError);
-        throw new Error('Failed to create payment hold record');
-      }
-
-      return {
-        orderId: order.id,
-        amount: amount,
-        currency: currency,
-        status: 'created',
-      };
+      return await this.request<PayPalAuthorizationData>(`/authorizations/${encodeURIComponent(authorizationId)}`);
     } catch (error) {
-      console.error('PayPal payment hold creation failed:', error);
+      console.error('Failed to get PayPal authorization:', error);
       throw error;
     }
   }
 
   /**
-   * Process PayPal authorization after user approval
+   * Refund a captured PayPal payment, in full or in part. Staff only;
+   * passengers are refunded when their booking is cancelled.
    */
-  static async processAuthorization(
-    orderId: string,
-    bookingId: number,
-    userId: string
-  ): Promise<PayPalPaymentData> {
+  static async refundCapture(captureId: string, amount?: number, currency: string = 'CAD'): Promise<any> {
     try {
-      // Authorize the PayPal order
-      const authorization = await this.authorizeOrder(orderId);
-
-      if (authorization.status !== 'CREATED') {
-        throw new Error('PayPal authorization was not created successfully');
-      }
-
-      // Update payment record with authorization details
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          payment_intent_id: authorization.id,
-          status: 'requires_capture',
-          payment_data: {
-            paypal_order_id: orderId,
-            paypal_authorization_id: authorization.id,
-            intent: 'AUTHORIZE',
-            authorized_at: new Date().toISOString(),
-            expires_at: authorization.expiration_time,
-          },
-        })
-        .eq('transaction_id', orderId)
-        .eq('booking_id', bookingId);
-
-      if (updateError) {
-        console.error('Failed to update PayPal authorization record:', updateError);
-        throw new Error('Authorization succeeded but failed to update record');
-      }
-
-      return {
-        orderId: orderId,
-        authorizationId: authorization.id,
-        amount: parseFloat(authorization.amount.value),
-        currency: authorization.amount.currency_code,
-        status: 'authorized',
-      };
-    } catch (error) {
-      console.error('PayPal authorization processing failed:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Capture payment from existing authorization
-   */
-  static async captureHeldPayment(
-    authorizationId: string,
-    bookingId: number,
-    amount?: number
-  ): Promise<PayPalPaymentData> {
-    try {
-      // Get payment record to determine currency
-      const { data: paymentRecord, error: fetchError } = await supabase
-        .from('payments')
-        .select('currency, amount, payment_data')
-        .eq('payment_intent_id', authorizationId)
-        .eq('booking_id', bookingId)
-        .single();
-
-      if (fetchError || !paymentRecord) {
-        throw new Error('Payment authorization record not found');
-      }
-
-      const currency = paymentRecord.currency.toUpperCase();
-      const captureAmount = amount || paymentRecord.amount;
-
-      // Capture the authorization
-      const capture = await this.captureAuthorization(authorizationId, captureAmount, currency);
-
-      if (capture.status !== 'COMPLETED') {
-        throw new Error('PayPal capture was not completed successfully');
-      }
-
-      // Update payment record with capture details
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'succeeded',
-          payment_data: {
-            ...paymentRecord.payment_data,
-            paypal_capture_id: capture.id,
-            captured_at: new Date().toISOString(),
-            captured_amount: captureAmount,
-          },
-        })
-        .eq('payment_intent_id', authorizationId)
-        .eq('booking_id', bookingId);
-
-      if (updateError) {
-        console.error('Failed to update PayPal capture record:', updateError);
-        throw new Error('Capture succeeded but failed to update record');
-      }
-
-      return {
-        orderId: paymentRecord.payment_data.paypal_order_id,
-        authorizationId: authorizationId,
-        paymentId: capture.id,
-        amount: captureAmount,
-        currency: currency,
-        status: 'captured',
-      };
-    } catch (error) {
-      console.error('PayPal payment capture failed:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Cancel (void) payment authorization
-   */
-  static async cancelPaymentHold(
-    authorizationId: string,
-    bookingId: number
-  ): Promise<void> {
-    try {
-      // Void the PayPal authorization
-      await this.voidAuthorization(authorizationId);
-
-      // Update payment record to cancelled status
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'cancelled',
-          payment_data: {
-            voided_at: new Date().toISOString(),
-          },
-        })
-        .eq('payment_intent_id', authorizationId)
-        .eq('booking_id', bookingId);
-
-      if (updateError) {
-        console.error('Failed to update cancelled PayPal payment record:', updateError);
-        throw new Error('Void succeeded but failed to update record');
-      }
+      return await this.request('/refunds', {
+        capture_id: captureId,
+        amount,
+        currency,
+      });
     } catch (error) {
-      console.error('PayPal payment hold cancellation failed:', error);
+      console.error('PayPal capture refund failed:', error);
       throw error;
     }
   }
@@ -0,0 +1,59 @@
+import { authenticatedApiRequest } from './staffApi';
+
+// Mirrors api/_lib/platformFees.ts
+export interface PlatformFeeRule {
+  key: string;
+  name: string;
+  description?: string;
+  percentage: number; // Percent of the gross fare
+  fixed_fee: number; // Added per earning, in dollars
+  minimum_fee: number; // The fee is never lower than this (but never more than the fare)
+  region?: string | null; // Province code the ride starts in, e.g. 'ON'; null for any region
+  driver_tier?: string | null; // users.driver_tier; null for any tier
+  starts_at?: string | null; // Promotional period; null for open-ended
+  ends_at?: string | null;
+  priority: number; // Higher wins; ties go to the more specific rule
+}
+
+export const DEFAULT_PLATFORM_FEE_RULE_KEY = 'standard';
+
+/**
+ * Platform Fee Service
+ * The platform fee taken from each driver earning is data: a percentage plus
+ * a fixed fee with a minimum, optionally limited to a region, a driver tier
+ * or a promotional period. The fee is worked out by /api/payments/earnings
+ * when an earning is created, and the rule applied is snapshotted onto the
+ * earning so later edits never change what a driver was paid. The client
+ * only shows rules.
+ */
+export class PlatformFeeService {
+
+  /**
+   * The signed-in driver's general rate. Region-specific rules depend on the
+   * ride, so they are not reflected here.
+   */
+  static async getDriverRule(): Promise<PlatformFeeRule | null> {
+    try {
+      return await authenticatedApiRequest<PlatformFeeRule>('/api/payments/earnings/fee-rule');
+    } catch (error) {
+      console.error('Error loading platform fee rule:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Short description of a rule, e.g. "15% + $0.50 (min $2.00)"
+   */
+  static describeRule(rule: PlatformFeeRule): string {
+    const parts: string[] = [];
+    if (rule.percentage > 0 || rule.fixed_fee === 0) parts.push(`${rule.percentage}%`);
+    if (rule.fixed_fee > 0) parts.push(`$${rule.fixed_fee.toFixed(2)}`);
+
+    let text = parts.join(' + ');
+    if (rule.minimum_fee > 0) text += ` (min $${rule.minimum_fee.toFixed(2)})`;
+    if (rule.ends_at) {
+      text += ` until ${new Date(rule.ends_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+    }
+    return text;
+  }
+}
@@ -0,0 +1,87 @@
+import { authenticatedApiRequest } from './staffApi';
+
+// Mirrors api/_lib/wallet.ts
+export type PromoDiscountType = 'percent' | 'fixed';
+
+export interface PromoCode {
+  id: number;
+  code: string;
+  kind: 'promo' | 'referral';
+  discount_type: PromoDiscountType;
+  value: number; // Percent off, or dollars off for fixed codes
+  max_discount?: number | null; // Cap on a percent discount
+  starts_at?: string | null;
+  expires_at?: string | null;
+  max_uses?: number | null; // Across all passengers; null for unlimited
+  per_user_limit?: number | null; // Per passenger; null for unlimited
+  first_ride_only: boolean;
+  referrer_id?: string | null; // Owner of a referral code
+  is_active: boolean;
+}
+
+export interface PromoValidation {
+  valid: boolean;
+  promo?: PromoCode;
+  discount?: number;
+  error?: string;
+}
+
+export interface ReferralCode extends PromoCode {
+  referral_count: number; // Referred passengers who have taken their first ride
+}
+
+// A referred passenger gets this off their first ride, and the referrer this much credit once it is completed
+export const REFERRAL_DISCOUNT = Number(import.meta.env.VITE_REFERRAL_DISCOUNT) || 10;
+export const REFERRAL_REWARD = Number(import.meta.env.VITE_REFERRAL_REWARD) || 10;
+
+const API_BASE = '/api/payments/wallet';
+
+/**
+ * Promo Code Service
+ * Marketing promo codes and passengers' referral codes live in promo_codes;
+ * every use is a promo_code_redemptions row tied to a booking. Codes are
+ * checked, redeemed and reversed by /api/payments/wallet, which holds a lock
+ * on the code while it counts uses, so usage limits hold under concurrent
+ * bookings and only count codes on live bookings.
+ */
+export class PromoCodeService {
+
+  /**
+   * Check a code for the signed-in passenger and a fare, and work out the discount
+   */
+  static async validateCode(code: string, amount: number): Promise<PromoValidation> {
+    try {
+      return await authenticatedApiRequest<PromoValidation>(`${API_BASE}/promo-codes/validate`, { code, amount });
+    } catch (error) {
+      console.error('Error validating promo code:', error);
+      return { valid: false, error: 'Could not check that promo code. Please try again.' };
+    }
+  }
+
+  /**
+   * The signed-in passenger's referral code, created on first use. It gives a
+   * new passenger REFERRAL_DISCOUNT off their first ride.
+   */
+  static async getReferralCode(): Promise<ReferralCode | null> {
+    try {
+      return await authenticatedApiRequest<ReferralCode>(`${API_BASE}/referral-code`);
+    } catch (error) {
+      console.error('Error getting referral code:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Credit the referrer once a booking made with their code is completed.
+   * The API checks the booking and pays the reward at most once.
+   */
+  static async rewardReferral(bookingId: number): Promise<void> {
+    try {
+      await authenticatedApiRequest(`${API_BASE}/referral-rewards`, { booking_id: bookingId });
+    } catch (error) {
+      console.error('Error rewarding referral:', error);
+    }
+  }
+}
+
+export default PromoCodeService;
@@ -0,0 +1,169 @@
+import { supabase } from './supabase';
+
+// Mirrors api/_lib/reconciliation.ts, which writes the reports
+export type ReconciliationDiscrepancyType =
+  | 'missing_earning'
+  | 'duplicate_earning'
+  | 'earning_amount_mismatch'
+  | 'earning_without_payment'
+  | 'double_capture'
+  | 'hold_status_mismatch'
+  | 'missing_payment_record'
+  | 'capture_not_reflected'
+  | 'capture_not_at_processor'
+  | 'amount_mismatch'
+  | 'refund_not_reflected'
+  | 'refund_not_at_processor';
+
+export interface ReconciliationDiscrepancy {
+  type: ReconciliationDiscrepancyType;
+  severity: 'high' | 'medium' | 'low';
+  booking_id?: number | null;
+  payment_id?: number | null;
+  earning_id?: string | null;
+  processor_id?: string | null;
+  expected?: number | string | null;
+  actual?: number | string | null;
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  id: number;
+  report_date: string;
+  source: string;
+  generated_at: string;
+  summary: {
+    bookings_checked: number;
+    payments_checked: number;
+    processor_records_checked: number;
+    captured_total: number;
+    refunded_total: number;
+    earnings_gross_total: number;
+    discrepancies: number;
+  };
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+export class ReconciliationService {
+  /**
+   * Fetch the most recent daily reports, newest first
+   */
+  static async fetchReports(limit: number = 30): Promise<ReconciliationReport[]> {
+    try {
+      const { data, error } = await supabase
+        .from('payment_reconciliation_reports')
+        .select('*')
+        .order('report_date', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching reconciliation reports:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in fetchReports:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the report for one day (YYYY-MM-DD)
+   */
+  static async fetchReport(reportDate: string, source?: string): Promise<ReconciliationReport | null> {
+    try {
+      let query = supabase
+        .from('payment_reconciliation_reports')
+        .select('*')
+        .eq('report_date', reportDate);
+
+      if (source) {
+        query = query.eq('source', source);
+      }
+
+      const { data, error } = await query
+        .order('generated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching reconciliation report:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in fetchReport:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get display name for discrepancy type
+   */
+  static getDiscrepancyDisplayName(type: ReconciliationDiscrepancyType): string {
+    switch (type) {
+      case 'missing_earning':
+        return 'Missing Earning';
+      case 'duplicate_earning':
+        return 'Duplicate Earning';
+      case 'earning_amount_mismatch':
+        return 'Earning Amount Mismatch';
+      case 'earning_without_payment':
+        return 'Earning Without Payment';
+      case 'double_capture':
+        return 'Double Capture';
+      case 'hold_status_mismatch':
+        return 'Hold Status Mismatch';
+      case 'missing_payment_record':
+        return 'Missing Payment Record';
+      case 'capture_not_reflected':
+        return 'Capture Not Reflected';
+      case 'capture_not_at_processor':
+        return 'Capture Not At Processor';
+      case 'amount_mismatch':
+        return 'Amount Mismatch';
+      case 'refund_not_reflected':
+        return 'Refund Not Reflected';
+      case 'refund_not_at_processor':
+        return 'Refund Not At Processor';
+      default:
+        return type;
+    }
+  }
+
+  /**
+   * Export a report's discrepancies to CSV
+   */
+  static exportToCSV(report: ReconciliationReport): void {
+    const headers = ['Date', 'Source', 'Type', 'Severity', 'Booking', 'Payment', 'Earning', 'Processor ID', 'Expected', 'Actual', 'Detail'];
+    const csvData = report.discrepancies.map(discrepancy => [
+      report.report_date,
+      report.source,
+      this.getDiscrepancyDisplayName(discrepancy.type),
+      discrepancy.severity,
+      discrepancy.booking_id ?? '',
+      discrepancy.payment_id ?? '',
+      discrepancy.earning_id ?? '',
+      discrepancy.processor_id ?? '',
+      discrepancy.expected ?? '',
+      discrepancy.actual ?? '',
+      discrepancy.detail
+    ]);
+
+    const csvContent = [headers, ...csvData]
+      .map(row => row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `reconciliation-${report.report_date}-${report.source}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+}
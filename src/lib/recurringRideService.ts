@@ -0,0 +1,543 @@
+import { supabase } from './supabase';
+import { rideConflictService } from './rideConflictService';
+import { PaymentHoldService } from './paymentHoldService';
+import { BookingStateMachine } from './bookingStateMachine';
+import { authenticatedApiRequest } from './staffApi';
+import { OccurrenceConflict, RecurringRide, Ride } from '../types';
+
+export type RecurringRideInput = Omit<RecurringRide, 'id' | 'driver_id' | 'time_zone' | 'status' | 'materialized_until' | 'conflicts' | 'created_at' | 'updated_at'>;
+
+export interface MaterializeResult {
+  created: number;
+  conflicts: OccurrenceConflict[];
+}
+
+export interface OccurrenceChanges {
+  departureTime?: string; // HH:mm
+  availableSeats?: number;
+  pricePerSeat?: number;
+}
+
+export interface WeekBooking {
+  id: number;
+  ride_id: number;
+  total_amount: number;
+}
+
+// How far ahead occurrences are generated as concrete rides; the recurring
+// rides API reads the same setting
+export const RECURRING_RIDE_DAYS_AHEAD = Number(import.meta.env.VITE_RECURRING_RIDE_DAYS_AHEAD) || 14;
+
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+/**
+ * Recurring Ride Service
+ * Commute templates for drivers. The recurring rides API generates each
+ * template's ordinary rides rows (tagged with recurring_ride_id and
+ * occurrence_date) up to RECURRING_RIDE_DAYS_AHEAD days ahead, from a daily
+ * cron and when a template is created or resumed, so search, booking and
+ * trips work unchanged. A skipped occurrence stays as a 'skipped' ride so it is not
+ * generated again; unlike a cancelled ride it had no passengers and does not
+ * count towards the driver's cancellation warnings.
+ */
+export class RecurringRideService {
+
+  /**
+   * Create a recurring ride and generate its first occurrences
+   */
+  static async createTemplate(
+    driverId: string,
+    input: RecurringRideInput
+  ): Promise<{ success: boolean; template?: RecurringRide; result?: MaterializeResult; error?: string }> {
+    try {
+      if (!input.weekdays || input.weekdays.length === 0) {
+        return { success: false, error: 'Please choose at least one day of the week' };
+      }
+
+      if (!input.end_date || input.end_date < input.start_date) {
+        return { success: false, error: 'End date must be on or after the start date' };
+      }
+
+      const { data: template, error } = await supabase
+        .from('recurring_rides')
+        .insert({
+          ...input,
+          driver_id: driverId,
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          status: 'active',
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // The cron posts the trips later if this fails
+      const result = await this.generateOccurrences(template.id).catch(generateError => {
+        console.error('Error generating recurring ride occurrences:', generateError);
+        return undefined;
+      });
+      return { success: true, template, result };
+    } catch (error) {
+      console.error('Error creating recurring ride:', error);
+      return { success: false, error: 'Failed to create recurring ride' };
+    }
+  }
+
+  /**
+   * Fetch a driver's recurring rides
+   */
+  static async getTemplates(driverId: string): Promise<RecurringRide[]> {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_rides')
+        .select('*')
+        .eq('driver_id', driverId)
+        .neq('status', 'ended')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching recurring rides:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Upcoming occurrences of a recurring ride, including skipped ones
+   */
+  static async getUpcomingOccurrences(templateId: number): Promise<Ride[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rides')
+        .select(`
+          *,
+          ride_bookings(id, status, seats_booked)
+        `)
+        .eq('recurring_ride_id', templateId)
+        .gte('occurrence_date', this.formatLocalDate(new Date()))
+        .order('departure_time', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching recurring ride occurrences:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Post the upcoming trips of one of the driver's recurring rides now
+   * instead of waiting for the daily run
+   */
+  static async generateOccurrences(templateId: number): Promise<MaterializeResult> {
+    return authenticatedApiRequest<MaterializeResult>(`/api/rides/recurring/${templateId}/occurrences`, {});
+  }
+
+  /**
+   * Pause, resume or end a recurring ride. Resuming posts its upcoming trips
+   * straight away; ending it also skips future occurrences nobody has booked.
+   */
+  static async setTemplateStatus(
+    driverId: string,
+    templateId: number,
+    status: RecurringRide['status']
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('recurring_rides')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', templateId)
+        .eq('driver_id', driverId);
+
+      if (error) throw error;
+
+      if (status === 'active') {
+        await this.generateOccurrences(templateId).catch(generateError => {
+          console.error('Error generating recurring ride occurrences:', generateError);
+        });
+      }
+
+      if (status === 'ended') {
+        const occurrences = await this.getUpcomingOccurrences(templateId);
+        const unbooked = occurrences
+          .filter(ride => ride.status === 'active' && !this.hasActiveBookings(ride))
+          .map(ride => ride.id);
+
+        if (unbooked.length > 0) {
+          await supabase
+            .from('rides')
+            .update({ status: 'skipped', updated_at: new Date().toISOString() })
+            .in('id', unbooked);
+        }
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating recurring ride:', error);
+      return { success: false, error: 'Failed to update recurring ride' };
+    }
+  }
+
+  /**
+   * Skip a single occurrence. Occurrences with passengers must have their
+   * bookings cancelled first.
+   */
+  static async skipOccurrence(driverId: string, rideId: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      const ride = await this.loadOccurrence(driverId, rideId);
+      if (!ride) {
+        return { success: false, error: 'Occurrence not found' };
+      }
+
+      if (this.hasActiveBookings(ride)) {
+        return { success: false, error: 'Passengers have booked this trip. Cancel their bookings before skipping it.' };
+      }
+
+      const { error } = await supabase
+        .from('rides')
+        .update({ status: 'skipped', updated_at: new Date().toISOString() })
+        .eq('id', rideId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error skipping occurrence:', error);
+      return { success: false, error: 'Failed to skip this trip' };
+    }
+  }
+
+  /**
+   * Bring back a skipped occurrence if the slot is still free
+   */
+  static async restoreOccurrence(driverId: string, rideId: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      const ride = await this.loadOccurrence(driverId, rideId);
+      if (!ride || ride.status !== 'skipped') {
+        return { success: false, error: 'Occurrence not found' };
+      }
+
+      const departure = new Date(ride.departure_time);
+      if (departure <= new Date()) {
+        return { success: false, error: 'This trip has already departed' };
+      }
+
+      const conflictResult = await rideConflictService.checkRideConflicts(
+        driverId,
+        departure.toISOString(),
+        this.getArrival(ride, departure).toISOString(),
+        rideId
+      );
+
+      if (!conflictResult) {
+        return { success: false, error: 'Unable to verify schedule conflicts. Please try again.' };
+      }
+      if (conflictResult.conflict_exists) {
+        return { success: false, error: rideConflictService.formatConflictMessage(conflictResult) };
+      }
+
+      const { error } = await supabase
+        .from('rides')
+        .update({ status: 'active', updated_at: new Date().toISOString() })
+        .eq('id', rideId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error restoring occurrence:', error);
+      return { success: false, error: 'Failed to restore this trip' };
+    }
+  }
+
+  /**
+   * Change the time, seats or price of a single occurrence. The template and
+   * other occurrences are left as they are.
+   */
+  static async updateOccurrence(
+    driverId: string,
+    rideId: number,
+    changes: OccurrenceChanges
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const ride = await this.loadOccurrence(driverId, rideId);
+      if (!ride || ride.status !== 'active') {
+        return { success: false, error: 'Occurrence not found' };
+      }
+
+      const update: Record<string, any> = { updated_at: new Date().toISOString() };
+      const bookedSeats = (ride.ride_bookings || [])
+        .filter(booking => ACTIVE_BOOKING_STATUSES.includes(booking.status || ''))
+        .reduce((sum, booking) => sum + booking.seats_booked, 0);
+
+      if (changes.departureTime && changes.departureTime !== ride.departure_time.slice(11, 16)) {
+        if (bookedSeats > 0) {
+          return { success: false, error: 'Passengers have booked this trip, so its time cannot be changed' };
+        }
+
+        const departure = new Date(`${ride.occurrence_date}T${changes.departureTime}`);
+        if (departure <= new Date()) {
+          return { success: false, error: 'Departure time must be in the future' };
+        }
+
+        const arrival = this.getArrival(ride, departure);
+        const conflictResult = await rideConflictService.checkRideConflicts(
+          driverId,
+          departure.toISOString(),
+          arrival.toISOString(),
+          rideId
+        );
+
+        if (!conflictResult) {
+          return { success: false, error: 'Unable to verify schedule conflicts. Please try again.' };
+        }
+        if (conflictResult.conflict_exists) {
+          return { success: false, error: rideConflictService.formatConflictMessage(conflictResult) };
+        }
+
+        update.departure_time = this.formatLocalDateTime(departure);
+        update.arrival_time = this.formatLocalDateTime(arrival);
+      }
+
+      if (changes.availableSeats != null) {
+        if (changes.availableSeats < 1) {
+          return { success: false, error: 'A trip needs at least one seat' };
+        }
+        update.available_seats = changes.availableSeats;
+      }
+
+      if (changes.pricePerSeat != null) {
+        if (bookedSeats > 0 && changes.pricePerSeat !== ride.price_per_seat) {
+          return { success: false, error: 'Passengers have booked this trip, so its price cannot be changed' };
+        }
+        if (changes.pricePerSeat <= 0) {
+          return { success: false, error: 'Price must be greater than zero' };
+        }
+        update.price_per_seat = changes.pricePerSeat;
+      }
+
+      const { error } = await supabase
+        .from('rides')
+        .update(update)
+        .eq('id', rideId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+      return { success: false, error: 'Failed to update this trip' };
+    }
+  }
+
+  /**
+   * Later occurrences of the same recurring ride in the ride's week
+   * (Monday to Sunday) that still have enough seats for the passenger
+   */
+  static async getWeekOccurrences(ride: Ride, passengerId: string, seats: number): Promise<Ride[]> {
+    if (!ride.recurring_ride_id || !ride.occurrence_date) return [];
+
+    try {
+      const day = new Date(`${ride.occurrence_date}T00:00:00`);
+      const weekEnd = new Date(day);
+      weekEnd.setDate(day.getDate() + ((7 - day.getDay()) % 7));
+
+      const { data, error } = await supabase
+        .from('rides')
+        .select(`
+          *,
+          ride_segments(id, address, segment_order, is_pickup),
+          ride_bookings(id, passenger_id, status)
+        `)
+        .eq('recurring_ride_id', ride.recurring_ride_id)
+        .eq('status', 'active')
+        .gt('occurrence_date', ride.occurrence_date)
+        .lte('occurrence_date', this.formatLocalDate(weekEnd))
+        .gte('available_seats', seats)
+        .order('departure_time', { ascending: true });
+
+      if (error) throw error;
+
+      // Skip trips the passenger already booked
+      return (data || []).filter(occurrence => !(occurrence.ride_bookings || []).some(
+        (booking: any) => booking.passenger_id === passengerId && ACTIVE_BOOKING_STATUSES.includes(booking.status)
+      ));
+    } catch (error) {
+      console.error('Error fetching week occurrences:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create pending bookings for the same pickup and drop-off on several
+   * occurrences. Stops are matched by address since approved custom stops
+   * can renumber an occurrence's segments.
+   */
+  static async createOccurrenceBookings(params: {
+    occurrences: Ride[];
+    baseRide: Ride;
+    passengerId: string;
+    seats: number;
+    segmentPrice: number;
+    fromAddress: string;
+    toAddress: string;
+  }): Promise<{ bookings: WeekBooking[]; skipped: number }> {
+    const bookings: WeekBooking[] = [];
+    let skipped = 0;
+
+    for (const occurrence of params.occurrences) {
+      try {
+        const segments = [...(occurrence.ride_segments || [])].sort((a, b) => a.segment_order - b.segment_order);
+        let fromSegment = { id: 0, segment_order: 0 };
+        let toSegment = { id: 1, segment_order: 1 };
+
+        if (segments.length > 0) {
+          const from = segments.find(segment => segment.address === params.fromAddress);
+          const to = segments.find(segment => segment.address === params.toAddress);
+          if (!from || !to || from.segment_order >= to.segment_order) {
+            skipped++;
+            continue;
+          }
+          fromSegment = from;
+          toSegment = to;
+        }
+
+        // Occurrences can have their own price, keep the segment's share of it
+        const pricePerSeat = params.baseRide.price_per_seat > 0
+          ? Math.round(params.segmentPrice * (occurrence.price_per_seat / params.baseRide.price_per_seat) * 100) / 100
+          : params.segmentPrice;
+
+        const { data: booking, error: bookingError } = await supabase
+          .from('ride_bookings')
+          .insert({
+            ride_id: occurrence.id,
+            passenger_id: params.passengerId,
+            seats_booked: params.seats,
+            total_amount: pricePerSeat * params.seats,
+            status: 'pending',
+            payment_status: 'pending',
+            from_segment_id: fromSegment.id,
+            to_segment_id: toSegment.id,
+          })
+          .select()
+          .single();
+
+        if (bookingError) throw bookingError;
+
+        const segmentSeats = segments
+          .filter(segment => segment.segment_order >= fromSegment.segment_order && segment.segment_order < toSegment.segment_order)
+          .map(segment => ({
+            booking_id: booking.id,
+            segment_id: segment.id,
+            seats_count: params.seats
+          }));
+
+        if (segmentSeats.length > 0) {
+          const { error: seatsError } = await supabase
+            .from('segment_seats')
+            .insert(segmentSeats);
+
+          if (seatsError) throw seatsError;
+        }
+
+        await supabase.from('conversations').insert({
+          booking_id: booking.id,
+          driver_id: occurrence.driver_id,
+          passenger_id: params.passengerId,
+          last_message_at: new Date().toISOString()
+        });
+
+        bookings.push({ id: booking.id, ride_id: occurrence.id, total_amount: booking.total_amount });
+      } catch (error) {
+        console.error(`Error booking occurrence ${occurrence.id}:`, error);
+        skipped++;
+      }
+    }
+
+    return { bookings, skipped };
+  }
+
+  /**
+   * Authorize the remaining bookings of a week with the payment method the
+   * passenger used for the first one. Bookings that cannot be authorized are
+   * cancelled. PayPal needs approval per order, so only cards are reused.
+   */
+  static async authorizeBookings(
+    bookings: WeekBooking[],
+    paymentMethod: { id: string; type: 'stripe' | 'paypal' },
+    userId: string
+  ): Promise<{ authorized: number; failed: number }> {
+    let authorized = 0;
+    const failedIds: number[] = [];
+
+    for (const booking of bookings) {
+      if (paymentMethod.type === 'paypal') {
+        failedIds.push(booking.id);
+        continue;
+      }
+
+      const result = await PaymentHoldService.createPaymentHold({
+        amount: booking.total_amount,
+        paymentMethod,
+        bookingId: booking.id,
+        userId
+      });
+
+      if (result.success) {
+        authorized++;
+      } else {
+        console.error(`Payment authorization failed for booking ${booking.id}:`, result.error);
+        failedIds.push(booking.id);
+      }
+    }
+
+    for (const bookingId of failedIds) {
+      await BookingStateMachine.transition(bookingId, 'cancelled', {
+        reason: 'payment_failed',
+      });
+    }
+
+    return { authorized, failed: failedIds.length };
+  }
+
+  private static async loadOccurrence(driverId: string, rideId: number): Promise<Ride | null> {
+    const { data, error } = await supabase
+      .from('rides')
+      .select(`
+        *,
+        ride_bookings(id, status, seats_booked)
+      `)
+      .eq('id', rideId)
+      .eq('driver_id', driverId)
+      .not('recurring_ride_id', 'is', null)
+      .single();
+
+    if (error) {
+      console.error('Error loading occurrence:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  private static hasActiveBookings(ride: Ride): boolean {
+    return (ride.ride_bookings || []).some(booking => ACTIVE_BOOKING_STATUSES.includes(booking.status || ''));
+  }
+
+  private static getArrival(ride: Ride, departure: Date): Date {
+    return new Date(departure.getTime() + (ride.estimated_duration || 120) * 60 * 1000);
+  }
+
+  // Rides store local "YYYY-MM-DD HH:mm:ss" strings, as PostRidePage does
+  private static formatLocalDateTime(date: Date): string {
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    const seconds = String(date.getSeconds()).padStart(2, '0');
+    return `${this.formatLocalDate(date)} ${hours}:${minutes}:${seconds}`;
+  }
+
+  private static formatLocalDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { RideMatchingService, RideMatchOptions } from './rideMatchingService';
+import { encodePolyline } from '../utils/polyline';
+
+const TORONTO = { lat: 43.6532, lng: -79.3832 };
+const BELLEVILLE = { lat: 44.1628, lng: -77.3832 };
+const KINGSTON = { lat: 44.2312, lng: -76.4860 };
+const BROCKVILLE = { lat: 44.5895, lng: -75.6843 };
+const MONTREAL = { lat: 45.5019, lng: -73.5674 };
+const OTTAWA = { lat: 45.4215, lng: -75.6972 };
+
+const OPTIONS: RideMatchOptions = { pickupRadiusKm: 5, dropoffRadiusKm: 5 };
+
+// Highway 401 corridor, roughly
+const ROUTE_POLYLINE = encodePolyline([TORONTO, BELLEVILLE, KINGSTON, BROCKVILLE, MONTREAL]);
+
+const directRide = (overrides: Record<string, any> = {}) => ({
+  id: 1,
+  from_location: 'Toronto, ON',
+  to_location: 'Montreal, QC',
+  from_lat: TORONTO.lat,
+  from_lng: TORONTO.lng,
+  to_lat: MONTREAL.lat,
+  to_lng: MONTREAL.lng,
+  use_direct_route: true,
+  route_polyline: ROUTE_POLYLINE,
+  departure_time: '2026-11-02 08:00:00',
+  available_seats: 3,
+  ...overrides,
+});
+
+const stop = (id: number, order: number, address: string, point: { lat: number; lng: number }) => ({
+  id,
+  address,
+  segment_order: order,
+  is_pickup: order === 0,
+  lat: point.lat,
+  lng: point.lng,
+});
+
+describe('RideMatchingService.matchRide', () => {
+  it('matches a pickup on the route between stops', () => {
+    const match = RideMatchingService.matchRide(directRide(), KINGSTON, MONTREAL, OPTIONS);
+
+    expect(match).not.toBeNull();
+    expect(match!.pickupAtStop).toBe(false);
+    expect(match!.pickupDistanceKm).toBeLessThan(1);
+    expect(match!.fromStop.id).toBe(0);
+    expect(match!.dropoffAtStop).toBe(true);
+    expect(match!.toStop.id).toBe(1);
+    expect(match!.pickupPosition).toBeGreaterThan(1);
+    expect(match!.dropoffPosition).toBeGreaterThan(match!.pickupPosition);
+  });
+
+  it('does not match a ride going the other way', () => {
+    const ride = directRide({
+      from_location: 'Montreal, QC',
+      to_location: 'Toronto, ON',
+      from_lat: MONTREAL.lat,
+      from_lng: MONTREAL.lng,
+      to_lat: TORONTO.lat,
+      to_lng: TORONTO.lng,
+      route_polyline: encodePolyline([MONTREAL, BROCKVILLE, KINGSTON, BELLEVILLE, TORONTO]),
+    });
+
+    expect(RideMatchingService.matchRide(ride, KINGSTON, MONTREAL, OPTIONS)).toBeNull();
+  });
+
+  it('does not match when the destination is off the route', () => {
+    expect(RideMatchingService.matchRide(directRide(), KINGSTON, OTTAWA, OPTIONS)).toBeNull();
+  });
+
+  it('prefers a stop within the radius over the closest point on the route', () => {
+    const ride = directRide({
+      use_direct_route: false,
+      ride_segments: [
+        stop(12, 2, 'Montreal, QC', MONTREAL),
+        stop(10, 0, 'Toronto, ON', TORONTO),
+        stop(11, 1, 'Kingston, ON', KINGSTON),
+      ],
+    });
+    const nearKingston = { lat: 44.2500, lng: -76.5100 };
+
+    const match = RideMatchingService.matchRide(ride, nearKingston, MONTREAL, OPTIONS);
+
+    expect(match).not.toBeNull();
+    expect(match!.fromStop.id).toBe(11);
+    expect(match!.fromStopIndex).toBe(1);
+    expect(match!.pickupAtStop).toBe(true);
+    expect(match!.toStop.id).toBe(12);
+    expect(match!.pickupDistanceKm).toBeGreaterThan(2);
+  });
+
+  it('uses the stop before and after the passenger when neither end is at a stop', () => {
+    const ride = directRide({
+      use_direct_route: false,
+      ride_segments: [
+        stop(10, 0, 'Toronto, ON', TORONTO),
+        stop(11, 1, 'Kingston, ON', KINGSTON),
+        stop(12, 2, 'Montreal, QC', MONTREAL),
+      ],
+    });
+
+    const match = RideMatchingService.matchRide(ride, BELLEVILLE, BROCKVILLE, OPTIONS);
+
+    expect(match).not.toBeNull();
+    expect(match!.fromStop.id).toBe(10);
+    expect(match!.toStop.id).toBe(12);
+    expect(match!.pickupAtStop).toBe(false);
+    expect(match!.dropoffAtStop).toBe(false);
+  });
+
+  it('falls back to straight lines between stops without a stored polyline', () => {
+    const ride = directRide({ route_polyline: undefined });
+    const halfway = { lat: (TORONTO.lat + MONTREAL.lat) / 2, lng: (TORONTO.lng + MONTREAL.lng) / 2 };
+
+    const match = RideMatchingService.matchRide(ride, halfway, MONTREAL, OPTIONS);
+
+    expect(match).not.toBeNull();
+    expect(match!.pickupDistanceKm).toBeLessThan(1);
+    expect(match!.pickupPosition).toBeCloseTo(0.5, 1);
+  });
+
+  it('ranks stops within the radius by detour distance', () => {
+    const ride = directRide({
+      use_direct_route: false,
+      route_polyline: undefined,
+      ride_segments: [
+        stop(10, 0, 'Toronto Union', TORONTO),
+        stop(11, 1, 'Toronto Pearson', { lat: 43.6777, lng: -79.6248 }),
+        stop(12, 2, 'Montreal, QC', MONTREAL),
+      ],
+    });
+
+    const match = RideMatchingService.matchRide(ride, { lat: 43.6600, lng: -79.4000 }, MONTREAL, OPTIONS);
+
+    expect(match!.fromStop.id).toBe(10);
+    expect(match!.detourDistanceKm).toBeCloseTo(match!.pickupDistanceKm + match!.dropoffDistanceKm, 1);
+  });
+
+  it('needs at least two located stops', () => {
+    const ride = directRide({ from_lat: null, from_lng: null, route_polyline: undefined });
+
+    expect(RideMatchingService.matchRide(ride, TORONTO, MONTREAL, OPTIONS)).toBeNull();
+  });
+});
+
+describe('RideMatchingService.findMatches', () => {
+  it('drops rides without enough seats and sorts by detour, then departure', () => {
+    const rides = [
+      directRide({ id: 1, departure_time: '2026-11-02 10:00:00' }),
+      directRide({ id: 2, available_seats: 1 }),
+      directRide({ id: 3, departure_time: '2026-11-02 07:00:00' }),
+      directRide({ id: 4, route_polyline: undefined }),
+    ];
+
+    const matches = RideMatchingService.findMatches(rides, {
+      origin: TORONTO,
+      destination: MONTREAL,
+      seatsNeeded: 2,
+    }, OPTIONS);
+
+    expect(matches.map(match => match.ride.id)).toEqual([3, 4, 1]);
+  });
+
+  it('compares location names only when the search has no coordinates', () => {
+    const matches = RideMatchingService.findMatches([directRide()], {
+      fromLocation: 'Toronto',
+      toLocation: 'Montreal',
+      seatsNeeded: 1,
+    }, OPTIONS);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].matchType).toBe('name');
+  });
+});
+
+describe('RideMatchingService.projectOntoPolyline', () => {
+  it('orders points along the route', () => {
+    const polyline = [TORONTO, KINGSTON, MONTREAL];
+
+    const belleville = RideMatchingService.projectOntoPolyline(BELLEVILLE, polyline);
+    const brockville = RideMatchingService.projectOntoPolyline(BROCKVILLE, polyline);
+
+    expect(belleville.position).toBeGreaterThan(0);
+    expect(belleville.position).toBeLessThan(1);
+    expect(brockville.position).toBeGreaterThan(1);
+    expect(brockville.position).toBeLessThan(2);
+  });
+});
+
+describe('RideMatchingService.routeDistanceKm', () => {
+  it('measures along the route between two positions', () => {
+    const polyline = [TORONTO, KINGSTON, MONTREAL];
+    const whole = RideMatchingService.routeDistanceKm(polyline, 0, 2);
+    const firstLeg = RideMatchingService.routeDistanceKm(polyline, 0, 1);
+
+    expect(firstLeg).toBeGreaterThan(240);
+    expect(firstLeg).toBeLessThan(270);
+    expect(RideMatchingService.routeDistanceKm(polyline, 1, 2)).toBeCloseTo(whole - firstLeg, 6);
+    expect(RideMatchingService.routeDistanceKm(polyline, 0.5, 1.5)).toBeLessThan(whole);
+    expect(RideMatchingService.routeDistanceKm(polyline, 1.5, 0.5)).toBe(0);
+  });
+});
@@ -0,0 +1,393 @@
+import { decodePolyline } from '../utils/polyline';
+
+// Shared with the API functions (api/_lib/rideMatching.ts), so this module
+// must not depend on browser-only code or import.meta.env
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface MatchStop {
+  id: number;
+  address: string;
+  segment_order: number;
+  is_pickup: boolean;
+  lat?: number;
+  lng?: number;
+}
+
+export interface RideSearchCriteria {
+  origin?: GeoPoint;
+  destination?: GeoPoint;
+  fromLocation?: string; // Only used when coordinates are missing
+  toLocation?: string;
+  seatsNeeded: number;
+}
+
+export interface RideMatchOptions {
+  pickupRadiusKm: number;
+  dropoffRadiusKm: number;
+}
+
+export interface RideMatch<R = any> {
+  ride: R;
+  fromStop: MatchStop; // Boarding stop, or the stop before the pickup point when boarding off a stop
+  toStop: MatchStop; // Alighting stop, or the stop after the drop-off point
+  fromStopIndex: number;
+  toStopIndex: number;
+  pickupAtStop: boolean; // False when the passenger boards on the route between stops
+  dropoffAtStop: boolean;
+  pickupPosition: number; // Position along the route polyline, see projectOntoPolyline
+  dropoffPosition: number;
+  pickupDistanceKm: number; // Passenger origin to where they board
+  dropoffDistanceKm: number; // Where they alight to passenger destination
+  detourDistanceKm: number; // Total off-route distance for the passenger
+  matchType: 'geo' | 'name';
+}
+
+// A place the passenger could board or alight: a stop, or the closest point on the route
+interface RoutePoint {
+  stopIndex: number; // Index into the located stops
+  atStop: boolean;
+  position: number;
+  distanceKm: number;
+}
+
+// The search API overrides these with MATCH_PICKUP_RADIUS_KM and MATCH_DROPOFF_RADIUS_KM
+export const DEFAULT_MATCH_OPTIONS: RideMatchOptions = {
+  pickupRadiusKm: 5,
+  dropoffRadiusKm: 5,
+};
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+const isValidPoint = (point?: { lat?: number; lng?: number } | null): point is GeoPoint =>
+  !!point &&
+  point.lat != null && point.lng != null &&
+  !isNaN(point.lat) && !isNaN(point.lng) &&
+  !(point.lat === 0 && point.lng === 0);
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Haversine distance in km, same as calculateDistance in src/utils/distance
+const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Ride Matching Service
+ * Matches passenger searches to rides along the driver's route. A ride
+ * matches when its route polyline passes within the pickup radius of the
+ * passenger's origin and, further along, within the drop-off radius of their
+ * destination. A stop within the radius is used when there is one; otherwise
+ * the passenger boards or alights on the route between stops. Matches are
+ * ranked by how far the passenger has to travel off the route.
+ */
+export class RideMatchingService {
+
+  /**
+   * Ordered stops for a ride. Direct rides get pseudo stops built from the
+   * ride's own origin and destination (ids 0 and 1).
+   */
+  static getRideStops(ride: any): MatchStop[] {
+    const segments = ride.ride_segments || ride.segments || [];
+
+    if (ride.use_direct_route || segments.length === 0) {
+      return [
+        {
+          id: 0,
+          address: ride.from_location,
+          segment_order: 0,
+          is_pickup: true,
+          lat: ride.from_lat,
+          lng: ride.from_lng,
+        },
+        {
+          id: 1,
+          address: ride.to_location,
+          segment_order: 1,
+          is_pickup: false,
+          lat: ride.to_lat,
+          lng: ride.to_lng,
+        },
+      ];
+    }
+
+    return [...segments].sort((a: MatchStop, b: MatchStop) => a.segment_order - b.segment_order);
+  }
+
+  /**
+   * Decoded route polyline for a ride, or straight lines between its stops
+   * when no polyline was stored
+   */
+  static getRoutePolyline(ride: any, stops: MatchStop[] = this.getRideStops(ride)): GeoPoint[] {
+    if (ride.route_polyline) {
+      try {
+        const decoded = decodePolyline(ride.route_polyline);
+        if (decoded.length >= 2) return decoded;
+      } catch (error) {
+        console.warn('Invalid route polyline for ride', ride.id, error);
+      }
+    }
+
+    return stops
+      .filter(stop => isValidPoint(stop))
+      .map(stop => ({ lat: stop.lat!, lng: stop.lng! }));
+  }
+
+  /**
+   * Approximate distance (km) from a point to the line segment a→b, using an
+   * equirectangular projection around the point. Accurate enough for the
+   * few-kilometre radii used in matching.
+   */
+  static distanceToSegmentKm(point: GeoPoint, a: GeoPoint, b: GeoPoint): number {
+    return this.projectOntoSegment(point, a, b).distanceKm;
+  }
+
+  /**
+   * Shortest distance (km) from a point to a polyline
+   */
+  static distanceToPolylineKm(point: GeoPoint, polyline: GeoPoint[]): number {
+    return this.projectOntoPolyline(point, polyline).distanceKm;
+  }
+
+  /**
+   * Closest position on a polyline to a point. `position` is the vertex index
+   * plus the fraction along the following segment (e.g. 2.5 is halfway between
+   * vertices 2 and 3), so positions of different points can be compared to
+   * tell which comes first along the route.
+   */
+  static projectOntoPolyline(point: GeoPoint, polyline: GeoPoint[]): { distanceKm: number; position: number } {
+    if (polyline.length === 0) return { distanceKm: Infinity, position: 0 };
+    if (polyline.length === 1) {
+      return {
+        distanceKm: calculateDistance(point.lat, point.lng, polyline[0].lat, polyline[0].lng),
+        position: 0,
+      };
+    }
+
+    let best = { distanceKm: Infinity, position: 0 };
+    for (let i = 0; i < polyline.length - 1; i++) {
+      const { distanceKm, t } = this.projectOntoSegment(point, polyline[i], polyline[i + 1]);
+      if (distanceKm < best.distanceKm) {
+        best = { distanceKm, position: i + t };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Distance (km) along a polyline between two positions from projectOntoPolyline
+   */
+  static routeDistanceKm(polyline: GeoPoint[], fromPosition: number, toPosition: number): number {
+    const pointAt = (position: number): GeoPoint => {
+      const index = Math.min(Math.floor(position), polyline.length - 1);
+      const t = position - index;
+      if (t === 0 || index === polyline.length - 1) return polyline[index];
+      const a = polyline[index];
+      const b = polyline[index + 1];
+      return { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+    };
+
+    if (polyline.length < 2 || toPosition <= fromPosition) return 0;
+
+    let distance = 0;
+    let previous = pointAt(fromPosition);
+    for (let i = Math.floor(fromPosition) + 1; i < toPosition; i++) {
+      distance += calculateDistance(previous.lat, previous.lng, polyline[i].lat, polyline[i].lng);
+      previous = polyline[i];
+    }
+    const end = pointAt(toPosition);
+    return distance + calculateDistance(previous.lat, previous.lng, end.lat, end.lng);
+  }
+
+  /**
+   * Find where a passenger would board and alight a ride for the given origin
+   * and destination, or null if the route does not pass close enough to both
+   * in that order.
+   */
+  static matchRide<R = any>(
+    ride: R,
+    origin: GeoPoint,
+    destination: GeoPoint,
+    options: RideMatchOptions = DEFAULT_MATCH_OPTIONS
+  ): RideMatch<R> | null {
+    const stops = this.getRideStops(ride);
+    const located = stops
+      .map((stop, index) => ({ stop, index }))
+      .filter(({ stop }) => isValidPoint(stop));
+
+    if (located.length < 2) return null;
+
+    const polyline = this.getRoutePolyline(ride, located.map(({ stop }) => stop));
+    const pickup = this.projectOntoPolyline(origin, polyline);
+    const dropoff = this.projectOntoPolyline(destination, polyline);
+    if (pickup.distanceKm > options.pickupRadiusKm || dropoff.distanceKm > options.dropoffRadiusKm) {
+      return null;
+    }
+
+    const stopPositions = located.map(({ stop }) =>
+      this.projectOntoPolyline({ lat: stop.lat!, lng: stop.lng! }, polyline).position
+    );
+
+    // Stops within the radius, then the closest point on the route, which
+    // sits on the leg between the stops before and after it
+    const pointsNear = (point: GeoPoint, onRoute: { distanceKm: number; position: number }, radiusKm: number, boarding: boolean) => {
+      const points: RoutePoint[] = [];
+      located.forEach(({ stop }, index) => {
+        const distanceKm = calculateDistance(point.lat, point.lng, stop.lat!, stop.lng!);
+        if (distanceKm <= radiusKm) {
+          points.push({ stopIndex: index, atStop: true, position: stopPositions[index], distanceKm });
+        }
+      });
+
+      let legStop = boarding ? 0 : located.length - 1;
+      stopPositions.forEach((position, index) => {
+        if (boarding && position <= onRoute.position && index < located.length - 1) legStop = index;
+        if (!boarding && position >= onRoute.position && index > 0 && index < legStop) legStop = index;
+      });
+      points.push({ stopIndex: legStop, atStop: false, position: onRoute.position, distanceKm: onRoute.distanceKm });
+
+      return points;
+    };
+
+    const pickupPoints = pointsNear(origin, pickup, options.pickupRadiusKm, true);
+    const dropoffPoints = pointsNear(destination, dropoff, options.dropoffRadiusKm, false);
+
+    // Prefer boarding and alighting at stops, then the shortest detour
+    let best: { from: RoutePoint; to: RoutePoint; offStop: number; detourKm: number } | null = null;
+    for (const from of pickupPoints) {
+      for (const to of dropoffPoints) {
+        if (to.position <= from.position || to.stopIndex <= from.stopIndex) continue;
+
+        const offStop = (from.atStop ? 0 : 1) + (to.atStop ? 0 : 1);
+        const detourKm = from.distanceKm + to.distanceKm;
+        if (!best || offStop < best.offStop || (offStop === best.offStop && detourKm < best.detourKm)) {
+          best = { from, to, offStop, detourKm };
+        }
+      }
+    }
+
+    if (!best) return null;
+
+    const boardAt = located[best.from.stopIndex];
+    const alightAt = located[best.to.stopIndex];
+
+    return {
+      ride,
+      fromStop: boardAt.stop,
+      toStop: alightAt.stop,
+      fromStopIndex: boardAt.index,
+      toStopIndex: alightAt.index,
+      pickupAtStop: best.from.atStop,
+      dropoffAtStop: best.to.atStop,
+      pickupPosition: best.from.position,
+      dropoffPosition: best.to.position,
+      pickupDistanceKm: round2(best.from.distanceKm),
+      dropoffDistanceKm: round2(best.to.distanceKm),
+      detourDistanceKm: round2(best.detourKm),
+      matchType: 'geo',
+    };
+  }
+
+  /**
+   * Match rides against a search. Uses coordinates when the search has them and
+   * only falls back to comparing location names when it does not. Results are
+   * sorted by detour distance, then departure time.
+   */
+  static findMatches<R extends { available_seats: number; departure_time: string }>(
+    rides: R[],
+    criteria: RideSearchCriteria,
+    options: RideMatchOptions = DEFAULT_MATCH_OPTIONS
+  ): RideMatch<R>[] {
+    const withSeats = rides.filter(ride => ride.available_seats >= criteria.seatsNeeded);
+    const useCoordinates = isValidPoint(criteria.origin) && isValidPoint(criteria.destination);
+
+    if (!useCoordinates) {
+      console.warn('Search has no coordinates, falling back to location name matching');
+    }
+
+    const matches = withSeats
+      .map(ride => useCoordinates
+        ? this.matchRide(ride, criteria.origin!, criteria.destination!, options)
+        : this.matchRideByName(ride, criteria.fromLocation || '', criteria.toLocation || ''))
+      .filter((match): match is RideMatch<R> => match !== null);
+
+    return matches.sort((a, b) =>
+      a.detourDistanceKm - b.detourDistanceKm ||
+      new Date(a.ride.departure_time).getTime() - new Date(b.ride.departure_time).getTime()
+    );
+  }
+
+  /**
+   * Legacy name-based match, used only for searches without coordinates.
+   * Requires an exact or containment match on the normalized address.
+   */
+  static matchRideByName<R = any>(ride: R, fromLocation: string, toLocation: string): RideMatch<R> | null {
+    const searchFrom = this.normalizeLocation(fromLocation);
+    const searchTo = this.normalizeLocation(toLocation);
+    if (!searchFrom || !searchTo) return null;
+
+    const matchesName = (search: string, address: string) => {
+      const normalized = this.normalizeLocation(address || '');
+      return normalized.length > 0 && (normalized.includes(search) || search.includes(normalized));
+    };
+
+    const stops = this.getRideStops(ride);
+    for (let i = 0; i < stops.length - 1; i++) {
+      if (!matchesName(searchFrom, stops[i].address)) continue;
+
+      for (let j = i + 1; j < stops.length; j++) {
+        if (!matchesName(searchTo, stops[j].address)) continue;
+
+        return {
+          ride,
+          fromStop: stops[i],
+          toStop: stops[j],
+          fromStopIndex: i,
+          toStopIndex: j,
+          pickupAtStop: true,
+          dropoffAtStop: true,
+          pickupPosition: i,
+          dropoffPosition: j,
+          pickupDistanceKm: 0,
+          dropoffDistanceKm: 0,
+          detourDistanceKm: 0,
+          matchType: 'name',
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private static projectOntoSegment(point: GeoPoint, a: GeoPoint, b: GeoPoint): { distanceKm: number; t: number } {
+    const kmPerDegreeLng = KM_PER_DEGREE_LAT * Math.cos(point.lat * Math.PI / 180);
+    const ax = (a.lng - point.lng) * kmPerDegreeLng;
+    const ay = (a.lat - point.lat) * KM_PER_DEGREE_LAT;
+    const bx = (b.lng - point.lng) * kmPerDegreeLng;
+    const by = (b.lat - point.lat) * KM_PER_DEGREE_LAT;
+
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+    return { distanceKm: Math.hypot(ax + t * dx, ay + t * dy), t };
+  }
+
+  private static normalizeLocation(location: string): string {
+    return location.toLowerCase()
+      .replace(/[^a-z0-9\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,105 @@
+export type RideSearchSort = 'departure' | 'price' | 'detour';
+
+export interface RideSearchParams {
+  origin?: { lat: number; lng: number };
+  destination?: { lat: number; lng: number };
+  fromLocation?: string; // Only used when coordinates are missing
+  toLocation?: string;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo?: string; // Defaults to 30 days after dateFrom on the server
+  seats: number;
+  maxPrice?: number;
+  sort?: RideSearchSort;
+  page?: number;
+  pageSize?: number;
+  excludeDriverId?: string;
+  includeFull?: boolean; // Return full rides too, flagged isFull, so passengers can join the waitlist
+}
+
+export interface RideSearchStop {
+  id: number;
+  address: string;
+  segment_order: number;
+  is_pickup: boolean;
+  lat?: number;
+  lng?: number;
+}
+
+export interface RideSearchMatch {
+  ride: any;
+  fromSegment: RideSearchStop;
+  toSegment: RideSearchStop;
+  segmentPrice: number;
+  estimatedPickupTime: string;
+  estimatedDropoffTime: string;
+  availableSeats: number;
+  isFull?: boolean;
+  pickupAtStop?: boolean; // False when the passenger boards on the route between stops, as a custom stop
+  dropoffAtStop?: boolean;
+  realTimeETA?: boolean; // Times come from the routed route or stored stop ETAs
+  actualDistance?: number;
+  actualDuration?: number;
+  detourDistance?: number;
+}
+
+export interface RideSearchPage {
+  results: RideSearchMatch[];
+  page: number;
+  pageSize: number;
+  total: number | null; // Null when sorted by departure and the server stopped reading after this page
+  hasMore: boolean;
+}
+
+/**
+ * Ride Search Service
+ * Client for the /api/rides/search function. Filtering, matching and
+ * pagination happen on the server so the browser only downloads one page.
+ */
+export class RideSearchService {
+
+  /**
+   * Fetch one page of rides matching the search
+   */
+  static async search(params: RideSearchParams): Promise<RideSearchPage> {
+    const query = new URLSearchParams({
+      date_from: params.dateFrom,
+      seats: String(params.seats),
+      sort: params.sort || 'departure',
+      page: String(params.page || 1),
+    });
+
+    if (params.origin && params.destination) {
+      query.set('origin_lat', String(params.origin.lat));
+      query.set('origin_lng', String(params.origin.lng));
+      query.set('destination_lat', String(params.destination.lat));
+      query.set('destination_lng', String(params.destination.lng));
+    }
+    if (params.fromLocation) query.set('from_location', params.fromLocation);
+    if (params.toLocation) query.set('to_location', params.toLocation);
+    if (params.dateTo) query.set('date_to', params.dateTo);
+    if (params.maxPrice != null) query.set('max_price', String(params.maxPrice));
+    if (params.pageSize) query.set('page_size', String(params.pageSize));
+    if (params.excludeDriverId) query.set('exclude_driver_id', params.excludeDriverId);
+    if (params.includeFull) query.set('include_full', 'true');
+
+    const response = await fetch(`/api/rides/search?${query.toString()}`);
+
+    const contentType = response.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      throw new Error('Ride search API is unavailable');
+    }
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to search rides');
+    }
+
+    return {
+      results: result.data.results,
+      page: result.data.page,
+      pageSize: result.data.page_size,
+      total: result.data.total,
+      hasMore: result.data.has_more,
+    };
+  }
+}
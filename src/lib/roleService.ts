@@ -0,0 +1,62 @@
+import { authenticatedApiRequest } from './staffApi';
+import { UserRole, Permission } from '../types';
+
+// Mirrors api/auth/access.ts
+export interface UserAccess {
+  roles: UserRole[];
+  permissions: Permission[];
+}
+
+const NO_ACCESS: UserAccess = { roles: ['passenger'], permissions: [] };
+
+/**
+ * Role Service
+ * Every user is a passenger, drivers have is_driver, and staff roles live in
+ * users.role, set by ops. Which permissions each role grants is decided by
+ * the API (ROLE_PERMISSIONS in api/_lib/auth.ts), so the client asks
+ * /api/auth/access rather than keeping its own copy. The client only uses
+ * roles to show or hide screens; privileged operations go through API
+ * functions that check them again.
+ */
+export class RoleService {
+  private static cached: { userId: string; access: Promise<UserAccess> } | null = null;
+
+  /**
+   * The signed-in user's roles and permissions, fetched once per user
+   */
+  static getAccess(userId: string): Promise<UserAccess> {
+    if (this.cached?.userId !== userId) {
+      const access = authenticatedApiRequest<UserAccess>('/api/auth/access').catch(error => {
+        console.error('Error fetching user roles:', error);
+        if (this.cached?.access === access) this.cached = null;
+        return NO_ACCESS;
+      });
+      this.cached = { userId, access };
+    }
+    return this.cached.access;
+  }
+
+  /**
+   * All of the user's roles, at least ['passenger']
+   */
+  static async getRoles(userId: string): Promise<UserRole[]> {
+    return (await this.getAccess(userId)).roles;
+  }
+
+  /**
+   * Whether the user has one of the roles
+   */
+  static async hasRole(userId: string, roles: UserRole[]): Promise<boolean> {
+    const userRoles = await this.getRoles(userId);
+    return userRoles.some(role => roles.includes(role));
+  }
+
+  /**
+   * Whether one of the user's roles grants the permission
+   */
+  static async can(userId: string, permission: Permission): Promise<boolean> {
+    return (await this.getAccess(userId)).permissions.includes(permission);
+  }
+}
+
+export default RoleService;
@@ -0,0 +1,256 @@
+import type { RoutePoint, RouteResult } from './routingService';
+
+export interface RouteCacheStats {
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  expired: number;
+  evictions: number;
+  writes: number;
+  size: number;
+  hitRate: number; // 0-1, memory and persistent hits over all lookups
+}
+
+interface RouteCacheEntry {
+  key: string;
+  value: RouteResult;
+  expiresAt: number; // epoch ms
+}
+
+const DB_NAME = 'ongopool-route-cache';
+const STORE_NAME = 'routes';
+const DB_VERSION = 1;
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_PRECISION = 3; // ~110m at the equator
+const DEFAULT_TTL_MINUTES = 6 * 60;
+const DEFAULT_FALLBACK_TTL_MINUTES = 15;
+
+/**
+ * Route Cache Service
+ * Two-level cache for routing results: an in-memory LRU backed by IndexedDB
+ * when running in a browser. Keys combine snapped coordinates with the
+ * hour-of-week so rush-hour and off-peak durations are cached separately.
+ */
+class RouteCacheService {
+  private memory = new Map<string, RouteCacheEntry>(); // Map keeps insertion order, used for LRU
+  private maxEntries: number;
+  private precision: number;
+  private ttlMs: number;
+  private fallbackTtlMs: number;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private stats = {
+    memoryHits: 0,
+    persistentHits: 0,
+    misses: 0,
+    expired: 0,
+    evictions: 0,
+    writes: 0,
+  };
+
+  constructor() {
+    const env = import.meta.env;
+
+    this.maxEntries = Number(env.VITE_ROUTE_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+    this.precision = Number(env.VITE_ROUTE_CACHE_PRECISION) || DEFAULT_PRECISION;
+    this.ttlMs = (Number(env.VITE_ROUTE_CACHE_TTL_MINUTES) || DEFAULT_TTL_MINUTES) * 60 * 1000;
+    this.fallbackTtlMs = DEFAULT_FALLBACK_TTL_MINUTES * 60 * 1000;
+  }
+
+  // Build a cache key from snapped coordinates and the hour-of-week (0-167)
+  buildKey(points: RoutePoint[], departureTime: Date = new Date()): string {
+    const snapped = points
+      .map(point => `${point.lat.toFixed(this.precision)},${point.lng.toFixed(this.precision)}`)
+      .join(';');
+    const hourOfWeek = departureTime.getDay() * 24 + departureTime.getHours();
+
+    return `${snapped}@${hourOfWeek}`;
+  }
+
+  async get(key: string): Promise<RouteResult | null> {
+    const now = Date.now();
+    const cached = this.memory.get(key);
+
+    if (cached) {
+      if (cached.expiresAt > now) {
+        // Refresh LRU position
+        this.memory.delete(key);
+        this.memory.set(key, cached);
+        this.stats.memoryHits++;
+        return cached.value;
+      }
+
+      this.memory.delete(key);
+      this.stats.expired++;
+    }
+
+    const persisted = await this.readPersistent(key);
+    if (persisted) {
+      if (persisted.expiresAt > now) {
+        this.remember(persisted);
+        this.stats.persistentHits++;
+        return persisted.value;
+      }
+
+      this.stats.expired++;
+      await this.deletePersistent(key);
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  // Store a result. Estimates from the in-process fallback get a short TTL so
+  // real providers are retried soon.
+  async set(key: string, value: RouteResult, ttlMs?: number): Promise<void> {
+    const ttl = ttlMs ?? (value.provider === 'fallback' ? this.fallbackTtlMs : this.ttlMs);
+    const entry: RouteCacheEntry = { key, value, expiresAt: Date.now() + ttl };
+
+    this.remember(entry);
+    this.stats.writes++;
+    await this.writePersistent(entry);
+  }
+
+  getStats(): RouteCacheStats {
+    const hits = this.stats.memoryHits + this.stats.persistentHits;
+    const lookups = hits + this.stats.misses;
+
+    return {
+      ...this.stats,
+      size: this.memory.size,
+      hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+    };
+  }
+
+  resetStats(): void {
+    this.stats = {
+      memoryHits: 0,
+      persistentHits: 0,
+      misses: 0,
+      expired: 0,
+      evictions: 0,
+      writes: 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    await this.runRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  }
+
+  // Remove expired entries from persistent storage
+  async pruneExpired(): Promise<number> {
+    const db = await this.openDatabase();
+    if (!db) return 0;
+
+    const entries = await this.runRequest<RouteCacheEntry[]>(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+    );
+    const now = Date.now();
+    const expiredKeys = (entries || []).filter(entry => entry.expiresAt <= now).map(entry => entry.key);
+
+    for (const key of expiredKeys) {
+      await this.deletePersistent(key);
+    }
+
+    return expiredKeys.length;
+  }
+
+  private remember(entry: RouteCacheEntry): void {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+
+    while (this.memory.size > this.maxEntries) {
+      const oldestKey = this.memory.keys().next().value as string;
+      this.memory.delete(oldestKey);
+      this.stats.evictions++;
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    if (typeof indexedDB === 'undefined') {
+      this.dbPromise = Promise.resolve(null);
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise(resolve => {
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => {
+          resolve(request.result);
+          this.pruneExpired().catch(error => console.warn('Route cache prune failed:', error));
+        };
+        request.onerror = () => {
+          console.warn('Route cache persistence unavailable:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Route cache persistence unavailable:', error);
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+
+  private async readPersistent(key: string): Promise<RouteCacheEntry | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
+    try {
+      const entry = await this.runRequest<RouteCacheEntry | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      );
+      return entry || null;
+    } catch (error) {
+      console.warn('Route cache read failed:', error);
+      return null;
+    }
+  }
+
+  private async writePersistent(entry: RouteCacheEntry): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      await this.runRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      console.warn('Route cache write failed:', error);
+    }
+  }
+
+  private async deletePersistent(key: string): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      await this.runRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key));
+    } catch (error) {
+      console.warn('Route cache delete failed:', error);
+    }
+  }
+
+  private runRequest<T = unknown>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Export singleton instance
+export const routeCacheService = new RouteCacheService();
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  routingService,
+  createOsrmProvider,
+  createGraphHopperProvider,
+} from './routingService';
+import { calculateDistance } from '../utils/distance';
+
+const TORONTO = { lat: 43.6532, lng: -79.3832 };
+const KINGSTON = { lat: 44.2312, lng: -76.4860 };
+
+type StubReply = (res: ServerResponse) => void;
+
+const json = (body: unknown, status: number = 200): StubReply => res => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Never answers, so the provider's timeout has to fire
+const hang: StubReply = () => {};
+
+const OSRM_ROUTE = {
+  routes: [{ distance: 263000, duration: 9600, legs: [{ distance: 263000, duration: 9600 }] }],
+};
+const GRAPHHOPPER_ROUTE = { paths: [{ distance: 259000, time: 9300000 }] };
+
+/**
+ * Local stand-in for an OSRM server (/osrm) and the GraphHopper API (/graphhopper).
+ * Each test sets what they reply with and reads back the order they were called in.
+ */
+const stub = {
+  server: null as Server | null,
+  baseUrl: '',
+  calls: [] as string[],
+  replies: {} as Record<string, StubReply>,
+};
+
+beforeAll(async () => {
+  stub.server = createServer((req, res) => {
+    const backend = (req.url || '').split('/')[1];
+    stub.calls.push(backend);
+    (stub.replies[backend] || json({ message: 'Not found' }, 404))(res);
+  });
+  await new Promise<void>(resolve => stub.server!.listen(0, '127.0.0.1', resolve));
+  stub.baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+
+  routingService.registerProvider(createOsrmProvider({ baseUrl: `${stub.baseUrl}/osrm`, timeoutMs: 200 }));
+  routingService.registerProvider(createGraphHopperProvider({ baseUrl: `${stub.baseUrl}/graphhopper`, timeoutMs: 200 }));
+});
+
+afterAll(async () => {
+  stub.server?.closeAllConnections();
+  await new Promise(resolve => stub.server?.close(resolve));
+});
+
+beforeEach(() => {
+  stub.calls = [];
+  stub.replies = {};
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('routingService', () => {
+  it('tries osrm, then graphhopper, then the Haversine fallback by default', () => {
+    expect(routingService.getProviderOrder()).toEqual(['osrm', 'graphhopper', 'fallback']);
+  });
+
+  it('uses osrm when it answers', async () => {
+    stub.replies = { osrm: json(OSRM_ROUTE), graphhopper: json(GRAPHHOPPER_ROUTE) };
+
+    const result = await routingService.route([TORONTO, KINGSTON], { skipCache: true });
+
+    expect(result.provider).toBe('osrm');
+    expect(result.distance).toBe(263);
+    expect(result.duration).toBe(160);
+    expect(stub.calls).toEqual(['osrm']);
+  });
+
+  it('falls back to graphhopper when osrm returns an error', async () => {
+    stub.replies = { osrm: json({ code: 'InvalidQuery' }, 500), graphhopper: json(GRAPHHOPPER_ROUTE) };
+
+    const result = await routingService.route([TORONTO, KINGSTON], { skipCache: true });
+
+    expect(result.provider).toBe('graphhopper');
+    expect(result.distance).toBe(259);
+    expect(result.duration).toBe(155);
+    expect(stub.calls).toEqual(['osrm', 'graphhopper']);
+  });
+
+  it('falls back to graphhopper when osrm has no route', async () => {
+    stub.replies = { osrm: json({ code: 'NoRoute', routes: [] }), graphhopper: json(GRAPHHOPPER_ROUTE) };
+
+    const result = await routingService.route([TORONTO, KINGSTON], { skipCache: true });
+
+    expect(result.provider).toBe('graphhopper');
+    expect(stub.calls).toEqual(['osrm', 'graphhopper']);
+  });
+
+  it('falls back to Haversine when osrm times out and graphhopper fails', async () => {
+    stub.replies = { osrm: hang, graphhopper: json({ message: 'Too many requests' }, 429) };
+
+    const result = await routingService.route([TORONTO, KINGSTON], { skipCache: true });
+
+    expect(result.provider).toBe('fallback');
+    expect(result.distance).toBe(calculateDistance(TORONTO.lat, TORONTO.lng, KINGSTON.lat, KINGSTON.lng));
+    expect(result.legs).toHaveLength(1);
+    expect(stub.calls).toEqual(['osrm', 'graphhopper']);
+  });
+
+  it('answers with Haversine when the stub is unreachable', async () => {
+    routingService.registerProvider(createOsrmProvider({ baseUrl: 'http://127.0.0.1:1/osrm', timeoutMs: 200 }));
+    routingService.registerProvider(createGraphHopperProvider({ baseUrl: 'http://127.0.0.1:1/graphhopper', timeoutMs: 200 }));
+
+    try {
+      const result = await routingService.route([TORONTO, KINGSTON], { skipCache: true });
+
+      expect(result.provider).toBe('fallback');
+    } finally {
+      routingService.registerProvider(createOsrmProvider({ baseUrl: `${stub.baseUrl}/osrm`, timeoutMs: 200 }));
+      routingService.registerProvider(createGraphHopperProvider({ baseUrl: `${stub.baseUrl}/graphhopper`, timeoutMs: 200 }));
+    }
+  });
+
+  it('follows a configured order', async () => {
+    stub.replies = { osrm: json(OSRM_ROUTE), graphhopper: json(GRAPHHOPPER_ROUTE) };
+    routingService.setProviderOrder(['graphhopper', 'osrm', 'fallback']);
+
+    try {
+      const result = await routingService.route([TORONTO, KINGSTON], { skipCache: true });
+
+      expect(result.provider).toBe('graphhopper');
+      expect(stub.calls).toEqual(['graphhopper']);
+    } finally {
+      routingService.setProviderOrder(['osrm', 'graphhopper', 'fallback']);
+    }
+  });
+});
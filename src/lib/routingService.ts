@@ -0,0 +1,425 @@
+import { calculateDistance } from '../utils/distance';
+import { routeCacheService } from './routeCacheService';
+import { decodePolyline } from '../utils/polyline';
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteLeg {
+  distance: number; // km
+  duration: number; // minutes
+  from: number;
+  to: number;
+}
+
+export interface RouteResult {
+  distance: number; // km
+  duration: number; // minutes
+  legs: RouteLeg[];
+  provider: string; // Name of the provider that answered
+  geometry?: RoutePoint[]; // Full route polyline, only when requested
+}
+
+export interface RouteOptions {
+  departureTime?: Date; // Used for the cache's hour-of-week bucket, defaults to now
+  skipCache?: boolean;
+  includeGeometry?: boolean;
+}
+
+export interface ProviderRouteOptions {
+  includeGeometry?: boolean;
+}
+
+/**
+ * A routing backend. Implementations return null (or throw) when they cannot
+ * answer so the service can move on to the next provider in the order.
+ */
+export interface RoutingProvider {
+  name: string;
+  timeoutMs?: number; // Overrides the service default timeout for this provider
+  route(
+    points: RoutePoint[],
+    signal: AbortSignal,
+    options?: ProviderRouteOptions
+  ): Promise<Omit<RouteResult, 'provider'> | null>;
+}
+
+export interface OsrmProviderOptions {
+  name?: string;
+  baseUrl: string;
+  profile?: string;
+  timeoutMs?: number;
+}
+
+export interface ValhallaProviderOptions {
+  name?: string;
+  baseUrl: string;
+  costing?: string;
+  timeoutMs?: number;
+}
+
+export interface GraphHopperProviderOptions {
+  name?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export interface FallbackProviderOptions {
+  name?: string;
+  averageSpeedKmh?: number;
+  bufferFactor?: number; // Multiplier applied to straight-line drive time for stops/traffic
+}
+
+const DEFAULT_PROVIDER_ORDER = ['osrm', 'graphhopper', 'fallback'];
+const DEFAULT_TIMEOUT_MS = 8000;
+const FALLBACK_PROVIDER_NAME = 'fallback';
+
+const roundKm = (meters: number): number => Math.round(meters / 1000 * 100) / 100;
+
+const sumLegs = (legs: RouteLeg[]): { distance: number; duration: number } => ({
+  distance: Math.round(legs.reduce((sum, leg) => sum + leg.distance, 0) * 100) / 100,
+  duration: Math.round(legs.reduce((sum, leg) => sum + leg.duration, 0)),
+});
+
+/**
+ * OSRM-compatible provider. Works against the public demo server or a
+ * self-hosted osrm-routed instance.
+ */
+export const createOsrmProvider = (options: OsrmProviderOptions): RoutingProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const profile = options.profile || 'driving';
+
+  return {
+    name: options.name || 'osrm',
+    timeoutMs: options.timeoutMs,
+    async route(points, signal, routeOptions = {}) {
+      const coordString = points.map(point => `${point.lng},${point.lat}`).join(';');
+      const overview = routeOptions.includeGeometry ? 'full&geometries=polyline' : 'false';
+      const url = `${baseUrl}/route/v1/${profile}/${coordString}?overview=${overview}&alternatives=false&steps=false`;
+
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        console.warn(`OSRM API returned ${response.status}: ${response.statusText}`);
+        return null;
+      }
+
+      const data = await response.json();
+      if (!data.routes || data.routes.length === 0) {
+        return null;
+      }
+
+      const route = data.routes[0];
+      const legs: RouteLeg[] = (route.legs || []).map((leg: any, index: number) => ({
+        distance: roundKm(leg.distance),
+        duration: Math.round(leg.duration / 60),
+        from: index,
+        to: index + 1,
+      }));
+
+      return {
+        distance: roundKm(route.distance),
+        duration: Math.round(route.duration / 60),
+        legs,
+        geometry: routeOptions.includeGeometry && route.geometry ? decodePolyline(route.geometry, 5) : undefined,
+      };
+    },
+  };
+};
+
+/**
+ * Valhalla provider using the /route JSON API.
+ */
+export const createValhallaProvider = (options: ValhallaProviderOptions): RoutingProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const costing = options.costing || 'auto';
+
+  return {
+    name: options.name || 'valhalla',
+    timeoutMs: options.timeoutMs,
+    async route(points, signal, routeOptions = {}) {
+      const response = await fetch(`${baseUrl}/route`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locations: points.map(point => ({ lat: point.lat, lon: point.lng })),
+          costing,
+          units: 'kilometers',
+          directions_type: 'none',
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        console.warn(`Valhalla API returned ${response.status}: ${response.statusText}`);
+        return null;
+      }
+
+      const data = await response.json();
+      if (!data.trip || !data.trip.summary) {
+        return null;
+      }
+
+      const legs: RouteLeg[] = (data.trip.legs || []).map((leg: any, index: number) => ({
+        distance: Math.round(leg.summary.length * 100) / 100,
+        duration: Math.round(leg.summary.time / 60),
+        from: index,
+        to: index + 1,
+      }));
+
+      // Valhalla returns one precision-6 shape per leg
+      const geometry = routeOptions.includeGeometry
+        ? (data.trip.legs || []).flatMap((leg: any) => leg.shape ? decodePolyline(leg.shape, 6) : [])
+        : undefined;
+
+      return {
+        distance: Math.round(data.trip.summary.length * 100) / 100,
+        duration: Math.round(data.trip.summary.time / 60),
+        legs,
+        geometry,
+      };
+    },
+  };
+};
+
+/**
+ * GraphHopper provider. Legs are requested one at a time because the route
+ * response does not break the path down per stop.
+ */
+export const createGraphHopperProvider = (options: GraphHopperProviderOptions = {}): RoutingProvider => {
+  const baseUrl = (options.baseUrl || 'https://graphhopper.com/api/1').replace(/\/+$/, '');
+  const keyParam = options.apiKey ? `&key=${encodeURIComponent(options.apiKey)}` : '';
+
+  return {
+    name: options.name || 'graphhopper',
+    timeoutMs: options.timeoutMs,
+    async route(points, signal, routeOptions = {}) {
+      const legs: RouteLeg[] = [];
+      const geometry: RoutePoint[] = [];
+      const calcPoints = routeOptions.includeGeometry ? 'true&points_encoded=true' : 'false';
+
+      for (let i = 0; i < points.length - 1; i++) {
+        const from = points[i];
+        const to = points[i + 1];
+        const url = `${baseUrl}/route?point=${from.lat},${from.lng}&point=${to.lat},${to.lng}&vehicle=car&locale=en&calc_points=${calcPoints}&debug=false&elevation=false&type=json${keyParam}`;
+
+        const response = await fetch(url, { signal });
+        if (!response.ok) {
+          console.warn(`GraphHopper API returned ${response.status}: ${response.statusText}`);
+          return null;
+        }
+
+        const data = await response.json();
+        if (!data.paths || data.paths.length === 0) {
+          return null;
+        }
+
+        legs.push({
+          distance: roundKm(data.paths[0].distance),
+          duration: Math.round(data.paths[0].time / 60000), // Convert ms to minutes
+          from: i,
+          to: i + 1,
+        });
+
+        if (routeOptions.includeGeometry && typeof data.paths[0].points === 'string') {
+          geometry.push(...decodePolyline(data.paths[0].points, 5));
+        }
+      }
+
+      return {
+        ...sumLegs(legs),
+        legs,
+        geometry: routeOptions.includeGeometry ? geometry : undefined,
+      };
+    },
+  };
+};
+
+/**
+ * Pure in-process provider based on Haversine distance. Never touches the
+ * network, so it is always last in line and usable in offline tests.
+ */
+export const createFallbackProvider = (options: FallbackProviderOptions = {}): RoutingProvider => {
+  const averageSpeedKmh = options.averageSpeedKmh || 50;
+  const bufferFactor = options.bufferFactor || 1;
+
+  return {
+    name: options.name || FALLBACK_PROVIDER_NAME,
+    async route(points, _signal, routeOptions = {}) {
+      const legs: RouteLeg[] = [];
+
+      for (let i = 0; i < points.length - 1; i++) {
+        const distance = calculateDistance(points[i].lat, points[i].lng, points[i + 1].lat, points[i + 1].lng);
+        legs.push({
+          distance,
+          duration: Math.round((distance / averageSpeedKmh) * 60 * bufferFactor),
+          from: i,
+          to: i + 1,
+        });
+      }
+
+      // Straight lines between the stops are the best geometry we have offline
+      return {
+        ...sumLegs(legs),
+        legs,
+        geometry: routeOptions.includeGeometry ? points.map(point => ({ ...point })) : undefined,
+      };
+    },
+  };
+};
+
+class RoutingService {
+  private providers = new Map<string, RoutingProvider>();
+  private providerOrder: string[] = [];
+  private defaultTimeoutMs: number;
+  private lastResortProvider: RoutingProvider;
+  private inFlight = new Map<string, Promise<RouteResult>>();
+
+  constructor() {
+    const env = import.meta.env;
+
+    this.defaultTimeoutMs = Number(env.VITE_ROUTING_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+    this.lastResortProvider = createFallbackProvider({
+      averageSpeedKmh: Number(env.VITE_ROUTING_FALLBACK_SPEED_KMH) || undefined,
+    });
+
+    // Built-in providers; which ones are used is controlled by the order below
+    this.registerProvider(createOsrmProvider({
+      baseUrl: env.VITE_OSRM_URL || 'https://router.project-osrm.org',
+      timeoutMs: Number(env.VITE_OSRM_TIMEOUT_MS) || undefined,
+    }));
+    this.registerProvider(createGraphHopperProvider({
+      apiKey: env.VITE_GRAPHHOPPER_API_KEY,
+      timeoutMs: Number(env.VITE_GRAPHHOPPER_TIMEOUT_MS) || undefined,
+    }));
+    if (env.VITE_VALHALLA_URL) {
+      this.registerProvider(createValhallaProvider({
+        baseUrl: env.VITE_VALHALLA_URL,
+        timeoutMs: Number(env.VITE_VALHALLA_TIMEOUT_MS) || undefined,
+      }));
+    }
+    this.registerProvider(this.lastResortProvider);
+
+    const configuredOrder = (env.VITE_ROUTING_PROVIDERS || '')
+      .split(',')
+      .map((name: string) => name.trim())
+      .filter(Boolean);
+    this.setProviderOrder(configuredOrder.length > 0 ? configuredOrder : DEFAULT_PROVIDER_ORDER);
+  }
+
+  // Register (or replace) a provider. New providers are appended to the order.
+  registerProvider(provider: RoutingProvider): void {
+    this.providers.set(provider.name, provider);
+    if (!this.providerOrder.includes(provider.name)) {
+      this.providerOrder.push(provider.name);
+    }
+  }
+
+  unregisterProvider(name: string): void {
+    this.providers.delete(name);
+    this.providerOrder = this.providerOrder.filter(providerName => providerName !== name);
+  }
+
+  // Set which providers are tried and in what order. Unknown names are kept so
+  // providers registered later still slot into the configured position.
+  setProviderOrder(names: string[]): void {
+    this.providerOrder = [...names];
+  }
+
+  getProviderOrder(): string[] {
+    return this.providerOrder.filter(name => this.providers.has(name));
+  }
+
+  getProvider(name: string): RoutingProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  setDefaultTimeout(timeoutMs: number): void {
+    this.defaultTimeoutMs = timeoutMs;
+  }
+
+  // Route through the points, checking the route cache first and then trying
+  // each provider in order. Always resolves: if every configured provider
+  // fails, the in-process fallback answers.
+  async route(points: RoutePoint[], options: RouteOptions = {}): Promise<RouteResult> {
+    const providerOptions: ProviderRouteOptions = { includeGeometry: options.includeGeometry };
+
+    if (options.skipCache) {
+      return this.routeUncached(points, providerOptions);
+    }
+
+    // Geometry-bearing results are cached separately from the lighter summaries
+    const cacheKey = routeCacheService.buildKey(points, options.departureTime) + (options.includeGeometry ? '#geometry' : '');
+
+    // Share one lookup between concurrent callers asking for the same route
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const lookup = (async () => {
+      const cached = await routeCacheService.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const result = await this.routeUncached(points, providerOptions);
+      await routeCacheService.set(cacheKey, result);
+      return result;
+    })();
+
+    this.inFlight.set(cacheKey, lookup);
+    try {
+      return await lookup;
+    } finally {
+      this.inFlight.delete(cacheKey);
+    }
+  }
+
+  private async routeUncached(points: RoutePoint[], providerOptions: ProviderRouteOptions): Promise<RouteResult> {
+    for (const name of this.getProviderOrder()) {
+      const provider = this.providers.get(name)!;
+      const result = await this.tryProvider(provider, points, providerOptions);
+      if (result) {
+        return result;
+      }
+    }
+
+    console.log('All routing providers failed, using in-process fallback');
+    const fallback = await this.lastResortProvider.route(points, new AbortController().signal, providerOptions);
+    return { ...fallback!, provider: this.lastResortProvider.name };
+  }
+
+  private async tryProvider(
+    provider: RoutingProvider,
+    points: RoutePoint[],
+    providerOptions: ProviderRouteOptions
+  ): Promise<RouteResult | null> {
+    const timeoutMs = provider.timeoutMs || this.defaultTimeoutMs;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const result = await provider.route(points, controller.signal, providerOptions);
+      if (result) {
+        console.log(`${provider.name} route calculation result:`, { ...result, geometry: result.geometry?.length });
+        return { ...result, provider: provider.name };
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.warn(`${provider.name} routing timed out after ${timeoutMs}ms`);
+      } else {
+        console.warn(`Error fetching route from ${provider.name}:`, error);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    return null;
+  }
+}
+
+// Export singleton instance
+export const routingService = new RoutingService();
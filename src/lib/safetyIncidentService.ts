@@ -0,0 +1,318 @@
+import { supabase } from './supabase';
+import { authenticatedApiRequest } from './staffApi';
+
+// Mirrors api/safety/incidents.ts
+export type IncidentStatus = 'open' | 'resolved';
+export type IncidentPriority = 'high' | 'critical';
+export type ResolutionAction = 'no_action' | 'warned' | 'suspended' | 'banned';
+export type IncidentSource = 'report' | 'sos';
+
+interface PersonSummary {
+  id: string;
+  display_name: string | null;
+  email: string | null;
+  phone?: string | null;
+}
+
+export interface SafetyIncident {
+  id: number;
+  ticket_id: number | null;
+  ride_id: number | null;
+  booking_id: number | null;
+  reporter_id: string;
+  reported_user_id: string | null;
+  source: IncidentSource;
+  priority: IncidentPriority;
+  description: string;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy: number | null;
+  contact_alerted_at: string | null;
+  status: IncidentStatus;
+  freeze_active: boolean;
+  frozen_at: string | null;
+  frozen_by: string | null;
+  resolution: string | null;
+  resolution_action: ResolutionAction | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  reporter?: PersonSummary;
+  reported_user?: PersonSummary | null;
+  ride?: Record<string, any> | null;
+}
+
+export interface SafetyReport {
+  ride_id?: number | null;
+  reported_user_id?: string | null;
+  title: string;
+  description: string;
+  priority?: IncidentPriority;
+  contact_email?: string;
+}
+
+export interface DeviceLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+}
+
+// Mirrors api/_lib/messageGateway.ts
+export interface MessageResult {
+  channel: 'sms' | 'email';
+  to: string;
+  delivered: boolean;
+  gateway: string;
+  error?: string;
+}
+
+export interface SosResult {
+  incident: SafetyIncident;
+  share_url: string;
+  contact_name: string | null;
+  alerts: MessageResult[]; // Empty when no emergency contact is set
+}
+
+export interface EmergencyContact {
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+  emergency_contact_email: string;
+}
+
+// Mirrors api/_lib/tripShares.ts
+export interface TripShareView {
+  sharer_name: string;
+  ride: { from_location: string; to_location: string; departure_time: string; status: string };
+  driver: { name: string; car_model: string | null; car_plate: string | null };
+  location: { latitude: number; longitude: number; accuracy: number | null; updated_at: string } | null;
+  sos: boolean;
+  expires_at: string;
+}
+
+/**
+ * A recent ride the user can report, with the other people on it
+ */
+export interface ReportableRide {
+  id: number;
+  from_location: string;
+  to_location: string;
+  departure_time: string;
+  parties: { id: string; display_name: string | null; role: 'driver' | 'passenger' }[];
+}
+
+const API_BASE = '/api/safety/incidents';
+const REPORTABLE_RIDE_DAYS = 90;
+const LOCATION_TIMEOUT_MS = 10000;
+
+/**
+ * Safety Incident Service
+ * Riders file reports and SOS alerts through the /api/safety/incidents
+ * function, which checks they were on the ride and escalates the ticket.
+ * Staff use the same function to hold the reported user and, for admins,
+ * resolve the incident.
+ */
+export class SafetyIncidentService {
+
+  static async report(report: SafetyReport): Promise<SafetyIncident> {
+    return authenticatedApiRequest<SafetyIncident>(API_BASE, report);
+  }
+
+  /**
+   * SOS from the trip view: opens a critical incident and alerts the user's
+   * emergency contact with a trip share link
+   */
+  static async triggerSos(rideId: number, location: DeviceLocation | null, message?: string): Promise<SosResult> {
+    return authenticatedApiRequest<SosResult>(`${API_BASE}/sos`, {
+      ride_id: rideId,
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+      accuracy: location?.accuracy ?? null,
+      message
+    });
+  }
+
+  /**
+   * The device's current position, or null if it is unavailable or denied
+   */
+  static getCurrentLocation(): Promise<DeviceLocation | null> {
+    return new Promise(resolve => {
+      if (!navigator.geolocation) {
+        resolve(null);
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        position => resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        }),
+        error => {
+          console.error('Error getting location:', error);
+          resolve(null);
+        },
+        { enableHighAccuracy: true, timeout: LOCATION_TIMEOUT_MS, maximumAge: 30000 }
+      );
+    });
+  }
+
+  /**
+   * Move the location shown on one of the user's trip share links
+   */
+  static async updateSharedLocation(shareUrl: string, location: DeviceLocation): Promise<void> {
+    const token = shareUrl.split('/share/')[1];
+    await authenticatedApiRequest(`/api/safety/share/${token}/location`, location);
+  }
+
+  /**
+   * What the holder of a trip share link sees; no sign-in needed
+   */
+  static async getTripShare(token: string): Promise<TripShareView> {
+    return authenticatedApiRequest<TripShareView>(`/api/safety/share/${token}`);
+  }
+
+  static async getEmergencyContact(userId: string): Promise<EmergencyContact> {
+    try {
+      const { data, error } = await supabase
+        .from('passengers')
+        .select('emergency_contact_name, emergency_contact_phone, emergency_contact_email')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return {
+        emergency_contact_name: data?.emergency_contact_name || '',
+        emergency_contact_phone: data?.emergency_contact_phone || '',
+        emergency_contact_email: data?.emergency_contact_email || ''
+      };
+    } catch (error) {
+      console.error('Error fetching emergency contact:', error);
+      return { emergency_contact_name: '', emergency_contact_phone: '', emergency_contact_email: '' };
+    }
+  }
+
+  static async saveEmergencyContact(userId: string, contact: EmergencyContact): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('passengers')
+        .upsert({
+          id: userId,
+          emergency_contact_name: contact.emergency_contact_name.trim() || null,
+          emergency_contact_phone: contact.emergency_contact_phone.trim() || null,
+          emergency_contact_email: contact.emergency_contact_email.trim() || null,
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error saving emergency contact:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Rides from the last few months the user drove or booked, newest first
+   */
+  static async getReportableRides(userId: string): Promise<ReportableRide[]> {
+    try {
+      const since = new Date(Date.now() - REPORTABLE_RIDE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const rideSelect = `
+        id, from_location, to_location, departure_time, driver_id,
+        driver:users!rides_driver_id_fkey (id, display_name),
+        ride_bookings (passenger_id, status, passenger:users!ride_bookings_passenger_id_fkey (id, display_name))
+      `;
+
+      const [{ data: driven }, { data: bookings }] = await Promise.all([
+        supabase
+          .from('rides')
+          .select(rideSelect)
+          .eq('driver_id', userId)
+          .gte('departure_time', since),
+        supabase
+          .from('ride_bookings')
+          .select(`ride:rides (${rideSelect})`)
+          .eq('passenger_id', userId)
+          .gte('created_at', since)
+      ]);
+
+      const rides = new Map<number, any>();
+      (driven || []).forEach((ride: any) => rides.set(ride.id, ride));
+      (bookings || []).forEach((booking: any) => booking.ride && rides.set(booking.ride.id, booking.ride));
+
+      return Array.from(rides.values())
+        .map((ride: any) => {
+          const parties: ReportableRide['parties'] = [];
+          if (ride.driver_id !== userId) {
+            parties.push({ id: ride.driver_id, display_name: ride.driver?.display_name ?? null, role: 'driver' });
+          }
+          (ride.ride_bookings || []).forEach((booking: any) => {
+            if (booking.passenger_id !== userId && !parties.some(p => p.id === booking.passenger_id)) {
+              parties.push({ id: booking.passenger_id, display_name: booking.passenger?.display_name ?? null, role: 'passenger' });
+            }
+          });
+
+          return {
+            id: ride.id,
+            from_location: ride.from_location,
+            to_location: ride.to_location,
+            departure_time: ride.departure_time,
+            parties
+          };
+        })
+        .sort((a, b) => new Date(b.departure_time).getTime() - new Date(a.departure_time).getTime());
+    } catch (error) {
+      console.error('Error fetching reportable rides:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether the user is on a safety hold and may not post or book rides
+   */
+  static async hasSafetyHold(userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('safety_hold_since')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+      return !!data?.safety_hold_since;
+    } catch (error) {
+      console.error('Error checking safety hold:', error);
+      return false;
+    }
+  }
+
+  // Staff side
+
+  static async getIncidents(status?: IncidentStatus): Promise<SafetyIncident[]> {
+    return authenticatedApiRequest<SafetyIncident[]>(status ? `${API_BASE}?status=${status}` : API_BASE);
+  }
+
+  static async getIncident(incidentId: number): Promise<SafetyIncident> {
+    return authenticatedApiRequest<SafetyIncident>(`${API_BASE}/${incidentId}`);
+  }
+
+  /**
+   * Place or lift a safety hold on the reported user
+   */
+  static async setFreeze(incidentId: number, frozen: boolean): Promise<SafetyIncident> {
+    return authenticatedApiRequest<SafetyIncident>(`${API_BASE}/${incidentId}/freeze`, { frozen });
+  }
+
+  /**
+   * Admin only. Applies the action to the reported user and resolves the ticket.
+   */
+  static async resolve(
+    incidentId: number,
+    resolution: { resolution: string; action: ResolutionAction; suspension_days?: number }
+  ): Promise<SafetyIncident> {
+    return authenticatedApiRequest<SafetyIncident>(`${API_BASE}/${incidentId}/resolve`, resolution);
+  }
+}
+
+export default SafetyIncidentService;
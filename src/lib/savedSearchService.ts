@@ -0,0 +1,162 @@
+import { supabase } from './supabase';
+import { SavedSearch, RideAlert } from '../types';
+
+export type SavedSearchInput = Omit<SavedSearch, 'id' | 'user_id' | 'is_active' | 'last_matched_at' | 'created_at' | 'updated_at'>;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Saved Search Service
+ * Manages passengers' saved searches. Matching against newly posted rides
+ * runs on the server (/api/rides/alerts), which writes ride_alert_notifications
+ * rows that NotificationService picks up in realtime.
+ */
+export class SavedSearchService {
+
+  /**
+   * Fetch a user's saved searches, newest first
+   */
+  static async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a search. Needs either a date or at least one weekday.
+   */
+  static async createSavedSearch(
+    userId: string,
+    input: SavedSearchInput
+  ): Promise<{ success: boolean; savedSearch?: SavedSearch; error?: string }> {
+    try {
+      if (!input.from_location.trim() || !input.to_location.trim()) {
+        return { success: false, error: 'Please enter both pickup and destination' };
+      }
+
+      if (!input.search_date && !(input.weekdays && input.weekdays.length > 0)) {
+        return { success: false, error: 'Please choose a date or at least one weekday' };
+      }
+
+      if (input.max_price != null && input.max_price <= 0) {
+        return { success: false, error: 'Maximum price must be greater than zero' };
+      }
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .insert({
+          ...input,
+          user_id: userId,
+          search_date: input.search_date || null,
+          weekdays: input.search_date ? null : input.weekdays,
+          seats: input.seats || 1,
+          is_active: true,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, savedSearch: data };
+    } catch (error) {
+      console.error('Error saving search:', error);
+      return { success: false, error: 'Failed to save search' };
+    }
+  }
+
+  /**
+   * Pause or resume alerts for a saved search
+   */
+  static async setActive(
+    userId: string,
+    savedSearchId: number,
+    isActive: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq('id', savedSearchId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      return { success: false, error: 'Failed to update saved search' };
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  static async deleteSavedSearch(
+    userId: string,
+    savedSearchId: number
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', savedSearchId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      return { success: false, error: 'Failed to delete saved search' };
+    }
+  }
+
+  /**
+   * Recent rides that matched the user's saved searches
+   */
+  static async getRecentAlerts(userId: string, limit: number = 20): Promise<RideAlert[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ride_alert_notifications')
+        .select(`
+          *,
+          saved_search:saved_searches(id, name, from_location, to_location, seats)
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching ride alerts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Short description of when a saved search applies, e.g. "Mon, Wed, Fri"
+   */
+  static describeSchedule(savedSearch: Pick<SavedSearch, 'search_date' | 'weekdays'>): string {
+    if (savedSearch.search_date) {
+      return new Date(`${savedSearch.search_date}T00:00:00`).toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      });
+    }
+
+    const weekdays = [...(savedSearch.weekdays || [])].sort();
+    if (weekdays.length === 7) return 'Every day';
+    if (weekdays.join(',') === '1,2,3,4,5') return 'Weekdays';
+    if (weekdays.join(',') === '0,6') return 'Weekends';
+    return weekdays.map(day => WEEKDAY_LABELS[day]).join(', ');
+  }
+}
@@ -0,0 +1,39 @@
+import { supabase } from './supabase';
+
+/**
+ * Call an API function as the signed-in user and unwrap its response. The
+ * function checks the user's identity and permissions from the access token,
+ * so a caller without them gets the API's error back.
+ */
+export async function authenticatedApiRequest<T = any>(url: string, body?: unknown): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(url, {
+    method: body !== undefined ? 'POST' : 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token || ''}`,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const contentType = response.headers.get('content-type');
+  if (!contentType?.includes('application/json')) {
+    throw new Error('Backend API is required for this action. Please ensure the backend is deployed and accessible.');
+  }
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Request failed');
+  }
+
+  return result.data as T;
+}
+
+/**
+ * Call a staff API function (under /api/admin)
+ */
+export async function staffApiRequest<T = any>(path: string, body?: unknown): Promise<T> {
+  return authenticatedApiRequest<T>(`/api/admin${path}`, body);
+}
@@ -148,6 +148,22 @@ export class StripeAPIClient {
     }
   }
 
+  /**
+   * Run the card's 3D Secure check for a payment intent that requires_action.
+   * The intent is left in requires_capture; nothing is charged.
+   */
+  async handleCardAction(clientSecret: string): Promise<any> {
+    const stripe = await this.getStripe();
+    const { error, paymentIntent } = await stripe.handleCardAction(clientSecret);
+
+    if (error) {
+      console.error('Card authentication failed:', error);
+      throw new Error(error.message);
+    }
+
+    return paymentIntent;
+  }
+
   /**
    * Capture Payment Intent (Convert Authorization to Charge)
    * LIVE PAYMENTS ONLY: Requires backend API for security
@@ -287,15 +303,29 @@ export class StripeAPIClient {
 
   /**
    * Retrieve Payment Intent
-   * LIVE PAYMENTS ONLY: Requires backend implementation for security
+   * LIVE PAYMENTS ONLY: Requires backend API for security
    */
   async getPaymentIntent(paymentIntentId: string): Promise<PaymentIntentResult> {
     try {
       console.log('Retrieving LIVE payment intent:', paymentIntentId);
 
-      // Note: Client-side can only retrieve payment intents with client secret
-      // This is mainly for status checking after confirmation
-      throw new Error('Payment intent retrieval requires backend implementation for security');
+      const response = await fetch(`${this.baseURL}/payment-intents/${encodeURIComponent(paymentIntentId)}`);
+
+      const contentType = response.headers.get('content-type');
+      if (!response.ok || !contentType?.includes('application/json')) {
+        throw new Error('Backend API is required for payment intent retrieval. Please ensure the backend is deployed and accessible.');
+      }
+
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to retrieve payment intent');
+      }
+
+      return {
+        payment_intent: result.data.payment_intent,
+        client_secret: result.data.payment_intent.client_secret
+      };
 
     } catch (error) {
       console.error('Error retrieving LIVE payment intent:', error);
@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+import { authenticatedApiRequest } from './staffApi';
+import { PayoutRequest, PayoutSchedule } from '../types';
+
+export interface ConnectAccountStatus {
+  account_id: string | null;
+  details_submitted: boolean;
+  payouts_enabled: boolean;
+  requirements_due: string[];
+}
+
+/**
+ * Stripe Connect Service
+ * Thin client over the /api/stripe/connect functions. Drivers onboard to a
+ * Stripe Express account and manage their bank details on Stripe's pages;
+ * the app only stores the account id and its onboarding state. The API
+ * acts on the signed-in driver's own account.
+ */
+export class StripeConnectService {
+  private static apiBaseUrl = '/api/stripe/connect';
+
+  /**
+   * Call a Connect API function as the signed-in driver
+   */
+  private static async request<T = any>(path: string, body?: unknown): Promise<T> {
+    return authenticatedApiRequest<T>(`${this.apiBaseUrl}${path}`, body);
+  }
+
+  /**
+   * Onboarding state of the signed-in driver's payout account
+   */
+  static async getAccountStatus(): Promise<ConnectAccountStatus> {
+    return this.request<ConnectAccountStatus>('/account');
+  }
+
+  /**
+   * Send the driver to Stripe to set up (or finish setting up) their payout account.
+   * Stripe returns them to returnPath when they are done.
+   */
+  static async startOnboarding(returnPath: string = '/payout-history'): Promise<void> {
+    const returnUrl = `${window.location.origin}${returnPath}`;
+    const { url } = await this.request<{ url: string }>('/onboarding-links', {
+      refresh_url: returnUrl,
+      return_url: returnUrl,
+    });
+    window.location.href = url;
+  }
+
+  /**
+   * Open the Stripe Express dashboard, where the driver changes bank details
+   */
+  static async openDashboard(): Promise<void> {
+    const { url } = await this.request<{ url: string }>('/dashboard-links', {});
+    window.open(url, '_blank', 'noopener');
+  }
+
+  /**
+   * Transfer available earnings to the driver's Stripe account and on to their bank
+   */
+  static async requestPayout(amount?: number): Promise<PayoutRequest> {
+    const { payout_request } = await this.request<{ payout_request: PayoutRequest }>('/payouts', { amount });
+    return payout_request;
+  }
+
+  /**
+   * Get the driver's automatic payout schedule
+   */
+  static async getPayoutSchedule(userId: string): Promise<PayoutSchedule> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('payout_schedule')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching payout schedule:', error);
+      return 'manual';
+    }
+
+    return data?.payout_schedule || 'manual';
+  }
+
+  /**
+   * Set the driver's automatic payout schedule
+   */
+  static async updatePayoutSchedule(userId: string, schedule: PayoutSchedule): Promise<boolean> {
+    const { error } = await supabase
+      .from('users')
+      .update({ payout_schedule: schedule })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error updating payout schedule:', error);
+      return false;
+    }
+
+    return true;
+  }
+}
+
+export default StripeConnectService;
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StripePaymentProvider } from './stripePaymentProvider';
+import { stripeAPIClient } from './stripeApiClient';
+
+vi.mock('./stripeApiClient', () => ({
+  stripeAPIClient: {
+    createPaymentIntent: vi.fn(),
+    getPaymentIntent: vi.fn(),
+  },
+}));
+
+const createPaymentIntent = vi.mocked(stripeAPIClient.createPaymentIntent);
+const getPaymentIntent = vi.mocked(stripeAPIClient.getPaymentIntent);
+
+const intent = (status: string, extra: Record<string, any> = {}) => ({
+  payment_intent: { id: 'pi_1', status, client_secret: 'pi_1_secret', ...extra },
+  client_secret: 'pi_1_secret',
+});
+
+const request = (paymentMethodId?: string) => ({
+  amount: 50,
+  currency: 'CAD',
+  paymentMethodId,
+  bookingId: 1,
+  userId: 'passenger-1',
+});
+
+describe('StripePaymentProvider', () => {
+  let provider: StripePaymentProvider;
+
+  beforeEach(() => {
+    provider = new StripePaymentProvider();
+    createPaymentIntent.mockReset();
+    getPaymentIntent.mockReset();
+  });
+
+  describe('authorize', () => {
+    it('is authorized once the intent requires capture', async () => {
+      createPaymentIntent.mockResolvedValue(intent('requires_capture'));
+
+      const authorization = await provider.authorize(request('pm_card'));
+
+      expect(authorization.status).toBe('authorized');
+      expect(authorization.expiresAt).toBeInstanceOf(Date);
+    });
+
+    it('waits for the payer when the card needs 3D Secure', async () => {
+      createPaymentIntent.mockResolvedValue(intent('requires_action'));
+
+      const authorization = await provider.authorize(request('pm_card'));
+
+      expect(authorization.status).toBe('requires_action');
+      expect(authorization.clientSecret).toBe('pi_1_secret');
+      expect(authorization.expiresAt).toBeUndefined();
+    });
+
+    it('waits for the payer when no payment method was given', async () => {
+      createPaymentIntent.mockResolvedValue(intent('requires_payment_method'));
+
+      expect((await provider.authorize(request())).status).toBe('requires_action');
+    });
+
+    it('fails when the card was declined', async () => {
+      createPaymentIntent.mockResolvedValue(intent('requires_payment_method', {
+        last_payment_error: { message: 'Your card has insufficient funds.' },
+      }));
+
+      await expect(provider.authorize(request('pm_card'))).rejects.toThrow('insufficient funds');
+    });
+
+    it('fails on any other status', async () => {
+      createPaymentIntent.mockResolvedValue(intent('canceled'));
+
+      await expect(provider.authorize(request('pm_card'))).rejects.toThrow('(canceled)');
+    });
+  });
+
+  describe('confirm', () => {
+    it('is authorized after the payer passed 3D Secure', async () => {
+      getPaymentIntent.mockResolvedValue(intent('requires_capture'));
+
+      expect((await provider.confirm('pi_1')).status).toBe('authorized');
+    });
+
+    it('fails while the payer has not finished', async () => {
+      getPaymentIntent.mockResolvedValue(intent('requires_action'));
+
+      await expect(provider.confirm('pi_1')).rejects.toThrow('not been approved');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { stripeAPIClient } from './stripeApiClient';
+import type {
+  PaymentProvider,
+  ProviderAuthorizeRequest,
+  ProviderAuthorization,
+  ProviderCapture,
+  ProviderRefund,
+  ProviderPaymentStatus,
+} from './paymentProvider';
+
+// Stripe keeps an uncaptured card authorization for 7 days
+const STRIPE_AUTHORIZATION_DAYS = 7;
+
+/**
+ * Stripe Payment Provider
+ * Manual-capture payment intents through the /api/stripe backend.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly id = 'stripe';
+
+  /**
+   * Create a manual-capture payment intent for the booking
+   */
+  async authorize(request: ProviderAuthorizeRequest): Promise<ProviderAuthorization> {
+    const result = await stripeAPIClient.createPaymentIntent({
+      amount: request.amount,
+      currency: request.currency.toLowerCase(),
+      capture_method: 'manual',
+      booking_id: request.bookingId,
+      user_id: request.userId,
+      payment_method_id: request.paymentMethodId
+    });
+
+    return this.toAuthorization(result.payment_intent, !!request.paymentMethodId, result.client_secret);
+  }
+
+  /**
+   * Check the payment intent once the payer finished 3D Secure or confirmed it
+   * with the client secret
+   */
+  async confirm(authorizationId: string): Promise<ProviderAuthorization> {
+    const { payment_intent: intent } = await stripeAPIClient.getPaymentIntent(authorizationId);
+    const authorization = this.toAuthorization(intent, true);
+
+    if (authorization.status !== 'authorized') {
+      throw new Error('Payment has not been approved yet');
+    }
+    return authorization;
+  }
+
+  /**
+   * Capture the payment intent, up to the authorized amount. Stripe releases the rest.
+   */
+  async capture(authorizationId: string, amount: number): Promise<ProviderCapture> {
+    const result = await stripeAPIClient.capturePaymentIntent(authorizationId, amount);
+
+    return {
+      transactionId: result.payment_intent?.id || authorizationId,
+      amountCaptured: result.amount_processed || amount
+    };
+  }
+
+  /**
+   * Cancel the payment intent, releasing the hold
+   */
+  async void(authorizationId: string, reason?: string): Promise<void> {
+    await stripeAPIClient.cancelPaymentIntent(authorizationId, reason);
+  }
+
+  /**
+   * Refund a captured payment intent
+   */
+  async refund(transactionId: string, amount: number, _currency: string, reason?: string): Promise<ProviderRefund> {
+    const result = await stripeAPIClient.createRefund(transactionId, amount, reason);
+
+    return {
+      refundId: result.refund?.id,
+      amountRefunded: result.amount_processed || amount
+    };
+  }
+
+  /**
+   * Authorization for a payment intent's status. Only requires_capture holds
+   * the money; an intent that still needs the payer comes back as
+   * requires_action, and one that was confirmed with a card and bounced back
+   * to requires_payment_method was declined.
+   */
+  private toAuthorization(intent: any, confirmed: boolean, clientSecret?: string): ProviderAuthorization {
+    const base = {
+      authorizationId: intent.id,
+      clientSecret: clientSecret || intent.client_secret,
+    };
+
+    switch (intent.status) {
+      case 'requires_capture':
+        return {
+          ...base,
+          status: 'authorized',
+          expiresAt: new Date(Date.now() + STRIPE_AUTHORIZATION_DAYS * 24 * 60 * 60 * 1000),
+        };
+      case 'requires_payment_method':
+        if (confirmed) {
+          throw new Error(intent.last_payment_error?.message || 'Your card was declined');
+        }
+        return { ...base, status: 'requires_action' };
+      case 'requires_confirmation':
+      case 'requires_action':
+        return { ...base, status: 'requires_action' };
+      default:
+        throw new Error(`Payment could not be authorized (${intent.status})`);
+    }
+  }
+
+  /**
+   * Current state of the payment intent
+   */
+  async getStatus(authorizationId: string): Promise<ProviderPaymentStatus> {
+    const { payment_intent: intent } = await stripeAPIClient.getPaymentIntent(authorizationId);
+
+    switch (intent.status) {
+      case 'requires_capture':
+        return 'authorized';
+      case 'succeeded':
+        return 'captured'; // Refunds live on the charge, not the intent
+      case 'canceled':
+        return 'voided';
+      case 'requires_payment_method':
+      case 'requires_confirmation':
+      case 'requires_action':
+        return 'requires_action';
+      default:
+        return 'failed';
+    }
+  }
+}
+
+export const stripePaymentProvider = new StripePaymentProvider();
@@ -0,0 +1,244 @@
+import { supabase } from './supabase';
+import { staffApiRequest } from './staffApi';
+
+// Mirrors api/admin/support.ts
+export type TicketStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+export type TicketPriority = 'low' | 'medium' | 'high' | 'critical';
+export type TicketType = 'bug' | 'feature' | 'safety' | 'support' | 'other';
+
+interface PersonSummary {
+  display_name: string | null;
+  email: string | null;
+}
+
+export interface SupportTicket {
+  id: number;
+  user_id: string;
+  type: TicketType | string;
+  title: string;
+  description: string;
+  priority: TicketPriority;
+  status: TicketStatus;
+  contact_email: string | null;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  booking_id: number | null;
+  ride_id: number | null;
+  payment_id: number | null;
+  first_response_at: string | null;
+  resolved_at: string | null;
+  resolution_notes: string | null;
+  created_at: string;
+  updated_at: string;
+  user?: PersonSummary;
+  assignee?: PersonSummary | null;
+}
+
+export interface TicketMessage {
+  id: number;
+  ticket_id: number;
+  author_id: string;
+  body: string;
+  from_staff?: boolean;
+  created_at: string;
+  author?: PersonSummary;
+}
+
+export interface TicketContext {
+  booking: Record<string, any> | null;
+  ride: Record<string, any> | null;
+  payments: Record<string, any>[];
+  credit_issued: number;
+}
+
+export interface TicketDetail {
+  ticket: SupportTicket;
+  replies: TicketMessage[];
+  notes: TicketMessage[];
+  context: TicketContext;
+}
+
+export interface CannedResponse {
+  id: number;
+  title: string;
+  body: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface TicketFilters {
+  status?: string; // Comma-separated statuses
+  type?: string;
+  priority?: string;
+  assigned_to?: string; // 'me', 'unassigned' or a staff id
+}
+
+export interface SupportAgent extends PersonSummary {
+  id: string;
+}
+
+// Hours to first reply and to resolution, by priority
+export const SUPPORT_SLA_HOURS: Record<TicketPriority, { response: number; resolution: number }> = {
+  critical: { response: 1, resolution: 8 },
+  high: { response: 4, resolution: 24 },
+  medium: { response: 8, resolution: 72 },
+  low: { response: 24, resolution: 120 },
+};
+
+export interface SlaStatus {
+  target: 'response' | 'resolution' | null; // null once resolved or closed
+  dueAt: Date | null;
+  minutesLeft: number | null; // Negative when breached
+  breached: boolean;
+}
+
+/**
+ * Support Ticket Service
+ * Users read and answer their own ticket threads directly. The agent side
+ * goes through the /api/admin/support function, which checks the caller's
+ * permissions and keeps internal notes out of users' reach.
+ */
+export class SupportTicketService {
+
+  /**
+   * Which SLA clock a ticket is on and how long is left: first response
+   * until an agent replies, then resolution
+   */
+  static getSlaStatus(ticket: SupportTicket, now: Date = new Date()): SlaStatus {
+    if (ticket.status === 'resolved' || ticket.status === 'closed') {
+      return { target: null, dueAt: null, minutesLeft: null, breached: false };
+    }
+
+    const sla = SUPPORT_SLA_HOURS[ticket.priority] || SUPPORT_SLA_HOURS.medium;
+    const target = ticket.first_response_at ? 'resolution' : 'response';
+    const hours = target === 'response' ? sla.response : sla.resolution;
+    const dueAt = new Date(new Date(ticket.created_at).getTime() + hours * 60 * 60 * 1000);
+    const minutesLeft = Math.round((dueAt.getTime() - now.getTime()) / 60000);
+
+    return { target, dueAt, minutesLeft, breached: minutesLeft < 0 };
+  }
+
+  /**
+   * Fill a canned response's {{name}} placeholder with the user's name
+   */
+  static fillCannedResponse(response: CannedResponse, ticket: SupportTicket): string {
+    const name = ticket.user?.display_name?.split(' ')[0] || 'there';
+    return response.body.replace(/\{\{\s*name\s*\}\}/g, name);
+  }
+
+  // User side
+
+  /**
+   * Public thread of one of the user's tickets, oldest first
+   */
+  static async getReplies(ticketId: number): Promise<TicketMessage[]> {
+    try {
+      const { data, error } = await supabase
+        .from('support_ticket_replies')
+        .select('*')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching ticket replies:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Reply from the ticket's user
+   */
+  static async addUserReply(ticketId: number, userId: string, body: string): Promise<TicketMessage | null> {
+    try {
+      const { data, error } = await supabase
+        .from('support_ticket_replies')
+        .insert({
+          ticket_id: ticketId,
+          author_id: userId,
+          body: body.trim(),
+          from_staff: false,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error replying to ticket:', error);
+      return null;
+    }
+  }
+
+  // Agent side
+
+  static async getTickets(filters: TicketFilters = {}): Promise<SupportTicket[]> {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(([, value]) => !!value) as [string, string][]
+    ).toString();
+    return staffApiRequest<SupportTicket[]>(`/support/tickets${params ? `?${params}` : ''}`);
+  }
+
+  static async getTicket(ticketId: number): Promise<TicketDetail> {
+    return staffApiRequest<TicketDetail>(`/support/tickets/${ticketId}`);
+  }
+
+  /**
+   * Assign to a staff id, 'me', or null to unassign
+   */
+  static async assign(ticketId: number, assignedTo: string | null): Promise<SupportTicket> {
+    return staffApiRequest<SupportTicket>(`/support/tickets/${ticketId}/assign`, { assigned_to: assignedTo });
+  }
+
+  static async updateStatus(
+    ticketId: number,
+    changes: { status?: TicketStatus; priority?: TicketPriority; resolution_notes?: string }
+  ): Promise<SupportTicket> {
+    return staffApiRequest<SupportTicket>(`/support/tickets/${ticketId}/status`, changes);
+  }
+
+  /**
+   * Link to a booking, ride or payment; null unlinks
+   */
+  static async link(
+    ticketId: number,
+    links: { booking_id?: number | null; ride_id?: number | null; payment_id?: number | null }
+  ): Promise<SupportTicket> {
+    return staffApiRequest<SupportTicket>(`/support/tickets/${ticketId}/links`, links);
+  }
+
+  static async reply(ticketId: number, body: string): Promise<TicketMessage> {
+    return staffApiRequest<TicketMessage>(`/support/tickets/${ticketId}/replies`, { body });
+  }
+
+  static async addNote(ticketId: number, body: string): Promise<TicketMessage> {
+    return staffApiRequest<TicketMessage>(`/support/tickets/${ticketId}/notes`, { body });
+  }
+
+  /**
+   * Goodwill credit to the ticket's user, recorded against the ticket
+   */
+  static async issueGoodwillCredit(ticketId: number, amount: number, note?: string): Promise<{ amount: number; credit_issued: number }> {
+    return staffApiRequest(`/support/tickets/${ticketId}/credit`, { amount, note });
+  }
+
+  static async getAgents(): Promise<SupportAgent[]> {
+    return staffApiRequest<SupportAgent[]>('/support/agents');
+  }
+
+  static async getCannedResponses(): Promise<CannedResponse[]> {
+    return staffApiRequest<CannedResponse[]>('/support/canned-responses');
+  }
+
+  static async createCannedResponse(title: string, body: string): Promise<CannedResponse> {
+    return staffApiRequest<CannedResponse>('/support/canned-responses', { title, body });
+  }
+
+  static async deleteCannedResponse(responseId: number): Promise<void> {
+    await staffApiRequest(`/support/canned-responses/${responseId}/delete`, {});
+  }
+}
+
+export default SupportTicketService;
@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import { BookingStateMachine } from './bookingStateMachine';
+
+// How long a waitlisted passenger has to take a freed seat
+export const WAITLIST_OFFER_MINUTES = Number(import.meta.env.VITE_WAITLIST_OFFER_MINUTES) || 30;
+
+/**
+ * Waitlist Service
+ * Waitlist entries are ride_bookings rows in the 'waitlisted' status with a
+ * payment authorization but no segment_seats, so they hold no seats. Freed
+ * seats are offered by the booking transitions API (api/_lib/waitlist) with
+ * a short response window. Accepting turns the offer into a normal pending
+ * request; an expired or declined offer passes the seats on to the next entry.
+ */
+export class WaitlistService {
+
+  /**
+   * Take an offered seat. The booking becomes a pending request for the driver.
+   */
+  static async acceptOffer(bookingId: number): Promise<{ success: boolean; error?: string }> {
+    const transition = await BookingStateMachine.transition(bookingId, 'pending', { reason: 'waitlist_accepted' });
+    return transition.success ? { success: true } : { success: false, error: transition.error };
+  }
+
+  /**
+   * Turn down an offered seat, or leave the waitlist altogether.
+   * The payment authorization is released either way.
+   */
+  static async leaveWaitlist(bookingId: number, passengerId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: booking } = await supabase
+        .from('ride_bookings')
+        .select('id, passenger_id, status')
+        .eq('id', bookingId)
+        .single();
+
+      if (!booking || booking.passenger_id !== passengerId) {
+        return { success: false, error: 'Booking not found' };
+      }
+
+      if (booking.status !== 'waitlisted' && booking.status !== 'offered') {
+        return { success: false, error: 'This booking is no longer on the waitlist' };
+      }
+
+      const transition = await BookingStateMachine.transition(bookingId, 'cancelled', {
+        reason: booking.status === 'offered' ? 'waitlist_declined' : 'waitlist_left',
+      });
+
+      return transition.success ? { success: true } : { success: false, error: transition.error };
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      return { success: false, error: 'Failed to leave the waitlist' };
+    }
+  }
+
+  /**
+   * 1-based place in line, or null when the booking is not waitlisted
+   */
+  static async getPosition(bookingId: number): Promise<number | null> {
+    try {
+      const { data: booking } = await supabase
+        .from('ride_bookings')
+        .select('ride_id, status, created_at')
+        .eq('id', bookingId)
+        .single();
+
+      if (!booking || booking.status !== 'waitlisted') return null;
+
+      const { count } = await supabase
+        .from('ride_bookings')
+        .select('*', { count: 'exact', head: true })
+        .eq('ride_id', booking.ride_id)
+        .eq('status', 'waitlisted')
+        .lt('created_at', booking.created_at);
+
+      return (count || 0) + 1;
+    } catch (error) {
+      console.error('Error fetching waitlist position:', error);
+      return null;
+    }
+  }
+
+}
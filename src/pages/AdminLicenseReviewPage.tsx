@@ -0,0 +1,396 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ShieldCheck, CheckCircle, XCircle, FileText, History, RefreshCw, AlertCircle, ExternalLink } from 'lucide-react';
+import { LicenseReviewService, LicenseSubmission, LicenseReview } from '../lib/licenseReviewService';
+
+type Tab = 'queue' | 'audit';
+
+const REJECTION_REASONS = [
+  'The document is blurry or unreadable',
+  'The license number does not match the document',
+  'The expiration date does not match the document',
+  'The license has expired',
+  'The document is not a driver\'s license'
+];
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '—';
+
+const formatDateTime = (date: string | null) =>
+  date ? new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '—';
+
+const AdminLicenseReviewPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [tab, setTab] = useState<Tab>('queue');
+  const [submissions, setSubmissions] = useState<LicenseSubmission[]>([]);
+  const [reviews, setReviews] = useState<LicenseReview[]>([]);
+  const [selected, setSelected] = useState<LicenseSubmission | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (tab === 'queue') {
+      fetchQueue();
+    } else {
+      fetchAuditLog();
+    }
+  }, [tab]);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const pending = await LicenseReviewService.getSubmissions('pending');
+      setSubmissions(pending);
+      setSelected(current => pending.find(submission => submission.user_id === current?.user_id) || pending[0] || null);
+    } catch (error) {
+      console.error('Error loading license queue:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load the review queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAuditLog = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setReviews(await LicenseReviewService.getReviews());
+    } catch (error) {
+      console.error('Error loading license reviews:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectSubmission = (submission: LicenseSubmission) => {
+    setSelected(submission);
+    setRejecting(false);
+    setReason('');
+    setError('');
+  };
+
+  // Decided licenses leave the queue; the next one is selected
+  const removeFromQueue = (userId: string) => {
+    const remaining = submissions.filter(submission => submission.user_id !== userId);
+    setSubmissions(remaining);
+    setSelected(remaining[0] || null);
+    setRejecting(false);
+    setReason('');
+  };
+
+  const handleApprove = async () => {
+    if (!selected) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await LicenseReviewService.approve(selected.user_id);
+      removeFromQueue(selected.user_id);
+    } catch (error) {
+      console.error('Error approving license:', error);
+      setError(error instanceof Error ? error.message : 'Failed to approve the license');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!selected || !reason.trim()) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await LicenseReviewService.reject(selected.user_id, reason.trim());
+      removeFromQueue(selected.user_id);
+    } catch (error) {
+      console.error('Error rejecting license:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reject the license');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isExpired = (date: string | null) => !!date && new Date(date) < new Date();
+
+  const renderDocument = (submission: LicenseSubmission) => {
+    if (!submission.document_url) {
+      return (
+        <div className="h-80 flex flex-col items-center justify-center bg-gray-50 rounded-xl text-gray-500">
+          <FileText size={40} className="mb-2 text-gray-400" />
+          <p>No document could be loaded</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {submission.document_type === 'pdf' ? (
+          <iframe
+            src={submission.document_url}
+            title="License document"
+            className="w-full h-96 rounded-xl border border-gray-200"
+          />
+        ) : (
+          <img
+            src={submission.document_url}
+            alt="Driver's license"
+            className="w-full max-h-96 object-contain rounded-xl border border-gray-200 bg-gray-50"
+          />
+        )}
+        <a
+          href={submission.document_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <ExternalLink size={14} />
+          <span>Open full size</span>
+        </a>
+      </div>
+    );
+  };
+
+  const renderQueue = () => {
+    if (submissions.length === 0) {
+      return (
+        <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-12 text-center shadow-sm border border-white/30">
+          <ShieldCheck size={48} className="mx-auto mb-3 text-green-500" />
+          <p className="text-gray-700 font-medium">No licenses waiting for review</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Queue */}
+        <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-sm border border-white/30 divide-y divide-gray-100 lg:max-h-[75vh] overflow-y-auto">
+          {submissions.map(submission => (
+            <button
+              key={submission.user_id}
+              onClick={() => selectSubmission(submission)}
+              className={`w-full text-left p-4 transition-colors ${
+                selected?.user_id === submission.user_id ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <p className="font-medium text-gray-900">{submission.display_name || submission.email || 'Unnamed driver'}</p>
+              <p className="text-xs text-gray-500 mt-1">Uploaded {formatDateTime(submission.license_uploaded_at)}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Review */}
+        {selected && (
+          <div className="lg:col-span-2 bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-sm border border-white/30 space-y-6">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">{selected.display_name || 'Unnamed driver'}</h2>
+              <p className="text-sm text-gray-500">{selected.email}</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {renderDocument(selected)}
+
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">Check the entered details against the document.</p>
+                <div className="border border-gray-200 rounded-xl divide-y divide-gray-100">
+                  <div className="p-3">
+                    <p className="text-xs font-medium text-gray-500 uppercase">License Number</p>
+                    <p className="font-mono text-gray-900 mt-1">{selected.driver_license || '—'}</p>
+                  </div>
+                  <div className="p-3">
+                    <p className="text-xs font-medium text-gray-500 uppercase">Expiration Date</p>
+                    <p className={`mt-1 ${isExpired(selected.license_expiration_date) ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                      {formatDate(selected.license_expiration_date)}
+                      {isExpired(selected.license_expiration_date) && ' (expired)'}
+                    </p>
+                  </div>
+                  <div className="p-3">
+                    <p className="text-xs font-medium text-gray-500 uppercase">Uploaded</p>
+                    <p className="text-gray-900 mt-1">{formatDateTime(selected.license_uploaded_at)}</p>
+                  </div>
+                </div>
+
+                {rejecting ? (
+                  <div className="space-y-3">
+                    <label className="block text-sm font-semibold text-gray-700">Reason (shown to the driver)</label>
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && setReason(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">Choose a common reason...</option>
+                      {REJECTION_REASONS.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                    <textarea
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      rows={3}
+                      placeholder="Explain what the driver needs to fix"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                    <div className="flex space-x-3">
+                      <button
+                        onClick={() => { setRejecting(false); setReason(''); }}
+                        disabled={saving}
+                        className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Back
+                      </button>
+                      <button
+                        onClick={handleReject}
+                        disabled={saving || !reason.trim()}
+                        className="flex-1 py-2 px-4 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : 'Reject License'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={() => setRejecting(true)}
+                      disabled={saving}
+                      className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <XCircle size={16} />
+                      <span>Reject</span>
+                    </button>
+                    <button
+                      onClick={handleApprove}
+                      disabled={saving}
+                      className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold disabled:opacity-50"
+                    >
+                      <CheckCircle size={16} />
+                      <span>{saving ? 'Saving...' : 'Approve'}</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderAuditLog = () => {
+    if (reviews.length === 0) {
+      return (
+        <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-12 text-center shadow-sm border border-white/30">
+          <History size={48} className="mx-auto mb-3 text-gray-400" />
+          <p className="text-gray-700 font-medium">No review decisions yet</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-sm border border-white/30 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+            <tr>
+              <th className="px-4 py-3">When</th>
+              <th className="px-4 py-3">Driver</th>
+              <th className="px-4 py-3">Decision</th>
+              <th className="px-4 py-3">Reason</th>
+              <th className="px-4 py-3">License</th>
+              <th className="px-4 py-3">Reviewer</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {reviews.map(review => (
+              <tr key={review.id}>
+                <td className="px-4 py-3 whitespace-nowrap text-gray-600">{formatDateTime(review.created_at)}</td>
+                <td className="px-4 py-3 text-gray-900">{review.driver?.display_name || review.driver?.email || review.user_id}</td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    review.decision === 'approved' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                  }`}>
+                    {review.decision === 'approved' ? 'Approved' : 'Rejected'}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-gray-600">{review.reason || '—'}</td>
+                <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                  <span className="font-mono">{review.driver_license || '—'}</span>
+                  <span className="block text-xs text-gray-400">Expires {formatDate(review.license_expiration_date)}</span>
+                </td>
+                <td className="px-4 py-3 text-gray-600">{review.reviewer?.display_name || review.reviewer?.email || review.reviewer_id}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-sm shadow-lg px-4 py-4 flex items-center justify-between border-b border-white/20">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-700" />
+          </button>
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            License Review
+          </h1>
+        </div>
+
+        <button
+          onClick={() => (tab === 'queue' ? fetchQueue() : fetchAuditLog())}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/60 backdrop-blur-sm rounded-xl border border-white/30 hover:bg-white/80 transition-colors"
+        >
+          <RefreshCw size={16} className="text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">Refresh</span>
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="p-4 pb-20 space-y-4">
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setTab('queue')}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors ${
+              tab === 'queue' ? 'bg-blue-600 text-white' : 'bg-white/60 text-gray-700 hover:bg-white/80'
+            }`}
+          >
+            <ShieldCheck size={16} />
+            <span>Queue{tab === 'queue' && !loading ? ` (${submissions.length})` : ''}</span>
+          </button>
+          <button
+            onClick={() => setTab('audit')}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors ${
+              tab === 'audit' ? 'bg-blue-600 text-white' : 'bg-white/60 text-gray-700 hover:bg-white/80'
+            }`}
+          >
+            <History size={16} />
+            <span>Audit Log</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+            <AlertCircle size={16} className="text-red-600 flex-shrink-0" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        ) : tab === 'queue' ? renderQueue() : renderAuditLog()}
+      </div>
+    </div>
+  );
+};
+
+export default AdminLicenseReviewPage;
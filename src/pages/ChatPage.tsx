@@ -5,6 +5,8 @@ import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import { Message, Conversation, RideBooking } from '../types';
 import RatingModal from '../components/RatingModal';
+import PaymentModal from '../components/PaymentModal';
+import SosButton from '../components/SosButton';
 
 interface ChatState {
   bookingId?: number;
@@ -27,6 +29,7 @@ const ChatPage: React.FC = () => {
   const [showRatingModal, setShowRatingModal] = useState(false);
   const [rideData, setRideData] = useState<any>(null);
   const [cancelLoading, setCancelLoading] = useState(false);
+  const [showPaymentUpdate, setShowPaymentUpdate] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
   const chatState = location.state as ChatState;
@@ -480,22 +483,29 @@ const ChatPage: React.FC = () => {
 
     if (!confirmCancel) return;
 
+    // A confirmed booking's refund can go to the credit wallet right away instead of the card
+    const refundAsCredit = booking.status === 'confirmed' && window.confirm(
+      'Would you like your refund as OnGoPool credit? Credit is available for your next ride immediately. Choose Cancel to be refunded to your payment method instead.'
+    );
+
     try {
       setCancelLoading(true);
 
       // Import the booking policy service dynamically
       const { BookingPolicyService } = await import('../lib/bookingPolicyService');
       
-      const result = await BookingPolicyService.cancelBooking(booking.id, user.id);
+      const result = await BookingPolicyService.cancelBooking(booking.id, refundAsCredit);
 
       if (result.success) {
         // Update local booking state
         setBooking(prev => prev ? { ...prev, status: 'cancelled' } : prev);
         
         // Show success message
-        alert(result.refunded 
-          ? 'Booking cancelled successfully. Your refund will be processed within 3-5 business days.'
-          : 'Booking cancelled successfully.'
+        alert(!result.refunded
+          ? 'Booking cancelled successfully.'
+          : refundAsCredit
+            ? `Booking cancelled successfully. $${(result.refundAmount || 0).toFixed(2)} has been added to your credit balance.`
+            : 'Booking cancelled successfully. Your refund will be processed within 3-5 business days.'
         );
       } else {
         alert(result.error || 'Failed to cancel booking. Please contact support.');
@@ -508,64 +518,93 @@ const ChatPage: React.FC = () => {
     }
   };
 
+  // Give up some seats; the payment is lowered or partly refunded to match
+  const handlePassengerReduceSeats = async () => {
+    if (!booking || !user || cancelLoading) return;
+
+    const input = window.prompt(
+      `How many seats do you still need? (1-${booking.seats_booked - 1})`,
+      String(booking.seats_booked - 1)
+    );
+    if (input === null) return;
+
+    try {
+      setCancelLoading(true);
+
+      const { BookingAdjustmentService } = await import('../lib/bookingAdjustmentService');
+      const result = await BookingAdjustmentService.reduceSeats(booking.id, Number(input));
+
+      if (result.success) {
+        setBooking(prev => prev ? { ...prev, seats_booked: Number(input), total_amount: result.newAmount ?? prev.total_amount } : prev);
+        alert(result.refundAmount
+          ? `Booking updated. $${result.refundAmount.toFixed(2)} will be refunded to your payment method.`
+          : `Booking updated. Your new total is $${(result.newAmount ?? 0).toFixed(2)}.`);
+      } else {
+        alert(result.error || 'Failed to update your booking. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error reducing booking seats:', error);
+      alert('Failed to update your booking. Please try again.');
+    } finally {
+      setCancelLoading(false);
+    }
+  };
+
+  // The hold renewal failed; the new hold replaces the old one
+  const handlePaymentUpdated = () => {
+    setShowPaymentUpdate(false);
+    setBooking(prev => prev ? { ...prev, payment_status: 'authorized' } : prev);
+    alert('Your payment method has been updated. Your spot is safe.');
+  };
+
+  const handleWaitlistResponse = async (accept: boolean) => {
+    if (!booking || !user || cancelLoading) return;
+
+    if (!accept && !window.confirm(
+      booking.status === 'offered'
+        ? 'Decline this seat? It will be offered to the next passenger on the waitlist.'
+        : 'Leave the waitlist? Your payment authorization will be released.'
+    )) return;
+
+    try {
+      setCancelLoading(true);
+
+      const { WaitlistService } = await import('../lib/waitlistService');
+      const result = accept
+        ? await WaitlistService.acceptOffer(booking.id)
+        : await WaitlistService.leaveWaitlist(booking.id, user.id);
+
+      if (result.success) {
+        setBooking(prev => prev ? { ...prev, status: accept ? 'pending' : 'cancelled' } : prev);
+        alert(accept
+          ? 'Seat accepted! Your request has been sent to the driver.'
+          : 'You have left the waitlist. Your payment authorization has been released.');
+      } else {
+        alert(result.error || 'Failed to update your waitlist spot. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error responding to waitlist offer:', error);
+      alert('Failed to update your waitlist spot. Please try again.');
+    } finally {
+      setCancelLoading(false);
+    }
+  };
+
   const updateBookingStatus = async (status: 'confirmed' | 'rejected') => {
     if (!booking || !user) return;
 
     try {
-      if (status === 'confirmed') {
-        // For confirmed bookings, we need to capture the payment hold first
-        console.log('Processing payment capture for booking:', booking.id);
-        
-        // Import payment hold service dynamically
-        const { PaymentHoldService } = await import('../lib/paymentHoldService');
-        
-        // Capture the payment hold (works for both PayPal and Stripe)
-        const captureResult = await PaymentHoldService.capturePaymentHold(booking.id);
-        
-        if (!captureResult.success) {
-          console.error('Payment capture failed:', captureResult.error);
-          alert(`Failed to process payment: ${captureResult.error}`);
-          return;
-        }
-        
-        console.log('Payment captured successfully:', {
-          transactionId: captureResult.transactionId,
-          amountCaptured: captureResult.amountCaptured
-        });
-        
-        // The payment capture service already updates the booking status to 'confirmed'
-        // and processes the payment, so we don't need to update it manually
-        
-      } else if (status === 'rejected') {
-        // For rejected bookings, we need to refund the payment hold
-        console.log('Processing payment refund for booking:', booking.id);
-        
-        // Import payment hold service dynamically
-        const { PaymentHoldService } = await import('../lib/paymentHoldService');
-        
-        // Refund the payment hold (works for both PayPal and Stripe)
-        const refundResult = await PaymentHoldService.refundPaymentHold(booking.id, 'driver_rejected');
-        
-        if (!refundResult.success) {
-          console.error('Payment refund failed:', refundResult.error);
-          alert(`Failed to process refund: ${refundResult.error}`);
-          return;
-        }
-        
-        console.log('Payment refunded successfully:', {
-          refundAmount: refundResult.refundAmount,
-          reason: refundResult.reason
-        });
-        
-        // Update booking status to rejected (the refund service may have already done this)
-        const { error } = await supabase
-          .from('ride_bookings')
-          .update({ status: 'rejected' })
-          .eq('id', booking.id);
-
-        if (error) {
-          console.error('Error updating booking status to rejected:', error);
-        }
+      // Accepting captures the payment hold, declining releases it
+      const { BookingStateMachine } = await import('../lib/bookingStateMachine');
+
+      const transition = await BookingStateMachine.transition(booking.id, status, {
+        reason: status === 'confirmed' ? 'driver_accepted' : 'driver_rejected'
+      });
+
+      if (!transition.success) {
+        console.error(`Failed to ${status === 'confirmed' ? 'accept' : 'decline'} booking:`, transition.error);
+        alert(transition.error || 'Failed to update ride status. Please try again.');
+        return;
       }
 
       // Update local booking state
@@ -615,6 +654,11 @@ const ChatPage: React.FC = () => {
   // Check if ride is completed and booking is confirmed for review functionality
   const isRideCompleted = (rideData?.rideStatus === 'completed' || booking?.ride?.status === 'completed') && 
                           (rideData?.bookingStatus === 'confirmed' || booking?.status === 'confirmed');
+
+  // SOS is offered to a confirmed passenger from shortly before departure until well after
+  const hoursToDeparture = booking?.ride ? (new Date(booking.ride.departure_time).getTime() - Date.now()) / (1000 * 60 * 60) : null;
+  const isTripUnderway = !isDriver && booking?.status === 'confirmed' && booking?.ride?.status !== 'cancelled' &&
+                         hoursToDeparture !== null && hoursToDeparture <= 2 && hoursToDeparture >= -4;
   
   // Determine the user to be rated
   const getRatedUser = () => {
@@ -846,14 +890,18 @@ const ChatPage: React.FC = () => {
         <div className="bg-gradient-to-r from-blue-50 to-purple-50 border-b border-blue-100/50 p-4 mx-4 rounded-2xl shadow-sm fixed top-24 left-0 right-0 z-10">
           <div className="flex items-center justify-between mb-3">
             <h3 className="font-bold text-gray-900 text-lg">Ride Request</h3>
-            <span className={`px-4 py-2 rounded-xl text-sm font-bold shadow-sm ${
-              booking.status === 'confirmed' ? 'bg-gradient-to-r from-green-400 to-emerald-500 text-white' :
-              booking.status === 'rejected' ? 'bg-gradient-to-r from-red-400 to-pink-500 text-white' :
-              booking.status === 'cancelled' ? 'bg-gradient-to-r from-gray-400 to-gray-500 text-white' :
-              'bg-gradient-to-r from-yellow-400 to-orange-500 text-white'
-            }`}>
-              {booking.status}
-            </span>
+            <div className="flex items-center space-x-2">
+              {isTripUnderway && <SosButton rideId={booking.ride.id} />}
+              <span className={`px-4 py-2 rounded-xl text-sm font-bold shadow-sm ${
+                booking.status === 'confirmed' ? 'bg-gradient-to-r from-green-400 to-emerald-500 text-white' :
+                booking.status === 'rejected' ? 'bg-gradient-to-r from-red-400 to-pink-500 text-white' :
+                booking.status === 'cancelled' ? 'bg-gradient-to-r from-gray-400 to-gray-500 text-white' :
+                booking.status === 'offered' ? 'bg-gradient-to-r from-blue-400 to-indigo-500 text-white' :
+                'bg-gradient-to-r from-yellow-400 to-orange-500 text-white'
+              }`}>
+                {booking.status === 'offered' ? 'seat offered' : booking.status}
+              </span>
+            </div>
           </div>
           
           <div className="flex items-center justify-between text-sm text-gray-600">
@@ -894,6 +942,74 @@ const ChatPage: React.FC = () => {
             </div>
           )}
 
+          {/* Hold renewal failed: the passenger must replace the payment before the deadline */}
+          {!isDriver && booking.payment_status === 'failed' && (booking.status === 'waitlisted' || booking.status === 'pending') && (
+            <div className="mt-4 bg-amber-50 border border-amber-200 rounded-xl p-4">
+              <p className="text-sm text-amber-800 font-medium mb-3">
+                We couldn't renew your payment authorization.
+                {booking.response_deadline && ` Update your payment method by ${new Date(booking.response_deadline).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} to keep your spot.`}
+              </p>
+              <button
+                onClick={() => setShowPaymentUpdate(true)}
+                className="w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 text-white py-3 px-6 rounded-xl font-bold transition-all duration-200 shadow-lg"
+              >
+                Update Payment Method
+              </button>
+            </div>
+          )}
+
+          {/* Waitlist: a freed seat is offered for a limited time */}
+          {!isDriver && booking.status === 'offered' && (
+            <div className="mt-4">
+              {booking.response_deadline && (
+                <p className="text-sm text-indigo-700 font-medium mb-2">
+                  A seat opened up! Accept before {new Date(booking.response_deadline).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.
+                </p>
+              )}
+              <div className="flex space-x-4">
+                <button
+                  onClick={() => handleWaitlistResponse(true)}
+                  disabled={cancelLoading}
+                  className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 px-6 rounded-xl font-bold transition-all duration-200 shadow-lg"
+                >
+                  Take Seat
+                </button>
+                <button
+                  onClick={() => handleWaitlistResponse(false)}
+                  disabled={cancelLoading}
+                  className="flex-1 bg-gradient-to-r from-gray-400 to-gray-500 hover:from-gray-500 hover:to-gray-600 disabled:opacity-50 text-white py-3 px-6 rounded-xl font-bold transition-all duration-200 shadow-lg"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isDriver && booking.status === 'waitlisted' && (
+            <div className="mt-4">
+              <button
+                onClick={() => handleWaitlistResponse(false)}
+                disabled={cancelLoading}
+                className="w-full bg-gradient-to-r from-gray-400 to-gray-500 hover:from-gray-500 hover:to-gray-600 disabled:opacity-50 text-white py-3 px-6 rounded-xl font-bold transition-all duration-200 shadow-lg"
+              >
+                {cancelLoading ? 'Leaving...' : 'Leave Waitlist'}
+              </button>
+            </div>
+          )}
+
+          {/* Fewer seats - for any booking still holding more than one */}
+          {!isDriver && ['waitlisted', 'offered', 'pending', 'confirmed'].includes(booking.status) && booking.seats_booked > 1 && (
+            <div className="mt-4">
+              <button
+                onClick={handlePassengerReduceSeats}
+                disabled={cancelLoading}
+                className="w-full bg-white border-2 border-blue-500 text-blue-600 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 py-3 px-6 rounded-xl font-bold transition-all duration-200"
+              >
+                Need Fewer Seats
+              </button>
+            </div>
+          )}
+
           {/* Passenger Cancel Button - for both pending and confirmed bookings */}
           {!isDriver && (booking.status === 'pending' || booking.status === 'confirmed') && (
             <div className="mt-4">
@@ -978,6 +1094,17 @@ const ChatPage: React.FC = () => {
       </div>
 
       {/* Rating Modal */}
+      {showPaymentUpdate && booking && user && (
+        <PaymentModal
+          amount={booking.total_amount}
+          bookingId={booking.id}
+          userId={user.id}
+          usePaymentHold={true}
+          onSuccess={handlePaymentUpdated}
+          onCancel={() => setShowPaymentUpdate(false)}
+        />
+      )}
+
       {showRatingModal && getRatedUser() && booking && (
         <RatingModal
           isOpen={showRatingModal}
@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, MapPin, Calendar, Users, Navigation } from 'lucide-react';
+import { Search, MapPin, Calendar, Users, Navigation, Bell } from 'lucide-react';
 import AddressAutocomplete from '../components/AddressAutocomplete';
+import { useAuthStore } from '../store/authStore';
+import { SavedSearchService } from '../lib/savedSearchService';
 
 const FindRidesPage: React.FC = () => {
   const navigate = useNavigate();
+  const { user } = useAuthStore();
   
   // Set default date to today - using proper timezone handling
   const getCurrentDate = () => {
@@ -23,6 +26,7 @@ const FindRidesPage: React.FC = () => {
   });
   const [fromCoords, setFromCoords] = useState<{ lat: number; lng: number } | undefined>();
   const [toCoords, setToCoords] = useState<{ lat: number; lng: number } | undefined>();
+  const [savingSearch, setSavingSearch] = useState(false);
 
   const handleSearch = () => {
     console.log('🚀 === INITIATING RIDE SEARCH ===');
@@ -60,6 +64,34 @@ const FindRidesPage: React.FC = () => {
     console.log('🔄 Navigation initiated to /available-rides');
   };
 
+  const handleSaveSearch = async () => {
+    if (!user) return;
+
+    if (!searchData.fromLocation || !searchData.toLocation || !searchData.date) {
+      alert('Please fill in all search fields');
+      return;
+    }
+
+    setSavingSearch(true);
+    const result = await SavedSearchService.createSavedSearch(user.id, {
+      from_location: searchData.fromLocation,
+      to_location: searchData.toLocation,
+      from_lat: fromCoords?.lat,
+      from_lng: fromCoords?.lng,
+      to_lat: toCoords?.lat,
+      to_lng: toCoords?.lng,
+      search_date: searchData.date,
+      seats: searchData.passengers,
+    });
+    setSavingSearch(false);
+
+    if (result.success) {
+      alert('Search saved! We\'ll notify you when a matching ride is posted.');
+    } else {
+      alert(result.error || 'Failed to save search');
+    }
+  };
+
   const handleFromLocationChange = (value: string, coordinates?: { lat: number; lng: number }) => {
     setSearchData(prev => ({ ...prev, fromLocation: value }));
     setFromCoords(coordinates);
@@ -166,6 +198,24 @@ const FindRidesPage: React.FC = () => {
             <Search size={24} />
             <span>Search Rides</span>
           </button>
+
+          {/* Saved Search Alerts */}
+          <div className="flex items-center justify-between">
+            <button
+              onClick={handleSaveSearch}
+              disabled={savingSearch}
+              className="flex items-center space-x-2 text-sm font-semibold text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              <Bell size={16} />
+              <span>{savingSearch ? 'Saving...' : 'Alert me about new rides'}</span>
+            </button>
+            <button
+              onClick={() => navigate('/saved-searches')}
+              className="text-sm text-gray-600 hover:text-gray-800"
+            >
+              Manage alerts
+            </button>
+          </div>
         </div>
       </div>
 
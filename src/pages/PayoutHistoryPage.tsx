@@ -80,10 +80,14 @@ const PayoutHistoryPage: React.FC = () => {
       case 'pending':
         return <Clock className="w-5 h-5 text-yellow-500" />;
       case 'approved':
+      case 'processing':
         return <CheckCircle className="w-5 h-5 text-blue-500" />;
+      case 'needs_review':
+        return <AlertCircle className="w-5 h-5 text-yellow-500" />;
       case 'paid':
         return <CheckCircle className="w-5 h-5 text-green-500" />;
       case 'rejected':
+      case 'failed':
         return <XCircle className="w-5 h-5 text-red-500" />;
       default:
         return <AlertCircle className="w-5 h-5 text-gray-500" />;
@@ -95,10 +99,14 @@ const PayoutHistoryPage: React.FC = () => {
       case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'approved':
+      case 'processing':
         return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'needs_review':
+        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'paid':
         return 'bg-green-100 text-green-800 border-green-200';
       case 'rejected':
+      case 'failed':
         return 'bg-red-100 text-red-800 border-red-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
@@ -118,6 +126,8 @@ const PayoutHistoryPage: React.FC = () => {
 
   const formatPaymentMethod = (method?: string) => {
     switch (method) {
+      case 'stripe_connect':
+        return 'Stripe (Bank Deposit)';
       case 'bank_transfer':
         return 'Bank Transfer';
       case 'paypal':
@@ -142,7 +152,7 @@ const PayoutHistoryPage: React.FC = () => {
     .reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0);
 
   const pendingAmount = payoutRequests
-    .filter(p => p.status === 'pending' || p.status === 'approved')
+    .filter(p => p.status === 'pending' || p.status === 'approved' || p.status === 'processing' || p.status === 'needs_review')
     .reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0);
 
   const exportToCSV = () => {
@@ -278,7 +288,10 @@ const PayoutHistoryPage: React.FC = () => {
                 <option value="all">All Status</option>
                 <option value="pending">Pending</option>
                 <option value="approved">Approved</option>
+                <option value="processing">Processing</option>
+                <option value="needs_review">Under review</option>
                 <option value="paid">Paid</option>
+                <option value="failed">Failed</option>
                 <option value="rejected">Rejected</option>
               </select>
             </div>
@@ -425,7 +438,14 @@ const PayoutHistoryPage: React.FC = () => {
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 mb-4">Payment Details</h3>
                   <div className="bg-gray-50 rounded-lg p-4">
-                    {selectedPayout.payment_details ? (
+                    {selectedPayout.payment_method === 'stripe_connect' ? (
+                      <div className="text-sm text-gray-700 space-y-1">
+                        <p>Paid to the bank account on your Stripe payout account.</p>
+                        {selectedPayout.stripe_payout_id && (
+                          <p className="text-gray-500">Stripe payout: {selectedPayout.stripe_payout_id}</p>
+                        )}
+                      </div>
+                    ) : selectedPayout.payment_details ? (
                       <pre className="text-sm text-gray-700 whitespace-pre-wrap">
                         {JSON.stringify(selectedPayout.payment_details, null, 2)}
                       </pre>
@@ -433,6 +453,20 @@ const PayoutHistoryPage: React.FC = () => {
                       <p className="text-sm text-gray-500">No payment details available</p>
                     )}
                   </div>
+                  {selectedPayout.status === 'failed' && selectedPayout.failure_reason && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-600">Why it failed</label>
+                      <p className="text-sm text-red-700 mt-1">{selectedPayout.failure_reason}</p>
+                      <p className="text-xs text-gray-500 mt-1">The earnings are available again. Check your bank details in Stripe and request a new payout.</p>
+                    </div>
+                  )}
+                  {selectedPayout.status === 'needs_review' && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-600">Under review</label>
+                      <p className="text-sm text-yellow-700 mt-1">This payout did not reach your bank and is being reviewed by our team.</p>
+                      <p className="text-xs text-gray-500 mt-1">The earnings stay with this payout until the review is done.</p>
+                    </div>
+                  )}
                   {selectedPayout.notes && (
                     <div className="mt-4">
                       <label className="block text-sm font-medium text-gray-600">Notes</label>
@@ -1,12 +1,16 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, MapPin, Clock, Users, DollarSign, Car, FileText, Plus, X, Route, Timer, AlertCircle } from 'lucide-react';
+import { ArrowLeft, MapPin, Clock, Users, DollarSign, Car, FileText, Plus, X, Route, Timer, AlertCircle, Repeat } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import AddressAutocomplete from '../components/AddressAutocomplete';
-import { getMultiStopRouteInfo, calculateStopETAs, formatDuration, formatDistance } from '../utils/distance';
+import { getMultiStopRouteInfo, calculateStopETAs, formatDuration, formatDistance, getRouteGeometry } from '../utils/distance';
+import { encodePolyline } from '../utils/polyline';
 import { rideConflictService, ConflictCheckResult } from '../lib/rideConflictService';
 import { DriverResponseService } from '../lib/driverResponseService';
+import { RecurringRideService, RECURRING_RIDE_DAYS_AHEAD } from '../lib/recurringRideService';
+import { WEEKDAY_LABELS } from '../lib/savedSearchService';
+import { CancellationPolicyService, CancellationPolicy, DEFAULT_CANCELLATION_POLICY_KEY } from '../lib/cancellationPolicyService';
 import TermsCheckbox from '../components/TermsCheckbox';
 
 interface Stop {
@@ -54,6 +58,8 @@ const PostRidePage: React.FC = () => {
     carColor: '',
     licensePlate: '',
     description: '',
+    maxDetourMinutes: '10',
+    cancellationPolicy: DEFAULT_CANCELLATION_POLICY_KEY as string,
   });
   const [coordinates, setCoordinates] = useState({
     from: { lat: 0, lng: 0 },
@@ -69,6 +75,12 @@ const PostRidePage: React.FC = () => {
     suggestedPrice?: number;
   }>({ isValid: true, message: '' });
   const [termsAccepted, setTermsAccepted] = useState(false);
+  const [cancellationPolicies, setCancellationPolicies] = useState<CancellationPolicy[]>([]);
+  const [repeatData, setRepeatData] = useState({
+    enabled: false,
+    weekdays: [1, 2, 3, 4, 5],
+    endDate: '',
+  });
 
   // Define fetchRemainingRides outside useEffect, using useCallback
   const fetchRemainingRides = useCallback(async (departureDate?: string) => {
@@ -159,6 +171,7 @@ const PostRidePage: React.FC = () => {
     fetchPriceTiers();
     fetchRemainingRides();
     fetchLicenseStatus();
+    CancellationPolicyService.getPolicies().then(setCancellationPolicies);
   }, [user, fetchRemainingRides]);
 
   // Get applicable price tier based on distance
@@ -375,9 +388,15 @@ const PostRidePage: React.FC = () => {
       ? new Date(departureDateTime.getTime() + routeInfo.totalDuration * 60 * 1000)
       : new Date(departureDateTime.getTime() + 2 * 60 * 60 * 1000); // Default 2 hours if no route info
 
-    // Check for ride conflicts before proceeding (still use ISO for API consistency)
+    if (repeatData.enabled && (repeatData.weekdays.length === 0 || !repeatData.endDate)) {
+      alert('Please choose the days this ride repeats on and an end date.');
+      return;
+    }
+
+    // Check for ride conflicts before proceeding (still use ISO for API consistency).
+    // Recurring rides check every occurrence when they are generated.
     try {
-      const conflictResult = await rideConflictService.checkRideConflicts(
+      const conflictResult = repeatData.enabled ? null : await rideConflictService.checkRideConflicts(
         user.id,
         departureDateTime.toISOString(),
         arrivalDateTime.toISOString()
@@ -433,6 +452,64 @@ const PostRidePage: React.FC = () => {
         arrivalDateTime = `${arrYear}-${arrMonth}-${arrDay} ${arrHours}:${arrMinutes}:${arrSeconds}`;
       }
 
+      // Store the road geometry so passengers can request stops along the route
+      let routePolyline = null;
+      try {
+        const routeCoordinates = [
+          coordinates.from,
+          ...stops.filter(stop => stop.address.trim() && stop.coordinates).map(stop => stop.coordinates!),
+          coordinates.to,
+        ];
+        if (routeCoordinates.every(coord => coord.lat !== 0 && coord.lng !== 0)) {
+          routePolyline = encodePolyline(await getRouteGeometry(routeCoordinates, localDepartureDate));
+        }
+      } catch (error) {
+        console.error('Error calculating route geometry:', error);
+      }
+
+      if (repeatData.enabled) {
+        const result = await RecurringRideService.createTemplate(user.id, {
+          from_location: rideData.fromLocation,
+          to_location: rideData.toLocation,
+          from_lat: coordinates.from.lat || undefined,
+          from_lng: coordinates.from.lng || undefined,
+          to_lat: coordinates.to.lat || undefined,
+          to_lng: coordinates.to.lng || undefined,
+          stops: stopsData,
+          departure_time: `${rideData.departureTime}:00`,
+          weekdays: repeatData.weekdays,
+          start_date: rideData.departureDate,
+          end_date: repeatData.endDate,
+          estimated_duration: routeInfo?.totalDuration || undefined,
+          available_seats: rideData.availableSeats,
+          price_per_seat: parseFloat(rideData.pricePerSeat),
+          car_model: rideData.carModel,
+          car_color: rideData.carColor,
+          license_plate: rideData.licensePlate,
+          description: rideData.description,
+          max_detour_minutes: parseInt(rideData.maxDetourMinutes, 10),
+          cancellation_policy: rideData.cancellationPolicy,
+          route_polyline: routePolyline || undefined,
+        });
+
+        if (!result.success) {
+          alert(result.error || 'Failed to create recurring ride. Please try again.');
+          return;
+        }
+
+        const created = result.result?.created || 0;
+        const conflicts = result.result?.conflicts || [];
+        let message = result.result
+          ? `Recurring ride created! ${created} trip${created !== 1 ? 's' : ''} posted for the coming weeks.`
+          : 'Recurring ride created! Its trips will be posted shortly.';
+        if (conflicts.length > 0) {
+          message += `\n\n${conflicts.length} date${conflicts.length !== 1 ? 's were' : ' was'} skipped because of schedule conflicts: ${conflicts.map(conflict => conflict.date).join(', ')}`;
+        }
+        alert(message);
+        navigate('/recurring-rides');
+        return;
+      }
+
       // Create the ride
       const { data: rideData_result, error: rideError } = await supabase
         .from('rides')
@@ -457,6 +534,9 @@ const PostRidePage: React.FC = () => {
             status: 'active',
             stops: stopsData,
             use_direct_route: stops.length === 0, // True for direct routes, false for multi-stop
+            route_polyline: routePolyline,
+            max_detour_minutes: parseInt(rideData.maxDetourMinutes, 10),
+            cancellation_policy: rideData.cancellationPolicy,
           }
         ])
         .select()
@@ -766,6 +846,50 @@ const PostRidePage: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Custom Stops</label>
+              <div className="relative">
+                <Route className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                <select
+                  name="maxDetourMinutes"
+                  value={rideData.maxDetourMinutes}
+                  onChange={handleInputChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="0">No custom stops</option>
+                  {[5, 10, 15, 20, 30].map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      Up to {minutes} min detour
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Cancellation Policy</label>
+              <div className="relative">
+                <FileText className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                <select
+                  name="cancellationPolicy"
+                  value={rideData.cancellationPolicy}
+                  onChange={handleInputChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {cancellationPolicies.map((policy) => (
+                    <option key={policy.key} value={policy.key}>
+                      {policy.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {cancellationPolicies.find(policy => policy.key === rideData.cancellationPolicy)?.description && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {cancellationPolicies.find(policy => policy.key === rideData.cancellationPolicy)!.description}
+                </p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Price per Seat
@@ -839,6 +963,78 @@ const PostRidePage: React.FC = () => {
           </div>
         </div>
 
+        {/* Repeat Schedule */}
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Repeat className="text-blue-600" size={20} />
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Repeat This Ride</h3>
+                <p className="text-sm text-gray-600">Post your commute automatically on the days you drive</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={repeatData.enabled}
+                onChange={(e) => setRepeatData(prev => ({ ...prev, enabled: e.target.checked }))}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
+          {repeatData.enabled && (
+            <div className="mt-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Repeats On</label>
+                <div className="flex justify-between">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => setRepeatData(prev => ({
+                        ...prev,
+                        weekdays: prev.weekdays.includes(day)
+                          ? prev.weekdays.filter(d => d !== day)
+                          : [...prev.weekdays, day].sort()
+                      }))}
+                      className={`w-10 h-10 rounded-full text-xs font-semibold transition-colors ${
+                        repeatData.weekdays.includes(day)
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Until</label>
+                <div className="relative">
+                  <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                  <input
+                    type="date"
+                    value={repeatData.endDate}
+                    min={rideData.departureDate || new Date().toISOString().split('T')[0]}
+                    onChange={(e) => setRepeatData(prev => ({ ...prev, endDate: e.target.value }))}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-600">
+                Starting on the departure date, trips are posted {RECURRING_RIDE_DAYS_AHEAD} days ahead. Dates that clash with your other rides are skipped, and you can skip or edit single trips from{' '}
+                <button type="button" onClick={() => navigate('/recurring-rides')} className="text-blue-600 hover:underline">
+                  your recurring rides
+                </button>.
+              </p>
+            </div>
+          )}
+        </div>
+
         {/* Car Details */}
         <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Car Details</h3>
@@ -1009,6 +1205,8 @@ const PostRidePage: React.FC = () => {
             'License Expired'
           ) : remainingRides !== null && remainingRides <= 0 && remainingRides !== 999 ? (
             'Daily Limit Reached'
+          ) : repeatData.enabled ? (
+            'Post Recurring Ride'
           ) : (
             'Post Ride'
           )}
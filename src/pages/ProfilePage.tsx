@@ -24,14 +24,25 @@ import {
   Trash2,
   Bell,
   Flag,
-  Receipt
+  Receipt,
+  Gift,
+  Copy,
+  Ticket,
+  Inbox,
+  Siren,
+  HeartPulse
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import { User as UserType, PayoutRequest } from '../types';
 import { EarningsService, EarningsStats } from '../lib/earningsService';
+import { PlatformFeeService, PlatformFeeRule, DEFAULT_PLATFORM_FEE_RULE_KEY } from '../lib/platformFeeService';
+import { CreditWalletService } from '../lib/creditWalletService';
+import { PromoCodeService, PromoCode, REFERRAL_DISCOUNT, REFERRAL_REWARD } from '../lib/promoCodeService';
+import { RoleService } from '../lib/roleService';
 import NotificationSettings from '../components/NotificationSettings';
 import PrivacySettings from '../components/PrivacySettings';
+import EmergencyContactSettings from '../components/EmergencyContactSettings';
 import ReportIssue from '../components/ReportIssue';
 import NotificationService from '../lib/notificationService';
 import RatingDisplay from '../components/RatingDisplay';
@@ -67,6 +78,7 @@ const ProfilePage: React.FC = () => {
   });
   const [showNotificationSettings, setShowNotificationSettings] = useState(false);
   const [showPrivacySettings, setShowPrivacySettings] = useState(false);
+  const [showEmergencyContact, setShowEmergencyContact] = useState(false);
   const [showReportIssue, setShowReportIssue] = useState(false);
   const [showSupportTickets, setShowSupportTickets] = useState(false);
   const [showPaymentMethodModal, setShowPaymentMethodModal] = useState(false);
@@ -74,6 +86,14 @@ const ProfilePage: React.FC = () => {
   const [paymentMethods, setPaymentMethods] = useState<any[]>([]);
   const [showPayoutModal, setShowPayoutModal] = useState(false);
   const [latestPayout, setLatestPayout] = useState<PayoutRequest | null>(null);
+  const [feeRule, setFeeRule] = useState<PlatformFeeRule | null>(null);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [referralCode, setReferralCode] = useState<PromoCode | null>(null);
+  const [referralCount, setReferralCount] = useState(0);
+  const [referralCopied, setReferralCopied] = useState(false);
+  const [canManageSupport, setCanManageSupport] = useState(false);
+  const [canReviewLicenses, setCanReviewLicenses] = useState(false);
+  const [canManageSafety, setCanManageSafety] = useState(false);
   
   const notificationService = NotificationService.getInstance();
 
@@ -107,6 +127,26 @@ const ProfilePage: React.FC = () => {
         driver_license: data.driver_license || '',
         license_expiration_date: data.license_expiration_date || '',
       });
+
+      // Region-specific rules depend on the ride, so this shows the driver's general rate
+      setFeeRule(await PlatformFeeService.getDriverRule());
+
+      const [balance, referral] = await Promise.all([
+        CreditWalletService.getBalance(user.id),
+        PromoCodeService.getReferralCode()
+      ]);
+      setCreditBalance(balance);
+      setReferralCode(referral);
+      setReferralCount(referral?.referral_count ?? 0);
+
+      const [manageSupport, reviewLicenses, manageSafety] = await Promise.all([
+        RoleService.can(user.id, 'support:manage_tickets'),
+        RoleService.can(user.id, 'licenses:review'),
+        RoleService.can(user.id, 'safety:manage_incidents')
+      ]);
+      setCanManageSupport(manageSupport);
+      setCanReviewLicenses(reviewLicenses);
+      setCanManageSafety(manageSafety);
     } catch (error) {
       console.error('Error fetching user profile:', error);
     } finally {
@@ -114,6 +154,18 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleCopyReferralCode = async () => {
+    if (!referralCode) return;
+
+    try {
+      await navigator.clipboard.writeText(referralCode.code);
+      setReferralCopied(true);
+      setTimeout(() => setReferralCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying referral code:', error);
+    }
+  };
+
   const fetchUserEarnings = async () => {
     if (!user) {
       console.log('No user found for earnings calculation');
@@ -947,6 +999,11 @@ const ProfilePage: React.FC = () => {
                 <p className="text-sm text-red-700 mb-3">
                   Your license document was rejected. Please upload a clear, valid driver's license image or PDF.
                 </p>
+                {userProfile.license_rejection_reason && (
+                  <p className="text-sm text-red-700 mb-3">
+                    <span className="font-medium">Reason:</span> {userProfile.license_rejection_reason}
+                  </p>
+                )}
                 <button 
                   onClick={handleLicenseUploadClick}
                   disabled={uploadingLicense}
@@ -1048,12 +1105,21 @@ const ProfilePage: React.FC = () => {
               <span className="text-gray-600">Available for Payout</span>
               <span className="font-semibold text-green-600">${earnings.pendingPayouts}</span>
             </div>
+            {feeRule && (
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Platform Fee</span>
+                <span className="font-semibold text-gray-900">
+                  {feeRule.key !== DEFAULT_PLATFORM_FEE_RULE_KEY && `${feeRule.name}: `}{PlatformFeeService.describeRule(feeRule)}
+                </span>
+              </div>
+            )}
             {latestPayout && (
               <div className="flex items-center justify-between">
                 <span className="text-gray-600">Latest Payout Status</span>
                 <span className={`font-semibold ${
                   latestPayout.status === 'paid' ? 'text-green-600' :
                   latestPayout.status === 'pending' ? 'text-yellow-600' :
+                  latestPayout.status === 'processing' ? 'text-blue-600' :
                   'text-red-600'
                 }`}>
                   {latestPayout.status.charAt(0).toUpperCase() + latestPayout.status.slice(1)}: ${latestPayout.amount}
@@ -1150,6 +1216,55 @@ const ProfilePage: React.FC = () => {
           </div>
         </div>
 
+        {/* Credit & Referrals Section */}
+        <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Credit & Referrals</h2>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 bg-purple-50 rounded-xl">
+              <div className="flex items-center space-x-3">
+                <Wallet size={20} className="text-purple-600" />
+                <div>
+                  <p className="font-medium text-gray-900">OnGoPool Credit</p>
+                  <p className="text-sm text-gray-500">Apply it at checkout on your next booking</p>
+                </div>
+              </div>
+              <p className="text-2xl font-bold text-purple-900">${creditBalance.toFixed(2)}</p>
+            </div>
+
+            {referralCode && (
+              <div className="p-4 border border-gray-200 rounded-xl">
+                <div className="flex items-start space-x-3">
+                  <Gift size={20} className="text-green-600 flex-shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-900">Invite friends</p>
+                    <p className="text-sm text-gray-500">
+                      Friends get ${REFERRAL_DISCOUNT.toFixed(2)} off their first ride with your code, and you get ${REFERRAL_REWARD.toFixed(2)} in credit once they take it.
+                    </p>
+                    <div className="flex items-center space-x-2 mt-3">
+                      <span className="px-3 py-2 bg-gray-100 rounded-lg font-mono font-semibold text-gray-900 tracking-wider">
+                        {referralCode.code}
+                      </span>
+                      <button
+                        onClick={handleCopyReferralCode}
+                        className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 text-sm font-medium"
+                      >
+                        <Copy size={14} />
+                        <span>{referralCopied ? 'Copied' : 'Copy'}</span>
+                      </button>
+                    </div>
+                    {referralCount > 0 && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {referralCount} {referralCount === 1 ? 'friend has' : 'friends have'} taken their first ride
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Settings Section */}
         <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Settings</h2>
@@ -1177,6 +1292,17 @@ const ProfilePage: React.FC = () => {
               <span className="text-gray-400">→</span>
             </button>
             
+            <button 
+              onClick={() => setShowEmergencyContact(true)}
+              className="w-full flex items-center justify-between p-3 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              <div className="flex items-center space-x-3">
+                <HeartPulse size={20} className="text-gray-600" />
+                <span className="text-gray-900">Emergency Contact</span>
+              </div>
+              <span className="text-gray-400">→</span>
+            </button>
+            
             <button 
               onClick={() => setShowReportIssue(true)}
               className="w-full flex items-center justify-between p-3 hover:bg-gray-50 rounded-lg transition-colors"
@@ -1187,6 +1313,56 @@ const ProfilePage: React.FC = () => {
               </div>
               <span className="text-gray-400">→</span>
             </button>
+
+            <button 
+              onClick={() => setShowSupportTickets(true)}
+              className="w-full flex items-center justify-between p-3 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              <div className="flex items-center space-x-3">
+                <Ticket size={20} className="text-gray-600" />
+                <span className="text-gray-900">My Support Tickets</span>
+              </div>
+              <span className="text-gray-400">→</span>
+            </button>
+
+            {canManageSupport && (
+              <button 
+                onClick={() => navigate('/admin/support')}
+                className="w-full flex items-center justify-between p-3 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <div className="flex items-center space-x-3">
+                  <Inbox size={20} className="text-gray-600" />
+                  <span className="text-gray-900">Support Inbox</span>
+                </div>
+                <span className="text-gray-400">→</span>
+              </button>
+            )}
+
+            {canReviewLicenses && (
+              <button 
+                onClick={() => navigate('/admin/licenses')}
+                className="w-full flex items-center justify-between p-3 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <div className="flex items-center space-x-3">
+                  <Shield size={20} className="text-gray-600" />
+                  <span className="text-gray-900">License Review</span>
+                </div>
+                <span className="text-gray-400">→</span>
+              </button>
+            )}
+
+            {canManageSafety && (
+              <button 
+                onClick={() => navigate('/admin/safety')}
+                className="w-full flex items-center justify-between p-3 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <div className="flex items-center space-x-3">
+                  <Siren size={20} className="text-gray-600" />
+                  <span className="text-gray-900">Safety Incidents</span>
+                </div>
+                <span className="text-gray-400">→</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -1218,6 +1394,20 @@ const ProfilePage: React.FC = () => {
         onClose={() => setShowReportIssue(false)} 
       />
 
+      <EmergencyContactSettings
+        isOpen={showEmergencyContact}
+        onClose={() => setShowEmergencyContact(false)}
+      />
+
+      <SupportTickets
+        isOpen={showSupportTickets}
+        onClose={() => setShowSupportTickets(false)}
+        onCreateNew={() => {
+          setShowSupportTickets(false);
+          setShowReportIssue(true);
+        }}
+      />
+
       <PayoutRequestModal
         isOpen={showPayoutModal}
         onClose={() => setShowPayoutModal(false)}
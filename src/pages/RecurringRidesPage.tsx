@@ -0,0 +1,396 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Repeat, MapPin, Clock, Users, DollarSign, Pause, Play, Trash2, ChevronDown, ChevronUp, Edit3, X, AlertCircle, Plus } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { RecurringRideService } from '../lib/recurringRideService';
+import { SavedSearchService } from '../lib/savedSearchService';
+import { RecurringRide, Ride } from '../types';
+
+const RecurringRidesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [templates, setTemplates] = useState<RecurringRide[]>([]);
+  const [occurrences, setOccurrences] = useState<{ [templateId: number]: Ride[] }>({});
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editingRideId, setEditingRideId] = useState<number | null>(null);
+  const [editData, setEditData] = useState({ departureTime: '', availableSeats: 1, pricePerSeat: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchTemplates();
+    }
+  }, [user]);
+
+  const fetchTemplates = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setTemplates(await RecurringRideService.getTemplates(user.id));
+    setLoading(false);
+  };
+
+  const fetchOccurrences = async (templateId: number) => {
+    const rides = await RecurringRideService.getUpcomingOccurrences(templateId);
+    setOccurrences(prev => ({ ...prev, [templateId]: rides }));
+  };
+
+  const toggleExpanded = (templateId: number) => {
+    if (expandedId === templateId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(templateId);
+    setEditingRideId(null);
+    fetchOccurrences(templateId);
+  };
+
+  const handleSetStatus = async (template: RecurringRide, status: RecurringRide['status']) => {
+    if (!user) return;
+    if (status === 'ended' && !confirm('End this recurring ride? Upcoming trips without passengers will be skipped.')) return;
+
+    const result = await RecurringRideService.setTemplateStatus(user.id, template.id, status);
+    if (!result.success) {
+      alert(result.error || 'Failed to update recurring ride');
+      return;
+    }
+
+    if (status === 'ended') {
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } else if (status === 'active') {
+      // Resuming posted its trips; pick up any dates that clashed
+      fetchTemplates();
+    } else {
+      setTemplates(prev => prev.map(t => t.id === template.id ? { ...t, status } : t));
+    }
+  };
+
+  const handleSkip = async (template: RecurringRide, ride: Ride) => {
+    if (!user) return;
+    if (!confirm('Skip this trip? It will be removed from search results.')) return;
+
+    const result = await RecurringRideService.skipOccurrence(user.id, ride.id);
+    if (result.success) {
+      fetchOccurrences(template.id);
+    } else {
+      alert(result.error || 'Failed to skip this trip');
+    }
+  };
+
+  const handleRestore = async (template: RecurringRide, ride: Ride) => {
+    if (!user) return;
+
+    const result = await RecurringRideService.restoreOccurrence(user.id, ride.id);
+    if (result.success) {
+      fetchOccurrences(template.id);
+    } else {
+      alert(result.error || 'Failed to restore this trip');
+    }
+  };
+
+  const startEditing = (ride: Ride) => {
+    setEditingRideId(ride.id);
+    setEditData({
+      departureTime: ride.departure_time.slice(11, 16),
+      availableSeats: ride.available_seats,
+      pricePerSeat: String(ride.price_per_seat),
+    });
+  };
+
+  const handleSaveOccurrence = async (template: RecurringRide, ride: Ride) => {
+    if (!user) return;
+
+    setSaving(true);
+    const result = await RecurringRideService.updateOccurrence(user.id, ride.id, {
+      departureTime: editData.departureTime,
+      availableSeats: editData.availableSeats,
+      pricePerSeat: parseFloat(editData.pricePerSeat),
+    });
+    setSaving(false);
+
+    if (result.success) {
+      setEditingRideId(null);
+      fetchOccurrences(template.id);
+    } else {
+      alert(result.error || 'Failed to update this trip');
+    }
+  };
+
+  const extractCityName = (address: string) => {
+    if (!address) return address;
+    return address.split(',')[0].trim();
+  };
+
+  const formatTime = (time: string) => {
+    return new Date(`2000-01-01T${time.slice(0, 5)}`).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  // Dates the last run of each active recurring ride could not post
+  const conflicts = templates
+    .filter(template => template.status === 'active')
+    .flatMap(template => template.conflicts || []);
+
+  const getBookedSeats = (ride: Ride) => {
+    return (ride.ride_bookings || [])
+      .filter(booking => booking.status === 'pending' || booking.status === 'confirmed')
+      .reduce((sum, booking) => sum + booking.seats_booked, 0);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex items-center justify-center">
+        <div className="bg-white/80 backdrop-blur-sm rounded-3xl p-8 shadow-xl">
+          <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-500 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-gray-600 text-center">Loading recurring rides...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-sm shadow-lg px-4 py-4 flex items-center justify-between border-b border-white/20">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-700" />
+          </button>
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Recurring Rides
+          </h1>
+        </div>
+
+        <button
+          onClick={() => navigate('/post')}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/60 backdrop-blur-sm rounded-xl border border-white/30 hover:bg-white/80 transition-colors"
+        >
+          <Plus size={16} className="text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">New</span>
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 pb-20 space-y-4">
+        {conflicts.length > 0 && (
+          <div className="bg-orange-50 border border-orange-200 rounded-2xl p-4 flex items-start space-x-3">
+            <AlertCircle size={20} className="text-orange-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-orange-800">
+              <p className="font-semibold mb-1">Some trips were not posted because of schedule conflicts</p>
+              {conflicts.map(conflict => (
+                <p key={`${conflict.date}-${conflict.message}`}>{formatDate(conflict.date)}: {conflict.message}</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {templates.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 px-4">
+            <div className="bg-gradient-to-br from-blue-100 to-purple-100 rounded-3xl p-8 mb-6 shadow-lg">
+              <Repeat size={56} className="text-blue-500 mx-auto" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-800 mb-2">No recurring rides</h3>
+            <p className="text-gray-600 text-center max-w-sm">
+              Turn on "Repeat this ride" when posting a ride to offer your commute every week.
+            </p>
+          </div>
+        ) : (
+          templates.map(template => (
+            <div
+              key={template.id}
+              className={`bg-white/70 backdrop-blur-sm rounded-2xl shadow-sm border border-white/30 border-l-4 ${
+                template.status === 'active' ? 'border-l-blue-400' : 'border-l-gray-300'
+              }`}
+            >
+              <div className="p-6">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-2 min-w-0">
+                    <div className="flex items-center space-x-2 text-gray-900 font-semibold">
+                      <MapPin size={16} className="text-blue-500 flex-shrink-0" />
+                      <span className="truncate">
+                        {extractCityName(template.from_location)} → {extractCityName(template.to_location)}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                      <span className="flex items-center space-x-1">
+                        <Repeat size={14} />
+                        <span>{SavedSearchService.describeSchedule({ weekdays: template.weekdays })}</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <Clock size={14} />
+                        <span>{formatTime(template.departure_time)}</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <Users size={14} />
+                        <span>{template.available_seats}</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <DollarSign size={14} />
+                        <span>{Number(template.price_per_seat).toFixed(2)}</span>
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Until {formatDate(template.end_date)}
+                      {template.status === 'paused' && ' · Paused'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    {template.status === 'active' ? (
+                      <button
+                        onClick={() => handleSetStatus(template, 'paused')}
+                        title="Pause"
+                        className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+                      >
+                        <Pause size={18} className="text-gray-600" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleSetStatus(template, 'active')}
+                        title="Resume"
+                        className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+                      >
+                        <Play size={18} className="text-blue-600" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleSetStatus(template, 'ended')}
+                      title="End"
+                      className="p-2 hover:bg-red-50 rounded-xl transition-colors"
+                    >
+                      <Trash2 size={18} className="text-red-500" />
+                    </button>
+                    <button
+                      onClick={() => toggleExpanded(template.id)}
+                      title="Upcoming trips"
+                      className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+                    >
+                      {expandedId === template.id ? (
+                        <ChevronUp size={18} className="text-gray-600" />
+                      ) : (
+                        <ChevronDown size={18} className="text-gray-600" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Upcoming Trips */}
+              {expandedId === template.id && (
+                <div className="border-t border-gray-100 px-6 py-4 space-y-3">
+                  {(occurrences[template.id] || []).length === 0 ? (
+                    <p className="text-sm text-gray-500">No upcoming trips have been posted yet.</p>
+                  ) : (
+                    (occurrences[template.id] || []).map(ride => {
+                      const bookedSeats = getBookedSeats(ride);
+                      const skipped = ride.status === 'skipped';
+                      const inactive = skipped || ride.status === 'cancelled';
+
+                      return (
+                        <div key={ride.id} className={`rounded-xl p-3 ${inactive ? 'bg-gray-50' : 'bg-blue-50/60'}`}>
+                          <div className="flex items-center justify-between">
+                            <div className={inactive ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                              <div className="font-medium text-sm">{formatDate(ride.occurrence_date!)}</div>
+                              <div className="text-xs">
+                                {formatTime(ride.departure_time.slice(11, 16))} · {ride.available_seats} seats · ${Number(ride.price_per_seat).toFixed(2)}
+                                {bookedSeats > 0 && ` · ${bookedSeats} booked`}
+                              </div>
+                            </div>
+
+                            {ride.status === 'completed' || ride.status === 'cancelled' ? null : skipped ? (
+                              <button
+                                onClick={() => handleRestore(template, ride)}
+                                className="px-3 py-1 text-xs bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+                              >
+                                Restore
+                              </button>
+                            ) : (
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => editingRideId === ride.id ? setEditingRideId(null) : startEditing(ride)}
+                                  className="p-1.5 hover:bg-white rounded-lg transition-colors"
+                                  title="Edit this trip"
+                                >
+                                  {editingRideId === ride.id ? (
+                                    <X size={16} className="text-gray-600" />
+                                  ) : (
+                                    <Edit3 size={16} className="text-gray-600" />
+                                  )}
+                                </button>
+                                <button
+                                  onClick={() => handleSkip(template, ride)}
+                                  className="px-3 py-1 text-xs bg-white text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+                                >
+                                  Skip
+                                </button>
+                              </div>
+                            )}
+                          </div>
+
+                          {editingRideId === ride.id && (
+                            <div className="mt-3 grid grid-cols-3 gap-2">
+                              <input
+                                type="time"
+                                step={900}
+                                value={editData.departureTime}
+                                disabled={bookedSeats > 0}
+                                onChange={(e) => setEditData(prev => ({ ...prev, departureTime: e.target.value }))}
+                                className="px-2 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+                              />
+                              <select
+                                value={editData.availableSeats}
+                                onChange={(e) => setEditData(prev => ({ ...prev, availableSeats: parseInt(e.target.value) }))}
+                                className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                              >
+                                {[1, 2, 3, 4, 5, 6, 7].map(num => (
+                                  <option key={num} value={num}>{num} seat{num > 1 ? 's' : ''}</option>
+                                ))}
+                              </select>
+                              <input
+                                type="number"
+                                min="1"
+                                step="0.01"
+                                value={editData.pricePerSeat}
+                                disabled={bookedSeats > 0}
+                                onChange={(e) => setEditData(prev => ({ ...prev, pricePerSeat: e.target.value }))}
+                                className="px-2 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+                              />
+                              <button
+                                onClick={() => handleSaveOccurrence(template, ride)}
+                                disabled={saving}
+                                className="col-span-3 bg-blue-600 hover:bg-blue-700 text-white py-2 rounded-lg text-sm font-semibold disabled:opacity-50 transition-colors"
+                              >
+                                {saving ? 'Saving...' : 'Save This Trip'}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecurringRidesPage;
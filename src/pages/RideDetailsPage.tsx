@@ -10,12 +10,22 @@ import {
   DollarSign,
   MessageCircle,
   Navigation,
-  Calendar
+  Calendar,
+  Route,
+  Repeat,
+  ShieldCheck
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import PaymentModal from '../components/PaymentModal';
 import TermsCheckbox from '../components/TermsCheckbox';
+import AddressAutocomplete from '../components/AddressAutocomplete';
+import { CustomStopService, CustomStopType, DetourEvaluation, DEFAULT_MAX_DETOUR_MINUTES } from '../lib/customStopService';
+import { RecurringRideService, WeekBooking } from '../lib/recurringRideService';
+import { CancellationPolicyService, CancellationPolicy } from '../lib/cancellationPolicyService';
+import { WaitlistService, WAITLIST_OFFER_MINUTES } from '../lib/waitlistService';
+import { SafetyIncidentService } from '../lib/safetyIncidentService';
+import { Ride } from '../types';
 
 interface RouteSegment {
   id: number;
@@ -37,6 +47,15 @@ const RideDetailsPage: React.FC = () => {
   const [fullRoute, setFullRoute] = useState<RouteSegment[]>([]);
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [currentBookingId, setCurrentBookingId] = useState<number | null>(null);
+  const [customStopType, setCustomStopType] = useState<CustomStopType>('pickup');
+  const [customStopAddress, setCustomStopAddress] = useState('');
+  const [customStopCoords, setCustomStopCoords] = useState<{ lat: number; lng: number } | null>(null);
+  const [customStopEvaluation, setCustomStopEvaluation] = useState<DetourEvaluation | null>(null);
+  const [checkingCustomStop, setCheckingCustomStop] = useState(false);
+  const [weekOccurrences, setWeekOccurrences] = useState<Ride[]>([]);
+  const [bookWholeWeek, setBookWholeWeek] = useState(false);
+  const [weekBookings, setWeekBookings] = useState<WeekBooking[]>([]);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy | null>(null);
 
   useEffect(() => {
     if (ride) {
@@ -44,6 +63,19 @@ const RideDetailsPage: React.FC = () => {
     }
   }, [ride]);
 
+  useEffect(() => {
+    if (ride) {
+      CancellationPolicyService.getPolicy(ride.cancellation_policy).then(setCancellationPolicy);
+    }
+  }, [ride]);
+
+  // Later trips of a recurring commute can be booked together
+  useEffect(() => {
+    if (ride?.recurring_ride_id && user && searchParams) {
+      RecurringRideService.getWeekOccurrences(ride, user.id, searchParams.passengers).then(setWeekOccurrences);
+    }
+  }, [ride, user]);
+
   const calculateFullRouteETA = async () => {
     if (!ride?.ride_segments) return;
 
@@ -185,6 +217,36 @@ const RideDetailsPage: React.FC = () => {
     }
   };
 
+  const acceptsCustomStops = ride?.max_detour_minutes !== 0;
+  const joiningWaitlist = !!segmentMatch?.isFull;
+
+  const handleCheckCustomStop = async () => {
+    if (!customStopCoords) {
+      alert('Please select an address from the suggestions');
+      return;
+    }
+
+    setCheckingCustomStop(true);
+    try {
+      const evaluation = await CustomStopService.evaluateStop(ride, customStopCoords, customStopType, {
+        fromOrder: segmentMatch.fromSegment.segment_order,
+        toOrder: segmentMatch.toSegment.segment_order,
+      });
+      setCustomStopEvaluation(evaluation);
+    } catch (error) {
+      console.error('RideDetailsPage - Error checking custom stop:', error);
+      alert('Unable to check this stop. Please try again.');
+    } finally {
+      setCheckingCustomStop(false);
+    }
+  };
+
+  const clearCustomStop = () => {
+    setCustomStopAddress('');
+    setCustomStopCoords(null);
+    setCustomStopEvaluation(null);
+  };
+
   const handleRequestRide = async () => {
     if (!user) {
       alert('Please login to request a ride');
@@ -197,11 +259,17 @@ const RideDetailsPage: React.FC = () => {
       return;
     }
 
+    if (await SafetyIncidentService.hasSafetyHold(user.id)) {
+      alert('Your account is on hold while our safety team reviews a report. Please contact support for details.');
+      return;
+    }
+
     console.log('RideDetailsPage - Creating booking before payment');
     setLoading(true);
     
     try {
-      // Create booking record first (with pending payment)
+      // Create booking record first (with pending payment). The database
+      // stores the ride's cancellation policy on it as the snapshot.
       const { data: booking, error: bookingError } = await supabase
         .from('ride_bookings')
         .insert({
@@ -209,7 +277,7 @@ const RideDetailsPage: React.FC = () => {
           passenger_id: user.id,
           seats_booked: searchParams.passengers,
           total_amount: segmentMatch.segmentPrice * searchParams.passengers,
-          status: 'pending',
+          status: joiningWaitlist ? 'waitlisted' : 'pending',
           payment_status: 'pending', // Payment authorization pending
           from_segment_id: segmentMatch.fromSegment.id,
           to_segment_id: segmentMatch.toSegment.id,
@@ -237,7 +305,8 @@ const RideDetailsPage: React.FC = () => {
         }
       }
 
-      if (segmentSeats.length > 0) {
+      // Waitlist spots hold no seats until an offered seat is accepted
+      if (segmentSeats.length > 0 && !joiningWaitlist) {
         const { error: seatsError } = await supabase
           .from('segment_seats')
           .insert(segmentSeats);
@@ -256,6 +325,45 @@ const RideDetailsPage: React.FC = () => {
         last_message_at: new Date().toISOString()
       });
 
+      // Custom stop needs the driver's approval, the booking goes ahead either way
+      if (!joiningWaitlist && customStopEvaluation?.feasible && customStopCoords) {
+        const stopResult = await CustomStopService.requestStop({
+          ride,
+          bookingId: booking.id,
+          passengerId: user.id,
+          address: customStopAddress,
+          point: customStopCoords,
+          stopType: customStopType,
+          bookingRange: {
+            fromOrder: segmentMatch.fromSegment.segment_order,
+            toOrder: segmentMatch.toSegment.segment_order,
+          },
+        });
+
+        if (!stopResult.success) {
+          console.error('RideDetailsPage - Custom stop request failed:', stopResult.error);
+          alert(`Your custom stop could not be requested: ${stopResult.error}. Your booking will use the original stops.`);
+        }
+      }
+
+      // Book the rest of the week with the same pickup and drop-off
+      if (bookWholeWeek && weekOccurrences.length > 0) {
+        const { bookings, skipped } = await RecurringRideService.createOccurrenceBookings({
+          occurrences: weekOccurrences,
+          baseRide: ride,
+          passengerId: user.id,
+          seats: searchParams.passengers,
+          segmentPrice: segmentMatch.segmentPrice,
+          fromAddress: segmentMatch.fromSegment.address,
+          toAddress: segmentMatch.toSegment.address,
+        });
+
+        setWeekBookings(bookings);
+        if (skipped > 0) {
+          alert(`${skipped} trip${skipped !== 1 ? 's' : ''} this week could not be booked because the route changed. The other trips are included in your request.`);
+        }
+      }
+
       console.log('RideDetailsPage - Opening PaymentModal with booking ID:', booking.id);
       setCurrentBookingId(booking.id);
       setShowPaymentModal(true);
@@ -286,8 +394,6 @@ const RideDetailsPage: React.FC = () => {
           payment_status: paymentData.isHold ? 'authorized' : 'paid',
           payment_intent_id: paymentData.paymentIntentId,
           payment_authorized_at: new Date().toISOString(),
-          payment_expires_at: paymentData.expiresAt,
-          response_deadline: paymentData.expiresAt,
           updated_at: new Date().toISOString()
         })
         .eq('id', currentBookingId);
@@ -299,9 +405,35 @@ const RideDetailsPage: React.FC = () => {
 
       console.log('RideDetailsPage - Booking updated with payment authorization');
 
+      // Authorize the other trips of the week with the same payment method
+      let weekMessage = '';
+      if (weekBookings.length > 0 && user) {
+        const { authorized, failed } = await RecurringRideService.authorizeBookings(
+          weekBookings,
+          {
+            id: paymentData.paymentMethodId,
+            type: paymentData.paymentMethod === 'paypal' ? 'paypal' : 'stripe'
+          },
+          user.id
+        );
+
+        weekMessage = `\n\n${authorized} more trip${authorized !== 1 ? 's' : ''} this week requested.`;
+        if (failed > 0) {
+          weekMessage += paymentData.paymentMethod === 'paypal'
+            ? ` PayPal needs approval for each trip, so ${failed} trip${failed !== 1 ? 's' : ''} must be booked separately.`
+            : ` ${failed} trip${failed !== 1 ? 's' : ''} could not be authorized and ${failed !== 1 ? 'were' : 'was'} cancelled.`;
+        }
+        setWeekBookings([]);
+      }
+
       setShowPaymentModal(false);
       setCurrentBookingId(null);
-      alert('Ride request successful! Payment authorized. You can now chat with your driver.');
+      if (joiningWaitlist) {
+        const position = await WaitlistService.getPosition(currentBookingId);
+        alert(`You're ${position ? `#${position} ` : ''}on the waitlist. Your payment is authorized but you won't be charged unless a seat opens up, you accept it and the driver confirms.`);
+      } else {
+        alert(`Ride request successful! Payment authorized. You can now chat with your driver.${weekMessage}`);
+      }
       navigate('/chat', { 
         state: { 
           bookingId: currentBookingId,
@@ -509,6 +641,124 @@ const RideDetailsPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Custom Pickup / Drop-off */}
+        {acceptsCustomStops && !joiningWaitlist && (
+          <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <Route size={20} className="text-blue-600" />
+              <h3 className="text-lg font-bold text-gray-900">Custom Stop</h3>
+              <span className="text-sm text-gray-600">optional</span>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Ask the driver to pick you up or drop you off somewhere along their route.
+              The driver accepts detours of up to {ride.max_detour_minutes ?? DEFAULT_MAX_DETOUR_MINUTES} minutes and has to approve the stop.
+            </p>
+
+            <div className="flex space-x-2 mb-3">
+              {(['pickup', 'dropoff'] as CustomStopType[]).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => {
+                    setCustomStopType(type);
+                    setCustomStopEvaluation(null);
+                  }}
+                  className={`flex-1 py-2 px-3 rounded-xl text-sm font-medium transition-colors ${
+                    customStopType === type
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {type === 'pickup' ? 'Custom pickup' : 'Custom drop-off'}
+                </button>
+              ))}
+            </div>
+
+            <AddressAutocomplete
+              value={customStopAddress}
+              onChange={(value, coords) => {
+                setCustomStopAddress(value);
+                setCustomStopCoords(coords || null);
+                setCustomStopEvaluation(null);
+              }}
+              placeholder={customStopType === 'pickup' ? 'Enter pickup address' : 'Enter drop-off address'}
+            />
+
+            <div className="flex space-x-2 mt-3">
+              <button
+                type="button"
+                onClick={handleCheckCustomStop}
+                disabled={!customStopAddress || checkingCustomStop}
+                className="flex-1 bg-blue-50 hover:bg-blue-100 disabled:opacity-50 text-blue-700 py-2 px-3 rounded-xl text-sm font-semibold"
+              >
+                {checkingCustomStop ? 'Checking detour...' : 'Check detour'}
+              </button>
+              {customStopAddress && (
+                <button
+                  type="button"
+                  onClick={clearCustomStop}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-xl text-sm font-medium"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+
+            {customStopEvaluation && (
+              <div className={`mt-3 p-3 rounded-xl text-sm ${
+                customStopEvaluation.feasible
+                  ? 'bg-green-50 text-green-800 border border-green-200'
+                  : 'bg-red-50 text-red-800 border border-red-200'
+              }`}>
+                {customStopEvaluation.feasible
+                  ? `Adds about ${customStopEvaluation.detourMinutes} min (${customStopEvaluation.detourKm} km) to the driver's route. The request is sent with your booking.`
+                  : customStopEvaluation.reason}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Book the Week */}
+        {weekOccurrences.length > 0 && !joiningWaitlist && (
+          <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Repeat size={20} className="text-blue-600" />
+                <h3 className="text-lg font-bold text-gray-900">Commute This Week</h3>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bookWholeWeek}
+                  onChange={(e) => setBookWholeWeek(e.target.checked)}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+              </label>
+            </div>
+            <p className="text-sm text-gray-600 mt-2">
+              This driver repeats this ride. Also request the same trip on{' '}
+              {weekOccurrences.map(occurrence => formatDateTime(occurrence.departure_time).date).join(', ')}.
+              Each trip is authorized separately on the same card.
+            </p>
+          </div>
+        )}
+
+        {/* Waitlist */}
+        {joiningWaitlist && (
+          <div className="bg-orange-50 rounded-2xl p-6 shadow-lg border border-orange-200">
+            <div className="flex items-center space-x-2 mb-2">
+              <Users size={20} className="text-orange-600" />
+              <h3 className="text-lg font-bold text-gray-900">This ride is full</h3>
+            </div>
+            <p className="text-sm text-gray-700">
+              Join the waitlist and we'll offer you a seat if one opens up on your part of the route.
+              You'll have {WAITLIST_OFFER_MINUTES} minutes to accept before it goes to the next passenger.
+              Your payment is authorized now and released if you never get a seat.
+            </p>
+          </div>
+        )}
+
         {/* Request Summary */}
         <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
           <h3 className="text-lg font-bold text-gray-900 mb-4">Request Summary</h3>
@@ -524,16 +774,37 @@ const RideDetailsPage: React.FC = () => {
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Available seats</span>
-              <span className="font-semibold">{segmentMatch.availableSeats}</span>
+              <span className="font-semibold">{joiningWaitlist ? 'Full - waitlist' : segmentMatch.availableSeats}</span>
             </div>
+            {bookWholeWeek && weekOccurrences.length > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Trips this week</span>
+                <span className="font-semibold">{weekOccurrences.length + 1}</span>
+              </div>
+            )}
             <hr className="border-gray-200" />
             <div className="flex justify-between text-lg">
-              <span className="font-bold text-gray-900">Total</span>
+              <span className="font-bold text-gray-900">{bookWholeWeek && weekOccurrences.length > 0 ? 'Total for this trip' : 'Total'}</span>
               <span className="font-bold text-green-600">${totalPrice}</span>
             </div>
           </div>
         </div>
 
+        {/* Cancellation Policy */}
+        {cancellationPolicy && (
+          <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center space-x-2 mb-3">
+              <ShieldCheck className="text-blue-600" size={20} />
+              <h3 className="text-lg font-bold text-gray-900">{cancellationPolicy.name} Cancellation Policy</h3>
+            </div>
+            <ul className="space-y-1 text-sm text-gray-600">
+              {CancellationPolicyService.describePolicy(cancellationPolicy).map(line => (
+                <li key={line}>• {line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Terms Acceptance for Booking */}
         <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
           <TermsCheckbox
@@ -551,7 +822,7 @@ const RideDetailsPage: React.FC = () => {
           className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-4 px-6 rounded-xl font-bold text-lg shadow-lg transform hover:scale-105 transition-all duration-200 flex items-center justify-center space-x-2"
         >
           <MessageCircle size={24} />
-          <span>{loading ? 'Processing...' : `Request Ride - $${totalPrice}`}</span>
+          <span>{loading ? 'Processing...' : `${joiningWaitlist ? 'Join Waitlist' : 'Request Ride'} - $${totalPrice}`}</span>
         </button>
       </div>
 
@@ -0,0 +1,400 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Shield, ShieldOff, RefreshCw, AlertCircle, CheckCircle, Lock, Unlock, Ticket, MapPin, Siren } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { RoleService } from '../lib/roleService';
+import {
+  SafetyIncidentService,
+  SafetyIncident,
+  IncidentStatus,
+  ResolutionAction
+} from '../lib/safetyIncidentService';
+
+const RESOLUTION_ACTIONS: { value: ResolutionAction; label: string }[] = [
+  { value: 'no_action', label: 'No action' },
+  { value: 'warned', label: 'Warn the user' },
+  { value: 'suspended', label: 'Suspend the user' },
+  { value: 'banned', label: 'Ban the user' },
+];
+
+const formatDateTime = (date: string | null) =>
+  date ? new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '—';
+
+const personName = (person?: { display_name: string | null; email: string | null } | null) =>
+  person?.display_name || person?.email || 'Unknown user';
+
+const SafetyIncidentsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [status, setStatus] = useState<IncidentStatus>('open');
+  const [incidents, setIncidents] = useState<SafetyIncident[]>([]);
+  const [selected, setSelected] = useState<SafetyIncident | null>(null);
+  const [canResolve, setCanResolve] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Resolution form
+  const [resolution, setResolution] = useState('');
+  const [action, setAction] = useState<ResolutionAction>('no_action');
+  const [suspensionDays, setSuspensionDays] = useState('30');
+
+  useEffect(() => {
+    if (user) {
+      RoleService.can(user.id, 'safety:resolve_incidents').then(setCanResolve);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchIncidents();
+  }, [status]);
+
+  const fetchIncidents = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const list = await SafetyIncidentService.getIncidents(status);
+      setIncidents(list);
+      setSelected(current => list.find(incident => incident.id === current?.id) || list[0] || null);
+    } catch (error) {
+      console.error('Error loading safety incidents:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load incidents');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectIncident = (incident: SafetyIncident) => {
+    setSelected(incident);
+    setResolution('');
+    setAction('no_action');
+    setError('');
+  };
+
+  const handleFreeze = async (frozen: boolean) => {
+    if (!selected) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const updated = await SafetyIncidentService.setFreeze(selected.id, frozen);
+      setSelected(updated);
+      setIncidents(current => current.map(incident => (incident.id === updated.id ? updated : incident)));
+    } catch (error) {
+      console.error('Error updating safety hold:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update the hold');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!selected || !resolution.trim()) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await SafetyIncidentService.resolve(selected.id, {
+        resolution: resolution.trim(),
+        action,
+        suspension_days: action === 'suspended' ? Number(suspensionDays) || undefined : undefined
+      });
+
+      // Resolved incidents leave the open list; the next one is selected
+      const remaining = incidents.filter(incident => incident.id !== selected.id);
+      setIncidents(remaining);
+      setSelected(remaining[0] || null);
+      setResolution('');
+      setAction('no_action');
+    } catch (error) {
+      console.error('Error resolving safety incident:', error);
+      setError(error instanceof Error ? error.message : 'Failed to resolve the incident');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderResolution = (incident: SafetyIncident) => {
+    if (incident.status === 'resolved') {
+      return (
+        <div className="bg-green-50 border border-green-200 rounded-xl p-4 text-sm space-y-1">
+          <p className="font-medium text-green-800">
+            Resolved {formatDateTime(incident.resolved_at)} · {RESOLUTION_ACTIONS.find(option => option.value === incident.resolution_action)?.label || 'No action'}
+          </p>
+          <p className="text-green-700 whitespace-pre-wrap">{incident.resolution}</p>
+        </div>
+      );
+    }
+
+    if (!canResolve) {
+      return (
+        <p className="text-sm text-gray-500 bg-gray-50 rounded-xl p-4">
+          An admin must review and resolve this incident.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-3 border border-gray-200 rounded-xl p-4">
+        <p className="text-sm font-semibold text-gray-700">Admin resolution</p>
+        <textarea
+          value={resolution}
+          onChange={(e) => setResolution(e.target.value)}
+          rows={3}
+          placeholder="What was found and why this action was taken (internal)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex space-x-3">
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as ResolutionAction)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {RESOLUTION_ACTIONS
+              .filter(option => option.value === 'no_action' || incident.reported_user_id)
+              .map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+          </select>
+          {action === 'suspended' && (
+            <input
+              type="number"
+              min="1"
+              value={suspensionDays}
+              onChange={(e) => setSuspensionDays(e.target.value)}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              placeholder="Days"
+            />
+          )}
+        </div>
+        <button
+          onClick={handleResolve}
+          disabled={saving || !resolution.trim()}
+          className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold disabled:opacity-50"
+        >
+          <CheckCircle size={16} />
+          <span>{saving ? 'Saving...' : 'Resolve Incident'}</span>
+        </button>
+      </div>
+    );
+  };
+
+  const renderDetail = (incident: SafetyIncident) => (
+    <div className="lg:col-span-2 bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-sm border border-white/30 space-y-5">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">
+            {incident.source === 'sos' ? 'SOS' : 'Incident'} #{incident.id}
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">Reported {formatDateTime(incident.created_at)}</p>
+        </div>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+          incident.priority === 'critical' ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'
+        }`}>
+          {incident.priority === 'critical' ? 'Critical' : 'High'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs font-medium text-gray-500 uppercase">Reporter</p>
+          <p className="text-gray-900 mt-1">{personName(incident.reporter)}</p>
+          <p className="text-gray-500">{incident.reporter?.email}{incident.reporter?.phone ? ` · ${incident.reporter.phone}` : ''}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs font-medium text-gray-500 uppercase">Reported user</p>
+          {incident.reported_user ? (
+            <>
+              <p className="text-gray-900 mt-1">{personName(incident.reported_user)}</p>
+              <p className="text-gray-500">{incident.reported_user.email}</p>
+            </>
+          ) : (
+            <p className="text-gray-500 mt-1">No one named</p>
+          )}
+        </div>
+      </div>
+
+      {incident.ride && (
+        <div className="flex items-start space-x-2 text-sm bg-gray-50 rounded-lg p-3">
+          <MapPin size={16} className="text-gray-500 mt-0.5" />
+          <div>
+            <p className="text-gray-900">Ride #{incident.ride.id}: {incident.ride.from_location} → {incident.ride.to_location}</p>
+            <p className="text-gray-500">
+              {formatDateTime(incident.ride.departure_time)} · {incident.ride.status}
+              {incident.ride.driver_id === incident.reporter_id ? ' · reported by the driver' : ' · reported by a passenger'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <p className="text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-lg p-4 text-sm">{incident.description}</p>
+
+      {incident.source === 'sos' && (
+        <div className="flex items-start space-x-2 text-sm bg-red-50 border border-red-200 rounded-lg p-3">
+          <Siren size={16} className="text-red-600 mt-0.5" />
+          <div className="text-red-800 space-y-1">
+            {incident.latitude != null && incident.longitude != null ? (
+              <a
+                href={`https://maps.google.com/?q=${incident.latitude},${incident.longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline"
+              >
+                Location when SOS was pressed{incident.location_accuracy ? ` (±${Math.round(incident.location_accuracy)} m)` : ''}
+              </a>
+            ) : (
+              <p>No location was captured</p>
+            )}
+            <p>
+              {incident.contact_alerted_at
+                ? `Emergency contact alerted ${formatDateTime(incident.contact_alerted_at)}`
+                : 'Emergency contact was not reached'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {incident.reported_user_id && incident.status === 'open' && (
+          <button
+            onClick={() => handleFreeze(!incident.freeze_active)}
+            disabled={saving}
+            className={`flex items-center space-x-2 py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-50 ${
+              incident.freeze_active
+                ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                : 'bg-red-600 hover:bg-red-700 text-white'
+            }`}
+          >
+            {incident.freeze_active ? <Unlock size={16} /> : <Lock size={16} />}
+            <span>{incident.freeze_active ? 'Lift hold' : 'Hold posting and booking'}</span>
+          </button>
+        )}
+        {incident.ticket_id && (
+          <button
+            onClick={() => navigate(`/admin/support?ticket=${incident.ticket_id}`)}
+            className="flex items-center space-x-2 py-2 px-4 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50"
+          >
+            <Ticket size={16} />
+            <span>Open ticket #{incident.ticket_id}</span>
+          </button>
+        )}
+      </div>
+
+      {incident.freeze_active && (
+        <p className="text-sm text-red-700">
+          {personName(incident.reported_user)} cannot post or book rides until the hold is lifted or the incident is resolved.
+          Held since {formatDateTime(incident.frozen_at)}.
+        </p>
+      )}
+
+      {renderResolution(incident)}
+    </div>
+  );
+
+  const renderIncidents = () => {
+    if (incidents.length === 0) {
+      return (
+        <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-12 text-center shadow-sm border border-white/30">
+          <Shield size={48} className="mx-auto mb-3 text-green-500" />
+          <p className="text-gray-700 font-medium">{status === 'open' ? 'No open safety incidents' : 'No resolved incidents yet'}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-sm border border-white/30 divide-y divide-gray-100 lg:max-h-[75vh] overflow-y-auto">
+          {incidents.map(incident => (
+            <button
+              key={incident.id}
+              onClick={() => selectIncident(incident)}
+              className={`w-full text-left p-4 transition-colors ${
+                selected?.id === incident.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-900">
+                {incident.source === 'sos' && <span className="text-red-600 font-bold">SOS </span>}
+                #{incident.id} {personName(incident.reported_user ?? incident.reporter)}
+              </p>
+                {incident.freeze_active && <Lock size={14} className="text-red-600" />}
+              </div>
+              <p className="text-sm text-gray-600 truncate">{incident.description}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {incident.priority === 'critical' ? 'Critical · ' : ''}{formatDateTime(incident.created_at)}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {selected && renderDetail(selected)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-sm shadow-lg px-4 py-4 flex items-center justify-between border-b border-white/20">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-700" />
+          </button>
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Safety Incidents
+          </h1>
+        </div>
+
+        <button
+          onClick={fetchIncidents}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/60 backdrop-blur-sm rounded-xl border border-white/30 hover:bg-white/80 transition-colors"
+        >
+          <RefreshCw size={16} className="text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">Refresh</span>
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="p-4 pb-20 space-y-4">
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setStatus('open')}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors ${
+              status === 'open' ? 'bg-blue-600 text-white' : 'bg-white/60 text-gray-700 hover:bg-white/80'
+            }`}
+          >
+            <Shield size={16} />
+            <span>Open{status === 'open' && !loading ? ` (${incidents.length})` : ''}</span>
+          </button>
+          <button
+            onClick={() => setStatus('resolved')}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors ${
+              status === 'resolved' ? 'bg-blue-600 text-white' : 'bg-white/60 text-gray-700 hover:bg-white/80'
+            }`}
+          >
+            <ShieldOff size={16} />
+            <span>Resolved</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+            <AlertCircle size={16} className="text-red-600 flex-shrink-0" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        ) : renderIncidents()}
+      </div>
+    </div>
+  );
+};
+
+export default SafetyIncidentsPage;
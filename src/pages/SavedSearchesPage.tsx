@@ -0,0 +1,433 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Bell, BellOff, Plus, Trash2, MapPin, Calendar, Users, DollarSign, Search, X } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import AddressAutocomplete from '../components/AddressAutocomplete';
+import { SavedSearchService, WEEKDAY_LABELS } from '../lib/savedSearchService';
+import { SavedSearch, RideAlert } from '../types';
+
+type ScheduleType = 'date' | 'weekdays';
+
+const SavedSearchesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<RideAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [fromLocation, setFromLocation] = useState('');
+  const [toLocation, setToLocation] = useState('');
+  const [fromCoords, setFromCoords] = useState<{ lat: number; lng: number } | undefined>();
+  const [toCoords, setToCoords] = useState<{ lat: number; lng: number } | undefined>();
+  const [scheduleType, setScheduleType] = useState<ScheduleType>('weekdays');
+  const [searchDate, setSearchDate] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [maxPrice, setMaxPrice] = useState('');
+  const [seats, setSeats] = useState(1);
+
+  const todayString = new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD in local time
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const [searches, recentAlerts] = await Promise.all([
+      SavedSearchService.getSavedSearches(user.id),
+      SavedSearchService.getRecentAlerts(user.id),
+    ]);
+    setSavedSearches(searches);
+    setAlerts(recentAlerts);
+    setLoading(false);
+  };
+
+  const resetForm = () => {
+    setFromLocation('');
+    setToLocation('');
+    setFromCoords(undefined);
+    setToCoords(undefined);
+    setScheduleType('weekdays');
+    setSearchDate('');
+    setWeekdays([1, 2, 3, 4, 5]);
+    setMaxPrice('');
+    setSeats(1);
+    setShowForm(false);
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    const result = await SavedSearchService.createSavedSearch(user.id, {
+      from_location: fromLocation,
+      to_location: toLocation,
+      from_lat: fromCoords?.lat,
+      from_lng: fromCoords?.lng,
+      to_lat: toCoords?.lat,
+      to_lng: toCoords?.lng,
+      search_date: scheduleType === 'date' ? searchDate : null,
+      weekdays: scheduleType === 'weekdays' ? weekdays : null,
+      max_price: maxPrice ? parseFloat(maxPrice) : null,
+      seats,
+    });
+    setSaving(false);
+
+    if (result.success && result.savedSearch) {
+      setSavedSearches(prev => [result.savedSearch!, ...prev]);
+      resetForm();
+    } else {
+      alert(result.error || 'Failed to save search');
+    }
+  };
+
+  const handleToggleActive = async (savedSearch: SavedSearch) => {
+    if (!user) return;
+
+    const result = await SavedSearchService.setActive(user.id, savedSearch.id, !savedSearch.is_active);
+    if (result.success) {
+      setSavedSearches(prev => prev.map(search =>
+        search.id === savedSearch.id ? { ...search, is_active: !savedSearch.is_active } : search
+      ));
+    } else {
+      alert(result.error || 'Failed to update saved search');
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    if (!user) return;
+    if (!confirm('Delete this saved search? You will stop receiving alerts for it.')) return;
+
+    const result = await SavedSearchService.deleteSavedSearch(user.id, savedSearch.id);
+    if (result.success) {
+      setSavedSearches(prev => prev.filter(search => search.id !== savedSearch.id));
+      setAlerts(prev => prev.filter(alert => alert.saved_search_id !== savedSearch.id));
+    } else {
+      alert(result.error || 'Failed to delete saved search');
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
+  // Open the search results for the alert's ride date
+  const handleViewAlert = (alert: RideAlert) => {
+    const savedSearch = savedSearches.find(search => search.id === alert.saved_search_id);
+    if (!savedSearch) return;
+
+    const hasCoords = (lat?: number, lng?: number) => lat != null && lng != null;
+
+    navigate('/available-rides', {
+      state: {
+        fromLocation: savedSearch.from_location,
+        toLocation: savedSearch.to_location,
+        fromCoords: hasCoords(savedSearch.from_lat, savedSearch.from_lng)
+          ? { lat: savedSearch.from_lat!, lng: savedSearch.from_lng! }
+          : undefined,
+        toCoords: hasCoords(savedSearch.to_lat, savedSearch.to_lng)
+          ? { lat: savedSearch.to_lat!, lng: savedSearch.to_lng! }
+          : undefined,
+        date: alert.pickup_time.slice(0, 10),
+        passengers: savedSearch.seats,
+      }
+    });
+  };
+
+  const extractCityName = (address: string) => {
+    if (!address) return address;
+    return address.split(',')[0].trim();
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex items-center justify-center">
+        <div className="bg-white/80 backdrop-blur-sm rounded-3xl p-8 shadow-xl">
+          <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-500 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-gray-600 text-center">Loading saved searches...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-sm shadow-lg px-4 py-4 flex items-center justify-between border-b border-white/20">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-700" />
+          </button>
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Ride Alerts
+          </h1>
+        </div>
+
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-white/60 backdrop-blur-sm rounded-xl border border-white/30 hover:bg-white/80 transition-colors"
+          >
+            <Plus size={16} className="text-gray-600" />
+            <span className="text-sm font-medium text-gray-700">New Alert</span>
+          </button>
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 pb-20 space-y-6">
+        {/* Create Form */}
+        {showForm && (
+          <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-sm border border-white/30 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-gray-900">New Ride Alert</h2>
+              <button onClick={resetForm} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+                <X size={20} className="text-gray-500" />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-semibold text-gray-700">From</label>
+              <AddressAutocomplete
+                value={fromLocation}
+                onChange={(value, coordinates) => {
+                  setFromLocation(value);
+                  setFromCoords(coordinates);
+                }}
+                placeholder="Enter pickup location"
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-semibold text-gray-700">To</label>
+              <AddressAutocomplete
+                value={toLocation}
+                onChange={(value, coordinates) => {
+                  setToLocation(value);
+                  setToCoords(coordinates);
+                }}
+                placeholder="Enter destination"
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-semibold text-gray-700">When</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['weekdays', 'date'] as ScheduleType[]).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setScheduleType(type)}
+                    className={`py-2 rounded-xl text-sm font-medium border transition-colors ${
+                      scheduleType === type
+                        ? 'bg-blue-100 text-blue-700 border-blue-200'
+                        : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {type === 'weekdays' ? 'Repeats weekly' : 'Specific date'}
+                  </button>
+                ))}
+              </div>
+
+              {scheduleType === 'weekdays' ? (
+                <div className="flex justify-between pt-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      onClick={() => toggleWeekday(day)}
+                      className={`w-10 h-10 rounded-full text-xs font-semibold transition-colors ${
+                        weekdays.includes(day)
+                          ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                  <input
+                    type="date"
+                    value={searchDate}
+                    min={todayString}
+                    onChange={(e) => setSearchDate(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Max price per seat</label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                  <input
+                    type="number"
+                    min="1"
+                    step="0.5"
+                    value={maxPrice}
+                    onChange={(e) => setMaxPrice(e.target.value)}
+                    placeholder="Any"
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Passengers</label>
+                <div className="relative">
+                  <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                  <select
+                    value={seats}
+                    onChange={(e) => setSeats(parseInt(e.target.value))}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none"
+                  >
+                    <option value={1}>1 passenger</option>
+                    <option value={2}>2 passengers</option>
+                    <option value={3}>3 passengers</option>
+                    <option value={4}>4 passengers</option>
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white py-3 px-6 rounded-xl font-bold shadow-lg transition-all duration-200 disabled:opacity-50 flex items-center justify-center space-x-2"
+            >
+              <Bell size={20} />
+              <span>{saving ? 'Saving...' : 'Save Alert'}</span>
+            </button>
+          </div>
+        )}
+
+        {/* Saved Searches */}
+        {savedSearches.length === 0 && !showForm ? (
+          <div className="flex flex-col items-center justify-center py-20 px-4">
+            <div className="bg-gradient-to-br from-blue-100 to-purple-100 rounded-3xl p-8 mb-6 shadow-lg">
+              <Bell size={56} className="text-blue-500 mx-auto" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-800 mb-2">No ride alerts yet</h3>
+            <p className="text-gray-600 text-center max-w-sm">
+              Save a search and we'll notify you as soon as a matching ride is posted.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {savedSearches.map(savedSearch => (
+              <div
+                key={savedSearch.id}
+                className={`bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-sm border border-white/30 border-l-4 ${
+                  savedSearch.is_active ? 'border-l-blue-400' : 'border-l-gray-300 opacity-75'
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="space-y-2 min-w-0">
+                    <div className="flex items-center space-x-2 text-gray-900 font-semibold">
+                      <MapPin size={16} className="text-blue-500 flex-shrink-0" />
+                      <span className="truncate">
+                        {extractCityName(savedSearch.from_location)} → {extractCityName(savedSearch.to_location)}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                      <span className="flex items-center space-x-1">
+                        <Calendar size={14} />
+                        <span>{SavedSearchService.describeSchedule(savedSearch)}</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <Users size={14} />
+                        <span>{savedSearch.seats}</span>
+                      </span>
+                      {savedSearch.max_price != null && (
+                        <span className="flex items-center space-x-1">
+                          <DollarSign size={14} />
+                          <span>Up to ${Number(savedSearch.max_price).toFixed(2)}</span>
+                        </span>
+                      )}
+                    </div>
+                    {savedSearch.last_matched_at && (
+                      <p className="text-xs text-gray-500">Last match {formatDateTime(savedSearch.last_matched_at)}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggleActive(savedSearch)}
+                      title={savedSearch.is_active ? 'Pause alerts' : 'Resume alerts'}
+                      className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+                    >
+                      {savedSearch.is_active ? (
+                        <Bell size={18} className="text-blue-600" />
+                      ) : (
+                        <BellOff size={18} className="text-gray-400" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(savedSearch)}
+                      title="Delete"
+                      className="p-2 hover:bg-red-50 rounded-xl transition-colors"
+                    >
+                      <Trash2 size={18} className="text-red-500" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Recent Matches */}
+        {alerts.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-bold text-gray-900">Recent Matches</h2>
+            {alerts.map(alert => (
+              <button
+                key={alert.id}
+                onClick={() => handleViewAlert(alert)}
+                className="w-full text-left bg-white/70 backdrop-blur-sm rounded-2xl p-4 shadow-sm border border-white/30 hover:bg-white/90 transition-colors"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">
+                      {extractCityName(alert.pickup_address)} → {extractCityName(alert.dropoff_address)}
+                    </div>
+                    <div className="text-sm text-gray-600">{formatDateTime(alert.pickup_time)}</div>
+                  </div>
+                  <div className="flex items-center space-x-3 flex-shrink-0">
+                    <span className="font-bold text-green-600">${Number(alert.segment_price).toFixed(2)}</span>
+                    <Search size={16} className="text-gray-400" />
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearchesPage;
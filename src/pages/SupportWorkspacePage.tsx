@@ -0,0 +1,705 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Inbox,
+  RefreshCw,
+  AlertCircle,
+  Clock,
+  User,
+  MessageCircle,
+  Lock,
+  Link as LinkIcon,
+  Gift,
+  Send,
+  Trash2,
+  Plus,
+  Shield
+} from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import {
+  SupportTicketService,
+  SupportTicket,
+  TicketDetail,
+  TicketFilters,
+  TicketStatus,
+  TicketPriority,
+  CannedResponse,
+  SupportAgent
+} from '../lib/supportTicketService';
+
+const STATUS_OPTIONS: { value: TicketStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+];
+
+const PRIORITY_OPTIONS: { value: TicketPriority; label: string }[] = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const TYPE_LABELS: Record<string, string> = {
+  bug: 'Bug Report',
+  feature: 'Feature Request',
+  safety: 'Safety Concern',
+  support: 'Support Request',
+  other: 'Other',
+};
+
+const priorityColors: Record<string, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const formatMinutes = (minutes: number) => {
+  const abs = Math.abs(minutes);
+  const text = abs >= 60 ? `${Math.floor(abs / 60)}h ${abs % 60}m` : `${abs}m`;
+  return minutes < 0 ? `overdue by ${text}` : `${text} left`;
+};
+
+const SupportWorkspacePage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuthStore();
+  const [filters, setFilters] = useState<TicketFilters>({ status: 'open,in_progress' });
+  const [tickets, setTickets] = useState<SupportTicket[]>([]);
+  const [detail, setDetail] = useState<TicketDetail | null>(null);
+  const [agents, setAgents] = useState<SupportAgent[]>([]);
+  const [cannedResponses, setCannedResponses] = useState<CannedResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(new Date());
+
+  // Composer
+  const [composerMode, setComposerMode] = useState<'reply' | 'note'>('reply');
+  const [message, setMessage] = useState('');
+  const [showNewCanned, setShowNewCanned] = useState(false);
+  const [newCannedTitle, setNewCannedTitle] = useState('');
+
+  // Links and credit
+  const [links, setLinks] = useState({ booking_id: '', ride_id: '', payment_id: '' });
+  const [creditAmount, setCreditAmount] = useState('');
+  const [creditNote, setCreditNote] = useState('');
+  const [resolutionNotes, setResolutionNotes] = useState('');
+
+  useEffect(() => {
+    SupportTicketService.getAgents().then(setAgents).catch(error => console.error('Error loading agents:', error));
+    SupportTicketService.getCannedResponses().then(setCannedResponses).catch(error => console.error('Error loading canned responses:', error));
+
+    // Opened from another console with ?ticket=<id>
+    const linkedTicketId = Number(searchParams.get('ticket'));
+    if (linkedTicketId) openTicket(linkedTicketId);
+
+    // Keep the SLA timers moving
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    fetchTickets();
+  }, [filters]);
+
+  const fetchTickets = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setTickets(await SupportTicketService.getTickets(filters));
+    } catch (error) {
+      console.error('Error loading tickets:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load tickets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openTicket = async (ticketId: number) => {
+    setLoadingDetail(true);
+    setError('');
+    try {
+      const ticketDetail = await SupportTicketService.getTicket(ticketId);
+      setDetail(ticketDetail);
+      setLinks({
+        booking_id: ticketDetail.ticket.booking_id?.toString() || '',
+        ride_id: ticketDetail.ticket.ride_id?.toString() || '',
+        payment_id: ticketDetail.ticket.payment_id?.toString() || '',
+      });
+      setResolutionNotes(ticketDetail.ticket.resolution_notes || '');
+      setMessage('');
+      setCreditAmount('');
+      setCreditNote('');
+    } catch (error) {
+      console.error('Error loading ticket:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load ticket');
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  // Run an agent action, then reload the open ticket and the inbox
+  const runAction = async (action: () => Promise<unknown>) => {
+    if (!detail) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await action();
+      await Promise.all([openTicket(detail.ticket.id), fetchTickets()]);
+    } catch (error) {
+      console.error('Support action failed:', error);
+      setError(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (!detail || !message.trim()) return;
+    runAction(() => composerMode === 'reply'
+      ? SupportTicketService.reply(detail.ticket.id, message)
+      : SupportTicketService.addNote(detail.ticket.id, message));
+  };
+
+  const handleSaveLinks = () => {
+    if (!detail) return;
+    const toId = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+    runAction(() => SupportTicketService.link(detail.ticket.id, {
+      booking_id: toId(links.booking_id),
+      ride_id: toId(links.ride_id),
+      payment_id: toId(links.payment_id),
+    }));
+  };
+
+  const handleIssueCredit = () => {
+    if (!detail) return;
+    const amount = parseFloat(creditAmount);
+    if (!amount || amount <= 0) return;
+    if (!confirm(`Issue $${amount.toFixed(2)} of credit to ${detail.ticket.user?.display_name || 'this user'}?`)) return;
+    runAction(() => SupportTicketService.issueGoodwillCredit(detail.ticket.id, amount, creditNote));
+  };
+
+  const handleUseCanned = (responseId: string) => {
+    const response = cannedResponses.find(canned => canned.id === parseInt(responseId, 10));
+    if (response && detail) {
+      setMessage(SupportTicketService.fillCannedResponse(response, detail.ticket));
+    }
+  };
+
+  const handleSaveCanned = async () => {
+    if (!newCannedTitle.trim() || !message.trim()) return;
+    try {
+      const response = await SupportTicketService.createCannedResponse(newCannedTitle, message);
+      setCannedResponses(prev => [...prev, response].sort((a, b) => a.title.localeCompare(b.title)));
+      setShowNewCanned(false);
+      setNewCannedTitle('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save canned response');
+    }
+  };
+
+  const handleDeleteCanned = async (responseId: number) => {
+    if (!confirm('Delete this canned response for everyone?')) return;
+    try {
+      await SupportTicketService.deleteCannedResponse(responseId);
+      setCannedResponses(prev => prev.filter(canned => canned.id !== responseId));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete canned response');
+    }
+  };
+
+  // Breached and nearly due tickets first, finished ones last
+  const sortedTickets = [...tickets].sort((a, b) => {
+    const slaA = SupportTicketService.getSlaStatus(a, now).minutesLeft;
+    const slaB = SupportTicketService.getSlaStatus(b, now).minutesLeft;
+    if (slaA === null && slaB === null) return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
+    if (slaA === null) return 1;
+    if (slaB === null) return -1;
+    return slaA - slaB;
+  });
+
+  const renderSla = (ticket: SupportTicket) => {
+    const sla = SupportTicketService.getSlaStatus(ticket, now);
+    if (sla.minutesLeft === null) return null;
+
+    const urgent = !sla.breached && sla.minutesLeft < 60;
+    return (
+      <span className={`inline-flex items-center space-x-1 text-xs font-medium ${
+        sla.breached ? 'text-red-600' : urgent ? 'text-orange-600' : 'text-gray-500'
+      }`}>
+        <Clock size={12} />
+        <span>{sla.target === 'response' ? 'Reply' : 'Resolve'} {formatMinutes(sla.minutesLeft)}</span>
+      </span>
+    );
+  };
+
+  const renderFilters = () => (
+    <div className="flex flex-wrap gap-2">
+      <select
+        value={filters.status || ''}
+        onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value || undefined }))}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+      >
+        <option value="open,in_progress">Active</option>
+        {STATUS_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+        <option value="">All statuses</option>
+      </select>
+      <select
+        value={filters.type || ''}
+        onChange={(e) => setFilters(prev => ({ ...prev, type: e.target.value || undefined }))}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+      >
+        <option value="">All types</option>
+        {Object.entries(TYPE_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      <select
+        value={filters.priority || ''}
+        onChange={(e) => setFilters(prev => ({ ...prev, priority: e.target.value || undefined }))}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+      >
+        <option value="">All priorities</option>
+        {PRIORITY_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={filters.assigned_to || ''}
+        onChange={(e) => setFilters(prev => ({ ...prev, assigned_to: e.target.value || undefined }))}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+      >
+        <option value="">Anyone</option>
+        <option value="me">Assigned to me</option>
+        <option value="unassigned">Unassigned</option>
+        {agents.filter(agent => agent.id !== user?.id).map(agent => (
+          <option key={agent.id} value={agent.id}>{agent.display_name || agent.email}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const renderContext = (ticketDetail: TicketDetail) => {
+    const { booking, ride, payments, credit_issued } = ticketDetail.context;
+
+    return (
+      <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+        <div className="flex items-center space-x-2">
+          <LinkIcon size={16} className="text-gray-500" />
+          <h3 className="font-semibold text-gray-900">Linked Records</h3>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(['booking_id', 'ride_id', 'payment_id'] as const).map(field => (
+            <input
+              key={field}
+              type="number"
+              value={links[field]}
+              onChange={(e) => setLinks(prev => ({ ...prev, [field]: e.target.value }))}
+              placeholder={`${field.replace('_id', '')} #`}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          ))}
+        </div>
+        <button
+          onClick={handleSaveLinks}
+          disabled={saving}
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+        >
+          Save links
+        </button>
+
+        {booking && (
+          <div className="text-sm bg-gray-50 rounded-lg p-3">
+            <p className="font-medium text-gray-900">Booking #{booking.id}</p>
+            <p className="text-gray-600">
+              {booking.seats_booked} seat{booking.seats_booked === 1 ? '' : 's'} · ${Number(booking.total_amount).toFixed(2)} · {booking.status} · payment {booking.payment_status || 'n/a'}
+            </p>
+          </div>
+        )}
+        {ride && (
+          <div className="text-sm bg-gray-50 rounded-lg p-3">
+            <p className="font-medium text-gray-900">Ride #{ride.id}</p>
+            <p className="text-gray-600">{ride.from_location} → {ride.to_location}</p>
+            <p className="text-gray-600">
+              {formatDateTime(ride.departure_time)} · {ride.status || 'active'} · driver {ride.driver?.display_name || ride.driver?.email || ride.driver_id}
+            </p>
+          </div>
+        )}
+        {payments.length > 0 && (
+          <div className="text-sm bg-gray-50 rounded-lg p-3 space-y-1">
+            <p className="font-medium text-gray-900">Payments</p>
+            {payments.map(payment => (
+              <p key={payment.id} className="text-gray-600">
+                #{payment.id} · {payment.payment_method} · ${Number(payment.amount).toFixed(2)} · {payment.status}
+              </p>
+            ))}
+          </div>
+        )}
+        {credit_issued > 0 && (
+          <p className="text-sm text-green-700">${credit_issued.toFixed(2)} goodwill credit issued on this ticket</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderDetail = () => {
+    if (loadingDetail && !detail) {
+      return (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-500 border-t-transparent"></div>
+        </div>
+      );
+    }
+
+    if (!detail) {
+      return (
+        <div className="text-center py-16 text-gray-500">
+          <MessageCircle size={40} className="mx-auto mb-3 text-gray-400" />
+          <p>Select a ticket</p>
+        </div>
+      );
+    }
+
+    const { ticket, replies, notes } = detail;
+
+    return (
+      <div className="space-y-5">
+        {/* Ticket header */}
+        <div>
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">#{ticket.id} {ticket.title}</h2>
+              <p className="text-sm text-gray-600">
+                {ticket.user?.display_name || 'Unknown user'} · {ticket.contact_email || ticket.user?.email} · {TYPE_LABELS[ticket.type] || ticket.type}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">Opened {formatDateTime(ticket.created_at)}</p>
+            </div>
+            {renderSla(ticket)}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 mt-4">
+            <select
+              value={ticket.status}
+              disabled={saving}
+              onChange={(e) => runAction(() => SupportTicketService.updateStatus(ticket.id, {
+                status: e.target.value as TicketStatus,
+                resolution_notes: resolutionNotes
+              }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={ticket.priority}
+              disabled={saving}
+              onChange={(e) => runAction(() => SupportTicketService.updateStatus(ticket.id, { priority: e.target.value as TicketPriority }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {PRIORITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={ticket.assigned_to || ''}
+              disabled={saving}
+              onChange={(e) => runAction(() => SupportTicketService.assign(ticket.id, e.target.value || null))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Unassigned</option>
+              {agents.map(agent => (
+                <option key={agent.id} value={agent.id}>
+                  {agent.id === user?.id ? 'Me' : agent.display_name || agent.email}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {ticket.type === 'safety' && (
+            <button
+              onClick={() => navigate('/admin/safety')}
+              className="w-full mt-2 flex items-center space-x-2 px-3 py-2 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800 hover:bg-orange-100"
+            >
+              <Shield size={14} />
+              <span>Safety report: holds and resolution are handled on the Safety Incidents page</span>
+            </button>
+          )}
+
+          {ticket.status !== 'resolved' && ticket.status !== 'closed' && (
+            <textarea
+              value={resolutionNotes}
+              onChange={(e) => setResolutionNotes(e.target.value)}
+              rows={2}
+              placeholder="Resolution shown to the user when you mark the ticket resolved"
+              className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          )}
+        </div>
+
+        <p className="text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-lg p-4 text-sm">{ticket.description}</p>
+
+        {renderContext(detail)}
+
+        {/* Thread */}
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-900">Conversation</h3>
+          {replies.length === 0 && notes.length === 0 && (
+            <p className="text-sm text-gray-500">No replies yet</p>
+          )}
+          {[...replies.map(reply => ({ ...reply, internal: false })), ...notes.map(note => ({ ...note, internal: true }))]
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+            .map(entry => (
+              <div
+                key={`${entry.internal ? 'note' : 'reply'}-${entry.id}`}
+                className={`rounded-lg p-3 text-sm ${
+                  entry.internal
+                    ? 'bg-yellow-50 border border-yellow-200'
+                    : entry.from_staff ? 'bg-blue-50 border border-blue-100 ml-8' : 'bg-white border border-gray-200 mr-8'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-900 flex items-center space-x-1">
+                    {entry.internal && <Lock size={12} className="text-yellow-700" />}
+                    <span>{entry.author?.display_name || (entry.from_staff || entry.internal ? 'Support' : 'User')}</span>
+                    {entry.internal && <span className="text-xs text-yellow-700">internal note</span>}
+                  </span>
+                  <span className="text-xs text-gray-500">{formatDateTime(entry.created_at)}</span>
+                </div>
+                <p className="text-gray-700 whitespace-pre-wrap">{entry.body}</p>
+              </div>
+            ))}
+        </div>
+
+        {/* Composer */}
+        <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setComposerMode('reply')}
+                className={`px-3 py-1 rounded-lg text-sm font-medium ${composerMode === 'reply' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                Reply to user
+              </button>
+              <button
+                onClick={() => setComposerMode('note')}
+                className={`px-3 py-1 rounded-lg text-sm font-medium ${composerMode === 'note' ? 'bg-yellow-500 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                Internal note
+              </button>
+            </div>
+            {composerMode === 'reply' && cannedResponses.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleUseCanned(e.target.value)}
+                className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">Canned response...</option>
+                {cannedResponses.map(response => (
+                  <option key={response.id} value={response.id}>{response.title}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={4}
+            placeholder={composerMode === 'reply' ? 'Visible to the user' : 'Only visible to staff'}
+            className={`w-full px-3 py-2 border rounded-lg text-sm ${composerMode === 'note' ? 'border-yellow-300 bg-yellow-50' : 'border-gray-300'}`}
+          />
+
+          {showNewCanned && (
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={newCannedTitle}
+                onChange={(e) => setNewCannedTitle(e.target.value)}
+                placeholder="Title for this canned response"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                onClick={handleSaveCanned}
+                disabled={!newCannedTitle.trim() || !message.trim()}
+                className="px-3 py-2 bg-gray-800 text-white rounded-lg text-sm disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            {composerMode === 'reply' ? (
+              <button
+                onClick={() => setShowNewCanned(!showNewCanned)}
+                className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800"
+              >
+                <Plus size={14} />
+                <span>Save as canned response</span>
+              </button>
+            ) : <span />}
+            <button
+              onClick={handleSend}
+              disabled={saving || !message.trim()}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-semibold disabled:opacity-50"
+            >
+              <Send size={14} />
+              <span>{composerMode === 'reply' ? 'Send Reply' : 'Add Note'}</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Goodwill credit */}
+        <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+          <div className="flex items-center space-x-2">
+            <Gift size={16} className="text-green-600" />
+            <h3 className="font-semibold text-gray-900">Goodwill Credit</h3>
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={creditAmount}
+              onChange={(e) => setCreditAmount(e.target.value)}
+              placeholder="Amount"
+              className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              value={creditNote}
+              onChange={(e) => setCreditNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={handleIssueCredit}
+              disabled={saving || !parseFloat(creditAmount)}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-semibold disabled:opacity-50"
+            >
+              Issue
+            </button>
+          </div>
+        </div>
+
+        {/* Canned response library */}
+        {cannedResponses.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-600">Manage canned responses</summary>
+            <div className="mt-2 space-y-1">
+              {cannedResponses.map(response => (
+                <div key={response.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                  <span className="text-gray-800">{response.title}</span>
+                  <button
+                    onClick={() => handleDeleteCanned(response.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </details>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-sm shadow-lg px-4 py-4 flex items-center justify-between border-b border-white/20">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-700" />
+          </button>
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Support Inbox
+          </h1>
+        </div>
+
+        <button
+          onClick={fetchTickets}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/60 backdrop-blur-sm rounded-xl border border-white/30 hover:bg-white/80 transition-colors"
+        >
+          <RefreshCw size={16} className="text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">Refresh</span>
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="p-4 pb-20 space-y-4">
+        {renderFilters()}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+            <AlertCircle size={16} className="text-red-600 flex-shrink-0" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+          {/* Inbox */}
+          <div className="lg:col-span-2 bg-white/70 backdrop-blur-sm rounded-2xl shadow-sm border border-white/30 divide-y divide-gray-100 lg:max-h-[80vh] overflow-y-auto">
+            {loading ? (
+              <div className="flex justify-center py-16">
+                <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-500 border-t-transparent"></div>
+              </div>
+            ) : sortedTickets.length === 0 ? (
+              <div className="text-center py-16 text-gray-500">
+                <Inbox size={40} className="mx-auto mb-3 text-gray-400" />
+                <p>No tickets match these filters</p>
+              </div>
+            ) : sortedTickets.map(ticket => (
+              <button
+                key={ticket.id}
+                onClick={() => openTicket(ticket.id)}
+                className={`w-full text-left p-4 transition-colors ${
+                  detail?.ticket.id === ticket.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-900 truncate">#{ticket.id} {ticket.title}</span>
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${priorityColors[ticket.priority] || priorityColors.medium}`}>
+                    {ticket.priority}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span className="flex items-center space-x-1">
+                    <User size={12} />
+                    <span>{ticket.assignee?.display_name || 'Unassigned'}</span>
+                    <span>· {TYPE_LABELS[ticket.type] || ticket.type} · {ticket.status.replace('_', ' ')}</span>
+                  </span>
+                  {renderSla(ticket)}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Ticket */}
+          <div className="lg:col-span-3 bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-sm border border-white/30">
+            {renderDetail()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupportWorkspacePage;
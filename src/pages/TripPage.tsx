@@ -143,7 +143,7 @@ const TripPage: React.FC = () => {
             )
           ),
           ride_segments!left(
-            id, address, segment_order, is_pickup
+            id, address, lat, lng, segment_order, is_pickup, is_custom_stop
           )
         `)
         .eq('driver_id', user.id)
@@ -186,7 +186,7 @@ const TripPage: React.FC = () => {
         const hoursDiff = timeDiff / (1000 * 60 * 60);
 
         // SAFE DELETION POLICY: Hide cancelled rides from app, preserve in database
-        if (ride.status === 'cancelled') {
+        if (ride.status === 'cancelled' || ride.status === 'skipped') {
           // HIDDEN: Cancelled rides completely hidden from app UI (data preserved in database)
           return; // Skip cancelled rides - don't show in any section
         } else if (ride.status === 'completed') {
@@ -234,13 +234,33 @@ const TripPage: React.FC = () => {
 
       if (error) throw error;
 
-      // If cancelling a ride, track it for driver warnings
+      // Finishing a ride completes its confirmed bookings, which creates driver earnings
+      if (status === 'completed' && user) {
+        const { BookingStateMachine } = await import('../lib/bookingStateMachine');
+        const completion = await BookingStateMachine.completeBookingsForRide(rideId);
+
+        if (completion.failed > 0) {
+          console.error(`${completion.failed} booking(s) could not be completed for ride ${rideId}`);
+        }
+      }
+
+      // If cancelling a ride, refund passengers per their cancellation policy
+      // and track it for driver warnings
       if (status === 'cancelled' && user) {
+        const { BookingPolicyService } = await import('../lib/bookingPolicyService');
+        const cancellation = await BookingPolicyService.cancelBookingsForRide(rideId);
+
+        if (cancellation.refundsFailed > 0) {
+          alert(`${cancellation.refundsFailed} passenger refund${cancellation.refundsFailed !== 1 ? 's' : ''} could not be processed automatically. Please contact support.`);
+        }
+
         try {
-          const warningData = await DriverResponseService.trackDriverCancellation(user.id, rideId);
+          const warningData = cancellation.countsAsWarning
+            ? await DriverResponseService.trackDriverCancellation(user.id, rideId)
+            : null;
           
           // Show warning message if applicable
-          if (warningData.warningLevel !== 'none') {
+          if (warningData && warningData.warningLevel !== 'none') {
             let warningMessage = '';
             switch (warningData.warningLevel) {
               case 'warning':
@@ -510,6 +530,10 @@ const TripPage: React.FC = () => {
           setSelectedRide(null); // Close the details modal
         }}
         onUpdateRideStatus={updateRideStatus}
+        onRideUpdated={() => {
+          fetchDriverRides(); // Stops and ETAs changed
+          setSelectedRide(null);
+        }}
         activeTab={activeTab}
       />
 
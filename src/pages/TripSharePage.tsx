@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { MapPin, Clock, Car, Siren, AlertCircle, RefreshCw, ExternalLink } from 'lucide-react';
+import { SafetyIncidentService, TripShareView } from '../lib/safetyIncidentService';
+
+// The sharer's location can move, so the page keeps itself current
+const REFRESH_MS = 30 * 1000;
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const TripSharePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [share, setShare] = useState<TripShareView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+
+    fetchShare();
+    const interval = setInterval(fetchShare, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [token]);
+
+  const fetchShare = async () => {
+    try {
+      setShare(await SafetyIncidentService.getTripShare(token!));
+      setError('');
+    } catch (error) {
+      console.error('Error loading shared trip:', error);
+      setError(error instanceof Error ? error.message : 'This trip link could not be loaded');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-500 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!share) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-4">
+        <div className="bg-white rounded-2xl p-8 shadow-lg text-center max-w-md">
+          <AlertCircle size={40} className="mx-auto mb-3 text-gray-400" />
+          <p className="text-gray-700">{error || 'This trip link has expired or does not exist'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const mapUrl = share.location
+    ? `https://maps.google.com/?q=${share.location.latitude},${share.location.longitude}`
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-4">
+      <div className="max-w-lg mx-auto space-y-4">
+        <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent text-center pt-4">
+          OnGoPool Trip
+        </h1>
+
+        {share.sos && (
+          <div className="bg-red-50 border-2 border-red-200 rounded-2xl p-4 flex items-start space-x-3">
+            <Siren size={24} className="text-red-600 flex-shrink-0" />
+            <div className="text-sm text-red-800">
+              <p className="font-bold">{share.sharer_name} pressed SOS during this trip.</p>
+              <p className="mt-1">Our safety team has been alerted. If you think they are in danger, call 911.</p>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100 space-y-4">
+          <div className="flex items-start space-x-3">
+            <MapPin size={20} className="text-blue-600 mt-0.5" />
+            <div>
+              <p className="font-semibold text-gray-900">{share.ride.from_location} → {share.ride.to_location}</p>
+              <p className="text-sm text-gray-500 capitalize">{share.ride.status}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3 text-sm text-gray-700">
+            <Clock size={20} className="text-gray-500" />
+            <span>Departs {formatDateTime(share.ride.departure_time)}</span>
+          </div>
+          <div className="flex items-center space-x-3 text-sm text-gray-700">
+            <Car size={20} className="text-gray-500" />
+            <span>
+              Driver: {share.driver.name}
+              {share.driver.car_model && ` · ${share.driver.car_model}`}
+              {share.driver.car_plate && ` · ${share.driver.car_plate}`}
+            </span>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100 space-y-3">
+          <h2 className="font-bold text-gray-900">{share.sharer_name}'s last location</h2>
+          {share.location && mapUrl ? (
+            <>
+              <p className="text-sm text-gray-600">
+                Updated {formatDateTime(share.location.updated_at)}
+                {share.location.accuracy ? ` · within about ${Math.round(share.location.accuracy)} m` : ''}
+              </p>
+              <a
+                href={mapUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="w-full flex items-center justify-center space-x-2 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-semibold"
+              >
+                <ExternalLink size={16} />
+                <span>Open in Maps</span>
+              </a>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">Their location has not been shared yet.</p>
+          )}
+        </div>
+
+        <p className="flex items-center justify-center space-x-2 text-xs text-gray-500">
+          <RefreshCw size={12} />
+          <span>This page refreshes automatically. The link expires {formatDateTime(share.expires_at)}.</span>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TripSharePage;
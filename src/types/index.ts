@@ -8,6 +8,7 @@ export interface User {
   driver_license?: string;
   license_document_url?: string;
   license_verification_status?: 'unverified' | 'pending' | 'verified' | 'rejected';
+  license_rejection_reason?: string | null; // Set by the admin who rejected the license
   license_uploaded_at?: string;
   license_verified_at?: string;
   license_expiration_date?: string;
@@ -15,10 +16,33 @@ export interface User {
   car_plate?: string;
   rating?: number;
   total_rides?: number;
+  stripe_connect_account_id?: string | null; // Express account that receives driver payouts
+  stripe_connect_payouts_enabled?: boolean;
+  payout_schedule?: PayoutSchedule;
+  driver_tier?: string | null; // Set by ops; selects tier-specific platform fee rules
+  role?: UserRole; // Set by ops; staff roles unlock the admin area
+  safety_hold_since?: string | null; // Set while a frozen safety incident is open; blocks posting and booking
   created_at?: string;
   updated_at?: string;
 }
 
+export type PayoutSchedule = 'manual' | 'daily' | 'weekly';
+
+// Everyone is a passenger and is_driver makes a driver; users.role adds a staff role
+export type UserRole = 'passenger' | 'driver' | 'support_agent' | 'finance' | 'admin';
+
+export type Permission =
+  | 'licenses:review'
+  | 'bookings:grant_cancellation_exception'
+  | 'bookings:force_timeout'
+  | 'drivers:clear_warnings'
+  | 'payments:reconcile'
+  | 'payouts:run'
+  | 'support:manage_tickets'
+  | 'credits:issue_goodwill'
+  | 'safety:manage_incidents'
+  | 'safety:resolve_incidents';
+
 export interface Driver {
   id: string;
   license_number?: string;
@@ -43,6 +67,7 @@ export interface Passenger {
   preferred_seat_location?: 'front' | 'back' | 'any';
   emergency_contact_name?: string;
   emergency_contact_phone?: string;
+  emergency_contact_email?: string;
   medical_conditions?: string;
   travel_preferences?: string;
   total_rides_taken?: number;
@@ -71,7 +96,13 @@ export interface Ride {
   car_model?: string;
   car_color?: string;
   license_plate?: string;
-  status?: 'active' | 'completed' | 'cancelled';
+  status?: 'active' | 'completed' | 'cancelled' | 'skipped'; // skipped: a recurring ride occurrence the driver took off the schedule
+  use_direct_route?: boolean;
+  route_polyline?: string; // Encoded polyline (precision 5) of the driver's route
+  max_detour_minutes?: number; // Longest detour the driver accepts for a custom stop, 0 disables requests
+  cancellation_policy?: string; // Key of the driver's chosen cancellation policy
+  recurring_ride_id?: number; // Set on occurrences generated from a recurring ride
+  occurrence_date?: string; // YYYY-MM-DD the occurrence was generated for
   created_at?: string;
   updated_at?: string;
   driver?: User;
@@ -79,17 +110,75 @@ export interface Ride {
   ride_segments?: RideSegment[]; // ADDED: Missing relation used in ETA calculations
 }
 
+export interface CancellationPolicySnapshot {
+  key: string;
+  name: string;
+  description?: string;
+  tiers: { min_hours_before: number; refund_percent: number }[];
+  grace_period_minutes: number;
+  grace_min_hours_before: number;
+  no_show_refund_percent: number;
+  driver_cancel_counts_as_warning: boolean;
+}
+
+export interface RecurringRideStop {
+  address: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface OccurrenceConflict {
+  date: string; // YYYY-MM-DD
+  message: string;
+}
+
+export interface RecurringRide {
+  id: number;
+  driver_id: string;
+  from_location: string;
+  to_location: string;
+  from_lat?: number;
+  from_lng?: number;
+  to_lat?: number;
+  to_lng?: number;
+  stops?: RecurringRideStop[] | null;
+  departure_time: string; // HH:mm:ss local time
+  weekdays: number[]; // 0 = Sunday
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  estimated_duration?: number;
+  available_seats: number;
+  price_per_seat: number;
+  car_model?: string;
+  car_color?: string;
+  license_plate?: string;
+  description?: string;
+  max_detour_minutes?: number;
+  cancellation_policy?: string;
+  route_polyline?: string;
+  time_zone: string; // IANA zone the dates and departure time are in
+  status: 'active' | 'paused' | 'ended';
+  materialized_until?: string; // Last date occurrences were generated for
+  conflicts?: OccurrenceConflict[] | null; // Dates the last generation run could not post
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface RideBooking {
   id: number;
   ride_id: number;
   passenger_id: string;
   seats_booked: number;
   total_amount: number;
-  status?: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'rejected';
-  payment_status?: 'pending' | 'paid' | 'refunded';
+  status?: 'waitlisted' | 'offered' | 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'rejected' | 'timeout_cancelled'; // Changed only by the booking transitions API
+  payment_status?: 'pending' | 'authorized' | 'paid' | 'partially_refunded' | 'refunded' | 'failed' | 'disputed'; // failed and disputed come from payment webhooks or a failed hold renewal
   payment_intent_id?: string;
+  transition_to?: RideBooking['status'] | null; // Set while the booking transitions API settles the payment for a move to this status
+  transition_claimed_at?: string | null;
+  response_deadline?: string | null; // Driver response deadline, the acceptance window of a waitlist offer, or the time left to fix a failed hold renewal
   from_segment_id?: number;
   to_segment_id?: number;
+  cancellation_policy_snapshot?: CancellationPolicySnapshot | null; // Policy in effect when the booking was made
   created_at?: string;
   updated_at?: string;
   ride?: Ride;
@@ -104,6 +193,8 @@ export interface RideSegment {
   lng?: number; // FIXED: Now properly typed as optional number
   segment_order: number;
   is_pickup?: boolean;
+  is_custom_stop?: boolean; // Added from an approved passenger stop request
+  estimated_arrival?: string;
   created_at?: string;
 }
 
@@ -115,6 +206,62 @@ export interface SegmentSeat {
   created_at?: string;
 }
 
+export interface CustomStopRequest {
+  id: number;
+  ride_id: number;
+  booking_id?: number;
+  passenger_id: string;
+  address: string;
+  lat: number;
+  lng: number;
+  stop_type: 'pickup' | 'dropoff';
+  insert_after_order: number; // segment_order of the stop the new stop follows
+  detour_minutes: number;
+  detour_km: number;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  segment_id?: number; // Set once approved
+  rejection_reason?: string;
+  responded_at?: string;
+  created_at?: string;
+  passenger?: User;
+}
+
+export interface SavedSearch {
+  id: number;
+  user_id: string;
+  name?: string;
+  from_location: string;
+  to_location: string;
+  from_lat?: number;
+  from_lng?: number;
+  to_lat?: number;
+  to_lng?: number;
+  search_date?: string | null; // YYYY-MM-DD for a one-off search
+  weekdays?: number[] | null; // 0 = Sunday, for recurring searches
+  max_price?: number | null;
+  seats: number;
+  is_active: boolean;
+  last_matched_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RideAlert {
+  id: number;
+  saved_search_id: number;
+  user_id: string;
+  ride_id: number;
+  from_segment_id?: number;
+  to_segment_id?: number;
+  pickup_address: string;
+  dropoff_address: string;
+  pickup_time: string;
+  segment_price: number;
+  notified_at?: string;
+  created_at?: string;
+  saved_search?: SavedSearch;
+}
+
 export interface Conversation {
   id: number;
   booking_id?: number;
@@ -167,10 +314,12 @@ export interface Earning {
   amount: number; // Net amount after service fee deduction
   gross_amount: number; // Total payment from passenger before service fee
   service_fee_amount: number; // Platform service fee amount
-  service_fee_percentage: number; // Service fee percentage (default 15%)
+  service_fee_percentage: number; // Percentage part of the applied fee rule
+  fee_rule_snapshot?: PlatformFeeRuleSnapshot | null; // Platform fee rule applied when the earning was created
   earning_date: string;
   status: 'pending' | 'available' | 'requested' | 'processing' | 'paid';
   payout_id?: string;
+  payout_request_id?: string | null;
   description?: string;
   created_at?: string;
   updated_at?: string;
@@ -178,13 +327,29 @@ export interface Earning {
   booking?: RideBooking;
 }
 
+export interface PlatformFeeRuleSnapshot {
+  key: string;
+  name: string;
+  percentage: number;
+  fixed_fee: number;
+  minimum_fee: number;
+  region?: string | null;
+  driver_tier?: string | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  priority: number;
+}
+
 export interface PayoutRequest {
   id: string;
   driver_id: string;
   amount: number;
-  status: 'pending' | 'approved' | 'rejected' | 'paid';
-  payment_method?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'processing' | 'paid' | 'failed' | 'needs_review'; // processing, paid, failed and needs_review for Stripe Connect payouts
+  payment_method?: string; // 'stripe_connect', or 'bank_transfer' / 'paypal' for older manual requests
   payment_details?: any;
+  stripe_transfer_id?: string;
+  stripe_payout_id?: string;
+  failure_reason?: string;
   requested_at?: string;
   processed_at?: string;
   notes?: string;
@@ -1,3 +1,5 @@
+import { routingService } from '../lib/routingService';
+
 // Calculate distance between two coordinates using Haversine formula
 export const calculateDistance = (
   lat1: number,
@@ -47,88 +49,36 @@ export const calculatePrice = (distanceKm: number, baseRatePerKm: number = 0.5):
   return Math.max(basePrice, minimumPrice);
 };
 
-// Enhanced routing with multiple free services for improved reliability
+// Route between two points through the configured routing providers
+// (see lib/routingService). Falls back to Haversine when every provider fails.
 export const getRouteInfo = async (
   fromLat: number,
   fromLng: number,
   toLat: number,
-  toLng: number
-) => {
-  // Try multiple routing services in order of preference
-  const routingServices = [
-    {
-      name: 'OSRM',
-      url: `https://router.project-osrm.org/route/v1/driving/${fromLng},${fromLat};${toLng},${toLat}?overview=false&alternatives=false&steps=false`,
-      parseResponse: (data: any) => {
-        if (data.routes && data.routes.length > 0) {
-          const route = data.routes[0];
-          return {
-            distance: Math.round(route.distance / 1000 * 100) / 100,
-            duration: Math.round(route.duration / 60),
-          };
-        }
-        return null;
-      }
-    },
-    {
-      name: 'GraphHopper',
-      url: `https://graphhopper.com/api/1/route?point=${fromLat},${fromLng}&point=${toLat},${toLng}&vehicle=car&locale=en&calc_points=false&debug=false&elevation=false&type=json`,
-      parseResponse: (data: any) => {
-        if (data.paths && data.paths.length > 0) {
-          const path = data.paths[0];
-          return {
-            distance: Math.round(path.distance / 1000 * 100) / 100,
-            duration: Math.round(path.time / 60000), // Convert ms to minutes
-          };
-        }
-        return null;
-      }
-    }
-  ];
-
-  // Try each routing service
-  for (const service of routingServices) {
-    try {
-      console.log(`${service.name} API Call:`, service.url);
-      
-      const response = await fetch(service.url);
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`${service.name} Response:`, data);
-        
-        const result = service.parseResponse(data);
-        if (result) {
-          console.log(`${service.name} route calculation result:`, result);
-          return result;
-        }
-      } else {
-        console.warn(`${service.name} API returned ${response.status}: ${response.statusText}`);
-      }
-    } catch (error) {
-      console.warn(`Error fetching route from ${service.name}:`, error);
-    }
-  }
+  toLng: number,
+  departureTime?: Date
+): Promise<{ distance: number; duration: number; provider: string }> => {
+  const result = await routingService.route([
+    { lat: fromLat, lng: fromLng },
+    { lat: toLat, lng: toLng },
+  ], { departureTime });
 
-  // All services failed, use fallback calculation
-  console.log('All routing services failed, using Haversine fallback');
-  const distance = calculateDistance(fromLat, fromLng, toLat, toLng);
-  const duration = calculateETA(distance);
-  console.log('Fallback calculation used:', { distance, duration });
-  
   return {
-    distance,
-    duration,
+    distance: result.distance,
+    duration: result.duration,
+    provider: result.provider,
   };
 };
 
 // Calculate route information for multiple stops
 export const getMultiStopRouteInfo = async (
-  coordinates: Array<{ lat: number; lng: number }>
+  coordinates: Array<{ lat: number; lng: number }>,
+  departureTime?: Date
 ): Promise<{
   totalDistance: number;
   totalDuration: number;
   segments: Array<{ distance: number; duration: number; from: number; to: number }>;
+  provider: string;
 }> => {
   console.log('Multi-stop route calculation for coordinates:', coordinates);
   
@@ -138,6 +88,7 @@ export const getMultiStopRouteInfo = async (
       totalDistance: 0,
       totalDuration: 0,
       segments: [],
+      provider: 'none',
     };
   }
 
@@ -151,97 +102,30 @@ export const getMultiStopRouteInfo = async (
     return fallbackMultiStopCalculation(coordinates);
   }
 
-  // Try multiple routing services for multi-stop routes
-  const multiStopServices = [
-    {
-      name: 'OSRM',
-      tryRoute: async () => {
-        const coordString = coordinates
-          .map(coord => `${coord.lng},${coord.lat}`)
-          .join(';');
-
-        const url = `https://router.project-osrm.org/route/v1/driving/${coordString}?overview=false&alternatives=false&steps=false`;
-        console.log('OSRM Multi-stop API Call:', url);
+  const result = await routingService.route(coordinates, { departureTime });
+  console.log(`${result.provider} Multi-stop result:`, result);
 
-        const response = await fetch(url);
-
-        if (response.ok) {
-          const data = await response.json();
-          console.log('OSRM Multi-stop Response:', data);
-          
-          if (data.routes && data.routes.length > 0) {
-            const route = data.routes[0];
-            const legs = route.legs || [];
-            
-            const segments = legs.map((leg: any, index: number) => ({
-              distance: Math.round(leg.distance / 1000 * 100) / 100,
-              duration: Math.round(leg.duration / 60),
-              from: index,
-              to: index + 1,
-            }));
-
-            return {
-              totalDistance: Math.round(route.distance / 1000 * 100) / 100,
-              totalDuration: Math.round(route.duration / 60),
-              segments,
-            };
-          }
-        }
-        return null;
-      }
-    },
-    {
-      name: 'GraphHopper-Sequential',
-      tryRoute: async () => {
-        // GraphHopper doesn't support multi-stop directly, so calculate segments sequentially
-        const segments = [];
-        let totalDistance = 0;
-        let totalDuration = 0;
-
-        for (let i = 0; i < coordinates.length - 1; i++) {
-          const from = coordinates[i];
-          const to = coordinates[i + 1];
-          
-          try {
-            const segmentInfo = await getRouteInfo(from.lat, from.lng, to.lat, to.lng);
-            segments.push({
-              distance: segmentInfo.distance,
-              duration: segmentInfo.duration,
-              from: i,
-              to: i + 1,
-            });
-            totalDistance += segmentInfo.distance;
-            totalDuration += segmentInfo.duration;
-          } catch (error) {
-            console.warn(`GraphHopper segment ${i}->${i+1} failed:`, error);
-            return null; // If any segment fails, abandon this service
-          }
-        }
+  return {
+    totalDistance: result.distance,
+    totalDuration: result.duration,
+    segments: result.legs,
+    provider: result.provider,
+  };
+};
 
-        return {
-          totalDistance: Math.round(totalDistance * 100) / 100,
-          totalDuration: Math.round(totalDuration),
-          segments,
-        };
-      }
-    }
-  ];
-
-  // Try each service
-  for (const service of multiStopServices) {
-    try {
-      const result = await service.tryRoute();
-      if (result) {
-        console.log(`${service.name} Multi-stop result:`, result);
-        return result;
-      }
-    } catch (error) {
-      console.warn(`${service.name} multi-stop routing failed:`, error);
-    }
+// Full road geometry through the given stops, used to store a ride's path.
+// Falls back to straight lines between the stops when no provider returns one.
+export const getRouteGeometry = async (
+  coordinates: Array<{ lat: number; lng: number }>,
+  departureTime?: Date
+): Promise<Array<{ lat: number; lng: number }>> => {
+  if (coordinates.length < 2) {
+    return coordinates;
   }
 
-  // Fallback: calculate each segment individually using Haversine formula
-  return fallbackMultiStopCalculation(coordinates);
+  const result = await routingService.route(coordinates, { departureTime, includeGeometry: true });
+
+  return result.geometry && result.geometry.length >= 2 ? result.geometry : coordinates;
 };
 
 // Enhanced fallback calculation for multi-stop routes with better estimates
@@ -294,6 +178,7 @@ const fallbackMultiStopCalculation = (coordinates: Array<{ lat: number; lng: num
     totalDistance: Math.round(totalDistance * 100) / 100,
     totalDuration: Math.round(totalDuration),
     segments,
+    provider: 'estimate',
   };
   
   console.log('Enhanced fallback multi-stop result:', result);
@@ -419,7 +304,7 @@ export const calculateRealTimeETAs = async (
     console.log('Valid Stops:', validStops.map(s => ({ name: s.name, lat: s.lat, lng: s.lng })));
 
     // Get real-time route information from multiple routing services
-    const routeInfo = await getMultiStopRouteInfo(coordinates);
+    const routeInfo = await getMultiStopRouteInfo(coordinates, baseTime);
     console.log('Multi-service Route Info:', routeInfo);
     
     // Validate routing results for realism
@@ -0,0 +1,65 @@
+// Encoded polyline helpers (Google polyline algorithm). OSRM and GraphHopper
+// use precision 5 by default, Valhalla uses precision 6.
+
+export const encodePolyline = (
+  points: Array<{ lat: number; lng: number }>,
+  precision: number = 5
+): string => {
+  const factor = Math.pow(10, precision);
+  let output = '';
+  let previousLat = 0;
+  let previousLng = 0;
+
+  const encodeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = '';
+    while (shifted >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    chunk += String.fromCharCode(shifted + 63);
+    return chunk;
+  };
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * factor);
+    const lng = Math.round(point.lng * factor);
+
+    output += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return output;
+};
+
+export const decodePolyline = (
+  encoded: string,
+  precision: number = 5
+): Array<{ lat: number; lng: number }> => {
+  const factor = Math.pow(10, precision);
+  const points: Array<{ lat: number; lng: number }> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeValue();
+    lng += decodeValue();
+    points.push({ lat: lat / factor, lng: lng / factor });
+  }
+
+  return points;
+};
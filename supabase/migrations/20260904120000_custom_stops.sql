@@ -0,0 +1,81 @@
+-- Custom stops (src/lib/customStopService). A passenger asks for a pickup or
+-- drop-off on their booking; the ride's driver approves or rejects it.
+-- Passengers can create and read their own requests, drivers can read and
+-- answer the requests on their rides, and the request itself (point, booking,
+-- passenger) can't be changed once made.
+
+alter table rides add column if not exists max_detour_minutes integer check (max_detour_minutes >= 0);
+alter table ride_segments add column if not exists is_custom_stop boolean not null default false;
+
+create table if not exists custom_stop_requests (
+  id bigserial primary key,
+  ride_id bigint not null references rides (id) on delete cascade,
+  booking_id bigint references ride_bookings (id) on delete cascade,
+  passenger_id uuid not null,
+  address text not null,
+  lat double precision not null,
+  lng double precision not null,
+  stop_type text not null check (stop_type in ('pickup', 'dropoff')),
+  insert_after_order integer not null,
+  detour_minutes numeric(10, 2) not null default 0,
+  detour_km numeric(10, 2) not null default 0,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'cancelled')),
+  segment_id bigint references ride_segments (id) on delete set null,
+  rejection_reason text,
+  responded_at timestamptz,
+  created_at timestamptz not null default now(),
+  -- Named for the embedded select in CustomStopService.getPendingRequests
+  constraint custom_stop_requests_passenger_id_fkey foreign key (passenger_id) references users (id) on delete cascade
+);
+
+create index if not exists custom_stop_requests_ride_id_idx on custom_stop_requests (ride_id, status);
+create index if not exists custom_stop_requests_booking_id_idx on custom_stop_requests (booking_id);
+
+alter table custom_stop_requests enable row level security;
+
+drop policy if exists "Passengers can read their stop requests" on custom_stop_requests;
+create policy "Passengers can read their stop requests" on custom_stop_requests
+  for select using (auth.uid() = passenger_id);
+
+drop policy if exists "Passengers can request stops on their bookings" on custom_stop_requests;
+create policy "Passengers can request stops on their bookings" on custom_stop_requests
+  for insert with check (
+    auth.uid() = passenger_id
+    and status = 'pending'
+    and segment_id is null
+    and responded_at is null
+    and exists (
+      select 1 from ride_bookings b
+      where b.id = custom_stop_requests.booking_id
+        and b.ride_id = custom_stop_requests.ride_id
+        and b.passenger_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Drivers can read stop requests on their rides" on custom_stop_requests;
+create policy "Drivers can read stop requests on their rides" on custom_stop_requests
+  for select using (
+    exists (
+      select 1 from rides r
+      where r.id = custom_stop_requests.ride_id and r.driver_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Drivers can answer stop requests on their rides" on custom_stop_requests;
+create policy "Drivers can answer stop requests on their rides" on custom_stop_requests
+  for update using (
+    exists (
+      select 1 from rides r
+      where r.id = custom_stop_requests.ride_id and r.driver_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from rides r
+      where r.id = custom_stop_requests.ride_id and r.driver_id = auth.uid()
+    )
+  );
+
+-- Answering re-checks the detour, so those columns move with the status
+revoke update, delete on custom_stop_requests from anon, authenticated;
+grant update (status, segment_id, insert_after_order, detour_minutes, detour_km, rejection_reason, responded_at)
+  on custom_stop_requests to authenticated;
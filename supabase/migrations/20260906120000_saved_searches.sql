@@ -0,0 +1,90 @@
+-- Saved searches and ride alerts. Passengers manage their own saved searches;
+-- the ride alerts cron (api/rides/alerts) matches new rides against them with
+-- the service role and writes ride_alert_notifications, which the app picks up
+-- in realtime. Passengers can only read their alerts and mark them notified.
+
+create table if not exists saved_searches (
+  id bigserial primary key,
+  user_id uuid not null references users (id) on delete cascade,
+  name text,
+  from_location text not null,
+  to_location text not null,
+  from_lat double precision,
+  from_lng double precision,
+  to_lat double precision,
+  to_lng double precision,
+  search_date date,
+  weekdays smallint[] check (weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  max_price numeric(10, 2) check (max_price > 0),
+  seats integer not null default 1 check (seats > 0),
+  is_active boolean not null default true,
+  last_matched_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (search_date is not null or cardinality(weekdays) > 0)
+);
+
+create index if not exists saved_searches_user_id_idx on saved_searches (user_id);
+create index if not exists saved_searches_active_idx on saved_searches (is_active) where is_active;
+
+alter table saved_searches enable row level security;
+
+drop policy if exists "Users can read their saved searches" on saved_searches;
+create policy "Users can read their saved searches" on saved_searches
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can create their saved searches" on saved_searches;
+create policy "Users can create their saved searches" on saved_searches
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their saved searches" on saved_searches;
+create policy "Users can update their saved searches" on saved_searches
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their saved searches" on saved_searches;
+create policy "Users can delete their saved searches" on saved_searches
+  for delete using (auth.uid() = user_id);
+
+create table if not exists ride_alert_notifications (
+  id bigserial primary key,
+  saved_search_id bigint not null references saved_searches (id) on delete cascade,
+  user_id uuid not null references users (id) on delete cascade,
+  ride_id bigint not null references rides (id) on delete cascade,
+  from_segment_id bigint,
+  to_segment_id bigint,
+  pickup_address text not null,
+  dropoff_address text not null,
+  pickup_time text not null,
+  segment_price numeric(10, 2) not null,
+  notified_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (saved_search_id, ride_id)
+);
+
+create index if not exists ride_alert_notifications_user_id_idx on ride_alert_notifications (user_id, created_at);
+create index if not exists ride_alert_notifications_ride_id_idx on ride_alert_notifications (ride_id);
+
+alter table ride_alert_notifications enable row level security;
+
+drop policy if exists "Users can read their ride alerts" on ride_alert_notifications;
+create policy "Users can read their ride alerts" on ride_alert_notifications
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can mark their ride alerts notified" on ride_alert_notifications;
+create policy "Users can mark their ride alerts notified" on ride_alert_notifications
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+revoke insert, update, delete on ride_alert_notifications from anon, authenticated;
+grant update (notified_at) on ride_alert_notifications to authenticated;
+
+-- NotificationService subscribes to new alerts
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and tablename = 'ride_alert_notifications'
+  ) then
+    alter publication supabase_realtime add table ride_alert_notifications;
+  end if;
+end;
+$$;
@@ -0,0 +1,101 @@
+-- Recurring rides: a driver's commute template, and the ordinary rides rows
+-- generated from it (recurring_ride_id and occurrence_date). Drivers manage
+-- their own templates. A skipped occurrence keeps its row in the 'skipped'
+-- status so it is not generated again; only an active occurrence nobody has
+-- booked can be skipped, so skipping never hides a cancellation from
+-- record_driver_cancellation, which counts 'cancelled' rides.
+-- Occurrences are generated by the recurring rides API with the service role
+-- (api/_lib/recurringRides), in the template's time_zone; it saves the dates
+-- it could not post in conflicts.
+
+create table if not exists recurring_rides (
+  id bigserial primary key,
+  driver_id uuid not null references users (id) on delete cascade,
+  from_location text not null,
+  to_location text not null,
+  from_lat double precision,
+  from_lng double precision,
+  to_lat double precision,
+  to_lng double precision,
+  stops jsonb,
+  departure_time time not null,
+  weekdays smallint[] not null check (cardinality(weekdays) > 0 and weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  start_date date not null,
+  end_date date not null,
+  estimated_duration integer,
+  available_seats integer not null check (available_seats > 0),
+  price_per_seat numeric(10, 2) not null check (price_per_seat > 0),
+  car_model text,
+  car_color text,
+  license_plate text,
+  description text,
+  max_detour_minutes integer,
+  cancellation_policy text,
+  route_polyline text,
+  time_zone text not null default 'America/Toronto',
+  status text not null default 'active' check (status in ('active', 'paused', 'ended')),
+  materialized_until date,
+  conflicts jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists recurring_rides_driver_id_idx on recurring_rides (driver_id);
+
+alter table recurring_rides enable row level security;
+
+drop policy if exists "Drivers can read their recurring rides" on recurring_rides;
+create policy "Drivers can read their recurring rides" on recurring_rides
+  for select using (auth.uid() = driver_id);
+
+drop policy if exists "Drivers can create their recurring rides" on recurring_rides;
+create policy "Drivers can create their recurring rides" on recurring_rides
+  for insert with check (auth.uid() = driver_id);
+
+drop policy if exists "Drivers can update their recurring rides" on recurring_rides;
+create policy "Drivers can update their recurring rides" on recurring_rides
+  for update using (auth.uid() = driver_id) with check (auth.uid() = driver_id);
+
+alter table rides add column if not exists recurring_ride_id bigint references recurring_rides (id) on delete set null;
+alter table rides add column if not exists occurrence_date date;
+
+create unique index if not exists rides_recurring_occurrence_idx
+  on rides (recurring_ride_id, occurrence_date)
+  where recurring_ride_id is not null;
+
+alter table rides drop constraint if exists rides_status_check;
+alter table rides add constraint rides_status_check
+  check (status in ('active', 'completed', 'cancelled', 'skipped'));
+
+create or replace function check_ride_skip()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status <> 'skipped' or (tg_op = 'UPDATE' and old.status = 'skipped') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT'
+    or new.recurring_ride_id is null
+    or old.status <> 'active' then
+    raise exception 'ride_not_skippable' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1 from ride_bookings
+    where ride_id = new.id and status in ('pending', 'confirmed')
+  ) then
+    raise exception 'ride_has_passengers' using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_ride_skip on rides;
+create trigger check_ride_skip
+  before insert or update of status on rides
+  for each row execute function check_ride_skip();
@@ -0,0 +1,103 @@
+-- Cancellation policies are data: ops edit the active rows without a deploy,
+-- and everyone can read them to show a ride's policy. Drivers pick one per
+-- ride (rides.cancellation_policy). Each booking keeps the policy it was made
+-- under in cancellation_policy_snapshot, which the refund calculation in the
+-- booking transitions API reads. The snapshot is taken here from the ride's
+-- policy when the booking is created; a passenger can't supply or change it.
+
+create table if not exists cancellation_policies (
+  key text primary key,
+  name text not null,
+  description text,
+  tiers jsonb not null default '[]'::jsonb,
+  grace_period_minutes integer not null default 0 check (grace_period_minutes >= 0),
+  grace_min_hours_before numeric not null default 0 check (grace_min_hours_before >= 0),
+  no_show_refund_percent numeric not null default 0 check (no_show_refund_percent between 0 and 100),
+  driver_cancel_counts_as_warning boolean not null default true,
+  is_default boolean not null default false,
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists cancellation_policies_default_idx
+  on cancellation_policies (is_default)
+  where is_default;
+
+alter table cancellation_policies enable row level security;
+
+drop policy if exists "Anyone can read active cancellation policies" on cancellation_policies;
+create policy "Anyone can read active cancellation policies" on cancellation_policies
+  for select using (is_active);
+
+revoke insert, update, delete on cancellation_policies from anon, authenticated;
+
+-- Same as DEFAULT_CANCELLATION_POLICIES in src/lib/cancellationPolicy.ts
+insert into cancellation_policies (
+  key, name, description, tiers, grace_period_minutes, grace_min_hours_before,
+  no_show_refund_percent, driver_cancel_counts_as_warning, is_default, sort_order
+) values
+  ('flexible', 'Flexible', 'Full refund until 2 hours before departure',
+    '[{"min_hours_before": 2, "refund_percent": 100}, {"min_hours_before": 0, "refund_percent": 50}]',
+    60, 0, 0, true, false, 1),
+  ('moderate', 'Moderate', 'Full refund until 12 hours before departure',
+    '[{"min_hours_before": 12, "refund_percent": 100}, {"min_hours_before": 6, "refund_percent": 75}, {"min_hours_before": 2, "refund_percent": 50}, {"min_hours_before": 0, "refund_percent": 25}]',
+    30, 6, 0, true, true, 2),
+  ('strict', 'Strict', 'Full refund until 48 hours before departure',
+    '[{"min_hours_before": 48, "refund_percent": 100}, {"min_hours_before": 24, "refund_percent": 50}, {"min_hours_before": 0, "refund_percent": 0}]',
+    15, 24, 0, true, false, 3)
+on conflict (key) do nothing;
+
+alter table rides add column if not exists cancellation_policy text;
+alter table ride_bookings add column if not exists cancellation_policy_snapshot jsonb;
+
+-- The ride's active policy, or the default one. Left empty when neither
+-- exists; the API then falls back to the ride's current policy.
+create or replace function snapshot_booking_policy()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_snapshot jsonb;
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.cancellation_policy_snapshot is distinct from old.cancellation_policy_snapshot then
+      raise exception 'ride_bookings_protected_column' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  select jsonb_build_object(
+    'key', p.key,
+    'name', p.name,
+    'description', p.description,
+    'tiers', p.tiers,
+    'grace_period_minutes', p.grace_period_minutes,
+    'grace_min_hours_before', p.grace_min_hours_before,
+    'no_show_refund_percent', p.no_show_refund_percent,
+    'driver_cancel_counts_as_warning', p.driver_cancel_counts_as_warning,
+    'is_default', p.is_default
+  )
+  into v_snapshot
+  from rides r
+  join cancellation_policies p
+    on p.is_active and (p.key = r.cancellation_policy or p.is_default)
+  where r.id = new.ride_id
+  order by p.key = coalesce(r.cancellation_policy, '') desc
+  limit 1;
+
+  new.cancellation_policy_snapshot := v_snapshot;
+  return new;
+end;
+$$;
+
+drop trigger if exists snapshot_booking_policy on ride_bookings;
+create trigger snapshot_booking_policy
+  before insert or update on ride_bookings
+  for each row execute function snapshot_booking_policy();
@@ -0,0 +1,86 @@
+-- Booking status changes go through the booking transitions API
+-- (api/_lib/bookingTransitions) with the service role. It claims a booking
+-- in transition_to and transition_claimed_at before settling its payment, and
+-- records every attempt in booking_events. Passengers and drivers can read
+-- their bookings' events; only the API writes them, or moves a booking.
+
+alter table ride_bookings add column if not exists transition_to text;
+alter table ride_bookings add column if not exists transition_claimed_at timestamptz;
+
+alter table ride_bookings drop constraint if exists ride_bookings_transition_to_check;
+alter table ride_bookings add constraint ride_bookings_transition_to_check
+  check (transition_to in ('waitlisted', 'offered', 'pending', 'confirmed', 'rejected', 'cancelled', 'timeout_cancelled', 'completed'));
+
+create index if not exists ride_bookings_response_deadline_idx
+  on ride_bookings (response_deadline)
+  where status in ('pending', 'offered', 'waitlisted');
+
+create table if not exists booking_events (
+  id bigserial primary key,
+  booking_id bigint not null references ride_bookings (id) on delete cascade,
+  ride_id bigint not null references rides (id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  reason text not null,
+  actor_id uuid references users (id) on delete set null,
+  payment_status text,
+  refund_amount numeric(10, 2),
+  succeeded boolean not null,
+  error text,
+  metadata jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_events_booking_id_idx on booking_events (booking_id, created_at);
+
+alter table booking_events enable row level security;
+
+drop policy if exists "Passengers and drivers can read their booking events" on booking_events;
+create policy "Passengers and drivers can read their booking events" on booking_events
+  for select using (
+    exists (
+      select 1
+      from ride_bookings b
+      join rides r on r.id = b.ride_id
+      where b.id = booking_events.booking_id
+        and (b.passenger_id = auth.uid() or r.driver_id = auth.uid())
+    )
+  );
+
+revoke insert, update, delete on booking_events from anon, authenticated;
+
+-- A new booking starts as a request or a waitlist entry; every later status,
+-- and the claim on it, is set by the API
+create or replace function protect_booking_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.status not in ('pending', 'waitlisted')
+      or new.transition_to is not null
+      or new.transition_claimed_at is not null then
+      raise exception 'ride_bookings_protected_column' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if new.status is distinct from old.status
+    or new.transition_to is distinct from old.transition_to
+    or new.transition_claimed_at is distinct from old.transition_claimed_at then
+    raise exception 'ride_bookings_protected_column' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_booking_status on ride_bookings;
+create trigger protect_booking_status
+  before insert or update on ride_bookings
+  for each row execute function protect_booking_status();
@@ -0,0 +1,24 @@
+-- Payment webhook idempotency (api/_lib/webhookEvents). Each Stripe or PayPal
+-- delivery is claimed here before it is handled; the unique key makes a
+-- repeat delivery fail its claim. Only the webhook functions use the table,
+-- with the service role, so RLS is on with no policies.
+
+create table if not exists processed_webhook_events (
+  id bigserial primary key,
+  provider text not null check (provider in ('stripe', 'paypal')),
+  event_id text not null,
+  event_type text not null,
+  status text not null default 'processing' check (status in ('processing', 'processed', 'failed')),
+  error text,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  unique (provider, event_id)
+);
+
+create index if not exists processed_webhook_events_status_idx
+  on processed_webhook_events (status, received_at)
+  where status <> 'processed';
+
+alter table processed_webhook_events enable row level security;
+
+revoke all on processed_webhook_events from anon, authenticated;
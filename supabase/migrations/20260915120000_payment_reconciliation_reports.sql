@@ -0,0 +1,18 @@
+-- Daily payment reconciliation reports (api/_lib/reconciliation). The
+-- reconciliation function upserts one report per UTC day and record source
+-- with the service role. App users can't write reports, and with no read
+-- policy they can't see them either.
+
+create table if not exists payment_reconciliation_reports (
+  id bigserial primary key,
+  report_date date not null,
+  source text not null,
+  generated_at timestamptz not null default now(),
+  summary jsonb not null default '{}'::jsonb,
+  discrepancies jsonb not null default '[]'::jsonb,
+  unique (report_date, source)
+);
+
+alter table payment_reconciliation_reports enable row level security;
+
+revoke insert, update, delete on payment_reconciliation_reports from anon, authenticated;
@@ -0,0 +1,46 @@
+-- Hold renewal (api/payments/holds) re-authorizes payments before the
+-- processor drops them, charging the passenger's saved card off-session
+-- through their Stripe customer.
+
+-- One Stripe customer per user. The unique index stops two concurrent first
+-- payments from storing different customers for the same user.
+alter table users add column if not exists stripe_customer_id text;
+
+create unique index if not exists users_stripe_customer_id_key
+  on users (stripe_customer_id)
+  where stripe_customer_id is not null;
+
+alter table payments add column if not exists reauthorized_at timestamptz;
+alter table payments add column if not exists reauthorization_count integer not null default 0;
+alter table payments add column if not exists reauthorization_failed_at timestamptz;
+alter table payments add column if not exists failure_reason text;
+
+create index if not exists payments_open_holds_expiry_idx
+  on payments (expires_at)
+  where status in ('authorized', 'requires_capture');
+
+-- The customer is only set by the API with the service role; pointing it at
+-- someone else's customer would charge their saved cards
+create or replace function protect_stripe_customer()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if (tg_op = 'INSERT' and new.stripe_customer_id is not null)
+    or (tg_op = 'UPDATE' and new.stripe_customer_id is distinct from old.stripe_customer_id) then
+    raise exception 'users_protected_column' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_stripe_customer on users;
+create trigger protect_stripe_customer
+  before insert or update on users
+  for each row execute function protect_stripe_customer();
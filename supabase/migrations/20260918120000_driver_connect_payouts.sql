@@ -0,0 +1,63 @@
+-- Driver payouts through Stripe Connect Express accounts (api/_lib/driverPayouts).
+-- The account and its onboarding state come from Stripe through the API;
+-- drivers only choose how often they are paid out.
+
+alter table users add column if not exists stripe_connect_account_id text;
+alter table users add column if not exists stripe_connect_details_submitted boolean not null default false;
+alter table users add column if not exists stripe_connect_payouts_enabled boolean not null default false;
+alter table users add column if not exists payout_schedule text not null default 'manual';
+
+alter table users drop constraint if exists users_payout_schedule_check;
+alter table users add constraint users_payout_schedule_check
+  check (payout_schedule in ('manual', 'daily', 'weekly'));
+
+create unique index if not exists users_stripe_connect_account_id_key
+  on users (stripe_connect_account_id)
+  where stripe_connect_account_id is not null;
+
+alter table payout_requests add column if not exists stripe_transfer_id text;
+alter table payout_requests add column if not exists stripe_payout_id text;
+alter table payout_requests add column if not exists failure_reason text;
+
+-- needs_review: the bank payout failed and the transfer could not be reversed
+alter table payout_requests drop constraint if exists payout_requests_status_check;
+alter table payout_requests add constraint payout_requests_status_check
+  check (status in ('pending', 'approved', 'rejected', 'processing', 'paid', 'failed', 'needs_review'));
+
+create index if not exists payout_requests_stripe_payout_id_idx
+  on payout_requests (stripe_payout_id)
+  where stripe_payout_id is not null;
+
+create or replace function protect_connect_account()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.stripe_connect_account_id is not null
+      or new.stripe_connect_details_submitted
+      or new.stripe_connect_payouts_enabled then
+      raise exception 'users_protected_column' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if new.stripe_connect_account_id is distinct from old.stripe_connect_account_id
+    or new.stripe_connect_details_submitted is distinct from old.stripe_connect_details_submitted
+    or new.stripe_connect_payouts_enabled is distinct from old.stripe_connect_payouts_enabled then
+    raise exception 'users_protected_column' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_connect_account on users;
+create trigger protect_connect_account
+  before insert or update on users
+  for each row execute function protect_connect_account();
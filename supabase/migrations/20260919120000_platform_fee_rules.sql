@@ -0,0 +1,37 @@
+-- Platform fee schedule (api/_lib/platformFees). Ops edit the active rows to
+-- change the fee taken from driver earnings without a deploy. The earnings
+-- API reads the rules and the driver's tier with the service role and
+-- snapshots the applied rule on each earning. The app reads the rule through
+-- the API, so clients get no access to the table.
+
+create table if not exists platform_fee_rules (
+  key text primary key,
+  name text not null,
+  description text,
+  percentage numeric(5, 2) not null default 0 check (percentage between 0 and 100),
+  fixed_fee numeric(10, 2) not null default 0 check (fixed_fee >= 0),
+  minimum_fee numeric(10, 2) not null default 0 check (minimum_fee >= 0),
+  region text,
+  driver_tier text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  priority integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_at is null or starts_at is null or ends_at > starts_at)
+);
+
+alter table platform_fee_rules enable row level security;
+
+revoke all on platform_fee_rules from anon, authenticated;
+
+-- Same as DEFAULT_PLATFORM_FEE_RULES in api/_lib/platformFees.ts
+insert into platform_fee_rules (key, name, description, percentage)
+values ('standard', 'Standard', 'Standard platform fee', 15)
+on conflict (key) do nothing;
+
+-- Set by ops; protect_user_standing keeps users from changing it
+alter table users add column if not exists driver_tier text;
+
+alter table earnings add column if not exists fee_rule_snapshot jsonb;
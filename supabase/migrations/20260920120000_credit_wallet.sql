@@ -0,0 +1,72 @@
+-- Promo codes, their redemptions and wallet credit. The wallet balance is the
+-- sum of a user's credit_transactions. Only the service role writes these
+-- tables. The read policies and the functions that spend, return and redeem
+-- are in 20261019090000_wallet_and_promo_server_writes.sql.
+
+create table if not exists promo_codes (
+  id bigserial primary key,
+  code text not null unique check (code = upper(trim(code))),
+  kind text not null default 'promo' check (kind in ('promo', 'referral')),
+  discount_type text not null check (discount_type in ('percent', 'fixed')),
+  value numeric(10, 2) not null check (value > 0),
+  max_discount numeric(10, 2) check (max_discount > 0),
+  starts_at timestamptz,
+  expires_at timestamptz,
+  max_uses integer check (max_uses > 0),
+  per_user_limit integer check (per_user_limit > 0),
+  first_ride_only boolean not null default false,
+  referrer_id uuid references users (id) on delete cascade,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (discount_type <> 'percent' or value <= 100),
+  check (kind <> 'referral' or referrer_id is not null)
+);
+
+-- One referral code per passenger
+create unique index if not exists promo_codes_referrer_id_idx
+  on promo_codes (referrer_id)
+  where kind = 'referral';
+
+create table if not exists promo_code_redemptions (
+  id bigserial primary key,
+  promo_code_id bigint not null references promo_codes (id) on delete cascade,
+  user_id uuid not null references users (id) on delete cascade,
+  booking_id bigint references ride_bookings (id) on delete set null,
+  discount_amount numeric(10, 2) not null check (discount_amount >= 0),
+  status text not null default 'applied' check (status in ('applied', 'reversed')),
+  reversed_at timestamptz,
+  referral_rewarded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists promo_code_redemptions_promo_code_id_idx on promo_code_redemptions (promo_code_id, user_id);
+create index if not exists promo_code_redemptions_booking_id_idx on promo_code_redemptions (booking_id);
+
+create table if not exists credit_transactions (
+  id bigserial primary key,
+  user_id uuid not null references users (id) on delete cascade,
+  amount numeric(10, 2) not null check (amount <> 0),
+  source text not null check (source in (
+    'support_goodwill', 'cancellation_refund', 'referral', 'booking_payment', 'booking_refund'
+  )),
+  booking_id bigint references ride_bookings (id) on delete set null,
+  support_ticket_id bigint references support_tickets (id) on delete set null,
+  issued_by uuid references users (id) on delete set null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_transactions_user_id_idx on credit_transactions (user_id, created_at);
+create index if not exists credit_transactions_booking_id_idx on credit_transactions (booking_id);
+
+-- The discounts recorded on a booking's payments, given back on a full refund
+alter table payments add column if not exists promo_code_id bigint references promo_codes (id) on delete set null;
+alter table payments add column if not exists promo_redemption_id bigint references promo_code_redemptions (id) on delete set null;
+
+alter table promo_codes enable row level security;
+alter table promo_code_redemptions enable row level security;
+alter table credit_transactions enable row level security;
+
+revoke insert, update, delete on promo_codes from anon, authenticated;
+revoke insert, update, delete on promo_code_redemptions from anon, authenticated;
+revoke insert, update, delete on credit_transactions from anon, authenticated;
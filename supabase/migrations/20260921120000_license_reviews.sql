@@ -0,0 +1,64 @@
+-- Driver license review (api/admin/licenses). Admins, picked out by
+-- users.role, approve or reject a pending license with the service role;
+-- each decision is a license_reviews row, the audit log, which notifies the
+-- driver in realtime. Drivers can read their own reviews and mark them
+-- notified; only the API records them.
+
+alter table users add column if not exists role text;
+alter table users drop constraint if exists users_role_check;
+alter table users add constraint users_role_check
+  check (role in ('passenger', 'admin'));
+
+alter table users add column if not exists license_rejection_reason text;
+
+alter table users drop constraint if exists users_license_verification_status_check;
+alter table users add constraint users_license_verification_status_check
+  check (license_verification_status in ('unverified', 'pending', 'verified', 'rejected'));
+
+create index if not exists users_license_pending_idx
+  on users (license_uploaded_at)
+  where license_verification_status = 'pending';
+
+create table if not exists license_reviews (
+  id bigserial primary key,
+  user_id uuid not null,
+  reviewer_id uuid not null,
+  decision text not null check (decision in ('approved', 'rejected')),
+  reason text,
+  driver_license text,
+  license_expiration_date date,
+  license_document_url text,
+  notified_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (decision = 'approved' or reason is not null),
+  -- Named for the embedded selects in api/admin/licenses.ts
+  constraint license_reviews_user_id_fkey foreign key (user_id) references users (id) on delete cascade,
+  constraint license_reviews_reviewer_id_fkey foreign key (reviewer_id) references users (id)
+);
+
+create index if not exists license_reviews_user_id_idx on license_reviews (user_id, created_at);
+
+alter table license_reviews enable row level security;
+
+drop policy if exists "Drivers can read their license reviews" on license_reviews;
+create policy "Drivers can read their license reviews" on license_reviews
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Drivers can mark their license reviews notified" on license_reviews;
+create policy "Drivers can mark their license reviews notified" on license_reviews
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+revoke insert, update, delete on license_reviews from anon, authenticated;
+grant update (notified_at) on license_reviews to authenticated;
+
+-- NotificationService subscribes to new reviews
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and tablename = 'license_reviews'
+  ) then
+    alter publication supabase_realtime add table license_reviews;
+  end if;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Staff roles (ROLE_PERMISSIONS in api/_lib/auth.ts). users.role holds the
+-- one staff role ops gave a user; passenger and driver come from the account
+-- itself. protect_user_standing keeps users from setting it.
+
+alter table users drop constraint if exists users_role_check;
+alter table users add constraint users_role_check
+  check (role in ('passenger', 'support_agent', 'finance', 'admin'));
+
+-- src/lib/reconciliationService reads reports with the signed-in user's token
+drop policy if exists "Finance can read reconciliation reports" on payment_reconciliation_reports;
+create policy "Finance can read reconciliation reports" on payment_reconciliation_reports
+  for select using (
+    exists (
+      select 1 from users u
+      where u.id = auth.uid() and u.role in ('finance', 'admin')
+    )
+  );
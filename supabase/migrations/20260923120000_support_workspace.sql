@@ -0,0 +1,113 @@
+-- Support workspace (api/admin/support). Agents assign, link and work tickets
+-- with the service role. Users open tickets and read their own; they can
+-- read the public thread of their tickets and add their own replies, but
+-- cannot touch a ticket once it is open or see internal notes and canned
+-- responses.
+
+alter table support_tickets add column if not exists assigned_to uuid references users (id) on delete set null;
+alter table support_tickets add column if not exists assigned_at timestamptz;
+alter table support_tickets add column if not exists booking_id bigint references ride_bookings (id) on delete set null;
+alter table support_tickets add column if not exists ride_id bigint references rides (id) on delete set null;
+alter table support_tickets add column if not exists payment_id bigint references payments (id) on delete set null;
+alter table support_tickets add column if not exists first_response_at timestamptz;
+alter table support_tickets add column if not exists resolved_at timestamptz;
+alter table support_tickets add column if not exists resolution_notes text;
+
+create index if not exists support_tickets_assigned_to_idx on support_tickets (assigned_to, status);
+
+-- A new ticket is open and untouched by staff; later changes are the API's
+create or replace function protect_support_ticket()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if new.status is distinct from 'open'
+    or new.assigned_to is not null
+    or new.assigned_at is not null
+    or new.ride_id is not null
+    or new.payment_id is not null
+    or new.first_response_at is not null
+    or new.resolved_at is not null
+    or new.resolution_notes is not null then
+    raise exception 'support_tickets_protected_column' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_support_ticket on support_tickets;
+create trigger protect_support_ticket
+  before insert on support_tickets
+  for each row execute function protect_support_ticket();
+
+revoke update, delete on support_tickets from anon, authenticated;
+
+create table if not exists support_ticket_replies (
+  id bigserial primary key,
+  ticket_id bigint not null references support_tickets (id) on delete cascade,
+  author_id uuid not null,
+  body text not null check (length(trim(body)) > 0),
+  from_staff boolean not null default false,
+  created_at timestamptz not null default now(),
+  -- Named for the embedded selects in api/admin/support.ts
+  constraint support_ticket_replies_author_id_fkey foreign key (author_id) references users (id) on delete cascade
+);
+
+create index if not exists support_ticket_replies_ticket_id_idx on support_ticket_replies (ticket_id, created_at);
+
+alter table support_ticket_replies enable row level security;
+
+drop policy if exists "Users can read replies on their tickets" on support_ticket_replies;
+create policy "Users can read replies on their tickets" on support_ticket_replies
+  for select using (
+    exists (
+      select 1 from support_tickets t
+      where t.id = support_ticket_replies.ticket_id and t.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Users can reply on their tickets" on support_ticket_replies;
+create policy "Users can reply on their tickets" on support_ticket_replies
+  for insert with check (
+    author_id = auth.uid()
+    and not from_staff
+    and exists (
+      select 1 from support_tickets t
+      where t.id = support_ticket_replies.ticket_id and t.user_id = auth.uid()
+    )
+  );
+
+revoke update, delete on support_ticket_replies from anon, authenticated;
+
+create table if not exists support_ticket_notes (
+  id bigserial primary key,
+  ticket_id bigint not null references support_tickets (id) on delete cascade,
+  author_id uuid not null,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now(),
+  constraint support_ticket_notes_author_id_fkey foreign key (author_id) references users (id) on delete cascade
+);
+
+create index if not exists support_ticket_notes_ticket_id_idx on support_ticket_notes (ticket_id, created_at);
+
+alter table support_ticket_notes enable row level security;
+
+revoke all on support_ticket_notes from anon, authenticated;
+
+create table if not exists support_canned_responses (
+  id bigserial primary key,
+  title text not null,
+  body text not null,
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table support_canned_responses enable row level security;
+
+revoke all on support_canned_responses from anon, authenticated;
@@ -0,0 +1,42 @@
+-- Safety incidents (api/safety/incidents). A report opens a safety support
+-- ticket and a safety_incidents row; support can freeze the reported user,
+-- which sets users.safety_hold_since, and an admin resolves the incident.
+-- Everything goes through the API with the service role, including what the
+-- reporter sees, so clients get no access to the table. protect_user_standing
+-- keeps users from clearing their own hold.
+
+alter table users add column if not exists safety_hold_since timestamptz;
+
+create table if not exists safety_incidents (
+  id bigserial primary key,
+  ticket_id bigint references support_tickets (id) on delete set null,
+  ride_id bigint references rides (id) on delete set null,
+  booking_id bigint references ride_bookings (id) on delete set null,
+  reporter_id uuid not null,
+  reported_user_id uuid,
+  priority text not null check (priority in ('high', 'critical')),
+  description text not null,
+  status text not null default 'open' check (status in ('open', 'resolved')),
+  freeze_active boolean not null default false,
+  frozen_at timestamptz,
+  frozen_by uuid references users (id) on delete set null,
+  resolution text,
+  resolution_action text check (resolution_action in ('no_action', 'warned', 'suspended', 'banned')),
+  resolved_by uuid references users (id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- Named for the embedded selects in api/safety/incidents.ts
+  constraint safety_incidents_reporter_id_fkey foreign key (reporter_id) references users (id) on delete cascade,
+  constraint safety_incidents_reported_user_id_fkey foreign key (reported_user_id) references users (id) on delete set null
+);
+
+create index if not exists safety_incidents_status_idx on safety_incidents (status, created_at);
+create index if not exists safety_incidents_reported_user_idx
+  on safety_incidents (reported_user_id)
+  where status = 'open' and freeze_active;
+create index if not exists safety_incidents_ticket_id_idx on safety_incidents (ticket_id);
+
+alter table safety_incidents enable row level security;
+
+revoke all on safety_incidents from anon, authenticated;
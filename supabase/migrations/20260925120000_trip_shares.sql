@@ -0,0 +1,42 @@
+-- In-trip SOS (api/safety/incidents) and trip share links (api/safety/share).
+-- An SOS is a critical safety incident with the rider's location; it alerts
+-- their emergency contact with a share link. A trip_shares row is that link:
+-- its random token gives a read-only view of the ride and the sharer's last
+-- location until it expires. The API reads and writes both with the service
+-- role and shows a link's view only for an unexpired token, so clients get
+-- no access to the table.
+
+alter table safety_incidents add column if not exists source text not null default 'report';
+alter table safety_incidents add column if not exists latitude double precision;
+alter table safety_incidents add column if not exists longitude double precision;
+alter table safety_incidents add column if not exists location_accuracy double precision;
+alter table safety_incidents add column if not exists contact_alerted_at timestamptz;
+
+alter table safety_incidents drop constraint if exists safety_incidents_source_check;
+alter table safety_incidents add constraint safety_incidents_source_check
+  check (source in ('report', 'sos'));
+
+-- The contact's email is alerted alongside their phone
+alter table passengers add column if not exists emergency_contact_email text;
+
+create table if not exists trip_shares (
+  id bigserial primary key,
+  token text not null unique,
+  ride_id bigint not null references rides (id) on delete cascade,
+  user_id uuid not null,
+  incident_id bigint references safety_incidents (id) on delete set null,
+  latitude double precision,
+  longitude double precision,
+  location_accuracy double precision,
+  location_updated_at timestamptz,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  -- Named for the embedded select in api/_lib/tripShares.ts
+  constraint trip_shares_user_id_fkey foreign key (user_id) references users (id) on delete cascade
+);
+
+create index if not exists trip_shares_ride_id_idx on trip_shares (ride_id);
+
+alter table trip_shares enable row level security;
+
+revoke all on trip_shares from anon, authenticated;
@@ -0,0 +1,208 @@
+-- Wallet credit, promo code redemptions and referral codes are written only
+-- by the /api/payments/wallet function with the service role. Passengers can
+-- read their own rows; the functions below do the writes that must not race.
+
+alter table credit_transactions enable row level security;
+alter table promo_code_redemptions enable row level security;
+alter table promo_codes enable row level security;
+
+drop policy if exists "Users can read their own credit" on credit_transactions;
+create policy "Users can read their own credit" on credit_transactions
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their own redemptions" on promo_code_redemptions;
+create policy "Users can read their own redemptions" on promo_code_redemptions
+  for select using (auth.uid() = user_id);
+
+-- Codes are checked by the API; clients only see their own referral code
+drop policy if exists "Users can read their own referral code" on promo_codes;
+create policy "Users can read their own referral code" on promo_codes
+  for select using (auth.uid() = referrer_id);
+
+revoke insert, update, delete on credit_transactions from anon, authenticated;
+revoke insert, update, delete on promo_code_redemptions from anon, authenticated;
+revoke insert, update, delete on promo_codes from anon, authenticated;
+
+-- Take up to p_amount of the user's balance for a booking and return what was
+-- taken. Spends for the same user run one at a time, so two bookings cannot
+-- both spend the same balance.
+create or replace function spend_credit(p_user_id uuid, p_amount numeric, p_booking_id bigint)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance numeric;
+  v_spent numeric;
+begin
+  perform pg_advisory_xact_lock(hashtext('credit_wallet:' || p_user_id::text));
+
+  select coalesce(sum(amount), 0) into v_balance
+  from credit_transactions
+  where user_id = p_user_id;
+
+  v_spent := round(least(p_amount, greatest(v_balance, 0)), 2);
+  if v_spent <= 0 then
+    return 0;
+  end if;
+
+  insert into credit_transactions (user_id, amount, source, booking_id, created_at)
+  values (p_user_id, -v_spent, 'booking_payment', p_booking_id, now());
+
+  return v_spent;
+end;
+$$;
+
+-- Put credit spent on a booking back in the wallet, never more than the
+-- booking still holds. Returns what was put back.
+create or replace function return_booking_credit(p_user_id uuid, p_amount numeric, p_booking_id bigint)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_outstanding numeric;
+  v_returned numeric;
+begin
+  perform pg_advisory_xact_lock(hashtext('credit_wallet:' || p_user_id::text));
+
+  select coalesce(-sum(amount), 0) into v_outstanding
+  from credit_transactions
+  where user_id = p_user_id
+    and booking_id = p_booking_id
+    and source in ('booking_payment', 'booking_refund');
+
+  v_returned := round(least(p_amount, v_outstanding), 2);
+  if v_returned <= 0 then
+    return 0;
+  end if;
+
+  insert into credit_transactions (user_id, amount, source, booking_id, created_at)
+  values (p_user_id, v_returned, 'booking_refund', p_booking_id, now());
+
+  return v_returned;
+end;
+$$;
+
+-- Record a use of a promo code. The code's row is locked while its usage
+-- limits are counted, so concurrent bookings cannot go over max_uses or
+-- per_user_limit. Raises promo_code_* errors the API turns into messages.
+create or replace function redeem_promo_code(
+  p_promo_code_id bigint,
+  p_user_id uuid,
+  p_booking_id bigint,
+  p_discount numeric
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promo promo_codes%rowtype;
+  v_uses integer;
+  v_redemption_id bigint;
+begin
+  select * into v_promo
+  from promo_codes
+  where id = p_promo_code_id and is_active
+  for update;
+
+  if not found then
+    raise exception 'promo_code_unavailable';
+  end if;
+
+  if v_promo.max_uses is not null then
+    select count(*) into v_uses
+    from promo_code_redemptions
+    where promo_code_id = p_promo_code_id and status = 'applied';
+
+    if v_uses >= v_promo.max_uses then
+      raise exception 'promo_code_fully_used';
+    end if;
+  end if;
+
+  if v_promo.per_user_limit is not null then
+    select count(*) into v_uses
+    from promo_code_redemptions
+    where promo_code_id = p_promo_code_id and user_id = p_user_id and status = 'applied';
+
+    if v_uses >= v_promo.per_user_limit then
+      raise exception 'promo_code_already_used';
+    end if;
+  end if;
+
+  insert into promo_code_redemptions (promo_code_id, user_id, booking_id, discount_amount, status, created_at)
+  values (p_promo_code_id, p_user_id, p_booking_id, p_discount, 'applied', now())
+  returning id into v_redemption_id;
+
+  return v_redemption_id;
+end;
+$$;
+
+-- Turn part of a cancelled booking's captured card payment into wallet
+-- credit. Never more than the card payment still holds after refunds and
+-- earlier credit refunds. Returns the credit issued.
+create or replace function issue_cancellation_credit(p_booking_id bigint, p_amount numeric)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking ride_bookings%rowtype;
+  v_card numeric;
+  v_currency text;
+  v_taken numeric;
+  v_amount numeric;
+begin
+  select * into v_booking
+  from ride_bookings
+  where id = p_booking_id
+  for update;
+
+  if not found then
+    raise exception 'booking_not_found';
+  end if;
+
+  -- Only the booking transitions API can set this status (protect_booking_status)
+  if v_booking.status <> 'cancelled' then
+    raise exception 'booking_not_cancelled';
+  end if;
+
+  select coalesce(sum(amount - coalesce(refunded_amount, 0)), 0), max(currency) into v_card, v_currency
+  from payments
+  where booking_id = p_booking_id
+    and status in ('captured', 'completed', 'succeeded')
+    and payment_method not in ('refund', 'cancellation_fee', 'credit_refund', 'promo_code', 'credit');
+
+  select coalesce(-sum(amount), 0) into v_taken
+  from payments
+  where booking_id = p_booking_id and payment_method = 'credit_refund';
+
+  v_amount := round(least(p_amount, v_card - v_taken), 2);
+  if v_amount <= 0 then
+    return 0;
+  end if;
+
+  insert into payments (booking_id, user_id, amount, currency, status, payment_method, refund_reason, refunded_at, created_at)
+  values (p_booking_id, v_booking.passenger_id, -v_amount, coalesce(v_currency, 'cad'), 'refunded', 'credit_refund', 'passenger_cancelled', now(), now());
+
+  insert into credit_transactions (user_id, amount, source, booking_id, created_at)
+  values (v_booking.passenger_id, v_amount, 'cancellation_refund', p_booking_id, now());
+
+  return v_amount;
+end;
+$$;
+
+revoke execute on function spend_credit(uuid, numeric, bigint) from public, anon, authenticated;
+revoke execute on function return_booking_credit(uuid, numeric, bigint) from public, anon, authenticated;
+revoke execute on function redeem_promo_code(bigint, uuid, bigint, numeric) from public, anon, authenticated;
+revoke execute on function issue_cancellation_credit(bigint, numeric) from public, anon, authenticated;
+
+grant execute on function spend_credit(uuid, numeric, bigint) to service_role;
+grant execute on function return_booking_credit(uuid, numeric, bigint) to service_role;
+grant execute on function redeem_promo_code(bigint, uuid, bigint, numeric) to service_role;
+grant execute on function issue_cancellation_credit(bigint, numeric) to service_role;
@@ -0,0 +1,140 @@
+-- A user's role, account standing, safety hold, driver tier and license
+-- decision on their users row are set by the API with the service role (or by
+-- ops), never by the user. Row-level security can't limit which columns an
+-- update touches, so a trigger rejects changes to them from the anon and
+-- authenticated roles. Everything else on the row stays editable by its owner.
+
+create or replace function protect_user_standing()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  -- The service role, and security definer functions running as their owner
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.role is not null
+      or coalesce(new.account_status, 'active') <> 'active'
+      or new.suspension_until is not null
+      or coalesce(new.cancellation_warnings, 0) <> 0
+      or new.safety_hold_since is not null
+      or new.driver_tier is not null
+      or coalesce(new.license_verification_status, 'unverified') not in ('unverified', 'pending') then
+      raise exception 'users_protected_column' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if new.role is distinct from old.role
+    or new.account_status is distinct from old.account_status
+    or new.suspension_until is distinct from old.suspension_until
+    or new.cancellation_warnings is distinct from old.cancellation_warnings
+    or new.last_warning_date is distinct from old.last_warning_date
+    or new.safety_hold_since is distinct from old.safety_hold_since
+    or new.driver_tier is distinct from old.driver_tier
+    -- Drivers submit a license for review; only a reviewer decides it
+    or (new.license_verification_status is distinct from old.license_verification_status
+      and new.license_verification_status not in ('unverified', 'pending')) then
+    raise exception 'users_protected_column' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_user_standing on users;
+create trigger protect_user_standing
+  before insert or update on users
+  for each row execute function protect_user_standing();
+
+-- Cancellation exceptions on a booking are granted by support through the API
+create or replace function protect_booking_exceptions()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if (tg_op = 'INSERT' and coalesce(new.can_cancel_after_confirm, false))
+    or (tg_op = 'UPDATE' and new.can_cancel_after_confirm is distinct from old.can_cancel_after_confirm) then
+    raise exception 'ride_bookings_protected_column' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_booking_exceptions on ride_bookings;
+create trigger protect_booking_exceptions
+  before insert or update on ride_bookings
+  for each row execute function protect_booking_exceptions();
+
+-- A driver cancelling a ride adds to their own cancellation warnings. The
+-- level comes from their cancelled rides in the last 30 days, so the client
+-- can only record a cancellation that happened, not pick the outcome.
+create or replace function record_driver_cancellation(p_ride_id bigint)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_driver uuid := auth.uid();
+  v_warnings integer;
+  v_count integer;
+  v_level text := 'none';
+  v_until timestamptz;
+begin
+  if not exists (
+    select 1 from rides
+    where id = p_ride_id and driver_id = v_driver and status = 'cancelled'
+  ) then
+    raise exception 'ride_not_cancelled_by_driver';
+  end if;
+
+  select coalesce(cancellation_warnings, 0) into v_warnings
+  from users
+  where id = v_driver
+  for update;
+
+  -- Includes this ride, which is already cancelled
+  select count(*) into v_count
+  from rides
+  where driver_id = v_driver
+    and status = 'cancelled'
+    and updated_at >= now() - interval '30 days';
+
+  if v_count >= 8 then
+    v_level := 'banned';
+  elsif v_count >= 6 then
+    v_level := 'suspension';
+    v_until := now() + interval '7 days';
+  elsif v_count >= 4 then
+    v_level := 'suspension';
+    v_until := now() + interval '3 days';
+  elsif v_count >= 3 then
+    v_level := 'warning';
+  end if;
+
+  if v_level <> 'none' then
+    update users
+    set cancellation_warnings = v_warnings + 1,
+        last_warning_date = now(),
+        account_status = case v_level when 'banned' then 'banned' when 'suspension' then 'suspended' else 'warned' end,
+        suspension_until = v_until,
+        updated_at = now()
+    where id = v_driver;
+  end if;
+
+  return json_build_object('cancellation_count', v_count, 'warning_level', v_level, 'suspension_until', v_until);
+end;
+$$;
+
+revoke execute on function record_driver_cancellation(bigint) from public, anon;
+grant execute on function record_driver_cancellation(bigint) to authenticated;
@@ -0,0 +1,43 @@
+-- A user on a safety hold (users.safety_hold_since, set by the safety API
+-- while a frozen incident against them is open) cannot post or book rides.
+-- The app checks this before it offers either; these triggers refuse the
+-- insert itself, so a client that skips the check gets nowhere. They run as
+-- their owner so the lookup isn't limited by the caller's policies on users.
+
+create or replace function enforce_safety_hold_on_ride()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from users where id = new.driver_id and safety_hold_since is not null) then
+    raise exception 'safety_hold' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function enforce_safety_hold_on_booking()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from users where id = new.passenger_id and safety_hold_since is not null) then
+    raise exception 'safety_hold' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_safety_hold on rides;
+create trigger enforce_safety_hold
+  before insert on rides
+  for each row execute function enforce_safety_hold_on_ride();
+
+drop trigger if exists enforce_safety_hold on ride_bookings;
+create trigger enforce_safety_hold
+  before insert on ride_bookings
+  for each row execute function enforce_safety_hold_on_booking();
@@ -0,0 +1,13 @@
+-- Driver earnings are created and updated only by the /api/payments/earnings
+-- and payout functions with the service role, which work out the platform fee
+-- themselves. Drivers can read their own earnings; nobody edits the fee
+-- schedule from the app.
+
+alter table earnings enable row level security;
+
+drop policy if exists "Drivers can read their own earnings" on earnings;
+create policy "Drivers can read their own earnings" on earnings
+  for select using (auth.uid() = driver_id);
+
+revoke insert, update, delete on earnings from anon, authenticated;
+revoke insert, update, delete on platform_fee_rules from anon, authenticated;
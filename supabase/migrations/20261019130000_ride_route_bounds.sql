@@ -0,0 +1,145 @@
+-- Bounding box of each ride's route, so /api/rides/search can skip rides
+-- whose route does not pass near the passenger before matching in code.
+-- The box covers the ride's origin and destination, its stops and every
+-- point of the stored route polyline, and is kept up to date by triggers.
+
+alter table rides add column if not exists route_min_lat double precision;
+alter table rides add column if not exists route_max_lat double precision;
+alter table rides add column if not exists route_min_lng double precision;
+alter table rides add column if not exists route_max_lng double precision;
+
+create index if not exists rides_active_route_bounds_idx
+  on rides (departure_time, route_min_lat, route_max_lat, route_min_lng, route_max_lng)
+  where status = 'active';
+
+-- Bounds of a ride's points. p_polyline is an encoded polyline (precision 5),
+-- decoded here the same way as src/utils/polyline.ts.
+create or replace function ride_route_bounds(
+  p_ride_id bigint,
+  p_from_lat double precision,
+  p_from_lng double precision,
+  p_to_lat double precision,
+  p_to_lng double precision,
+  p_polyline text,
+  out min_lat double precision,
+  out max_lat double precision,
+  out min_lng double precision,
+  out max_lng double precision
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_index integer := 1;
+  v_length integer;
+  v_byte integer;
+  v_shift integer;
+  v_result bigint;
+  v_lat bigint := 0;
+  v_lng bigint := 0;
+  v_is_lat boolean := true;
+begin
+  select min(lat), max(lat), min(lng), max(lng)
+  into min_lat, max_lat, min_lng, max_lng
+  from (
+    select p_from_lat as lat, p_from_lng as lng
+    union all
+    select p_to_lat, p_to_lng
+    union all
+    select lat, lng from ride_segments where ride_id = p_ride_id
+  ) points
+  where lat is not null and lng is not null and not (lat = 0 and lng = 0);
+
+  if p_polyline is null or p_polyline = '' then
+    return;
+  end if;
+
+  v_length := length(p_polyline);
+  while v_index <= v_length loop
+    v_result := 0;
+    v_shift := 0;
+    loop
+      exit when v_index > v_length;
+      v_byte := ascii(substr(p_polyline, v_index, 1)) - 63;
+      v_index := v_index + 1;
+      v_result := v_result | ((v_byte & 31)::bigint << v_shift);
+      v_shift := v_shift + 5;
+      exit when v_byte < 32;
+    end loop;
+
+    if v_result & 1 = 1 then
+      v_result := ~(v_result >> 1);
+    else
+      v_result := v_result >> 1;
+    end if;
+
+    if v_is_lat then
+      v_lat := v_lat + v_result;
+    else
+      v_lng := v_lng + v_result;
+      min_lat := least(coalesce(min_lat, v_lat / 1e5), v_lat / 1e5);
+      max_lat := greatest(coalesce(max_lat, v_lat / 1e5), v_lat / 1e5);
+      min_lng := least(coalesce(min_lng, v_lng / 1e5), v_lng / 1e5);
+      max_lng := greatest(coalesce(max_lng, v_lng / 1e5), v_lng / 1e5);
+    end if;
+    v_is_lat := not v_is_lat;
+  end loop;
+end;
+$$;
+
+-- Rides: recompute on every write, so the box cannot be set by hand
+create or replace function set_ride_route_bounds()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bounds record;
+begin
+  select * into v_bounds
+  from ride_route_bounds(new.id, new.from_lat, new.from_lng, new.to_lat, new.to_lng, new.route_polyline);
+
+  new.route_min_lat := v_bounds.min_lat;
+  new.route_max_lat := v_bounds.max_lat;
+  new.route_min_lng := v_bounds.min_lng;
+  new.route_max_lng := v_bounds.max_lng;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_ride_route_bounds on rides;
+create trigger set_ride_route_bounds
+  before insert or update on rides
+  for each row execute function set_ride_route_bounds();
+
+-- Stops: touch the ride so its trigger recomputes the box
+create or replace function refresh_ride_route_bounds()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    update rides set route_min_lat = null where id = old.ride_id;
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and (tg_op = 'INSERT' or new.ride_id is distinct from old.ride_id) then
+    update rides set route_min_lat = null where id = new.ride_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_ride_route_bounds on ride_segments;
+create trigger refresh_ride_route_bounds
+  after insert or update of lat, lng, ride_id or delete on ride_segments
+  for each row execute function refresh_ride_route_bounds();
+
+revoke execute on function ride_route_bounds(bigint, double precision, double precision, double precision, double precision, text) from public, anon, authenticated;
+revoke execute on function set_ride_route_bounds() from public, anon, authenticated;
+revoke execute on function refresh_ride_route_bounds() from public, anon, authenticated;
+
+-- Fill in existing rides
+update rides set route_min_lat = null;
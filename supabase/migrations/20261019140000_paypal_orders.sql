@@ -0,0 +1,27 @@
+-- PayPal orders created through /api/paypal/orders, with the user who
+-- created each one and the booking it pays for. Only that function and the
+-- booking transitions write here, with the service role; it decides who may
+-- see, approve or act on an order and its authorization.
+
+create table if not exists paypal_orders (
+  id text primary key,
+  user_id uuid not null references users (id) on delete cascade,
+  booking_id bigint references ride_bookings (id) on delete set null,
+  intent text not null check (intent in ('CAPTURE', 'AUTHORIZE')),
+  amount numeric(10, 2) not null,
+  currency text not null default 'cad',
+  authorization_id text unique,
+  capture_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists paypal_orders_booking_id_idx on paypal_orders (booking_id);
+
+alter table paypal_orders enable row level security;
+
+drop policy if exists "Users can read their own PayPal orders" on paypal_orders;
+create policy "Users can read their own PayPal orders" on paypal_orders
+  for select using (auth.uid() = user_id);
+
+revoke insert, update, delete on paypal_orders from anon, authenticated;